@@ -0,0 +1,189 @@
+/**
+ * Amortization Table Component
+ * Period-by-period schedule of the TVM registers' loan: payment, interest, principal and
+ * balance with totals, an optional extra payment each period, columns sortable by clicking their
+ * heading and CSV/JSON export
+ */
+
+import React, { useState } from 'react'
+import { TvmState } from '@/types/calculator'
+import { tryEvaluateExpression } from '@/utils/expression-evaluator'
+import {
+  AmortizationRow,
+  amortizationColumns,
+  amortizationCsv,
+  amortizationJson,
+  amortizationSchedule,
+  formatAmount,
+  TvmValues,
+} from '@/utils/finance'
+
+interface AmortizationTableProps {
+  tvm: TvmState
+  className?: string
+}
+
+const inputClassName =
+  'px-2 py-1 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-sm font-mono text-gray-900 dark:text-white'
+
+const actionClassName =
+  'text-xs px-2 py-1 bg-gray-300 dark:bg-gray-600 text-gray-900 dark:text-white rounded hover:bg-gray-400'
+
+/**
+ * Save text as a file through a temporary link
+ */
+const download = (text: string, filename: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([text], { type }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+export const AmortizationTable: React.FC<AmortizationTableProps> = ({ tvm, className = '' }) => {
+  const [extraInput, setExtraInput] = useState('')
+  const [sort, setSort] = useState<{ key: keyof AmortizationRow; descending: boolean }>({
+    key: 'period',
+    descending: false,
+  })
+  const [copied, setCopied] = useState(false)
+
+  const values = Object.fromEntries(
+    Object.entries(tvm.values).map(([variable, text]) => [variable, parseFloat(text)])
+  ) as TvmValues
+  // The extra payment is typed as an amount and paid in the direction of PMT
+  const extraResult = extraInput.trim()
+    ? tryEvaluateExpression(extraInput, { angleMode: 'rad' })
+    : null
+  const extraAmount = extraResult ? (extraResult.ok ? Math.abs(extraResult.value) : NaN) : 0
+  const result = amortizationSchedule(
+    values,
+    tvm.settings,
+    extraAmount * (Math.sign(values.pmt) || -1)
+  )
+
+  const sortBy = (key: keyof AmortizationRow) => {
+    setSort(current => ({ key, descending: current.key === key && !current.descending }))
+  }
+
+  const copyCsv = async (csv: string) => {
+    try {
+      await navigator.clipboard.writeText(csv)
+      setCopied(true)
+    } catch (err) {
+      console.error('Failed to copy to clipboard:', err)
+    }
+  }
+
+  const rows = result.ok
+    ? [...result.schedule.rows].sort(
+        (a, b) => (a[sort.key] - b[sort.key]) * (sort.descending ? -1 : 1)
+      )
+    : []
+
+  return (
+    <div className={`bg-gray-50 dark:bg-gray-700/50 rounded-lg p-4 space-y-3 ${className}`}>
+      <div className="flex flex-wrap gap-2 items-center">
+        <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300">Amortization</h3>
+        <label className="flex gap-1 items-center text-sm text-gray-700 dark:text-gray-300">
+          Extra per period
+          <input
+            value={extraInput}
+            onChange={e => setExtraInput(e.target.value)}
+            placeholder="0"
+            aria-label="Extra payment per period"
+            className={`w-24 ${inputClassName}`}
+          />
+        </label>
+        {result.ok && (
+          <>
+            <button
+              type="button"
+              onClick={() =>
+                download(amortizationCsv(result.schedule), 'amortization.csv', 'text/csv')
+              }
+              className={actionClassName}
+            >
+              CSV
+            </button>
+            <button
+              type="button"
+              onClick={() =>
+                download(amortizationJson(result.schedule), 'amortization.json', 'application/json')
+              }
+              className={actionClassName}
+            >
+              JSON
+            </button>
+            <button
+              type="button"
+              onClick={() => copyCsv(amortizationCsv(result.schedule))}
+              onBlur={() => setCopied(false)}
+              title="Copy the schedule as CSV to paste into a spreadsheet"
+              className={actionClassName}
+            >
+              {copied ? 'Copied' : 'Copy'}
+            </button>
+          </>
+        )}
+      </div>
+
+      {extraResult && !extraResult.ok && (
+        <p className="text-sm text-red-600 dark:text-red-400">{extraResult.error.message}</p>
+      )}
+      {!result.ok && extraResult?.ok !== false && (
+        <p className="text-sm text-gray-500 dark:text-gray-400">{result.message}</p>
+      )}
+
+      {result.ok && (
+        <div className="max-h-80 overflow-y-auto">
+          <table className="w-full text-sm font-mono text-right text-gray-900 dark:text-white">
+            <thead className="sticky top-0 bg-gray-50 dark:bg-gray-700">
+              <tr>
+                {amortizationColumns.map(({ key, label }) => (
+                  <th
+                    key={key}
+                    aria-sort={
+                      sort.key === key ? (sort.descending ? 'descending' : 'ascending') : 'none'
+                    }
+                    className="px-2 py-1 font-medium text-gray-500 dark:text-gray-400"
+                  >
+                    <button type="button" onClick={() => sortBy(key)} className="hover:underline">
+                      {label}
+                      {sort.key === key ? (sort.descending ? ' ▼' : ' ▲') : ''}
+                    </button>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(row => (
+                <tr key={row.period}>
+                  {amortizationColumns.map(({ key }) => (
+                    <td key={key} className="px-2 py-0.5">
+                      {key === 'period' ? row.period : formatAmount(row[key])}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+            <tfoot className="sticky bottom-0 bg-gray-50 dark:bg-gray-700 font-semibold">
+              <tr>
+                <td className="px-2 py-1">Total</td>
+                {(['payment', 'extra', 'interest', 'principal'] as const).map(key => (
+                  <td key={key} className="px-2 py-1">
+                    {formatAmount(result.schedule.totals[key])}
+                  </td>
+                ))}
+                <td />
+              </tr>
+            </tfoot>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default AmortizationTable
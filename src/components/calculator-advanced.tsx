@@ -7,7 +7,15 @@ import React, { useState } from 'react'
 import CalculatorKeyboard from '@/components/calculator-keyboard'
 import CalculatorDisplay from '@/components/calculator-display'
 import { keyboardLayouts } from '@/config/keyboard-layouts'
-import { CalculatorState } from '@/types/calculator'
+import { useCalculator } from '@/hooks/useCalculator'
+import {
+  MAX_PRECISION,
+  MIN_PRECISION,
+  complexFormOptions,
+  formatDisplay,
+  formatHistoryEntry,
+  fractionFormOptions,
+} from '@/utils/calculator-engine'
 
 interface AdvancedCalculatorProps {
   onCalculationComplete?: (result: number) => void
@@ -22,162 +30,23 @@ export const AdvancedCalculator: React.FC<AdvancedCalculatorProps> = ({
   showHistory = true,
   showSettings = true,
 }) => {
-  const [state, setState] = useState<CalculatorState>({
-    display: '0',
-    previousValue: null,
-    operation: null,
-    waitingForNewValue: false,
-    memory: 0,
-    history: [],
+  const {
+    state,
+    handleButtonClick,
+    setAngleMode,
+    setEntryMode,
+    setArithmetic,
+    setPrecision,
+    setFractionForm,
+    setComplexForm,
+    clearHistory,
+  } = useCalculator({
+    onResult: result => onCalculationComplete?.(result),
   })
 
   const [currentLayout, setCurrentLayout] = useState('standard')
-  const [isRadians, setIsRadians] = useState(true)
   const [showHistoryPanel, setShowHistoryPanel] = useState(false)
-
-  /**
-   * Handle button clicks
-   */
-  const handleButtonClick = (value: string) => {
-    setState(prevState => {
-      // Handle utility functions
-      if (value === 'clear') {
-        return {
-          display: '0',
-          previousValue: null,
-          operation: null,
-          waitingForNewValue: false,
-          memory: 0,
-          history: [...prevState.history],
-        }
-      }
-
-      if (value === 'backspace') {
-        const display = prevState.display === '0' ? '0' : prevState.display.slice(0, -1) || '0'
-        return { ...prevState, display }
-      }
-
-      if (value === 'toggle') {
-        const num = parseFloat(prevState.display)
-        return { ...prevState, display: String(num * -1) }
-      }
-
-      if (value === '=') {
-        if (prevState.operation && prevState.previousValue !== null) {
-          const result = calculateResult(
-            prevState.previousValue,
-            parseFloat(prevState.display),
-            prevState.operation
-          )
-          onCalculationComplete?.(result)
-          return {
-            display: String(result),
-            previousValue: null,
-            operation: null,
-            waitingForNewValue: true,
-            memory: prevState.memory,
-            history: [
-              ...prevState.history,
-              `${prevState.previousValue} ${prevState.operation} ${prevState.display} = ${result}`,
-            ],
-          }
-        }
-        return prevState
-      }
-
-      // Handle memory operations
-      if (value === 'M+') {
-        return {
-          ...prevState,
-          memory: prevState.memory + parseFloat(prevState.display),
-          display: '0',
-        }
-      }
-
-      if (value === 'M-') {
-        return {
-          ...prevState,
-          memory: prevState.memory - parseFloat(prevState.display),
-          display: '0',
-        }
-      }
-
-      if (value === 'MR') {
-        return { ...prevState, display: String(prevState.memory), waitingForNewValue: true }
-      }
-
-      if (value === 'MC') {
-        return { ...prevState, memory: 0 }
-      }
-
-      // Number input
-      if (/^\d$/.test(value)) {
-        const display =
-          prevState.waitingForNewValue || prevState.display === '0'
-            ? value
-            : prevState.display + value
-        return { ...prevState, display, waitingForNewValue: false }
-      }
-
-      // Decimal point
-      if (value === '.') {
-        if (prevState.waitingForNewValue) {
-          return { ...prevState, display: '0.', waitingForNewValue: false }
-        }
-        if (!prevState.display.includes('.')) {
-          return { ...prevState, display: prevState.display + '.' }
-        }
-        return prevState
-      }
-
-      // Operators
-      if (['+', '-', '*', '/', '^'].includes(value)) {
-        if (prevState.operation && !prevState.waitingForNewValue) {
-          const result = calculateResult(
-            prevState.previousValue || 0,
-            parseFloat(prevState.display),
-            prevState.operation
-          )
-          return {
-            display: String(result),
-            previousValue: result,
-            operation: value,
-            waitingForNewValue: true,
-            memory: prevState.memory,
-            history: prevState.history,
-          }
-        }
-        return {
-          ...prevState,
-          previousValue: parseFloat(prevState.display),
-          operation: value,
-          waitingForNewValue: true,
-        }
-      }
-
-      return prevState
-    })
-  }
-
-  /**
-   * Calculate result
-   */
-  const calculateResult = (prev: number, current: number, operation: string): number => {
-    switch (operation) {
-      case '+':
-        return prev + current
-      case '-':
-        return prev - current
-      case '*':
-        return prev * current
-      case '/':
-        return prev / current
-      case '^':
-        return Math.pow(prev, current)
-      default:
-        return current
-    }
-  }
+  const isRadians = state.angleMode === 'rad'
 
   const layout = keyboardLayouts[currentLayout] || keyboardLayouts.standard
 
@@ -185,9 +54,12 @@ export const AdvancedCalculator: React.FC<AdvancedCalculatorProps> = ({
     <div className="space-y-4">
       {/* Display */}
       <CalculatorDisplay
-        value={state.display}
+        value={formatDisplay(state)}
         previousValue={String(state.previousValue || '')}
         operation={state.operation || ''}
+        expression={state.expression}
+        stack={state.entryMode === 'rpn' ? state.stack : undefined}
+        error={state.error}
       />
 
       {/* Controls Bar */}
@@ -215,7 +87,7 @@ export const AdvancedCalculator: React.FC<AdvancedCalculatorProps> = ({
             <label className="text-sm font-medium text-gray-700 dark:text-gray-300">Angle:</label>
             <div className="flex gap-1 bg-gray-200 dark:bg-gray-600 rounded p-1">
               <button
-                onClick={() => setIsRadians(true)}
+                onClick={() => setAngleMode('rad')}
                 className={`px-2 py-1 rounded text-xs font-medium transition-all ${
                   isRadians ? 'bg-indigo-600 text-white' : 'text-gray-700 dark:text-gray-300'
                 }`}
@@ -223,7 +95,7 @@ export const AdvancedCalculator: React.FC<AdvancedCalculatorProps> = ({
                 RAD
               </button>
               <button
-                onClick={() => setIsRadians(false)}
+                onClick={() => setAngleMode('deg')}
                 className={`px-2 py-1 rounded text-xs font-medium transition-all ${
                   !isRadians ? 'bg-indigo-600 text-white' : 'text-gray-700 dark:text-gray-300'
                 }`}
@@ -233,6 +105,147 @@ export const AdvancedCalculator: React.FC<AdvancedCalculatorProps> = ({
             </div>
           </div>
 
+          {/* Entry Mode Toggle */}
+          <div className="flex gap-2 items-center">
+            <label className="text-sm font-medium text-gray-700 dark:text-gray-300">Entry:</label>
+            <div className="flex gap-1 bg-gray-200 dark:bg-gray-600 rounded p-1">
+              <button
+                onClick={() => setEntryMode('algebraic')}
+                title="Evaluate with operator precedence and parentheses"
+                className={`px-2 py-1 rounded text-xs font-medium transition-all ${
+                  state.entryMode === 'algebraic'
+                    ? 'bg-indigo-600 text-white'
+                    : 'text-gray-700 dark:text-gray-300'
+                }`}
+              >
+                ALG
+              </button>
+              <button
+                onClick={() => setEntryMode('immediate')}
+                title="Apply each operator to the running result"
+                className={`px-2 py-1 rounded text-xs font-medium transition-all ${
+                  state.entryMode === 'immediate'
+                    ? 'bg-indigo-600 text-white'
+                    : 'text-gray-700 dark:text-gray-300'
+                }`}
+              >
+                IMM
+              </button>
+              <button
+                onClick={() => setEntryMode('rpn')}
+                title="Reverse Polish Notation with an operand stack"
+                className={`px-2 py-1 rounded text-xs font-medium transition-all ${
+                  state.entryMode === 'rpn'
+                    ? 'bg-indigo-600 text-white'
+                    : 'text-gray-700 dark:text-gray-300'
+                }`}
+              >
+                RPN
+              </button>
+            </div>
+          </div>
+
+          {/* Arithmetic Toggle */}
+          <div className="flex gap-2 items-center">
+            <label className="text-sm font-medium text-gray-700 dark:text-gray-300">
+              Arithmetic:
+            </label>
+            <div className="flex gap-1 bg-gray-200 dark:bg-gray-600 rounded p-1">
+              <button
+                onClick={() => setArithmetic('float')}
+                title="Double-precision floating point"
+                className={`px-2 py-1 rounded text-xs font-medium transition-all ${
+                  state.arithmetic === 'float'
+                    ? 'bg-indigo-600 text-white'
+                    : 'text-gray-700 dark:text-gray-300'
+                }`}
+              >
+                FLOAT
+              </button>
+              <button
+                onClick={() => setArithmetic('decimal')}
+                title="Exact decimal arithmetic to the chosen number of digits"
+                className={`px-2 py-1 rounded text-xs font-medium transition-all ${
+                  state.arithmetic === 'decimal'
+                    ? 'bg-indigo-600 text-white'
+                    : 'text-gray-700 dark:text-gray-300'
+                }`}
+              >
+                DEC
+              </button>
+              <button
+                onClick={() => setArithmetic('fraction')}
+                title="Exact fractions, such as 1/3 + 1/6 = 1/2"
+                className={`px-2 py-1 rounded text-xs font-medium transition-all ${
+                  state.arithmetic === 'fraction'
+                    ? 'bg-indigo-600 text-white'
+                    : 'text-gray-700 dark:text-gray-300'
+                }`}
+              >
+                FRAC
+              </button>
+              <button
+                onClick={() => setArithmetic('complex')}
+                title="Complex numbers, such as sqrt(-1) = i"
+                className={`px-2 py-1 rounded text-xs font-medium transition-all ${
+                  state.arithmetic === 'complex'
+                    ? 'bg-indigo-600 text-white'
+                    : 'text-gray-700 dark:text-gray-300'
+                }`}
+              >
+                CPLX
+              </button>
+            </div>
+            {state.arithmetic === 'decimal' && (
+              <input
+                type="number"
+                min={MIN_PRECISION}
+                max={MAX_PRECISION}
+                value={state.precision}
+                onChange={e => setPrecision(Number(e.target.value))}
+                aria-label="Significant digits"
+                title="Significant digits"
+                className="w-16 px-2 py-1 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-xs text-gray-900 dark:text-white"
+              />
+            )}
+            {state.arithmetic === 'fraction' && (
+              <div className="flex gap-1 bg-gray-200 dark:bg-gray-600 rounded p-1">
+                {fractionFormOptions.map(({ form, label, title }) => (
+                  <button
+                    key={form}
+                    onClick={() => setFractionForm(form)}
+                    title={title}
+                    className={`px-2 py-1 rounded text-xs font-medium transition-all ${
+                      state.fractionForm === form
+                        ? 'bg-indigo-600 text-white'
+                        : 'text-gray-700 dark:text-gray-300'
+                    }`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            )}
+            {state.arithmetic === 'complex' && (
+              <div className="flex gap-1 bg-gray-200 dark:bg-gray-600 rounded p-1">
+                {complexFormOptions.map(({ form, label, title }) => (
+                  <button
+                    key={form}
+                    onClick={() => setComplexForm(form)}
+                    title={title}
+                    className={`px-2 py-1 rounded text-xs font-medium transition-all ${
+                      state.complexForm === form
+                        ? 'bg-indigo-600 text-white'
+                        : 'text-gray-700 dark:text-gray-300'
+                    }`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+
           {/* History Toggle */}
           {showHistory && (
             <button
@@ -249,36 +262,26 @@ export const AdvancedCalculator: React.FC<AdvancedCalculatorProps> = ({
       <CalculatorKeyboard layout={layout} onButtonClick={handleButtonClick} />
 
       {/* Memory Display */}
-      {showMemory && state.memory !== 0 && (
+      {showMemory && state.memory !== '0' && (
         <div className="bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-700 rounded-lg p-3 flex items-center justify-between">
           <span className="text-sm font-medium text-amber-900 dark:text-amber-200">
             Memory: {state.memory}
           </span>
           <div className="flex gap-2">
             <button
-              onClick={() =>
-                setState(s => ({
-                  ...s,
-                  memory: s.memory + parseFloat(s.display),
-                }))
-              }
+              onClick={() => handleButtonClick('M+')}
               className="px-2 py-1 bg-amber-600 text-white text-xs rounded hover:bg-amber-700"
             >
               M+
             </button>
             <button
-              onClick={() =>
-                setState(s => ({
-                  ...s,
-                  memory: s.memory - parseFloat(s.display),
-                }))
-              }
+              onClick={() => handleButtonClick('M-')}
               className="px-2 py-1 bg-amber-600 text-white text-xs rounded hover:bg-amber-700"
             >
               M-
             </button>
             <button
-              onClick={() => setState(s => ({ ...s, memory: 0 }))}
+              onClick={() => handleButtonClick('MC')}
               className="px-2 py-1 bg-amber-600 text-white text-xs rounded hover:bg-amber-700"
             >
               MC
@@ -295,7 +298,7 @@ export const AdvancedCalculator: React.FC<AdvancedCalculatorProps> = ({
               Calculation History
             </h3>
             <button
-              onClick={() => setState(s => ({ ...s, history: [] }))}
+              onClick={clearHistory}
               className="text-xs px-2 py-1 bg-gray-300 dark:bg-gray-600 text-gray-900 dark:text-white rounded hover:bg-gray-400"
             >
               Clear
@@ -304,7 +307,8 @@ export const AdvancedCalculator: React.FC<AdvancedCalculatorProps> = ({
           <div className="space-y-1 font-mono text-sm">
             {state.history.map((entry, index) => (
               <div key={index} className="text-gray-600 dark:text-gray-400 text-xs">
-                {entry}
+                <span className="text-gray-400 dark:text-gray-500 mr-2">ans{index + 1}</span>
+                {formatHistoryEntry(entry)}
               </div>
             ))}
           </div>
@@ -4,11 +4,25 @@
  */
 
 import React from 'react'
+import ExpressionError from '@/components/expression-error'
+import { CalculatorError } from '@/utils/calculator-errors'
+
+/**
+ * Classic names for the stack levels above X
+ */
+const stackLevelNames: Record<number, string> = { 1: 'Y', 2: 'Z', 3: 'T' }
 
 interface CalculatorDisplayProps {
   value: string
   previousValue?: string
   operation?: string | null
+  /** Pending algebraic expression; shown instead of previousValue/operation when set */
+  expression?: string
+  /** RPN stack levels above X (Y last); shows the stack view when set */
+  stack?: string[]
+  /** Number of stack levels to show above X */
+  stackDepth?: number
+  error?: CalculatorError | null
   className?: string
 }
 
@@ -16,14 +30,55 @@ export const CalculatorDisplay: React.FC<CalculatorDisplayProps> = ({
   value,
   previousValue,
   operation,
+  expression,
+  stack,
+  stackDepth = 3,
+  error,
   className = '',
 }) => {
+  // Highest level first, padded so the view keeps its height: T, Z, Y above X
+  const stackLevels = stack
+    ? Array.from({ length: stackDepth }, (_, index) => {
+        const level = stackDepth - index
+        return { level, value: stack[stack.length - level] }
+      })
+    : []
+
   return (
     <div
       className={`w-full rounded-lg bg-gradient-to-r from-indigo-50 to-purple-50 dark:from-gray-800 dark:to-gray-900 p-6 shadow-md border border-indigo-100 dark:border-gray-700 ${className}`}
     >
+      {/* Stack view (RPN entry) */}
+      {stack && (
+        <div className="mb-2 space-y-0.5 font-mono text-sm" aria-label="Stack">
+          {stack.length > stackDepth && (
+            <div className="text-right text-xs text-gray-400">
+              +{stack.length - stackDepth} more
+            </div>
+          )}
+          {stackLevels.map(({ level, value }) => (
+            <div key={level} className="flex justify-between text-gray-600 dark:text-gray-400">
+              <span className="text-indigo-600 dark:text-indigo-400">
+                {stackLevelNames[level] ?? level}:
+              </span>
+              <span>{value ?? ''}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Pending expression (algebraic entry) */}
+      {expression && (
+        <div
+          className="text-right text-sm font-mono text-gray-600 dark:text-gray-400 mb-2 min-h-5 break-all"
+          aria-label="Pending expression"
+        >
+          {expression}
+        </div>
+      )}
+
       {/* Operation history display */}
-      {(previousValue || operation) && (
+      {!expression && (previousValue || operation) && (
         <div className="text-right text-sm text-gray-600 dark:text-gray-400 mb-2 h-5">
           {previousValue && <span className="font-medium">{previousValue}</span>}
           {operation && (
@@ -39,13 +94,16 @@ export const CalculatorDisplay: React.FC<CalculatorDisplayProps> = ({
         <input
           type="text"
           readOnly
-          value={value}
+          value={error ? 'Error' : value}
           className="w-full text-4xl font-bold text-gray-900 dark:text-white text-right bg-transparent outline-none focus:outline-none p-0 placeholder-gray-400"
           placeholder="0"
           aria-label="Calculator display"
         />
       </div>
 
+      {/* Error details */}
+      {error && <ExpressionError error={error} className="mt-3" />}
+
       {/* Display metadata */}
       <div className="text-xs text-gray-500 dark:text-gray-500 mt-2 text-right space-x-2">
         <span>Scientific Calculator</span>
@@ -3,15 +3,18 @@
  * Compact, embeddable calculator widget with customizable appearance
  */
 
-import React, { useState } from 'react'
+import React from 'react'
 import CalculatorKeyboard from '@/components/calculator-keyboard'
 import CalculatorDisplay from '@/components/calculator-display'
 import { keyboardLayouts } from '@/config/keyboard-layouts'
-import { CalculatorState } from '@/types/calculator'
+import { useCalculator } from '@/hooks/useCalculator'
+import { ArithmeticMode, EntryMode } from '@/types/calculator'
 
 interface CalculatorWidgetProps {
   onResultChange?: (result: number) => void
-  initialLayout?: 'standard' | 'basic' | 'engineering'
+  initialLayout?: 'standard' | 'basic' | 'engineering' | 'rpn'
+  entryMode?: EntryMode
+  arithmetic?: ArithmeticMode
   size?: 'compact' | 'medium' | 'large'
   showBrand?: boolean
   className?: string
@@ -27,139 +30,18 @@ const sizeClasses = {
 export const CalculatorWidget: React.FC<CalculatorWidgetProps> = ({
   onResultChange,
   initialLayout = 'standard',
+  entryMode = 'immediate',
+  arithmetic = 'float',
   size = 'medium',
   showBrand = true,
   className = '',
   theme = 'auto',
 }) => {
-  const [state, setState] = useState<CalculatorState>({
-    display: '0',
-    previousValue: null,
-    operation: null,
-    waitingForNewValue: false,
-    memory: 0,
-    history: [],
+  const { state, handleButtonClick } = useCalculator({
+    initialState: { entryMode, arithmetic },
+    onResult: result => onResultChange?.(result),
   })
 
-  /**
-   * Calculate result
-   */
-  const calculateResult = (prev: number, current: number, operation: string): number => {
-    switch (operation) {
-      case '+':
-        return prev + current
-      case '-':
-        return prev - current
-      case '*':
-        return prev * current
-      case '/':
-        return prev / current
-      case '^':
-        return Math.pow(prev, current)
-      default:
-        return current
-    }
-  }
-
-  /**
-   * Handle button clicks
-   */
-  const handleButtonClick = (value: string) => {
-    setState(prevState => {
-      // Handle utility functions
-      if (value === 'clear') {
-        return {
-          display: '0',
-          previousValue: null,
-          operation: null,
-          waitingForNewValue: false,
-          memory: 0,
-          history: [...prevState.history],
-        }
-      }
-
-      if (value === 'backspace') {
-        const display = prevState.display === '0' ? '0' : prevState.display.slice(0, -1) || '0'
-        return { ...prevState, display }
-      }
-
-      if (value === 'toggle') {
-        const num = parseFloat(prevState.display)
-        return { ...prevState, display: String(num * -1) }
-      }
-
-      if (value === '=') {
-        if (prevState.operation && prevState.previousValue !== null) {
-          const result = calculateResult(
-            prevState.previousValue,
-            parseFloat(prevState.display),
-            prevState.operation
-          )
-          onResultChange?.(result)
-          return {
-            display: String(result),
-            previousValue: null,
-            operation: null,
-            waitingForNewValue: true,
-            memory: prevState.memory,
-            history: [
-              ...prevState.history,
-              `${prevState.previousValue} ${prevState.operation} ${prevState.display} = ${result}`,
-            ],
-          }
-        }
-        return prevState
-      }
-
-      // Number input
-      if (/^\d$/.test(value)) {
-        const display =
-          prevState.waitingForNewValue || prevState.display === '0'
-            ? value
-            : prevState.display + value
-        return { ...prevState, display, waitingForNewValue: false }
-      }
-
-      // Decimal point
-      if (value === '.') {
-        if (prevState.waitingForNewValue) {
-          return { ...prevState, display: '0.', waitingForNewValue: false }
-        }
-        if (!prevState.display.includes('.')) {
-          return { ...prevState, display: prevState.display + '.' }
-        }
-        return prevState
-      }
-
-      // Operators
-      if (['+', '-', '*', '/', '^'].includes(value)) {
-        if (prevState.operation && !prevState.waitingForNewValue) {
-          const result = calculateResult(
-            prevState.previousValue || 0,
-            parseFloat(prevState.display),
-            prevState.operation
-          )
-          return {
-            display: String(result),
-            previousValue: result,
-            operation: value,
-            waitingForNewValue: true,
-            memory: prevState.memory,
-            history: prevState.history,
-          }
-        }
-        return {
-          ...prevState,
-          previousValue: parseFloat(prevState.display),
-          operation: value,
-          waitingForNewValue: true,
-        }
-      }
-
-      return prevState
-    })
-  }
-
   const layout = keyboardLayouts[initialLayout] || keyboardLayouts.standard
 
   const themeClass = theme === 'auto' ? '' : theme === 'dark' ? 'dark' : ''
@@ -191,6 +73,9 @@ export const CalculatorWidget: React.FC<CalculatorWidgetProps> = ({
           value={state.display}
           previousValue={String(state.previousValue || '')}
           operation={state.operation || ''}
+          expression={state.expression}
+          stack={state.entryMode === 'rpn' ? state.stack : undefined}
+          error={state.error}
         />
 
         {/* Keyboard */}
@@ -203,7 +88,7 @@ export const CalculatorWidget: React.FC<CalculatorWidgetProps> = ({
 
         {/* Status Bar */}
         <div className="text-xs text-gray-600 dark:text-gray-400 text-center pt-2 border-t border-gray-200 dark:border-gray-700">
-          {state.memory !== 0 && <span>Memory: {state.memory} • </span>}
+          {state.memory !== '0' && <span>Memory: {state.memory} • </span>}
           <span>Total calculations: {state.history.length}</span>
         </div>
       </div>
@@ -0,0 +1,109 @@
+/**
+ * Constants Picker Component
+ * Searchable table of the CODATA physical constants grouped by domain, with their values,
+ * units and standard uncertainties; choosing one inserts it into an expression
+ */
+
+import React, { useState } from 'react'
+import {
+  constantDomains,
+  constantExpression,
+  PhysicalConstant,
+  relativeUncertainty,
+  searchPhysicalConstants,
+} from '@/utils/physical-constants'
+
+interface ConstantsPickerProps {
+  /** Receive the constant's expression text, e.g. to insert it into the input line */
+  onInsert: (expression: string) => void
+  /** Whether inserted constants carry their units, which only float arithmetic understands */
+  withUnits?: boolean
+  className?: string
+}
+
+const inputClassName =
+  'px-2 py-1 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-sm text-gray-900 dark:text-white'
+
+/**
+ * Uncertainty as CODATA quotes it, absolute and relative: "1.5e-15 (2.2e-5)", or "exact"
+ */
+const formatUncertainty = (entry: PhysicalConstant): string =>
+  entry.uncertainty === 0
+    ? 'exact'
+    : `± ${entry.uncertainty} (${relativeUncertainty(entry).toPrecision(2)})`
+
+export const ConstantsPicker: React.FC<ConstantsPickerProps> = ({
+  onInsert,
+  withUnits = true,
+  className = '',
+}) => {
+  const [query, setQuery] = useState('')
+  const matches = searchPhysicalConstants(query)
+
+  const insert = (entry: PhysicalConstant) => {
+    const expression = constantExpression(entry, withUnits)
+    // A value with units is a quantity of its own inside a longer expression
+    onInsert(withUnits && entry.unit ? `(${expression})` : expression)
+  }
+
+  return (
+    <div className={`bg-gray-50 dark:bg-gray-700/50 rounded-lg p-4 space-y-3 ${className}`}>
+      <div className="flex flex-wrap gap-2 items-center">
+        <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300">
+          Physical Constants
+        </h3>
+        <input
+          type="search"
+          value={query}
+          onChange={e => setQuery(e.target.value)}
+          placeholder="Search by name or symbol"
+          aria-label="Search physical constants"
+          className={`flex-1 min-w-0 ${inputClassName}`}
+        />
+      </div>
+
+      {matches.length === 0 && (
+        <p className="text-sm text-gray-500 dark:text-gray-400">No constant matches '{query}'</p>
+      )}
+
+      <div className="max-h-64 overflow-y-auto space-y-2">
+        {constantDomains.map(({ domain, label }) => {
+          const entries = matches.filter(entry => entry.domain === domain)
+          if (entries.length === 0) return null
+          return (
+            <div key={domain}>
+              <h4 className="text-xs font-medium text-gray-500 dark:text-gray-400">{label}</h4>
+              <ul>
+                {entries.map(entry => (
+                  <li key={entry.name}>
+                    <button
+                      type="button"
+                      onClick={() => insert(entry)}
+                      title={`Insert ${entry.description.toLowerCase()}; key name ${entry.name}`}
+                      className="w-full flex flex-wrap gap-x-2 items-baseline px-2 py-1 rounded text-left text-sm hover:bg-gray-200 dark:hover:bg-gray-600"
+                    >
+                      <span className="w-12 font-mono font-semibold text-indigo-600 dark:text-indigo-400">
+                        {entry.symbol}
+                      </span>
+                      <span className="flex-1 text-gray-700 dark:text-gray-300">
+                        {entry.description}
+                      </span>
+                      <span className="font-mono text-gray-900 dark:text-white">
+                        {entry.value} {entry.unit}
+                      </span>
+                      <span className="w-40 font-mono text-xs text-right text-gray-500 dark:text-gray-400">
+                        {formatUncertainty(entry)}
+                      </span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
+
+export default ConstantsPicker
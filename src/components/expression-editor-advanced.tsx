@@ -4,9 +4,14 @@
  * Uses the custom useExpressionEditor hook for state management
  */
 
-import React, { useRef, useEffect, useState } from 'react'
+import React, { useRef, useEffect, useState, useMemo } from 'react'
 import { useExpressionEditor } from '@/hooks/useExpressionEditor'
 import * as ExpressionUtils from '@/utils/expression-editor'
+import ExpressionError from '@/components/expression-error'
+import MatrixEditor from '@/components/matrix-editor'
+import { completionNames, tryEvaluateExpression } from '@/utils/expression-evaluator'
+import { formatEstimate } from '@/utils/calculus'
+import { EvaluationContext } from '@/types/expression'
 
 export interface AdvancedExpressionEditorProps {
   /** Initial expression value */
@@ -31,6 +36,13 @@ export interface AdvancedExpressionEditorProps {
   autoExpand?: boolean
   /** Validate expression */
   validator?: (expression: string) => boolean
+  /** Evaluate the expression and explain why it fails */
+  showEvaluationErrors?: boolean
+  /** Settings used when evaluating (angle mode); its variables and user functions are also
+   * offered as completions */
+  evaluationContext?: EvaluationContext
+  /** Offer a grid for entering matrices, inserted at the cursor as `[1, 2; 3, 4]` */
+  showMatrixEditor?: boolean
 }
 
 /**
@@ -57,6 +69,9 @@ export const AdvancedExpressionEditor: React.FC<AdvancedExpressionEditorProps> =
   className = '',
   autoExpand = true,
   validator,
+  showEvaluationErrors = true,
+  evaluationContext,
+  showMatrixEditor = false,
 }) => {
   const editor = useExpressionEditor({
     initialExpression: initialValue,
@@ -65,6 +80,33 @@ export const AdvancedExpressionEditor: React.FC<AdvancedExpressionEditorProps> =
   })
 
   const inputRef = useRef<HTMLTextAreaElement>(null)
+
+  /**
+   * Evaluate the current expression so errors can point at the offending span
+   */
+  const evaluation = useMemo(() => {
+    if (!showEvaluationErrors || !editor.expression.trim()) return null
+    return tryEvaluateExpression(editor.expression, evaluationContext)
+  }, [showEvaluationErrors, editor.expression, evaluationContext])
+  /**
+   * Function and value names offered while typing a name; Tab accepts the first one
+   */
+  const { functions: functionNames, values: valueNames } = useMemo(
+    () => completionNames(evaluationContext),
+    [evaluationContext]
+  )
+  const [caret, setCaret] = useState(initialValue.length)
+  const completions = useMemo(
+    () =>
+      readOnly
+        ? []
+        : ExpressionUtils.getCompletions(editor.expression, caret, [
+            ...functionNames,
+            ...valueNames,
+          ]),
+    [readOnly, editor.expression, caret, functionNames, valueNames]
+  )
+  const [matrixOpen, setMatrixOpen] = useState(false)
   const [highlightTokens, setHighlightTokens] = useState<SyntaxToken[]>([])
   const [isFocused, setIsFocused] = useState(false)
 
@@ -160,10 +202,48 @@ export const AdvancedExpressionEditor: React.FC<AdvancedExpressionEditorProps> =
    */
   const handleChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
     const newValue = e.currentTarget.value
+    setCaret(e.currentTarget.selectionStart)
     editor.setExpression(newValue)
     setHighlightTokens(generateSyntaxTokens(newValue))
   }
 
+  /**
+   * Replace the name being typed with a completion; functions get their opening parenthesis
+   */
+  const acceptCompletion = (name: string) => {
+    const { expression, cursorPos } = ExpressionUtils.applyCompletion(
+      editor.expression,
+      caret,
+      name,
+      functionNames.includes(name)
+    )
+    editor.setExpression(expression)
+    setCaret(cursorPos)
+    setTimeout(() => {
+      if (inputRef.current) {
+        inputRef.current.focus()
+        inputRef.current.selectionStart = cursorPos
+        inputRef.current.selectionEnd = cursorPos
+      }
+    }, 0)
+  }
+
+  /**
+   * Insert a matrix literal from the matrix editor at the cursor
+   */
+  const insertMatrix = (literal: string) => {
+    const { expression, cursorPos } = ExpressionUtils.insertText(editor.expression, literal, caret)
+    editor.setExpression(expression)
+    setCaret(cursorPos)
+    setTimeout(() => {
+      if (inputRef.current) {
+        inputRef.current.focus()
+        inputRef.current.selectionStart = cursorPos
+        inputRef.current.selectionEnd = cursorPos
+      }
+    }, 0)
+  }
+
   /**
    * Handle key down for smart insertion
    */
@@ -186,6 +266,12 @@ export const AdvancedExpressionEditor: React.FC<AdvancedExpressionEditorProps> =
       return
     }
 
+    if (e.key === 'Tab' && completions.length > 0) {
+      e.preventDefault()
+      acceptCompletion(completions[0])
+      return
+    }
+
     // Smart insertion for operators
     if (enableSmartInsertion && /[+\-*/^]/.test(e.key) && !e.shiftKey && !e.ctrlKey && !e.metaKey) {
       e.preventDefault()
@@ -258,6 +344,7 @@ export const AdvancedExpressionEditor: React.FC<AdvancedExpressionEditorProps> =
   const handleSelection = (e: React.SyntheticEvent<HTMLTextAreaElement>) => {
     const target = e.currentTarget
     editor.setSelection(target.selectionStart, target.selectionEnd)
+    setCaret(target.selectionStart)
   }
 
   return (
@@ -342,6 +429,23 @@ export const AdvancedExpressionEditor: React.FC<AdvancedExpressionEditorProps> =
               </button>
             )}
 
+            {/* Matrix editor toggle */}
+            {showMatrixEditor && !readOnly && (
+              <button
+                onClick={() => setMatrixOpen(open => !open)}
+                className={`px-2 py-1 rounded-md font-mono text-sm transition-colors ${
+                  matrixOpen
+                    ? 'bg-indigo-600 text-white'
+                    : 'bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-300 dark:hover:bg-gray-600'
+                }`}
+                title="Enter a matrix"
+                aria-label="Matrix editor"
+                aria-pressed={matrixOpen}
+              >
+                [ ]
+              </button>
+            )}
+
             {/* Clear button */}
             {!readOnly && (
               <button
@@ -382,6 +486,47 @@ export const AdvancedExpressionEditor: React.FC<AdvancedExpressionEditorProps> =
           aria-multiline="true"
           rows={3}
         />
+
+        {/* Completions for the name being typed */}
+        {completions.length > 0 && (
+          <div className="mt-2 flex flex-wrap gap-1" role="listbox" aria-label="Completions">
+            {completions.map((name, index) => (
+              <button
+                key={name}
+                type="button"
+                role="option"
+                aria-selected={index === 0}
+                onMouseDown={e => e.preventDefault()}
+                onClick={() => acceptCompletion(name)}
+                title={index === 0 ? 'Tab to insert' : undefined}
+                className={`px-2 py-0.5 rounded font-mono text-xs transition-colors ${
+                  index === 0
+                    ? 'bg-indigo-600 text-white'
+                    : 'bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-300 dark:hover:bg-gray-600'
+                }`}
+              >
+                {functionNames.includes(name) ? `${name}(` : name}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {/* Grid entry for matrices */}
+        {showMatrixEditor && matrixOpen && !readOnly && (
+          <MatrixEditor onInsert={insertMatrix} className="mt-3" />
+        )}
+
+        {/* Evaluation error with the offending span underlined */}
+        {evaluation && !evaluation.ok && (
+          <ExpressionError error={evaluation.error} className="mt-3" />
+        )}
+
+        {/* Error estimates of integrate, deriv and the other numeric methods */}
+        {evaluation?.ok && evaluation.estimates && (
+          <p className="mt-3 text-xs text-gray-500 dark:text-gray-400">
+            Converged: {evaluation.estimates.map(formatEstimate).join(', ')}
+          </p>
+        )}
       </div>
 
       {/* Metadata footer */}
@@ -0,0 +1,40 @@
+/**
+ * Expression Error Component
+ * Shows a readable evaluation error and underlines the part of the expression it refers to
+ */
+
+import React from 'react'
+import { CalculatorError, errorTitles } from '@/utils/calculator-errors'
+
+interface ExpressionErrorProps {
+  error: CalculatorError
+  /** Expression text; defaults to the source recorded on the error */
+  source?: string
+  className?: string
+}
+
+export const ExpressionError: React.FC<ExpressionErrorProps> = ({
+  error,
+  source = error.source,
+  className = '',
+}) => {
+  return (
+    <div className={`space-y-1 text-left ${className}`} role="alert">
+      {source && (
+        <div className="font-mono text-sm text-gray-700 dark:text-gray-300 whitespace-pre-wrap break-all">
+          {source.slice(0, error.start)}
+          <span className="underline decoration-wavy decoration-red-500 underline-offset-4 text-red-600 dark:text-red-400">
+            {/* Keep zero-width ranges visible */}
+            {source.slice(error.start, error.end) || ' '}
+          </span>
+          {source.slice(error.end)}
+        </div>
+      )}
+      <p className="text-sm text-red-600 dark:text-red-400">
+        <span className="font-semibold">{errorTitles[error.code]}:</span> {error.message}
+      </p>
+    </div>
+  )
+}
+
+export default ExpressionError
@@ -0,0 +1,106 @@
+/**
+ * Expression Input Component
+ * Single-line expression input that completes function, constant and variable names as they
+ * are typed; Tab or a click accepts a completion, and functions get their opening parenthesis
+ */
+
+import React, { useMemo, useRef, useState } from 'react'
+import { EvaluationContext } from '@/types/expression'
+import { completionNames } from '@/utils/expression-evaluator'
+import { applyCompletion, getCompletions } from '@/utils/expression-editor'
+
+interface ExpressionInputProps {
+  value: string
+  onChange: (value: string) => void
+  /** Variables and user functions in scope, completed along with the built-in names */
+  evaluationContext?: Pick<EvaluationContext, 'functions' | 'variables'>
+  placeholder?: string
+  ariaLabel?: string
+  /** Classes of the input itself */
+  className?: string
+}
+
+export const ExpressionInput: React.FC<ExpressionInputProps> = ({
+  value,
+  onChange,
+  evaluationContext,
+  placeholder,
+  ariaLabel = 'Expression input',
+  className = '',
+}) => {
+  const inputRef = useRef<HTMLInputElement>(null)
+  const [caret, setCaret] = useState(value.length)
+  const { functions, values } = useMemo(
+    () => completionNames(evaluationContext),
+    [evaluationContext]
+  )
+  // The caret may be past the end after the value is cleared from outside
+  const cursor = Math.min(caret, value.length)
+  const completions = useMemo(
+    () => getCompletions(value, cursor, [...functions, ...values]),
+    [value, cursor, functions, values]
+  )
+
+  const acceptCompletion = (name: string) => {
+    const { expression, cursorPos } = applyCompletion(value, cursor, name, functions.includes(name))
+    onChange(expression)
+    setCaret(cursorPos)
+    setTimeout(() => {
+      if (inputRef.current) {
+        inputRef.current.focus()
+        inputRef.current.selectionStart = cursorPos
+        inputRef.current.selectionEnd = cursorPos
+      }
+    }, 0)
+  }
+
+  return (
+    <div className="flex-1 space-y-1">
+      <input
+        ref={inputRef}
+        value={value}
+        onChange={e => {
+          setCaret(e.currentTarget.selectionStart ?? e.currentTarget.value.length)
+          onChange(e.currentTarget.value)
+        }}
+        onSelect={e => setCaret(e.currentTarget.selectionStart ?? value.length)}
+        onKeyDown={e => {
+          if (e.key === 'Tab' && completions.length > 0) {
+            e.preventDefault()
+            acceptCompletion(completions[0])
+          }
+        }}
+        placeholder={placeholder}
+        aria-label={ariaLabel}
+        aria-autocomplete="list"
+        className={`w-full ${className}`}
+      />
+
+      {/* Completions for the name being typed */}
+      {completions.length > 0 && (
+        <div className="flex flex-wrap gap-1" role="listbox" aria-label="Completions">
+          {completions.map((name, index) => (
+            <button
+              key={name}
+              type="button"
+              role="option"
+              aria-selected={index === 0}
+              onMouseDown={e => e.preventDefault()}
+              onClick={() => acceptCompletion(name)}
+              title={index === 0 ? 'Tab to insert' : undefined}
+              className={`px-2 py-0.5 rounded font-mono text-xs transition-colors ${
+                index === 0
+                  ? 'bg-indigo-600 text-white'
+                  : 'bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-300 dark:hover:bg-gray-600'
+              }`}
+            >
+              {functions.includes(name) ? `${name}(` : name}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default ExpressionInput
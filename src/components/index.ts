@@ -41,6 +41,8 @@
  * 3. CalculatorDisplay
  *    - Display component showing current value and operation history
  *    - Shows previous value, current operation, and result
+ *    - Shows the pending expression in algebraic entry mode
+ *    - Shows the Y/Z/T stack levels in RPN entry mode
  *    - Gradient background with dark mode support
  *    - Read-only input field for accessibility
  *    Usage:
@@ -56,6 +58,12 @@
  *    - Includes keyboard, display, controls, history, and memory
  *    - Layout switching capability
  *    - Angle mode toggle (Radians/Degrees)
+ *    - Entry mode toggle (Algebraic/Immediate/RPN)
+ *    - Arithmetic toggle (Float/Decimal/Fraction/Complex) with a significant-digits setting,
+ *      a fraction form selector (a/b, a b/c, 0.(3)) and a complex form selector (a+bi, r∠θ)
+ *    - Input line for typed expressions, assignments and definitions (x = 3.2, f(x) = x^2)
+ *    - Variables and functions panel and history labelled ans1, ans2, ...
+ *    - Variables and functions are saved to localStorage and restored on the next visit
  *    - Full keyboard shortcut support
  *    - Scientific function calculations
  *    Usage: Directly as a router page
@@ -91,11 +99,108 @@
  *        onResultChange={(result) => handleResult(result)}
  *      />
  *
+ * 7. VariablesPanel
+ *    - Lists user variables with edit and delete actions and an add row
+ *    - Values are entered as expressions (2pi, ans / 2) and stored as results
+ *    - Lists user-defined functions with a delete action when functions is given
+ *    Usage:
+ *      import VariablesPanel from '@/components/variables-panel'
+ *      <VariablesPanel
+ *        variables={state.variables}
+ *        onSet={setVariable}
+ *        onDelete={deleteVariable}
+ *        functions={state.functions}
+ *        onDeleteFunction={deleteFunction}
+ *      />
+ *
+ * 8. MatrixEditor
+ *    - Grid of cells with row and column controls for entering a matrix or vector
+ *    - Inserting produces the literal text [1, 2; 3, 4]; empty cells are zero
+ *    - Also opened from AdvancedExpressionEditor with showMatrixEditor
+ *    Usage:
+ *      import MatrixEditor from '@/components/matrix-editor'
+ *      <MatrixEditor onInsert={literal => setInput(input + literal)} />
+ *
+ * 9. StatisticsPanel
+ *    - Data lists (L1, L2, ...) edited in a table or pasted as CSV/TSV; pasted columns fill the
+ *      selected list and the ones after it, and a heading row is skipped
+ *    - Summary of the selected list (n, Σx, mean, median, mode, s, σ, quartiles, min, max)
+ *    - Each statistic can be inserted into the input line as an expression (mean(L1))
+ *    - Regression of one list on another, showing the fitted equation, coefficients, r² and
+ *      residuals
+ *    Usage:
+ *      import StatisticsPanel from '@/components/statistics-panel'
+ *      <StatisticsPanel
+ *        lists={state.lists}
+ *        onSetList={setList}
+ *        onDeleteList={deleteList}
+ *        regression={state.regression}
+ *        onFit={fitRegression}
+ *        onInsert={expression => setInput(input + expression)}
+ *      />
+ *
+ * 10. ProgrammerPanel
+ *    - The programmer value in hex, decimal, octal and binary at once; clicking a base shows the
+ *      display in it
+ *    - Grid of the word's bits, most significant first; clicking a bit flips it
+ *    Usage:
+ *      import ProgrammerPanel from '@/components/programmer-panel'
+ *      <ProgrammerPanel
+ *        value={getDisplayText(state)}
+ *        wordSize={state.wordSize}
+ *        base={state.base}
+ *        onSetBase={handleButtonClick}
+ *        onToggleBit={toggleBit}
+ *      />
+ *
+ * 11. TvmPanel
+ *    - The time-value-of-money registers N, I/Y, PV, PMT and FV, each editable and with a CPT
+ *      button that computes it from the other four
+ *    - Payments (P/Y) and compoundings (C/Y) per year and END/BGN payment timing
+ *    Usage:
+ *      import TvmPanel from '@/components/tvm-panel'
+ *      <TvmPanel
+ *        tvm={state.tvm}
+ *        onSetValue={setTvmValue}
+ *        onSetSettings={setTvmSettings}
+ *        onSolve={solveTvm}
+ *      />
+ *
+ * 12. AmortizationTable
+ *    - Schedule of the TVM registers' loan: payment, extra payment, interest, principal and
+ *      balance for each period, with totals
+ *    - An extra payment per period goes to principal and ends the schedule early
+ *    - Clicking a column heading sorts by it; CSV and JSON download and CSV copy for spreadsheets
+ *    Usage:
+ *      import AmortizationTable from '@/components/amortization-table'
+ *      <AmortizationTable tvm={state.tvm} />
+ *
+ * 13. ConstantsPicker
+ *    - CODATA physical constants grouped by domain with value, unit and standard uncertainty
+ *    - Search by name, symbol or description; choosing a constant inserts it, with its units
+ *      in float arithmetic
+ *    Usage:
+ *      import ConstantsPicker from '@/components/constants-picker'
+ *      <ConstantsPicker onInsert={text => setInput(current => current + text)} />
+ *
+ * 14. ExpressionInput
+ *    - Single-line input line that completes function, constant and variable names as they are
+ *      typed; Tab or a click inserts a completion, and functions get their opening parenthesis
+ *    - The calculator page passes its variables (with ans) and user functions
+ *    Usage:
+ *      import ExpressionInput from '@/components/expression-input'
+ *      <ExpressionInput
+ *        value={input}
+ *        onChange={setInput}
+ *        evaluationContext={{ variables: scopeOf(state), functions: state.functions }}
+ *      />
+ *
  * Available Keyboard Layouts:
  * ==========================
  *
  * 1. Standard Scientific (default)
  *    - Full trigonometric functions (sin, cos, tan, asin, acos, atan)
+ *    - HYP shift: the next trigonometric key is sinh, cosh, tanh or their inverses
  *    - Logarithmic functions (log, ln, log2, exp)
  *    - Physical constants (π, e, φ, c)
  *    - Basic arithmetic operators
@@ -111,11 +216,66 @@
  *
  * 3. Engineering
  *    - Advanced engineering functions
- *    - Physical constants (c, G, h, k)
+ *    - Physical constants (c, G, h, k, e, mₑ, N_A, ε₀) and a picker for the rest
  *    - Scientific notation support
  *    - Angle mode conversion (deg/rad)
  *    - Advanced roots and powers
  *
+ * 4. RPN
+ *    - ENTER and stack operations (x↔y, R↓, DROP, DUP, LASTx)
+ *    - Number pad with exponent entry, arithmetic and common functions
+ *    - Intended for the RPN entry mode
+ *
+ * 5. Fractions
+ *    - Number pad with repeating-decimal entry (0.1 (…) 6 enters 0.1(6))
+ *    - Arithmetic, parentheses and the fraction ↔ decimal key (F↔D)
+ *    - Intended for fraction arithmetic
+ *
+ * 6. Complex
+ *    - i and polar entry (r ∠ θ), Re, Im, |z|, arg, conjugate and the R↔P display key
+ *    - Number pad, arithmetic and the common functions
+ *    - Intended for complex arithmetic
+ *
+ * 7. Matrix
+ *    - det, inv, transpose, rank, eig and solve (A solve b)
+ *    - Dot and cross products (u · v, u × v) and the vector length
+ *    - Matrices are typed or inserted from the matrix editor: A = [1, 2; 3, 4]
+ *
+ * 8. Statistics
+ *    - Σ+ adds the entry to the list L1, CLΣ clears it and L1 recalls it
+ *    - n, Σx, mean, median, mode, s, σ, s², σ², min and max of the recalled list
+ *    - Quartiles and percentiles as operators: L1 Q 1, L1 P 90
+ *    - Shows the statistics panel for entering and pasting lists
+ *
+ * 9. Programmer
+ *    - AND, OR, XOR, <<, >>, ROL and ROR as operators and NOT as a function key
+ *    - HEX, DEC, OCT and BIN switch to programmer arithmetic in that base; A–F type hex digits
+ *    - Intended for programmer arithmetic, with the word size chosen beside the PROG toggle
+ *    - The programmer panel under the display shows every base and the bits of the word
+ *
+ * 10. Finance
+ *    - N, I/Y, PV, PMT and FV store the entry in their register; CPT then a register computes it
+ *    - BGN toggles payments at the beginning or end of periods and CLR TVM zeroes the registers
+ *    - CF+ adds a cash flow to the list L1 and CF recalls it: 10 NPV CF, CF IRR
+ *    - Percentage change as an operator: 50 Δ% 75 = 50
+ *    - Shows the TVM panel with the registers and P/Y, C/Y settings, and the amortization
+ *      schedule of the loan they describe
+ *
+ * 11. Business
+ *    - Margin and markup as operators: 80 SELL 20 = 100 (selling price at a 20% margin),
+ *      80 MAR 100 = 20, 80 SELL+MU 25 = 100, 80 MU 100 = 25, and MU→MAR, MAR→MU conversions
+ *    - RATE stores the entry as the tax rate, also set beside the angle mode; +TAX and −TAX add
+ *      and remove tax at it
+ *    - Discounts, tips and bill splitting: 100 DISC 10, 120 TIP 15, 138 SPLIT 4
+ *
+ * 12. Probability
+ *    - φ, Φ and Φ⁻¹ are the standard normal density, cdf and inverse as function keys
+ *    - Other distributions take the value, then their parameters as operators, separated by the
+ *      comma key: 3 B CDF 10 , 0.5 = binomcdf(3, 10, 0.5); in RPN each parameter is its own
+ *      stack level
+ *    - SEED stores the entry as the seed of RAND, Z~ (a standard normal draw) and 1 RINT 6, so
+ *      a class seeded alike sees the same draws
+ *
  * Type Definitions:
  * =================
  *
@@ -138,11 +298,26 @@
  *
  * CalculatorState
  *   - display: Current display value
- *   - previousValue: Previous operand
+ *   - previousValue: Previous operand (number text)
  *   - operation: Current operation
  *   - waitingForNewValue: Input state
- *   - memory: Stored memory value
- *   - history: Calculation history
+ *   - memory: Stored memory value (number text)
+ *   - history: Completed calculations ({ expression, result }), readable as ans1, ans2, ...
+ *   - error: Error from the last evaluation
+ *   - angleMode: RAD/DEG for trigonometric keys
+ *   - entryMode: immediate (left to right, the default), algebraic (precedence, parentheses)
+ *     or rpn
+ *   - expression: Pending algebraic expression
+ *   - stack, lastX, stackLift: RPN operand stack above X (the display)
+ *   - arithmetic: float (IEEE-754 doubles), decimal (arbitrary precision), fraction (exact)
+ *     or complex
+ *   - precision: Significant digits in decimal arithmetic
+ *   - fractionForm: fraction (7/2), mixed (3 1/2) or decimal (3.5) display of fractions
+ *   - complexForm: rectangular (3+4i) or polar (5∠53.13) display of complex values
+ *   - variables: User variables as number text, kept by clear
+ *   - functions: User-defined functions ({ name, params, body }), kept by clear
+ *   - randomState: Seeded generator state advanced by every draw, or null for Math.random;
+ *     kept by clear
  *
  * Utilities & Hooks:
  * =================
@@ -151,20 +326,215 @@
  *   - Custom hook for calculator state management
  *   - Provides: state, handleButtonClick, clear, backspace, toggleSign, etc.
  *   - Use for managing calculator logic independently
+ *   - evaluateInput, setVariable, deleteVariable, deleteFunction: Typed input, variables
+ *     and user-defined functions
+ *   - Optional workspaceKey saves variables and functions to localStorage under that key
+ *   - Optional onResult callback fires after each completed calculation
+ *
+ * Calculator Engine (calculator-engine.ts)
+ *   - calculatorReducer: Pure (state, action) => state keypad logic shared by every surface
+ *   - createInitialState: Fresh state with optional overrides
+ *   - keypadOperators, keypadConstants: Key values the engine understands
+ *   - getDisplayText: Canonical text of the current entry
+ *   - formatDisplay: Display text with fraction and complex results in the chosen form and
+ *     programmer results in the chosen base
+ *   - formatHistoryEntry: `expression = result` text of a history entry, with the error
+ *     estimates of its calculus calls
+ *   - scopeOf: Variables plus ans (last result) and ans1, ans2, ... (history, oldest first)
  *
  * Calculator Math Utilities (calculator-math.ts)
  *   - degreesToRadians, radiansToDegrees
- *   - factorial (with memoization)
+ *   - factorial (with memoization), exact for integers and Γ(x + 1) for non-integers so
+ *     0.5! = √π/2
  *   - formatNumber (intelligent precision)
  *   - isValidExpression, safeEvaluate
- *   - permutation, combination, gcd, lcm
+ *   - parseInput: Evaluate a typed expression or an assignment such as x = 3.2
+ *   - checkVariableName: Why a name cannot be assigned (built-ins, i, ans, ansN)
+ *   - defineFunction: Validate a definition such as f(x, y) = sqrt(x^2 + y^2); recursion
+ *     needs a base case through if(condition, a, b)
+ *   - permutation, combination (exact, then rounded once), gcd, lcm
  *   - roundTo, calculatePercentage, etc.
+ *   - Business math on calculatePercentage: sellingPriceForMargin, costForMargin, marginPercent,
+ *     sellingPriceForMarkup, costForMarkup, markupPercent, markupToMargin, marginToMarkup,
+ *     addTax, removeTax, applyDiscounts (chained), addTip and splitBill; as expression functions
+ *     sellmargin(cost, margin), costmargin, margin(cost, price), sellmarkup, costmarkup,
+ *     markup(cost, price), markuptomargin, margintomarkup, addtax(x[, rate]),
+ *     removetax(x[, rate]), discount(price, d1, d2, ...), tip(bill, pct) and
+ *     split(bill, people[, tip]); the tax functions default to CalculatorState.taxRate
+ *
+ * Expression Engine (expression-tokenizer.ts, expression-parser.ts, expression-evaluator.ts)
+ *   - tokenize: Typed tokens with source positions
+ *   - parseExpression: Recursive-descent parser producing a typed AST; juxtaposition
+ *     multiplies (2x, 3(4), (a)(b)); x→a (or x->a) names the point of a limit
+ *   - evaluateNode, evaluateExpression: AST evaluation without dynamic code execution
+ *   - builtinFunctions, builtinConstants: Names available to expressions
+ *   - resolveVariable: Reads context variables in the caller's arithmetic
+ *   - evaluateSpecialCall: Lazy if(condition, a, b), calculus calls and calls to user-defined
+ *     functions
+ *   - Comparisons (<, <=, >, >=, ==, !=) evaluate to 1 or 0
+ *   - tryEvaluateExpression: Returns the value or a CalculatorError instead of throwing;
+ *     evaluates in decimal when the context sets a precision, exactly when it sets fractions
+ *     and over the complex numbers when it sets complex
+ *   - Hexadecimal, octal and binary literals (0xFF, 0o17, 0b1010) in every arithmetic
+ *   - Inexact results of exact fraction arithmetic are marked ≈1.414 and read back as floats
+ *
+ * Decimal Arithmetic (decimal.ts, decimal-math.ts, decimal-evaluator.ts)
+ *   - Decimal: Immutable BigInt-backed decimal with exact +, −, × and rounded ÷
+ *   - decimalSqrt, decimalExp, decimalLn, decimalSin, ...: Functions to any number of digits
+ *   - evaluateDecimalNode: AST evaluation rounding each step to the context precision
+ *   - Special functions, distributions and the TVM solvers run in double precision; their
+ *     results keep the 15 digits a double holds and are marked approximate (≈1.77245385090552)
+ *
+ * Rational Arithmetic (rational.ts, rational-evaluator.ts)
+ *   - Rational: Immutable BigInt fraction in lowest terms (1/3 + 1/6 = 1/2)
+ *   - Rational.parse: Fractions, decimals and repeating decimals such as 0.(3)
+ *   - format: Improper fraction, mixed number or repeating decimal text
+ *   - evaluateRationalNode: Exact AST evaluation, floating point once a result is irrational
+ *
+ * Complex Arithmetic (complex.ts, complex-evaluator.ts)
+ *   - Complex: Immutable complex value with principal-branch sqrt, ln, pow, trig and gamma
+ *   - Expressions accept imaginary literals (3 + 4i) and polar values (10∠30, polar(10, 30))
+ *   - arg, conj, re, im: Complex part functions, also accepted in real arithmetic
+ *   - evaluateComplexNode: AST evaluation that matches float mode for real results
+ *
+ * Programmer Arithmetic (programmer.ts, programmer-evaluator.ts)
+ *   - Integers of 8, 16, 32 or 64 bits, signed (two's complement) or unsigned, in
+ *     CalculatorState.wordSize; every result wraps around like a machine register
+ *   - and, or, xor, not, lshift, rshift: Bitwise functions, also in float and decimal arithmetic
+ *   - rol, ror: Rotation within the word, only in programmer arithmetic
+ *   - formatInteger: Decimal value or the bit pattern in hex, octal or binary (-1 is 0xFF in a
+ *     signed byte)
+ *   - evaluateProgrammerNode: AST evaluation over BigInt; division truncates toward zero
+ *
+ * IEEE-754 Floating Point (ieee754.ts)
+ *   - encodeFloat, decodeFloat: float32 and float64 values to and from their bit encodings
+ *   - inspectFloat: Sign, exponent and mantissa fields, hex encoding, class (zero, subnormal,
+ *     normal, infinite, NaN) and ULP of an encoding
+ *   - nextFloat: The next representable value of greater magnitude
+ *   - The /float-inspector page shows them for a value, linked from the calculator's display,
+ *     and edits the bits on the programmer bit grid
+ *
+ * Finance (finance.ts)
+ *   - solveTvm: Any one of N, I/Y, PV, PMT and FV from the other four, with payments and
+ *     compoundings per year and begin/end timing; money paid out is negative
+ *   - amortizationSchedule: Interest, principal and balance for each period, with an optional
+ *     extra payment and totals; amortizationCsv and amortizationJson export it
+ *   - netPresentValue, internalRateOfReturn, percentChange
+ *   - Expression functions: tvmn, tvmiy, tvmpv, tvmpmt and tvmfv take the other four in that
+ *     order, then optionally P/Y, C/Y and 1 for begin (tvmpmt(360, 6, 200000, 0, 12));
+ *     npv(rate, CF0, CF1, ...), irr(CF0, CF1, ...) and pctchange(from, to), with lists expanding
+ *   - The engine keeps the registers in CalculatorState.tvm
+ *
+ * Special Functions (special-functions.ts)
+ *   - gamma, lnGamma, beta: Lanczos approximation, exact at the positive integers
+ *   - erf, erfc: Series and continued fraction, so erfc keeps its small values
+ *   - besselJ, besselY: Integer orders by Miller's backward recurrence and Neumann series
+ *   - lambertW: Principal branch and branch −1
+ *   - Expression functions: gamma, lngamma, beta, erf, erfc, besselj(n, x), bessely(n, x),
+ *     lambertw(x[, branch]), with sec, csc, cot, asinh, acosh and atanh alongside the
+ *     trigonometric and hyperbolic functions
+ *
+ * Number Theory (number-theory.ts)
+ *   - bigFactorial, bigPermutations, bigCombinations: Exact BigInt combinatorics
+ *   - isPrime (Miller–Rabin), primeFactors and primePowers (trial division and Pollard's rho),
+ *     divisors, eulerPhi
+ *   - modPow, modInverse, extendedGcd, chineseRemainder (moduli need not be coprime)
+ *   - Expression functions, exact in every arithmetic: ncr(n, r), npr(n, r), isprime(n),
+ *     totient(n), powmod(b, e, m), invmod(a, m) and crt(r1, m1, r2, m2, ...)
+ *   - factor(n), divisors(n) and egcd(a, b) return row vectors, so only in float arithmetic:
+ *     factor(360) = [2, 2, 2, 3, 3, 5]
+ *
+ * Probability (distributions.ts, random.ts)
+ *   - distributions: Normal, Student t, chi-square, F, uniform and exponential, and the
+ *     binomial, Poisson and geometric distributions with density, cdf and support
+ *   - inverseCdf: Closed forms or bisection; discrete inverses are the smallest k with
+ *     cdf(k) ≥ p
+ *   - RandomGenerator: Seeded Mulberry32 generator; sampleDistribution draws by inversion
+ *   - Expression functions for each distribution name: normpdf(x[, μ, σ]), normcdf, norminv,
+ *     normrand, tcdf(x, ν), chi2inv(p, k), fcdf(x, d1, d2), binompmf(k, n, p), poissoncdf(k, λ),
+ *     geominv(q, p), unifpdf(x[, a, b]), exprand([λ]), ...; plus rand() and randint(a, b)
+ *   - regularizedGammaP, regularizedGammaQ, regularizedBeta (special-functions.ts) underlie
+ *     the distribution functions
+ *
+ * Numeric Calculus (calculus.ts)
+ *   - integrate: Adaptive Gauss–Kronrod quadrature over a finite interval
+ *   - differentiate, limit: Ridders' extrapolation of central differences and of one-sided
+ *     samples approaching the point
+ *   - findRoot (secant steps, then Brent once bracketed), solveBracketed (Brent), minimize and
+ *     maximize (Brent's golden-section search)
+ *   - Each returns a NumericResult: value, error estimate, converged flag and evaluation count
+ *   - Expression functions take a function name or an expression in x: integrate(x^2, 0, 1),
+ *     deriv(sin, 0), limit(sin(t)/t, t→0[, side]), root(f, guess), solve(f, a, b), fmin(f, a, b)
+ *     and fmax(f, a, b), the last two returning the location
+ *   - A call that does not converge is an error quoting its best estimate; the estimates of the
+ *     others come back in EvaluationResult.estimates and HistoryEntry.estimates
+ *
+ * Physical Constants (physical-constants.ts)
+ *   - physicalConstants: CODATA 2018 values with symbol, unit and standard uncertainty, in the
+ *     universal, electromagnetic, atomic, physico-chemical and adopted domains
+ *   - physicalConstantsByName, searchPhysicalConstants, constantExpression, relativeUncertainty
+ *   - Every constant is a keypad constant by its name (mu0, NA, faraday), so any layout can have
+ *     a key for it
+ *   - Expressions read constants by name (c^2, planck * c / (500 nm) to eV), with units in float
+ *     arithmetic; pi, e, phi and variables come first, so c = 3 hides the speed of light
+ *   - Unit symbols stay units, so no constant is named like one: h is the hour and the Planck
+ *     constant is planck; a constant wins over a prefixed unit reading (hbar is ħ, not hectobar)
+ *
+ * Units (units.ts, quantity-evaluator.ts)
+ *   - units, lookupUnit: SI, metric and imperial units; SI prefixes apply to SI units (km, µs)
+ *   - Quantity: Value with units that keeps the units it was entered in (72 km/h); units of the
+ *     same kind merge into the first one (3 m/s * 2 min = 360 m)
+ *   - A number and its units group before '*' and '/': 10 m / 2 s = 5 m/s
+ *   - Conversion with to: 72 km/h to m/s = 20 m/s; mismatched units are a `units` error;
+ *     results round to 15 digits, so 1 km/h/s = 3600 km/h^2
+ *   - Temperatures degC and degF convert and compare as points on their scales (1 K to degC =
+ *     -272.15 degC) but add and multiply as differences (20 degC + 9 degF = 25 degC)
+ *   - evaluateQuantityNode: Unit-aware float evaluation used by tryEvaluateExpression
+ *   - The c, G, h and k keys carry their units in float arithmetic
+ *
+ * Matrices (matrix.ts, matrix-evaluator.ts)
+ *   - Literals separate entries with commas and rows with semicolons: [1, 2; 3, 4]; matrix
+ *     entries join side by side ([A, b])
+ *   - Matrix: Immutable real matrix with LU determinant, Gauss-Jordan inverse and solve,
+ *     rank, integer powers and QR eigenvalues
+ *   - +, −, × and ^ follow matrix rules; numbers scale matrices
+ *   - det, inv, transpose, rank, solve, eig, dot, cross, norm: Also accept plain numbers
+ *   - Matrices are float-only; other arithmetics report a `domain` error
+ *
+ * Statistics (statistics.ts)
+ *   - count, sum, mean, median, mode, variance, pvariance, stdev, pstdev: Any number of values;
+ *     data lists expand into their values (mean(L1), mean(L1, 5))
+ *   - quartile(L1, k) and percentile(L1, p): Linear interpolation between sorted values, as
+ *     spreadsheets' QUARTILE.INC and PERCENTILE.INC
+ *   - Written once over StatisticsArithmetic, so fraction mode keeps mean(1/3, 1/6) = 1/4 exact
+ *     and decimal mode computes to its precision
+ *   - Lists are stored in CalculatorState.lists and saved with the workspace; in float arithmetic
+ *     a list on its own is a column ([1; 2; 3]), and matrices expand like lists
+ *   - parseDataTable: CSV/TSV text into columns, with an optional heading row
+ *
+ * Regression (regression.ts)
+ *   - fitRegression: Least-squares linear, polynomial (degree 1 to 6), exponential (a e^(b x)),
+ *     logarithmic (a + b ln x) and power (a x^b) fits with coefficients, r² and residuals
+ *   - Exponential, logarithmic and power models are fitted as lines through ln-transformed data,
+ *     so r² is that of the transformed fit, as in spreadsheet trendlines
+ *   - The engine's fit-regression action defines the prediction as the user function fit(x),
+ *     stores the residuals in the list RESID and keeps the fit in CalculatorState.regression
+ *
+ * Calculator Errors (calculator-errors.ts)
+ *   - CalculatorError: code (syntax, domain, division-by-zero, overflow, unknown-identifier,
+ *     stack-underflow, units)
+ *     plus the start/end character range it refers to
+ *   - ExpressionError component renders the message and underlines the range
  *
  * Keyboard Builder Utilities (keyboard-builder.ts)
  *   - createCustomLayout: Build custom layouts
  *   - createButtonGroup, createButton: Create components
+ *   - createFunctionButton: Keypad button that calls a user-defined function
+ *   - createConstantButton: Keypad button for a physical constant
  *   - mergeLayouts: Combine multiple layouts
- *   - createMinimalLayout, createProgrammerLayout, createFinanceLayout
+ *   - shiftLayout: Relabel keys while a shift is active (hyperbolicButtons for HYP)
+ *   - createMinimalLayout, createProgrammerLayout, createFinanceLayout, createBusinessLayout,
+ *     createProbabilityLayout
  *   - validateLayout, exportLayoutAsJSON, importLayoutFromJSON
  *
  * Brand Colors & Styling:
@@ -244,9 +614,18 @@
  * │   ├── calculator-display.tsx
  * │   ├── calculator-advanced.tsx
  * │   ├── calculator-widget.tsx
+ * │   ├── variables-panel.tsx
+ * │   ├── matrix-editor.tsx
+ * │   ├── statistics-panel.tsx
+ * │   ├── programmer-panel.tsx
+ * │   ├── tvm-panel.tsx
+ * │   ├── amortization-table.tsx
+ * │   ├── constants-picker.tsx
+ * │   ├── expression-input.tsx
  * │   └── index.ts (this file)
  * ├── pages/
- * │   └── calculator.tsx
+ * │   ├── calculator.tsx
+ * │   └── float-inspector.tsx
  * ├── types/
  * │   └── calculator.ts
  * ├── config/
@@ -254,7 +633,23 @@
  * ├── hooks/
  * │   └── useCalculator.ts
  * └── utils/
+ *     ├── calculator-engine.ts
  *     ├── calculator-math.ts
+ *     ├── decimal.ts, decimal-math.ts, decimal-evaluator.ts
+ *     ├── rational.ts, rational-evaluator.ts
+ *     ├── complex.ts, complex-evaluator.ts
+ *     ├── units.ts, quantity-evaluator.ts
+ *     ├── matrix.ts, matrix-evaluator.ts
+ *     ├── statistics.ts, regression.ts
+ *     ├── programmer.ts, programmer-evaluator.ts
+ *     ├── ieee754.ts
+ *     ├── finance.ts
+ *     ├── number-theory.ts
+ *     ├── distributions.ts, random.ts
+ *     ├── calculus.ts
+ *     ├── physical-constants.ts
+ *     ├── special-functions.ts
+ *     ├── workspace.ts
  *     └── keyboard-builder.ts
  *
  * Feature Support:
@@ -263,6 +658,12 @@
  * ✓ Physical constants
  * ✓ Memory management (M+, M-, MR, MC)
  * ✓ Calculation history
+ * ✓ Variables, assignment and ans history references
+ * ✓ User-defined functions with autocomplete and a saved workspace
+ * ✓ Units of measurement with conversion and dimension checks
+ * ✓ Matrices and vectors with a grid editor
+ * ✓ Statistics of data lists entered in a table or pasted as CSV/TSV
+ * ✓ Regression fits with residuals and a fit(x) prediction function
  * ✓ Angle mode switching (RAD/DEG)
  * ✓ Keyboard shortcuts
  * ✓ Dark mode support
@@ -271,7 +672,17 @@
  * ✓ Multiple layout presets
  * ✓ Customizable layouts
  * ✓ Touch-first design
- * ✓ High-precision calculations
+ * ✓ High-precision calculations (arbitrary-precision decimal mode)
+ * ✓ Exact fractions and repeating decimals (fraction mode)
+ * ✓ Complex numbers and phasors (complex mode)
+ * ✓ Programmer integers with word sizes, bases and bitwise operators (programmer mode)
+ * ✓ Every base at once and a clickable bit grid for programmer values
+ * ✓ IEEE-754 float32/float64 inspector with editable bits
+ * ✓ Time value of money, NPV and IRR (finance layout)
+ * ✓ Sortable amortization schedules with extra payments and CSV/JSON export
+ * ✓ Business math: margin, markup, tax at a configurable rate, discounts and bill splitting
+ * ✓ Probability distributions and a seeded random generator (probability layout)
+ * ✓ Numeric integrals, derivatives, limits, roots and extrema with error estimates
  * ✓ Error handling
  *
  * Performance Considerations:
@@ -288,5 +699,21 @@ export { default as CalculatorKeyboard } from './calculator-keyboard'
 export { default as CalculatorDisplay } from './calculator-display'
 export { default as AdvancedCalculator } from './calculator-advanced'
 export { default as CalculatorWidget } from './calculator-widget'
-export { default as MathExpressionDisplay, type MathExpressionDisplayProps, type ViewMode } from './math-expression-display'
-export { default as AdvancedExpressionEditor, type AdvancedExpressionEditorProps } from './expression-editor-advanced'
+export { default as VariablesPanel } from './variables-panel'
+export { default as MatrixEditor } from './matrix-editor'
+export { default as StatisticsPanel } from './statistics-panel'
+export { default as ProgrammerPanel } from './programmer-panel'
+export { default as TvmPanel } from './tvm-panel'
+export { default as AmortizationTable } from './amortization-table'
+export { default as ConstantsPicker } from './constants-picker'
+export {
+  default as MathExpressionDisplay,
+  type MathExpressionDisplayProps,
+  type ViewMode,
+} from './math-expression-display'
+export {
+  default as AdvancedExpressionEditor,
+  type AdvancedExpressionEditorProps,
+} from './expression-editor-advanced'
+export { default as ExpressionError } from './expression-error'
+export { default as ExpressionInput } from './expression-input'
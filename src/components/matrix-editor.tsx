@@ -0,0 +1,135 @@
+/**
+ * Matrix Editor Component
+ * Grid for entering a matrix or vector cell by cell; inserting produces the literal text
+ * `[1, 2; 3, 4]` for an expression editor or input line
+ */
+
+import React, { useState } from 'react'
+
+interface MatrixEditorProps {
+  /** Receive the matrix literal, e.g. to insert it at the cursor of an expression editor */
+  onInsert: (literal: string) => void
+  initialRows?: number
+  initialCols?: number
+  /** Largest number of rows or columns */
+  maxSize?: number
+  className?: string
+}
+
+const inputClassName =
+  'w-16 px-2 py-1 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-sm font-mono text-center text-gray-900 dark:text-white'
+
+const actionClassName =
+  'text-xs px-2 py-1 bg-gray-300 dark:bg-gray-600 text-gray-900 dark:text-white rounded hover:bg-gray-400 disabled:opacity-50'
+
+const emptyCells = (rows: number, cols: number): string[][] =>
+  Array.from({ length: rows }, () => Array<string>(cols).fill(''))
+
+/**
+ * Cells resized to a new size, keeping the entries that still fit
+ */
+const resize = (cells: string[][], rows: number, cols: number): string[][] =>
+  emptyCells(rows, cols).map((row, i) => row.map((empty, j) => cells[i]?.[j] ?? empty))
+
+/**
+ * Matrix literal of the cells; empty cells are zero, and each cell may be any expression
+ */
+const literalOf = (cells: string[][]): string =>
+  `[${cells.map(row => row.map(cell => cell.trim() || '0').join(', ')).join('; ')}]`
+
+export const MatrixEditor: React.FC<MatrixEditorProps> = ({
+  onInsert,
+  initialRows = 2,
+  initialCols = 2,
+  maxSize = 6,
+  className = '',
+}) => {
+  const [cells, setCells] = useState(() => emptyCells(initialRows, initialCols))
+  const rows = cells.length
+  const cols = cells[0].length
+
+  const setCell = (row: number, col: number, value: string) => {
+    setCells(current =>
+      current.map((cellsOfRow, i) =>
+        i === row ? cellsOfRow.map((cell, j) => (j === col ? value : cell)) : cellsOfRow
+      )
+    )
+  }
+
+  const sizeControl = (label: string, count: number, change: (count: number) => void) => (
+    <div className="flex gap-1 items-center">
+      <span className="text-xs text-gray-700 dark:text-gray-300">{label}</span>
+      <button
+        type="button"
+        onClick={() => change(count - 1)}
+        disabled={count <= 1}
+        aria-label={`Fewer ${label.toLowerCase()}`}
+        className={actionClassName}
+      >
+        −
+      </button>
+      <span className="w-4 text-center text-sm font-mono text-gray-900 dark:text-white">
+        {count}
+      </span>
+      <button
+        type="button"
+        onClick={() => change(count + 1)}
+        disabled={count >= maxSize}
+        aria-label={`More ${label.toLowerCase()}`}
+        className={actionClassName}
+      >
+        +
+      </button>
+    </div>
+  )
+
+  return (
+    <div className={`bg-gray-50 dark:bg-gray-700/50 rounded-lg p-4 space-y-3 ${className}`}>
+      <div className="flex flex-wrap gap-4 items-center">
+        <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300">Matrix</h3>
+        {sizeControl('Rows', rows, count => setCells(resize(cells, count, cols)))}
+        {sizeControl('Columns', cols, count => setCells(resize(cells, rows, count)))}
+      </div>
+
+      <div
+        className="inline-grid gap-1 border-x-2 border-gray-500 dark:border-gray-400 rounded px-2 py-1"
+        style={{ gridTemplateColumns: `repeat(${cols}, auto)` }}
+      >
+        {cells.map((cellsOfRow, i) =>
+          cellsOfRow.map((cell, j) => (
+            <input
+              key={`${i}-${j}`}
+              value={cell}
+              onChange={e => setCell(i, j, e.target.value)}
+              placeholder="0"
+              aria-label={`Row ${i + 1}, column ${j + 1}`}
+              className={inputClassName}
+            />
+          ))
+        )}
+      </div>
+
+      <div className="flex gap-2 items-center">
+        <button
+          type="button"
+          onClick={() => onInsert(literalOf(cells))}
+          className={actionClassName}
+        >
+          Insert
+        </button>
+        <button
+          type="button"
+          onClick={() => setCells(emptyCells(rows, cols))}
+          className={actionClassName}
+        >
+          Clear
+        </button>
+        <span className="font-mono text-xs text-gray-500 dark:text-gray-400 break-all">
+          {literalOf(cells)}
+        </span>
+      </div>
+    </div>
+  )
+}
+
+export default MatrixEditor
@@ -0,0 +1,124 @@
+/**
+ * Programmer Panel Component
+ * The current programmer value in hexadecimal, decimal, octal and binary at once, and a grid
+ * of the word's bits that flips a bit when clicked
+ */
+
+import React from 'react'
+import { NumberBase } from '@/types/calculator'
+import { WordSize } from '@/types/expression'
+import { bitPattern, formatInteger, numberBases, parseInteger } from '@/utils/programmer'
+
+interface ProgrammerPanelProps {
+  /** The value shown, as decimal text such as getDisplayText returns */
+  value: string
+  wordSize: WordSize
+  /** Base of the display, highlighted among the rows */
+  base: NumberBase
+  /** Show the display in another base */
+  onSetBase?: (base: NumberBase) => void
+  /** Flip a bit of the value, 0 being the least significant */
+  onToggleBit?: (bit: number) => void
+  /** Tooltip of a bit; `Bit 5` by default */
+  describeBit?: (bit: number) => string
+  className?: string
+}
+
+/**
+ * Bits per row of the grid
+ */
+const ROW_BITS = 16
+
+/**
+ * Binary text in groups of four digits from the right: 0b1 0110
+ */
+const groupNibbles = (text: string): string => text.replace(/\B(?=([01]{4})+$)/g, ' ')
+
+export const ProgrammerPanel: React.FC<ProgrammerPanelProps> = ({
+  value,
+  wordSize,
+  base,
+  onSetBase,
+  onToggleBit,
+  describeBit = bit => `Bit ${bit}`,
+  className = '',
+}) => {
+  const integer = parseInteger(value)
+  const pattern = integer === null ? 0n : bitPattern(integer, wordSize)
+
+  // Most significant row first, and most significant bit first within a row
+  const rows = Array.from({ length: Math.ceil(wordSize.bits / ROW_BITS) }, (_, row) => {
+    const high = wordSize.bits - 1 - row * ROW_BITS
+    return Array.from({ length: Math.min(ROW_BITS, high + 1) }, (_, k) => high - k)
+  })
+
+  return (
+    <div className={`bg-gray-50 dark:bg-gray-700/50 rounded-lg p-4 space-y-3 ${className}`}>
+      <div className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 font-mono text-sm">
+        {numberBases.map(option => (
+          <React.Fragment key={option}>
+            <button
+              type="button"
+              onClick={() => onSetBase?.(option)}
+              disabled={!onSetBase}
+              aria-pressed={base === option}
+              title={`Show the display in ${option}`}
+              className={`text-xs px-2 py-0.5 rounded font-semibold ${
+                base === option
+                  ? 'bg-indigo-600 text-white'
+                  : 'bg-gray-300 dark:bg-gray-600 text-gray-900 dark:text-white hover:bg-gray-400'
+              }`}
+            >
+              {option.toUpperCase()}
+            </button>
+            <span className="self-center break-all text-gray-900 dark:text-white">
+              {integer === null
+                ? '—'
+                : option === 'bin'
+                  ? groupNibbles(formatInteger(integer, option, wordSize))
+                  : formatInteger(integer, option, wordSize)}
+            </span>
+          </React.Fragment>
+        ))}
+      </div>
+
+      <div className="space-y-2" role="group" aria-label="Bits of the word">
+        {rows.map(bits => (
+          <div key={bits[0]} className="flex flex-wrap gap-2">
+            {Array.from({ length: bits.length / 4 }, (_, nibble) =>
+              bits.slice(nibble * 4, nibble * 4 + 4)
+            ).map(nibble => (
+              <div key={nibble[0]} className="flex flex-col items-end">
+                <div className="flex">
+                  {nibble.map(bit => {
+                    const set = ((pattern >> BigInt(bit)) & 1n) === 1n
+                    return (
+                      <button
+                        key={bit}
+                        type="button"
+                        onClick={() => onToggleBit?.(bit)}
+                        disabled={integer === null || !onToggleBit}
+                        aria-pressed={set}
+                        title={describeBit(bit)}
+                        className={`w-6 h-7 font-mono text-sm rounded disabled:opacity-50 ${
+                          set
+                            ? 'text-indigo-600 dark:text-indigo-300 font-bold'
+                            : 'text-gray-500 dark:text-gray-400'
+                        } hover:bg-gray-200 dark:hover:bg-gray-600`}
+                      >
+                        {set ? 1 : 0}
+                      </button>
+                    )
+                  })}
+                </div>
+                <span className="text-[10px] text-gray-400 pr-1">{nibble[nibble.length - 1]}</span>
+              </div>
+            ))}
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+export default ProgrammerPanel
@@ -0,0 +1,343 @@
+/**
+ * Statistics Panel Component
+ * Data lists entered in a table or pasted as CSV/TSV, with a summary of the selected list;
+ * each statistic can be inserted into the input line as an expression such as `mean(L1)`.
+ * A regression of one list on another reports its coefficients, r² and residuals.
+ */
+
+import React, { useState } from 'react'
+import { ListRegression } from '@/types/calculator'
+import { tryEvaluateExpression } from '@/utils/expression-evaluator'
+import {
+  coefficientNames,
+  MAX_POLYNOMIAL_DEGREE,
+  RegressionModel,
+  regressionModels,
+} from '@/utils/regression'
+import { parseDataTable } from '@/utils/statistics'
+
+interface StatisticsPanelProps {
+  /** Data lists as number text, keyed by name */
+  lists: Record<string, string[]>
+  /** Store a list from its entries, each an expression; an empty list is deleted */
+  onSetList: (name: string, values: string[]) => void
+  onDeleteList: (name: string) => void
+  /** Last fitted regression, if any */
+  regression?: ListRegression | null
+  /** Fit list y against list x, defining `fit(x)` and the residual list RESID */
+  onFit?: (model: RegressionModel, x: string, y: string, degree?: number) => void
+  /** Receive an expression such as `mean(L1)`, e.g. to add it to the input line */
+  onInsert?: (expression: string) => void
+  className?: string
+}
+
+/**
+ * Lists offered even before they hold data
+ */
+const DEFAULT_LISTS = ['L1', 'L2', 'L3']
+
+/**
+ * Summary rows: label and the expression computing it for a list
+ */
+const summaryRows: { label: string; expression: (list: string) => string }[] = [
+  { label: 'n', expression: list => `count(${list})` },
+  { label: 'Σx', expression: list => `sum(${list})` },
+  { label: 'x̄', expression: list => `mean(${list})` },
+  { label: 'median', expression: list => `median(${list})` },
+  { label: 'mode', expression: list => `mode(${list})` },
+  { label: 's', expression: list => `stdev(${list})` },
+  { label: 'σ', expression: list => `pstdev(${list})` },
+  { label: 's²', expression: list => `variance(${list})` },
+  { label: 'min', expression: list => `min(${list})` },
+  { label: 'Q1', expression: list => `quartile(${list}, 1)` },
+  { label: 'Q3', expression: list => `quartile(${list}, 3)` },
+  { label: 'max', expression: list => `max(${list})` },
+]
+
+const inputClassName =
+  'px-2 py-1 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-sm font-mono text-gray-900 dark:text-white'
+
+const actionClassName =
+  'text-xs px-2 py-1 bg-gray-300 dark:bg-gray-600 text-gray-900 dark:text-white rounded hover:bg-gray-400'
+
+/**
+ * Names for pasted columns: the selected list and the numbered lists after it (L2, L3, ...)
+ */
+const targetLists = (selected: string, count: number): string[] => {
+  const match = /^(.*?)(\d+)$/.exec(selected)
+  if (!match) {
+    return [selected]
+  }
+  return Array.from({ length: count }, (_, k) => `${match[1]}${Number(match[2]) + k}`)
+}
+
+export const StatisticsPanel: React.FC<StatisticsPanelProps> = ({
+  lists,
+  onSetList,
+  onDeleteList,
+  regression,
+  onFit,
+  onInsert,
+  className = '',
+}) => {
+  const [selected, setSelected] = useState(DEFAULT_LISTS[0])
+  const [draft, setDraft] = useState<string[]>(lists[selected] ?? [])
+  const [draftOf, setDraftOf] = useState(lists[selected])
+  const [pasted, setPasted] = useState('')
+  const [imported, setImported] = useState<string | null>(null)
+  const [model, setModel] = useState<RegressionModel>('linear')
+  const [xList, setXList] = useState(DEFAULT_LISTS[0])
+  const [yList, setYList] = useState(DEFAULT_LISTS[1])
+  const [degree, setDegree] = useState(2)
+
+  const names = Array.from(new Set([...DEFAULT_LISTS, ...Object.keys(lists)])).sort()
+  const stored = lists[selected]
+
+  // Show the stored values whenever the list changes, e.g. after Σ+ on the keypad
+  if (stored !== draftOf) {
+    setDraftOf(stored)
+    setDraft(stored ?? [])
+  }
+
+  const setCell = (index: number, value: string) => {
+    setDraft(current => current.map((cell, k) => (k === index ? value : cell)))
+  }
+
+  const saveDraft = (event: React.FormEvent) => {
+    event.preventDefault()
+    onSetList(selected, draft)
+  }
+
+  const importPasted = () => {
+    const table = parseDataTable(pasted)
+    const columns = table.columns.filter(column => column.length > 0)
+    const targets = targetLists(selected, columns.length)
+    targets.forEach((name, k) => onSetList(name, columns[k]))
+    setImported(
+      targets
+        .map((name, k) => (table.headings?.[k] ? `${table.headings[k]} → ${name}` : name))
+        .join(', ')
+    )
+    setPasted('')
+  }
+
+  const summary = (expression: string): string => {
+    const result = tryEvaluateExpression(expression, { angleMode: 'rad', lists })
+    return result.ok ? result.text : '—'
+  }
+
+  return (
+    <div className={`bg-gray-50 dark:bg-gray-700/50 rounded-lg p-4 space-y-3 ${className}`}>
+      <div className="flex flex-wrap gap-2 items-center">
+        <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300">Statistics</h3>
+        {names.map(name => (
+          <button
+            key={name}
+            type="button"
+            onClick={() => setSelected(name)}
+            aria-pressed={selected === name}
+            className={`text-xs px-2 py-1 rounded font-mono ${
+              selected === name
+                ? 'bg-blue-600 text-white'
+                : 'bg-gray-300 dark:bg-gray-600 text-gray-900 dark:text-white hover:bg-gray-400'
+            }`}
+          >
+            {name}
+            {lists[name] ? ` (${lists[name].length})` : ''}
+          </button>
+        ))}
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-2">
+        <form onSubmit={saveDraft} className="space-y-1">
+          <div className="max-h-48 overflow-y-auto space-y-1">
+            {draft.map((cell, index) => (
+              <div key={index} className="flex gap-2 items-center">
+                <span className="w-8 text-right text-xs text-gray-500 dark:text-gray-400">
+                  {index + 1}
+                </span>
+                <input
+                  value={cell}
+                  onChange={e => setCell(index, e.target.value)}
+                  aria-label={`${selected} value ${index + 1}`}
+                  className={`flex-1 ${inputClassName}`}
+                />
+                <button
+                  type="button"
+                  onClick={() => setDraft(current => current.filter((_, k) => k !== index))}
+                  title={`Remove value ${index + 1}`}
+                  className={actionClassName}
+                >
+                  ✕
+                </button>
+              </div>
+            ))}
+          </div>
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={() => setDraft(current => [...current, ''])}
+              className={actionClassName}
+            >
+              Add row
+            </button>
+            <button type="submit" className={actionClassName}>
+              Save {selected}
+            </button>
+            {stored && (
+              <button
+                type="button"
+                onClick={() => onDeleteList(selected)}
+                className={actionClassName}
+              >
+                Delete
+              </button>
+            )}
+          </div>
+        </form>
+
+        <table className="text-sm font-mono text-gray-900 dark:text-white">
+          <tbody>
+            {summaryRows.map(({ label, expression }) => (
+              <tr key={label}>
+                <td className="pr-3 text-gray-500 dark:text-gray-400">{label}</td>
+                <td className="pr-3 break-all">{stored ? summary(expression(selected)) : '—'}</td>
+                {onInsert && (
+                  <td>
+                    <button
+                      type="button"
+                      onClick={() => onInsert(expression(selected))}
+                      title={`Insert ${expression(selected)}`}
+                      className={actionClassName}
+                    >
+                      ↵
+                    </button>
+                  </td>
+                )}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="space-y-1">
+        <textarea
+          value={pasted}
+          onChange={e => setPasted(e.target.value)}
+          placeholder={`Paste CSV or TSV; columns fill ${selected} and the lists after it`}
+          aria-label="Pasted data"
+          rows={3}
+          className={`w-full ${inputClassName}`}
+        />
+        <div className="flex gap-2 items-center">
+          <button
+            type="button"
+            onClick={importPasted}
+            disabled={!pasted.trim()}
+            className={`${actionClassName} disabled:opacity-50`}
+          >
+            Import
+          </button>
+          {imported && (
+            <span className="text-xs text-gray-500 dark:text-gray-400">Imported {imported}</span>
+          )}
+        </div>
+      </div>
+
+      {onFit && (
+        <div className="space-y-2">
+          <div className="flex flex-wrap gap-2 items-center text-sm text-gray-700 dark:text-gray-300">
+            <select
+              value={model}
+              onChange={e => setModel(e.target.value as RegressionModel)}
+              aria-label="Regression model"
+              className={inputClassName}
+            >
+              {regressionModels.map(option => (
+                <option key={option.model} value={option.model}>
+                  {option.label}: {option.form}
+                </option>
+              ))}
+            </select>
+            {model === 'polynomial' && (
+              <label className="flex gap-1 items-center">
+                degree
+                <input
+                  type="number"
+                  min={1}
+                  max={MAX_POLYNOMIAL_DEGREE}
+                  value={degree}
+                  onChange={e => setDegree(Number(e.target.value))}
+                  className={`w-14 ${inputClassName}`}
+                />
+              </label>
+            )}
+            <label className="flex gap-1 items-center">
+              x
+              <select
+                value={xList}
+                onChange={e => setXList(e.target.value)}
+                className={inputClassName}
+              >
+                {names.map(name => (
+                  <option key={name}>{name}</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex gap-1 items-center">
+              y
+              <select
+                value={yList}
+                onChange={e => setYList(e.target.value)}
+                className={inputClassName}
+              >
+                {names.map(name => (
+                  <option key={name}>{name}</option>
+                ))}
+              </select>
+            </label>
+            <button
+              type="button"
+              onClick={() =>
+                onFit(model, xList, yList, model === 'polynomial' ? degree : undefined)
+              }
+              className={actionClassName}
+            >
+              Fit
+            </button>
+          </div>
+          {regression && (
+            <div className="text-sm font-mono text-gray-900 dark:text-white space-y-1">
+              <div className="break-all">
+                {regression.y} ≈ fit({regression.x}) = {regression.equation}
+              </div>
+              <div className="flex flex-wrap gap-x-4">
+                {coefficientNames(regression).map((name, k) => (
+                  <span key={name}>
+                    {name} = {regression.coefficients[k]}
+                  </span>
+                ))}
+                <span>r² = {regression.r2}</span>
+              </div>
+              <div className="text-xs text-gray-500 dark:text-gray-400 break-all">
+                residuals (RESID): {regression.residuals.join(', ')}
+              </div>
+              {onInsert && (
+                <button
+                  type="button"
+                  onClick={() => onInsert('fit(')}
+                  title="Insert fit( to predict y at a value of x"
+                  className={actionClassName}
+                >
+                  fit( ↵
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default StatisticsPanel
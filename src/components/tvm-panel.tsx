@@ -0,0 +1,143 @@
+/**
+ * TVM Panel Component
+ * The time-value-of-money registers N, I/Y, PV, PMT and FV, each editable and computable from
+ * the other four, with payments and compoundings per year and the payment timing
+ */
+
+import React from 'react'
+import { TvmState } from '@/types/calculator'
+import { TvmSettings, TvmVariable, tvmVariables } from '@/utils/finance'
+
+interface TvmPanelProps {
+  tvm: TvmState
+  /** Store the value of an expression in a register */
+  onSetValue: (variable: TvmVariable, value: string) => void
+  onSetSettings: (settings: TvmSettings) => void
+  /** Compute a register from the other four */
+  onSolve: (variable: TvmVariable) => void
+  className?: string
+}
+
+const inputClassName =
+  'px-2 py-1 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-sm font-mono text-gray-900 dark:text-white'
+
+const actionClassName =
+  'text-xs px-2 py-1 bg-gray-300 dark:bg-gray-600 text-gray-900 dark:text-white rounded hover:bg-gray-400'
+
+export const TvmPanel: React.FC<TvmPanelProps> = ({
+  tvm,
+  onSetValue,
+  onSetSettings,
+  onSolve,
+  className = '',
+}) => {
+  const { settings } = tvm
+
+  // Inputs are keyed by the stored value so a register computed or stored from the keypad shows
+  const commit = (variable: TvmVariable, text: string) => {
+    if (text !== tvm.values[variable]) {
+      onSetValue(variable, text)
+    }
+  }
+
+  const setCount = (field: 'paymentsPerYear' | 'compoundingsPerYear', text: string) => {
+    const count = Number(text)
+    if (count > 0 && count !== settings[field]) {
+      onSetSettings({ ...settings, [field]: count })
+    }
+  }
+
+  return (
+    <div className={`bg-gray-50 dark:bg-gray-700/50 rounded-lg p-4 space-y-3 ${className}`}>
+      <div className="flex flex-wrap gap-2 items-center">
+        <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300">
+          Time Value of Money
+        </h3>
+        {tvm.computing && (
+          <span className="text-xs px-2 py-1 rounded font-semibold bg-amber-500 text-white">
+            CPT
+          </span>
+        )}
+      </div>
+
+      <div className="grid gap-2 sm:grid-cols-2 lg:grid-cols-5">
+        {tvmVariables.map(({ variable, label, description }) => (
+          <div key={variable} className="space-y-1">
+            <label
+              htmlFor={`tvm-${variable}`}
+              title={description}
+              className="block text-xs font-medium text-gray-500 dark:text-gray-400"
+            >
+              {label}
+            </label>
+            <div className="flex gap-1">
+              <input
+                id={`tvm-${variable}`}
+                key={tvm.values[variable]}
+                defaultValue={tvm.values[variable]}
+                onBlur={e => commit(variable, e.target.value)}
+                onKeyDown={e => {
+                  if (e.key === 'Enter') commit(variable, e.currentTarget.value)
+                }}
+                className={`w-full min-w-0 ${inputClassName}`}
+              />
+              <button
+                type="button"
+                onClick={() => onSolve(variable)}
+                title={`Compute ${label} from the other registers`}
+                className={actionClassName}
+              >
+                CPT
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap gap-3 items-center text-sm text-gray-700 dark:text-gray-300">
+        <label className="flex gap-1 items-center" title="Payments per year">
+          P/Y
+          <input
+            key={settings.paymentsPerYear}
+            type="number"
+            min={1}
+            defaultValue={settings.paymentsPerYear}
+            onBlur={e => setCount('paymentsPerYear', e.target.value)}
+            className={`w-16 ${inputClassName}`}
+          />
+        </label>
+        <label className="flex gap-1 items-center" title="Compounding periods per year">
+          C/Y
+          <input
+            key={settings.compoundingsPerYear}
+            type="number"
+            min={1}
+            defaultValue={settings.compoundingsPerYear}
+            onBlur={e => setCount('compoundingsPerYear', e.target.value)}
+            className={`w-16 ${inputClassName}`}
+          />
+        </label>
+        <div className="flex gap-1 bg-gray-200 dark:bg-gray-700 rounded-lg p-1">
+          {(['end', 'begin'] as const).map(timing => (
+            <button
+              key={timing}
+              type="button"
+              onClick={() => onSetSettings({ ...settings, timing })}
+              aria-pressed={settings.timing === timing}
+              title={`Payments at the ${timing === 'end' ? 'end' : 'beginning'} of periods`}
+              className={`px-2 py-1 rounded text-xs font-medium ${
+                settings.timing === timing
+                  ? 'bg-indigo-600 text-white'
+                  : 'text-gray-700 dark:text-gray-300'
+              }`}
+            >
+              {timing === 'end' ? 'END' : 'BGN'}
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default TvmPanel
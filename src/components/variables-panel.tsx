@@ -0,0 +1,169 @@
+/**
+ * Variables Panel Component
+ * Lists the user variables with their values and lets each one be edited, deleted or added,
+ * followed by the user-defined functions
+ */
+
+import React, { useState } from 'react'
+import { UserFunction } from '@/types/expression'
+
+interface VariablesPanelProps {
+  /** Variable values as number text, keyed by name */
+  variables: Record<string, string>
+  /** Store the value of an expression (`2pi`, `ans / 2`) in a variable */
+  onSet: (name: string, value: string) => void
+  onDelete: (name: string) => void
+  /** User-defined functions, listed when given */
+  functions?: Record<string, UserFunction>
+  onDeleteFunction?: (name: string) => void
+  className?: string
+}
+
+const inputClassName =
+  'px-2 py-1 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-sm font-mono text-gray-900 dark:text-white'
+
+const actionClassName =
+  'text-xs px-2 py-1 bg-gray-300 dark:bg-gray-600 text-gray-900 dark:text-white rounded hover:bg-gray-400'
+
+export const VariablesPanel: React.FC<VariablesPanelProps> = ({
+  variables,
+  onSet,
+  onDelete,
+  functions = {},
+  onDeleteFunction,
+  className = '',
+}) => {
+  const [editing, setEditing] = useState<string | null>(null)
+  const [draft, setDraft] = useState('')
+  const [newName, setNewName] = useState('')
+  const [newValue, setNewValue] = useState('')
+
+  const names = Object.keys(variables).sort()
+  const functionNames = Object.keys(functions).sort()
+
+  const startEditing = (name: string) => {
+    setEditing(name)
+    setDraft(variables[name])
+  }
+
+  const saveEdit = (event: React.FormEvent) => {
+    event.preventDefault()
+    if (editing && draft.trim()) {
+      onSet(editing, draft)
+    }
+    setEditing(null)
+  }
+
+  const addVariable = (event: React.FormEvent) => {
+    event.preventDefault()
+    if (!newName.trim() || !newValue.trim()) {
+      return
+    }
+    onSet(newName.trim(), newValue)
+    setNewName('')
+    setNewValue('')
+  }
+
+  return (
+    <div className={`bg-gray-50 dark:bg-gray-700/50 rounded-lg p-4 space-y-2 ${className}`}>
+      <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300">Variables</h3>
+
+      {names.length === 0 && (
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          Type <span className="font-mono">x = 3.2</span> to store a variable or{' '}
+          <span className="font-mono">f(x) = x^2</span> to define a function
+        </p>
+      )}
+
+      <div className="space-y-1 max-h-40 overflow-y-auto">
+        {names.map(name =>
+          editing === name ? (
+            <form key={name} onSubmit={saveEdit} className="flex gap-2 items-center">
+              <span className="font-mono text-sm text-gray-900 dark:text-white">{name} =</span>
+              <input
+                value={draft}
+                onChange={e => setDraft(e.target.value)}
+                aria-label={`Value of ${name}`}
+                autoFocus
+                className={`flex-1 ${inputClassName}`}
+              />
+              <button type="submit" className={actionClassName}>
+                Save
+              </button>
+              <button type="button" onClick={() => setEditing(null)} className={actionClassName}>
+                Cancel
+              </button>
+            </form>
+          ) : (
+            <div key={name} className="flex gap-2 items-center">
+              <span className="flex-1 font-mono text-sm text-gray-900 dark:text-white break-all">
+                {name} = {variables[name]}
+              </span>
+              <button
+                onClick={() => startEditing(name)}
+                title={`Edit ${name}`}
+                className={actionClassName}
+              >
+                Edit
+              </button>
+              <button
+                onClick={() => onDelete(name)}
+                title={`Delete ${name}`}
+                className={actionClassName}
+              >
+                Delete
+              </button>
+            </div>
+          )
+        )}
+      </div>
+
+      <form onSubmit={addVariable} className="flex gap-2 items-center">
+        <input
+          value={newName}
+          onChange={e => setNewName(e.target.value)}
+          placeholder="name"
+          aria-label="New variable name"
+          className={`w-20 ${inputClassName}`}
+        />
+        <span className="text-sm text-gray-700 dark:text-gray-300">=</span>
+        <input
+          value={newValue}
+          onChange={e => setNewValue(e.target.value)}
+          placeholder="value"
+          aria-label="New variable value"
+          className={`flex-1 ${inputClassName}`}
+        />
+        <button type="submit" className={actionClassName}>
+          Add
+        </button>
+      </form>
+
+      {functionNames.length > 0 && (
+        <>
+          <h3 className="pt-2 text-sm font-semibold text-gray-700 dark:text-gray-300">Functions</h3>
+          <div className="space-y-1 max-h-40 overflow-y-auto">
+            {functionNames.map(name => (
+              <div key={name} className="flex gap-2 items-center">
+                <span className="flex-1 font-mono text-sm text-gray-900 dark:text-white break-all">
+                  {name}({functions[name].params.join(', ')}) = {functions[name].body}
+                </span>
+                {onDeleteFunction && (
+                  <button
+                    onClick={() => onDeleteFunction(name)}
+                    title={`Delete ${name}`}
+                    className={actionClassName}
+                  >
+                    Delete
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
+
+export default VariablesPanel
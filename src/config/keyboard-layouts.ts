@@ -4,7 +4,18 @@
  * Brand Colors: Primary #4F46E5, Accent #FFB020
  */
 
-import { KeyboardLayout } from '@/types/calculator'
+import { CalculatorButton, KeyboardLayout } from '@/types/calculator'
+import {
+  createBusinessLayout,
+  createButton,
+  createButtonGroup,
+  createConstantButton,
+  createCustomLayout,
+  createFinanceLayout,
+  createProbabilityLayout,
+  createProgrammerLayout,
+} from '@/utils/keyboard-builder'
+import { physicalConstantsByName } from '@/utils/physical-constants'
 
 /**
  * Standard Scientific Layout
@@ -41,6 +52,14 @@ export const standardScientificLayout: KeyboardLayout = {
         { label: 'sin⁻¹', value: 'asin', type: 'trigonometric', description: 'Inverse sine' },
         { label: 'cos⁻¹', value: 'acos', type: 'trigonometric', description: 'Inverse cosine' },
         { label: 'tan⁻¹', value: 'atan', type: 'trigonometric', description: 'Inverse tangent' },
+        {
+          label: 'HYP',
+          value: 'hyp-shift',
+          type: 'utility',
+          shortcut: 'H',
+          description: 'Make the next trigonometric key hyperbolic',
+          color: 'accent',
+        },
       ],
     },
     {
@@ -195,10 +214,9 @@ export const engineeringLayout: KeyboardLayout = {
     {
       name: 'Physical Constants',
       buttons: [
-        { label: 'c', value: 'c', type: 'constant', description: 'Speed of light' },
-        { label: 'G', value: 'G', type: 'constant', description: 'Gravitational constant' },
-        { label: 'h', value: 'h', type: 'constant', description: "Planck's constant" },
-        { label: 'k', value: 'k', type: 'constant', description: 'Boltzmann constant' },
+        ...['c', 'G', 'planck', 'k', 'qe', 'me', 'NA', 'eps0'].map(name =>
+          createConstantButton(physicalConstantsByName[name])
+        ),
       ],
     },
     {
@@ -229,6 +247,365 @@ export const engineeringLayout: KeyboardLayout = {
   ],
 }
 
+/**
+ * RPN Layout
+ * Stack-oriented keypad for Reverse Polish Notation entry
+ */
+export const rpnLayout: KeyboardLayout = {
+  name: 'RPN',
+  description: 'Reverse Polish Notation keypad with ENTER and stack operations',
+  groups: [
+    {
+      name: 'Stack',
+      buttons: [
+        {
+          label: 'ENTER',
+          value: 'enter',
+          type: 'utility',
+          color: 'primary',
+          description: 'Push X onto the stack',
+        },
+        { label: 'x↔y', value: 'swap', type: 'utility', description: 'Swap X and Y' },
+        { label: 'R↓', value: 'roll', type: 'utility', description: 'Roll the stack down' },
+        { label: 'DROP', value: 'drop', type: 'utility', description: 'Drop X' },
+        { label: 'DUP', value: 'dup', type: 'utility', description: 'Duplicate X' },
+        { label: 'LASTx', value: 'lastx', type: 'utility', description: 'Recall the last X' },
+      ],
+    },
+    {
+      name: 'Numbers',
+      buttons: [
+        { label: '7', value: '7', type: 'number' },
+        { label: '8', value: '8', type: 'number' },
+        { label: '9', value: '9', type: 'number' },
+        { label: '4', value: '4', type: 'number' },
+        { label: '5', value: '5', type: 'number' },
+        { label: '6', value: '6', type: 'number' },
+        { label: '1', value: '1', type: 'number' },
+        { label: '2', value: '2', type: 'number' },
+        { label: '3', value: '3', type: 'number' },
+        { label: '0', value: '0', type: 'number' },
+        { label: '.', value: '.', type: 'number' },
+        { label: 'EEX', value: 'e-notation', type: 'function', description: 'Enter exponent' },
+      ],
+    },
+    {
+      name: 'Operations',
+      buttons: [
+        { label: '+', value: '+', type: 'operator' },
+        { label: '−', value: '-', type: 'operator' },
+        { label: '×', value: '*', type: 'operator' },
+        { label: '÷', value: '/', type: 'operator' },
+        { label: 'yˣ', value: '^', type: 'operator', description: 'Y to the power X' },
+        { label: 'CHS', value: 'toggle', type: 'utility', description: 'Change sign' },
+        { label: '←', value: 'backspace', type: 'utility', description: 'Backspace or clear X' },
+        { label: 'CLR', value: 'clear', type: 'utility', color: 'danger' },
+      ],
+    },
+    {
+      name: 'Functions',
+      buttons: [
+        { label: '√x', value: 'sqrt', type: 'function' },
+        { label: 'x²', value: 'square', type: 'function' },
+        { label: '1/x', value: 'reciprocal', type: 'function' },
+        { label: '%', value: '%', type: 'function', description: 'X percent of Y' },
+        { label: 'sin', value: 'sin', type: 'trigonometric' },
+        { label: 'cos', value: 'cos', type: 'trigonometric' },
+        { label: 'tan', value: 'tan', type: 'trigonometric' },
+        { label: 'ln', value: 'ln', type: 'logarithmic' },
+        { label: 'log', value: 'log10', type: 'logarithmic' },
+        { label: 'π', value: 'pi', type: 'constant' },
+      ],
+    },
+  ],
+}
+
+/**
+ * Fractions Layout
+ * Keypad for exact fraction arithmetic with repeating-decimal entry
+ */
+export const fractionLayout: KeyboardLayout = {
+  name: 'Fractions',
+  description: 'Exact fractions, mixed numbers and repeating decimals',
+  groups: [
+    {
+      name: 'Numbers',
+      buttons: [
+        { label: '7', value: '7', type: 'number' },
+        { label: '8', value: '8', type: 'number' },
+        { label: '9', value: '9', type: 'number' },
+        { label: '4', value: '4', type: 'number' },
+        { label: '5', value: '5', type: 'number' },
+        { label: '6', value: '6', type: 'number' },
+        { label: '1', value: '1', type: 'number' },
+        { label: '2', value: '2', type: 'number' },
+        { label: '3', value: '3', type: 'number' },
+        { label: '0', value: '0', type: 'number' },
+        { label: '.', value: '.', type: 'number' },
+        {
+          label: '(…)',
+          value: 'repeat',
+          type: 'number',
+          description: 'Start the repeating digits: 0.1 (…) 6 enters 0.1(6)',
+        },
+      ],
+    },
+    {
+      name: 'Operations',
+      buttons: [
+        { label: '+', value: '+', type: 'operator' },
+        { label: '−', value: '-', type: 'operator' },
+        { label: '×', value: '*', type: 'operator' },
+        { label: 'a/b', value: '/', type: 'operator', description: 'Divide or enter a fraction' },
+        { label: '^', value: '^', type: 'operator' },
+        { label: '(', value: '(', type: 'operator' },
+        { label: ')', value: ')', type: 'operator' },
+        { label: '=', value: '=', type: 'utility', color: 'primary' },
+      ],
+    },
+    {
+      name: 'Fractions',
+      buttons: [
+        {
+          label: 'F↔D',
+          value: 'fraction-form',
+          type: 'utility',
+          description: 'Show the result as a fraction, mixed number or decimal',
+        },
+        { label: '1/x', value: 'reciprocal', type: 'function' },
+        { label: 'x²', value: 'square', type: 'function' },
+        { label: '√x', value: 'sqrt', type: 'function' },
+        { label: '|x|', value: 'abs', type: 'function' },
+        { label: '%', value: '%', type: 'function' },
+        { label: '±', value: 'toggle', type: 'utility' },
+        { label: '←', value: 'backspace', type: 'utility' },
+        { label: 'C', value: 'clear', type: 'utility', color: 'danger' },
+      ],
+    },
+  ],
+}
+
+/**
+ * Complex Layout
+ * Keypad for complex and phasor arithmetic in rectangular and polar form
+ */
+export const complexLayout: KeyboardLayout = {
+  name: 'Complex',
+  description: 'Complex numbers and phasors: i, r∠θ, real and imaginary parts',
+  groups: [
+    {
+      name: 'Complex',
+      buttons: [
+        {
+          label: 'i',
+          value: 'i',
+          type: 'constant',
+          description: 'Imaginary unit in complex arithmetic: 4 i enters 4i',
+        },
+        {
+          label: '∠',
+          value: 'polar',
+          type: 'operator',
+          description: 'Polar entry: r ∠ θ, with θ in the angle mode',
+        },
+        { label: 'Re', value: 're', type: 'function', description: 'Real part' },
+        { label: 'Im', value: 'im', type: 'function', description: 'Imaginary part' },
+        { label: '|z|', value: 'abs', type: 'function', description: 'Modulus' },
+        { label: 'arg', value: 'arg', type: 'function', description: 'Argument (phase angle)' },
+        { label: 'z̄', value: 'conj', type: 'function', description: 'Complex conjugate' },
+        {
+          label: 'R↔P',
+          value: 'complex-form',
+          type: 'utility',
+          description: 'Show the result in rectangular or polar form',
+        },
+      ],
+    },
+    {
+      name: 'Functions',
+      buttons: [
+        { label: '√x', value: 'sqrt', type: 'function' },
+        { label: 'x²', value: 'square', type: 'function' },
+        { label: '1/x', value: 'reciprocal', type: 'function' },
+        { label: 'e^x', value: 'exp', type: 'function' },
+        { label: 'ln', value: 'ln', type: 'logarithmic' },
+        { label: 'sin', value: 'sin', type: 'trigonometric' },
+        { label: 'cos', value: 'cos', type: 'trigonometric' },
+        { label: 'tan', value: 'tan', type: 'trigonometric' },
+      ],
+    },
+    {
+      name: 'Numbers',
+      buttons: [
+        { label: '7', value: '7', type: 'number' },
+        { label: '8', value: '8', type: 'number' },
+        { label: '9', value: '9', type: 'number' },
+        { label: '4', value: '4', type: 'number' },
+        { label: '5', value: '5', type: 'number' },
+        { label: '6', value: '6', type: 'number' },
+        { label: '1', value: '1', type: 'number' },
+        { label: '2', value: '2', type: 'number' },
+        { label: '3', value: '3', type: 'number' },
+        { label: '0', value: '0', type: 'number' },
+        { label: '.', value: '.', type: 'number' },
+        { label: '±', value: 'toggle', type: 'utility' },
+      ],
+    },
+    {
+      name: 'Operations',
+      buttons: [
+        { label: '+', value: '+', type: 'operator' },
+        { label: '−', value: '-', type: 'operator' },
+        { label: '×', value: '*', type: 'operator' },
+        { label: '÷', value: '/', type: 'operator' },
+        { label: '^', value: '^', type: 'operator' },
+        { label: '(', value: '(', type: 'operator' },
+        { label: ')', value: ')', type: 'operator' },
+        { label: '=', value: '=', type: 'utility', color: 'primary' },
+        { label: '←', value: 'backspace', type: 'utility' },
+        { label: 'C', value: 'clear', type: 'utility', color: 'danger' },
+      ],
+    },
+  ],
+}
+
+/**
+ * Matrix Layout
+ * Linear algebra keys for matrices entered in the matrix editor or typed as [1, 2; 3, 4];
+ * solve, dot and cross combine two operands like an operator (A solve b → solve(A, b))
+ */
+export const matrixLayout: KeyboardLayout = createCustomLayout(
+  'Matrix',
+  [
+    createButtonGroup('Matrix', [
+      createButton('det', 'det', 'function', { description: 'Determinant' }),
+      createButton('A⁻¹', 'inv', 'function', { description: 'Inverse' }),
+      createButton('Aᵀ', 'transpose', 'function', { description: 'Transpose' }),
+      createButton('rank', 'rank', 'function', { description: 'Rank' }),
+      createButton('eig', 'eig', 'function', { description: 'Real eigenvalues, largest first' }),
+      createButton('solve', 'solve', 'operator', {
+        description: 'Solve A x = b: A solve b',
+      }),
+    ]),
+    createButtonGroup('Vectors', [
+      createButton('·', 'dot', 'operator', { description: 'Dot product: u · v' }),
+      createButton('×', 'cross', 'operator', { description: 'Cross product of 3-vectors' }),
+      createButton('‖v‖', 'norm', 'function', { description: 'Length of a vector' }),
+      createButton('x²', 'square', 'function', { description: 'Square of a number' }),
+    ]),
+    createButtonGroup('Numbers', [
+      createButton('7', '7', 'number'),
+      createButton('8', '8', 'number'),
+      createButton('9', '9', 'number'),
+      createButton('4', '4', 'number'),
+      createButton('5', '5', 'number'),
+      createButton('6', '6', 'number'),
+      createButton('1', '1', 'number'),
+      createButton('2', '2', 'number'),
+      createButton('3', '3', 'number'),
+      createButton('0', '0', 'number'),
+      createButton('.', '.', 'number'),
+      createButton('±', 'toggle', 'utility'),
+    ]),
+    createButtonGroup('Operations', [
+      createButton('+', '+', 'operator'),
+      createButton('−', '-', 'operator'),
+      createButton('×', '*', 'operator', { description: 'Matrix product or scaling' }),
+      createButton('÷', '/', 'operator'),
+      createButton('^', '^', 'operator', { description: 'Integer power; A ^ -1 is the inverse' }),
+      createButton('(', '(', 'operator'),
+      createButton(')', ')', 'operator'),
+      createButton('=', '=', 'utility', { color: 'primary' }),
+      createButton('←', 'backspace', 'utility'),
+      createButton('C', 'clear', 'utility', { color: 'danger' }),
+    ]),
+  ],
+  'Matrices and vectors: determinant, inverse, rank, eigenvalues, solve, dot and cross'
+)
+
+/**
+ * Statistics Layout
+ * Σ+ collects entries in the list L1 and L1 recalls it for the statistics keys; lists can also
+ * be typed or pasted in the statistics panel and used in expressions (mean(L2)). quartile and
+ * percentile combine the list with a position like an operator (L1 quartile 1)
+ */
+export const statisticsLayout: KeyboardLayout = createCustomLayout(
+  'Statistics',
+  [
+    createButtonGroup('Data', [
+      createButton('Σ+', 'list-add', 'utility', {
+        description: 'Add the entry to the list L1',
+        color: 'accent',
+      }),
+      createButton('CLΣ', 'list-clear', 'utility', {
+        description: 'Clear the list L1',
+        color: 'danger',
+      }),
+      createButton('L1', 'L1', 'constant', { description: 'Recall the list L1' }),
+      createButton('n', 'count', 'function', { description: 'Number of values' }),
+    ]),
+    createButtonGroup('Center', [
+      createButton('x̄', 'mean', 'function', { description: 'Mean' }),
+      createButton('med', 'median', 'function', { description: 'Median' }),
+      createButton('mode', 'mode', 'function', { description: 'Most frequent value' }),
+      createButton('Σx', 'sum', 'function', { description: 'Sum' }),
+    ]),
+    createButtonGroup('Spread', [
+      createButton('s', 'stdev', 'function', { description: 'Sample standard deviation' }),
+      createButton('σ', 'pstdev', 'function', {
+        description: 'Population standard deviation',
+      }),
+      createButton('s²', 'variance', 'function', { description: 'Sample variance' }),
+      createButton('σ²', 'pvariance', 'function', { description: 'Population variance' }),
+      createButton('min', 'min', 'function', { description: 'Smallest value' }),
+      createButton('max', 'max', 'function', { description: 'Largest value' }),
+      createButton('Q', 'quartile', 'operator', { description: 'Quartile 0 to 4: L1 Q 1' }),
+      createButton('P', 'percentile', 'operator', {
+        description: 'Percentile 0 to 100: L1 P 90',
+      }),
+    ]),
+    createButtonGroup('Numbers', [
+      createButton('7', '7', 'number'),
+      createButton('8', '8', 'number'),
+      createButton('9', '9', 'number'),
+      createButton('4', '4', 'number'),
+      createButton('5', '5', 'number'),
+      createButton('6', '6', 'number'),
+      createButton('1', '1', 'number'),
+      createButton('2', '2', 'number'),
+      createButton('3', '3', 'number'),
+      createButton('0', '0', 'number'),
+      createButton('.', '.', 'number'),
+      createButton('±', 'toggle', 'utility'),
+    ]),
+    createButtonGroup('Operations', [
+      createButton('+', '+', 'operator'),
+      createButton('−', '-', 'operator'),
+      createButton('×', '*', 'operator'),
+      createButton('÷', '/', 'operator'),
+      createButton('=', '=', 'utility', { color: 'primary' }),
+      createButton('←', 'backspace', 'utility'),
+      createButton('C', 'clear', 'utility', { color: 'danger' }),
+    ]),
+  ],
+  'Data lists: count, sum, mean, median, mode, variance, standard deviation and quartiles'
+)
+
+/**
+ * Trigonometric keys as they read while HYP is active, for shiftLayout
+ */
+export const hyperbolicButtons: Record<
+  string,
+  Pick<CalculatorButton, 'label' | 'value' | 'description'>
+> = {
+  sin: { label: 'sinh', value: 'sinh', description: 'Hyperbolic sine' },
+  cos: { label: 'cosh', value: 'cosh', description: 'Hyperbolic cosine' },
+  tan: { label: 'tanh', value: 'tanh', description: 'Hyperbolic tangent' },
+  asin: { label: 'sinh⁻¹', value: 'asinh', description: 'Inverse hyperbolic sine' },
+  acos: { label: 'cosh⁻¹', value: 'acosh', description: 'Inverse hyperbolic cosine' },
+  atan: { label: 'tanh⁻¹', value: 'atanh', description: 'Inverse hyperbolic tangent' },
+}
+
 /**
  * All available keyboard layouts
  */
@@ -236,4 +613,13 @@ export const keyboardLayouts: Record<string, KeyboardLayout> = {
   standard: standardScientificLayout,
   basic: basicLayout,
   engineering: engineeringLayout,
+  rpn: rpnLayout,
+  fractions: fractionLayout,
+  complex: complexLayout,
+  matrix: matrixLayout,
+  statistics: statisticsLayout,
+  programmer: createProgrammerLayout(),
+  finance: createFinanceLayout(),
+  business: createBusinessLayout(),
+  probability: createProbabilityLayout(),
 }
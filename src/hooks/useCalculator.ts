@@ -3,8 +3,34 @@
  * Custom React hook for managing calculator state and operations
  */
 
-import { useState, useCallback } from 'react'
-import { CalculatorState } from '@/types/calculator'
+import { useReducer, useCallback, useEffect, useRef } from 'react'
+import {
+  ArithmeticMode,
+  CalculatorState,
+  ComplexForm,
+  EntryMode,
+  FractionForm,
+} from '@/types/calculator'
+import { AngleMode, WordSize } from '@/types/expression'
+import {
+  calculatorReducer,
+  createInitialState,
+  formatDisplay,
+  formatHistoryEntry,
+  getDisplayValue,
+} from '@/utils/calculator-engine'
+import { TvmSettings, TvmVariable } from '@/utils/finance'
+import { RegressionModel } from '@/utils/regression'
+import { loadWorkspace, saveWorkspace } from '@/utils/workspace'
+
+interface UseCalculatorOptions {
+  /** Initial state overrides, e.g. a starting angle mode */
+  initialState?: Partial<CalculatorState>
+  /** Called with the result and history entry after each completed calculation */
+  onResult?: (result: number, historyEntry: string) => void
+  /** localStorage key to restore variables, functions and lists from and save them to */
+  workspaceKey?: string
+}
 
 interface UseCalculatorReturn {
   state: CalculatorState
@@ -13,92 +39,253 @@ interface UseCalculatorReturn {
   backspace: () => void
   toggleSign: () => void
   setDisplay: (value: string) => void
+  setAngleMode: (angleMode: AngleMode) => void
+  setEntryMode: (entryMode: EntryMode) => void
+  setArithmetic: (arithmetic: ArithmeticMode) => void
+  setPrecision: (precision: number) => void
+  setFractionForm: (fractionForm: FractionForm) => void
+  setComplexForm: (complexForm: ComplexForm) => void
+  setWordSize: (wordSize: WordSize) => void
+  toggleBit: (bit: number) => void
+  clearHistory: () => void
+  evaluateInput: (input: string) => void
+  setVariable: (name: string, value: string) => void
+  deleteVariable: (name: string) => void
+  deleteFunction: (name: string) => void
+  setList: (name: string, values: string[]) => void
+  deleteList: (name: string) => void
+  fitRegression: (model: RegressionModel, x: string, y: string, degree?: number) => void
+  setTvmValue: (variable: TvmVariable, value: string) => void
+  setTvmSettings: (settings: TvmSettings) => void
+  solveTvm: (variable: TvmVariable) => void
+  setTaxRate: (taxRate: number) => void
+  seedRandom: (seed: number) => void
   getFormattedDisplay: () => string
 }
 
-export const useCalculator = (): UseCalculatorReturn => {
-  const [state, setState] = useState<CalculatorState>({
-    display: '0',
-    previousValue: null,
-    operation: null,
-    waitingForNewValue: false,
-    memory: 0,
-    history: [],
-  })
+export const useCalculator = ({
+  initialState,
+  onResult,
+  workspaceKey,
+}: UseCalculatorOptions = {}): UseCalculatorReturn => {
+  const [state, dispatch] = useReducer(calculatorReducer, undefined, () =>
+    createInitialState({ ...initialState, ...(workspaceKey && loadWorkspace(workspaceKey)) })
+  )
+
+  // Keep the saved workspace in step with the variables, functions and lists
+  useEffect(() => {
+    if (workspaceKey) {
+      saveWorkspace(workspaceKey, {
+        variables: state.variables,
+        functions: state.functions,
+        lists: state.lists,
+      })
+    }
+  }, [workspaceKey, state.variables, state.functions, state.lists])
+
+  // Report each new history entry exactly once
+  const reportedLength = useRef(state.history.length)
+  useEffect(() => {
+    if (state.history.length > reportedLength.current) {
+      const entry = state.history[state.history.length - 1]
+      onResult?.(getDisplayValue(state), formatHistoryEntry(entry))
+    }
+    reportedLength.current = state.history.length
+  }, [state, onResult])
+
+  /**
+   * Handle button clicks
+   */
+  const handleButtonClick = useCallback((value: string) => {
+    dispatch({ type: 'press', value })
+  }, [])
+
+  /**
+   * Clear calculator state
+   */
+  const clear = useCallback(() => handleButtonClick('clear'), [handleButtonClick])
+
+  /**
+   * Backspace - remove last digit
+   */
+  const backspace = useCallback(() => handleButtonClick('backspace'), [handleButtonClick])
+
+  /**
+   * Toggle sign (positive/negative)
+   */
+  const toggleSign = useCallback(() => handleButtonClick('toggle'), [handleButtonClick])
+
+  /**
+   * Set display value directly
+   */
+  const setDisplay = useCallback((value: string) => {
+    dispatch({ type: 'set-display', value })
+  }, [])
+
+  /**
+   * Switch trigonometric keys between radians and degrees
+   */
+  const setAngleMode = useCallback((angleMode: AngleMode) => {
+    dispatch({ type: 'set-angle-mode', angleMode })
+  }, [])
+
+  /**
+   * Switch between algebraic (precedence) and immediate entry
+   */
+  const setEntryMode = useCallback((entryMode: EntryMode) => {
+    dispatch({ type: 'set-entry-mode', entryMode })
+  }, [])
+
+  /**
+   * Switch between floating-point, arbitrary-precision decimal, exact fraction, complex and
+   * programmer (integer) arithmetic
+   */
+  const setArithmetic = useCallback((arithmetic: ArithmeticMode) => {
+    dispatch({ type: 'set-arithmetic', arithmetic })
+  }, [])
+
+  /**
+   * Set the significant digits used in decimal arithmetic
+   */
+  const setPrecision = useCallback((precision: number) => {
+    dispatch({ type: 'set-precision', precision })
+  }, [])
+
+  /**
+   * Choose how fraction results are shown (7/2, 3 1/2 or 3.5)
+   */
+  const setFractionForm = useCallback((fractionForm: FractionForm) => {
+    dispatch({ type: 'set-fraction-form', fractionForm })
+  }, [])
+
+  /**
+   * Choose how complex results are shown (3+4i or 5∠53.13)
+   */
+  const setComplexForm = useCallback((complexForm: ComplexForm) => {
+    dispatch({ type: 'set-complex-form', complexForm })
+  }, [])
+
+  /**
+   * Choose the bits and signedness of programmer arithmetic's integers
+   */
+  const setWordSize = useCallback((wordSize: WordSize) => {
+    dispatch({ type: 'set-word-size', wordSize })
+  }, [])
+
+  /**
+   * Flip one bit (0 is the least significant) of the programmer value shown
+   */
+  const toggleBit = useCallback((bit: number) => {
+    dispatch({ type: 'toggle-bit', bit })
+  }, [])
+
+  const clearHistory = useCallback(() => {
+    dispatch({ type: 'clear-history' })
+  }, [])
 
   /**
-   * Calculate result based on operation
+   * Evaluate a typed expression, assignment or function definition such as `2x + ans`,
+   * `x = 3.2` or `f(x) = x^2`
    */
-  const calculateResult = useCallback(
-    (prev: number, current: number, operation: string): number => {
-      switch (operation) {
-        case '+':
-          return prev + current
-        case '-':
-          return prev - current
-        case '*':
-          return prev * current
-        case '/':
-          return prev !== 0 ? current / prev : NaN
-        case '^':
-          return Math.pow(prev, current)
-        default:
-          return current
-      }
+  const evaluateInput = useCallback((input: string) => {
+    dispatch({ type: 'evaluate-input', input })
+  }, [])
+
+  /**
+   * Store the value of an expression in a variable
+   */
+  const setVariable = useCallback((name: string, value: string) => {
+    dispatch({ type: 'set-variable', name, value })
+  }, [])
+
+  const deleteVariable = useCallback((name: string) => {
+    dispatch({ type: 'delete-variable', name })
+  }, [])
+
+  const deleteFunction = useCallback((name: string) => {
+    dispatch({ type: 'delete-function', name })
+  }, [])
+
+  /**
+   * Store a data list from entered or pasted values; an empty list is deleted
+   */
+  const setList = useCallback((name: string, values: string[]) => {
+    dispatch({ type: 'set-list', name, values })
+  }, [])
+
+  const deleteList = useCallback((name: string) => {
+    dispatch({ type: 'delete-list', name })
+  }, [])
+
+  /**
+   * Fit list y against list x, defining `fit(x)` and the residual list RESID
+   */
+  const fitRegression = useCallback(
+    (model: RegressionModel, x: string, y: string, degree?: number) => {
+      dispatch({ type: 'fit-regression', model, x, y, degree })
     },
     []
   )
 
   /**
-   * Clear calculator state
+   * Store the value of an expression in a time-value-of-money register
    */
-  const clear = useCallback(() => {
-    setState({
-      display: '0',
-      previousValue: null,
-      operation: null,
-      waitingForNewValue: false,
-      memory: 0,
-      history: [],
-    })
+  const setTvmValue = useCallback((variable: TvmVariable, value: string) => {
+    dispatch({ type: 'set-tvm-value', variable, value })
   }, [])
 
   /**
-   * Backspace - remove last digit
+   * Choose payments and compoundings per year and the payment timing
    */
-  const backspace = useCallback(() => {
-    setState(prevState => {
-      const newDisplay = prevState.display === '0' ? '0' : prevState.display.slice(0, -1) || '0'
-      return { ...prevState, display: newDisplay }
-    })
+  const setTvmSettings = useCallback((settings: TvmSettings) => {
+    dispatch({ type: 'set-tvm-settings', settings })
   }, [])
 
   /**
-   * Toggle sign (positive/negative)
+   * Compute one register from the other four and show it
    */
-  const toggleSign = useCallback(() => {
-    setState(prevState => {
-      const num = parseFloat(prevState.display)
-      return { ...prevState, display: String(num * -1) }
-    })
+  const solveTvm = useCallback((variable: TvmVariable) => {
+    dispatch({ type: 'solve-tvm', variable })
   }, [])
 
   /**
-   * Set display value directly
+   * Set the tax rate in percent of the tax keys and of addtax and removetax
    */
-  const setDisplay = useCallback((value: string) => {
-    setState(prevState => ({
-      ...prevState,
-      display: value,
-      waitingForNewValue: false,
-    }))
+  const setTaxRate = useCallback((taxRate: number) => {
+    dispatch({ type: 'set-tax-rate', taxRate })
+  }, [])
+
+  /**
+   * Seed the generator of rand, randint and the distribution samplers with a whole number
+   */
+  const seedRandom = useCallback((seed: number) => {
+    dispatch({ type: 'seed-random', seed })
   }, [])
 
   /**
    * Get formatted display value (handle special cases)
    */
   const getFormattedDisplay = useCallback((): string => {
-    const value = parseFloat(state.display)
+    const value = getDisplayValue(state)
+
+    // Complex values with an imaginary part have no single numeric value
+    if (state.error || (isNaN(value) && state.arithmetic !== 'complex')) {
+      return 'Error'
+    }
+
+    // Decimal results show every digit; their magnitude may exceed the double range
+    if (state.arithmetic === 'decimal') {
+      return state.display
+    }
+
+    // Fractions, repeating decimals, complex values and integers show in the chosen form or base
+    if (
+      state.arithmetic === 'fraction' ||
+      state.arithmetic === 'complex' ||
+      state.arithmetic === 'programmer'
+    ) {
+      return formatDisplay(state)
+    }
 
     if (!isFinite(value)) {
       return 'Error'
@@ -109,140 +296,7 @@ export const useCalculator = (): UseCalculatorReturn => {
     }
 
     return state.display
-  }, [state.display])
-
-  /**
-   * Handle button clicks
-   */
-  const handleButtonClick = useCallback(
-    (value: string) => {
-      setState(prevState => {
-        // Utility functions
-        if (value === 'clear') {
-          return {
-            display: '0',
-            previousValue: null,
-            operation: null,
-            waitingForNewValue: false,
-            memory: 0,
-            history: [...prevState.history],
-          }
-        }
-
-        if (value === 'backspace') {
-          const display = prevState.display === '0' ? '0' : prevState.display.slice(0, -1) || '0'
-          return { ...prevState, display }
-        }
-
-        if (value === 'toggle') {
-          const num = parseFloat(prevState.display)
-          return { ...prevState, display: String(num * -1) }
-        }
-
-        if (value === '=') {
-          if (prevState.operation && prevState.previousValue !== null) {
-            const result = calculateResult(
-              prevState.previousValue,
-              parseFloat(prevState.display),
-              prevState.operation
-            )
-            const historyEntry = `${prevState.previousValue} ${prevState.operation} ${prevState.display} = ${result}`
-            return {
-              display: String(result),
-              previousValue: null,
-              operation: null,
-              waitingForNewValue: true,
-              memory: prevState.memory,
-              history: [...prevState.history, historyEntry],
-            }
-          }
-          return prevState
-        }
-
-        // Memory operations
-        if (value === 'M+') {
-          return {
-            ...prevState,
-            memory: prevState.memory + parseFloat(prevState.display),
-            display: '0',
-          }
-        }
-
-        if (value === 'M-') {
-          return {
-            ...prevState,
-            memory: prevState.memory - parseFloat(prevState.display),
-            display: '0',
-          }
-        }
-
-        if (value === 'MR') {
-          return {
-            ...prevState,
-            display: String(prevState.memory),
-            waitingForNewValue: true,
-          }
-        }
-
-        if (value === 'MC') {
-          return { ...prevState, memory: 0 }
-        }
-
-        // Number input
-        if (/^\d$/.test(value)) {
-          const display =
-            prevState.waitingForNewValue || prevState.display === '0'
-              ? value
-              : prevState.display + value
-          return { ...prevState, display, waitingForNewValue: false }
-        }
-
-        // Decimal point
-        if (value === '.') {
-          if (prevState.waitingForNewValue) {
-            return { ...prevState, display: '0.', waitingForNewValue: false }
-          }
-          if (!prevState.display.includes('.')) {
-            return { ...prevState, display: prevState.display + '.' }
-          }
-          return prevState
-        }
-
-        // Parentheses
-        if (value === '(' || value === ')') {
-          return { ...prevState, display: prevState.display + value }
-        }
-
-        // Operators
-        if (['+', '-', '*', '/', '^'].includes(value)) {
-          if (prevState.operation && !prevState.waitingForNewValue) {
-            const result = calculateResult(
-              prevState.previousValue || 0,
-              parseFloat(prevState.display),
-              prevState.operation
-            )
-            return {
-              display: String(result),
-              previousValue: result,
-              operation: value,
-              waitingForNewValue: true,
-              memory: prevState.memory,
-              history: prevState.history,
-            }
-          }
-          return {
-            ...prevState,
-            previousValue: parseFloat(prevState.display),
-            operation: value,
-            waitingForNewValue: true,
-          }
-        }
-
-        return prevState
-      })
-    },
-    [calculateResult]
-  )
+  }, [state])
 
   return {
     state,
@@ -251,6 +305,27 @@ export const useCalculator = (): UseCalculatorReturn => {
     backspace,
     toggleSign,
     setDisplay,
+    setAngleMode,
+    setEntryMode,
+    setArithmetic,
+    setPrecision,
+    setFractionForm,
+    setComplexForm,
+    setWordSize,
+    toggleBit,
+    clearHistory,
+    evaluateInput,
+    setVariable,
+    deleteVariable,
+    deleteFunction,
+    setList,
+    deleteList,
+    fitRegression,
+    setTvmValue,
+    setTvmSettings,
+    solveTvm,
+    setTaxRate,
+    seedRandom,
     getFormattedDisplay,
   }
 }
@@ -3,246 +3,88 @@
  * Main calculator interface with keyboard, display, and layout switching
  */
 
-import React, { useState, useCallback, useEffect } from 'react'
+import React, { useState, useEffect } from 'react'
+import { Link } from 'react-router-dom'
+import AmortizationTable from '@/components/amortization-table'
 import CalculatorKeyboard from '@/components/calculator-keyboard'
 import CalculatorDisplay from '@/components/calculator-display'
-import { keyboardLayouts } from '@/config/keyboard-layouts'
-import { CalculatorState } from '@/types/calculator'
-
-/**
- * Calculate result based on operation
- */
-const calculateResult = (prev: number, current: number, operation: string): number => {
-  switch (operation) {
-    case '+':
-      return prev + current
-    case '-':
-      return prev - current
-    case '*':
-      return prev * current
-    case '/':
-      return prev / current
-    case '^':
-      return Math.pow(prev, current)
-    default:
-      return current
-  }
-}
-
-/**
- * Calculate factorial
- */
-const factorial = (n: number): number => {
-  if (n < 0) return NaN
-  if (n === 0 || n === 1) return 1
-  let result = 1
-  for (let i = 2; i <= n; i++) {
-    result *= i
-  }
-  return result
-}
-
-/**
- * Handle scientific function evaluation
- */
-const handleScientificFunction = (
-  func: string,
-  prevState: CalculatorState,
-  isRad: boolean
-): CalculatorState => {
-  const value = parseFloat(prevState.display)
-  const angle = isRad ? value : (value * Math.PI) / 180
-
-  const functions: Record<string, number | undefined> = {
-    sin: Math.sin(angle),
-    cos: Math.cos(angle),
-    tan: Math.tan(angle),
-    asin: (isRad ? Math.asin(value) : (Math.asin(value) * 180) / Math.PI) || undefined,
-    acos: (isRad ? Math.acos(value) : (Math.acos(value) * 180) / Math.PI) || undefined,
-    atan: (isRad ? Math.atan(value) : (Math.atan(value) * 180) / Math.PI) || undefined,
-    log10: Math.log10(value),
-    ln: Math.log(value),
-    log2: Math.log2(value),
-    exp: Math.exp(value),
-    sqrt: Math.sqrt(value),
-    square: value * value,
-    cube: value * value * value,
-    reciprocal: 1 / value,
-    abs: Math.abs(value),
-    factorial: factorial(value),
-    pi: Math.PI,
-    e: Math.E,
-    phi: (1 + Math.sqrt(5)) / 2,
-    c: 299792458,
-  }
-
-  const result = functions[func]
-
-  if (result !== undefined) {
-    return {
-      ...prevState,
-      display: String(result),
-      waitingForNewValue: true,
-    }
-  }
-
-  return prevState
-}
+import ConstantsPicker from '@/components/constants-picker'
+import ExpressionInput from '@/components/expression-input'
+import MatrixEditor from '@/components/matrix-editor'
+import ProgrammerPanel from '@/components/programmer-panel'
+import StatisticsPanel from '@/components/statistics-panel'
+import TvmPanel from '@/components/tvm-panel'
+import VariablesPanel from '@/components/variables-panel'
+import { hyperbolicButtons, keyboardLayouts } from '@/config/keyboard-layouts'
+import { useCalculator } from '@/hooks/useCalculator'
+import {
+  MAX_PRECISION,
+  MIN_PRECISION,
+  complexFormOptions,
+  formatDisplay,
+  formatHistoryEntry,
+  fractionFormOptions,
+  getDisplayText,
+  scopeOf,
+} from '@/utils/calculator-engine'
+import { shiftLayout } from '@/utils/keyboard-builder'
+import { WORD_BITS } from '@/utils/programmer'
+import { WORKSPACE_STORAGE_KEY } from '@/utils/workspace'
 
 /**
  * Main Scientific Calculator Component
  */
 export const CalculatorPage: React.FC = () => {
   // State management for calculator
-  const [state, setState] = useState<CalculatorState>({
-    display: '0',
-    previousValue: null,
-    operation: null,
-    waitingForNewValue: false,
-    memory: 0,
-    history: [],
-  })
+  const {
+    state,
+    handleButtonClick,
+    setAngleMode,
+    setEntryMode,
+    setArithmetic,
+    setPrecision,
+    setFractionForm,
+    setComplexForm,
+    setWordSize,
+    toggleBit,
+    evaluateInput,
+    setVariable,
+    deleteVariable,
+    deleteFunction,
+    setList,
+    deleteList,
+    fitRegression,
+    setTvmValue,
+    setTvmSettings,
+    solveTvm,
+    setTaxRate,
+  } = useCalculator({ workspaceKey: WORKSPACE_STORAGE_KEY })
 
   const [currentLayout, setCurrentLayout] = useState('standard')
-  const [isRadians, setIsRadians] = useState(true)
-
-  /**
-   * Handle button clicks from keyboard
-   */
-  const handleButtonClick = useCallback(
-    (value: string) => {
-      setState(prevState => {
-        // Handle utility functions
-        if (value === 'clear') {
-          return {
-            display: '0',
-            previousValue: null,
-            operation: null,
-            waitingForNewValue: false,
-            memory: 0,
-            history: [...prevState.history],
-          }
-        }
-
-        if (value === 'backspace') {
-          const display = prevState.display === '0' ? '0' : prevState.display.slice(0, -1) || '0'
-          return { ...prevState, display }
-        }
-
-        if (value === 'toggle') {
-          const num = parseFloat(prevState.display)
-          return { ...prevState, display: String(num * -1) }
-        }
-
-        if (value === '=') {
-          if (prevState.operation && prevState.previousValue !== null) {
-            const result = calculateResult(
-              prevState.previousValue,
-              parseFloat(prevState.display),
-              prevState.operation
-            )
-            return {
-              display: String(result),
-              previousValue: null,
-              operation: null,
-              waitingForNewValue: true,
-              memory: prevState.memory,
-              history: [
-                ...prevState.history,
-                `${prevState.previousValue} ${prevState.operation} ${prevState.display} = ${result}`,
-              ],
-            }
-          }
-          return prevState
-        }
-
-        // Handle memory operations
-        if (value === 'M+') {
-          return {
-            ...prevState,
-            memory: prevState.memory + parseFloat(prevState.display),
-            display: '0',
-          }
-        }
-
-        if (value === 'M-') {
-          return {
-            ...prevState,
-            memory: prevState.memory - parseFloat(prevState.display),
-            display: '0',
-          }
-        }
-
-        if (value === 'MR') {
-          return { ...prevState, display: String(prevState.memory), waitingForNewValue: true }
-        }
-
-        if (value === 'MC') {
-          return { ...prevState, memory: 0 }
-        }
-
-        // Handle number input
-        if (/^\d$/.test(value)) {
-          const display =
-            prevState.waitingForNewValue || prevState.display === '0'
-              ? value
-              : prevState.display + value
-          return { ...prevState, display, waitingForNewValue: false }
-        }
-
-        // Handle decimal point
-        if (value === '.') {
-          if (prevState.waitingForNewValue) {
-            return { ...prevState, display: '0.', waitingForNewValue: false }
-          }
-          if (!prevState.display.includes('.')) {
-            return { ...prevState, display: prevState.display + '.' }
-          }
-          return prevState
-        }
-
-        // Handle parentheses
-        if (value === '(' || value === ')') {
-          return { ...prevState, display: prevState.display + value }
-        }
-
-        // Handle operators
-        if (['+', '-', '*', '/', '^'].includes(value)) {
-          if (prevState.operation && !prevState.waitingForNewValue) {
-            const result = calculateResult(
-              prevState.previousValue || 0,
-              parseFloat(prevState.display),
-              prevState.operation
-            )
-            return {
-              display: String(result),
-              previousValue: result,
-              operation: value,
-              waitingForNewValue: true,
-              memory: prevState.memory,
-              history: prevState.history,
-            }
-          }
-          return {
-            ...prevState,
-            previousValue: parseFloat(prevState.display),
-            operation: value,
-            waitingForNewValue: true,
-          }
-        }
+  const [input, setInput] = useState('')
+  const [lastCompleted, setLastCompleted] = useState({
+    history: state.history,
+    functions: state.functions,
+  })
 
-        // Handle scientific functions
-        return handleScientificFunction(value, prevState, isRadians)
-      })
-    },
-    [isRadians]
-  )
+  // A successful evaluation adds a history entry and a definition replaces the functions;
+  // either way the input line is cleared for the next one
+  if (state.history !== lastCompleted.history || state.functions !== lastCompleted.functions) {
+    setLastCompleted({ history: state.history, functions: state.functions })
+    setInput('')
+  }
+  const isRadians = state.angleMode === 'rad'
 
   /**
    * Handle keyboard shortcuts
    */
   useEffect(() => {
     const handleKeydown = (e: KeyboardEvent) => {
+      // Typing into the input line or the variables panel is not keypad input
+      if (e.target instanceof HTMLInputElement) {
+        return
+      }
+
       // Map keyboard keys to calculator values
       const keyMap: Record<string, string> = {
         '0': '0',
@@ -271,7 +113,15 @@ export const CalculatorPage: React.FC = () => {
         t: 'tan',
         l: 'log10',
         p: 'pi',
+        h: 'hyp-shift',
         '^': '^',
+        // Hex digits with Shift, as lowercase letters are function shortcuts
+        A: 'A',
+        B: 'B',
+        C: 'C',
+        D: 'D',
+        E: 'E',
+        F: 'F',
       }
 
       const keyValue = keyMap[e.key]
@@ -285,7 +135,8 @@ export const CalculatorPage: React.FC = () => {
     return () => window.removeEventListener('keydown', handleKeydown)
   }, [handleButtonClick])
 
-  const layout = keyboardLayouts[currentLayout] || keyboardLayouts.standard
+  const baseLayout = keyboardLayouts[currentLayout] || keyboardLayouts.standard
+  const layout = state.hyperbolic ? shiftLayout(baseLayout, hyperbolicButtons) : baseLayout
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-indigo-900 p-4 sm:p-6 lg:p-8">
@@ -300,11 +151,57 @@ export const CalculatorPage: React.FC = () => {
         <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-2xl p-6 space-y-6">
           {/* Display */}
           <CalculatorDisplay
-            value={state.display}
+            value={formatDisplay(state)}
             previousValue={String(state.previousValue || '')}
             operation={state.operation || ''}
+            expression={state.expression}
+            stack={state.entryMode === 'rpn' ? state.stack : undefined}
+            error={state.error}
           />
 
+          {/* The value in every base and its bits */}
+          {state.arithmetic === 'programmer' && (
+            <ProgrammerPanel
+              value={getDisplayText(state)}
+              wordSize={state.wordSize}
+              base={state.base}
+              onSetBase={handleButtonClick}
+              onToggleBit={toggleBit}
+            />
+          )}
+          <div className="text-right">
+            <Link
+              to={`/float-inspector?value=${encodeURIComponent(getDisplayText(state))}`}
+              title="Sign, exponent and mantissa bits of the value as float32 and float64"
+              className="text-xs text-indigo-600 dark:text-indigo-300 hover:underline"
+            >
+              IEEE-754 bits ›
+            </Link>
+          </div>
+
+          {/* Input Line */}
+          <form
+            onSubmit={e => {
+              e.preventDefault()
+              evaluateInput(input)
+            }}
+            className="flex gap-2 items-start"
+          >
+            <ExpressionInput
+              value={input}
+              onChange={setInput}
+              evaluationContext={{ variables: scopeOf(state), functions: state.functions }}
+              placeholder="Type an expression, e.g. x = 3.2, 2x + ans, f(x) = x^2 or A = [1, 2; 3, 4]"
+              className="px-3 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 font-mono text-gray-900 dark:text-white"
+            />
+            <button
+              type="submit"
+              className="px-4 py-2 rounded-lg bg-indigo-600 text-white font-medium hover:bg-indigo-700"
+            >
+              =
+            </button>
+          </form>
+
           {/* Controls Bar */}
           <div className="flex flex-wrap gap-3 items-center justify-between">
             {/* Layout Selector */}
@@ -325,6 +222,185 @@ export const CalculatorPage: React.FC = () => {
               ))}
             </div>
 
+            {/* Entry Mode Toggle */}
+            <div className="flex gap-2 items-center">
+              <label className="text-sm font-medium text-gray-700 dark:text-gray-300">Entry:</label>
+              <div className="flex gap-2 bg-gray-200 dark:bg-gray-700 rounded-lg p-1">
+                <button
+                  onClick={() => setEntryMode('algebraic')}
+                  title="Evaluate with operator precedence and parentheses"
+                  className={`px-3 py-1 rounded text-sm font-medium transition-all ${
+                    state.entryMode === 'algebraic'
+                      ? 'bg-indigo-600 text-white'
+                      : 'text-gray-700 dark:text-gray-300'
+                  }`}
+                >
+                  ALG
+                </button>
+                <button
+                  onClick={() => setEntryMode('immediate')}
+                  title="Apply each operator to the running result"
+                  className={`px-3 py-1 rounded text-sm font-medium transition-all ${
+                    state.entryMode === 'immediate'
+                      ? 'bg-indigo-600 text-white'
+                      : 'text-gray-700 dark:text-gray-300'
+                  }`}
+                >
+                  IMM
+                </button>
+                <button
+                  onClick={() => setEntryMode('rpn')}
+                  title="Reverse Polish Notation with an operand stack"
+                  className={`px-3 py-1 rounded text-sm font-medium transition-all ${
+                    state.entryMode === 'rpn'
+                      ? 'bg-indigo-600 text-white'
+                      : 'text-gray-700 dark:text-gray-300'
+                  }`}
+                >
+                  RPN
+                </button>
+              </div>
+            </div>
+
+            {/* Arithmetic Toggle */}
+            <div className="flex gap-2 items-center">
+              <label className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                Arithmetic:
+              </label>
+              <div className="flex gap-2 bg-gray-200 dark:bg-gray-700 rounded-lg p-1">
+                <button
+                  onClick={() => setArithmetic('float')}
+                  title="Double-precision floating point"
+                  className={`px-3 py-1 rounded text-sm font-medium transition-all ${
+                    state.arithmetic === 'float'
+                      ? 'bg-indigo-600 text-white'
+                      : 'text-gray-700 dark:text-gray-300'
+                  }`}
+                >
+                  FLOAT
+                </button>
+                <button
+                  onClick={() => setArithmetic('decimal')}
+                  title="Exact decimal arithmetic to the chosen number of digits"
+                  className={`px-3 py-1 rounded text-sm font-medium transition-all ${
+                    state.arithmetic === 'decimal'
+                      ? 'bg-indigo-600 text-white'
+                      : 'text-gray-700 dark:text-gray-300'
+                  }`}
+                >
+                  DEC
+                </button>
+                <button
+                  onClick={() => setArithmetic('fraction')}
+                  title="Exact fractions, such as 1/3 + 1/6 = 1/2"
+                  className={`px-3 py-1 rounded text-sm font-medium transition-all ${
+                    state.arithmetic === 'fraction'
+                      ? 'bg-indigo-600 text-white'
+                      : 'text-gray-700 dark:text-gray-300'
+                  }`}
+                >
+                  FRAC
+                </button>
+                <button
+                  onClick={() => setArithmetic('complex')}
+                  title="Complex numbers, such as sqrt(-1) = i"
+                  className={`px-3 py-1 rounded text-sm font-medium transition-all ${
+                    state.arithmetic === 'complex'
+                      ? 'bg-indigo-600 text-white'
+                      : 'text-gray-700 dark:text-gray-300'
+                  }`}
+                >
+                  CPLX
+                </button>
+                <button
+                  onClick={() => setArithmetic('programmer')}
+                  title="Integers of a fixed word size in hex, decimal, octal or binary"
+                  className={`px-3 py-1 rounded text-sm font-medium transition-all ${
+                    state.arithmetic === 'programmer'
+                      ? 'bg-indigo-600 text-white'
+                      : 'text-gray-700 dark:text-gray-300'
+                  }`}
+                >
+                  PROG
+                </button>
+              </div>
+              {state.arithmetic === 'decimal' && (
+                <input
+                  type="number"
+                  min={MIN_PRECISION}
+                  max={MAX_PRECISION}
+                  value={state.precision}
+                  onChange={e => setPrecision(Number(e.target.value))}
+                  aria-label="Significant digits"
+                  title="Significant digits"
+                  className="w-20 px-2 py-1 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-sm text-gray-900 dark:text-white"
+                />
+              )}
+              {state.arithmetic === 'fraction' && (
+                <div className="flex gap-2 bg-gray-200 dark:bg-gray-700 rounded-lg p-1">
+                  {fractionFormOptions.map(({ form, label, title }) => (
+                    <button
+                      key={form}
+                      onClick={() => setFractionForm(form)}
+                      title={title}
+                      className={`px-3 py-1 rounded text-sm font-medium transition-all ${
+                        state.fractionForm === form
+                          ? 'bg-indigo-600 text-white'
+                          : 'text-gray-700 dark:text-gray-300'
+                      }`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+              )}
+              {state.arithmetic === 'complex' && (
+                <div className="flex gap-2 bg-gray-200 dark:bg-gray-700 rounded-lg p-1">
+                  {complexFormOptions.map(({ form, label, title }) => (
+                    <button
+                      key={form}
+                      onClick={() => setComplexForm(form)}
+                      title={title}
+                      className={`px-3 py-1 rounded text-sm font-medium transition-all ${
+                        state.complexForm === form
+                          ? 'bg-indigo-600 text-white'
+                          : 'text-gray-700 dark:text-gray-300'
+                      }`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+              )}
+              {state.arithmetic === 'programmer' && (
+                <div className="flex gap-2 bg-gray-200 dark:bg-gray-700 rounded-lg p-1">
+                  {WORD_BITS.map(bits => (
+                    <button
+                      key={bits}
+                      onClick={() => setWordSize({ ...state.wordSize, bits })}
+                      title={`${bits}-bit integers`}
+                      className={`px-3 py-1 rounded text-sm font-medium transition-all ${
+                        state.wordSize.bits === bits
+                          ? 'bg-indigo-600 text-white'
+                          : 'text-gray-700 dark:text-gray-300'
+                      }`}
+                    >
+                      {bits}
+                    </button>
+                  ))}
+                  <button
+                    onClick={() =>
+                      setWordSize({ ...state.wordSize, signed: !state.wordSize.signed })
+                    }
+                    title="Two's complement (signed) or unsigned integers"
+                    className="px-3 py-1 rounded text-sm font-medium transition-all text-gray-700 dark:text-gray-300"
+                  >
+                    {state.wordSize.signed ? 'SIGNED' : 'UNSIGNED'}
+                  </button>
+                </div>
+              )}
+            </div>
+
             {/* Mode Toggle */}
             <div className="flex gap-2 items-center">
               <label className="text-sm font-medium text-gray-700 dark:text-gray-300">
@@ -332,7 +408,7 @@ export const CalculatorPage: React.FC = () => {
               </label>
               <div className="flex gap-2 bg-gray-200 dark:bg-gray-700 rounded-lg p-1">
                 <button
-                  onClick={() => setIsRadians(true)}
+                  onClick={() => setAngleMode('rad')}
                   className={`px-3 py-1 rounded text-sm font-medium transition-all ${
                     isRadians ? 'bg-indigo-600 text-white' : 'text-gray-700 dark:text-gray-300'
                   }`}
@@ -340,7 +416,7 @@ export const CalculatorPage: React.FC = () => {
                   RAD
                 </button>
                 <button
-                  onClick={() => setIsRadians(false)}
+                  onClick={() => setAngleMode('deg')}
                   className={`px-3 py-1 rounded text-sm font-medium transition-all ${
                     !isRadians ? 'bg-indigo-600 text-white' : 'text-gray-700 dark:text-gray-300'
                   }`}
@@ -349,6 +425,28 @@ export const CalculatorPage: React.FC = () => {
                 </button>
               </div>
             </div>
+
+            {/* Tax rate of the business tax keys */}
+            {currentLayout === 'business' && (
+              <div className="flex gap-2 items-center">
+                <label
+                  htmlFor="tax-rate"
+                  className="text-sm font-medium text-gray-700 dark:text-gray-300"
+                >
+                  Tax Rate:
+                </label>
+                <input
+                  id="tax-rate"
+                  type="number"
+                  step="any"
+                  value={state.taxRate}
+                  onChange={e => setTaxRate(Number(e.target.value))}
+                  title="Tax rate in percent of +TAX, −TAX, addtax and removetax"
+                  className="w-20 px-2 py-1 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-sm text-gray-900 dark:text-white"
+                />
+                <span className="text-sm text-gray-700 dark:text-gray-300">%</span>
+              </div>
+            )}
           </div>
 
           {/* Keyboard */}
@@ -359,8 +457,44 @@ export const CalculatorPage: React.FC = () => {
             responsiveColumns={3}
           />
 
+          {/* Physical constants for the engineering keys, inserted into the input line */}
+          {currentLayout === 'engineering' && (
+            <ConstantsPicker
+              onInsert={expression => setInput(current => current + expression)}
+              withUnits={state.arithmetic === 'float'}
+            />
+          )}
+
+          {/* Matrix entry for the matrix keys, inserted into the input line */}
+          {currentLayout === 'matrix' && (
+            <MatrixEditor onInsert={literal => setInput(current => current + literal)} />
+          )}
+
+          {/* Data lists and their summary for the statistics keys */}
+          {currentLayout === 'statistics' && (
+            <StatisticsPanel
+              lists={state.lists}
+              onSetList={setList}
+              onDeleteList={deleteList}
+              regression={state.regression}
+              onFit={fitRegression}
+              onInsert={expression => setInput(current => current + expression)}
+            />
+          )}
+
+          {/* Registers of the time-value-of-money keys */}
+          {currentLayout === 'finance' && (
+            <TvmPanel
+              tvm={state.tvm}
+              onSetValue={setTvmValue}
+              onSetSettings={setTvmSettings}
+              onSolve={solveTvm}
+            />
+          )}
+          {currentLayout === 'finance' && <AmortizationTable tvm={state.tvm} />}
+
           {/* Memory Display (if memory is not zero) */}
-          {state.memory !== 0 && (
+          {state.memory !== '0' && (
             <div className="bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-700 rounded-lg p-3 flex items-center justify-between">
               <span className="text-sm font-medium text-amber-900 dark:text-amber-200">Memory</span>
               <span className="font-mono text-lg font-bold text-amber-600 dark:text-amber-400">
@@ -369,6 +503,15 @@ export const CalculatorPage: React.FC = () => {
             </div>
           )}
 
+          {/* Variables */}
+          <VariablesPanel
+            variables={state.variables}
+            onSet={setVariable}
+            onDelete={deleteVariable}
+            functions={state.functions}
+            onDeleteFunction={deleteFunction}
+          />
+
           {/* History (if available) */}
           {state.history.length > 0 && (
             <div className="bg-gray-50 dark:bg-gray-700/50 rounded-lg p-4 max-h-32 overflow-y-auto">
@@ -376,9 +519,12 @@ export const CalculatorPage: React.FC = () => {
                 History
               </h3>
               <div className="space-y-1 font-mono text-sm">
-                {state.history.slice(-5).map((entry, index) => (
+                {state.history.slice(-5).map((entry, index, recent) => (
                   <div key={index} className="text-gray-600 dark:text-gray-400">
-                    {entry}
+                    <span className="text-gray-400 dark:text-gray-500 mr-2">
+                      ans{state.history.length - recent.length + index + 1}
+                    </span>
+                    {formatHistoryEntry(entry)}
                   </div>
                 ))}
               </div>
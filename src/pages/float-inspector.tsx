@@ -0,0 +1,209 @@
+/**
+ * Floating-Point Inspector Page
+ * IEEE-754 view of a value as float32 or float64: sign, exponent and mantissa bits, the hex
+ * encoding, its class and ULP. Bits can be flipped on the programmer bit grid to build a value.
+ */
+
+import React, { useState } from 'react'
+import { Link, useSearchParams } from 'react-router-dom'
+import ExpressionError from '@/components/expression-error'
+import ProgrammerPanel from '@/components/programmer-panel'
+import { NumberBase } from '@/types/calculator'
+import { CalculatorError } from '@/utils/calculator-errors'
+import { tryEvaluateExpression } from '@/utils/expression-evaluator'
+import {
+  bitField,
+  encodeFloat,
+  FloatClass,
+  FloatFormat,
+  floatLayouts,
+  inspectFloat,
+  nextFloat,
+} from '@/utils/ieee754'
+
+const formatOptions: { format: FloatFormat; label: string; title: string }[] = [
+  { format: 'float32', label: 'FLOAT32', title: 'Single precision: 8 exponent, 23 mantissa bits' },
+  { format: 'float64', label: 'FLOAT64', title: 'Double precision: 11 exponent, 52 mantissa bits' },
+]
+
+const classLabels: Record<FloatClass, string> = {
+  zero: 'Zero',
+  normal: 'Normal',
+  subnormal: 'Subnormal',
+  infinite: 'Infinite',
+  nan: 'NaN',
+}
+
+/**
+ * Number text that keeps the sign of zero: -0 rather than 0
+ */
+const numberText = (value: number): string => (Object.is(value, -0) ? '-0' : String(value))
+
+const binary = (value: bigint | number, width: number): string =>
+  value.toString(2).padStart(width, '0')
+
+/**
+ * Floating-Point Inspector Page Component
+ * Starts from the `value` search parameter, as linked from the calculator's display
+ */
+export const FloatInspectorPage: React.FC = () => {
+  const [searchParams] = useSearchParams()
+  const [input, setInput] = useState(searchParams.get('value') ?? '0.1')
+  const [format, setFormat] = useState<FloatFormat>('float64')
+  const [bits, setBits] = useState(() => {
+    const result = tryEvaluateExpression(input, { angleMode: 'rad' })
+    return encodeFloat(result.ok ? result.value : NaN, 'float64')
+  })
+  const [base, setBase] = useState<NumberBase>('hex')
+  const [error, setError] = useState<CalculatorError | null>(null)
+
+  const layout = floatLayouts[format]
+  const inspection = inspectFloat(bits, format)
+
+  const inspect = (event: React.FormEvent) => {
+    event.preventDefault()
+    const result = tryEvaluateExpression(input, { angleMode: 'rad' })
+    if (!result.ok) {
+      setError(result.error)
+      return
+    }
+    setError(null)
+    setBits(encodeFloat(result.value, format))
+  }
+
+  // The value carries over, rounded to the nearest float32 when narrowing
+  const changeFormat = (next: FloatFormat) => {
+    setBits(encodeFloat(inspection.value, next))
+    setFormat(next)
+  }
+
+  const rows: { label: string; value: string }[] = [
+    { label: 'Value', value: numberText(inspection.value) },
+    { label: 'Hex', value: inspection.hex },
+    { label: 'Sign', value: `${inspection.sign} (${inspection.sign ? '−' : '+'})` },
+    {
+      label: 'Exponent',
+      value: `${binary(inspection.exponent, layout.exponentBits)} = ${inspection.exponent}${
+        inspection.power === null ? '' : ` (2^${inspection.power}, bias ${layout.bias})`
+      }`,
+    },
+    {
+      label: 'Mantissa',
+      value: `${inspection.kind === 'normal' ? '1.' : '0.'}${binary(
+        inspection.mantissa,
+        layout.mantissaBits
+      )}`,
+    },
+    { label: 'ULP', value: numberText(inspection.ulp) },
+    { label: 'Next', value: numberText(nextFloat(bits, format)) },
+  ]
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-indigo-900 p-4 sm:p-6 lg:p-8">
+      <div className="mx-auto max-w-4xl space-y-6">
+        {/* Header */}
+        <div className="text-center space-y-2">
+          <h1 className="text-4xl font-bold text-white">Floating-Point Inspector</h1>
+          <p className="text-indigo-200">
+            IEEE-754 sign, exponent and mantissa bits of float32 and float64 values
+          </p>
+          <Link to="/" className="text-sm text-indigo-300 hover:text-white underline">
+            Back to the calculator
+          </Link>
+        </div>
+
+        <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-2xl p-6 space-y-6">
+          {/* Input Line */}
+          <form onSubmit={inspect} className="space-y-2">
+            <div className="flex gap-2">
+              <input
+                value={input}
+                onChange={e => setInput(e.target.value)}
+                placeholder="Type a value or expression, e.g. 0.1 or 2^-1074"
+                aria-label="Value to inspect"
+                className="flex-1 px-3 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 font-mono text-gray-900 dark:text-white"
+              />
+              <button
+                type="submit"
+                className="px-4 py-2 rounded-lg bg-indigo-600 text-white font-medium hover:bg-indigo-700"
+              >
+                Inspect
+              </button>
+            </div>
+            {error && <ExpressionError error={error} source={input} />}
+          </form>
+
+          {/* Format Toggle */}
+          <div className="flex gap-2 items-center">
+            <label className="text-sm font-medium text-gray-700 dark:text-gray-300">Format:</label>
+            <div className="flex gap-2 bg-gray-200 dark:bg-gray-700 rounded-lg p-1">
+              {formatOptions.map(option => (
+                <button
+                  key={option.format}
+                  onClick={() => changeFormat(option.format)}
+                  title={option.title}
+                  className={`px-3 py-1 rounded text-sm font-medium transition-all ${
+                    format === option.format
+                      ? 'bg-indigo-600 text-white'
+                      : 'text-gray-700 dark:text-gray-300'
+                  }`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Fields */}
+          <table className="w-full text-sm font-mono text-gray-900 dark:text-white">
+            <tbody>
+              {rows.map(({ label, value }) => (
+                <tr key={label}>
+                  <td className="pr-4 py-1 text-gray-500 dark:text-gray-400 whitespace-nowrap">
+                    {label}
+                  </td>
+                  <td className="py-1 break-all">{value}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {/* Class Flags */}
+          <div className="flex flex-wrap gap-2">
+            {Object.entries(classLabels).map(([kind, label]) => (
+              <span
+                key={kind}
+                className={`text-xs px-2 py-1 rounded font-semibold ${
+                  inspection.kind === kind
+                    ? 'bg-amber-500 text-white'
+                    : 'bg-gray-200 dark:bg-gray-700 text-gray-500 dark:text-gray-400'
+                }`}
+              >
+                {label}
+              </span>
+            ))}
+          </div>
+
+          {/* Encoding, editable bit by bit */}
+          <ProgrammerPanel
+            value={inspection.bits.toString()}
+            wordSize={{ bits: layout.bits, signed: false }}
+            base={base}
+            onSetBase={setBase}
+            onToggleBit={bit => setBits(current => current ^ (1n << BigInt(bit)))}
+            describeBit={bit => {
+              const field = bitField(bit, format)
+              return field === 'sign'
+                ? 'Sign bit'
+                : field === 'exponent'
+                  ? `Exponent bit ${bit - layout.mantissaBits}`
+                  : `Mantissa bit ${bit}`
+            }}
+          />
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default FloatInspectorPage
@@ -2,6 +2,7 @@ import { createBrowserRouter } from 'react-router-dom'
 import App from '@/App'
 import CalculatorPage from '@/pages/calculator'
 import ExpressionDemoPage from '@/pages/expression-demo'
+import FloatInspectorPage from '@/pages/float-inspector'
 
 /**
  * Get basename dynamically from window location or environment
@@ -58,6 +59,10 @@ export const router = createBrowserRouter(
           path: '/expression-demo',
           element: <ExpressionDemoPage />,
         },
+        {
+          path: '/float-inspector',
+          element: <FloatInspectorPage />,
+        },
       ],
     },
   ],
@@ -3,6 +3,11 @@
  * Defines interfaces for calculator functionality and keyboard layout
  */
 
+import { AngleMode, NumericEstimate, UserFunction, WordSize } from '@/types/expression'
+import { CalculatorError } from '@/utils/calculator-errors'
+import { TvmSettings, TvmVariable } from '@/utils/finance'
+import { Regression } from '@/utils/regression'
+
 export type ButtonType =
   | 'number'
   | 'operator'
@@ -32,11 +37,129 @@ export interface KeyboardLayout {
   description: string
 }
 
+/**
+ * How the keypad combines operators:
+ * - immediate: each operator applies to the running result (2 + 3 × 4 = 20)
+ * - algebraic: a pending expression is kept and evaluated with precedence (2 + 3 × 4 = 14)
+ * - rpn: operands are pushed onto a stack and operators consume them (2 ENTER 3 +)
+ */
+export type EntryMode = 'immediate' | 'algebraic' | 'rpn'
+
+/**
+ * How results are computed:
+ * - float: IEEE-754 double precision (0.1 + 0.2 = 0.30000000000000004)
+ * - decimal: arbitrary-precision decimal rounded to `precision` significant digits
+ * - fraction: exact fractions (1/3 + 1/6 = 1/2), floating point once a result is irrational
+ * - complex: double-precision complex numbers (sqrt(-1) = i)
+ * - programmer: integers of a fixed word size that wrap around on overflow (0x7F + 1 = -128
+ *   in 8-bit signed words)
+ */
+export type ArithmeticMode = 'float' | 'decimal' | 'fraction' | 'complex' | 'programmer'
+
+/**
+ * Base programmer arithmetic shows and enters numbers in
+ */
+export type NumberBase = 'hex' | 'dec' | 'oct' | 'bin'
+
+/**
+ * How an exact fraction result is shown:
+ * - fraction: improper fraction (7/2)
+ * - mixed: whole part and proper fraction (3 1/2)
+ * - decimal: decimal digits, with the repeating part in parentheses (0.(3))
+ */
+export type FractionForm = 'fraction' | 'mixed' | 'decimal'
+
+/**
+ * How a complex result is shown:
+ * - rectangular: real and imaginary parts (3+4i)
+ * - polar: modulus and angle in the current angle mode (5∠53.13)
+ */
+export type ComplexForm = 'rectangular' | 'polar'
+
+/**
+ * A completed calculation, e.g. `2 + 3` = `5` or `x = 3.2` = `3.2`
+ */
+export interface HistoryEntry {
+  /** Expression as it was evaluated */
+  expression: string
+  /** Result as number text */
+  result: string
+  /** Outcome of each numeric calculus call (integrate, deriv, ...) in the expression */
+  estimates?: NumericEstimate[]
+}
+
+/**
+ * A regression of one data list on another
+ */
+export interface ListRegression extends Regression {
+  /** List of x values */
+  x: string
+  /** List of y values */
+  y: string
+}
+
+/**
+ * Time-value-of-money registers of the finance keys
+ */
+export interface TvmState {
+  /** N, I/Y, PV, PMT and FV as number text */
+  values: Record<TvmVariable, string>
+  settings: TvmSettings
+  /** CPT was pressed: the next register key computes its register from the others */
+  computing: boolean
+}
+
 export interface CalculatorState {
   display: string
-  previousValue: number | null
+  /** Values are kept as number text so decimal results stay exact */
+  previousValue: string | null
   operation: string | null
   waitingForNewValue: boolean
-  memory: number
-  history: string[]
+  memory: string
+  /** Completed calculations, oldest first; entry n is readable as `ans<n>` */
+  history: HistoryEntry[]
+  /** Error from the last evaluation, cleared by the next key press */
+  error: CalculatorError | null
+  /** Unit used by trigonometric keys */
+  angleMode: AngleMode
+  entryMode: EntryMode
+  /** Pending algebraic expression such as `2 + 3 * (`; empty in immediate mode */
+  expression: string
+  /** RPN stack levels above X (the display), Y last */
+  stack: string[]
+  /** RPN: X before the last operation, recalled by LASTx */
+  lastX: string
+  /** RPN: whether the next entry pushes X up the stack (false right after ENTER) */
+  stackLift: boolean
+  arithmetic: ArithmeticMode
+  /** Significant digits in decimal arithmetic */
+  precision: number
+  /** How fraction arithmetic shows its results */
+  fractionForm: FractionForm
+  /** How complex arithmetic shows its results */
+  complexForm: ComplexForm
+  /** Word size of programmer arithmetic */
+  wordSize: WordSize
+  /** Base of programmer arithmetic; results are kept as decimal text and shown in this base */
+  base: NumberBase
+  /** User variables as number text, kept until deleted (`x = 3.2`) */
+  variables: Record<string, string>
+  /** User-defined functions by name (`f(x, y) = sqrt(x^2 + y^2)`) */
+  functions: Record<string, UserFunction>
+  /** Data lists by name as number text (`L1`), read by statistics functions (`mean(L1)`) */
+  lists: Record<string, string[]>
+  /** Last regression fitted to the lists, whose prediction is the user function `fit` */
+  regression: ListRegression | null
+  tvm: TvmState
+  /** Tax rate in percent of the tax keys and of addtax and removetax without a rate */
+  taxRate: number
+  /** State of the generator rand and the samplers draw from after SEED; Math.random when null */
+  randomState: number | null
+  /** HYP is active: the next trigonometric key is hyperbolic (sin → sinh) */
+  hyperbolic: boolean
 }
+
+/**
+ * The part of the calculator state that is saved between sessions
+ */
+export type Workspace = Pick<CalculatorState, 'variables' | 'functions' | 'lists'>
@@ -0,0 +1,247 @@
+/**
+ * Expression Engine Type Definitions
+ * Defines tokens, AST nodes, and evaluation context for the expression parser
+ */
+
+/**
+ * Character range in the source expression (end is exclusive)
+ */
+export interface SourceRange {
+  start: number
+  end: number
+}
+
+export type TokenType =
+  | 'number'
+  | 'identifier'
+  | 'operator'
+  | 'leftParen'
+  | 'rightParen'
+  | 'comma'
+  | 'leftBracket'
+  | 'rightBracket'
+  | 'semicolon'
+  | 'eof'
+
+export interface Token extends SourceRange {
+  type: TokenType
+  text: string
+}
+
+export type UnaryOperator = '-' | '+'
+
+export type BinaryOperator = '+' | '-' | '*' | '/' | '^'
+
+export type PostfixOperator = '!' | '%'
+
+export type ComparisonOperator = '<' | '<=' | '>' | '>=' | '==' | '!='
+
+export interface NumberNode extends SourceRange {
+  type: 'number'
+  value: number
+  /** Literal text; hexadecimal, octal and binary literals (0xFF, 0o17, 0b101) in decimal */
+  raw: string
+  /** Written ≈1.414: an inexact earlier result, which exact fraction arithmetic keeps as a float */
+  approximate?: true
+}
+
+export interface IdentifierNode extends SourceRange {
+  type: 'identifier'
+  name: string
+}
+
+export interface UnaryNode extends SourceRange {
+  type: 'unary'
+  operator: UnaryOperator
+  operand: ExpressionNode
+}
+
+export interface BinaryNode extends SourceRange {
+  type: 'binary'
+  operator: BinaryOperator
+  left: ExpressionNode
+  right: ExpressionNode
+}
+
+export interface PostfixNode extends SourceRange {
+  type: 'postfix'
+  operator: PostfixOperator
+  operand: ExpressionNode
+}
+
+/**
+ * Comparison such as `n <= 1`; evaluates to 1 when it holds and 0 otherwise
+ */
+export interface ComparisonNode extends SourceRange {
+  type: 'comparison'
+  operator: ComparisonOperator
+  left: ExpressionNode
+  right: ExpressionNode
+}
+
+/**
+ * Unit conversion such as `72 km/h to m/s`; `unit` holds only unit names and whole powers
+ */
+export interface ConversionNode extends SourceRange {
+  type: 'conversion'
+  value: ExpressionNode
+  unit: ExpressionNode
+}
+
+export interface CallNode extends SourceRange {
+  type: 'call'
+  callee: string
+  args: ExpressionNode[]
+}
+
+/**
+ * Matrix literal such as `[1, 2; 3, 4]`: rows of entries, separated by `;` in the source
+ * Entries may be matrices themselves, joined side by side within a row and stacked between
+ * rows, so `[A, b]` augments A with a column.
+ */
+export interface MatrixNode extends SourceRange {
+  type: 'matrix'
+  rows: ExpressionNode[][]
+}
+
+export type ExpressionNode =
+  | NumberNode
+  | IdentifierNode
+  | UnaryNode
+  | BinaryNode
+  | PostfixNode
+  | ComparisonNode
+  | ConversionNode
+  | CallNode
+  | MatrixNode
+
+export type AngleMode = 'rad' | 'deg'
+
+/**
+ * Function defined by the user, such as `f(x, y) = sqrt(x^2 + y^2)`
+ */
+export interface UserFunction {
+  name: string
+  params: string[]
+  /** Expression text of the body */
+  body: string
+}
+
+/**
+ * Fixed-width integer word of programmer arithmetic
+ */
+export interface WordSize {
+  bits: 8 | 16 | 32 | 64
+  /** Two's complement (−128 to 127 in 8 bits) rather than unsigned (0 to 255) */
+  signed: boolean
+}
+
+export interface EvaluationContext {
+  angleMode: AngleMode
+  /** Significant digits for arbitrary-precision decimal evaluation; floating point when unset */
+  precision?: number
+  /** Keep results as exact fractions where possible (1/3 + 1/6 = 1/2) */
+  fractions?: boolean
+  /** Evaluate over the complex numbers, with `i` defined (sqrt(-1) = i) */
+  complex?: boolean
+  /** Evaluate over integers of this word size, wrapping around on overflow (programmer mode) */
+  word?: WordSize
+  /** Named values an expression can read (user variables, `ans`), as result text */
+  variables?: Record<string, string>
+  /** User-defined functions, callable like built-ins */
+  functions?: Record<string, UserFunction>
+  /** Data lists by name (L1), as result text; statistics functions read them (mean(L1)) */
+  lists?: Record<string, string[]>
+  /** Tax rate in percent for addtax and removetax called without one; 0 when unset */
+  taxRate?: number
+  /** Generator rand, randint and the distribution samplers draw from; Math.random when unset */
+  random?: RandomSource
+  /** Receives the outcome of each numeric calculus call (integrate, deriv, ...) evaluated */
+  estimates?: NumericEstimate[]
+  /**
+   * Receives each function decimal arithmetic could only compute in double precision (gamma),
+   * and ≈ for each approximate value it read
+   */
+  approximations?: string[]
+  /** Number of user function calls being evaluated, to stop runaway recursion */
+  callDepth?: number
+}
+
+/**
+ * Source of uniformly distributed numbers in [0, 1)
+ */
+export interface RandomSource {
+  next: () => number
+}
+
+/**
+ * Function of one real variable sampled by a numeric method; NaN where it is undefined
+ */
+export type RealFunction = (x: number) => number
+
+/**
+ * Result of a numeric method: its value, an estimate of the value's absolute error and whether
+ * that estimate met the method's tolerance
+ */
+export interface NumericResult {
+  value: number
+  error: number
+  converged: boolean
+  /** Samples of the function the method took */
+  evaluations: number
+}
+
+/**
+ * Numeric result reported by an expression function such as integrate
+ */
+export interface NumericEstimate extends NumericResult {
+  /** Name of the function that produced it */
+  method: string
+}
+
+export type EvaluationErrorCode =
+  | 'syntax'
+  | 'domain'
+  | 'division-by-zero'
+  | 'overflow'
+  | 'unknown-identifier'
+  | 'stack-underflow'
+  | 'units'
+  | 'convergence'
+
+/**
+ * Input restriction checked before a function is evaluated
+ */
+export interface FunctionDomain {
+  test: (args: number[], context: EvaluationContext) => boolean
+  /** Human-readable description of the valid inputs, e.g. "-1 ≤ x ≤ 1" */
+  description: string
+  code?: Extract<EvaluationErrorCode, 'domain' | 'division-by-zero'>
+}
+
+/**
+ * Built-in function available to expressions
+ */
+export interface FunctionDefinition {
+  minArgs: number
+  maxArgs: number
+  description?: string
+  domain?: FunctionDomain
+  evaluate: (args: number[], context: EvaluationContext) => number
+}
+
+/**
+ * Numeric calculus function available to expressions, such as integrate(f, a, b): a function
+ * of one variable followed by numbers
+ */
+export interface CalculusDefinition {
+  /** Numbers it takes after the function */
+  minArgs: number
+  maxArgs: number
+  description: string
+  domain?: {
+    test: (args: number[], f: RealFunction) => boolean
+    description: string
+  }
+  evaluate: (f: RealFunction, args: number[]) => NumericResult
+}
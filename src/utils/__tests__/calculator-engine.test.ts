@@ -0,0 +1,1243 @@
+/**
+ * Unit Tests for the Calculator Engine
+ * Pins the behaviour of every button value used by the built-in keyboard layouts
+ */
+
+import { CalculatorState } from '@/types/calculator'
+import { EvaluationErrorCode } from '@/types/expression'
+import { keyboardLayouts } from '@/config/keyboard-layouts'
+import {
+  calculatorReducer,
+  createInitialState,
+  formatDisplay,
+  formatHistoryEntry,
+  getDisplayValue,
+} from '@/utils/calculator-engine'
+import { distributionsByName } from '@/utils/distributions'
+
+const immediate = createInitialState({ entryMode: 'immediate' })
+const algebraic = createInitialState({ entryMode: 'algebraic' })
+const rpn = createInitialState({ entryMode: 'rpn' })
+
+/**
+ * Press a sequence of keys starting from the given state
+ */
+const press = (keys: string[], state: CalculatorState = immediate): CalculatorState =>
+  keys.reduce((current, value) => calculatorReducer(current, { type: 'press', value }), state)
+
+/**
+ * Press space-separated keys, algebraic mode by default: `2 + 3 * 4 =`
+ */
+const enter = (keys: string, state: CalculatorState = algebraic): CalculatorState =>
+  press(keys.split(' '), state)
+
+/**
+ * History as `expression = result` lines
+ */
+const historyOf = (state: CalculatorState): string[] => state.history.map(formatHistoryEntry)
+
+/**
+ * Keys that collect the statistics list 4, 6 and recall it
+ */
+const data = ['4', 'list-add', '6', 'list-add', 'L1']
+
+/**
+ * Keys that store PV -1, I/Y 100 and N 1 in the TVM registers
+ */
+const loan = ['1', 'toggle', 'pv', '1', '0', '0', 'iy', '1', 'n']
+
+/**
+ * Keys that collect the cash flows -100, 110 in the list L1
+ */
+const cashFlows = ['1', '0', '0', 'toggle', 'list-add', '1', '1', '0', 'list-add']
+
+/**
+ * One key sequence per button value, ending with that button, and the display it must produce;
+ * keys that cannot succeed on plain numbers pin the error code instead. Sequences run in
+ * immediate entry unless they name a starting state, as the comma keys need algebraic entry.
+ */
+const pinnedButtons: Record<
+  string,
+  { keys: string[]; display: string; error?: EvaluationErrorCode; state?: CalculatorState }
+> = {
+  '0': { keys: ['1', '0'], display: '10' },
+  '1': { keys: ['1'], display: '1' },
+  '2': { keys: ['2'], display: '2' },
+  '3': { keys: ['3'], display: '3' },
+  '4': { keys: ['4'], display: '4' },
+  '5': { keys: ['5'], display: '5' },
+  '6': { keys: ['6'], display: '6' },
+  '7': { keys: ['7'], display: '7' },
+  '8': { keys: ['8'], display: '8' },
+  '9': { keys: ['9'], display: '9' },
+  '.': { keys: ['1', '.'], display: '1.' },
+  '(': { keys: ['2', '('], display: '2' },
+  ')': { keys: ['2', ')'], display: '2' },
+  '=': { keys: ['2', '+', '3', '='], display: '5' },
+  '+': { keys: ['2', '+', '3', '+'], display: '5' },
+  '-': { keys: ['9', '-', '4', '-'], display: '5' },
+  '*': { keys: ['6', '*', '7', '*'], display: '42' },
+  '/': { keys: ['8', '/', '2', '/'], display: '4' },
+  '^': { keys: ['2', '^', '1', '0', '='], display: '1024' },
+  nroot: { keys: ['2', '7', 'nroot', '3', '='], display: '3' },
+  '%': { keys: ['5', '0', '%'], display: '0.5' },
+  clear: { keys: ['1', '2', '+', '3', 'clear'], display: '0' },
+  backspace: { keys: ['1', '2', 'backspace'], display: '1' },
+  toggle: { keys: ['5', 'toggle'], display: '-5' },
+  'e-notation': { keys: ['3', 'e-notation', '4'], display: '3e4' },
+  repeat: { keys: ['0', '.', '1', 'repeat', '6', '*', '6', '='], display: '1' },
+  'fraction-form': { keys: ['5', 'fraction-form'], display: '5' },
+  i: { keys: ['4', 'i'], display: '4', error: 'domain' },
+  polar: { keys: ['2', 'polar', '0', '='], display: '2' },
+  re: { keys: ['5', 're'], display: '5' },
+  im: { keys: ['5', 'im'], display: '0' },
+  arg: { keys: ['5', 'toggle', 'arg'], display: String(Math.PI) },
+  conj: { keys: ['5', 'conj'], display: '5' },
+  'complex-form': { keys: ['5', 'complex-form'], display: '5' },
+  sqrt: { keys: ['1', '6', 'sqrt'], display: '4' },
+  square: { keys: ['1', '2', 'square'], display: '144' },
+  cube: { keys: ['3', 'cube'], display: '27' },
+  reciprocal: { keys: ['4', 'reciprocal'], display: '0.25' },
+  abs: { keys: ['7', 'toggle', 'abs'], display: '7' },
+  factorial: { keys: ['5', 'factorial'], display: '120' },
+  sin: { keys: ['0', 'sin'], display: '0' },
+  cos: { keys: ['0', 'cos'], display: '1' },
+  tan: { keys: ['0', 'tan'], display: '0' },
+  asin: { keys: ['1', 'asin'], display: String(Math.PI / 2) },
+  acos: { keys: ['1', 'acos'], display: '0' },
+  atan: { keys: ['1', 'atan'], display: String(Math.PI / 4) },
+  'hyp-shift': { keys: ['1', 'hyp-shift', 'sin'], display: String(Math.sinh(1)) },
+  log10: { keys: ['1', '0', '0', '0', 'log10'], display: '3' },
+  ln: { keys: ['1', 'ln'], display: '0' },
+  log2: { keys: ['8', 'log2'], display: '3' },
+  exp: { keys: ['0', 'exp'], display: '1' },
+  deg: { keys: ['pi', 'deg'], display: '180' },
+  rad: { keys: ['1', '8', '0', 'rad'], display: String(Math.PI) },
+  pi: { keys: ['pi'], display: String(Math.PI) },
+  e: { keys: ['e'], display: String(Math.E) },
+  phi: { keys: ['phi'], display: String((1 + Math.sqrt(5)) / 2) },
+  c: { keys: ['c'], display: '299792458 m/s' },
+  G: { keys: ['G'], display: '6.6743e-11 m^3/(kg s^2)' },
+  planck: { keys: ['planck'], display: '6.62607015e-34 J s' },
+  k: { keys: ['k'], display: '1.380649e-23 J/K' },
+  qe: { keys: ['qe'], display: '1.602176634e-19 C' },
+  me: { keys: ['me'], display: '9.1093837015e-31 kg' },
+  NA: { keys: ['NA'], display: '6.02214076e+23 mol^-1' },
+  eps0: { keys: ['eps0'], display: '8.8541878128e-12 F/m' },
+  // Stack keys: ENTER finishes the calculation, the rest only act in RPN mode
+  enter: { keys: ['2', '+', '3', 'enter'], display: '5' },
+  swap: { keys: ['2', 'swap'], display: '2' },
+  roll: { keys: ['2', 'roll'], display: '2' },
+  drop: { keys: ['2', 'drop'], display: '2' },
+  dup: { keys: ['2', 'dup'], display: '2' },
+  lastx: { keys: ['2', 'lastx'], display: '2' },
+  // Matrix keys act on a number as a 1×1 matrix
+  det: { keys: ['4', 'det'], display: '4' },
+  inv: { keys: ['4', 'inv'], display: '0.25' },
+  transpose: { keys: ['4', 'transpose'], display: '4' },
+  rank: { keys: ['4', 'rank'], display: '1' },
+  eig: { keys: ['4', 'eig'], display: '4' },
+  solve: { keys: ['6', 'solve', '3', '='], display: '0.5' },
+  dot: { keys: ['2', 'dot', '3', '='], display: '6' },
+  cross: { keys: ['2', 'cross', '3', '='], display: '0', error: 'domain' },
+  norm: { keys: ['3', 'toggle', 'norm'], display: '3' },
+  'list-add': { keys: ['4', 'list-add'], display: '4' },
+  'list-clear': { keys: ['4', 'list-add', 'list-clear'], display: '4' },
+  L1: { keys: data, display: '[4; 6]' },
+  count: { keys: [...data, 'count'], display: '2' },
+  mean: { keys: [...data, 'mean'], display: '5' },
+  median: { keys: [...data, 'median'], display: '5' },
+  mode: { keys: [...data, 'mode'], display: '4' },
+  sum: { keys: [...data, 'sum'], display: '10' },
+  stdev: { keys: [...data, 'stdev'], display: String(Math.SQRT2) },
+  pstdev: { keys: [...data, 'pstdev'], display: '1' },
+  variance: { keys: [...data, 'variance'], display: '2' },
+  pvariance: { keys: [...data, 'pvariance'], display: '1' },
+  min: { keys: [...data, 'min'], display: '4' },
+  max: { keys: [...data, 'max'], display: '6' },
+  quartile: { keys: [...data, 'quartile', '1', '='], display: '4.5' },
+  percentile: { keys: [...data, 'percentile', '5', '0', '='], display: '5' },
+  and: { keys: ['1', '2', 'and', '1', '0', '='], display: '8' },
+  or: { keys: ['1', '2', 'or', '3', '='], display: '15' },
+  xor: { keys: ['6', 'xor', '3', '='], display: '5' },
+  not: { keys: ['5', 'not'], display: '-6' },
+  lshift: { keys: ['3', 'lshift', '2', '='], display: '12' },
+  rshift: { keys: ['1', '6', 'rshift', '2', '='], display: '4' },
+  rol: { keys: ['hex', '1', 'rol', '1', '='], display: '2' },
+  ror: { keys: ['hex', '2', 'ror', '1', '='], display: '1' },
+  hex: { keys: ['2', '5', '5', 'hex'], display: '0xFF' },
+  dec: { keys: ['hex', 'F', 'F', 'dec'], display: '255' },
+  oct: { keys: ['8', 'oct'], display: '0o10' },
+  bin: { keys: ['5', 'bin'], display: '0b101' },
+  A: { keys: ['hex', 'A'], display: '0xA' },
+  B: { keys: ['hex', 'B'], display: '0xB' },
+  C: { keys: ['hex', 'C'], display: '0xC' },
+  D: { keys: ['hex', 'D'], display: '0xD' },
+  E: { keys: ['hex', 'E'], display: '0xE' },
+  F: { keys: ['hex', 'F'], display: '0xF' },
+  n: { keys: ['5', 'n'], display: '5' },
+  iy: { keys: ['1', '0', '0', 'iy'], display: '100' },
+  pv: { keys: ['1', 'toggle', 'pv'], display: '-1' },
+  pmt: { keys: ['0', 'pmt'], display: '0' },
+  fv: { keys: ['7', 'fv'], display: '7' },
+  cpt: { keys: [...loan, 'cpt', 'fv'], display: '2' },
+  bgn: { keys: [...loan, 'bgn', 'cpt', 'pmt'], display: '1' },
+  'clr-tvm': { keys: [...loan, 'clr-tvm', 'cpt', 'n'], display: '0', error: 'domain' },
+  npv: { keys: [...cashFlows, '1', '0', '0', 'npv', 'L1', '='], display: '-45' },
+  irr: { keys: [...cashFlows, 'L1', 'irr'], display: '10' },
+  pctchange: { keys: ['5', '0', 'pctchange', '7', '5', '='], display: '50' },
+  sellmargin: { keys: ['8', '0', 'sellmargin', '2', '0', '='], display: '100' },
+  costmargin: { keys: ['1', '0', '0', 'costmargin', '2', '0', '='], display: '80' },
+  margin: { keys: ['8', '0', 'margin', '1', '0', '0', '='], display: '20' },
+  sellmarkup: { keys: ['8', '0', 'sellmarkup', '2', '5', '='], display: '100' },
+  costmarkup: { keys: ['1', '0', '0', 'costmarkup', '2', '5', '='], display: '80' },
+  markup: { keys: ['8', '0', 'markup', '1', '0', '0', '='], display: '25' },
+  markuptomargin: { keys: ['2', '5', 'markuptomargin'], display: '20' },
+  margintomarkup: { keys: ['2', '0', 'margintomarkup'], display: '25' },
+  'tax-rate': { keys: ['8', 'tax-rate'], display: '8' },
+  addtax: { keys: ['1', '0', 'tax-rate', '5', '0', 'addtax'], display: '55' },
+  removetax: { keys: ['2', '5', 'tax-rate', '1', '2', '5', 'removetax'], display: '100' },
+  discount: { keys: ['1', '0', '0', 'discount', '1', '0', '='], display: '90' },
+  tip: { keys: ['1', '2', '0', 'tip', '1', '5', '='], display: '138' },
+  split: { keys: ['1', '3', '8', 'split', '4', '='], display: '34.5' },
+  normpdf: { keys: ['0', 'normpdf'], display: '0.3989422804014327' },
+  normcdf: { keys: ['0', 'normcdf'], display: '0.5' },
+  norminv: { keys: ['.', '5', 'norminv'], display: '0' },
+  normrand: { keys: ['4', '2', 'random-seed', 'normrand'], display: '0.2562050671575955' },
+  rand: { keys: ['4', '2', 'random-seed', 'rand'], display: '0.6011037519201636' },
+  randint: { keys: ['4', '2', 'random-seed', '1', 'randint', '6', '='], display: '4' },
+  'random-seed': { keys: ['4', '2', 'random-seed'], display: '42' },
+  ',': { keys: ['1', 'unifcdf', '0', ',', '4', '='], display: '0.25', state: algebraic },
+  tpdf: { keys: ['0', 'tpdf', '1', '='], display: '0.31830988618379086' },
+  tcdf: { keys: ['0', 'tcdf', '5', '='], display: '0.5' },
+  tinv: { keys: ['.', '5', 'tinv', '5', '='], display: '0' },
+  chi2pdf: { keys: ['0', 'chi2pdf', '2', '='], display: '0.5' },
+  chi2cdf: { keys: ['2', 'chi2cdf', '2', '='], display: '0.6321205588285578' },
+  chi2inv: { keys: ['.', '5', 'chi2inv', '2', '='], display: String(2 * Math.LN2) },
+  fpdf: { keys: ['1', 'fpdf', '2', ',', '2', '='], display: '0.25', state: algebraic },
+  fcdf: { keys: ['1', 'fcdf', '2', ',', '2', '='], display: '0.5', state: algebraic },
+  finv: { keys: ['.', '7', '5', 'finv', '2', ',', '2', '='], display: '3', state: algebraic },
+  unifpdf: { keys: ['.', '3', 'unifpdf', '0', ',', '2', '='], display: '0.5', state: algebraic },
+  unifcdf: { keys: ['.', '3', 'unifcdf', '0', ',', '2', '='], display: '0.15', state: algebraic },
+  unifinv: { keys: ['.', '9', 'unifinv', '0', ',', '2', '='], display: '1.8', state: algebraic },
+  exppdf: { keys: ['0', 'exppdf', '2', '='], display: '2' },
+  expcdf: { keys: ['1', 'expcdf', '1', '='], display: String(-Math.expm1(-1)) },
+  expinv: { keys: ['.', '5', 'expinv', '1', '='], display: String(Math.LN2) },
+  binompmf: {
+    keys: ['5', 'binompmf', '1', '0', ',', '.', '5', '='],
+    display: '0.24609375',
+    state: algebraic,
+  },
+  binomcdf: {
+    keys: ['1', '0', 'binomcdf', '1', '0', ',', '.', '5', '='],
+    display: '1',
+    state: algebraic,
+  },
+  binominv: {
+    keys: ['.', '5', 'binominv', '1', '0', ',', '.', '5', '='],
+    display: '5',
+    state: algebraic,
+  },
+  poissonpmf: { keys: ['0', 'poissonpmf', '2', '='], display: String(Math.exp(-2)) },
+  poissoncdf: { keys: ['0', 'poissoncdf', '2', '='], display: String(Math.exp(-2)) },
+  poissoninv: { keys: ['.', '9', '5', 'poissoninv', '4', '='], display: '8' },
+  geompmf: { keys: ['1', 'geompmf', '.', '2', '='], display: '0.2' },
+  geomcdf: { keys: ['1', 'geomcdf', '.', '2', '='], display: '0.2' },
+  geominv: { keys: ['.', '9', '5', 'geominv', '.', '2', '='], display: '14' },
+}
+
+/**
+ * The same coverage in RPN mode: space-separated keys, expected X and stack (Y last)
+ */
+const rpnPinnedButtons: Record<
+  string,
+  { keys: string; display: string; stack?: string[]; error?: EvaluationErrorCode }
+> = {
+  '0': { keys: '1 0', display: '10' },
+  '1': { keys: '5 enter 1', display: '1', stack: ['5'] },
+  '2': { keys: '5 enter 2', display: '2', stack: ['5'] },
+  '3': { keys: '5 sqrt 3', display: '3', stack: [String(Math.sqrt(5))] },
+  '4': { keys: '4', display: '4' },
+  '5': { keys: '5', display: '5' },
+  '6': { keys: '6', display: '6' },
+  '7': { keys: '7', display: '7' },
+  '8': { keys: '8', display: '8' },
+  '9': { keys: '9', display: '9' },
+  '.': { keys: '1 .', display: '1.' },
+  '(': { keys: '2 (', display: '2' },
+  ')': { keys: '2 )', display: '2' },
+  '=': { keys: '2 =', display: '2', stack: ['2'] },
+  enter: { keys: '2 enter', display: '2', stack: ['2'] },
+  '+': { keys: '2 enter 3 +', display: '5', stack: [] },
+  '-': { keys: '9 enter 4 -', display: '5' },
+  '*': { keys: '6 enter 7 *', display: '42' },
+  '/': { keys: '8 enter 2 /', display: '4' },
+  '^': { keys: '2 enter 1 0 ^', display: '1024' },
+  nroot: { keys: '2 7 enter 3 nroot', display: '3' },
+  '%': { keys: '2 0 0 enter 1 0 %', display: '20', stack: ['200'] },
+  clear: { keys: '1 enter 2 clear', display: '0', stack: [] },
+  backspace: { keys: '1 2 backspace', display: '1' },
+  toggle: { keys: '5 toggle', display: '-5' },
+  'e-notation': { keys: '3 e-notation 4', display: '3e4' },
+  repeat: { keys: '0 . 1 repeat 6 enter 6 *', display: '1' },
+  'fraction-form': { keys: '5 fraction-form', display: '5' },
+  i: { keys: '4 i', display: '4', error: 'domain' },
+  polar: { keys: '2 enter 0 polar', display: '2' },
+  re: { keys: '5 re', display: '5' },
+  im: { keys: '5 im', display: '0' },
+  arg: { keys: '5 toggle arg', display: String(Math.PI) },
+  conj: { keys: '5 conj', display: '5' },
+  'complex-form': { keys: '5 complex-form', display: '5' },
+  swap: { keys: '1 enter 2 swap', display: '1', stack: ['2'] },
+  roll: { keys: '1 enter 2 enter 3 roll', display: '2', stack: ['3', '1'] },
+  drop: { keys: '1 enter 2 drop', display: '1', stack: [] },
+  dup: { keys: '4 dup', display: '4', stack: ['4'] },
+  lastx: { keys: '2 enter 3 * lastx', display: '3', stack: ['6'] },
+  sqrt: { keys: '1 6 sqrt', display: '4' },
+  square: { keys: '1 2 square', display: '144' },
+  cube: { keys: '3 cube', display: '27' },
+  reciprocal: { keys: '4 reciprocal', display: '0.25' },
+  abs: { keys: '7 toggle abs', display: '7' },
+  factorial: { keys: '5 factorial', display: '120' },
+  sin: { keys: '0 sin', display: '0' },
+  cos: { keys: '0 cos', display: '1' },
+  tan: { keys: '0 tan', display: '0' },
+  asin: { keys: '1 asin', display: String(Math.PI / 2) },
+  acos: { keys: '1 acos', display: '0' },
+  atan: { keys: '1 atan', display: String(Math.PI / 4) },
+  'hyp-shift': { keys: '1 hyp-shift sin', display: String(Math.sinh(1)) },
+  log10: { keys: '1 0 0 0 log10', display: '3' },
+  ln: { keys: '1 ln', display: '0' },
+  log2: { keys: '8 log2', display: '3' },
+  exp: { keys: '0 exp', display: '1' },
+  deg: { keys: 'pi deg', display: '180' },
+  rad: { keys: '1 8 0 rad', display: String(Math.PI) },
+  pi: { keys: '2 pi', display: String(Math.PI), stack: ['2'] },
+  e: { keys: 'e', display: String(Math.E) },
+  phi: { keys: 'phi', display: String((1 + Math.sqrt(5)) / 2) },
+  c: { keys: 'c', display: '299792458 m/s' },
+  G: { keys: 'G', display: '6.6743e-11 m^3/(kg s^2)' },
+  planck: { keys: 'planck', display: '6.62607015e-34 J s' },
+  k: { keys: 'k', display: '1.380649e-23 J/K' },
+  qe: { keys: 'qe', display: '1.602176634e-19 C' },
+  me: { keys: 'me', display: '9.1093837015e-31 kg' },
+  NA: { keys: 'NA', display: '6.02214076e+23 mol^-1' },
+  eps0: { keys: 'eps0', display: '8.8541878128e-12 F/m' },
+  det: { keys: '4 det', display: '4' },
+  inv: { keys: '4 inv', display: '0.25' },
+  transpose: { keys: '4 transpose', display: '4' },
+  rank: { keys: '4 rank', display: '1' },
+  eig: { keys: '4 eig', display: '4' },
+  solve: { keys: '6 enter 3 solve', display: '0.5', stack: [] },
+  dot: { keys: '2 enter 3 dot', display: '6' },
+  cross: { keys: '2 enter 3 cross', display: '3', error: 'domain' },
+  norm: { keys: '3 toggle norm', display: '3' },
+  'list-add': { keys: '4 list-add', display: '4', stack: [] },
+  'list-clear': { keys: '4 list-add list-clear', display: '4' },
+  L1: { keys: '4 list-add 6 list-add L1', display: '[4; 6]', stack: ['4', '6'] },
+  count: { keys: '4 list-add 6 list-add L1 count', display: '2' },
+  mean: { keys: '4 list-add 6 list-add L1 mean', display: '5' },
+  median: { keys: '4 list-add 6 list-add L1 median', display: '5' },
+  mode: { keys: '4 list-add 6 list-add L1 mode', display: '4' },
+  sum: { keys: '4 list-add 6 list-add L1 sum', display: '10' },
+  stdev: { keys: '4 list-add 6 list-add L1 stdev', display: String(Math.SQRT2) },
+  pstdev: { keys: '4 list-add 6 list-add L1 pstdev', display: '1' },
+  variance: { keys: '4 list-add 6 list-add L1 variance', display: '2' },
+  pvariance: { keys: '4 list-add 6 list-add L1 pvariance', display: '1' },
+  min: { keys: '4 list-add 6 list-add L1 min', display: '4' },
+  max: { keys: '4 list-add 6 list-add L1 max', display: '6' },
+  quartile: { keys: '4 list-add 6 list-add L1 1 quartile', display: '4.5' },
+  percentile: { keys: '4 list-add 6 list-add L1 5 0 percentile', display: '5' },
+  and: { keys: '1 2 enter 1 0 and', display: '8' },
+  or: { keys: '1 2 enter 3 or', display: '15' },
+  xor: { keys: '6 enter 3 xor', display: '5' },
+  not: { keys: '5 not', display: '-6' },
+  lshift: { keys: '3 enter 2 lshift', display: '12' },
+  rshift: { keys: '1 6 enter 2 rshift', display: '4' },
+  rol: { keys: 'hex 1 enter 1 rol', display: '2' },
+  ror: { keys: 'hex 2 enter 1 ror', display: '1' },
+  hex: { keys: '2 5 5 hex', display: '0xFF' },
+  dec: { keys: 'hex F F dec', display: '255' },
+  oct: { keys: '8 oct', display: '0o10' },
+  bin: { keys: '5 bin', display: '0b101' },
+  A: { keys: '5 enter hex A', display: '0xA', stack: ['5'] },
+  B: { keys: 'hex B', display: '0xB' },
+  C: { keys: 'hex C', display: '0xC' },
+  D: { keys: 'hex D', display: '0xD' },
+  E: { keys: 'hex E', display: '0xE' },
+  F: { keys: 'hex F', display: '0xF' },
+  n: { keys: '5 n', display: '5' },
+  iy: { keys: '1 0 0 iy', display: '100' },
+  pv: { keys: '1 toggle pv', display: '-1' },
+  pmt: { keys: '0 pmt', display: '0' },
+  fv: { keys: '7 fv', display: '7' },
+  cpt: { keys: `${loan.join(' ')} cpt fv`, display: '2', stack: ['-1', '100', '1'] },
+  bgn: { keys: `${loan.join(' ')} bgn cpt pmt`, display: '1' },
+  'clr-tvm': { keys: `${loan.join(' ')} clr-tvm cpt n`, display: '1', error: 'domain' },
+  npv: { keys: `${cashFlows.join(' ')} 1 0 0 enter L1 npv`, display: '-45' },
+  irr: { keys: `${cashFlows.join(' ')} L1 irr`, display: '10' },
+  pctchange: { keys: '5 0 enter 7 5 pctchange', display: '50' },
+  sellmargin: { keys: '8 0 enter 2 0 sellmargin', display: '100' },
+  costmargin: { keys: '1 0 0 enter 2 0 costmargin', display: '80' },
+  margin: { keys: '8 0 enter 1 0 0 margin', display: '20' },
+  sellmarkup: { keys: '8 0 enter 2 5 sellmarkup', display: '100' },
+  costmarkup: { keys: '1 0 0 enter 2 5 costmarkup', display: '80' },
+  markup: { keys: '8 0 enter 1 0 0 markup', display: '25' },
+  markuptomargin: { keys: '2 5 markuptomargin', display: '20' },
+  margintomarkup: { keys: '2 0 margintomarkup', display: '25' },
+  'tax-rate': { keys: '8 tax-rate', display: '8', stack: [] },
+  addtax: { keys: '1 0 tax-rate 5 0 addtax', display: '55', stack: ['10'] },
+  removetax: { keys: '2 5 tax-rate 1 2 5 removetax', display: '100' },
+  discount: { keys: '1 0 0 enter 1 0 discount', display: '90' },
+  tip: { keys: '1 2 0 enter 1 5 tip', display: '138' },
+  split: { keys: '1 3 8 enter 4 split', display: '34.5' },
+  normpdf: { keys: '0 normpdf', display: '0.3989422804014327' },
+  normcdf: { keys: '0 normcdf', display: '0.5' },
+  norminv: { keys: '. 5 norminv', display: '0' },
+  normrand: { keys: '4 2 random-seed normrand', display: '0.2562050671575955', stack: ['42'] },
+  rand: { keys: '4 2 random-seed rand', display: '0.6011037519201636', stack: ['42'] },
+  randint: { keys: '4 2 random-seed 1 enter 6 randint', display: '4' },
+  'random-seed': { keys: '4 2 random-seed', display: '42', stack: [] },
+  ',': { keys: '5 ,', display: '5' },
+  tpdf: { keys: '0 enter 1 tpdf', display: '0.31830988618379086' },
+  tcdf: { keys: '0 enter 5 tcdf', display: '0.5' },
+  tinv: { keys: '. 5 enter 5 tinv', display: '0' },
+  chi2pdf: { keys: '0 enter 2 chi2pdf', display: '0.5' },
+  chi2cdf: { keys: '2 enter 2 chi2cdf', display: '0.6321205588285578' },
+  chi2inv: { keys: '. 5 enter 2 chi2inv', display: String(2 * Math.LN2) },
+  fpdf: { keys: '1 enter 2 enter 2 fpdf', display: '0.25', stack: [] },
+  fcdf: { keys: '7 enter 1 enter 2 enter 2 fcdf', display: '0.5', stack: ['7'] },
+  finv: { keys: '. 7 5 enter 2 enter 2 finv', display: '3' },
+  unifpdf: { keys: '. 3 enter 0 enter 2 unifpdf', display: '0.5' },
+  unifcdf: { keys: '. 3 enter 0 enter 2 unifcdf', display: '0.15' },
+  unifinv: { keys: '. 9 enter 0 enter 2 unifinv', display: '1.8' },
+  exppdf: { keys: '0 enter 2 exppdf', display: '2' },
+  expcdf: { keys: '1 enter 1 expcdf', display: String(-Math.expm1(-1)) },
+  expinv: { keys: '. 5 enter 1 expinv', display: String(Math.LN2) },
+  binompmf: { keys: '5 enter 1 0 enter . 5 binompmf', display: '0.24609375' },
+  binomcdf: { keys: '1 0 enter 1 0 enter . 5 binomcdf', display: '1' },
+  binominv: { keys: '. 5 enter 1 0 enter . 5 binominv', display: '5' },
+  poissonpmf: { keys: '0 enter 2 poissonpmf', display: String(Math.exp(-2)) },
+  poissoncdf: { keys: '0 enter 2 poissoncdf', display: String(Math.exp(-2)) },
+  poissoninv: { keys: '. 9 5 enter 4 poissoninv', display: '8' },
+  geompmf: { keys: '1 enter . 2 geompmf', display: '0.2' },
+  geomcdf: { keys: '1 enter . 2 geomcdf', display: '0.2' },
+  geominv: { keys: '. 9 5 enter . 2 geominv', display: '14' },
+}
+
+const layoutValues = Array.from(
+  new Set(
+    Object.values(keyboardLayouts).flatMap(layout =>
+      layout.groups.flatMap(group => group.buttons.map(button => button.value))
+    )
+  )
+)
+
+describe('calculatorReducer button coverage', () => {
+  test('should pin every button value used by the keyboard layouts', () => {
+    const unpinned = layoutValues.filter(value => !(value in pinnedButtons))
+    expect(unpinned).toEqual([])
+  })
+
+  Object.entries(pinnedButtons).forEach(([value, { keys, display, error, state: initial }]) => {
+    test(`'${value}' key`, () => {
+      const state = press(keys, initial)
+      expect(state.error?.code ?? null).toBe(error ?? null)
+      expect(state.display).toBe(display)
+    })
+  })
+
+  test('should pin every button value in RPN mode', () => {
+    const unpinned = layoutValues.filter(value => !(value in rpnPinnedButtons))
+    expect(unpinned).toEqual([])
+  })
+
+  Object.entries(rpnPinnedButtons).forEach(([value, { keys, display, stack, error }]) => {
+    test(`'${value}' key in RPN mode`, () => {
+      const state = enter(keys, rpn)
+      expect(state.error?.code ?? null).toBe(error ?? null)
+      expect(state.display).toBe(display)
+      if (stack) expect(state.stack).toEqual(stack)
+    })
+  })
+})
+
+describe('calculatorReducer', () => {
+  test('should default to immediate entry', () => {
+    expect(createInitialState().entryMode).toBe('immediate')
+    expect(press(['2', '+', '3', '*', '4', '='], createInitialState()).display).toBe('20')
+  })
+
+  test('should not mutate the previous state', () => {
+    const initial = createInitialState()
+    const snapshot = JSON.stringify(initial)
+    press(['1', '+', '2', '=', 'M+', 'sin'], initial)
+    expect(JSON.stringify(initial)).toBe(snapshot)
+  })
+
+  test('should record completed calculations in history', () => {
+    const state = press(['2', '+', '3', '=', '*', '4', '='])
+    expect(historyOf(state)).toEqual(['2 + 3 = 5', '5 * 4 = 20'])
+    expect(press(['clear'], state).history).toEqual(state.history)
+  })
+
+  test('should ignore "=" without a pending operation', () => {
+    const state = press(['7'])
+    expect(calculatorReducer(state, { type: 'press', value: '=' })).toBe(state)
+  })
+
+  test('should take percentages relative to a pending addition', () => {
+    expect(press(['2', '0', '0', '+', '1', '0', '%', '=']).display).toBe('220')
+    expect(press(['2', '0', '0', '*', '1', '0', '%', '=']).display).toBe('20')
+  })
+
+  test('should respect the angle mode for trigonometric keys', () => {
+    const degrees = calculatorReducer(immediate, {
+      type: 'set-angle-mode',
+      angleMode: 'deg',
+    })
+    expect(press(['9', '0', 'sin'], degrees).display).toBe('1')
+    expect(press(['1', 'asin'], degrees).display).toBe('90')
+  })
+
+  test('should edit the exponent sign while entering an exponent', () => {
+    expect(press(['2', 'e-notation', 'toggle', '3']).display).toBe('2e-3')
+    expect(press(['2', 'e-notation', '3', 'toggle', 'toggle']).display).toBe('2e3')
+  })
+
+  test('should treat a minus sign left by backspace as an empty entry', () => {
+    expect(press(['2', 'toggle', 'backspace']).display).toBe('0')
+    expect(press(['2', 'toggle', 'backspace', '+', '3', '=']).display).toBe('3')
+    expect(enter('2 toggle backspace enter 5 +', rpn).display).toBe('5')
+    expect(enter('2 toggle backspace 2 1 =', algebraic).display).toBe('21')
+    const programmer = createInitialState({ entryMode: 'algebraic', arithmetic: 'programmer' })
+    expect(enter('2 toggle backspace 7', programmer).display).toBe('7')
+  })
+
+  test('should keep memory across entries and reset it on clear', () => {
+    const state = press(['5', 'M+', '3', 'M+', '2', 'M-'])
+    expect(state.memory).toBe('6')
+    expect(press(['MR'], state).display).toBe('6')
+    expect(press(['MC'], state).memory).toBe('0')
+    expect(press(['clear'], state).memory).toBe('0')
+  })
+
+  test('should surface evaluation errors and clear them on the next key', () => {
+    const state = press(['8', '/', '0', '='])
+    expect(state.error?.code).toBe('division-by-zero')
+    expect(state.error?.source).toBe('8 / 0')
+    expect(state.display).toBe('0')
+    expect(press(['1'], state).error).toBeNull()
+  })
+
+  test('should report domain errors from function keys', () => {
+    const state = press(['2', 'asin'])
+    expect(state.error?.code).toBe('domain')
+    expect(state.error?.source).toBe('asin(2)')
+  })
+
+  test('should set the display directly', () => {
+    const state = calculatorReducer(press(['8', '/', '0', '=']), {
+      type: 'set-display',
+      value: '42',
+    })
+    expect(state.display).toBe('42')
+    expect(state.error).toBeNull()
+  })
+})
+
+describe('calculatorReducer algebraic entry', () => {
+  test('should respect operator precedence', () => {
+    expect(enter('2 + 3 * 4 =').display).toBe('14')
+    expect(press(['2', '+', '3', '*', '4', '=']).display).toBe('20')
+    expect(enter('2 ^ 3 ^ 2 =').display).toBe('512')
+    expect(enter('1 0 - 4 - 3 =').display).toBe('3')
+  })
+
+  test('should replace an operator pressed straight after another', () => {
+    expect(enter('2 + * 3 =').display).toBe('6')
+    expect(enter('2 * - 3 =').display).toBe('-1')
+    expect(enter('1 + 2 * ^ 3 =').display).toBe('9')
+    expect(enter('2 + nroot 3 =').display).toBe(String(Math.cbrt(2)))
+    expect(enter('2 + pi * 2 =').display).toBe(String(2 + Math.PI * 2))
+    expect(press(['2', '+', '*', '3', '=']).display).toBe('6')
+  })
+
+  test('should keep the pending expression with real parentheses', () => {
+    const state = enter('2 * ( 3 + 4')
+    expect(state.expression).toBe('2 * (3 + ')
+    expect(state.display).toBe('4')
+
+    const closed = press([')'], state)
+    expect(closed.expression).toBe('2 * (3 + 4)')
+    expect(closed.display).toBe('7')
+    expect(press(['='], closed).display).toBe('14')
+  })
+
+  test('should show the value each operator can already reduce', () => {
+    expect(enter('2 * 3 +').display).toBe('6')
+    expect(enter('2 + 3 *').display).toBe('3')
+    expect(enter('( 1 + 2 ) * 4 -').display).toBe('12')
+  })
+
+  test('should record the whole expression in history', () => {
+    const state = enter('( 2 + 3 ) * 4 =')
+    expect(historyOf(state)).toEqual(['(2 + 3) * 4 = 20'])
+    expect(state.expression).toBe('')
+  })
+
+  test('should close open parentheses on "="', () => {
+    expect(enter('2 * ( ( 1 + 2 =').display).toBe('6')
+    expect(enter('=')).toEqual(algebraic)
+  })
+
+  test('should multiply implicitly next to a group', () => {
+    expect(enter('2 ( 3 + 1 ) =').display).toBe('8')
+    expect(enter('( 3 + 1 ) 2 =').display).toBe('8')
+    expect(enter('( 1 + 1 ) pi').expression).toBe('(1 + 1) * ')
+  })
+
+  test('should ignore an unmatched ")"', () => {
+    const state = enter('2 + 3')
+    expect(press([')'], state)).toBe(state)
+  })
+
+  test('should apply function keys to a closed group', () => {
+    const state = enter('( 4 + 5 ) sqrt')
+    expect(state.expression).toBe('sqrt(4 + 5)')
+    expect(state.display).toBe('3')
+    expect(enter('1 + 4 + 5 sqrt =').display).toBe(String(5 + Math.sqrt(5)))
+  })
+
+  test('should take nroot of the preceding operand', () => {
+    expect(enter('1 + 2 7 nroot 3 =').display).toBe('4')
+    expect(enter('( 6 + 2 ) nroot 3 * 2 =').display).toBe('4')
+    expect(historyOf(enter('2 7 nroot ( 1 + 2 ) ='))).toEqual(['nroot(27, (1 + 2)) = 3'])
+  })
+
+  test('should take percentages relative to a pending sum', () => {
+    expect(enter('1 0 0 + 5 0 + 1 0 % =').display).toBe('165')
+    expect(enter('2 0 0 * 1 0 % =').display).toBe('20')
+  })
+
+  test('should report errors against the pending expression', () => {
+    const state = enter('1 + 8 / ( 2 - 2 ) =')
+    expect(state.error?.code).toBe('division-by-zero')
+    expect(state.error?.source).toBe('1 + 8 / (2 - 2)')
+    expect(state.expression).toBe('')
+  })
+
+  test('should drop pending input when the entry mode changes', () => {
+    const state = calculatorReducer(enter('2 + ( 3'), {
+      type: 'set-entry-mode',
+      entryMode: 'immediate',
+    })
+    expect(state.entryMode).toBe('immediate')
+    expect(state.expression).toBe('')
+    expect(press(['clear'], state).entryMode).toBe('immediate')
+  })
+})
+
+describe('calculatorReducer RPN entry', () => {
+  test('should evaluate postfix input', () => {
+    // (2 + 3) × 4
+    expect(enter('2 enter 3 + 4 *', rpn).display).toBe('20')
+    // 2 + 3 × 4
+    expect(enter('2 enter 3 enter 4 * +', rpn).display).toBe('14')
+  })
+
+  test('should overwrite X after ENTER but lift it after an operation', () => {
+    const entered = enter('5 enter 7', rpn)
+    expect(entered.stack).toEqual(['5'])
+    const lifted = enter('5 sqrt 7', rpn)
+    expect(lifted.stack).toEqual([String(Math.sqrt(5))])
+  })
+
+  test('should terminate a typed entry when recalling a value', () => {
+    expect(enter('4 pi', rpn).stack).toEqual(['4'])
+    expect(enter('pi', rpn).stack).toEqual([])
+  })
+
+  test('should report stack underflow without losing X', () => {
+    const state = enter('4 +', rpn)
+    expect(state.error?.code).toBe('stack-underflow')
+    expect(state.display).toBe('4')
+    expect(enter('4 swap', rpn).error?.code).toBe('stack-underflow')
+  })
+
+  test('should leave the stack intact after an evaluation error', () => {
+    const state = enter('8 enter 0 /', rpn)
+    expect(state.error?.code).toBe('division-by-zero')
+    expect(state.stack).toEqual(['8'])
+    expect(enter('2 /', state).display).toBe('4')
+  })
+
+  test('should clear X with backspace outside of an entry', () => {
+    const state = enter('3 enter 4 + backspace', rpn)
+    expect(state.display).toBe('0')
+    expect(enter('2', state).stack).toEqual([])
+  })
+
+  test('should record binary operations in history', () => {
+    expect(historyOf(enter('2 enter 3 ^', rpn))).toEqual(['2 ^ 3 = 8'])
+  })
+
+  test('should clear the stack when leaving RPN mode', () => {
+    const state = calculatorReducer(enter('1 enter 2', rpn), {
+      type: 'set-entry-mode',
+      entryMode: 'algebraic',
+    })
+    expect(state.stack).toEqual([])
+  })
+})
+
+describe('calculatorReducer decimal arithmetic', () => {
+  const decimal = createInitialState({
+    entryMode: 'algebraic',
+    arithmetic: 'decimal',
+    precision: 32,
+  })
+
+  test('should keep decimal fractions exact in every entry mode', () => {
+    expect(enter('0 . 1 + 0 . 2 =', decimal).display).toBe('0.3')
+    expect(enter('0 . 1 + 0 . 2 =', { ...decimal, entryMode: 'immediate' }).display).toBe('0.3')
+    expect(enter('0 . 1 enter 0 . 2 +', { ...decimal, entryMode: 'rpn' }).display).toBe('0.3')
+    expect(enter('0 . 1 + 0 . 2 =').display).toBe('0.30000000000000004')
+  })
+
+  test('should record exact results in history', () => {
+    expect(historyOf(enter('2 ^ 1 0 0 =', decimal))).toEqual([
+      '2 ^ 100 = 1.267650600228229401496703205376e+30',
+    ])
+  })
+
+  test('should round results to the configured precision', () => {
+    const state = calculatorReducer(decimal, { type: 'set-precision', precision: 10 })
+    expect(enter('1 / 3 =', state).display).toBe('0.3333333333')
+    expect(enter('pi', state).display).toBe('3.141592654')
+  })
+
+  test('should carry exact values through memory and the stack', () => {
+    const digits = '1 2 3 4 5 6 7 8 9 0 1 2 3 4 5 6 7 8 9'
+    const memory = enter(`${digits} M+ M+`, decimal)
+    expect(memory.memory).toBe('2469135780246913578')
+    const rpnState = enter(`${digits} enter`, { ...decimal, entryMode: 'rpn' })
+    expect(rpnState.stack).toEqual(['1234567890123456789'])
+  })
+
+  test('should mark results computed in double precision', () => {
+    expect(enter('0 . 5 factorial', decimal).display).toBe('≈0.886226925452759')
+    expect(enter('0 . 5 factorial * 2 =', decimal).display).toBe('≈1.77245385090552')
+    expect(enter('0 . 5 factorial toggle', decimal).display).toBe('≈-0.886226925452759')
+    expect(enter('5 factorial', decimal).display).toBe('120')
+  })
+
+  test('should keep arithmetic settings on clear and clamp the precision', () => {
+    const state = calculatorReducer(decimal, { type: 'set-precision', precision: 5000 })
+    expect(state.precision).toBe(1000)
+    expect(calculatorReducer(state, { type: 'set-precision', precision: NaN })).toBe(state)
+    expect(press(['clear'], state)).toMatchObject({ arithmetic: 'decimal', precision: 1000 })
+  })
+})
+
+describe('calculatorReducer fraction arithmetic', () => {
+  const fraction = createInitialState({ entryMode: 'algebraic', arithmetic: 'fraction' })
+
+  test('should keep fractions exact in every entry mode', () => {
+    expect(enter('1 / 3 + 1 / 6 =', fraction).display).toBe('1/2')
+    expect(enter('1 / 3 * 3 =', { ...fraction, entryMode: 'immediate' }).display).toBe('1')
+    expect(enter('1 enter 3 / 1 enter 6 / +', { ...fraction, entryMode: 'rpn' }).display).toBe(
+      '1/2'
+    )
+    expect(historyOf(enter('1 / 3 ^ 2 =', fraction))).toEqual(['1 / 3 ^ 2 = 1/9'])
+  })
+
+  test('should fall back to floating point for irrational results', () => {
+    expect(enter('2 sqrt', fraction).display).toBe(`≈${Math.SQRT2}`)
+    expect(enter('9 / 4 = sqrt', fraction).display).toBe('3/2')
+  })
+
+  test('should show and carry approximate results as decimals', () => {
+    expect(formatDisplay(enter('pi', fraction))).toBe(`≈${Math.PI}`)
+    expect(formatDisplay(enter('2 sqrt', fraction))).toBe(`≈${Math.SQRT2}`)
+    expect(formatDisplay(enter('2 sqrt square', fraction))).toBe(`≈${Math.SQRT2 ** 2}`)
+    expect(enter('2 sqrt square - 2 =', fraction).display).toBe(`≈${Math.SQRT2 ** 2 - 2}`)
+    expect(enter('2 sqrt toggle', fraction).display).toBe(`≈${-Math.SQRT2}`)
+    expect(enter('2 sqrt enter 2 *', { ...fraction, entryMode: 'rpn' }).display).toBe(
+      `≈${2 * Math.SQRT2}`
+    )
+    expect(historyOf(enter('1 + 2 sqrt =', fraction))).toEqual([
+      `1 + ≈${Math.SQRT2} = ≈${1 + Math.SQRT2}`,
+    ])
+    const state = enter('pi', fraction)
+    expect(calculatorReducer(state, { type: 'set-arithmetic', arithmetic: 'float' }).display).toBe(
+      String(Math.PI)
+    )
+  })
+
+  test('should enter repeating decimals', () => {
+    expect(enter('0 . repeat 3', fraction).display).toBe('0.(3)')
+    expect(enter('0 . repeat 3 3 backspace', fraction).display).toBe('0.(3)')
+    expect(enter('0 . repeat 3 backspace backspace', fraction).display).toBe('0.')
+    expect(enter('0 . 1 repeat 6 + 1 / 3 =', fraction).display).toBe('1/2')
+  })
+
+  test('should show results in the chosen form', () => {
+    const state = enter('7 / 2 =', fraction)
+    expect(formatDisplay(state)).toBe('7/2')
+    expect(formatDisplay(enter('fraction-form', state))).toBe('3 1/2')
+    expect(formatDisplay(enter('fraction-form fraction-form', state))).toBe('3.5')
+    expect(formatDisplay(enter('1 / 7 = fraction-form fraction-form', fraction))).toBe('0.(142857)')
+    expect(press(['clear'], { ...state, fractionForm: 'mixed' }).fractionForm).toBe('mixed')
+  })
+
+  test('should convert the shown result when the arithmetic changes', () => {
+    const state = enter('1 / 3 =', fraction)
+    expect(calculatorReducer(state, { type: 'set-arithmetic', arithmetic: 'float' }).display).toBe(
+      String(1 / 3)
+    )
+    const decimal = calculatorReducer(
+      { ...state, precision: 5 },
+      { type: 'set-arithmetic', arithmetic: 'decimal' }
+    )
+    expect(decimal.display).toBe('0.33333')
+    expect(getDisplayValue(state)).toBeCloseTo(1 / 3, 15)
+  })
+})
+
+describe('calculatorReducer complex arithmetic', () => {
+  const complex = createInitialState({ entryMode: 'algebraic', arithmetic: 'complex' })
+
+  test('should compute with complex values in every entry mode', () => {
+    expect(enter('1 toggle sqrt', complex).display).toBe('i')
+    expect(enter('3 + 4 i = square', complex).display).toBe('-7+24i')
+    expect(enter('3 + 4 i =', { ...complex, entryMode: 'immediate' }).display).toBe('3+4i')
+    expect(enter('3 enter 4 i + 2 *', { ...complex, entryMode: 'rpn' }).display).toBe('6+8i')
+    expect(historyOf(enter('2 * ( 1 + i ) =', complex))).toEqual(['2 * (1 + i) = 2+2i'])
+  })
+
+  test('should enter and show polar values in the angle mode', () => {
+    const degrees = { ...complex, angleMode: 'deg' as const }
+    expect(enter('2 polar 9 0 =', degrees).display).toBe('2i')
+    const state = enter('3 + 4 i = complex-form', degrees)
+    expect(state.display).toBe('3+4i')
+    expect(formatDisplay(state)).toBe(`5∠${(Math.atan2(4, 3) * 180) / Math.PI}`)
+    expect(press(['clear'], state).complexForm).toBe('polar')
+  })
+
+  test('should keep the i key to a single imaginary entry', () => {
+    expect(enter('4 i 5', complex).display).toBe('4i')
+    expect(enter('4 i i .', complex).display).toBe('4i')
+    expect(enter('i', complex).display).toBe('i')
+    expect(enter('4 i toggle', complex).display).toBe('-4i')
+  })
+
+  test('should reject the i key outside complex arithmetic', () => {
+    const state = enter('2 i', rpn)
+    expect(state.error).toMatchObject({ code: 'domain', message: 'i needs complex arithmetic' })
+    expect(enter('enter', state)).toMatchObject({ display: '2', stack: ['2'] })
+    expect(enter('2 i + 3 =').display).toBe('5')
+    expect(press(['2', 'i', '+', '3', '=']).display).toBe('5')
+  })
+
+  test('should leave complex results out of real arithmetic', () => {
+    const state = enter('1 toggle sqrt', complex)
+    expect(calculatorReducer(state, { type: 'set-arithmetic', arithmetic: 'float' }).display).toBe(
+      'NaN'
+    )
+    expect(enter('1 toggle sqrt').error?.code).toBe('domain')
+  })
+})
+
+describe('calculatorReducer programmer arithmetic', () => {
+  const programmer = createInitialState({ arithmetic: 'programmer' })
+  const byte = (signed: boolean) => ({ ...programmer, wordSize: { bits: 8 as const, signed } })
+
+  test('should wrap results to the word size', () => {
+    expect(enter('1 2 7 + 1 =', byte(true)).display).toBe('-128')
+    expect(enter('2 5 5 + 1 =', byte(false)).display).toBe('0')
+    expect(enter('0 - 1 =', byte(false)).display).toBe('255')
+    expect(enter('7 / 2 =', programmer).display).toBe('3')
+  })
+
+  test('should show results in the chosen base', () => {
+    const state = enter('0 - 1 = hex', byte(true))
+    expect(state.display).toBe('-1')
+    expect(formatDisplay(state)).toBe('0xFF')
+    expect(formatDisplay(press(['bin'], state))).toBe('0b11111111')
+    expect(formatDisplay(press(['oct'], state))).toBe('0o377')
+  })
+
+  test('should type only digits of the base that fit the word', () => {
+    expect(enter('bin 1 0 2 1', programmer).display).toBe('0b101')
+    expect(enter('hex F F F', byte(false)).display).toBe('0xFF')
+    expect(enter('hex F . 1 i', programmer).display).toBe('0xF1')
+    expect(enter('hex F backspace', programmer).display).toBe('0')
+    expect(enter('A B', programmer).display).toBe('0')
+  })
+
+  test('should read the typed bit pattern as a value of the word', () => {
+    expect(enter('hex F F + 0 =', byte(true)).display).toBe('-1')
+    expect(enter('hex F F + 0 =', byte(false)).display).toBe('255')
+  })
+
+  test('should convert values into and out of programmer arithmetic', () => {
+    const float = createInitialState({ arithmetic: 'float' })
+    expect(enter('7 / 2 = hex', float).display).toBe('3')
+    const state = enter('hex F F', float)
+    expect(calculatorReducer(state, { type: 'set-arithmetic', arithmetic: 'float' }).display).toBe(
+      '255'
+    )
+  })
+
+  test('should keep the low bits when the word size changes', () => {
+    const state = enter('2 5 6 + 1 =', programmer)
+    const narrowed = calculatorReducer(state, {
+      type: 'set-word-size',
+      wordSize: { bits: 8, signed: false },
+    })
+    expect(narrowed.display).toBe('1')
+    expect(press(['clear'], narrowed).wordSize).toEqual({ bits: 8, signed: false })
+  })
+
+  test('should flip bits of the value as a new entry', () => {
+    const toggle = (state: CalculatorState, bit: number) =>
+      calculatorReducer(state, { type: 'toggle-bit', bit })
+    const state = toggle(enter('hex F 0 + 0 =', byte(false)), 0)
+    expect(state.display).toBe('0xF1')
+    expect(press(['2'], state).display).toBe('0xF1')
+    expect(toggle(enter('0', byte(true)), 7).display).toBe('-128')
+    expect(toggle(enter('1 + 1 =', programmer), 64)).toEqual(enter('1 + 1 =', programmer))
+    const rpnState = toggle(enter('4 enter 1 +', { ...programmer, entryMode: 'rpn' }), 1)
+    expect([rpnState.display, rpnState.stack]).toEqual(['7', []])
+  })
+
+  test('should report values that are not whole numbers', () => {
+    expect(enter('pi', programmer).error?.code).toBe('domain')
+    expect(enter('2 ^ 3 =', programmer).display).toBe('8')
+    expect(enter('5 rol 1 =').error?.code).toBe('domain')
+  })
+})
+
+describe('calculatorReducer time value of money', () => {
+  const mortgage = enter('2 0 0 0 0 0 pv 6 iy 3 6 0 n 0 fv')
+  const monthly = calculatorReducer(mortgage, {
+    type: 'set-tvm-settings',
+    settings: { paymentsPerYear: 12, compoundingsPerYear: 12, timing: 'end' },
+  })
+
+  test('should store the entry in a register and compute one from the others', () => {
+    expect(mortgage.tvm.values).toEqual({ n: '360', iy: '6', pv: '200000', pmt: '0', fv: '0' })
+    const state = enter('cpt pmt', monthly)
+    expect(getDisplayValue(state)).toBeCloseTo(-1199.1, 2)
+    expect(state.tvm.values.pmt).toBe(state.display)
+    expect(state.tvm.computing).toBe(false)
+    expect(enter('cpt pv', state).display).toBe('200000')
+  })
+
+  test('should cancel CPT on any other key', () => {
+    const state = enter('cpt 5 n', monthly)
+    expect(state.tvm.values.n).toBe('5')
+    expect(enter('cpt clear', monthly).tvm).toEqual(monthly.tvm)
+  })
+
+  test('should edit and solve registers through actions', () => {
+    const state = calculatorReducer(monthly, {
+      type: 'set-tvm-value',
+      variable: 'pmt',
+      value: '-1199.10',
+    })
+    const solved = calculatorReducer(state, { type: 'solve-tvm', variable: 'n' })
+    expect(getDisplayValue(solved)).toBeCloseTo(360, 2)
+    expect(
+      calculatorReducer(state, { type: 'set-tvm-value', variable: 'fv', value: '' }).tvm.values.fv
+    ).toBe('0')
+    expect(
+      calculatorReducer(state, { type: 'set-tvm-value', variable: 'fv', value: '2 m' }).error?.code
+    ).toBe('domain')
+    expect(
+      calculatorReducer(state, {
+        type: 'set-tvm-settings',
+        settings: { ...state.tvm.settings, paymentsPerYear: 0 },
+      })
+    ).toBe(state)
+  })
+
+  test('should show computed registers in the current arithmetic', () => {
+    const fraction = enter(
+      '1 toggle pv 5 0 iy 1 n cpt fv',
+      createInitialState({ arithmetic: 'fraction' })
+    )
+    expect(formatDisplay(fraction)).toBe('3/2')
+  })
+})
+
+describe('calculatorReducer HYP shift', () => {
+  test('should shift only the next trigonometric key', () => {
+    const shifted = enter('hyp-shift')
+    expect(shifted.hyperbolic).toBe(true)
+    expect(enter('0 . 5 hyp-shift atan', shifted).hyperbolic).toBe(false)
+    expect(enter('1 hyp-shift cos sin').display).toBe(String(Math.sin(Math.cosh(1))))
+    expect(enter('1 hyp-shift hyp-shift sin').display).toBe(String(Math.sin(1)))
+  })
+
+  test('should apply the hyperbolic function in every entry mode', () => {
+    expect(enter('2 hyp-shift acos').display).toBe(String(Math.acosh(2)))
+    expect(enter('2 hyp-shift acos', rpn).display).toBe(String(Math.acosh(2)))
+    expect(enter('0 . 5 hyp-shift tan =', algebraic).display).toBe(String(Math.tanh(0.5)))
+  })
+})
+
+describe('calculatorReducer business math', () => {
+  test('should keep the tax rate through clear and use it in typed expressions', () => {
+    const state = press(['clear'], enter('7 tax-rate'))
+    expect(state.taxRate).toBe(7)
+    const typed = calculatorReducer(state, { type: 'evaluate-input', input: 'addtax(200)' })
+    expect(typed.display).toBe('214')
+    expect(calculatorReducer(typed, { type: 'set-tax-rate', taxRate: -100 })).toBe(typed)
+  })
+
+  test('should reject a tax rate of -100% or below', () => {
+    expect(enter('1 0 0 toggle tax-rate').error?.code).toBe('domain')
+    expect(enter('1 0 0 toggle tax-rate').taxRate).toBe(0)
+  })
+
+  test('should keep cents exact in decimal arithmetic', () => {
+    const decimal = createInitialState({ arithmetic: 'decimal' })
+    const state = calculatorReducer(decimal, {
+      type: 'evaluate-input',
+      input: 'discount(19.99, 15, 10)',
+    })
+    expect(state.display).toBe('15.29235')
+  })
+})
+
+describe('calculatorReducer probability', () => {
+  test('should repeat the same draws after the same seed', () => {
+    const seeded = enter('4 2 random-seed')
+    const first = enter('rand', seeded)
+    expect(enter('rand', seeded).display).toBe(first.display)
+    expect(first.randomState).not.toBe(seeded.randomState)
+    expect(enter('rand', first).display).not.toBe(first.display)
+    const reseeded = calculatorReducer(first, { type: 'seed-random', seed: 42 })
+    expect(enter('rand', reseeded).display).toBe(first.display)
+    expect(press(['clear'], first).randomState).toBe(first.randomState)
+  })
+
+  test('should seed typed expressions and reject fractional seeds', () => {
+    const seeded = enter('7 random-seed')
+    const typed = calculatorReducer(seeded, { type: 'evaluate-input', input: 'randint(1, 6)' })
+    expect(enter('1 randint 6 =', seeded).display).toBe(typed.display)
+    expect(enter('2 . 5 random-seed').error?.message).toBe('A seed is a whole number')
+    expect(createInitialState().randomState).toBeNull()
+  })
+
+  test('should separate distribution parameters with the comma key', () => {
+    const typed = calculatorReducer(algebraic, {
+      type: 'evaluate-input',
+      input: 'binomcdf(3, 10, 0.5)',
+    })
+    expect(enter('3 binomcdf 1 0 , . 5 =').display).toBe(typed.display)
+    expect(enter('2 + 1 fcdf 2 , 2 =').display).toBe('2.5')
+    // Outside a distribution key the comma is ignored and the entry goes on
+    expect(enter('1 + 2 , 3 =').display).toBe('24')
+  })
+
+  test('should take the value and every parameter from the stack in RPN mode', () => {
+    const state = enter('9 enter 3 enter 1 0 enter . 5 binomcdf', rpn)
+    expect(state.display).toBe(String(distributionsByName.binom.cdf(3, [10, 0.5])))
+    expect(state.stack).toEqual(['9'])
+    expect(enter('1 0 enter . 5 binomcdf', rpn).error?.code).toBe('stack-underflow')
+  })
+})
+
+describe('calculatorReducer variables and ans', () => {
+  const input = (lines: string[], state: CalculatorState = algebraic): CalculatorState =>
+    lines.reduce(
+      (current, line) => calculatorReducer(current, { type: 'evaluate-input', input: line }),
+      state
+    )
+
+  test('should assign variables and read them back', () => {
+    const state = input(['x = 3.2', '2x + 1'])
+    expect(state.variables).toEqual({ x: '3.2' })
+    expect(state.display).toBe('7.4')
+    expect(historyOf(state)).toEqual(['x = 3.2 = 3.2', '2x + 1 = 7.4'])
+    expect(press(['clear'], state).variables).toEqual({ x: '3.2' })
+  })
+
+  test('should resolve ans against the history', () => {
+    const state = input(['2 + 3', '10', 'ans + ans1 * ans2'], enter('1 + 1 ='))
+    // ans is the last result (10); ans1 and ans2 are the first two entries (2 and 5)
+    expect(state.display).toBe('20')
+    expect(input(['ans'], algebraic).display).toBe('0')
+  })
+
+  test('should read variables in the current arithmetic', () => {
+    const fraction = createInitialState({ arithmetic: 'fraction' })
+    expect(input(['third = 1/3', 'third + 1/6'], fraction).display).toBe('1/2')
+    const complex = createInitialState({ arithmetic: 'complex' })
+    const z = input(['z = 3 + 4i'], complex)
+    expect(input(['z * conj(z)'], z).display).toBe('25')
+    expect(input(['z + 1'], { ...z, arithmetic: 'float' }).error?.message).toMatch(/^z = 3\+4i/)
+  })
+
+  test('should report errors without losing the entry', () => {
+    const state = input(['pi = 3', 'y + 1', 'x = 1 / 0'], enter('4 2'))
+    expect(state.display).toBe('42')
+    expect(state.variables).toEqual({})
+    expect(input(['pi = 3']).error).toMatchObject({ code: 'syntax', start: 0, end: 2 })
+    expect(input(['ans2 = 3']).error?.code).toBe('syntax')
+    expect(input(['y + 1']).error?.code).toBe('unknown-identifier')
+    expect(input(['constructor']).error?.code).toBe('unknown-identifier')
+    expect(input(['toString(1)']).history).toEqual([])
+    expect(press(['2', 'toString'])).toMatchObject({ display: '2', error: null })
+    expect(input(['x = 1 / 0']).error).toMatchObject({ code: 'division-by-zero', start: 8 })
+  })
+
+  test('should feed typed results into pending keypad input', () => {
+    expect(enter('=', input(['3'], enter('2 +'))).display).toBe('5')
+    expect(enter('+', input(['3'], enter('2 enter', rpn))).display).toBe('5')
+  })
+
+  test('should edit and delete variables', () => {
+    const state = input(['x = 1'])
+    const edited = calculatorReducer(state, { type: 'set-variable', name: 'x', value: '2pi' })
+    expect(Number(edited.variables.x)).toBeCloseTo(2 * Math.PI, 12)
+    expect(edited.history).toEqual(state.history)
+    expect(
+      calculatorReducer(state, { type: 'set-variable', name: 'e', value: '1' }).error?.code
+    ).toBe('syntax')
+    expect(calculatorReducer(state, { type: 'delete-variable', name: 'x' }).variables).toEqual({})
+  })
+
+  test('should store data lists for statistics', () => {
+    const state = calculatorReducer(input(['x = 2']), {
+      type: 'set-list',
+      name: 'L2',
+      values: ['1', ' x ', '', '0.5'],
+    })
+    expect(state.lists).toEqual({ L2: ['1', '2', '0.5'] })
+    expect(input(['mean(L2) * count(L2)'], state).display).toBe('3.5')
+    expect(
+      calculatorReducer(state, { type: 'set-list', name: 'L3', values: ['1', '2 m'] }).error
+    ).toMatchObject({ code: 'domain', message: 'A list holds real numbers without units' })
+    expect(calculatorReducer(state, { type: 'set-list', name: 'L2', values: [] }).lists).toEqual({})
+    expect(press(['clear'], state).lists).toEqual(state.lists)
+  })
+
+  test('should fit a regression as fit(x) with residuals in RESID', () => {
+    const state = createInitialState({ lists: { L1: ['1', '2', '3'], L2: ['4', '5', '9'] } })
+    const fitted = calculatorReducer(state, {
+      type: 'fit-regression',
+      model: 'linear',
+      x: 'L1',
+      y: 'L2',
+    })
+    expect(fitted.error).toBeNull()
+    expect(fitted.regression).toMatchObject({ x: 'L1', y: 'L2', coefficients: [1, 2.5] })
+    expect(fitted.functions.fit.body).toBe('1 + 2.5 * x')
+    expect(fitted.lists.RESID).toEqual(['0.5', '-1', '0.5'])
+    expect(input(['fit(4)'], fitted).display).toBe('11')
+    expect(
+      calculatorReducer(state, { type: 'fit-regression', model: 'linear', x: 'L1', y: 'L3' }).error
+    ).toMatchObject({ code: 'unknown-identifier', source: 'linear fit of L3 on L1' })
+    expect(
+      calculatorReducer(fitted, { type: 'fit-regression', model: 'power', x: 'RESID', y: 'L2' })
+        .error
+    ).toMatchObject({ code: 'domain', message: 'A power fit needs positive x values' })
+  })
+})
+
+describe('calculatorReducer user-defined functions', () => {
+  const define = (lines: string[], state: CalculatorState = algebraic): CalculatorState =>
+    lines.reduce(
+      (current, line) => calculatorReducer(current, { type: 'evaluate-input', input: line }),
+      state
+    )
+
+  test('should define functions and call them like built-ins', () => {
+    const state = define(['f(x, y) = sqrt(x^2 + y^2)', 'f(3, 4) + 1'])
+    expect(state.functions.f).toEqual({ name: 'f', params: ['x', 'y'], body: 'sqrt(x^2 + y^2)' })
+    expect(state.display).toBe('6')
+    expect(historyOf(state)).toEqual(['f(3, 4) + 1 = 6'])
+    expect(press(['clear'], state).functions).toEqual(state.functions)
+  })
+
+  test('should evaluate recursion that has a base case', () => {
+    const state = define(['fact(n) = if(n <= 1, 1, n * fact(n - 1))', 'fact(10)'])
+    expect(state.display).toBe('3628800')
+    const fraction = define(['fact(20)'], { ...state, arithmetic: 'fraction' })
+    expect(fraction.display).toBe('2432902008176640000')
+    expect(define(['fact(1000)'], state).error?.message).toMatch(/too deeply/)
+  })
+
+  test('should reject invalid definitions', () => {
+    expect(define(['g(n) = n * g(n - 1)']).error?.message).toMatch(/base case/)
+    expect(define(['g(x, x) = x']).error?.code).toBe('syntax')
+    expect(define(['sin(x) = x']).error?.code).toBe('syntax')
+    expect(define(['g(x) = x + y']).error?.code).toBe('unknown-identifier')
+    expect(define(['g(x) = (x']).error?.code).toBe('syntax')
+    expect(define(['g(x) = x + 1', 'h(x) = g(x, 2)']).error?.code).toBe('syntax')
+    expect(define(['g(x) = x + 1']).history).toEqual([])
+  })
+
+  test('should use one-argument functions as function keys and two-argument ones as operators', () => {
+    const state = define(['sq(x) = x * x', 'hyp(a, b) = sqrt(a^2 + b^2)'])
+    expect(enter('3 sq', { ...state, entryMode: 'immediate' }).display).toBe('9')
+    expect(enter('3 hyp 4 =', state).display).toBe('5')
+    expect(enter('3 enter 4 hyp', { ...state, entryMode: 'rpn' }).display).toBe('5')
+  })
+
+  test('should define functions with calculus and report the estimates in history', () => {
+    const state = define(['area(b) = integrate(x^2, 0, b)', 'area(3)'])
+    expect(Number(state.display)).toBeCloseTo(9, 12)
+    expect(state.history[0].estimates?.map(({ method }) => method)).toEqual(['integrate'])
+    expect(historyOf(state)[0]).toMatch(/^area\(3\) = .+ \(integrate ± .+\)$/)
+    expect(define(['slope(a) = deriv(sin, a)', 'slope(0)']).display).toBe('1')
+    expect(define(['g(b) = integrate(x + y, 0, b)']).error?.code).toBe('unknown-identifier')
+    expect(define(['integrate(x) = x']).error?.code).toBe('syntax')
+    expect(define(['deriv(abs(x), 0)']).error?.code).toBe('convergence')
+  })
+
+  test('should delete functions', () => {
+    const state = define(['g(x) = x + 1'])
+    expect(calculatorReducer(state, { type: 'delete-function', name: 'g' }).functions).toEqual({})
+    expect(
+      define(['g(2)'], calculatorReducer(state, { type: 'delete-function', name: 'g' })).error?.code
+    ).toBeDefined()
+  })
+})
+
+describe('calculatorReducer units', () => {
+  const input = (line: string, state: CalculatorState = algebraic): CalculatorState =>
+    calculatorReducer(state, { type: 'evaluate-input', input: line })
+
+  test('should evaluate and convert typed quantities', () => {
+    expect(input('3 m/s * 2 min').display).toBe('360 m')
+    expect(input('72 km/h to m/s').display).toBe('20 m/s')
+    expect(input('ans to ft', input('3 m/s * 2 min')).display).toBe('1181.10236220472 ft')
+    expect(input('3 m + 2 s').error).toMatchObject({ code: 'units', start: 0, end: 9 })
+  })
+
+  test('should carry units through keypad operations', () => {
+    expect(enter('c * 2 =').display).toBe('599584916 m/s')
+    expect(enter('c enter 2 *', rpn).display).toBe('599584916 m/s')
+    expect(enter('c square').display).toBe('89875517873681760 m^2/s^2')
+    expect(enter('k toggle').display).toBe('-1.380649e-23 J/K')
+  })
+
+  test('should use plain numbers for constants outside float arithmetic', () => {
+    const decimal = createInitialState({ arithmetic: 'decimal', precision: 12 })
+    expect(enter('c', decimal).display).toBe('299792458')
+    expect(enter('c', createInitialState({ arithmetic: 'fraction' })).display).toBe('299792458')
+  })
+
+  test('should have a key for every physical constant by its name', () => {
+    expect(enter('mu0').display).toBe('0.00000125663706212 N/A^2')
+    expect(enter('qe * 2 =').display).toBe('3.204353268e-19 C')
+    expect(enter('alpha', createInitialState({ arithmetic: 'decimal' })).display).toBe(
+      '0.0072973525693'
+    )
+  })
+})
@@ -0,0 +1,118 @@
+/**
+ * Unit Tests for Calculator Math
+ * Covers the business math built on the percentage helpers: margins, markups, tax, discounts
+ * and bill splitting, directly and as expression functions
+ */
+
+import {
+  addTax,
+  addTip,
+  applyDiscounts,
+  calculatePercentage,
+  calculatePercentageChange,
+  costForMargin,
+  costForMarkup,
+  marginPercent,
+  marginToMarkup,
+  markupPercent,
+  markupToMargin,
+  removeTax,
+  sellingPriceForMargin,
+  sellingPriceForMarkup,
+  splitBill,
+} from '@/utils/calculator-math'
+import { tryEvaluateExpression } from '@/utils/expression-evaluator'
+import { EvaluationContext } from '@/types/expression'
+
+const evaluate = (expression: string, context: Partial<EvaluationContext> = {}) => {
+  const result = tryEvaluateExpression(expression, { angleMode: 'rad', ...context })
+  if (!result.ok) throw new Error(`'${expression}' failed: ${result.error.message}`)
+  return result.text
+}
+
+const errorOf = (expression: string) => {
+  const result = tryEvaluateExpression(expression, { angleMode: 'rad' })
+  return result.ok ? null : result.error.code
+}
+
+describe('percentages', () => {
+  test('should take a percentage and a percentage change', () => {
+    expect(calculatePercentage(200, 15)).toBe(30)
+    expect(calculatePercentageChange(80, 100)).toBe(25)
+    expect(calculatePercentageChange(0, 100)).toBe(0)
+  })
+})
+
+describe('margin and markup', () => {
+  test('should solve cost, selling price and margin from the other two', () => {
+    expect(sellingPriceForMargin(80, 20)).toBe(100)
+    expect(costForMargin(100, 20)).toBe(80)
+    expect(marginPercent(80, 100)).toBe(20)
+  })
+
+  test('should solve cost, selling price and markup from the other two', () => {
+    expect(sellingPriceForMarkup(80, 25)).toBe(100)
+    expect(costForMarkup(100, 25)).toBe(80)
+    expect(markupPercent(80, 100)).toBe(25)
+  })
+
+  test('should convert between markup and margin', () => {
+    expect(markupToMargin(25)).toBe(20)
+    expect(marginToMarkup(20)).toBe(25)
+    expect(markupToMargin(marginToMarkup(37.5))).toBeCloseTo(37.5, 12)
+  })
+})
+
+describe('tax, discounts and tips', () => {
+  test('should add and remove tax', () => {
+    expect(addTax(200, 7)).toBe(214)
+    expect(removeTax(214, 7)).toBeCloseTo(200, 12)
+  })
+
+  test('should chain discounts', () => {
+    expect(applyDiscounts(100, [10, 5])).toBe(85.5)
+    expect(applyDiscounts(100, [])).toBe(100)
+  })
+
+  test('should split a bill with a tip', () => {
+    expect(addTip(120, 15)).toBe(138)
+    expect(splitBill(120, 4, 15)).toBe(34.5)
+    expect(splitBill(120, 4)).toBe(30)
+  })
+})
+
+describe('business expression functions', () => {
+  test('should evaluate every function', () => {
+    expect(evaluate('sellmargin(80, 20)')).toBe('100')
+    expect(evaluate('costmargin(100, 20)')).toBe('80')
+    expect(evaluate('margin(80, 100)')).toBe('20')
+    expect(evaluate('sellmarkup(80, 25)')).toBe('100')
+    expect(evaluate('costmarkup(100, 25)')).toBe('80')
+    expect(evaluate('markup(80, 100)')).toBe('25')
+    expect(evaluate('markuptomargin(25)')).toBe('20')
+    expect(evaluate('margintomarkup(20)')).toBe('25')
+    expect(evaluate('discount(100, 10, 5)')).toBe('85.5')
+    expect(evaluate('tip(120, 15)')).toBe('138')
+    expect(evaluate('split(120, 4, 15)')).toBe('34.5')
+  })
+
+  test('should use the configured tax rate unless one is given', () => {
+    expect(evaluate('addtax(200)')).toBe('200')
+    expect(evaluate('addtax(200)', { taxRate: 7 })).toBe('214')
+    expect(evaluate('addtax(200, 10)', { taxRate: 7 })).toBe('220')
+    expect(evaluate('removetax(214)', { taxRate: 7 })).toBe('200')
+  })
+
+  test('should keep amounts exact in decimal arithmetic', () => {
+    expect(evaluate('removetax(107.07, 7)', { precision: 20 })).toBe('100.06542056074766355')
+    expect(evaluate('addtax(19.99)', { precision: 20, taxRate: 8.25 })).toBe('21.639175')
+  })
+
+  test('should report arguments outside the domain', () => {
+    expect(errorOf('sellmargin(80, 100)')).toBe('domain')
+    expect(errorOf('margin(80, 0)')).toBe('division-by-zero')
+    expect(errorOf('markup(0, 100)')).toBe('division-by-zero')
+    expect(errorOf('removetax(100, -100)')).toBe('domain')
+    expect(errorOf('split(100, 0)')).toBe('domain')
+  })
+})
@@ -0,0 +1,161 @@
+/**
+ * Unit Tests for Numeric Calculus
+ * Covers integration, differentiation, limits, roots and extrema with their convergence status
+ * and error estimates, directly and as expression functions
+ */
+
+import {
+  differentiate,
+  findRoot,
+  formatEstimate,
+  integrate,
+  limit,
+  maximize,
+  minimize,
+  solveBracketed,
+} from '@/utils/calculus'
+import { tryEvaluateExpression } from '@/utils/expression-evaluator'
+import { EvaluationContext } from '@/types/expression'
+
+const evaluate = (expression: string, context: Partial<EvaluationContext> = {}): number => {
+  const result = tryEvaluateExpression(expression, { angleMode: 'rad', ...context })
+  if (!result.ok) throw new Error(`'${expression}' failed: ${result.error.message}`)
+  return result.value
+}
+
+const errorOf = (expression: string) => {
+  const result = tryEvaluateExpression(expression, { angleMode: 'rad' })
+  return result.ok ? null : result.error.code
+}
+
+describe('integration', () => {
+  test('should integrate smooth functions', () => {
+    const square = integrate(x => x * x, 0, 1)
+    expect(square.converged).toBe(true)
+    expect(square.value).toBeCloseTo(1 / 3, 15)
+    expect(integrate(Math.sin, 0, Math.PI).value).toBeCloseTo(2, 14)
+    expect(integrate(x => Math.exp(-x * x), -6, 6).value).toBeCloseTo(Math.sqrt(Math.PI), 13)
+    expect(integrate(x => x, 1, 0).value).toBeCloseTo(-0.5, 15)
+  })
+
+  test('should integrate singularities at the ends of the interval', () => {
+    const result = integrate(x => 1 / Math.sqrt(x), 0, 1)
+    expect(result.converged).toBe(true)
+    expect(result.value).toBeCloseTo(2, 8)
+    expect(result.error).toBeLessThan(1e-8)
+  })
+
+  test('should not converge across a pole', () => {
+    const result = integrate(x => 1 / x, -1, 1)
+    expect(result.converged).toBe(false)
+  })
+})
+
+describe('derivatives and limits', () => {
+  test('should differentiate smooth functions', () => {
+    const result = differentiate(Math.sin, 1)
+    expect(result.converged).toBe(true)
+    expect(result.value).toBeCloseTo(Math.cos(1), 12)
+    expect(differentiate(x => x ** 3, 2).value).toBeCloseTo(12, 10)
+    expect(differentiate(Math.exp, 0).error).toBeLessThan(1e-9)
+  })
+
+  test('should not converge at a corner', () => {
+    expect(differentiate(Math.abs, 0).converged).toBe(false)
+  })
+
+  test('should extrapolate limits without sampling the point', () => {
+    const sinc = (x: number) => Math.sin(x) / x
+    expect(limit(sinc, 0, 0).value).toBeCloseTo(1, 12)
+    expect(limit(x => (Math.exp(x) - 1) / x, 0, 1).value).toBeCloseTo(1, 10)
+    expect(limit(Math.sign, 0, 1).value).toBeCloseTo(1, 12)
+    expect(limit(Math.sign, 0, -1).value).toBeCloseTo(-1, 12)
+    expect(limit(Math.sign, 0, 0).converged).toBe(false)
+  })
+})
+
+describe('roots and extrema', () => {
+  test('should find roots from a guess or a bracket', () => {
+    expect(findRoot(Math.cos, 1).value).toBeCloseTo(Math.PI / 2, 14)
+    expect(findRoot(x => x * x - 2, 1).value).toBeCloseTo(Math.SQRT2, 14)
+    expect(solveBracketed(x => x ** 3 - x - 2, 1, 2).value).toBeCloseTo(1.5213797068045676, 14)
+    expect(findRoot(x => x * x + 1, 0.5).converged).toBe(false)
+  })
+
+  test('should locate the least and greatest values on an interval', () => {
+    const least = minimize(x => (x - 1) ** 2, -3, 4)
+    expect(least.converged).toBe(true)
+    expect(least.value).toBeCloseTo(1, 7)
+    expect(maximize(Math.sin, 0, 3).value).toBeCloseTo(Math.PI / 2, 7)
+    expect(minimize(x => x, 0, 1).value).toBeCloseTo(0, 7)
+  })
+
+  test('should format an estimate', () => {
+    expect(
+      formatEstimate({
+        method: 'deriv',
+        value: 1,
+        error: 3.14159e-9,
+        converged: true,
+        evaluations: 12,
+      })
+    ).toBe('deriv ± 3.1e-9')
+  })
+})
+
+describe('calculus expression functions', () => {
+  test('should evaluate expressions in x and named functions', () => {
+    expect(evaluate('integrate(x^2, 0, 3)')).toBeCloseTo(9, 12)
+    expect(evaluate('integrate(sin, 0, pi)')).toBeCloseTo(2, 13)
+    expect(evaluate('deriv(sin, 0)')).toBeCloseTo(1, 12)
+    expect(evaluate('deriv(x^3, 2)')).toBeCloseTo(12, 9)
+    expect(evaluate('root(cos(x), 1)')).toBeCloseTo(Math.PI / 2, 14)
+    expect(evaluate('solve(x^2 - 2, 0, 2)')).toBeCloseTo(Math.SQRT2, 14)
+    expect(evaluate('solve(6, 3)')).toBe(0.5)
+    expect(evaluate('fmin((x - 1)^2, -3, 4)')).toBeCloseTo(1, 7)
+    expect(evaluate('fmax(sin(x), 0, 3)')).toBeCloseTo(Math.PI / 2, 7)
+  })
+
+  test('should name the variable of a limit with an arrow', () => {
+    expect(evaluate('limit(sin(t)/t, t→0)')).toBeCloseTo(1, 12)
+    expect(evaluate('limit(sin(x)/x, x->0)')).toBeCloseTo(1, 12)
+    expect(evaluate('limit((1 + x)^(1/x), 0)')).toBeCloseTo(Math.E, 8)
+    expect(evaluate('limit(abs(x)/x, x→0, -1)')).toBeCloseTo(-1, 12)
+  })
+
+  test('should use variables and user functions of the context', () => {
+    const context: Partial<EvaluationContext> = {
+      variables: { k: '3' },
+      functions: { f: { name: 'f', params: ['u'], body: 'u^2 + 1' } },
+    }
+    expect(evaluate('integrate(k*x, 0, 2)', context)).toBeCloseTo(6, 13)
+    expect(evaluate('deriv(f, 2)', context)).toBeCloseTo(4, 10)
+    expect(evaluate('2 * integrate(f, 0, 1)', context)).toBeCloseTo(8 / 3, 13)
+  })
+
+  test('should report the estimates with the result', () => {
+    const result = tryEvaluateExpression('integrate(x^2, 0, 1) + deriv(x^2, 1)', {
+      angleMode: 'rad',
+    })
+    if (!result.ok) throw new Error(result.error.message)
+    expect(result.estimates?.map(({ method }) => method)).toEqual(['integrate', 'deriv'])
+    expect(result.estimates?.every(({ converged }) => converged)).toBe(true)
+    const plain = tryEvaluateExpression('1 + 2', { angleMode: 'rad' })
+    expect(plain.ok && plain.estimates).toBeUndefined()
+  })
+
+  test('should evaluate in floating point and return in the caller arithmetic', () => {
+    expect(evaluate('integrate(x, 0, 1)', { precision: 20 })).toBe(0.5)
+    expect(evaluate('root(x - 2, 0)', { fractions: true })).toBe(2)
+  })
+
+  test('should report calls that do not converge or are malformed', () => {
+    expect(errorOf('integrate(1/x, -1, 1)')).toBe('convergence')
+    expect(errorOf('deriv(abs(x), 0)')).toBe('convergence')
+    expect(errorOf('root(x^2 + 1, 0.5)')).toBe('convergence')
+    expect(errorOf('solve(x^2 + 1, 0, 2)')).toBe('domain')
+    expect(errorOf('limit(x, x→0, 2)')).toBe('domain')
+    expect(errorOf('integrate(x, 0)')).toBe('syntax')
+    expect(errorOf('sin(x→0)')).toBe('syntax')
+  })
+})
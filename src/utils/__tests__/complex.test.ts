@@ -0,0 +1,134 @@
+/**
+ * Unit Tests for Complex Arithmetic
+ * Covers the Complex type and complex-mode evaluation
+ */
+
+import { Complex } from '@/utils/complex'
+import { tryEvaluateExpression } from '@/utils/expression-evaluator'
+
+/**
+ * Evaluate in complex mode and return the result text, failing the test on errors
+ */
+const complex = (source: string, angleMode: 'rad' | 'deg' = 'rad') => {
+  const result = tryEvaluateExpression(source, { angleMode, complex: true })
+  if (!result.ok) throw new Error(`'${source}' failed: ${result.error.message}`)
+  return result.text
+}
+
+/**
+ * Parse complex result text for approximate comparisons
+ */
+const value = (source: string, angleMode: 'rad' | 'deg' = 'rad') =>
+  Complex.parse(complex(source, angleMode))
+
+describe('Complex', () => {
+  test('should parse and print rectangular text', () => {
+    expect(Complex.parse('3+4i').toString()).toBe('3+4i')
+    expect(Complex.parse('1-i').toString()).toBe('1-i')
+    expect(Complex.parse('-2.5i').toString()).toBe('-2.5i')
+    expect(Complex.parse('1e-7-2e+3i')).toEqual(new Complex(1e-7, -2000))
+    expect(Complex.parse('-4')).toEqual(new Complex(-4))
+    expect(() => Complex.parse('3+')).toThrow(SyntaxError)
+  })
+
+  test('should multiply, divide and take powers', () => {
+    const z = new Complex(3, 4)
+    expect(z.multiply(z.conj()).toString()).toBe('25')
+    expect(z.divide(new Complex(0, 2)).toString()).toBe('2-1.5i')
+    expect(new Complex(1, 1).pow(new Complex(2)).toString()).toBe('2i')
+    expect(z.abs()).toBe(5)
+  })
+
+  test('should use principal branches', () => {
+    expect(new Complex(-4).sqrt().toString()).toBe('2i')
+    expect(new Complex(0, 2).sqrt().toString()).toBe('1+i')
+    expect(new Complex(-1).ln().toString()).toBe(`${Math.PI}i`)
+  })
+
+  test('should show polar text in the caller unit', () => {
+    const degrees = (radians: number) => (radians * 180) / Math.PI
+    expect(new Complex(0, -2).toPolarString(degrees)).toBe('2∠-90')
+    expect(new Complex(-1).toPolarString()).toBe(`1∠${Math.PI}`)
+  })
+})
+
+describe('complex-mode evaluation', () => {
+  test('should give complex values where real arithmetic has none', () => {
+    expect(complex('sqrt(-1)')).toBe('i')
+    expect(complex('ln(-1)')).toBe(`${Math.PI}i`)
+    expect(complex('(-8) ^ (1/3)')).toBe(new Complex(-8).pow(new Complex(1 / 3)).toString())
+    expect(complex('e ^ (i * pi)')).toBe('-1')
+    expect(value('asin(2)').re).toBeCloseTo(Math.PI / 2, 12)
+  })
+
+  test('should read imaginary literals and polar values', () => {
+    expect(complex('(3 + 4i) * (3 - 4i)')).toBe('25')
+    expect(complex('2i ^ 2')).toBe('-4')
+    expect(complex('10∠90 + 10∠-90', 'deg')).toBe('0')
+    expect(complex('2∠180', 'deg')).toBe('-2')
+    const phasor = value('1∠(pi / 4)')
+    expect(phasor.re).toBeCloseTo(Math.SQRT1_2, 15)
+    expect(phasor.im).toBeCloseTo(Math.SQRT1_2, 15)
+  })
+
+  test('should compute arg, conj, re and im in the angle mode', () => {
+    expect(complex('arg(1 + i)', 'deg')).toBe('45')
+    expect(complex('arg(-1)')).toBe(String(Math.PI))
+    expect(complex('conj(3 + 4i)')).toBe('3-4i')
+    expect(complex('re(3 - 4i) + im(3 - 4i)')).toBe('-1')
+    expect(complex('abs(3 + 4i)')).toBe('5')
+  })
+
+  test('should extend every keypad function to complex inputs', () => {
+    const z = '(1 + i)'
+    const functions = [
+      'sin',
+      'cos',
+      'tan',
+      'asin',
+      'acos',
+      'atan',
+      'log10',
+      'ln',
+      'exp',
+      'log2',
+      'sqrt',
+      'square',
+      'cube',
+      'reciprocal',
+      'abs',
+      'factorial',
+    ]
+    functions.forEach(name => {
+      const result = tryEvaluateExpression(`${name}${z}`, { angleMode: 'rad', complex: true })
+      expect(result.ok).toBe(true)
+    })
+    expect(value('sin(asin(2 + i))').re).toBeCloseTo(2, 12)
+    expect(value('exp(ln(3 - 2i))').im).toBeCloseTo(-2, 12)
+    expect(value('factorial(i)').re).toBeCloseTo(0.498015668118356, 12)
+    expect(complex('5!')).toBe('120')
+  })
+
+  test('should keep real results identical to float mode', () => {
+    expect(complex('0.1 + 0.2')).toBe('0.30000000000000004')
+    expect(complex('sin(30)', 'deg')).toBe(String(Math.sin(Math.PI / 6)))
+    expect(complex('2 ^ 0.5')).toBe(String(Math.SQRT2))
+  })
+
+  test('should report singularities and real-only functions', () => {
+    const codeOf = (source: string) => {
+      const result = tryEvaluateExpression(source, { angleMode: 'deg', complex: true })
+      return result.ok ? null : result.error.code
+    }
+    expect(codeOf('ln(0)')).toBe('domain')
+    expect(codeOf('1 / (i - i)')).toBe('division-by-zero')
+    expect(codeOf('reciprocal(0)')).toBe('division-by-zero')
+    expect(codeOf('atan(i)')).toBe('domain')
+    expect(codeOf('tan(90)')).toBe('domain')
+    expect(codeOf('(-2)!')).toBe('domain')
+    expect(codeOf('floor(1 + i)')).toBe('domain')
+    expect(codeOf('2i')).toBe(null)
+    const real = tryEvaluateExpression('2i', { angleMode: 'rad' })
+    expect(!real.ok && real.error.code).toBe('unknown-identifier')
+  })
+})
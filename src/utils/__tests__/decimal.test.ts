@@ -0,0 +1,162 @@
+/**
+ * Unit Tests for Arbitrary-Precision Decimal Arithmetic
+ * Covers the Decimal type, the decimal function library and decimal-mode evaluation
+ */
+
+import { Decimal } from '@/utils/decimal'
+import { decimalExp, decimalLn, decimalPi, decimalSqrt } from '@/utils/decimal-math'
+import { tryEvaluateExpression } from '@/utils/expression-evaluator'
+
+/**
+ * Evaluate in decimal mode and return the result text, failing the test on errors
+ */
+const decimal = (source: string, precision = 32, angleMode: 'rad' | 'deg' = 'rad') => {
+  const result = tryEvaluateExpression(source, { angleMode, precision })
+  if (!result.ok) throw new Error(`'${source}' failed: ${result.error.message}`)
+  return result.text
+}
+
+const PI_50 = '3.1415926535897932384626433832795028841971693993751'
+
+describe('Decimal', () => {
+  test('should parse and print without binary rounding', () => {
+    expect(Decimal.parse('0.1').add(Decimal.parse('0.2')).toString()).toBe('0.3')
+    expect(Decimal.parse('-12.500').toString()).toBe('-12.5')
+    expect(Decimal.parse('6.674e-11').toString()).toBe('6.674e-11')
+    expect(Decimal.parse('1e21').toString()).toBe('1e+21')
+    expect(Decimal.fromNumber(0.1).toString()).toBe('0.1')
+  })
+
+  test('should reject malformed text', () => {
+    expect(() => Decimal.parse('1.2.3')).toThrow(SyntaxError)
+    expect(() => Decimal.parse('.')).toThrow(SyntaxError)
+  })
+
+  test('should round to significant digits, halves away from zero', () => {
+    expect(Decimal.parse('2.345').round(3).toString()).toBe('2.35')
+    expect(Decimal.parse('-2.345').round(3).toString()).toBe('-2.35')
+    expect(Decimal.parse('999.96').round(4).toString()).toBe('1000')
+  })
+
+  test('should divide with correct rounding', () => {
+    expect(Decimal.ONE.divide(new Decimal(3n), 10).toString()).toBe('0.3333333333')
+    expect(new Decimal(2n).divide(new Decimal(3n), 10).toString()).toBe('0.6666666667')
+    expect(() => Decimal.ONE.divide(Decimal.ZERO, 10)).toThrow(RangeError)
+  })
+
+  test('should floor, ceil and compare', () => {
+    expect(Decimal.parse('-2.5').floor().toString()).toBe('-3')
+    expect(Decimal.parse('2.1').ceil().toString()).toBe('3')
+    expect(Decimal.parse('0.1').compare(Decimal.parse('0.09'))).toBe(1)
+    expect(Decimal.parse('-5').compare(Decimal.parse('-40'))).toBe(1)
+  })
+})
+
+describe('decimal functions', () => {
+  test('should compute constants to the requested digits', () => {
+    expect(decimalPi(50).toString()).toBe(PI_50.slice(0, 51))
+    expect(decimalExp(Decimal.ONE, 30).toString()).toBe('2.71828182845904523536028747135')
+  })
+
+  test('should compute roots and logarithms', () => {
+    expect(decimalSqrt(new Decimal(2n), 40).toString()).toBe(
+      '1.41421356237309504880168872420969807857'
+    )
+    expect(decimalSqrt(Decimal.parse('0.0144'), 20).toString()).toBe('0.12')
+    expect(decimalLn(new Decimal(10n), 30).toString()).toBe('2.30258509299404568401799145468')
+  })
+})
+
+describe('decimal-mode evaluation', () => {
+  test('should keep decimal fractions exact', () => {
+    expect(decimal('0.1 + 0.2')).toBe('0.3')
+    expect(decimal('1.1 * 1.1')).toBe('1.21')
+    expect(decimal('0.3 - 0.1')).toBe('0.2')
+  })
+
+  test('should round to the configured significant digits', () => {
+    expect(decimal('1 / 3')).toBe('0.33333333333333333333333333333333')
+    expect(decimal('1 / 3', 5)).toBe('0.33333')
+    expect(decimal('2 / 3', 5)).toBe('0.66667')
+  })
+
+  test('should compute large integers exactly', () => {
+    expect(decimal('25!')).toBe('1.5511210043330985984e+25')
+    expect(decimal('factorial(25)')).toBe(decimal('25!'))
+    expect(decimal('2^100')).toBe('1.267650600228229401496703205376e+30')
+    expect(decimal('9007199254740993 + 0')).toBe('9007199254740993')
+  })
+
+  test('should evaluate constants and transcendental functions', () => {
+    expect(decimal('pi', 50)).toBe(PI_50.slice(0, 51))
+    expect(decimal('sqrt(16)')).toBe('4')
+    expect(decimal('ln(e)')).toBe('1')
+    expect(decimal('log(1000)')).toBe('3')
+    expect(decimal('exp(1)', 20)).toBe('2.7182818284590452354')
+    expect(decimal('2 ^ 0.5', 20)).toBe('1.4142135623730950488')
+    expect(decimal('nroot(-27, 3)')).toBe('-3')
+  })
+
+  test('should honour the angle mode', () => {
+    expect(decimal('sin(30)', 32, 'deg')).toBe('0.5')
+    expect(decimal('cos(180)', 32, 'deg')).toBe('-1')
+    expect(decimal('sin(360)', 32, 'deg')).toBe('0')
+    expect(decimal('asin(0.5)', 32, 'deg')).toBe('30')
+    expect(decimal('sin(pi / 6)')).toBe('0.5')
+    expect(decimal('tan(pi / 4)', 20)).toBe('1')
+  })
+
+  test('should report the same errors as floating-point evaluation', () => {
+    const codeOf = (source: string) => {
+      const result = tryEvaluateExpression(source, { angleMode: 'rad', precision: 20 })
+      return result.ok ? null : result.error.code
+    }
+    expect(codeOf('1 / 0')).toBe('division-by-zero')
+    expect(codeOf('sqrt(-1)')).toBe('domain')
+    expect(codeOf('(-8) ^ 0.5')).toBe('domain')
+    expect(codeOf('(-3)!')).toBe('domain')
+    expect(codeOf('foo')).toBe('unknown-identifier')
+    expect(codeOf('exp(1e20)')).toBe('overflow')
+    expect(codeOf('(1e100000000)!')).toBe('overflow')
+    expect(codeOf('isprime(1e100000000)')).toBe('overflow')
+    expect(codeOf('powmod(2, 3, 1e100000000)')).toBe('overflow')
+    expect(codeOf('invmod(3, 1e100000000)')).toBe('overflow')
+    expect(codeOf('and(1e100000000, 1)')).toBe('overflow')
+  })
+
+  test('should check domains on the decimal values beyond double range and precision', () => {
+    expect(decimal('ln(1e-500)', 20)).toBe('-1151.292546497022842')
+    expect(decimal('log(1e-400)', 20)).toBe('-400')
+    expect(decimal('atanh(0.99999999999999999999)', 20)).toBe('23.372424520220429495')
+    expect(decimal('gcd(10^400, 10^200)', 20)).toBe('1e+200')
+    const messageOf = (source: string) => {
+      const result = tryEvaluateExpression(source, { angleMode: 'rad', precision: 30 })
+      return result.ok ? null : result.error.message
+    }
+    expect(messageOf('sqrt(-1e-400)')).toBe('sqrt is only defined for inputs ≥ 0')
+    expect(messageOf('asin(1.00000000000000000001)')).toBe(
+      'asin is only defined for inputs between -1 and 1'
+    )
+    expect(messageOf('ln(-1e-500)')).toBe('ln is only defined for positive inputs')
+    expect(messageOf('gcd(10^25 + 0.5, 2)')).toBe('gcd is only defined for integers')
+  })
+
+  test('should mark results computed in double precision and keep only their digits', () => {
+    expect(decimal('gamma(0.5)')).toBe('≈1.77245385090552')
+    expect(decimal('0.5!')).toBe('≈0.886226925452759')
+    expect(decimal('erf(1)')).toBe('≈0.842700792949715')
+    expect(decimal('normcdf(1)')).toBe('≈0.841344746068543')
+    expect(decimal('gamma(0.5)^2 + 1')).toBe('≈4.14159265358981')
+    expect(decimal('gamma(0.5)', 8)).toBe('≈1.7724539')
+    expect(decimal('≈1.4142135623730951 * 2')).toBe('≈2.8284271247462')
+    expect(decimal('integrate(x, 0, 1)')).toBe('≈0.5')
+    expect(decimal('20!')).toBe('2432902008176640000')
+    expect(decimal('npv(10, -100, 60, 60)')).toBe('4.1322314049586776859504132231405')
+    expect(decimal('pctchange(3, 4)')).toBe('33.333333333333333333333333333333')
+  })
+
+  test('should leave floating-point evaluation unchanged without a precision', () => {
+    const result = tryEvaluateExpression('0.1 + 0.2', { angleMode: 'rad' })
+    expect(result.ok && result.text).toBe('0.30000000000000004')
+  })
+})
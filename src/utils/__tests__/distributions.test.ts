@@ -0,0 +1,213 @@
+/**
+ * Unit Tests for Probability Distributions
+ * Covers the densities, distribution functions and inverses of every distribution, the seeded
+ * random generator and sampling, directly and as expression functions
+ */
+
+import {
+  distributions,
+  distributionsByName,
+  inverseCdf,
+  sampleDistribution,
+} from '@/utils/distributions'
+import { tryEvaluateExpression } from '@/utils/expression-evaluator'
+import { RandomGenerator, randomInteger, seedState } from '@/utils/random'
+import { EvaluationContext } from '@/types/expression'
+
+const evaluate = (expression: string, context: Partial<EvaluationContext> = {}): number => {
+  const result = tryEvaluateExpression(expression, { angleMode: 'rad', ...context })
+  if (!result.ok) throw new Error(`'${expression}' failed: ${result.error.message}`)
+  return result.value
+}
+
+const errorOf = (expression: string) => {
+  const result = tryEvaluateExpression(expression, { angleMode: 'rad' })
+  return result.ok ? null : result.error.code
+}
+
+const { norm, t, chi2, f, binom, poisson, geom, unif, exp } = distributionsByName
+
+describe('continuous distributions', () => {
+  test('should compute the normal distribution', () => {
+    expect(norm.density(0, [0, 1])).toBeCloseTo(1 / Math.sqrt(2 * Math.PI), 16)
+    expect(norm.density(12, [10, 2])).toBeCloseTo(norm.density(1, [0, 1]) / 2, 16)
+    expect(norm.cdf(1.96, [0, 1])).toBeCloseTo(0.9750021048517795, 15)
+    expect(norm.cdf(-40, [0, 1])).toBe(0)
+    expect(inverseCdf(norm, 0.975, [0, 1])).toBeCloseTo(1.959963984540054, 13)
+    expect(inverseCdf(norm, 0.5, [100, 15])).toBeCloseTo(100, 12)
+  })
+
+  test('should reduce Student t to its closed forms', () => {
+    // One degree of freedom is the Cauchy distribution and two have an algebraic cdf
+    ;[-3, 0.4, 25].forEach(x => {
+      expect(t.cdf(x, [1])).toBeCloseTo(0.5 + Math.atan(x) / Math.PI, 14)
+      expect(t.cdf(x, [2])).toBeCloseTo(0.5 + x / (2 * Math.sqrt(2 + x * x)), 14)
+      expect(t.density(x, [1])).toBeCloseTo(1 / (Math.PI * (1 + x * x)), 14)
+    })
+    expect(t.cdf(0, [7])).toBe(0.5)
+    expect(t.cdf(1.5, [1e6])).toBeCloseTo(norm.cdf(1.5, [0, 1]), 6)
+  })
+
+  test('should relate chi-square and F to their neighbours', () => {
+    ;[0.5, 3.8, 12].forEach(x => {
+      // Two degrees of freedom are the exponential distribution with rate 1/2
+      expect(chi2.cdf(x, [2])).toBeCloseTo(exp.cdf(x, [0.5]), 15)
+      expect(chi2.cdf(x, [1])).toBeCloseTo(2 * norm.cdf(Math.sqrt(x), [0, 1]) - 1, 14)
+      expect(f.cdf(x, [1, 6])).toBeCloseTo(2 * t.cdf(Math.sqrt(x), [6]) - 1, 14)
+    })
+    expect(chi2.density(0, [1])).toBe(Infinity)
+    expect(chi2.density(0, [2])).toBe(0.5)
+    expect(f.density(-1, [3, 20])).toBe(0)
+  })
+
+  test('should compute the uniform and exponential distributions', () => {
+    expect(unif.density(0.3, [0, 2])).toBe(0.5)
+    expect(unif.cdf(3, [0, 2])).toBe(1)
+    expect(inverseCdf(unif, 0.25, [-1, 1])).toBe(-0.5)
+    expect(exp.density(2, [0.5])).toBeCloseTo(0.5 * Math.exp(-1), 16)
+    expect(inverseCdf(exp, 0.5, [2])).toBeCloseTo(Math.LN2 / 2, 16)
+  })
+
+  test('should invert every continuous cdf', () => {
+    const cases: [string, number[]][] = [
+      ['norm', [3, 0.5]],
+      ['t', [4]],
+      ['chi2', [3]],
+      ['f', [3, 20]],
+      ['unif', [2, 5]],
+      ['exp', [3]],
+    ]
+    cases.forEach(([name, params]) => {
+      const distribution = distributionsByName[name]
+      ;[1e-6, 0.05, 0.5, 0.975].forEach(p => {
+        const x = inverseCdf(distribution, p, params)
+        expect(distribution.cdf(x, params)).toBeCloseTo(p, 13)
+      })
+    })
+  })
+})
+
+describe('discrete distributions', () => {
+  test('should compute the binomial distribution', () => {
+    expect(binom.density(5, [10, 0.5])).toBeCloseTo(252 / 1024, 15)
+    expect(binom.density(2.5, [10, 0.5])).toBe(0)
+    expect(binom.cdf(3, [10, 0.5])).toBeCloseTo(176 / 1024, 15)
+    expect(binom.cdf(3.7, [10, 0.5])).toBe(binom.cdf(3, [10, 0.5]))
+    expect(binom.density(0, [4, 0])).toBe(1)
+    expect(binom.cdf(2, [4, 1])).toBe(0)
+  })
+
+  test('should compute the Poisson and geometric distributions', () => {
+    expect(poisson.density(2, [4])).toBeCloseTo(8 * Math.exp(-4), 15)
+    expect(poisson.cdf(2, [4])).toBeCloseTo(13 * Math.exp(-4), 15)
+    expect(poisson.cdf(-1, [4])).toBe(0)
+    expect(geom.density(3, [0.2])).toBeCloseTo(0.8 * 0.8 * 0.2, 15)
+    expect(geom.cdf(3, [0.2])).toBeCloseTo(1 - 0.8 ** 3, 15)
+    expect(geom.cdf(0, [0.2])).toBe(0)
+  })
+
+  test('should invert to the smallest value reaching the probability', () => {
+    expect(inverseCdf(binom, 176 / 1024, [10, 0.5])).toBe(3)
+    expect(inverseCdf(binom, 0.95, [10, 0.5])).toBe(8)
+    expect(inverseCdf(binom, 0.5, [10, 0])).toBe(0)
+    expect(inverseCdf(poisson, 0.95, [4])).toBe(8)
+    expect(inverseCdf(poisson, 0.5, [1000])).toBe(1000)
+    expect(inverseCdf(geom, 0.95, [0.2])).toBe(14)
+    expect(inverseCdf(geom, 0.5, [1])).toBe(1)
+  })
+
+  test('should sum the probability masses to the cdf', () => {
+    ;[binom, poisson, geom].forEach(distribution => {
+      const params = distribution === binom ? [12, 0.3] : distribution === poisson ? [3.5] : [0.4]
+      let total = 0
+      for (let k = 0; k <= 8; k++) {
+        total += distribution.density(k, params)
+        expect(distribution.cdf(k, params)).toBeCloseTo(total, 13)
+      }
+    })
+  })
+})
+
+describe('random numbers', () => {
+  test('should repeat the same draws from the same seed', () => {
+    const first = new RandomGenerator(seedState(42))
+    const second = new RandomGenerator(seedState(42))
+    const draws = Array.from({ length: 5 }, () => first.next())
+    expect(Array.from({ length: 5 }, () => second.next())).toEqual(draws)
+    expect(new RandomGenerator(first.state).next()).toBe(second.next())
+    expect(new RandomGenerator(seedState(43)).next()).not.toBe(draws[0])
+    expect(seedState(-1)).toBe(2 ** 32 - 1)
+  })
+
+  test('should draw uniformly from [0, 1) and whole numbers from a range', () => {
+    const random = new RandomGenerator(seedState(7))
+    const draws = Array.from({ length: 20000 }, () => random.next())
+    expect(Math.min(...draws)).toBeGreaterThanOrEqual(0)
+    expect(Math.max(...draws)).toBeLessThan(1)
+    expect(draws.reduce((a, b) => a + b) / draws.length).toBeCloseTo(0.5, 2)
+    const dice = new Set(Array.from({ length: 200 }, () => randomInteger(random, 1, 6)))
+    expect([...dice].sort()).toEqual([1, 2, 3, 4, 5, 6])
+  })
+
+  test('should sample every distribution by inversion', () => {
+    const random = new RandomGenerator(seedState(2024))
+    const normal = Array.from({ length: 4000 }, () => sampleDistribution(norm, [10, 2], random))
+    expect(normal.reduce((a, b) => a + b) / normal.length).toBeCloseTo(10, 1)
+    const counts = Array.from({ length: 4000 }, () => sampleDistribution(poisson, [3], random))
+    expect(counts.every(Number.isInteger)).toBe(true)
+    expect(counts.reduce((a, b) => a + b) / counts.length).toBeCloseTo(3, 1)
+    distributions.forEach(distribution => {
+      const params = distribution.parameters.map(({ defaultValue }) => defaultValue ?? 4)
+      if (distribution === binom || distribution === geom) params[params.length - 1] = 0.5
+      const [lower, upper] = distribution.support(params)
+      const draw = sampleDistribution(distribution, params, random)
+      expect(draw >= lower && draw <= upper).toBe(true)
+    })
+  })
+})
+
+describe('probability expression functions', () => {
+  test('should evaluate the distribution functions', () => {
+    expect(evaluate('normcdf(1.96)')).toBeCloseTo(0.9750021048517795, 15)
+    expect(evaluate('normcdf(130, 100, 15)')).toBeCloseTo(evaluate('normcdf(2)'), 15)
+    expect(evaluate('norminv(0.95)')).toBeCloseTo(1.6448536269514722, 13)
+    expect(evaluate('tcdf(-1, 1)')).toBeCloseTo(0.25, 15)
+    expect(evaluate('chi2inv(0.95, 2)')).toBeCloseTo(-2 * Math.log(0.05), 13)
+    expect(evaluate('binompmf(5, 10, 0.5)')).toBeCloseTo(252 / 1024, 15)
+    expect(evaluate('poissoninv(0.95, 4)')).toBe(8)
+    expect(evaluate('geomcdf(3, 0.2)')).toBeCloseTo(0.488, 15)
+    expect(evaluate('unifpdf(0.5)')).toBe(1)
+    expect(evaluate('expinv(0.5)')).toBeCloseTo(Math.LN2, 15)
+    expect(evaluate('fpdf(1, 2, 2)')).toBeCloseTo(0.25, 15)
+  })
+
+  test('should compute in decimal arithmetic', () => {
+    expect(evaluate('binomcdf(3, 10, 0.5)', { precision: 12 })).toBe(0.171875)
+    expect(evaluate('normcdf(0)', { precision: 20 })).toBe(0.5)
+  })
+
+  test('should draw reproducibly from a seeded generator', () => {
+    const context = () => ({ random: new RandomGenerator(seedState(42)) })
+    const draws = ['rand()', 'randint(1, 6)', 'normrand(100, 15)', 'binomrand(10, 0.5)']
+    const first = draws.map(expression => evaluate(expression, context()))
+    expect(draws.map(expression => evaluate(expression, context()))).toEqual(first)
+    expect(evaluate('rand()', { ...context(), precision: 20 })).toBe(first[0])
+    const shared = context()
+    expect(evaluate('rand() - rand()', shared)).not.toBe(0)
+    expect(Number.isInteger(first[1]) && first[1] >= 1 && first[1] <= 6).toBe(true)
+  })
+
+  test('should report arguments outside the domain', () => {
+    expect(errorOf('norminv(1)')).toBe('domain')
+    expect(errorOf('normpdf(0, 0, 0)')).toBe('domain')
+    expect(errorOf('tcdf(1, -2)')).toBe('domain')
+    expect(errorOf('binompmf(1, 2.5, 0.5)')).toBe('domain')
+    expect(errorOf('geomcdf(1, 0)')).toBe('domain')
+    expect(errorOf('unifcdf(0.5, 2, 1)')).toBe('domain')
+    expect(errorOf('poissonrand(0)')).toBe('domain')
+    expect(errorOf('randint(3, 1)')).toBe('domain')
+    expect(errorOf('randint(1.5, 3)')).toBe('domain')
+    expect(errorOf('tcdf(1)')).toBe('syntax')
+    expect(errorOf('rand(1)')).toBe('syntax')
+  })
+})
@@ -0,0 +1,260 @@
+/**
+ * Unit Tests for the Expression Engine
+ * Covers tokenizer, parser precedence/associativity, AST evaluation, and error reporting
+ */
+
+import { tokenize } from '@/utils/expression-tokenizer'
+import { parseExpression } from '@/utils/expression-parser'
+import {
+  completionNames,
+  evaluateExpression,
+  tryEvaluateExpression,
+} from '@/utils/expression-evaluator'
+import { getCompletions } from '@/utils/expression-editor'
+import { evaluateOperation, safeEvaluate } from '@/utils/calculator-math'
+
+/**
+ * Evaluate and return the error, failing the test if evaluation succeeds
+ */
+const errorOf = (source: string, angleMode: 'rad' | 'deg' = 'rad') => {
+  const result = tryEvaluateExpression(source, { angleMode })
+  if (result.ok) throw new Error(`Expected '${source}' to fail`)
+  return result.error
+}
+
+describe('tokenize', () => {
+  test('should produce typed tokens with source positions', () => {
+    const tokens = tokenize('sin(2.5e-3) + π')
+    expect(tokens.map(t => t.type)).toEqual([
+      'identifier',
+      'leftParen',
+      'number',
+      'rightParen',
+      'operator',
+      'identifier',
+      'eof',
+    ])
+    expect(tokens[2]).toMatchObject({ text: '2.5e-3', start: 4, end: 10 })
+  })
+
+  test('should normalize typographic operators', () => {
+    expect(tokenize('2×3÷4−1').map(t => t.text)).toEqual(['2', '*', '3', '/', '4', '-', '1', ''])
+  })
+
+  test('should not swallow the constant e after a number', () => {
+    expect(tokenize('2e').map(t => t.text)).toEqual(['2', 'e', ''])
+  })
+
+  test('should reject unknown characters', () => {
+    expect(() => tokenize('2 $ 3')).toThrow()
+  })
+})
+
+describe('parseExpression', () => {
+  test('should respect multiplicative precedence over additive', () => {
+    const ast = parseExpression('2 + 3 * 4')
+    expect(ast).toMatchObject({
+      type: 'binary',
+      operator: '+',
+      right: { type: 'binary', operator: '*' },
+    })
+  })
+
+  test('should treat ^ as right-associative', () => {
+    const ast = parseExpression('2^3^2')
+    expect(ast).toMatchObject({
+      operator: '^',
+      left: { type: 'number', value: 2 },
+      right: { type: 'binary', operator: '^' },
+    })
+  })
+
+  test('should bind unary minus looser than exponentiation', () => {
+    expect(parseExpression('-2^2')).toMatchObject({
+      type: 'unary',
+      operand: { type: 'binary', operator: '^' },
+    })
+  })
+
+  test('should parse function calls with multiple arguments', () => {
+    expect(parseExpression('max(1, 2, 3)')).toMatchObject({
+      type: 'call',
+      callee: 'max',
+      args: [{ value: 1 }, { value: 2 }, { value: 3 }],
+    })
+  })
+
+  test('should record node source ranges', () => {
+    expect(parseExpression('1 + sqrt(4)')).toMatchObject({
+      start: 0,
+      end: 11,
+      right: { start: 4, end: 11 },
+    })
+  })
+
+  test('should read juxtaposition as multiplication', () => {
+    expect(parseExpression('2x')).toMatchObject({
+      operator: '*',
+      left: { value: 2 },
+      right: { type: 'identifier', name: 'x' },
+    })
+    expect(evaluateExpression('2(3 + 4)')).toBe(14)
+    expect(evaluateExpression('(1 + 1)(2 + 3)')).toBe(10)
+    expect(evaluateExpression('2pi')).toBeCloseTo(2 * Math.PI, 15)
+    expect(evaluateExpression('3√4')).toBe(6)
+    expect(evaluateExpression('2 pi ^ 2')).toBeCloseTo(2 * Math.PI ** 2, 12)
+  })
+
+  test('should read an arrow argument as the point of a limit', () => {
+    const point = {
+      type: 'call',
+      callee: '→',
+      args: [
+        { type: 'identifier', name: 't' },
+        { type: 'number', value: 0 },
+      ],
+    }
+    expect(parseExpression('limit(sin(t)/t, t→0)')).toMatchObject({
+      type: 'call',
+      callee: 'limit',
+      args: [{ type: 'binary', operator: '/' }, point],
+    })
+    expect(parseExpression('limit(t, t->0)')).toMatchObject({ args: [{}, point] })
+    expect(() => parseExpression('limit(t, 2→0)')).toThrow()
+  })
+
+  test('should reject malformed input', () => {
+    expect(() => parseExpression('2 +')).toThrow()
+    expect(() => parseExpression('(2 + 3')).toThrow()
+    expect(() => parseExpression('2 3')).toThrow()
+    expect(() => parseExpression('')).toThrow()
+  })
+})
+
+describe('evaluateExpression', () => {
+  test('should evaluate arithmetic with precedence', () => {
+    expect(evaluateExpression('2 + 3 * 4')).toBe(14)
+    expect(evaluateExpression('(2 + 3) * 4')).toBe(20)
+    expect(evaluateExpression('10 - 4 - 3')).toBe(3)
+    expect(evaluateExpression('2^3^2')).toBe(512)
+    expect(evaluateExpression('-2^2')).toBe(-4)
+    expect(evaluateExpression('2^-1')).toBe(0.5)
+  })
+
+  test('should evaluate postfix operators', () => {
+    expect(evaluateExpression('5!')).toBe(120)
+    expect(evaluateExpression('50%')).toBe(0.5)
+  })
+
+  test('should evaluate functions and constants', () => {
+    expect(evaluateExpression('exp(0)')).toBe(1)
+    expect(evaluateExpression('√16')).toBe(4)
+    expect(evaluateExpression('cos(π)')).toBeCloseTo(-1)
+  })
+
+  test('should honour the angle mode', () => {
+    expect(evaluateExpression('sin(90)', { angleMode: 'deg' })).toBeCloseTo(1)
+    expect(evaluateExpression('asin(1)', { angleMode: 'deg' })).toBeCloseTo(90)
+  })
+
+  test('should evaluate comparisons and a lazy if', () => {
+    expect(evaluateExpression('1 + 2 < 4')).toBe(1)
+    expect(evaluateExpression('3!=3')).toBe(0)
+    expect(evaluateExpression('2 ≥ 2')).toBe(1)
+    expect(evaluateExpression('if(1 > 2, 1 / 0, 5)')).toBe(5)
+  })
+
+  test('should call user-defined functions from the context', () => {
+    const functions = { hyp: { name: 'hyp', params: ['a', 'b'], body: 'sqrt(a^2 + b^2)' } }
+    expect(evaluateExpression('hyp(3, 4) * 2', { angleMode: 'rad', functions })).toBe(10)
+    expect(() => evaluateExpression('hyp(3)', { angleMode: 'rad', functions })).toThrow()
+  })
+
+  test('should complete user functions and variables along with the built-ins', () => {
+    const functions = { hyp: { name: 'hyp', params: ['a', 'b'], body: 'sqrt(a^2 + b^2)' } }
+    const names = completionNames({ functions, variables: { height: '2' } })
+    expect(names.functions).toContain('hyp')
+    expect(names.functions).toContain('integrate')
+    expect(names.values).toEqual(expect.arrayContaining(['pi', 'mu0', 'height']))
+    const all = [...names.functions, ...names.values]
+    expect(getCompletions('2 * hy', 6, all)).toEqual(['hyp'])
+    expect(getCompletions('hei', 3, all)).toEqual(['height'])
+    expect(getCompletions('hy', 2, completionNames().functions)).toEqual([])
+  })
+
+  test('should reject unknown names and wrong arity', () => {
+    expect(() => evaluateExpression('foo(1)')).toThrow()
+    expect(() => evaluateExpression('x + 1')).toThrow()
+    expect(() => evaluateExpression('sin(1, 2)')).toThrow()
+  })
+})
+
+describe('evaluation errors', () => {
+  test('should report syntax errors with the offending token', () => {
+    expect(errorOf('2 + * 3')).toMatchObject({ code: 'syntax', start: 4, end: 5 })
+    expect(errorOf('(2 + 3')).toMatchObject({ code: 'syntax', start: 0, end: 1 })
+    expect(errorOf('2 +')).toMatchObject({ code: 'syntax', start: 2, end: 3 })
+  })
+
+  test('should report domain errors on the argument', () => {
+    const error = errorOf('1 + asin(2)')
+    expect(error).toMatchObject({ code: 'domain', start: 9, end: 10, source: '1 + asin(2)' })
+    expect(error.message).toContain('between -1 and 1')
+    expect(errorOf('ln(0)').code).toBe('domain')
+    expect(errorOf('(-8)^0.5').code).toBe('domain')
+    expect(errorOf('tan(90)', 'deg').code).toBe('domain')
+    expect(errorOf('(-2)!').code).toBe('domain')
+  })
+
+  test('should report division by zero on the divisor', () => {
+    expect(errorOf('8 / (2 - 2)')).toMatchObject({ code: 'division-by-zero', start: 4, end: 11 })
+    expect(errorOf('reciprocal(0)').code).toBe('division-by-zero')
+  })
+
+  test('should report overflow', () => {
+    expect(errorOf('10^400').code).toBe('overflow')
+    expect(errorOf('exp(1000)').code).toBe('overflow')
+  })
+
+  test('should report unknown identifiers', () => {
+    expect(errorOf('2 * foo')).toMatchObject({ code: 'unknown-identifier', start: 4, end: 7 })
+    expect(errorOf('bar(1)')).toMatchObject({ code: 'unknown-identifier', start: 0, end: 3 })
+  })
+
+  test('should not read inherited object properties as names in any arithmetic', () => {
+    const contexts = [
+      {},
+      { precision: 20 },
+      { fractions: true },
+      { complex: true },
+      { word: { bits: 32, signed: true } as const },
+    ]
+    for (const context of contexts) {
+      for (const source of ['constructor', 'toString(1)', 'valueOf(2)', '__proto__ + 1']) {
+        const result = tryEvaluateExpression(source, {
+          angleMode: 'rad',
+          variables: {},
+          ...context,
+        })
+        expect(!result.ok && result.error.code).toBe('unknown-identifier')
+      }
+    }
+  })
+
+  test('should keep the keypad expression for operation errors', () => {
+    const result = evaluateOperation(8, 0, '/')
+    expect(result.ok).toBe(false)
+    expect(result.source).toBe('8 / 0')
+  })
+})
+
+describe('safeEvaluate', () => {
+  test('should return null instead of executing code', () => {
+    expect(safeEvaluate('alert(1)')).toBeNull()
+    expect(safeEvaluate('constructor.constructor("x")()')).toBeNull()
+  })
+
+  test('should return null for non-finite results', () => {
+    expect(safeEvaluate('1 / 0')).toBeNull()
+  })
+})
@@ -0,0 +1,259 @@
+/**
+ * Unit Tests for Finance
+ * Covers the time-value-of-money solver for each variable, payment timing and compounding,
+ * amortization schedules and their export, net present value, internal rate of return and the
+ * expression functions
+ */
+
+import { tryEvaluateExpression } from '@/utils/expression-evaluator'
+import {
+  amortizationCsv,
+  amortizationJson,
+  AmortizationSchedule,
+  amortizationSchedule,
+  internalRateOfReturn,
+  netPresentValue,
+  percentChange,
+  solveTvm,
+  TvmResult,
+  TvmSettings,
+  TvmValues,
+  TvmVariable,
+} from '@/utils/finance'
+
+const monthly: TvmSettings = { paymentsPerYear: 12, compoundingsPerYear: 12, timing: 'end' }
+
+/**
+ * A 30-year mortgage of 200000 at 6% with monthly payments
+ */
+const mortgage: TvmValues = { n: 360, iy: 6, pv: 200000, pmt: -1199.101050304, fv: 0 }
+
+const solved = (result: TvmResult): number => {
+  if (!result.ok) throw new Error(`Expected a solution: ${result.message}`)
+  return result.value
+}
+
+const messageOf = (result: TvmResult): string => {
+  if (result.ok) throw new Error('Expected the solver to fail')
+  return result.message
+}
+
+const evaluate = (expression: string): number => {
+  const result = tryEvaluateExpression(expression, { angleMode: 'rad' })
+  if (!result.ok) throw new Error(`'${expression}' failed: ${result.error.message}`)
+  return result.value
+}
+
+describe('solveTvm', () => {
+  const tolerances: [TvmVariable, number][] = [
+    ['n', 1e-6],
+    ['iy', 1e-8],
+    ['pv', 1e-4],
+    ['pmt', 1e-8],
+    ['fv', 1e-4],
+  ]
+  tolerances.forEach(([variable, tolerance]) => {
+    test(`should solve ${variable} from the other four`, () => {
+      const value = solved(solveTvm(variable, { ...mortgage, [variable]: NaN }, monthly))
+      expect(Math.abs(value - mortgage[variable])).toBeLessThan(tolerance)
+    })
+  })
+
+  test('should follow the cash-flow sign convention', () => {
+    // Saving 100 a year for 10 years at 5% grows to 1257.79
+    const fv = solved(solveTvm('fv', { n: 10, iy: 5, pv: 0, pmt: -100, fv: NaN }))
+    expect(fv).toBeCloseTo(1257.789, 3)
+  })
+
+  test('should pay at the beginning of periods', () => {
+    const begin = solved(
+      solveTvm(
+        'fv',
+        { n: 10, iy: 5, pv: 0, pmt: -100, fv: NaN },
+        { ...monthly, timing: 'begin', paymentsPerYear: 1, compoundingsPerYear: 1 }
+      )
+    )
+    expect(begin).toBeCloseTo(1257.789 * 1.05, 3)
+  })
+
+  test('should convert between compounding and payment frequencies', () => {
+    // 12% compounded monthly, paid annually: one period grows by 1.01^12
+    const fv = solved(
+      solveTvm(
+        'fv',
+        { n: 1, iy: 12, pv: -100, pmt: 0, fv: NaN },
+        { paymentsPerYear: 1, compoundingsPerYear: 12, timing: 'end' }
+      )
+    )
+    expect(fv).toBeCloseTo(100 * 1.01 ** 12, 10)
+  })
+
+  test('should solve without interest', () => {
+    expect(solved(solveTvm('n', { n: NaN, iy: 0, pv: 1000, pmt: -100, fv: 0 }))).toBe(10)
+    expect(solved(solveTvm('iy', { n: 10, iy: NaN, pv: 1000, pmt: -100, fv: 0 }))).toBe(0)
+  })
+
+  test('should report cash flows that cannot balance', () => {
+    expect(messageOf(solveTvm('iy', { n: 10, iy: NaN, pv: 100, pmt: 10, fv: 0 }))).toMatch(
+      /both signs/
+    )
+    expect(messageOf(solveTvm('n', { n: NaN, iy: 5, pv: 100, pmt: -1, fv: 0 }))).toMatch(/periods/)
+    expect(messageOf(solveTvm('pmt', { n: 0, iy: 5, pv: 100, pmt: NaN, fv: 0 }))).toMatch(/periods/)
+    expect(messageOf(solveTvm('fv', { ...mortgage, pv: Infinity }))).toMatch(/finite/)
+    expect(messageOf(solveTvm('fv', mortgage, { ...monthly, paymentsPerYear: 0 }))).toMatch(
+      /positive/
+    )
+  })
+})
+
+const scheduleOf = (values: TvmValues, settings?: TvmSettings, extra?: number) => {
+  const result = amortizationSchedule(values, settings, extra)
+  if (!result.ok) throw new Error(`Expected a schedule: ${result.message}`)
+  return result.schedule
+}
+
+describe('amortizationSchedule', () => {
+  const loan: TvmValues = {
+    n: 3,
+    iy: 10,
+    pv: 1000,
+    pmt: solved(solveTvm('pmt', { n: 3, iy: 10, pv: 1000, pmt: NaN, fv: 0 })),
+    fv: 0,
+  }
+
+  test('should split each payment into interest and principal', () => {
+    const { rows, totals } = scheduleOf(loan)
+    expect(rows).toHaveLength(3)
+    expect(rows[0].interest).toBeCloseTo(-100, 10)
+    expect(rows[0].principal).toBeCloseTo(loan.pmt + 100, 10)
+    expect(rows[0].balance).toBeCloseTo(1000 + rows[0].principal, 10)
+    expect(rows[2].balance).toBe(0)
+    expect(totals.principal).toBeCloseTo(-1000, 10)
+    expect(totals.payment).toBeCloseTo(3 * loan.pmt, 10)
+    expect(totals.interest + totals.principal).toBeCloseTo(totals.payment, 10)
+  })
+
+  test('should charge no interest before a payment at the beginning of the first period', () => {
+    const pmt = solved(
+      solveTvm(
+        'pmt',
+        { ...loan, pmt: NaN },
+        { paymentsPerYear: 1, compoundingsPerYear: 1, timing: 'begin' }
+      )
+    )
+    const { rows } = scheduleOf(
+      { ...loan, pmt },
+      { paymentsPerYear: 1, compoundingsPerYear: 1, timing: 'begin' }
+    )
+    expect(rows[0].interest).toBeCloseTo(-(1000 + pmt) * 0.1, 10)
+    expect(rows[2].balance).toBe(0)
+  })
+
+  test('should end early with extra payments and a reduced last payment', () => {
+    const { rows, totals } = scheduleOf({ ...loan, n: 10, pmt: -100 }, undefined, -500)
+    expect(rows).toHaveLength(2)
+    expect(rows[0].extra).toBe(-500)
+    expect(rows[1].balance).toBe(0)
+    // 1000 grows to 1100, 600 is paid, then 500 grows to 550 and is paid off
+    expect(rows[1].payment).toBeCloseTo(-550, 10)
+    expect(rows[1].extra).toBeCloseTo(-450, 10)
+    expect(totals.interest).toBeCloseTo(-150, 10)
+  })
+
+  test('should leave a balloon as the last balance', () => {
+    const { rows } = scheduleOf({ ...loan, pmt: -100 })
+    expect(rows[2].balance).toBeCloseTo(1000, 10)
+  })
+
+  test('should report registers that make no schedule', () => {
+    expect(amortizationSchedule({ ...loan, n: 0 }).ok).toBe(false)
+    expect(amortizationSchedule({ ...loan, n: 1e6 }).ok).toBe(false)
+    expect(amortizationSchedule({ ...loan, pmt: NaN }).ok).toBe(false)
+  })
+})
+
+describe('amortization export', () => {
+  const schedule: AmortizationSchedule = {
+    rows: [
+      { period: 1, payment: -60, extra: -10, interest: -5, principal: -55, balance: 44.999 },
+      { period: 2, payment: -47.25, extra: 0, interest: -2.25, principal: -45, balance: 0.0001 },
+    ],
+    totals: { payment: -107.25, extra: -10, interest: -7.25, principal: -100 },
+  }
+
+  test('should write CSV with headings and totals', () => {
+    expect(amortizationCsv(schedule)).toBe(
+      [
+        'Period,Payment,Extra,Interest,Principal,Balance',
+        '1,-60.00,-10.00,-5.00,-55.00,45.00',
+        '2,-47.25,0.00,-2.25,-45.00,0.00',
+        'Total,-107.25,-10.00,-7.25,-100.00,',
+        '',
+      ].join('\n')
+    )
+  })
+
+  test('should write JSON with rounded amounts', () => {
+    const json = JSON.parse(amortizationJson(schedule))
+    expect(json.rows[0]).toEqual({
+      period: 1,
+      payment: -60,
+      extra: -10,
+      interest: -5,
+      principal: -55,
+      balance: 45,
+    })
+    expect(json.totals.payment).toBe(-107.25)
+  })
+})
+
+describe('cash flows', () => {
+  test('should discount cash flows from time zero', () => {
+    expect(netPresentValue(10, [-100, 110])).toBeCloseTo(0, 12)
+    expect(netPresentValue(0, [-100, 30, 80])).toBe(10)
+  })
+
+  test('should find the internal rate of return', () => {
+    expect(internalRateOfReturn([-100, 110])).toBeCloseTo(10, 10)
+    expect(internalRateOfReturn([-1000, 300, 400, 500])).toBeCloseTo(8.8963, 4)
+    expect(internalRateOfReturn([100, 110])).toBeNaN()
+  })
+
+  test('should compute percentage change', () => {
+    expect(percentChange(50, 75)).toBe(50)
+    expect(percentChange(80, 60)).toBe(-25)
+  })
+})
+
+describe('finance expression functions', () => {
+  test('should solve TVM variables with optional frequencies and timing', () => {
+    expect(evaluate('tvmpmt(360, 6, 200000, 0, 12)')).toBeCloseTo(-1199.101, 3)
+    expect(evaluate('tvmfv(10, 5, 0, -100)')).toBeCloseTo(1257.789, 3)
+    expect(evaluate('tvmfv(10, 5, 0, -100, 1, 1, 1)')).toBeCloseTo(1320.679, 3)
+    expect(evaluate('tvmiy(1, -100, 0, 110)')).toBeCloseTo(10, 10)
+  })
+
+  test('should compute NPV, IRR and percentage change', () => {
+    expect(evaluate('npv(0, -100, 30, 80)')).toBe(10)
+    expect(evaluate('irr(-100, 110)')).toBeCloseTo(10, 10)
+    expect(evaluate('pctchange(50, 75)')).toBe(50)
+  })
+
+  test('should report arguments outside the domain', () => {
+    const errorOf = (expression: string) => {
+      const result = tryEvaluateExpression(expression, { angleMode: 'rad' })
+      return result.ok ? null : result.error.code
+    }
+    expect(errorOf('irr(100, 110)')).toBe('domain')
+    expect(errorOf('tvmfv(10, 5, 0, -100, 1, 1, 2)')).toBe('domain')
+    expect(errorOf('pctchange(0, 5)')).toBe('division-by-zero')
+  })
+
+  test('should compute in decimal arithmetic', () => {
+    const result = tryEvaluateExpression('npv(0, -100, 30, 80)', {
+      angleMode: 'rad',
+      precision: 20,
+    })
+    expect(result.ok && result.text).toBe('10')
+  })
+})
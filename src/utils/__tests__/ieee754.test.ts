@@ -0,0 +1,81 @@
+/**
+ * Unit Tests for the IEEE-754 Inspector
+ */
+
+import { bitField, decodeFloat, encodeFloat, inspectFloat, nextFloat } from '@/utils/ieee754'
+
+describe('encodeFloat and decodeFloat', () => {
+  test('should encode values in both formats', () => {
+    expect(encodeFloat(1, 'float32')).toBe(0x3f800000n)
+    expect(encodeFloat(1, 'float64')).toBe(0x3ff0000000000000n)
+    expect(encodeFloat(-2, 'float32')).toBe(0xc0000000n)
+    expect(encodeFloat(-0, 'float64')).toBe(0x8000000000000000n)
+  })
+
+  test('should round to the nearest float32', () => {
+    expect(decodeFloat(encodeFloat(0.1, 'float32'), 'float32')).toBe(Math.fround(0.1))
+    expect(decodeFloat(encodeFloat(0.1, 'float64'), 'float64')).toBe(0.1)
+  })
+})
+
+describe('inspectFloat', () => {
+  test('should take a normal value apart', () => {
+    expect(inspectFloat(encodeFloat(-6, 'float32'), 'float32')).toMatchObject({
+      value: -6,
+      hex: '0xC0C00000',
+      sign: 1,
+      exponent: 129,
+      mantissa: 0x400000n,
+      kind: 'normal',
+      power: 2,
+      ulp: 2 ** -21,
+    })
+    expect(inspectFloat(encodeFloat(1, 'float64'), 'float64')).toMatchObject({
+      hex: '0x3FF0000000000000',
+      power: 0,
+      ulp: Number.EPSILON,
+    })
+  })
+
+  test('should classify zeros, subnormals, infinities and NaN', () => {
+    const kindOf = (value: number) => inspectFloat(encodeFloat(value, 'float64'), 'float64').kind
+    expect([0, -0, 5e-324, 1, Infinity, -Infinity, NaN].map(kindOf)).toEqual([
+      'zero',
+      'zero',
+      'subnormal',
+      'normal',
+      'infinite',
+      'infinite',
+      'nan',
+    ])
+    expect(inspectFloat(1n, 'float32')).toMatchObject({ kind: 'subnormal', power: -126 })
+    expect(inspectFloat(encodeFloat(Infinity, 'float32'), 'float32').ulp).toBeNaN()
+  })
+
+  test('should give the spacing of subnormals and the largest values', () => {
+    expect(inspectFloat(0n, 'float64').ulp).toBe(5e-324)
+    expect(inspectFloat(encodeFloat(Number.MAX_VALUE, 'float64'), 'float64').ulp).toBe(2 ** 971)
+  })
+})
+
+describe('nextFloat', () => {
+  test('should step one ULP away from zero', () => {
+    expect(nextFloat(encodeFloat(1, 'float64'), 'float64')).toBe(1 + Number.EPSILON)
+    expect(nextFloat(encodeFloat(-1, 'float32'), 'float32')).toBe(-(1 + 2 ** -23))
+    expect(nextFloat(0n, 'float64')).toBe(5e-324)
+    expect(nextFloat(encodeFloat(Number.MAX_VALUE, 'float64'), 'float64')).toBe(Infinity)
+  })
+})
+
+describe('bitField', () => {
+  test('should name the field of each bit', () => {
+    expect([31, 30, 23, 22, 0].map(bit => bitField(bit, 'float32'))).toEqual([
+      'sign',
+      'exponent',
+      'exponent',
+      'mantissa',
+      'mantissa',
+    ])
+    expect(bitField(52, 'float64')).toBe('exponent')
+  })
+})
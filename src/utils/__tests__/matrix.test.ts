@@ -0,0 +1,121 @@
+/**
+ * Unit Tests for Matrices
+ * Covers the Matrix type and matrix-valued floating-point evaluation
+ */
+
+import { tryEvaluateExpression } from '@/utils/expression-evaluator'
+import { Matrix } from '@/utils/matrix'
+
+/**
+ * Evaluate in float mode and return the result text, failing the test on errors
+ */
+const evaluate = (source: string, variables?: Record<string, string>) => {
+  const result = tryEvaluateExpression(source, { angleMode: 'rad', variables })
+  if (!result.ok) throw new Error(`'${source}' failed: ${result.error.message}`)
+  return result.text
+}
+
+const errorOf = (source: string) => {
+  const result = tryEvaluateExpression(source, { angleMode: 'rad' })
+  if (result.ok) throw new Error(`Expected '${source}' to fail`)
+  return result.error
+}
+
+describe('Matrix', () => {
+  const a = new Matrix([
+    [1, 2],
+    [3, 4],
+  ])
+
+  test('should multiply, transpose and print text that reads back', () => {
+    expect(a.multiply(a).toString()).toBe('[7, 10; 15, 22]')
+    expect(a.transpose().toString()).toBe('[1, 3; 2, 4]')
+    expect(Matrix.column([1, 2]).toString()).toBe('[1; 2]')
+    expect(() => new Matrix([[1, 2], [3]])).toThrow(RangeError)
+  })
+
+  test('should eliminate without rounding noise', () => {
+    expect(a.determinant()).toBe(-2)
+    expect(a.inverse()?.toString()).toBe('[-2, 1; 1.5, -0.5]')
+    expect(a.solve(Matrix.column([5, 6]))?.toString()).toBe('[-4; 4.5]')
+    expect(a.rank()).toBe(2)
+    const singular = new Matrix([
+      [1, 2],
+      [2, 4],
+    ])
+    expect(singular.determinant()).toBe(0)
+    expect(singular.inverse()).toBeNull()
+    expect(singular.rank()).toBe(1)
+    expect(a.power(-1)?.toString()).toBe(a.inverse()?.toString())
+  })
+
+  test('should find real eigenvalues, largest first', () => {
+    expect(a.eigenvalues()).toEqual([5.37228132327, -0.372281323269])
+    const symmetric = new Matrix([
+      [2, -1, 0],
+      [-1, 2, -1],
+      [0, -1, 2],
+    ])
+    expect(symmetric.eigenvalues()).toEqual(
+      [2 + Math.SQRT2, 2, 2 - Math.SQRT2].map(value => Number(value.toPrecision(12)))
+    )
+    const companion = new Matrix([
+      [6, -11, 6],
+      [1, 0, 0],
+      [0, 1, 0],
+    ])
+    expect(companion.eigenvalues()).toEqual([3, 2, 1])
+    const rotation = new Matrix([
+      [0, -1],
+      [1, 0],
+    ])
+    expect(rotation.eigenvalues()).toBeNull()
+  })
+})
+
+describe('matrix evaluation', () => {
+  test('should evaluate matrix literals and arithmetic', () => {
+    expect(evaluate('[1, 2; 3, 4] * [5; 6]')).toBe('[17; 39]')
+    expect(evaluate('2[1, 2] + [3, 4]')).toBe('[5, 8]')
+    expect(evaluate('[1, 2; 3, 4]^2')).toBe('[7, 10; 15, 22]')
+    expect(evaluate('-[1, 2] / 2')).toBe('[-0.5, -1]')
+    expect(evaluate('[A, [5; 6]]', { A: '[1, 2; 3, 4]' })).toBe('[1, 2, 5; 3, 4, 6]')
+    expect(tryEvaluateExpression('[1, 2]', { angleMode: 'rad' })).toMatchObject({
+      ok: true,
+      value: NaN,
+    })
+  })
+
+  test('should apply the linear algebra functions', () => {
+    const A = { A: '[2, 1; 1, 3]' }
+    expect(evaluate('det(A)', A)).toBe('5')
+    expect(evaluate('inv(A)', A)).toBe('[0.6, -0.2; -0.2, 0.4]')
+    expect(evaluate('solve(A, [3; 5])', A)).toBe('[0.8; 1.4]')
+    expect(evaluate('rank([1, 2; 2, 4])')).toBe('1')
+    expect(evaluate('eig([2, 0; 0, 3])')).toBe('[3; 2]')
+    expect(evaluate('dot([1, 2, 3], [4; 5; 6])')).toBe('32')
+    expect(evaluate('cross([1, 0, 0], [0, 1, 0])')).toBe('[0, 0, 1]')
+    expect(evaluate('norm([3, 4])')).toBe('5')
+    expect(evaluate('det(4)')).toBe('4')
+  })
+
+  test('should report sizes and values matrices do not accept', () => {
+    expect(errorOf('[1, 2] + [1; 2]')).toMatchObject({
+      code: 'domain',
+      message: 'Cannot add a 1×2 matrix and a 2×1 matrix',
+    })
+    expect(errorOf('[1, 2] * [3, 4]').message).toBe('Cannot multiply a 1×2 matrix by a 1×2 matrix')
+    expect(errorOf('[1, 2; 3]')).toMatchObject({ start: 7, end: 8 })
+    expect(errorOf('inv([1, 2; 2, 4])').message).toBe(
+      'The matrix is singular, so it has no inverse'
+    )
+    expect(errorOf('det([1, 2])').message).toBe('det needs a square matrix, not a 1×2 matrix')
+    expect(errorOf('eig([0, -1; 1, 0])').code).toBe('domain')
+    expect(errorOf('cross([1, 2], [3, 4])').message).toBe('cross needs two vectors of length 3')
+    expect(errorOf('sin([1, 2])')).toMatchObject({ start: 4, end: 10 })
+    expect(errorOf('[1 m, 2]').code).toBe('units')
+    expect(errorOf('[1, 2')).toMatchObject({ code: 'syntax', message: "Missing ']' for this '['" })
+    const fraction = tryEvaluateExpression('[1, 2]', { angleMode: 'rad', fractions: true })
+    expect(!fraction.ok && fraction.error.message).toBe('Matrices need float arithmetic')
+  })
+})
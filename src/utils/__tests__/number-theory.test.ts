@@ -0,0 +1,177 @@
+/**
+ * Unit Tests for Number Theory
+ * Covers exact factorials, permutations and combinations, primality, factorization, divisors,
+ * the totient, modular arithmetic and the Chinese remainder theorem, directly and as expression
+ * functions in each arithmetic
+ */
+
+import { combination, factorial, permutation } from '@/utils/calculator-math'
+import { tryEvaluateExpression } from '@/utils/expression-evaluator'
+import {
+  bigCombinations,
+  bigFactorial,
+  bigPermutations,
+  chineseRemainder,
+  divisors,
+  eulerPhi,
+  extendedGcd,
+  isPrime,
+  modInverse,
+  modPow,
+  primeFactors,
+  primePowers,
+} from '@/utils/number-theory'
+import { EvaluationContext } from '@/types/expression'
+
+const textOf = (expression: string, context: Partial<EvaluationContext> = {}) => {
+  const result = tryEvaluateExpression(expression, { angleMode: 'rad', ...context })
+  if (!result.ok) throw new Error(`'${expression}' failed: ${result.error.message}`)
+  return result.text
+}
+
+const errorOf = (expression: string, context: Partial<EvaluationContext> = {}) => {
+  const result = tryEvaluateExpression(expression, { angleMode: 'rad', ...context })
+  return result.ok ? null : result.error.code
+}
+
+describe('exact combinatorics', () => {
+  test('should compute factorials, permutations and combinations exactly', () => {
+    expect(bigFactorial(0n)).toBe(1n)
+    expect(bigFactorial(25n)).toBe(15511210043330985984000000n)
+    expect(bigPermutations(10n, 3n)).toBe(720n)
+    expect(bigPermutations(5n, 0n)).toBe(1n)
+    expect(bigCombinations(100n, 50n)).toBe(100891344545564193334812497256n)
+    expect(bigCombinations(52n, 47n)).toBe(2598960n)
+  })
+
+  test('should refuse results too large to compute exactly', () => {
+    expect(() => bigFactorial(20000n)).toThrow(RangeError)
+    expect(() => bigCombinations(200000n, 100000n)).toThrow(RangeError)
+    expect(() => bigPermutations(100000n, 50000n)).toThrow(RangeError)
+  })
+
+  test('should round the exact results once in floating point', () => {
+    expect(combination(100, 50)).toBe(Number(100891344545564193334812497256n))
+    expect(permutation(10, 3)).toBe(720)
+    expect(factorial(25)).toBe(Number(15511210043330985984000000n))
+    expect(combination(2000, 1000)).toBe(Infinity)
+    expect(factorial(171)).toBe(Infinity)
+    expect(combination(3, 4)).toBeNaN()
+    expect(permutation(2.5, 1)).toBeNaN()
+  })
+})
+
+describe('primes and factorization', () => {
+  test('should test primality', () => {
+    expect([0n, 1n, 2n, 3n, 4n, 97n, -7n].map(isPrime)).toEqual([
+      false,
+      false,
+      true,
+      true,
+      false,
+      true,
+      false,
+    ])
+    // A Carmichael number and a strong pseudoprime to the bases 2, 3, 5 and 7
+    expect(isPrime(561n)).toBe(false)
+    expect(isPrime(3215031751n)).toBe(false)
+    expect(isPrime(2n ** 61n - 1n)).toBe(true)
+    expect(isPrime(2n ** 89n - 1n)).toBe(true)
+  })
+
+  test('should factor into primes', () => {
+    expect(primeFactors(1n)).toEqual([])
+    expect(primeFactors(360n)).toEqual([2n, 2n, 2n, 3n, 3n, 5n])
+    expect(primeFactors(600851475143n)).toEqual([71n, 839n, 1471n, 6857n])
+    expect(primeFactors(4294967291n * 4294967279n)).toEqual([4294967279n, 4294967291n])
+    expect(primePowers(360n)).toEqual([
+      { prime: 2n, exponent: 3 },
+      { prime: 3n, exponent: 2 },
+      { prime: 5n, exponent: 1 },
+    ])
+  })
+
+  test('should list divisors and count coprime numbers', () => {
+    expect(divisors(1n)).toEqual([1n])
+    expect(divisors(28n)).toEqual([1n, 2n, 4n, 7n, 14n, 28n])
+    expect(eulerPhi(1n)).toBe(1n)
+    expect(eulerPhi(36n)).toBe(12n)
+    expect(eulerPhi(97n)).toBe(96n)
+  })
+})
+
+describe('modular arithmetic', () => {
+  test('should raise to powers modulo m', () => {
+    expect(modPow(4n, 13n, 497n)).toBe(445n)
+    expect(modPow(-2n, 3n, 5n)).toBe(2n)
+    expect(modPow(7n, 0n, 1n)).toBe(0n)
+    expect(modPow(2n, 10n ** 18n, 1000000007n)).toBe(
+      modPow(modPow(2n, 10n ** 9n, 1000000007n), 10n ** 9n, 1000000007n)
+    )
+  })
+
+  test('should find Bézout coefficients and inverses', () => {
+    ;[
+      [240n, 46n],
+      [-35n, 15n],
+      [0n, 9n],
+    ].forEach(([a, b]) => {
+      const { gcd, x, y } = extendedGcd(a, b)
+      expect(a * x + b * y).toBe(gcd)
+    })
+    expect(extendedGcd(240n, 46n).gcd).toBe(2n)
+    expect(extendedGcd(-35n, 15n).gcd).toBe(5n)
+    expect(extendedGcd(0n, 9n).gcd).toBe(9n)
+    expect(modInverse(3n, 11n)).toBe(4n)
+    expect(modInverse(-3n, 11n)).toBe(7n)
+    expect(modInverse(6n, 9n)).toBeNull()
+  })
+
+  test('should solve simultaneous congruences', () => {
+    expect(chineseRemainder([2n, 3n, 2n], [3n, 5n, 7n])).toEqual({ residue: 23n, modulus: 105n })
+    // Moduli that share a factor
+    expect(chineseRemainder([1n, 3n], [4n, 6n])).toEqual({ residue: 9n, modulus: 12n })
+    expect(chineseRemainder([1n, 2n], [4n, 6n])).toBeNull()
+  })
+})
+
+describe('number theory expression functions', () => {
+  test('should compute combinations exactly in every arithmetic', () => {
+    expect(textOf('ncr(100, 50)')).toBe(String(Number(100891344545564193334812497256n)))
+    expect(textOf('ncr(100, 50)', { precision: 40 })).toBe('1.00891344545564193334812497256e+29')
+    expect(textOf('ncr(100, 50)', { fractions: true })).toBe('100891344545564193334812497256')
+    expect(textOf('npr(10, 3)', { word: { bits: 64, signed: true } })).toBe('720')
+    expect(textOf('ncr(70, 35)', { word: { bits: 8, signed: false } })).toBe(
+      String(112186277816662845432n % 256n)
+    )
+  })
+
+  test('should evaluate the number theory functions', () => {
+    expect(textOf('isprime(97) + isprime(91)')).toBe('1')
+    expect(textOf('totient(36)')).toBe('12')
+    expect(textOf('powmod(4, 13, 497)')).toBe('445')
+    expect(textOf('invmod(3, 11)', { fractions: true })).toBe('4')
+    expect(textOf('crt(2, 3, 3, 5, 2, 7)', { precision: 20 })).toBe('23')
+    expect(textOf('crt(2, 3, 3, 5, 2, 7)', { word: { bits: 32, signed: true } })).toBe('23')
+  })
+
+  test('should return lists as row vectors in floating point', () => {
+    expect(textOf('factor(360)')).toBe('[2, 2, 2, 3, 3, 5]')
+    expect(textOf('divisors(28)')).toBe('[1, 2, 4, 7, 14, 28]')
+    expect(textOf('egcd(240, 46)')).toBe('[2, -9, 47]')
+  })
+
+  test('should report arguments outside the domain', () => {
+    expect(errorOf('ncr(5, 6)')).toBe('domain')
+    expect(errorOf('npr(5.5, 2)')).toBe('domain')
+    expect(errorOf('totient(0)')).toBe('domain')
+    expect(errorOf('powmod(2, -1, 5)')).toBe('domain')
+    expect(errorOf('invmod(6, 9)')).toBe('domain')
+    expect(errorOf('crt(1, 4, 2, 6)')).toBe('domain')
+    expect(errorOf('crt(1, 4, 2)')).toBe('domain')
+    expect(errorOf('factor(1)')).toBe('domain')
+    expect(errorOf('factor(12)', { precision: 20 })).toBe('domain')
+    expect(errorOf('divisors(12)', { fractions: true })).toBe('domain')
+    expect(errorOf('ncr(200000, 100000)', { precision: 20 })).toBe('overflow')
+  })
+})
@@ -0,0 +1,109 @@
+/**
+ * Unit Tests for Physical Constants
+ * Covers the CODATA table's units and uncertainties, search and the keys and buttons made from it
+ */
+
+import { EvaluationContext } from '@/types/expression'
+import { keypadConstants, keypadOperators } from '@/utils/calculator-engine'
+import {
+  builtinConstants,
+  builtinFunctions,
+  tryEvaluateExpression,
+} from '@/utils/expression-evaluator'
+import { createConstantButton } from '@/utils/keyboard-builder'
+import {
+  constantExpression,
+  physicalConstants,
+  physicalConstantsByName,
+  relativeUncertainty,
+  searchPhysicalConstants,
+} from '@/utils/physical-constants'
+import { units } from '@/utils/units'
+
+const textOf = (source: string, settings: Partial<EvaluationContext> = {}) => {
+  const result = tryEvaluateExpression(source, { angleMode: 'rad', ...settings })
+  return result.ok ? result.text : result.error.message
+}
+
+describe('physicalConstants', () => {
+  test('should evaluate every constant with its units', () => {
+    physicalConstants.forEach(entry => {
+      const result = tryEvaluateExpression(constantExpression(entry), { angleMode: 'rad' })
+      expect(result.ok).toBe(true)
+    })
+  })
+
+  test('should agree with the constants they derive from', () => {
+    const value = (name: string) => Number(physicalConstantsByName[name].value)
+    expect(value('faraday')).toBeCloseTo(value('qe') * value('NA'), 4)
+    expect(value('R')).toBeCloseTo(value('k') * value('NA'), 8)
+    expect(value('hbar') / (value('planck') / (2 * Math.PI))).toBeCloseTo(1, 8)
+  })
+
+  test('should give standard uncertainties, zero for exact constants', () => {
+    expect(physicalConstantsByName.c.uncertainty).toBe(0)
+    expect(relativeUncertainty(physicalConstantsByName.G)).toBeCloseTo(2.2e-5, 6)
+  })
+
+  test('should have names that are not already keys', () => {
+    const names = physicalConstants.map(entry => entry.name)
+    expect(new Set(names).size).toBe(names.length)
+    names.forEach(name => {
+      expect(keypadOperators).not.toHaveProperty(name)
+      expect(builtinFunctions).not.toHaveProperty(name)
+      expect(builtinConstants).not.toHaveProperty(name)
+      expect(units).not.toHaveProperty(name)
+      expect(keypadConstants[name]).toBe(constantExpression(physicalConstantsByName[name]))
+    })
+  })
+})
+
+describe('physical constants in expressions', () => {
+  test('should read every constant by its name, with units only in float arithmetic', () => {
+    physicalConstants.forEach(entry => {
+      expect(textOf(entry.name)).toBe(textOf(constantExpression(entry)))
+      expect(textOf(entry.name, { precision: 30 })).toBe(
+        textOf(constantExpression(entry, false), { precision: 30 })
+      )
+    })
+    expect(textOf('c')).toBe('299792458 m/s')
+    expect(textOf('NA * k')).toBe('8.31446261815324 J/(mol K)')
+    expect(textOf('mu0', { precision: 20 })).toBe('0.00000125663706212')
+    expect(textOf('G', { fractions: true })).toBe('66743/1000000000000000')
+    expect(textOf('planck * c / (500 nm) to eV')).toMatch(/^2\.4796839686\d* eV$/)
+  })
+
+  test('should leave unit symbols as units and let variables hide constants', () => {
+    expect(textOf('2 h to min')).toBe('120 min')
+    expect(textOf('planck')).toBe('6.62607015e-34 J s')
+    // A constant wins over reading its name as a prefixed unit (hectobar)
+    expect(textOf('hbar')).toBe('1.054571817e-34 J s')
+    expect(textOf('c + 1', { variables: { c: '3' } })).toBe('4')
+  })
+})
+
+describe('searchPhysicalConstants', () => {
+  test('should match names, symbols and descriptions ignoring case', () => {
+    expect(searchPhysicalConstants('planck').map(entry => entry.name)).toEqual([
+      'planck',
+      'hbar',
+      'lP',
+      'mP',
+      'tP',
+    ])
+    expect(searchPhysicalConstants('μ₀').map(entry => entry.name)).toEqual(['mu0'])
+    expect(searchPhysicalConstants('electron mass').map(entry => entry.name)).toEqual(['me'])
+    expect(searchPhysicalConstants('')).toHaveLength(physicalConstants.length)
+  })
+})
+
+describe('createConstantButton', () => {
+  test('should label a constant key with its symbol', () => {
+    expect(createConstantButton(physicalConstantsByName.eps0)).toMatchObject({
+      label: 'ε₀',
+      value: 'eps0',
+      type: 'constant',
+      description: 'Vacuum electric permittivity (8.8541878128e-12 F/m)',
+    })
+  })
+})
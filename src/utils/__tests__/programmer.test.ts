@@ -0,0 +1,114 @@
+/**
+ * Unit Tests for Programmer Arithmetic
+ */
+
+import { WordSize } from '@/types/expression'
+import { tryEvaluateExpression } from '@/utils/expression-evaluator'
+import {
+  digitValue,
+  flipBit,
+  formatInteger,
+  parseInteger,
+  rotate,
+  shiftLeft,
+  shiftRight,
+  wrap,
+} from '@/utils/programmer'
+
+const signedByte: WordSize = { bits: 8, signed: true }
+const unsignedByte: WordSize = { bits: 8, signed: false }
+
+const evaluateIn = (expression: string, word: WordSize) =>
+  tryEvaluateExpression(expression, { angleMode: 'rad', word })
+
+describe('wrap', () => {
+  test("should wrap to the word in two's complement or unsigned form", () => {
+    expect(wrap(255n, signedByte)).toBe(-1n)
+    expect(wrap(128n, signedByte)).toBe(-128n)
+    expect(wrap(-1n, unsignedByte)).toBe(255n)
+    expect(wrap(256n, unsignedByte)).toBe(0n)
+    expect(wrap(2n ** 63n, { bits: 64, signed: true })).toBe(-(2n ** 63n))
+  })
+})
+
+describe('shifts and rotation', () => {
+  test('should shift within the word', () => {
+    expect(shiftLeft(1n, 7n, signedByte)).toBe(-128n)
+    expect(shiftLeft(1n, 8n, unsignedByte)).toBe(0n)
+    expect(shiftRight(-128n, 7n, signedByte)).toBe(-1n)
+    expect(shiftRight(128n, 7n, unsignedByte)).toBe(1n)
+    expect(shiftRight(-1n, 100n, signedByte)).toBe(-1n)
+  })
+
+  test('should bring rotated bits back in at the other end', () => {
+    expect(rotate(0x81n, 1n, unsignedByte)).toBe(0x03n)
+    expect(rotate(0x81n, -1n, unsignedByte)).toBe(0xc0n)
+    expect(rotate(0x81n, 9n, unsignedByte)).toBe(0x03n)
+    expect(rotate(-128n, 1n, signedByte)).toBe(1n)
+  })
+})
+
+describe('flipBit', () => {
+  test('should flip one bit of the word', () => {
+    expect(flipBit(0n, 0, signedByte)).toBe(1n)
+    expect(flipBit(0xf1n, 0, unsignedByte)).toBe(0xf0n)
+    expect(flipBit(0n, 7, signedByte)).toBe(-128n)
+    expect(flipBit(-1n, 7, signedByte)).toBe(127n)
+  })
+})
+
+describe('integer text', () => {
+  test('should read decimal and prefixed literals', () => {
+    expect(parseInteger('0xff')).toBe(255n)
+    expect(parseInteger('0o17')).toBe(15n)
+    expect(parseInteger('-0b1010')).toBe(-10n)
+    expect(parseInteger('42')).toBe(42n)
+    expect(parseInteger('1.5')).toBeNull()
+    expect(parseInteger('0x')).toBeNull()
+  })
+
+  test('should show the bit pattern outside decimal', () => {
+    expect(formatInteger(-1n, 'hex', signedByte)).toBe('0xFF')
+    expect(formatInteger(-1n, 'dec', signedByte)).toBe('-1')
+    expect(formatInteger(5n, 'bin', signedByte)).toBe('0b101')
+    expect(formatInteger(8n, 'oct', signedByte)).toBe('0o10')
+  })
+
+  test('should accept only the digits of a base', () => {
+    expect(digitValue('F', 'hex')).toBe(15)
+    expect(digitValue('F', 'dec')).toBeNull()
+    expect(digitValue('8', 'oct')).toBeNull()
+    expect(digitValue('1', 'bin')).toBe(1)
+  })
+})
+
+describe('programmer evaluation', () => {
+  test('should compute bitwise expressions in the word', () => {
+    expect(evaluateIn('or(0xF0, 0x0F)', unsignedByte)).toMatchObject({ ok: true, text: '255' })
+    expect(evaluateIn('not(0)', unsignedByte)).toMatchObject({ ok: true, text: '255' })
+    expect(evaluateIn('not(0)', signedByte)).toMatchObject({ ok: true, text: '-1' })
+    expect(evaluateIn('xor(0b1100, 0b1010)', signedByte)).toMatchObject({ ok: true, text: '6' })
+    expect(evaluateIn('ror(1, 1)', unsignedByte)).toMatchObject({ ok: true, text: '128' })
+    expect(evaluateIn('-7 / 2', signedByte)).toMatchObject({ ok: true, text: '-3' })
+    expect(evaluateIn('2^10', signedByte)).toMatchObject({ ok: true, text: '0' })
+  })
+
+  test('should reject what integers cannot hold', () => {
+    const codes = ['1.5', 'pi', '50%', 'sqrt(4)', '2^-1', '1/0'].map(expression => {
+      const result = evaluateIn(expression, signedByte)
+      return result.ok ? null : result.error.code
+    })
+    expect(codes).toEqual(['domain', 'domain', 'domain', 'domain', 'domain', 'division-by-zero'])
+  })
+
+  test('should read based literals in other arithmetics', () => {
+    expect(tryEvaluateExpression('0xFF + 0b1', { angleMode: 'rad' })).toMatchObject({
+      ok: true,
+      value: 256,
+    })
+    expect(tryEvaluateExpression('and(5, 3)', { angleMode: 'rad' })).toMatchObject({
+      ok: true,
+      value: 1,
+    })
+  })
+})
@@ -0,0 +1,118 @@
+/**
+ * Unit Tests for Exact Rational Arithmetic
+ * Covers the Rational type, its display forms and fraction-mode evaluation
+ */
+
+import { tryEvaluateExpression } from '@/utils/expression-evaluator'
+import { Rational } from '@/utils/rational'
+
+/**
+ * Evaluate in fraction mode and return the result text, failing the test on errors
+ */
+const exact = (source: string, angleMode: 'rad' | 'deg' = 'rad') => {
+  const result = tryEvaluateExpression(source, { angleMode, fractions: true })
+  if (!result.ok) throw new Error(`'${source}' failed: ${result.error.message}`)
+  return result.text
+}
+
+describe('Rational', () => {
+  test('should keep fractions in lowest terms', () => {
+    expect(Rational.parse('1/3').add(Rational.parse('1/6')).toString()).toBe('1/2')
+    expect(new Rational(6n, -4n).toString()).toBe('-3/2')
+    expect(Rational.parse('2.50').toString()).toBe('5/2')
+    expect(Rational.parse('1.5e-3').toString()).toBe('3/2000')
+    expect(() => new Rational(1n, 0n)).toThrow(RangeError)
+    expect(() => Rational.parse('1e100000000')).toThrow(RangeError)
+  })
+
+  test('should parse repeating decimals', () => {
+    expect(Rational.parse('0.(3)').toString()).toBe('1/3')
+    expect(Rational.parse('0.1(6)').toString()).toBe('1/6')
+    expect(Rational.parse('1.2(34)').toString()).toBe('611/495')
+    expect(Rational.parse('-0.(9)').toString()).toBe('-1')
+    expect(() => Rational.parse('0.(3')).toThrow(SyntaxError)
+  })
+
+  test('should format as fractions, mixed numbers and repeating decimals', () => {
+    const value = Rational.parse('-7/2')
+    expect(value.format('fraction')).toBe('-7/2')
+    expect(value.format('mixed')).toBe('-3 1/2')
+    expect(value.format('decimal')).toBe('-3.5')
+    expect(Rational.parse('1/7').format('decimal')).toBe('0.(142857)')
+    expect(Rational.parse('5/12').format('decimal')).toBe('0.41(6)')
+    expect(Rational.parse('2/3').format('mixed')).toBe('2/3')
+  })
+
+  test('should fall back to rounded digits for very long periods', () => {
+    expect(Rational.parse('1/97').toRepeatingString()).toBeNull()
+    expect(Rational.parse('1/97').format('decimal')).toMatch(/^0\.0103092783505154639175/)
+  })
+
+  test('should compute exact roots and powers', () => {
+    expect(Rational.parse('9/4').root(2)?.toString()).toBe('3/2')
+    expect(Rational.parse('-8/27').root(3)?.toString()).toBe('-2/3')
+    expect(Rational.parse('2').root(2)).toBeNull()
+    expect(Rational.parse('2/3').pow(-2n).toString()).toBe('9/4')
+  })
+})
+
+describe('fraction-mode evaluation', () => {
+  test('should keep results exact', () => {
+    expect(exact('1/3 + 1/6')).toBe('1/2')
+    expect(exact('0.(3) * 3')).toBe('1')
+    expect(exact('0.1 + 0.2')).toBe('3/10')
+    expect(exact('(2/3) ^ 3')).toBe('8/27')
+    expect(exact('(4/9) ^ 0.5')).toBe('2/3')
+    expect(exact('sqrt(1/4) + abs(-1/4)')).toBe('3/4')
+    expect(exact('25!')).toBe('15511210043330985984000000')
+  })
+
+  test('should fall back to floating point when a result is irrational', () => {
+    expect(exact('sqrt(2)')).toBe(`≈${Math.SQRT2}`)
+    expect(exact('sin(30)', 'deg')).toBe(`≈${Math.sin(Math.PI / 6)}`)
+    expect(exact('pi / 2')).toBe(`≈${Math.PI / 2}`)
+    expect(exact('-pi')).toBe(`≈${-Math.PI}`)
+  })
+
+  test('should keep approximate values in floating point', () => {
+    expect(exact('sqrt(2)^2')).toBe(`≈${Math.SQRT2 ** 2}`)
+    expect(exact('≈1.5 + 1/2')).toBe('≈2')
+    expect(exact('2 * (≈-0.25)')).toBe('≈-0.5')
+    expect(exact('1.5 + 1/2')).toBe('2')
+    const squared = tryEvaluateExpression('x^2', {
+      angleMode: 'rad',
+      fractions: true,
+      variables: { x: `≈${Math.SQRT2}` },
+    })
+    expect(squared.ok && squared.text).toBe(`≈${Math.SQRT2 ** 2}`)
+    expect(tryEvaluateExpression('≈x', { angleMode: 'rad' }).ok).toBe(false)
+  })
+
+  test('should report the same errors as floating-point evaluation', () => {
+    const codeOf = (source: string) => {
+      const result = tryEvaluateExpression(source, { angleMode: 'rad', fractions: true })
+      return result.ok ? null : result.error.code
+    }
+    expect(codeOf('1 / (1/3 - 1/3)')).toBe('division-by-zero')
+    expect(codeOf('(-8) ^ 0.5')).toBe('domain')
+    expect(codeOf('(-1)!')).toBe('domain')
+    expect(codeOf('gcd(4, 1/2)')).toBe('domain')
+    expect(codeOf('1e100000000')).toBe('overflow')
+    expect(codeOf('2 * 1e-100000000')).toBe('overflow')
+    expect(codeOf('0.(3)e100000000')).toBe('overflow')
+  })
+
+  test('should read repeating decimals in every arithmetic', () => {
+    const float = tryEvaluateExpression('0.(3) * 3', { angleMode: 'rad' })
+    expect(float.ok && float.value).toBeCloseTo(1, 15)
+    const decimal = tryEvaluateExpression('0.1(6)', { angleMode: 'rad', precision: 10 })
+    expect(decimal.ok && decimal.text).toBe('0.1666666667')
+  })
+
+  test('should compute gcd and lcm', () => {
+    expect(exact('gcd(12, 18, 30)')).toBe('6')
+    expect(exact('lcm(4, 6)')).toBe('12')
+    const float = tryEvaluateExpression('gcd(-12, 18) + lcm(3, 5)', { angleMode: 'rad' })
+    expect(float.ok && float.value).toBe(21)
+  })
+})
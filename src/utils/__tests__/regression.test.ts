@@ -0,0 +1,115 @@
+/**
+ * Unit Tests for Regression
+ * Covers each model's coefficients, r², residuals and equation, and data that cannot be fitted
+ */
+
+import { tryEvaluateExpression } from '@/utils/expression-evaluator'
+import { fitRegression, Regression, RegressionModel } from '@/utils/regression'
+
+const xs = [1, 2, 3, 4, 5]
+
+/**
+ * Fit a model and return the regression, failing the test when the data cannot be fitted
+ */
+const fit = (model: RegressionModel, x: number[], y: number[], degree?: number): Regression => {
+  const result = fitRegression(model, x, y, degree)
+  if (!result.ok) throw new Error(`${model} fit failed: ${result.message}`)
+  return result.regression
+}
+
+const messageOf = (model: RegressionModel, x: number[], y: number[], degree?: number) => {
+  const result = fitRegression(model, x, y, degree)
+  if (result.ok) throw new Error(`Expected the ${model} fit to fail`)
+  return result.message
+}
+
+/**
+ * Value of a fitted equation at x, evaluated as an expression
+ */
+const predict = (regression: Regression, x: number): number => {
+  const result = tryEvaluateExpression(regression.equation, {
+    angleMode: 'rad',
+    variables: { x: String(x) },
+  })
+  if (!result.ok) throw new Error(`'${regression.equation}' failed: ${result.error.message}`)
+  return result.value
+}
+
+describe('fitRegression', () => {
+  test('should fit a line with its residuals', () => {
+    const regression = fit('linear', [1, 2, 3], [4, 5, 9])
+    expect(regression.coefficients).toEqual([1, 2.5])
+    expect(regression.residuals).toEqual([0.5, -1, 0.5])
+    expect(regression.r2).toBeCloseTo(12.5 / 14, 12)
+    expect(regression.equation).toBe('1 + 2.5 * x')
+    expect(fit('linear', xs, [5, 5, 5, 5, 5]).r2).toBe(1)
+  })
+
+  test('should fit polynomials of a chosen degree', () => {
+    const quadratic = fit(
+      'polynomial',
+      xs,
+      xs.map(x => 1 - 2 * x + 0.5 * x ** 2)
+    )
+    const [c0, c1, c2] = quadratic.coefficients
+    expect([c0, c1, c2].map(c => Number(c.toFixed(12)))).toEqual([1, -2, 0.5])
+    expect(quadratic.equation).toMatch(/^\S+ - \S+ \* x \+ \S+ \* x\^2$/)
+    expect(quadratic.r2).toBeCloseTo(1, 12)
+    expect(quadratic.residuals.every(residual => Math.abs(residual) < 1e-12)).toBe(true)
+    const cubic = fit(
+      'polynomial',
+      xs,
+      xs.map(x => x ** 3),
+      3
+    )
+    expect(cubic.coefficients.map(c => Math.round(c * 1e9) / 1e9)).toEqual([0, 0, 0, 1])
+    expect(predict(cubic, 6)).toBeCloseTo(216, 8)
+  })
+
+  test('should fit exponential, logarithmic and power curves through transformed data', () => {
+    const exponential = fit(
+      'exponential',
+      xs,
+      xs.map(x => 3 * Math.exp(0.4 * x))
+    )
+    expect(exponential.coefficients[0]).toBeCloseTo(3, 12)
+    expect(exponential.coefficients[1]).toBeCloseTo(0.4, 12)
+    expect(predict(exponential, 2)).toBeCloseTo(3 * Math.exp(0.8), 10)
+
+    const logarithmic = fit(
+      'logarithmic',
+      xs,
+      xs.map(x => 2 - 3 * Math.log(x))
+    )
+    expect(logarithmic.coefficients[0]).toBeCloseTo(2, 12)
+    expect(logarithmic.coefficients[1]).toBeCloseTo(-3, 12)
+    expect(logarithmic.equation).toMatch(/^\S+ - \S+ \* ln\(x\)$/)
+
+    const power = fit(
+      'power',
+      xs,
+      xs.map(x => 5 / x ** 2)
+    )
+    expect(power.coefficients[0]).toBeCloseTo(5, 12)
+    expect(power.coefficients[1]).toBeCloseTo(-2, 12)
+    expect(power.equation).toMatch(/^\S+ \* x\^\(-\S+\)$/)
+    expect(predict(power, 10)).toBeCloseTo(0.05, 10)
+    expect(power.r2).toBeCloseTo(1, 12)
+  })
+
+  test('should report data that cannot be fitted', () => {
+    expect(messageOf('linear', [1, 2], [1])).toBe('x and y need the same number of values')
+    expect(messageOf('linear', [1], [1])).toBe('A linear fit needs at least 2 points')
+    expect(messageOf('polynomial', xs, xs, 5)).toBe('A polynomial fit needs at least 6 points')
+    expect(messageOf('polynomial', xs, xs, 7)).toBe('The degree of a polynomial fit is at most 6')
+    expect(messageOf('exponential', xs, [1, 2, 0, 4, 5])).toBe(
+      'An exponential fit needs positive y values'
+    )
+    expect(messageOf('logarithmic', [0, 1], [1, 2])).toBe(
+      'A logarithmic fit needs positive x values'
+    )
+    expect(messageOf('linear', [2, 2, 2], [1, 2, 3])).toBe(
+      'The x values need to differ to fit a curve through them'
+    )
+  })
+})
@@ -0,0 +1,205 @@
+/**
+ * Unit Tests for Special Functions
+ * Covers gamma, log-gamma and beta with their regularized incomplete forms, the error functions,
+ * Bessel functions, the Lambert W function and the expression functions built on them, with the
+ * hyperbolic and reciprocal trigonometric functions
+ */
+
+import {
+  besselJ,
+  besselY,
+  beta,
+  erf,
+  erfc,
+  gamma,
+  lambertW,
+  lnGamma,
+  regularizedBeta,
+  regularizedGammaP,
+  regularizedGammaQ,
+} from '@/utils/special-functions'
+import { tryEvaluateExpression } from '@/utils/expression-evaluator'
+import { EvaluationContext } from '@/types/expression'
+
+const evaluate = (expression: string, context: Partial<EvaluationContext> = {}): number => {
+  const result = tryEvaluateExpression(expression, { angleMode: 'rad', ...context })
+  if (!result.ok) throw new Error(`'${expression}' failed: ${result.error.message}`)
+  return result.value
+}
+
+const textOf = (expression: string, context: Partial<EvaluationContext> = {}): string => {
+  const result = tryEvaluateExpression(expression, { angleMode: 'rad', ...context })
+  if (!result.ok) throw new Error(`'${expression}' failed: ${result.error.message}`)
+  return result.text
+}
+
+const errorOf = (expression: string) => {
+  const result = tryEvaluateExpression(expression, { angleMode: 'rad' })
+  return result.ok ? null : result.error.code
+}
+
+describe('gamma and beta', () => {
+  test('should be exact at the integers', () => {
+    expect(gamma(1)).toBe(1)
+    expect(gamma(6)).toBe(120)
+    expect(gamma(171)).toBe(gamma(170) * 170)
+  })
+
+  test('should extend the factorial to the reals', () => {
+    expect(gamma(0.5)).toBeCloseTo(Math.sqrt(Math.PI), 14)
+    expect(gamma(-0.5)).toBeCloseTo(-2 * Math.sqrt(Math.PI), 14)
+    expect(gamma(2.5)).toBeCloseTo(0.75 * Math.sqrt(Math.PI), 14)
+    expect(gamma(0)).toBeNaN()
+    expect(gamma(-3)).toBeNaN()
+  })
+
+  test('should take the logarithm beyond where gamma overflows', () => {
+    expect(lnGamma(10)).toBeCloseTo(Math.log(362880), 12)
+    expect(lnGamma(0.5)).toBeCloseTo(Math.log(Math.PI) / 2, 14)
+    expect(lnGamma(1000)).toBeCloseTo(5905.220423209181, 9)
+    expect(lnGamma(-2)).toBe(Infinity)
+  })
+
+  test('should compute the beta function', () => {
+    expect(beta(2, 3)).toBeCloseTo(1 / 12, 15)
+    expect(beta(0.5, 0.5)).toBeCloseTo(Math.PI, 14)
+    expect(beta(200, 200)).toBeCloseTo(Math.exp(2 * lnGamma(200) - lnGamma(400)), 300)
+    expect(beta(0, 2)).toBeNaN()
+  })
+})
+
+describe('incomplete gamma and beta', () => {
+  test('should match the closed forms of the incomplete gamma function', () => {
+    ;[0.1, 1, 3, 30].forEach(x => {
+      expect(regularizedGammaP(1, x)).toBeCloseTo(-Math.expm1(-x), 15)
+      expect(regularizedGammaP(0.5, x)).toBeCloseTo(erf(Math.sqrt(x)), 15)
+      expect(regularizedGammaP(4.5, x) + regularizedGammaQ(4.5, x)).toBeCloseTo(1, 15)
+    })
+    expect(regularizedGammaQ(1, 50) / Math.exp(-50)).toBeCloseTo(1, 13)
+    expect(regularizedGammaP(2, 0)).toBe(0)
+    expect(regularizedGammaP(0, 1)).toBeNaN()
+  })
+
+  test('should match the closed forms of the incomplete beta function', () => {
+    ;[0.05, 0.3, 0.9].forEach(x => {
+      expect(regularizedBeta(x, 1, 1)).toBeCloseTo(x, 15)
+      expect(regularizedBeta(x, 3, 1)).toBeCloseTo(x ** 3, 15)
+      expect(regularizedBeta(x, 2.5, 7) + regularizedBeta(1 - x, 7, 2.5)).toBeCloseTo(1, 14)
+    })
+    // I_x(2, 3) is the chance of at least 2 successes in 4 trials
+    expect(regularizedBeta(0.3, 2, 3)).toBeCloseTo(1 - 0.7 ** 4 - 4 * 0.3 * 0.7 ** 3, 14)
+    expect(regularizedBeta(1, 2, 3)).toBe(1)
+    expect(regularizedBeta(1.5, 2, 3)).toBeNaN()
+  })
+})
+
+describe('error functions', () => {
+  test('should be odd and tend to one', () => {
+    expect(erf(0)).toBe(0)
+    expect(erf(0.5)).toBeCloseTo(0.5204998778130465, 15)
+    expect(erf(-1)).toBeCloseTo(-0.8427007929497149, 15)
+    expect(erf(5)).toBeCloseTo(1 - 1.5374597944280349e-12, 15)
+    expect(erf(10)).toBe(1)
+  })
+
+  test('should keep the small values of erfc', () => {
+    expect(erfc(1)).toBeCloseTo(0.15729920705028513, 15)
+    expect(erfc(10) / 2.088487583762545e-45).toBeCloseTo(1, 12)
+    expect(erfc(-1)).toBeCloseTo(2 - 0.15729920705028513, 15)
+  })
+})
+
+describe('Bessel functions', () => {
+  test('should compute the first kind', () => {
+    expect(besselJ(0, 1)).toBeCloseTo(0.7651976865579666, 15)
+    expect(besselJ(1, 2.5)).toBeCloseTo(0.4970941024642741, 15)
+    expect(besselJ(5, 10)).toBeCloseTo(-0.23406152818679365, 14)
+    expect(besselJ(-1, 2.5)).toBeCloseTo(-besselJ(1, 2.5), 15)
+    expect(besselJ(2, 0)).toBe(0)
+  })
+
+  test('should compute the second kind', () => {
+    expect(besselY(0, 1)).toBeCloseTo(0.08825696421567697, 14)
+    expect(besselY(1, 1)).toBeCloseTo(-0.7812128213002887, 14)
+    expect(besselY(3, 5)).toBeCloseTo(0.14626716269319237, 13)
+    expect(besselY(0, 0)).toBeNaN()
+  })
+
+  test('should satisfy the Wronskian', () => {
+    ;[0.3, 4, 25].forEach(x => {
+      const wronskian = besselJ(1, x) * besselY(0, x) - besselJ(0, x) * besselY(1, x)
+      expect(wronskian).toBeCloseTo(2 / (Math.PI * x), 13)
+    })
+  })
+})
+
+describe('lambertW', () => {
+  test('should invert w·eʷ on the principal branch', () => {
+    expect(lambertW(0)).toBe(0)
+    expect(lambertW(Math.E)).toBeCloseTo(1, 15)
+    expect(lambertW(1)).toBeCloseTo(0.5671432904097838, 15)
+    expect(lambertW(-1 / Math.E)).toBe(-1)
+    ;[1e-10, 0.3, 50, 1e300].forEach(x => {
+      const w = lambertW(x)
+      expect((w + Math.log(w)) / Math.log(x)).toBeCloseTo(1, 14)
+    })
+  })
+
+  test('should invert w·eʷ on the lower branch', () => {
+    const w = lambertW(-0.1, -1)
+    expect(w).toBeLessThan(-1)
+    expect(w * Math.exp(w)).toBeCloseTo(-0.1, 15)
+    expect(lambertW(0.5, -1)).toBeNaN()
+    expect(lambertW(-1)).toBeNaN()
+  })
+})
+
+describe('special expression functions', () => {
+  test('should evaluate the special functions', () => {
+    expect(evaluate('0.5!')).toBeCloseTo(Math.sqrt(Math.PI) / 2, 14)
+    expect(evaluate('gamma(5)')).toBe(24)
+    expect(evaluate('lngamma(100)')).toBeCloseTo(359.1342053695754, 10)
+    expect(evaluate('beta(2, 3)')).toBeCloseTo(1 / 12, 15)
+    expect(evaluate('erf(1) + erfc(1)')).toBeCloseTo(1, 15)
+    expect(evaluate('besselj(0, 1)')).toBeCloseTo(0.7651976865579666, 15)
+    expect(evaluate('bessely(1, 1)')).toBeCloseTo(-0.7812128213002887, 14)
+    expect(evaluate('lambertw(1)')).toBeCloseTo(0.5671432904097838, 15)
+    expect(evaluate('lambertw(-0.1, -1)')).toBeCloseTo(lambertW(-0.1, -1), 15)
+  })
+
+  test('should evaluate the reciprocal trigonometric functions in the angle mode', () => {
+    expect(evaluate('sec(60)', { angleMode: 'deg' })).toBeCloseTo(2, 14)
+    expect(evaluate('csc(30)', { angleMode: 'deg' })).toBeCloseTo(2, 14)
+    expect(evaluate('cot(45)', { angleMode: 'deg' })).toBeCloseTo(1, 14)
+    expect(evaluate('cot(1)')).toBeCloseTo(1 / Math.tan(1), 15)
+  })
+
+  test('should evaluate the hyperbolic functions and their inverses', () => {
+    expect(evaluate('asinh(sinh(1.5))')).toBeCloseTo(1.5, 14)
+    expect(evaluate('acosh(2)')).toBeCloseTo(Math.acosh(2), 15)
+    expect(evaluate('atanh(0.5)')).toBeCloseTo(Math.atanh(0.5), 15)
+  })
+
+  test('should report arguments outside the domain', () => {
+    expect(errorOf('(-2)!')).toBe('domain')
+    expect(errorOf('gamma(0)')).toBe('domain')
+    expect(errorOf('csc(0)')).toBe('domain')
+    expect(errorOf('acosh(0.5)')).toBe('domain')
+    expect(errorOf('atanh(1)')).toBe('domain')
+    expect(errorOf('bessely(0, 0)')).toBe('domain')
+    expect(errorOf('besselj(0.5, 1)')).toBe('domain')
+    expect(errorOf('lambertw(-1)')).toBe('domain')
+  })
+
+  test('should compute in decimal arithmetic', () => {
+    expect(textOf('sec(60)', { angleMode: 'deg', precision: 20 })).toBe('2')
+    expect(textOf('atanh(0)', { precision: 20 })).toBe('0')
+    expect(textOf('erf(1)', { precision: 20 })).toBe('≈0.842700792949715')
+  })
+
+  test('should return the principal complex value outside the real domain', () => {
+    expect(parseFloat(textOf('acosh(0.5)', { complex: true }))).toBeCloseTo(Math.PI / 3, 14)
+    expect(textOf('acosh(0.5)', { complex: true })).toMatch(/i$/)
+    expect(textOf('acosh(2)', { complex: true })).toBe(String(Math.acosh(2)))
+  })
+})
@@ -0,0 +1,119 @@
+/**
+ * Unit Tests for Statistics
+ * Covers the statistics over each arithmetic, data lists in expressions and pasted tables
+ */
+
+import { EvaluationContext } from '@/types/expression'
+import { tryEvaluateExpression } from '@/utils/expression-evaluator'
+import { floatArithmetic, parseDataTable, quantile } from '@/utils/statistics'
+
+const lists = { L1: ['2', '4', '4', '4', '5', '5', '7', '9'], L2: ['1/3', '1/6'] }
+
+/**
+ * Evaluate with the data lists in scope and return the result text, failing the test on errors
+ */
+const evaluate = (source: string, settings: Partial<EvaluationContext> = {}) => {
+  const result = tryEvaluateExpression(source, { angleMode: 'rad', lists, ...settings })
+  if (!result.ok) throw new Error(`'${source}' failed: ${result.error.message}`)
+  return result.text
+}
+
+const errorOf = (source: string, settings: Partial<EvaluationContext> = {}) => {
+  const result = tryEvaluateExpression(source, { angleMode: 'rad', lists, ...settings })
+  if (result.ok) throw new Error(`Expected '${source}' to fail`)
+  return result.error
+}
+
+describe('statistics', () => {
+  test('should summarize a data list', () => {
+    expect(evaluate('count(L1)')).toBe('8')
+    expect(evaluate('sum(L1)')).toBe('40')
+    expect(evaluate('mean(L1)')).toBe('5')
+    expect(evaluate('median(L1)')).toBe('4.5')
+    expect(evaluate('mode(L1)')).toBe('4')
+    expect(evaluate('pvariance(L1)')).toBe('4')
+    expect(evaluate('pstdev(L1)')).toBe('2')
+    expect(evaluate('variance(L1)')).toBe(String(32 / 7))
+    expect(evaluate('min(L1) + max(L1)')).toBe('11')
+    expect(evaluate('mean(1, 2, 6)')).toBe('3')
+    expect(evaluate('mean(L1, 14)')).toBe('6')
+  })
+
+  test('should interpolate quartiles and percentiles', () => {
+    expect(evaluate('quartile(L1, 1)')).toBe('4')
+    expect(evaluate('quartile(L1, 3)')).toBe('5.5')
+    expect(evaluate('quartile(L1, 4)')).toBe('9')
+    expect(evaluate('percentile(L1, 90)')).toBe('7.6')
+    expect(evaluate('percentile(1, 2, 3, 4, 50)')).toBe('2.5')
+    expect(quantile(floatArithmetic, [3, 1, 2], 0)).toBe(1)
+  })
+
+  test('should keep every arithmetic exact where it can', () => {
+    expect(evaluate('mean(L2)', { fractions: true })).toBe('1/4')
+    expect(evaluate('pvariance(L2)', { fractions: true })).toBe('1/144')
+    expect(evaluate('pstdev(L2)', { fractions: true })).toBe('1/12')
+    expect(evaluate('mean(L1)', { precision: 20 })).toBe('5')
+    expect(evaluate('stdev(1, 2)', { precision: 20 })).toBe('0.7071067811865475244')
+    expect(evaluate('median(L1)', { complex: true })).toBe('4.5')
+  })
+
+  test('should read lists as columns and matrices as values in float arithmetic', () => {
+    expect(evaluate('L2 * 6')).toBe('[2; 1]')
+    expect(evaluate('mean([1, 2; 3, 6])')).toBe('3')
+    expect(evaluate('max(2 L1)')).toBe('18')
+  })
+
+  test('should report lists that do not fit', () => {
+    expect(errorOf('variance(3)').message).toBe('variance is only defined for two or more values')
+    expect(errorOf('quartile(L1, 5)').message).toBe(
+      'quartile is only defined for a whole-number last argument from 0 to 4'
+    )
+    expect(errorOf('L1 + 1', { fractions: true })).toMatchObject({
+      code: 'domain',
+      message: "'L1' is a list; use it in a function such as mean(L1)",
+    })
+    expect(errorOf('L3').code).toBe('unknown-identifier')
+  })
+
+  test('should reject statistics of empty data in every arithmetic', () => {
+    const empty = { lists: { E: [] } }
+    for (const settings of [{}, { precision: 20 }, { fractions: true }, { complex: true }]) {
+      for (const source of ['median(E)', 'mode(E)', 'mean(E)', 'quartile(E, 1)']) {
+        expect(errorOf(source, { ...empty, ...settings }).code).toBe('domain')
+      }
+    }
+    expect(errorOf('median(E)', empty).message).toBe('median needs at least 1 value, not 0')
+    expect(errorOf('percentile(E, 50)', empty).message).toBe(
+      'percentile needs at least 2 values, not 1'
+    )
+    expect(errorOf('E * 2', empty).message).toBe("'E' is an empty list")
+    expect(evaluate('sum(E, 3)', empty)).toBe('3')
+  })
+})
+
+describe('parseDataTable', () => {
+  test('should read CSV and TSV columns with headings', () => {
+    expect(parseDataTable('x,y\n1,2\n3,4\n5,\n')).toEqual({
+      headings: ['x', 'y'],
+      columns: [
+        ['1', '3', '5'],
+        ['2', '4'],
+      ],
+    })
+    expect(parseDataTable('1\t10\r\n2\t20')).toEqual({
+      headings: null,
+      columns: [
+        ['1', '2'],
+        ['10', '20'],
+      ],
+    })
+  })
+
+  test('should read a single row or whitespace-separated values as one list', () => {
+    expect(parseDataTable('1, 2, 3').columns).toEqual([['1', '2', '3']])
+    expect(parseDataTable('1 2\n3 4').columns).toEqual([
+      ['1', '3'],
+      ['2', '4'],
+    ])
+  })
+})
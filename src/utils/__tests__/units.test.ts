@@ -0,0 +1,124 @@
+/**
+ * Unit Tests for Units of Measurement
+ * Covers unit lookup, the Quantity type and unit-aware floating-point evaluation
+ */
+
+import { tryEvaluateExpression } from '@/utils/expression-evaluator'
+import { lookupUnit, Quantity } from '@/utils/units'
+
+/**
+ * Evaluate in float mode and return the result text, failing the test on errors
+ */
+const quantity = (source: string) => {
+  const result = tryEvaluateExpression(source, { angleMode: 'rad' })
+  if (!result.ok) throw new Error(`'${source}' failed: ${result.error.message}`)
+  return result.text
+}
+
+const errorOf = (source: string) => {
+  const result = tryEvaluateExpression(source, { angleMode: 'rad' })
+  if (result.ok) throw new Error(`Expected '${source}' to fail`)
+  return result.error
+}
+
+describe('units', () => {
+  test('should look up units with and without SI prefixes', () => {
+    expect(lookupUnit('km')).toMatchObject({ factor: 1000, description: 'kilometre' })
+    expect(lookupUnit('kg')?.factor).toBe(1)
+    expect(lookupUnit('ns')?.factor).toBe(1e-9)
+    expect(lookupUnit('µs')?.factor).toBe(1e-6)
+    expect(lookupUnit('min')?.factor).toBe(60)
+    expect(lookupUnit('kft')).toBeUndefined()
+    expect(lookupUnit('k')).toBeUndefined()
+  })
+
+  test('should keep units and print text that reads back', () => {
+    const speed = new Quantity(72, [
+      { unit: 'km', power: 1 },
+      { unit: 'h', power: -1 },
+    ])
+    expect(speed.toString()).toBe('72 km/h')
+    expect(
+      speed
+        .convertTo([
+          { unit: 'm', power: 1 },
+          { unit: 's', power: -1 },
+        ])
+        .toString()
+    ).toBe('20 m/s')
+    expect(quantity('6.6743e-11 m^3/(kg s^2)')).toBe('6.6743e-11 m^3/(kg s^2)')
+    expect(quantity('5 s^-1')).toBe('5 s^-1')
+  })
+})
+
+describe('unit-aware evaluation', () => {
+  test('should multiply and divide units, merging units of the same kind', () => {
+    expect(quantity('3 m/s * 2 min')).toBe('360 m')
+    expect(quantity('72 km/h')).toBe('72 km/h')
+    expect(quantity('2 m * 3 m')).toBe('6 m^2')
+    expect(quantity('10 m / 2 s')).toBe('5 m/s')
+    expect(quantity('1 m / 1 m')).toBe('1')
+    expect(quantity('1 km / 1 m')).toBe('1000')
+    expect(quantity('6.62607015e-34 J s')).toBe('6.62607015e-34 J s')
+    expect(quantity('10 kg * 9.81 m/s^2')).toBe('98.10000000000001 kg m/s^2')
+  })
+
+  test('should convert with to', () => {
+    expect(quantity('72 km/h to m/s')).toBe('20 m/s')
+    expect(quantity('100 km / 2 h to km/h')).toBe('50 km/h')
+    expect(quantity('6 J / 2 s to W')).toBe('3 W')
+    expect(quantity('1 mi to km')).toBe('1.609344 km')
+    expect(quantity('5 ft + 6 in')).toBe('5.5 ft')
+    expect(quantity('1 acre to m^2')).toBe('4046.8564224 m^2')
+    expect(quantity('(1 kWh to J) / 2')).toBe('1800000 J')
+    expect(quantity('2 (3 ft to in)')).toBe('72 in')
+    expect(quantity('1 km/h/s')).toBe('3600 km/h^2')
+    expect(quantity('1 km / 1 h / 1 s to km/h^2')).toBe('3600 km/h^2')
+  })
+
+  test('should convert temperatures between scales but add them as differences', () => {
+    expect(quantity('1 K to degC')).toBe('-272.15 degC')
+    expect(quantity('0 degC to K')).toBe('273.15 K')
+    expect(quantity('100 degC to degF')).toBe('212 degF')
+    expect(quantity('32 degF to degC')).toBe('0 degC')
+    expect(quantity('-40 degF to degC')).toBe('-40 degC')
+    expect(quantity('0 degC > 0 degF')).toBe('1')
+    expect(quantity('20 degC + 9 degF')).toBe('25 degC')
+    expect(quantity('2 degC * 3')).toBe('6 degC')
+    expect(lookupUnit('kdegC')).toBeUndefined()
+  })
+
+  test('should apply powers and functions to units', () => {
+    expect(quantity('sqrt(16 m^2)')).toBe('4 m')
+    expect(quantity('(3 m)^2')).toBe('9 m^2')
+    expect(quantity('abs(-2 N)')).toBe('2 N')
+    expect(quantity('max(1 ft, 30 cm)')).toBe('1 ft')
+    expect(quantity('sin(pi / 2)')).toBe('1')
+    expect(quantity('2 m > 150 cm')).toBe('1')
+    expect(quantity('0 + 3 m')).toBe('3 m')
+  })
+
+  test('should report mismatched units', () => {
+    expect(errorOf('3 m + 2 s')).toMatchObject({
+      code: 'units',
+      message: 'Cannot add m and s',
+      start: 0,
+      end: 9,
+    })
+    expect(errorOf('72 km/h to kg').message).toBe('Cannot convert km/h to kg')
+    expect(errorOf('sin(3 m)')).toMatchObject({ code: 'units', start: 4, end: 7 })
+    expect(errorOf('2 ^ (1 s)').code).toBe('units')
+    expect(errorOf('sqrt(2 m)').code).toBe('units')
+    expect(errorOf('3 m to 2 ft').code).toBe('units')
+    expect(errorOf('q + 1').code).toBe('unknown-identifier')
+  })
+
+  test('should let variables hide units and explain units outside float arithmetic', () => {
+    const context = { angleMode: 'rad' as const, variables: { m: '2' } }
+    expect(tryEvaluateExpression('3 m', context)).toMatchObject({ ok: true, text: '6' })
+    const fraction = tryEvaluateExpression('3 m', { angleMode: 'rad', fractions: true })
+    expect(!fraction.ok && fraction.error.message).toBe(
+      "'m' is a unit, which needs float arithmetic"
+    )
+  })
+})
@@ -0,0 +1,44 @@
+/**
+ * Unit Tests for Workspace Persistence
+ * Round-trips variables, functions and lists through JSON and drops entries that no longer validate
+ */
+
+import { parseWorkspace, serializeWorkspace } from '@/utils/workspace'
+
+describe('workspace', () => {
+  test('should round-trip variables, functions and lists', () => {
+    const workspace = {
+      variables: { x: '3.2', z: '3+4i' },
+      functions: {
+        f: { name: 'f', params: ['x', 'y'], body: 'sqrt(x^2 + y^2)' },
+        g: { name: 'g', params: ['n'], body: 'if(n <= 0, 0, f(n, x) + g(n - 1))' },
+      },
+      lists: { L1: ['1', '2.5', '1/3'] },
+    }
+    expect(parseWorkspace(serializeWorkspace(workspace))).toEqual(workspace)
+  })
+
+  test('should drop entries that do not validate', () => {
+    const json = JSON.stringify({
+      version: 1,
+      variables: { pi: '3', y: '2', w: 'not a number (' },
+      functions: [
+        { name: 'loop', params: ['n'], body: 'loop(n)' },
+        { name: 'h', params: ['t'], body: 't + q' },
+        { name: 'k', params: ['t'], body: 't * y' },
+        { name: 'bad', params: 't', body: 't' },
+      ],
+      lists: { L1: ['1', '2'], L2: ['1', '('], mean: ['1'], L3: [] },
+    })
+    expect(parseWorkspace(json)).toEqual({
+      variables: { y: '2' },
+      functions: { k: { name: 'k', params: ['t'], body: 't * y' } },
+      lists: { L1: ['1', '2'] },
+    })
+  })
+
+  test('should ignore text that is not a saved workspace', () => {
+    expect(parseWorkspace('{')).toBeNull()
+    expect(parseWorkspace('{"version": 2}')).toBeNull()
+  })
+})
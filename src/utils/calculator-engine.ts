@@ -0,0 +1,1783 @@
+/**
+ * Calculator Engine
+ * Framework-independent keypad state machine shared by every calculator surface.
+ * `calculatorReducer(state, action)` is pure: it never mutates its input and has no side effects,
+ * except that before SEED the random keys and functions draw from Math.random.
+ *
+ * Three entry modes are supported:
+ * - immediate: `previousValue` and `operation` hold the running result (2 + 3 × 4 = 20)
+ * - algebraic: `expression` holds the pending expression text, evaluated with precedence
+ *   and real parentheses (2 + 3 × 4 = 14); `previousValue` and `operation` remember the last
+ *   operator key so another one straight after it replaces it (2 + × 3 = 6)
+ * - rpn: the display is the X register and `stack` holds the levels above it (2 ENTER 3 +)
+ *
+ * Values are carried as number text, so in decimal arithmetic every digit of a result
+ * survives the trip through the display, history, memory and the stack, and in fraction
+ * arithmetic a value such as `1/3` stays exact while an inexact one such as √2 is carried and
+ * shown as the approximate decimal `≈1.4142135623730951`.
+ *
+ * Typed input (`evaluate-input`) is evaluated with the user variables and history references
+ * (`ans`, `ans1`, ...) in scope; `x = 3.2` stores a variable and `f(x) = x^2` defines a
+ * function. A one-argument user function can be used as a function key and a two-argument one
+ * as an operator key (`2 f 3` → `f(2, 3)`).
+ *
+ * Programmer arithmetic computes with integers of a fixed word size (`wordSize`); the HEX, DEC,
+ * OCT and BIN keys switch to it and choose the base entries are typed in (A–F in hexadecimal).
+ * Its values are carried as decimal text like any other and shown in the base by formatDisplay.
+ *
+ * Data lists (`lists`) are read by statistics functions (`mean(L1)`); Σ+ appends the current
+ * entry to the statistics list L1, which the L1 key recalls as a column in float arithmetic.
+ * `fit-regression` fits one list against another, defines the prediction as the user function
+ * `fit(x)` and stores the residuals in the list RESID.
+ *
+ * The finance keys work the time-value-of-money registers (`tvm`): N, I/Y, PV, PMT and FV store
+ * the value shown, and after CPT they compute their register from the other four instead.
+ * The RATE key stores the value shown as the tax rate (`taxRate`) of the tax keys.
+ * The HYP key (`hyp-shift`) sets `hyperbolic`, which makes the next trigonometric key its
+ * hyperbolic counterpart.
+ *
+ * The SEED key (`random-seed`) seeds the generator whose state (`randomState`) rand, randint and
+ * the distribution samplers draw from, so the same seed repeats the same draws. The comma key
+ * adds arguments to a named operator: `3 binomcdf 10 , 0.5` → `binomcdf(3, 10, 0.5)`.
+ */
+
+import {
+  ArithmeticMode,
+  CalculatorState,
+  ComplexForm,
+  EntryMode,
+  FractionForm,
+  HistoryEntry,
+  NumberBase,
+  TvmState,
+} from '@/types/calculator'
+import { AngleMode, EvaluationContext, WordSize } from '@/types/expression'
+import { CalculatorError, EvaluationResult } from '@/utils/calculator-errors'
+import {
+  checkVariableName,
+  defineFunction,
+  evaluateFunction,
+  evaluateOperation,
+  formatOperand,
+  parseInput,
+  radiansToDegrees,
+} from '@/utils/calculator-math'
+import { formatEstimate } from '@/utils/calculus'
+import { Complex } from '@/utils/complex'
+import { Decimal } from '@/utils/decimal'
+import { distributionFunctionNames, distributions } from '@/utils/distributions'
+import { builtinFunctions, hasEntry, tryEvaluateExpression } from '@/utils/expression-evaluator'
+import { APPROXIMATE } from '@/utils/expression-parser'
+import { tokenize } from '@/utils/expression-tokenizer'
+import {
+  DEFAULT_TVM_SETTINGS,
+  solveTvm,
+  TvmSettings,
+  TvmValues,
+  TvmVariable,
+  tvmVariables,
+} from '@/utils/finance'
+import {
+  basePrefix,
+  bitPattern,
+  DEFAULT_WORD_SIZE,
+  digitValue,
+  flipBit,
+  formatInteger,
+  numberBases,
+  parseInteger,
+  wrap,
+} from '@/utils/programmer'
+import { constantExpression, physicalConstants } from '@/utils/physical-constants'
+import { RandomGenerator, seedState } from '@/utils/random'
+import { Rational } from '@/utils/rational'
+import { fitRegression as fitModel, RegressionModel } from '@/utils/regression'
+
+export type CalculatorAction =
+  | { type: 'press'; value: string }
+  | { type: 'set-display'; value: string }
+  | { type: 'set-angle-mode'; angleMode: AngleMode }
+  | { type: 'set-entry-mode'; entryMode: EntryMode }
+  | { type: 'set-arithmetic'; arithmetic: ArithmeticMode }
+  | { type: 'set-precision'; precision: number }
+  | { type: 'set-fraction-form'; fractionForm: FractionForm }
+  | { type: 'set-complex-form'; complexForm: ComplexForm }
+  | { type: 'set-word-size'; wordSize: WordSize }
+  | { type: 'toggle-bit'; bit: number }
+  | { type: 'clear-history' }
+  | { type: 'evaluate-input'; input: string }
+  | { type: 'set-variable'; name: string; value: string }
+  | { type: 'delete-variable'; name: string }
+  | { type: 'delete-function'; name: string }
+  | { type: 'set-list'; name: string; values: string[] }
+  | { type: 'delete-list'; name: string }
+  | { type: 'fit-regression'; model: RegressionModel; x: string; y: string; degree?: number }
+  | { type: 'set-tvm-value'; variable: TvmVariable; value: string }
+  | { type: 'set-tvm-settings'; settings: TvmSettings }
+  | { type: 'solve-tvm'; variable: TvmVariable }
+  | { type: 'set-tax-rate'; taxRate: number }
+  | { type: 'seed-random'; seed: number }
+
+/**
+ * Distribution keys taking the value and then the parameters (2.1 tcdf 10 → tcdf(2.1, 10)), with
+ * the number of operands each takes from the RPN stack: the value and every parameter. The
+ * standard normal keys (normcdf) are function keys instead.
+ */
+const distributionKeyOperands: Record<string, number> = Object.fromEntries(
+  distributions
+    .filter(({ name }) => name !== 'norm')
+    .flatMap(distribution => {
+      const { density, cdf, inverse } = distributionFunctionNames(distribution)
+      return [density, cdf, inverse].map(key => [key, distribution.parameters.length + 1])
+    })
+)
+
+/**
+ * Operators that combine the previous value with the current entry; named ones such as
+ * `nroot` become calls, `27 nroot 3` → `nroot(27, 3)`
+ */
+export const keypadOperators = [
+  '+',
+  '-',
+  '*',
+  '/',
+  '^',
+  'nroot',
+  'polar',
+  'solve',
+  'dot',
+  'cross',
+  'quartile',
+  'percentile',
+  'and',
+  'or',
+  'xor',
+  'lshift',
+  'rshift',
+  'rol',
+  'ror',
+  'npv',
+  'pctchange',
+  'sellmargin',
+  'costmargin',
+  'margin',
+  'sellmarkup',
+  'costmarkup',
+  'markup',
+  'discount',
+  'tip',
+  'split',
+  'randint',
+  ...Object.keys(distributionKeyOperands),
+]
+
+/**
+ * Number of arguments of the user function a key names, or undefined for other keys
+ */
+const userFunctionArity = (state: CalculatorState, value: string): number | undefined =>
+  hasEntry(state.functions, value) ? state.functions[value].params.length : undefined
+
+/**
+ * Keys that combine two operands: the keypad operators and two-argument user functions
+ */
+const isOperatorKey = (state: CalculatorState, value: string): boolean =>
+  keypadOperators.includes(value) || userFunctionArity(state, value) === 2
+
+/**
+ * Keys that apply a function to the current entry: built-ins and one-argument user functions
+ */
+const isFunctionKey = (state: CalculatorState, value: string): boolean =>
+  hasEntry(builtinFunctions, value) || userFunctionArity(state, value) === 1
+
+/**
+ * Binding strength of keypad operators in algebraic mode
+ */
+const operatorPrecedence: Record<string, number> = {
+  '+': 1,
+  '-': 1,
+  '*': 2,
+  '/': 2,
+  '^': 3,
+  nroot: 3,
+  polar: 3,
+  solve: 3,
+  dot: 3,
+  cross: 3,
+  quartile: 3,
+  percentile: 3,
+  and: 3,
+  or: 3,
+  xor: 3,
+  lshift: 3,
+  rshift: 3,
+  rol: 3,
+  ror: 3,
+  npv: 3,
+  pctchange: 3,
+  sellmargin: 3,
+  costmargin: 3,
+  margin: 3,
+  sellmarkup: 3,
+  costmarkup: 3,
+  markup: 3,
+  discount: 3,
+  tip: 3,
+  split: 3,
+  randint: 3,
+  ...Object.fromEntries(Object.keys(distributionKeyOperands).map(key => [key, 3])),
+}
+
+/**
+ * Constants that replace the current entry when their key is pressed, as expression text
+ * so they are computed to the current precision; every physical constant has a key by its
+ * name, carrying its units in float arithmetic and a plain number in the others. The
+ * statistics list key recalls L1, and the random keys enter a draw.
+ */
+export const keypadConstants: Record<string, string> = {
+  pi: 'pi',
+  e: 'e',
+  phi: 'phi',
+  ...Object.fromEntries(physicalConstants.map(entry => [entry.name, constantExpression(entry)])),
+  L1: 'L1',
+  rand: 'rand()',
+  normrand: 'normrand()',
+}
+
+/**
+ * Keys the HYP key shifts to while it is active
+ */
+export const hyperbolicKeys: Record<string, string> = {
+  sin: 'sinh',
+  cos: 'cosh',
+  tan: 'tanh',
+  asin: 'asinh',
+  acos: 'acosh',
+  atan: 'atanh',
+}
+
+/**
+ * Data list the Σ+ (`list-add`) and CLΣ (`list-clear`) keys collect values in
+ */
+export const STATISTICS_LIST = 'L1'
+
+/**
+ * User function holding the prediction of the last regression, and the list of its residuals
+ */
+export const FIT_FUNCTION = 'fit'
+export const RESIDUAL_LIST = 'RESID'
+
+/**
+ * Expression text of a constant key in the state's arithmetic; units need float arithmetic
+ */
+const constantSource = (state: CalculatorState, key: string): string => {
+  const source = keypadConstants[key]
+  return state.arithmetic === 'float' ? source : source.split(' ')[0]
+}
+
+/**
+ * Range of significant digits accepted in decimal arithmetic
+ */
+export const MIN_PRECISION = 1
+export const MAX_PRECISION = 1000
+
+/**
+ * Ways of showing a fraction, in the order the fraction-form key cycles through them
+ */
+export const fractionFormOptions: { form: FractionForm; label: string; title: string }[] = [
+  { form: 'fraction', label: 'a/b', title: 'Improper fraction (7/2)' },
+  { form: 'mixed', label: 'a b/c', title: 'Mixed number (3 1/2)' },
+  { form: 'decimal', label: '0.(3)', title: 'Decimal with the repeating digits in parentheses' },
+]
+
+/**
+ * Ways of showing a complex number, in the order the complex-form key cycles through them
+ */
+export const complexFormOptions: { form: ComplexForm; label: string; title: string }[] = [
+  { form: 'rectangular', label: 'a+bi', title: 'Real and imaginary parts (3+4i)' },
+  { form: 'polar', label: 'r∠θ', title: 'Modulus and angle in the current angle mode (5∠53.13)' },
+]
+
+const initialTvm: TvmState = {
+  values: { n: '0', iy: '0', pv: '0', pmt: '0', fv: '0' },
+  settings: DEFAULT_TVM_SETTINGS,
+  computing: false,
+}
+
+/**
+ * Create a fresh calculator state
+ */
+export const createInitialState = (overrides: Partial<CalculatorState> = {}): CalculatorState => ({
+  display: '0',
+  previousValue: null,
+  operation: null,
+  waitingForNewValue: false,
+  memory: '0',
+  history: [],
+  error: null,
+  angleMode: 'rad',
+  entryMode: 'immediate',
+  expression: '',
+  stack: [],
+  lastX: '0',
+  stackLift: false,
+  arithmetic: 'float',
+  precision: 32,
+  fractionForm: 'fraction',
+  complexForm: 'rectangular',
+  wordSize: DEFAULT_WORD_SIZE,
+  base: 'dec',
+  variables: {},
+  functions: {},
+  lists: {},
+  regression: null,
+  tvm: initialTvm,
+  taxRate: 0,
+  randomState: null,
+  hyperbolic: false,
+  ...overrides,
+})
+
+/**
+ * Whether number text is a fraction (`1/3`) or a repeating decimal (`0.(3)`)
+ */
+const isRationalText = (text: string): boolean => text.includes('/') || text.includes('(')
+
+/**
+ * Canonical number text in the given arithmetic
+ * Fraction arithmetic keeps fractions exact, decimals as typed and approximations marked,
+ * decimal arithmetic keeps every typed digit and float and complex arithmetic round to doubles
+ */
+const canonicalText = (text: string, arithmetic: ArithmeticMode, precision: number): string => {
+  // A matrix ([1, 2; 3, 4]) only exists in float arithmetic and has no single number
+  if (text.startsWith('[')) {
+    return arithmetic === 'float' ? text : 'NaN'
+  }
+  // A value with units (360 m) only exists in float arithmetic; the others keep its number
+  const unitsStart = text.indexOf(' ')
+  if (unitsStart > 0) {
+    return arithmetic === 'float'
+      ? text
+      : canonicalText(text.slice(0, unitsStart), arithmetic, precision)
+  }
+  // An approximate result (≈1.414) stays marked in exact arithmetic, a float in fractions
+  if (text.startsWith(APPROXIMATE)) {
+    const exact = arithmetic === 'fraction' || arithmetic === 'decimal'
+    const value = canonicalText(
+      text.slice(APPROXIMATE.length),
+      arithmetic === 'fraction' ? 'float' : arithmetic,
+      precision
+    )
+    return exact ? `${APPROXIMATE}${value}` : value
+  }
+  try {
+    // A complex value such as 3+4i has no real counterpart
+    if (text.endsWith('i')) {
+      return arithmetic === 'complex' ? Complex.parse(text).toString() : 'NaN'
+    }
+    // Entries typed in another base (0xFF) keep their value; other values lose their fraction
+    if (arithmetic === 'programmer') {
+      const integer = parseInteger(text)
+      if (integer !== null) return integer.toString()
+      const value = Rational.parse(text)
+      return (value.numerator / value.denominator).toString()
+    }
+    if (isRationalText(text)) {
+      const value = Rational.parse(text)
+      if (arithmetic === 'fraction') return value.toString()
+      if (arithmetic === 'decimal') return value.toDecimal(precision).toString()
+      return String(value.toNumber())
+    }
+    if (arithmetic !== 'float') {
+      return Decimal.parse(text).toString()
+    }
+  } catch {
+    // Text set directly through set-display may not be a plain number
+  }
+  return String(parseFloat(text))
+}
+
+/**
+ * Canonical text of the current entry: `2.50` → `2.5`, an unfinished exponent `1e` → `1`,
+ * an unfinished repeating block `0.1()` → `0.1`
+ */
+export const getDisplayText = (state: CalculatorState): string => {
+  const text = canonicalText(
+    state.display.replace(/(\d)e-?$/, '$1').replace('()', ''),
+    state.arithmetic,
+    state.precision
+  )
+  // Programmer entries are read as a value of the word: 0xFF is -1 in a signed byte
+  const integer = state.arithmetic === 'programmer' ? parseInteger(text) : null
+  return integer === null ? text : wrap(integer, state.wordSize).toString()
+}
+
+/**
+ * The current value as an entry typed in the programmer base (0xFF), so more digits can follow
+ */
+const entryText = (state: CalculatorState): string => {
+  const text = getDisplayText(state)
+  const value = parseInteger(text)
+  return value === null ? text : formatInteger(value, state.base, state.wordSize)
+}
+
+/**
+ * Numeric value of the current entry
+ */
+export const getDisplayValue = (state: CalculatorState): number =>
+  parseFloat(canonicalText(getDisplayText(state), 'float', state.precision))
+
+/**
+ * Display text in the chosen fraction or complex form: a fraction result `7/2` shows as
+ * `3 1/2` or `3.5` (an approximate one as `≈1.414…`), a complex result `3+4i` as `5∠53.13…`
+ * and a programmer result in the chosen base (`0xFF`), while entries being typed show as they are
+ */
+export const formatDisplay = (state: CalculatorState): string => {
+  if (!state.waitingForNewValue) {
+    return state.display
+  }
+  try {
+    if (state.arithmetic === 'programmer') {
+      const value = parseInteger(state.display)
+      if (value !== null) {
+        return formatInteger(wrap(value, state.wordSize), state.base, state.wordSize)
+      }
+    }
+    if (state.arithmetic === 'fraction') {
+      return Rational.parse(state.display).format(state.fractionForm)
+    }
+    if (state.arithmetic === 'complex' && state.complexForm === 'polar') {
+      return Complex.parse(state.display).toPolarString(radians =>
+        state.angleMode === 'deg' ? radiansToDegrees(radians) : radians
+      )
+    }
+  } catch {
+    // Approximate results in fraction arithmetic (≈1.414) have no exact form to show
+  }
+  return state.display
+}
+
+/**
+ * One-line text of a history entry, `2 + 3 = 5`, followed by the error estimates of its
+ * calculus calls: `integrate(x^2, 0, 1) = 0.3333333333333333 (integrate ± 3.7e-15)`
+ */
+export const formatHistoryEntry = (entry: HistoryEntry): string => {
+  const text = `${entry.expression} = ${entry.result}`
+  return entry.estimates ? `${text} (${entry.estimates.map(formatEstimate).join(', ')})` : text
+}
+
+/**
+ * Names an expression can read: the user variables, `ans` for the last result (0 before the
+ * first) and `ans1`, `ans2`, ... for each history entry, numbered from the oldest
+ */
+export const scopeOf = (state: CalculatorState): Record<string, string> => {
+  const scope: Record<string, string> = { ...state.variables }
+  state.history.forEach((entry, index) => {
+    scope[`ans${index + 1}`] = entry.result
+  })
+  scope.ans = state.history.length ? state.history[state.history.length - 1].result : '0'
+  return scope
+}
+
+/**
+ * Generator of the state being reduced, run from its `randomState`; see withRandom
+ */
+let activeRandom: RandomGenerator | undefined
+
+const contextOf = (state: CalculatorState): EvaluationContext => {
+  const base = {
+    angleMode: state.angleMode,
+    variables: scopeOf(state),
+    functions: state.functions,
+    lists: state.lists,
+    taxRate: state.taxRate,
+    random: activeRandom,
+  }
+  switch (state.arithmetic) {
+    case 'decimal':
+      return { ...base, precision: state.precision }
+    case 'fraction':
+      return { ...base, fractions: true }
+    case 'complex':
+      return { ...base, complex: true }
+    case 'programmer':
+      return { ...base, word: state.wordSize }
+    default:
+      return base
+  }
+}
+
+/**
+ * Evaluate keypad-built expression text in the state's arithmetic
+ */
+const evaluate = (state: CalculatorState, source: string): EvaluationResult =>
+  tryEvaluateExpression(source, contextOf(state))
+
+/**
+ * State after a failed evaluation: pending operation dropped, error shown until the next key
+ */
+const withError = (state: CalculatorState, error: CalculatorError): CalculatorState => ({
+  ...state,
+  display: '0',
+  previousValue: null,
+  operation: null,
+  waitingForNewValue: true,
+  expression: '',
+  error,
+})
+
+/**
+ * Show a computed value as the new entry
+ */
+const withResult = (state: CalculatorState, value: string): CalculatorState => ({
+  ...state,
+  display: value,
+  waitingForNewValue: true,
+  // A recalled or computed value is an operand, so the next operator follows it
+  ...(state.entryMode === 'algebraic' && { operation: null }),
+})
+
+/**
+ * History entry of a successful evaluation, with the estimates of any calculus calls in it
+ */
+const historyEntry = (
+  expression: string,
+  evaluation: Extract<EvaluationResult, { ok: true }>
+): HistoryEntry =>
+  evaluation.estimates
+    ? { expression, result: evaluation.text, estimates: evaluation.estimates }
+    : { expression, result: evaluation.text }
+
+/**
+ * Show the result of an evaluation, or its error
+ */
+const withEvaluation = (state: CalculatorState, evaluation: EvaluationResult): CalculatorState =>
+  evaluation.ok ? withResult(state, evaluation.text) : withError(state, evaluation.error)
+
+/**
+ * Flip the sign of number text
+ */
+const negate = (value: string): string => {
+  if (value === '0') return value
+  if (value.startsWith(APPROXIMATE)) return `${APPROXIMATE}${negate(value.slice(1))}`
+  return value.startsWith('-') ? value.slice(1) : `-${value}`
+}
+
+/**
+ * Copy of a table without one entry
+ */
+const withoutEntry = <T>(table: Record<string, T>, key: string): Record<string, T> =>
+  Object.fromEntries(Object.entries(table).filter(([name]) => name !== key))
+
+/**
+ * Values for a data list: each entry is evaluated in the state's arithmetic and must be a real
+ * number without units
+ */
+const evaluateListEntries = (
+  state: CalculatorState,
+  entries: string[]
+): { ok: true; values: string[] } | { ok: false; error: CalculatorError } => {
+  const values: string[] = []
+  for (const entry of entries) {
+    const evaluation = evaluate(state, entry)
+    if (!evaluation.ok) {
+      return evaluation
+    }
+    if (isNaN(evaluation.value) || evaluation.text.includes(' ')) {
+      const error = new CalculatorError(
+        'domain',
+        'A list holds real numbers without units',
+        { start: 0, end: entry.length },
+        entry
+      )
+      return { ok: false, error }
+    }
+    values.push(evaluation.text)
+  }
+  return { ok: true, values }
+}
+
+/**
+ * Σ+: append the current entry to the statistics list
+ */
+const addToList = (
+  state: CalculatorState
+): { ok: true; lists: Record<string, string[]> } | { ok: false; error: CalculatorError } => {
+  const entries = evaluateListEntries(state, [formatOperand(getDisplayText(state))])
+  if (!entries.ok) {
+    return entries
+  }
+  const list = state.lists[STATISTICS_LIST] ?? []
+  return { ok: true, lists: { ...state.lists, [STATISTICS_LIST]: [...list, ...entries.values] } }
+}
+
+/**
+ * CLΣ: forget the statistics list
+ */
+const clearList = (state: CalculatorState): CalculatorState => ({
+  ...state,
+  lists: withoutEntry(state.lists, STATISTICS_LIST),
+})
+
+/**
+ * Add the current entry to memory (M+) or subtract it (M-)
+ */
+const accumulate = (state: CalculatorState, key: 'M+' | 'M-'): EvaluationResult =>
+  evaluate(
+    state,
+    `${formatOperand(state.memory)} ${key === 'M+' ? '+' : '-'} ${formatOperand(getDisplayText(state))}`
+  )
+
+const inputDigit = (state: CalculatorState, digit: string): CalculatorState => {
+  // Nothing follows the i of an imaginary entry
+  if (!state.waitingForNewValue && state.display.endsWith('i')) {
+    return state
+  }
+  // Inside a repeating block digits go before its closing parenthesis: 0.(3) → 0.(33)
+  if (!state.waitingForNewValue && state.display.endsWith(')')) {
+    return { ...state, display: state.display.slice(0, -1) + digit + ')' }
+  }
+  const display = state.waitingForNewValue || state.display === '0' ? digit : state.display + digit
+  return { ...state, display, waitingForNewValue: false }
+}
+
+/**
+ * Digit key in programmer arithmetic, 0–9 and A–F as far as the base has them: 0xF → 0xFF.
+ * A digit that would not fit the word is ignored.
+ */
+const inputWordDigit = (state: CalculatorState, digit: string): CalculatorState => {
+  const prefix = basePrefix[state.base]
+  const empty = state.waitingForNewValue || state.display === '0' || state.display === prefix + '0'
+  const display = empty ? prefix + digit : state.display + digit
+  const value = parseInteger(display)
+  if (value === null || bitPattern(value, state.wordSize) !== (value < 0n ? -value : value)) {
+    return state
+  }
+  return { ...state, display, waitingForNewValue: false }
+}
+
+/**
+ * Start the repeating block of a decimal entry: 0.1 → 0.1(), then 6 → 0.1(6)
+ */
+const inputRepeat = (state: CalculatorState): CalculatorState => {
+  if (state.waitingForNewValue) {
+    return { ...state, display: '0.()', waitingForNewValue: false }
+  }
+  // One block per entry, and none inside an exponent or an imaginary entry
+  if (/[(ei]/.test(state.display)) {
+    return state
+  }
+  const display = state.display.includes('.') ? state.display : state.display + '.'
+  return { ...state, display: display + '()' }
+}
+
+const inputDecimal = (state: CalculatorState): CalculatorState => {
+  if (state.waitingForNewValue) {
+    return { ...state, display: '0.', waitingForNewValue: false }
+  }
+  // No decimal point inside an exponent (1e5.) or after i
+  if (/[.ei]/.test(state.display)) {
+    return state
+  }
+  return { ...state, display: state.display + '.' }
+}
+
+/**
+ * Start entering a power-of-ten exponent (the EE / ×10ⁿ key)
+ */
+const inputExponent = (state: CalculatorState): CalculatorState => {
+  if (state.waitingForNewValue) {
+    return { ...state, display: '1e', waitingForNewValue: false }
+  }
+  if (/[e(i]/.test(state.display)) {
+    return state
+  }
+  return { ...state, display: state.display.replace(/\.$/, '') + 'e' }
+}
+
+/**
+ * The i key: makes the typed entry imaginary (4 i → 4i), or enters i itself
+ */
+const inputImaginary = (state: CalculatorState): CalculatorState => {
+  if (state.waitingForNewValue || state.display === '0') {
+    return { ...state, display: 'i', waitingForNewValue: false }
+  }
+  // Not after an unfinished exponent, a repeating block or another i
+  if (/[(i]|e-?$/.test(state.display)) {
+    return state
+  }
+  return { ...state, display: state.display.replace(/\.$/, '') + 'i' }
+}
+
+const backspace = (state: CalculatorState): CalculatorState => {
+  // Remove the last repeating digit, then the empty block itself
+  if (state.display.endsWith(')')) {
+    const display = state.display.endsWith('()')
+      ? state.display.slice(0, -2)
+      : state.display.slice(0, -2) + ')'
+    return { ...state, display }
+  }
+  const display = state.display === '0' ? '0' : state.display.slice(0, -1) || '0'
+  // A minus sign or a base prefix left on its own (-, 0x) is an empty entry
+  return { ...state, display: display.replace(/^-?(0[xob])?$/, '0') }
+}
+
+const toggleSign = (state: CalculatorState): CalculatorState => {
+  // While typing an exponent, ± flips the exponent's sign
+  const exponentEntry = /e(-?)(\d*)$/.exec(state.display)
+  if (exponentEntry && !state.waitingForNewValue) {
+    const flipped = exponentEntry[1] ? '' : '-'
+    return {
+      ...state,
+      display: state.display.slice(0, exponentEntry.index) + 'e' + flipped + exponentEntry[2],
+    }
+  }
+  if (state.display === '0') {
+    return state
+  }
+  return { ...state, display: negate(state.display) }
+}
+
+/**
+ * Evaluate the pending operation against the current entry
+ */
+const calculateResult = (state: CalculatorState): EvaluationResult => {
+  return evaluateOperation(
+    state.previousValue ?? '0',
+    getDisplayText(state),
+    state.operation ?? '+',
+    contextOf(state)
+  )
+}
+
+const inputOperator = (state: CalculatorState, operator: string): CalculatorState => {
+  // Chain: 2 + 3 × evaluates 2 + 3 before starting the multiplication
+  if (state.operation && !state.waitingForNewValue) {
+    const evaluation = calculateResult(state)
+    if (!evaluation.ok) {
+      return withError(state, evaluation.error)
+    }
+    return {
+      ...state,
+      display: evaluation.text,
+      previousValue: evaluation.text,
+      operation: operator,
+      waitingForNewValue: true,
+    }
+  }
+  return {
+    ...state,
+    previousValue: getDisplayText(state),
+    operation: operator,
+    waitingForNewValue: true,
+  }
+}
+
+const equals = (state: CalculatorState): CalculatorState => {
+  if (!state.operation || state.previousValue === null) {
+    return state
+  }
+  const evaluation = calculateResult(state)
+  if (!evaluation.ok) {
+    return withError(state, evaluation.error)
+  }
+  return {
+    ...state,
+    display: evaluation.text,
+    previousValue: null,
+    operation: null,
+    waitingForNewValue: true,
+    history: [
+      ...state.history,
+      historyEntry(`${state.previousValue} ${state.operation} ${state.display}`, evaluation),
+    ],
+  }
+}
+
+/**
+ * Percent key: relative to the pending value for + and − (200 + 10% → 200 + 20),
+ * otherwise a plain division by 100
+ */
+const percent = (state: CalculatorState): CalculatorState => {
+  const current = formatOperand(getDisplayText(state))
+  const source =
+    state.previousValue !== null && (state.operation === '+' || state.operation === '-')
+      ? `${formatOperand(state.previousValue)} * ${current} / 100`
+      : `${current} / 100`
+  return withEvaluation(state, evaluate(state, source))
+}
+
+const applyFunction = (state: CalculatorState, name: string): CalculatorState =>
+  withEvaluation(state, evaluateFunction(name, getDisplayText(state), contextOf(state)))
+
+/**
+ * Whether the pending expression already ends with a complete operand, e.g. `(2 + 3)`
+ */
+const endsWithOperand = (expression: string): boolean => expression.endsWith(')')
+
+const openParenCount = (expression: string): number =>
+  [...expression].reduce((count, char) => count + (char === '(' ? 1 : char === ')' ? -1 : 0), 0)
+
+/**
+ * Index where the last operand of the expression starts: a number (`≈1.414` included), a
+ * parenthesised group or a call such as `nroot(27, 3)`
+ */
+const trailingOperandStart = (expression: string): number => {
+  if (!endsWithOperand(expression)) {
+    const number = /(?:≈?[\d.]+(?:e[+-]?\d+)?)?i?$/.exec(expression)
+    return expression.length - (number ? number[0].length : 0)
+  }
+  let depth = 0
+  for (let i = expression.length - 1; i >= 0; i--) {
+    if (expression[i] === ')') {
+      depth++
+    } else if (expression[i] === '(' && --depth === 0) {
+      const callee = /[A-Za-z_]\w*$/.exec(expression.slice(0, i))
+      return i - (callee ? callee[0].length : 0)
+    }
+  }
+  return 0
+}
+
+/**
+ * Close `nroot(x, ` or `polar(r, ` once its second operand is complete
+ */
+const closePendingRoots = (expression: string): string => {
+  let closed = expression
+  while (closed.slice(0, trailingOperandStart(closed)).endsWith(', ')) {
+    closed += ')'
+  }
+  return closed
+}
+
+/**
+ * Pending expression with the current entry appended as the next operand
+ */
+const commitOperand = (state: CalculatorState): string => {
+  if (endsWithOperand(state.expression)) {
+    return state.expression
+  }
+  return closePendingRoots(state.expression + formatOperand(getDisplayText(state)))
+}
+
+/**
+ * Index where the part of the expression an operator can reduce starts
+ * Pressing `+` after `2 * 3` reduces the whole product; pressing `*` after `2 + 3` only the `3`
+ */
+const reducibleStart = (expression: string, precedence: number): number => {
+  const tokens = tokenize(expression)
+  let depth = 0
+  for (let i = tokens.length - 1; i >= 0; i--) {
+    const token = tokens[i]
+    if (token.type === 'rightParen') {
+      depth++
+    } else if (token.type === 'leftParen') {
+      if (depth === 0) return token.end
+      depth--
+    } else if (depth === 0 && token.type === 'comma') {
+      return token.end
+    } else if (depth === 0 && token.type === 'operator') {
+      const bound = operatorPrecedence[token.text]
+      // ^ is right-associative, so a new ^ never reduces an earlier one
+      if (bound < precedence || (bound === precedence && token.text === '^')) {
+        return token.end
+      }
+    }
+  }
+  return 0
+}
+
+/**
+ * Evaluate a reduced part of the pending expression and show its value
+ */
+const showValueOf = (
+  state: CalculatorState,
+  expression: string,
+  source: string
+): CalculatorState => {
+  const evaluation = evaluate(state, source.trim())
+  if (!evaluation.ok) {
+    return withError(state, evaluation.error)
+  }
+  return {
+    ...state,
+    expression,
+    display: evaluation.text,
+    waitingForNewValue: true,
+  }
+}
+
+/**
+ * Start a new operand; after a closed group this implies multiplication, `(2 + 3) 4` → `(2 + 3) * 4`
+ */
+const beginOperand = (state: CalculatorState): CalculatorState => {
+  if (state.entryMode !== 'algebraic' || !endsWithOperand(state.expression)) {
+    return state
+  }
+  return { ...state, expression: `${state.expression} * `, waitingForNewValue: true }
+}
+
+/**
+ * Pending expression after an operator key: `2 + ` for +, and `nroot(27, ` for a named operator,
+ * which wraps the preceding operand in a call (27 nroot 3 → nroot(27, 3))
+ */
+const withOperator = (expression: string, operator: string): string => {
+  if (!/^[a-z]/i.test(operator)) {
+    return `${expression} ${operator} `
+  }
+  const start = trailingOperandStart(expression)
+  return `${expression.slice(0, start)}${operator}(${expression.slice(start)}, `
+}
+
+const pushOperator = (state: CalculatorState, operator: string): CalculatorState => {
+  const { previousValue, operation } = state
+  // An operator straight after another replaces it: 2 + × 3 → 2 × 3
+  const replacing =
+    state.waitingForNewValue &&
+    previousValue !== null &&
+    operation !== null &&
+    state.expression === withOperator(previousValue, operation)
+  const expression = replacing ? previousValue : commitOperand(state)
+  const pending = { previousValue: expression, operation: operator }
+  if (/^[a-z]/i.test(operator)) {
+    return {
+      ...state,
+      ...pending,
+      expression: withOperator(expression, operator),
+      waitingForNewValue: true,
+    }
+  }
+  const start = reducibleStart(expression, operatorPrecedence[operator])
+  const next = showValueOf(state, withOperator(expression, operator), expression.slice(start))
+  return next.error ? next : { ...next, ...pending }
+}
+
+/**
+ * Comma key: the entry becomes an argument of the pending named operator and another one
+ * follows; elsewhere the key does nothing
+ */
+const nextArgument = (state: CalculatorState): CalculatorState => {
+  const expression = endsWithOperand(state.expression)
+    ? state.expression
+    : state.expression + formatOperand(getDisplayText(state))
+  if (!expression.slice(0, trailingOperandStart(expression)).endsWith(', ')) {
+    return state
+  }
+  return { ...state, expression: `${expression}, `, waitingForNewValue: true }
+}
+
+const openGroup = (state: CalculatorState): CalculatorState => {
+  const typedOperand = !state.waitingForNewValue && state.display !== '0'
+  const expression =
+    endsWithOperand(state.expression) || typedOperand
+      ? `${commitOperand(state)} * (`
+      : `${state.expression}(`
+  return { ...state, expression, display: '0', waitingForNewValue: true }
+}
+
+const closeGroup = (state: CalculatorState): CalculatorState => {
+  const committed = commitOperand(state)
+  if (openParenCount(committed) === 0) {
+    return state
+  }
+  const expression = closePendingRoots(committed + ')')
+  return showValueOf(state, expression, expression.slice(trailingOperandStart(expression)))
+}
+
+/**
+ * Evaluate the pending expression, closing any parentheses left open
+ */
+const evaluatePending = (state: CalculatorState): CalculatorState => {
+  if (!state.expression) {
+    return state
+  }
+  let expression = commitOperand(state)
+  while (openParenCount(expression) > 0) {
+    expression = closePendingRoots(expression + ')')
+  }
+  const evaluation = evaluate(state, expression)
+  if (!evaluation.ok) {
+    return withError(state, evaluation.error)
+  }
+  return {
+    ...state,
+    display: evaluation.text,
+    expression: '',
+    waitingForNewValue: true,
+    history: [...state.history, historyEntry(expression, evaluation)],
+  }
+}
+
+/**
+ * Percent key in algebraic mode: relative to the sum before a pending + or −
+ */
+const pendingPercent = (state: CalculatorState): CalculatorState => {
+  const current = formatOperand(getDisplayText(state))
+  const additive = /^(.*) [-+] $/.exec(state.expression)
+  if (!additive) {
+    return withEvaluation(state, evaluate(state, `${current} / 100`))
+  }
+  const base = additive[1]
+  const evaluation = evaluate(state, base.slice(reducibleStart(base, 1)).trim())
+  if (!evaluation.ok) {
+    return withError(state, evaluation.error)
+  }
+  return withEvaluation(
+    state,
+    evaluate(state, `${formatOperand(evaluation.text)} * ${current} / 100`)
+  )
+}
+
+/**
+ * Apply a function key; after a closed group the function wraps the whole group
+ */
+const applyPendingFunction = (state: CalculatorState, name: string): CalculatorState => {
+  if (!endsWithOperand(state.expression)) {
+    return applyFunction(state, name)
+  }
+  const start = trailingOperandStart(state.expression)
+  const operand = state.expression.slice(start)
+  const call = operand.startsWith('(') ? `${name}${operand}` : `${name}(${operand})`
+  return showValueOf(state, state.expression.slice(0, start) + call, call)
+}
+
+/**
+ * RPN stack keys and the number of stack levels above X each one needs
+ */
+const stackKeys: Record<string, number> = {
+  swap: 1,
+  roll: 0,
+  drop: 0,
+  dup: 0,
+  lastx: 0,
+}
+
+const stackUnderflow = (state: CalculatorState, key: string, needed: number): CalculatorState => ({
+  ...state,
+  error: new CalculatorError(
+    'stack-underflow',
+    `'${key}' needs ${needed + 1} values but the stack holds ${state.stack.length + 1}`,
+    { start: 0, end: 0 }
+  ),
+})
+
+/**
+ * A failed RPN operation leaves the stack untouched so X can be corrected
+ */
+const rpnError = (state: CalculatorState, error: CalculatorError): CalculatorState => ({
+  ...state,
+  waitingForNewValue: true,
+  stackLift: false,
+  error,
+})
+
+/**
+ * Replace X with the result of an operation
+ */
+const rpnResult = (
+  state: CalculatorState,
+  value: string,
+  stack: string[] = state.stack
+): CalculatorState => ({
+  ...state,
+  stack,
+  display: value,
+  lastX: getDisplayText(state),
+  waitingForNewValue: true,
+  stackLift: true,
+})
+
+/**
+ * Before typing a new number, push X up unless ENTER already copied it
+ */
+const liftForEntry = (state: CalculatorState): CalculatorState => {
+  if (!state.waitingForNewValue || !state.stackLift) {
+    return state
+  }
+  return { ...state, stack: [...state.stack, getDisplayText(state)], stackLift: false }
+}
+
+/**
+ * Put a recalled value (constant, memory, LASTx) in X, pushing the old X up
+ */
+const pushValue = (state: CalculatorState, value: string): CalculatorState => {
+  // A typed entry is terminated and lifted like any other X; '0' counts as no entry
+  const typedEntry = !state.waitingForNewValue && state.display !== '0'
+  const stack =
+    state.stackLift || typedEntry ? [...state.stack, getDisplayText(state)] : state.stack
+  return { ...state, stack, display: value, waitingForNewValue: true, stackLift: true }
+}
+
+/**
+ * Push a constant, evaluated at the current precision
+ */
+const pushConstant = (state: CalculatorState, key: string): CalculatorState => {
+  const evaluation = evaluate(state, constantSource(state, key))
+  return evaluation.ok ? pushValue(state, evaluation.text) : rpnError(state, evaluation.error)
+}
+
+const enterValue = (state: CalculatorState): CalculatorState => {
+  const x = getDisplayText(state)
+  return {
+    ...state,
+    stack: [...state.stack, x],
+    display: x,
+    waitingForNewValue: true,
+    stackLift: false,
+  }
+}
+
+const rpnOperator = (state: CalculatorState, operator: string): CalculatorState => {
+  // Distribution keys take a level for each parameter: 3 ENTER 10 ENTER 0.5 binomcdf
+  const needed = (distributionKeyOperands[operator] ?? 2) - 1
+  if (state.stack.length < needed) {
+    return stackUnderflow(state, operator, needed)
+  }
+  const operands = state.stack.slice(-needed)
+  const evaluation =
+    needed === 1
+      ? evaluateOperation(operands[0], getDisplayText(state), operator, contextOf(state))
+      : evaluate(
+          state,
+          `${operator}(${[...operands, getDisplayText(state)].map(formatOperand).join(', ')})`
+        )
+  if (!evaluation.ok) {
+    return rpnError(state, evaluation.error)
+  }
+  return {
+    ...rpnResult(state, evaluation.text, state.stack.slice(0, -needed)),
+    history: [...state.history, historyEntry(evaluation.source, evaluation)],
+  }
+}
+
+const rpnFunction = (state: CalculatorState, name: string): CalculatorState => {
+  const evaluation = evaluateFunction(name, getDisplayText(state), contextOf(state))
+  if (!evaluation.ok) {
+    return rpnError(state, evaluation.error)
+  }
+  return rpnResult(state, evaluation.text)
+}
+
+/**
+ * Percent key in RPN: X percent of Y, leaving Y in place
+ */
+const rpnPercent = (state: CalculatorState): CalculatorState => {
+  if (state.stack.length === 0) {
+    return stackUnderflow(state, '%', 1)
+  }
+  const y = state.stack[state.stack.length - 1]
+  const evaluation = evaluate(
+    state,
+    `${formatOperand(y)} * ${formatOperand(getDisplayText(state))} / 100`
+  )
+  return evaluation.ok ? rpnResult(state, evaluation.text) : rpnError(state, evaluation.error)
+}
+
+const rpnStackKey = (state: CalculatorState, key: string): CalculatorState => {
+  if (state.stack.length < stackKeys[key]) {
+    return stackUnderflow(state, key, stackKeys[key])
+  }
+  const x = getDisplayText(state)
+  const rest = state.stack.slice(0, -1)
+  const y = state.stack[state.stack.length - 1]
+  const settled = { ...state, waitingForNewValue: true, stackLift: true }
+
+  switch (key) {
+    case 'swap':
+      return { ...settled, stack: [...rest, x], display: y }
+    case 'roll':
+      // R↓: Y drops into X and X wraps around to the top of the stack
+      return state.stack.length === 0 ? settled : { ...settled, stack: [x, ...rest], display: y }
+    case 'drop':
+      return { ...settled, stack: rest, display: y ?? '0' }
+    case 'dup':
+      return { ...settled, stack: [...state.stack, x], display: x }
+    default:
+      return pushValue(state, state.lastX)
+  }
+}
+
+/**
+ * Keys that type a fraction, an exponent or an imaginary part, which integers do not have
+ */
+const nonIntegerEntryKeys = ['.', 'e-notation', 'repeat', 'i']
+
+const isNumberBase = (value: string): value is NumberBase =>
+  (numberBases as string[]).includes(value)
+
+/**
+ * Switch arithmetic. A shown result is converted to the new arithmetic and an entry keeps what
+ * was typed, except into or out of programmer arithmetic, where the entry is converted too
+ * (0xFF ↔ 255, 3.7 → 3).
+ */
+const setArithmetic = (state: CalculatorState, arithmetic: ArithmeticMode): CalculatorState => {
+  const next = { ...state, arithmetic }
+  if (state.waitingForNewValue) {
+    return { ...next, display: getDisplayText(next) }
+  }
+  if (arithmetic === 'programmer') {
+    return { ...next, display: entryText(next) }
+  }
+  return state.arithmetic === 'programmer' ? { ...next, display: getDisplayText(state) } : next
+}
+
+/**
+ * HEX, DEC, OCT and BIN keys: programmer arithmetic in that base
+ */
+const setBase = (state: CalculatorState, base: NumberBase): CalculatorState =>
+  setArithmetic({ ...state, base }, 'programmer')
+
+/**
+ * Change the word size; in programmer arithmetic the value shown keeps its low bits, like a
+ * register narrowed or widened to the new size
+ */
+const setWordSize = (state: CalculatorState, wordSize: WordSize): CalculatorState => {
+  const next = { ...state, wordSize }
+  if (state.arithmetic !== 'programmer') {
+    return next
+  }
+  return { ...next, display: next.waitingForNewValue ? getDisplayText(next) : entryText(next) }
+}
+
+/**
+ * Flip one bit of the value shown, which becomes an entry in the current base so typing can
+ * continue (0xF0 → 0xF1, then 0xF12)
+ */
+const toggleBit = (state: CalculatorState, bit: number): CalculatorState => {
+  const value = state.arithmetic === 'programmer' ? parseInteger(getDisplayText(state)) : null
+  // Like the other editing keys, this has no entry to act on after a closed group
+  const closedGroup = state.entryMode === 'algebraic' && endsWithOperand(state.expression)
+  if (value === null || closedGroup || !(bit >= 0 && bit < state.wordSize.bits)) {
+    return state
+  }
+  const display = formatInteger(flipBit(value, bit, state.wordSize), state.base, state.wordSize)
+  return { ...state, display, waitingForNewValue: false, error: null }
+}
+
+const isTvmVariable = (value: string): value is TvmVariable =>
+  tvmVariables.some(({ variable }) => variable === value)
+
+const tvmError = (message: string): CalculatorError =>
+  new CalculatorError('domain', message, { start: 0, end: 0 })
+
+/**
+ * A TVM register key: store the value shown in the register, or after CPT compute the register
+ * from the other four and show it like a recalled value
+ */
+const pressTvmRegister = (state: CalculatorState, variable: TvmVariable): CalculatorState => {
+  const rpn = state.entryMode === 'rpn'
+  const fail = (message: string) =>
+    rpn ? rpnError(state, tvmError(message)) : withError(state, tvmError(message))
+
+  if (state.tvm.computing) {
+    const values = Object.fromEntries(
+      tvmVariables.map(({ variable }) => [variable, parseFloat(state.tvm.values[variable])])
+    ) as TvmValues
+    const result = solveTvm(variable, values, state.tvm.settings)
+    if (!result.ok) return fail(result.message)
+    const value = String(result.value)
+    const next = {
+      ...state,
+      tvm: { ...state.tvm, values: { ...state.tvm.values, [variable]: value }, computing: false },
+    }
+    const text = canonicalText(value, state.arithmetic, state.precision)
+    return rpn ? pushValue(next, text) : withResult(beginOperand(next), text)
+  }
+
+  const value = getDisplayValue(state)
+  if (!isFinite(value) || getDisplayText(state).includes(' ')) {
+    return fail('TVM registers hold real numbers without units')
+  }
+  // Storing terminates the entry like the memory keys
+  return {
+    ...state,
+    tvm: { ...state.tvm, values: { ...state.tvm.values, [variable]: String(value) } },
+    waitingForNewValue: true,
+    ...(rpn && { stackLift: true }),
+  }
+}
+
+/**
+ * Store the value of an expression in a TVM register; an empty one stores zero
+ */
+const setTvmValue = (
+  state: CalculatorState,
+  variable: TvmVariable,
+  input: string
+): CalculatorState => {
+  const source = input.trim() || '0'
+  const evaluation = evaluate(state, source)
+  if (!evaluation.ok) {
+    return { ...state, error: evaluation.error }
+  }
+  const value = parseFloat(canonicalText(evaluation.text, 'float', state.precision))
+  if (!isFinite(value) || evaluation.text.includes(' ')) {
+    const error = new CalculatorError(
+      'domain',
+      'TVM registers hold real numbers without units',
+      { start: 0, end: source.length },
+      source
+    )
+    return { ...state, error }
+  }
+  const values = { ...state.tvm.values, [variable]: String(value) }
+  return { ...state, error: null, tvm: { ...state.tvm, values } }
+}
+
+/**
+ * RATE: the value shown becomes the tax rate, terminating the entry like the memory keys
+ */
+const storeTaxRate = (state: CalculatorState): CalculatorState => {
+  const taxRate = getDisplayValue(state)
+  if (!(taxRate > -100 && isFinite(taxRate)) || getDisplayText(state).includes(' ')) {
+    const error = new CalculatorError('domain', 'A tax rate is a percentage above -100', {
+      start: 0,
+      end: 0,
+    })
+    return state.entryMode === 'rpn' ? rpnError(state, error) : withError(state, error)
+  }
+  return {
+    ...state,
+    taxRate,
+    waitingForNewValue: true,
+    ...(state.entryMode === 'rpn' && { stackLift: true }),
+  }
+}
+
+/**
+ * SEED: the value shown, a whole number, seeds the random generator, terminating the entry
+ * like the memory keys
+ */
+const storeSeed = (state: CalculatorState): CalculatorState => {
+  const seed = getDisplayValue(state)
+  if (!Number.isSafeInteger(seed) || getDisplayText(state).includes(' ')) {
+    const error = new CalculatorError('domain', 'A seed is a whole number', { start: 0, end: 0 })
+    return state.entryMode === 'rpn' ? rpnError(state, error) : withError(state, error)
+  }
+  return {
+    ...state,
+    randomState: seedState(seed),
+    waitingForNewValue: true,
+    ...(state.entryMode === 'rpn' && { stackLift: true }),
+  }
+}
+
+/**
+ * Apply a key press in RPN mode
+ */
+const pressRpnKey = (state: CalculatorState, value: string): CalculatorState => {
+  if (value === 'enter' || value === '=') return enterValue(state)
+  if (isOperatorKey(state, value)) return rpnOperator(state, value)
+  if (value in stackKeys) return rpnStackKey(state, value)
+  if (value === '%') return rpnPercent(state)
+
+  if (value === '.') return inputDecimal(liftForEntry(state))
+  if (value === 'e-notation') return inputExponent(liftForEntry(state))
+  if (value === 'repeat') return inputRepeat(liftForEntry(state))
+  if (value === 'i') return inputImaginary(liftForEntry(state))
+  if (/^\d$/.test(value)) return inputDigit(liftForEntry(state), value)
+
+  if (value === 'backspace') {
+    // Outside of an entry ← clears X (CLx), and the next number overwrites it
+    if (!state.waitingForNewValue) return backspace(state)
+    return { ...state, display: '0', stackLift: false }
+  }
+  if (value === 'toggle') {
+    if (!state.waitingForNewValue) return toggleSign(state)
+    return { ...state, display: negate(getDisplayText(state)) }
+  }
+
+  if (value === 'M+' || value === 'M-') {
+    const evaluation = accumulate(state, value)
+    if (!evaluation.ok) return rpnError(state, evaluation.error)
+    return { ...state, memory: evaluation.text, waitingForNewValue: true, stackLift: true }
+  }
+  if (value === 'MR') return pushValue(state, state.memory)
+  if (value === 'MC') return { ...state, memory: '0' }
+
+  if (value === 'list-add') {
+    const result = addToList(state)
+    if (!result.ok) return rpnError(state, result.error)
+    return { ...state, lists: result.lists, waitingForNewValue: true, stackLift: true }
+  }
+  if (value === 'list-clear') return clearList(state)
+
+  if (hasEntry(keypadConstants, value)) return pushConstant(state, value)
+  if (isFunctionKey(state, value)) return rpnFunction(state, value)
+
+  // Parentheses have no meaning on a stack
+  return state
+}
+
+/**
+ * Apply a single key press, with the random generator already running; see pressKey
+ */
+const applyKey = (current: CalculatorState, key: string): CalculatorState => {
+  // HYP shifts the next trigonometric key to its hyperbolic counterpart
+  const value = current.hyperbolic ? (hyperbolicKeys[key] ?? key) : key
+  // A new key press dismisses the previous error, and CPT and HYP only last until the next key
+  const dismissed = current.error ? { ...current, error: null } : current
+  const unshifted = dismissed.hyperbolic ? { ...dismissed, hyperbolic: false } : dismissed
+  const state =
+    unshifted.tvm.computing && !isTvmVariable(value)
+      ? { ...unshifted, tvm: { ...unshifted.tvm, computing: false } }
+      : unshifted
+  const algebraic = state.entryMode === 'algebraic'
+
+  if (value === 'clear') {
+    return createInitialState({
+      history: state.history,
+      variables: state.variables,
+      functions: state.functions,
+      lists: state.lists,
+      angleMode: state.angleMode,
+      entryMode: state.entryMode,
+      arithmetic: state.arithmetic,
+      precision: state.precision,
+      fractionForm: state.fractionForm,
+      complexForm: state.complexForm,
+      wordSize: state.wordSize,
+      base: state.base,
+      tvm: state.tvm,
+      taxRate: state.taxRate,
+      randomState: state.randomState,
+    })
+  }
+  if (value === 'fraction-form') {
+    const current = fractionFormOptions.findIndex(option => option.form === state.fractionForm)
+    const next = fractionFormOptions[(current + 1) % fractionFormOptions.length]
+    return { ...state, fractionForm: next.form }
+  }
+  if (value === 'complex-form') {
+    const current = complexFormOptions.findIndex(option => option.form === state.complexForm)
+    const next = complexFormOptions[(current + 1) % complexFormOptions.length]
+    return { ...state, complexForm: next.form }
+  }
+  if (value === 'hyp-shift') return { ...state, hyperbolic: !current.hyperbolic }
+  if (value === 'cpt') return { ...state, tvm: { ...state.tvm, computing: true } }
+  if (isTvmVariable(value)) return pressTvmRegister(state, value)
+  if (value === 'bgn') {
+    const timing = state.tvm.settings.timing === 'end' ? 'begin' : 'end'
+    return { ...state, tvm: { ...state.tvm, settings: { ...state.tvm.settings, timing } } }
+  }
+  if (value === 'clr-tvm') {
+    return { ...state, tvm: { ...initialTvm, settings: state.tvm.settings } }
+  }
+  if (value === 'tax-rate') return storeTaxRate(state)
+  if (value === 'random-seed') return storeSeed(state)
+  if (isNumberBase(value)) return setBase(state, value)
+  if (state.arithmetic === 'programmer') {
+    // Only whole numbers in the current base can be typed
+    if (nonIntegerEntryKeys.includes(value)) return state
+    if (/^[\dA-F]$/.test(value)) {
+      if (digitValue(value, state.base) === null) return state
+      const entry = state.entryMode === 'rpn' ? liftForEntry(state) : beginOperand(state)
+      return inputWordDigit(entry, value)
+    }
+  }
+  // Only complex arithmetic has an imaginary unit; elsewhere 4i would have no value
+  if (value === 'i' && state.arithmetic !== 'complex') {
+    return {
+      ...state,
+      error: new CalculatorError('domain', 'i needs complex arithmetic', { start: 0, end: 0 }),
+    }
+  }
+  if (state.entryMode === 'rpn') return pressRpnKey(state, value)
+
+  // ENTER completes the calculation like '=' outside of RPN
+  if (value === '=' || value === 'enter') return algebraic ? evaluatePending(state) : equals(state)
+  if (isOperatorKey(state, value)) {
+    return algebraic ? pushOperator(state, value) : inputOperator(state, value)
+  }
+  if (value === '(' || value === ')' || value === ',') {
+    // Parentheses and the comma only have meaning in algebraic entry; the immediate keypad
+    // ignores them
+    if (!algebraic) return state
+    if (value === ',') return nextArgument(state)
+    return value === '(' ? openGroup(state) : closeGroup(state)
+  }
+
+  // Editing keys act on the current entry, which a closed group does not have
+  if (value === 'backspace' || value === 'toggle') {
+    if (algebraic && endsWithOperand(state.expression)) return state
+    return value === 'backspace' ? backspace(state) : toggleSign(state)
+  }
+  if (value === '%') {
+    if (!algebraic) return percent(state)
+    return endsWithOperand(state.expression) ? state : pendingPercent(state)
+  }
+  if (value === '.') return inputDecimal(beginOperand(state))
+  if (value === 'e-notation') return inputExponent(beginOperand(state))
+  if (value === 'repeat') return inputRepeat(beginOperand(state))
+  if (value === 'i') return inputImaginary(beginOperand(state))
+  if (/^\d$/.test(value)) return inputDigit(beginOperand(state), value)
+
+  // Memory keys act on the current entry without discarding it
+  if (value === 'M+' || value === 'M-') {
+    const evaluation = accumulate(state, value)
+    if (!evaluation.ok) return withError(state, evaluation.error)
+    return { ...state, memory: evaluation.text, waitingForNewValue: true }
+  }
+  if (value === 'MR') return withResult(beginOperand(state), state.memory)
+  if (value === 'MC') return { ...state, memory: '0' }
+
+  // Σ+ terminates the entry like the memory keys
+  if (value === 'list-add') {
+    const result = addToList(state)
+    if (!result.ok) return withError(state, result.error)
+    return { ...state, lists: result.lists, waitingForNewValue: true }
+  }
+  if (value === 'list-clear') return clearList(state)
+
+  if (hasEntry(keypadConstants, value)) {
+    return withEvaluation(beginOperand(state), evaluate(state, constantSource(state, value)))
+  }
+  if (isFunctionKey(state, value)) {
+    return algebraic ? applyPendingFunction(state, value) : applyFunction(state, value)
+  }
+
+  return state
+}
+
+/**
+ * Evaluate a typed line such as `2x + ans`, `x = 3.2` or `f(x) = x^2`
+ * The result becomes the current entry, like a recalled value, and is added to the history;
+ * an error is reported without disturbing the keypad state
+ */
+const evaluateInput = (state: CalculatorState, input: string): CalculatorState => {
+  const definition = defineFunction(input, contextOf(state))
+  if (definition) {
+    return definition.ok
+      ? {
+          ...state,
+          error: null,
+          functions: { ...state.functions, [definition.definition.name]: definition.definition },
+        }
+      : { ...state, error: definition.error }
+  }
+  const evaluation = parseInput(input, contextOf(state))
+  if (!evaluation) {
+    return state
+  }
+  if (!evaluation.ok) {
+    return { ...state, error: evaluation.error }
+  }
+  const current = { ...state, error: null }
+  const next =
+    state.entryMode === 'rpn'
+      ? pushValue(current, evaluation.text)
+      : withResult(beginOperand(current), evaluation.text)
+  return {
+    ...next,
+    history: [...state.history, historyEntry(evaluation.source, evaluation)],
+    variables: evaluation.assigned
+      ? { ...state.variables, [evaluation.assigned]: evaluation.text }
+      : state.variables,
+  }
+}
+
+/**
+ * Store the value of an expression in a variable without touching the display or history
+ */
+const setVariable = (state: CalculatorState, name: string, value: string): CalculatorState => {
+  const problem = checkVariableName(name)
+  if (problem) {
+    const error = new CalculatorError('syntax', problem, { start: 0, end: name.length }, name)
+    return { ...state, error }
+  }
+  const evaluation = parseInput(`${name} = ${value}`, contextOf(state))
+  if (!evaluation) {
+    return state
+  }
+  if (!evaluation.ok) {
+    return { ...state, error: evaluation.error }
+  }
+  return { ...state, error: null, variables: { ...state.variables, [name]: evaluation.text } }
+}
+
+/**
+ * Store a data list, evaluating each entry like a variable; an empty list is deleted
+ */
+const setList = (state: CalculatorState, name: string, entries: string[]): CalculatorState => {
+  const problem = checkVariableName(name)
+  if (problem) {
+    const error = new CalculatorError('syntax', problem, { start: 0, end: name.length }, name)
+    return { ...state, error }
+  }
+  const values = entries.map(entry => entry.trim()).filter(entry => entry !== '')
+  if (values.length === 0) {
+    return { ...state, error: null, lists: withoutEntry(state.lists, name) }
+  }
+  const evaluation = evaluateListEntries(state, values)
+  if (!evaluation.ok) {
+    return { ...state, error: evaluation.error }
+  }
+  return { ...state, error: null, lists: { ...state.lists, [name]: evaluation.values } }
+}
+
+/**
+ * Fit a regression of list `y` on list `x`, in float arithmetic whatever the calculator's
+ * arithmetic; the prediction becomes the user function `fit(x)` and the residuals the list RESID
+ */
+const fitRegression = (
+  state: CalculatorState,
+  action: Extract<CalculatorAction, { type: 'fit-regression' }>
+): CalculatorState => {
+  const source = `${action.model} fit of ${action.y} on ${action.x}`
+  const fail = (code: 'domain' | 'unknown-identifier', message: string): CalculatorState => ({
+    ...state,
+    error: new CalculatorError(code, message, { start: 0, end: source.length }, source),
+  })
+  const missing = [action.x, action.y].find(name => !hasEntry(state.lists, name))
+  if (missing) {
+    return fail('unknown-identifier', `There is no list named '${missing}'`)
+  }
+  const values = (name: string) =>
+    state.lists[name].map(text => parseFloat(canonicalText(text, 'float', state.precision)))
+  const result = fitModel(action.model, values(action.x), values(action.y), action.degree)
+  if (!result.ok) {
+    return fail('domain', result.message)
+  }
+  const definition = defineFunction(`${FIT_FUNCTION}(x) = ${result.regression.equation}`, {
+    ...contextOf(state),
+    functions: withoutEntry(state.functions, FIT_FUNCTION),
+  })
+  if (!definition?.ok) {
+    return definition ? { ...state, error: definition.error } : state
+  }
+  return {
+    ...state,
+    error: null,
+    functions: { ...state.functions, [FIT_FUNCTION]: definition.definition },
+    lists: { ...state.lists, [RESIDUAL_LIST]: result.regression.residuals.map(String) },
+    regression: { ...result.regression, x: action.x, y: action.y },
+  }
+}
+
+/**
+ * Apply an action, with the random generator already running; see calculatorReducer
+ */
+const reduce = (state: CalculatorState, action: CalculatorAction): CalculatorState => {
+  switch (action.type) {
+    case 'press':
+      return applyKey(state, action.value)
+    case 'set-display':
+      return { ...state, display: action.value, waitingForNewValue: false, error: null }
+    case 'set-angle-mode':
+      return { ...state, angleMode: action.angleMode }
+    case 'set-entry-mode':
+      // Switching modes drops whatever was pending in the old one
+      return {
+        ...state,
+        entryMode: action.entryMode,
+        expression: '',
+        stack: [],
+        stackLift: false,
+        previousValue: null,
+        operation: null,
+        waitingForNewValue: true,
+      }
+    case 'set-arithmetic':
+      return setArithmetic(state, action.arithmetic)
+    case 'set-precision':
+      if (!isFinite(action.precision)) {
+        return state
+      }
+      return {
+        ...state,
+        precision: Math.min(MAX_PRECISION, Math.max(MIN_PRECISION, Math.round(action.precision))),
+      }
+    case 'set-fraction-form':
+      return { ...state, fractionForm: action.fractionForm }
+    case 'set-complex-form':
+      return { ...state, complexForm: action.complexForm }
+    case 'set-word-size':
+      return setWordSize(state, action.wordSize)
+    case 'toggle-bit':
+      return toggleBit(state, action.bit)
+    case 'clear-history':
+      return { ...state, history: [] }
+    case 'evaluate-input':
+      return evaluateInput(state, action.input)
+    case 'set-variable':
+      return setVariable(state, action.name, action.value)
+    case 'delete-variable':
+      if (!hasEntry(state.variables, action.name)) {
+        return state
+      }
+      return { ...state, variables: withoutEntry(state.variables, action.name) }
+    case 'delete-function':
+      if (!hasEntry(state.functions, action.name)) {
+        return state
+      }
+      return { ...state, functions: withoutEntry(state.functions, action.name) }
+    case 'set-list':
+      return setList(state, action.name, action.values)
+    case 'delete-list':
+      if (!hasEntry(state.lists, action.name)) {
+        return state
+      }
+      return { ...state, lists: withoutEntry(state.lists, action.name) }
+    case 'fit-regression':
+      return fitRegression(state, action)
+    case 'set-tvm-value':
+      return setTvmValue(state, action.variable, action.value)
+    case 'set-tvm-settings': {
+      const { paymentsPerYear, compoundingsPerYear } = action.settings
+      if (![paymentsPerYear, compoundingsPerYear].every(count => count > 0 && isFinite(count))) {
+        return state
+      }
+      return { ...state, tvm: { ...state.tvm, settings: action.settings } }
+    }
+    case 'solve-tvm':
+      return pressTvmRegister(
+        { ...state, error: null, tvm: { ...state.tvm, computing: true } },
+        action.variable
+      )
+    case 'set-tax-rate':
+      if (!(action.taxRate > -100 && isFinite(action.taxRate))) {
+        return state
+      }
+      return { ...state, taxRate: action.taxRate }
+    case 'seed-random':
+      if (!Number.isSafeInteger(action.seed)) {
+        return state
+      }
+      return { ...state, randomState: seedState(action.seed) }
+  }
+}
+
+/**
+ * Run a reduction with a generator started from `randomState` as the evaluation context's
+ * source of random numbers, and keep where its draws left it; reseeding takes precedence
+ */
+const withRandom = (state: CalculatorState, apply: () => CalculatorState): CalculatorState => {
+  const random = state.randomState === null ? undefined : new RandomGenerator(state.randomState)
+  activeRandom = random
+  let next: CalculatorState
+  try {
+    next = apply()
+  } finally {
+    activeRandom = undefined
+  }
+  if (!random || random.state === state.randomState || next.randomState !== state.randomState) {
+    return next
+  }
+  return { ...next, randomState: random.state }
+}
+
+/**
+ * Apply a single key press
+ */
+export const pressKey = (state: CalculatorState, key: string): CalculatorState =>
+  withRandom(state, () => applyKey(state, key))
+
+/**
+ * Pure reducer for calculator state
+ * @param state - Current state
+ * @param action - Action to apply
+ * @returns Next state (the same object when nothing changed)
+ */
+export const calculatorReducer = (
+  state: CalculatorState,
+  action: CalculatorAction
+): CalculatorState => withRandom(state, () => reduce(state, action))
@@ -0,0 +1,69 @@
+/**
+ * Calculator Error Model
+ * Typed evaluation errors that carry the source range they refer to
+ */
+
+import { EvaluationErrorCode, NumericEstimate, SourceRange } from '@/types/expression'
+
+/**
+ * Short, user-facing title for each error code
+ */
+export const errorTitles: Record<EvaluationErrorCode, string> = {
+  syntax: 'Syntax error',
+  domain: 'Domain error',
+  'division-by-zero': 'Division by zero',
+  overflow: 'Overflow',
+  'unknown-identifier': 'Unknown name',
+  'stack-underflow': 'Too few arguments',
+  units: 'Unit error',
+  convergence: 'No convergence',
+}
+
+/**
+ * Error raised by the tokenizer, parser or evaluator
+ */
+export class CalculatorError extends Error {
+  readonly code: EvaluationErrorCode
+  readonly start: number
+  readonly end: number
+  /** Expression text the range refers to, when known */
+  readonly source?: string
+
+  constructor(code: EvaluationErrorCode, message: string, range: SourceRange, source?: string) {
+    super(message)
+    this.name = 'CalculatorError'
+    this.code = code
+    this.start = range.start
+    this.end = range.end
+    this.source = source
+  }
+
+  /**
+   * Return a copy of this error bound to the expression text it refers to
+   */
+  withSource(source: string): CalculatorError {
+    return new CalculatorError(this.code, this.message, this, source)
+  }
+}
+
+/**
+ * Outcome of evaluating an expression; `text` holds the full result digits in decimal mode, and
+ * `estimates` the outcome of each numeric calculus call when there were any
+ */
+export type EvaluationResult =
+  | { ok: true; value: number; text: string; source: string; estimates?: NumericEstimate[] }
+  | { ok: false; error: CalculatorError; source: string }
+
+/**
+ * Check whether an unknown thrown value is a CalculatorError
+ */
+export const isCalculatorError = (error: unknown): error is CalculatorError => {
+  return error instanceof CalculatorError
+}
+
+/**
+ * Format an error as "Title: message" for display
+ */
+export const formatCalculatorError = (error: CalculatorError): string => {
+  return `${errorTitles[error.code]}: ${error.message}`
+}
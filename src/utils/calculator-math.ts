@@ -3,6 +3,31 @@
  * Provides high-precision mathematical functions
  */
 
+import {
+  CallNode,
+  EvaluationContext,
+  ExpressionNode,
+  IdentifierNode,
+  UserFunction,
+} from '@/types/expression'
+import { APPROACH, CONVERSION_KEYWORD, parseExpression } from '@/utils/expression-parser'
+import {
+  CALCULUS_VARIABLE,
+  CONDITIONAL,
+  builtinConstants,
+  builtinFunctions,
+  calculusFunctions,
+  defaultEvaluationContext,
+  hasEntry,
+  isCalculusCall,
+  lookupFunction,
+  tryEvaluateExpression,
+} from '@/utils/expression-evaluator'
+import { CalculatorError, EvaluationResult, isCalculatorError } from '@/utils/calculator-errors'
+import { bigCombinations, bigFactorial, bigPermutations } from '@/utils/number-theory'
+import { gamma, lnGamma, MAX_FLOAT_FACTORIAL } from '@/utils/special-functions'
+import { isUnitName } from '@/utils/units'
+
 /**
  * Convert degrees to radians
  */
@@ -18,20 +43,19 @@ export const radiansToDegrees = (radians: number): number => {
 }
 
 /**
- * Calculate factorial with memoization
+ * Calculate factorial with memoization; integers are computed exactly and rounded once,
+ * non-integers use the gamma function, x! = Γ(x + 1)
  */
 const factorialCache: Record<number, number> = {}
 
 export const factorial = (n: number): number => {
+  if (!Number.isInteger(n)) return gamma(n + 1)
   if (n < 0) return NaN
+  if (n > MAX_FLOAT_FACTORIAL) return Infinity
   if (n === 0 || n === 1) return 1
   if (factorialCache[n]) return factorialCache[n]
 
-  let result = 1
-  for (let i = 2; i <= n; i++) {
-    result *= i
-  }
-
+  const result = Number(bigFactorial(BigInt(n)))
   factorialCache[n] = result
   return result
 }
@@ -63,82 +87,369 @@ export const formatNumber = (value: number, maxDecimals: number = 12): string =>
 
 /**
  * Validate mathematical expression
+ * An expression is valid when the parser accepts it
  */
 export const isValidExpression = (expression: string): boolean => {
-  // Check for balanced parentheses
-  let parenCount = 0
-  for (const char of expression) {
-    if (char === '(') parenCount++
-    if (char === ')') parenCount--
-    if (parenCount < 0) return false
+  try {
+    parseExpression(expression)
+    return true
+  } catch {
+    return false
   }
-  if (parenCount !== 0) return false
-
-  // Check for valid operators
-  const invalidPattern = /[+\-*/^]{2,}|[+\-*/^]$|^[*/^]/
-  return !invalidPattern.test(expression)
 }
 
 /**
  * Safely evaluate mathematical expression
+ * Parses into an AST and evaluates it without dynamic code execution.
+ * Use tryEvaluateExpression when the reason for a failure is needed.
  */
-export const safeEvaluate = (expression: string): number | null => {
-  try {
-    if (!isValidExpression(expression)) {
-      return null
-    }
+export const safeEvaluate = (
+  expression: string,
+  context: EvaluationContext = defaultEvaluationContext
+): number | null => {
+  const result = tryEvaluateExpression(expression, context)
+  return result.ok && isFinite(result.value) ? result.value : null
+}
+
+/**
+ * Outcome of a line of input; `assigned` names the variable an assignment such as `x = 3.2`
+ * stores the result in
+ */
+export type InputResult = EvaluationResult & { assigned?: string }
+
+/**
+ * Names follow the tokenizer's identifier rule
+ */
+const NAME_PATTERN = /^[A-Za-z_\u0370-\u03FF][A-Za-z0-9_\u0370-\u03FF]*$/
+
+/**
+ * `name =` at the start of an assignment; `==` is not an assignment
+ */
+const ASSIGNMENT_PATTERN = /^([A-Za-z_\u0370-\u03FF][A-Za-z0-9_\u0370-\u03FF]*)\s*=(?!=)\s*/
+
+/**
+ * History references are read-only: `ans` is the last result, `ans1`, `ans2`, ... earlier ones
+ */
+export const isHistoryReference = (name: string): boolean => /^ans\d*$/.test(name)
+
+/**
+ * Names of built-in functions, including the conditional and the calculus functions
+ */
+const isBuiltinName = (name: string): boolean =>
+  hasEntry(builtinFunctions, name) || hasEntry(calculusFunctions, name) || name === CONDITIONAL
+
+/**
+ * Explain why a name cannot hold a variable
+ * @returns null for a usable name, otherwise a user-facing reason
+ */
+export const checkVariableName = (name: string): string | null => {
+  if (!NAME_PATTERN.test(name)) {
+    return `'${name}' is not a valid name`
+  }
+  if (hasEntry(builtinConstants, name) || name === 'i') {
+    return `'${name}' is a built-in constant`
+  }
+  if (isBuiltinName(name)) {
+    return `'${name}' is a built-in function`
+  }
+  if (isHistoryReference(name)) {
+    return `'${name}' refers to the history and cannot be assigned`
+  }
+  if (name === CONVERSION_KEYWORD) {
+    return `'${name}' converts units and cannot be assigned`
+  }
+  return null
+}
+
+/**
+ * Outcome of a function definition such as `f(x, y) = sqrt(x^2 + y^2)`
+ */
+export type DefinitionResult =
+  | { ok: true; definition: UserFunction; source: string }
+  | { ok: false; error: CalculatorError; source: string }
+
+/**
+ * `name(params) =` at the start of a function definition
+ */
+const DEFINITION_PATTERN =
+  /^([A-Za-z_\u0370-\u03FF][A-Za-z0-9_\u0370-\u03FF]*)\s*\(([^()]*)\)\s*=(?!=)\s*/
+
+/**
+ * Whether input is a function definition rather than an expression or assignment
+ */
+export const isFunctionDefinition = (input: string): boolean =>
+  DEFINITION_PATTERN.test(input.trim())
+
+const childrenOf = (node: ExpressionNode): ExpressionNode[] => {
+  switch (node.type) {
+    case 'number':
+    case 'identifier':
+      return []
+    case 'unary':
+    case 'postfix':
+      return [node.operand]
+    case 'binary':
+    case 'comparison':
+      return [node.left, node.right]
+    case 'conversion':
+      return [node.value, node.unit]
+    case 'call':
+      return node.args
+    case 'matrix':
+      return node.rows.flat()
+  }
+}
+
+/**
+ * Whether evaluating a node calls `target` on every path, so the recursion can never end
+ * Only the branch an `if` takes is evaluated, so one branch without the call is a base case.
+ * @param visiting - User functions already being followed, for mutual recursion
+ */
+const alwaysCalls = (
+  node: ExpressionNode,
+  target: string,
+  functions: Record<string, UserFunction>,
+  visiting: Set<string>
+): boolean => {
+  const recurse = (child: ExpressionNode) => alwaysCalls(child, target, functions, visiting)
+  if (node.type !== 'call') {
+    return childrenOf(node).some(recurse)
+  }
+  if (node.callee === target) {
+    return true
+  }
+  if (node.callee === CONDITIONAL && node.args.length === 3) {
+    const [condition, then, otherwise] = node.args
+    return recurse(condition) || (recurse(then) && recurse(otherwise))
+  }
+  if (node.args.some(recurse)) {
+    return true
+  }
+  if (!hasEntry(functions, node.callee) || visiting.has(node.callee)) {
+    return false
+  }
+  const body = parseExpression(functions[node.callee].body)
+  return alwaysCalls(body, target, functions, new Set([...visiting, node.callee]))
+}
 
-    // Replace common mathematical notations
-    const normalizedExpression = expression
-      .replace(/π/g, String(Math.PI))
-      .replace(/e/g, String(Math.E))
-      .replace(/\^/g, '**')
-      .replace(/√/g, 'Math.sqrt')
-
-    // Prevent execution of dangerous code
-    if (
-      /[a-zA-Z_]/.test(
-        normalizedExpression.replace(/Math\./g, '').replace(/sin|cos|tan|sqrt|log|exp|abs/g, '')
+/**
+ * Check every name in a function body: identifiers must be parameters, constants, existing
+ * variables or units, and calls must go to a known function with the right number of arguments
+ * @throws CalculatorError at the offending node
+ */
+const checkBody = (
+  node: ExpressionNode,
+  definition: UserFunction,
+  context: EvaluationContext
+): void => {
+  if (node.type === 'identifier') {
+    const known =
+      definition.params.includes(node.name) ||
+      hasEntry(builtinConstants, node.name) ||
+      hasEntry(context.variables ?? {}, node.name) ||
+      isUnitName(node.name) ||
+      (node.name === 'i' && context.complex === true)
+    if (!known) {
+      throw new CalculatorError('unknown-identifier', `'${node.name}' is not defined`, node)
+    }
+  }
+  if (node.type === 'call' && isCalculusCall(node)) {
+    checkCalculusCall(node, definition, context)
+    return
+  }
+  if (node.type === 'call') {
+    const functions = { ...context.functions, [definition.name]: definition }
+    const expected =
+      node.callee === CONDITIONAL
+        ? 3
+        : hasEntry(functions, node.callee)
+          ? functions[node.callee].params.length
+          : undefined
+    if (expected === undefined) {
+      // Built-ins check their own name and argument count
+      lookupFunction(node)
+    } else if (node.args.length !== expected) {
+      throw new CalculatorError(
+        'syntax',
+        `'${node.callee}' expects ${expected} argument${expected === 1 ? '' : 's'}`,
+        node
       )
-    ) {
-      return null
     }
+  }
+  childrenOf(node).forEach(child => checkBody(child, definition, context))
+}
 
-    const result = Function(`'use strict'; return (${normalizedExpression})`)()
+/**
+ * Check a calculus call in a function body: its function may be a function name or use the
+ * variable it binds (x, or t in limit(f, t→a)) besides the names the body may use
+ * @throws CalculatorError at the offending node
+ */
+const checkCalculusCall = (
+  node: CallNode,
+  definition: UserFunction,
+  context: EvaluationContext
+): void => {
+  const [target, ...points] = node.args
+  const [point] = points
+  let variable = CALCULUS_VARIABLE
+  if (point?.type === 'call' && point.callee === APPROACH && node.callee === 'limit') {
+    variable = (point.args[0] as IdentifierNode).name
+    points.splice(0, 1, point.args[1])
+  }
+  const functions = { ...context.functions, [definition.name]: definition }
+  const named =
+    target?.type === 'identifier' &&
+    (hasEntry(functions, target.name) || hasEntry(builtinFunctions, target.name))
+  if (target && !named) {
+    checkBody(target, { ...definition, params: [...definition.params, variable] }, context)
+  }
+  points.forEach(child => checkBody(child, definition, context))
+}
 
-    if (!isFinite(result)) {
-      return null
+/**
+ * Parse and validate a function definition such as `f(x, y) = sqrt(x^2 + y^2)`
+ * The body may use the parameters, constants, existing variables, built-ins and user functions
+ * including itself, but a recursive function needs a base case: an `if` branch that does not
+ * recurse, as in `fact(n) = if(n <= 1, 1, n * fact(n - 1))`.
+ * @returns null when the input is not a definition, otherwise the definition or a typed error
+ *   whose range refers to the input
+ */
+export const defineFunction = (
+  input: string,
+  context: EvaluationContext = defaultEvaluationContext
+): DefinitionResult | null => {
+  const source = input.trim()
+  const match = DEFINITION_PATTERN.exec(source)
+  if (!match) {
+    return null
+  }
+  const fail = (code: CalculatorError['code'], message: string, start: number, end: number) => ({
+    ok: false as const,
+    error: new CalculatorError(code, message, { start, end }, source),
+    source,
+  })
+
+  const [head, name, paramText] = match
+  if (isBuiltinName(name)) {
+    return fail('syntax', `'${name}' is a built-in function`, 0, name.length)
+  }
+  if (name === CONVERSION_KEYWORD) {
+    return fail('syntax', `'${name}' converts units and cannot name a function`, 0, name.length)
+  }
+
+  // Parameters must be distinct names that a variable could have
+  const paramsStart = source.indexOf('(') + 1
+  const params = paramText.trim() ? paramText.split(',').map(param => param.trim()) : []
+  let offset = paramsStart
+  for (const [index, param] of params.entries()) {
+    const start = source.indexOf(param, offset)
+    const problem =
+      checkVariableName(param) ??
+      (params.indexOf(param) !== index ? `'${param}' is already a parameter` : null)
+    if (problem) {
+      return fail('syntax', problem, start, start + Math.max(param.length, 1))
     }
+    offset = start + param.length
+  }
 
-    return result
-  } catch {
-    return null
+  const body = source.slice(head.length)
+  const definition: UserFunction = { name, params, body }
+  try {
+    const root = parseExpression(body)
+    checkBody(root, definition, context)
+    const functions = { ...context.functions, [name]: definition }
+    if (alwaysCalls(root, name, functions, new Set([name]))) {
+      return fail(
+        'syntax',
+        `${name} calls itself on every path; add a base case with if(condition, value, ...)`,
+        head.length,
+        source.length
+      )
+    }
+  } catch (error) {
+    if (!isCalculatorError(error)) {
+      throw error
+    }
+    return fail(error.code, error.message, error.start + head.length, error.end + head.length)
   }
+  return { ok: true, definition, source }
 }
 
 /**
- * Parse and validate user input
+ * Parse and validate user input: an expression, or an assignment `name = expression`
+ * @returns null for blank input, otherwise the evaluation result or a typed error
  */
-export const parseInput = (input: string): string | number | null => {
+export const parseInput = (
+  input: string,
+  context: EvaluationContext = defaultEvaluationContext
+): InputResult | null => {
   const trimmed = input.trim()
 
   if (!trimmed) {
     return null
   }
 
-  // Try to parse as number
-  const num = parseFloat(trimmed)
-  if (!isNaN(num)) {
-    return num
+  const assignment = ASSIGNMENT_PATTERN.exec(trimmed)
+  if (!assignment) {
+    return tryEvaluateExpression(trimmed, context)
+  }
+
+  const name = assignment[1]
+  const problem = checkVariableName(name)
+  if (problem) {
+    const error = new CalculatorError('syntax', problem, { start: 0, end: name.length }, trimmed)
+    return { ok: false, error, source: trimmed }
   }
 
-  // Try to evaluate as expression
-  const result = safeEvaluate(trimmed)
-  if (result !== null) {
-    return result
+  // Evaluate the right-hand side, then move error ranges back into the full input
+  const offset = assignment[0].length
+  const result = tryEvaluateExpression(trimmed.slice(offset), context)
+  if (!result.ok) {
+    const { code, message, start, end } = result.error
+    const range = { start: start + offset, end: end + offset }
+    return { ok: false, error: new CalculatorError(code, message, range, trimmed), source: trimmed }
   }
+  return { ...result, source: trimmed, assigned: name }
+}
+
+/**
+ * Format an operand so it can be embedded in an expression
+ * Negative, fraction, complex and unit values are parenthesised so `(-2) ^ 2`, `(1/3) ^ 2`,
+ * `(3+4i) ^ 2` and `(3 m) ^ 2` keep their meaning
+ */
+export const formatOperand = (value: number | string): string => {
+  const text = String(value)
+  // Signs inside an exponent (1e-7) do not split the value
+  return /[-+/\s]/.test(text.replace(/e[+-]/i, 'e')) ? `(${text})` : text
+}
 
-  return trimmed
+/**
+ * Evaluate a keypad operation such as `8 / 0` or `nroot(27, 3)`
+ * The expression text is kept so errors can point at the offending operand
+ */
+export const evaluateOperation = (
+  previous: number | string,
+  current: number | string,
+  operation: string,
+  context: EvaluationContext = defaultEvaluationContext
+): EvaluationResult => {
+  const left = formatOperand(previous)
+  const right = formatOperand(current)
+  const source = /^[a-z]/i.test(operation)
+    ? `${operation}(${left}, ${right})`
+    : `${left} ${operation} ${right}`
+  return tryEvaluateExpression(source, context)
+}
+
+/**
+ * Evaluate a keypad function such as `asin(2)`
+ */
+export const evaluateFunction = (
+  name: string,
+  value: number | string,
+  context: EvaluationContext = defaultEvaluationContext
+): EvaluationResult => {
+  return tryEvaluateExpression(`${name}(${value})`, context)
 }
 
 /**
@@ -156,6 +467,77 @@ export const calculatePercentageChange = (oldValue: number, newValue: number): n
   return ((newValue - oldValue) / Math.abs(oldValue)) * 100
 }
 
+/**
+ * Selling price that makes `margin` percent of it profit: cost 80 at a 20% margin sells for 100
+ */
+export const sellingPriceForMargin = (cost: number, margin: number): number =>
+  cost / (1 - margin / 100)
+
+/**
+ * Cost that leaves `margin` percent of the selling price as profit
+ */
+export const costForMargin = (price: number, margin: number): number =>
+  price - calculatePercentage(price, margin)
+
+/**
+ * Profit as a percentage of the selling price
+ */
+export const marginPercent = (cost: number, price: number): number => ((price - cost) / price) * 100
+
+/**
+ * Selling price `markup` percent above cost: cost 80 with a 25% markup sells for 100
+ */
+export const sellingPriceForMarkup = (cost: number, markup: number): number =>
+  cost + calculatePercentage(cost, markup)
+
+/**
+ * Cost that a selling price is `markup` percent above
+ */
+export const costForMarkup = (price: number, markup: number): number => price / (1 + markup / 100)
+
+/**
+ * Profit as a percentage of cost
+ */
+export const markupPercent = (cost: number, price: number): number =>
+  calculatePercentageChange(cost, price)
+
+/**
+ * The margin a markup gives: 25% markup is a 20% margin
+ */
+export const markupToMargin = (markup: number): number => (markup / (100 + markup)) * 100
+
+/**
+ * The markup a margin needs: a 20% margin is a 25% markup
+ */
+export const marginToMarkup = (margin: number): number => (margin / (100 - margin)) * 100
+
+/**
+ * Net amount plus tax at `rate` percent
+ */
+export const addTax = (net: number, rate: number): number => net + calculatePercentage(net, rate)
+
+/**
+ * Net amount of a gross amount that includes tax at `rate` percent
+ */
+export const removeTax = (gross: number, rate: number): number => gross / (1 + rate / 100)
+
+/**
+ * Price after discounts applied one after another: 10% then 5% off 100 is 85.50
+ */
+export const applyDiscounts = (price: number, discounts: number[]): number =>
+  discounts.reduce((current, discount) => current - calculatePercentage(current, discount), price)
+
+/**
+ * Bill plus a tip of `tip` percent
+ */
+export const addTip = (bill: number, tip: number): number => bill + calculatePercentage(bill, tip)
+
+/**
+ * Each person's share of a bill plus a tip of `tip` percent
+ */
+export const splitBill = (bill: number, people: number, tip: number = 0): number =>
+  addTip(bill, tip) / people
+
 /**
  * Round to specific decimal places
  */
@@ -193,17 +575,28 @@ export const lcm = (a: number, b: number): number => {
 }
 
 /**
- * Calculate combinatorial permutations: P(n, r)
+ * Natural logarithm of the largest double; results above it overflow
+ */
+const MAX_FLOAT_LOG = Math.log(Number.MAX_VALUE)
+
+const isSelection = (n: number, r: number): boolean =>
+  Number.isInteger(n) && Number.isInteger(r) && r >= 0 && r <= n
+
+/**
+ * Calculate combinatorial permutations: P(n, r), exact and rounded once
  */
 export const permutation = (n: number, r: number): number => {
-  if (r > n || r < 0 || n < 0) return NaN
-  return factorial(n) / factorial(n - r)
+  if (!isSelection(n, r)) return NaN
+  // Results far beyond a double are not worth computing exactly
+  if (lnGamma(n + 1) - lnGamma(n - r + 1) > MAX_FLOAT_LOG + 1) return Infinity
+  return Number(bigPermutations(BigInt(n), BigInt(r)))
 }
 
 /**
- * Calculate combinatorial combinations: C(n, r)
+ * Calculate combinatorial combinations: C(n, r), exact and rounded once
  */
 export const combination = (n: number, r: number): number => {
-  if (r > n || r < 0 || n < 0) return NaN
-  return factorial(n) / (factorial(r) * factorial(n - r))
+  if (!isSelection(n, r)) return NaN
+  if (lnGamma(n + 1) - lnGamma(r + 1) - lnGamma(n - r + 1) > MAX_FLOAT_LOG + 1) return Infinity
+  return Number(bigCombinations(BigInt(n), BigInt(r)))
 }
@@ -0,0 +1,441 @@
+/**
+ * Numeric Calculus
+ * Integrals by adaptive Gauss–Kronrod quadrature, derivatives and limits by Richardson
+ * extrapolation, roots by the secant and Brent's methods and extrema by Brent's parabolic
+ * search. Every result carries an estimate of its absolute error and whether that met the
+ * method's tolerance; the functions sampled return NaN where they are undefined.
+ */
+
+import { NumericEstimate, NumericResult, RealFunction } from '@/types/expression'
+
+/**
+ * Relative error an integral must reach, and a derivative or limit
+ */
+const INTEGRAL_TOLERANCE = 1e-10
+const EXTRAPOLATION_TOLERANCE = 1e-8
+
+/**
+ * Relative difference of the one-sided slopes beyond which a function has a corner
+ */
+const CORNER_TOLERANCE = 1e-6
+
+/**
+ * Absolute error that is always good enough, for values at or near 0
+ */
+const ABSOLUTE_TOLERANCE = 1e-12
+
+/**
+ * Absolute part of the tolerance of a root; the relative part is a few units in the last place
+ */
+const ROOT_TOLERANCE = 1e-14
+
+/**
+ * Most subintervals adaptive quadrature splits a range into
+ */
+const MAX_SUBINTERVALS = 1000
+
+/**
+ * Most steps of the secant, Brent and minimization iterations
+ */
+const MAX_ITERATIONS = 500
+
+/**
+ * First step of the derivative and limit sequences, relative to the point (and at least this)
+ */
+const FIRST_STEP = 0.1
+
+/**
+ * Richardson extrapolation: how much each step shrinks, the longest sequence of steps, and how
+ * much worse than the best estimate the highest order may get before the sequence stops
+ */
+const STEP_RATIO = 1.4
+const MAX_STEPS = 10
+const SAFETY = 2
+
+/**
+ * Fraction of an interval the golden-section steps of a minimization take
+ */
+const GOLDEN_SECTION = (3 - Math.sqrt(5)) / 2
+
+/**
+ * Nodes in (0, 1] of the 15-point Kronrod rule, largest first, ending with the midpoint 0;
+ * every other node from the second is a node of the 7-point Gauss rule
+ */
+const KRONROD_NODES = [
+  0.9914553711208126, 0.9491079123427585, 0.8648644233597691, 0.7415311855993945,
+  0.5860872354676911, 0.4058451513773972, 0.20778495500789848, 0,
+]
+const KRONROD_WEIGHTS = [
+  0.022935322010529224, 0.06309209262997856, 0.10479001032225019, 0.14065325971552592,
+  0.1690047266392679, 0.19035057806478542, 0.20443294007529889, 0.20948214108472782,
+]
+const GAUSS_WEIGHTS = [
+  0.1294849661688697, 0.27970539148927664, 0.3818300505051189, 0.4179591836734694,
+]
+
+/**
+ * Error that meets a relative tolerance, or the absolute one near 0
+ */
+const withinTolerance = (value: number, error: number, relative: number): boolean =>
+  error <= Math.max(ABSOLUTE_TOLERANCE, relative * Math.abs(value))
+
+/**
+ * A function that counts how often it is sampled
+ */
+const counted = (f: RealFunction): { sample: RealFunction; count: () => number } => {
+  let calls = 0
+  return {
+    sample: x => {
+      calls++
+      return f(x)
+    },
+    count: () => calls,
+  }
+}
+
+/**
+ * Integral of f over [a, b] by the 15-point Kronrod rule; the error estimate is its difference
+ * from the 7-point Gauss rule on the same nodes
+ */
+const gaussKronrod = (f: RealFunction, a: number, b: number) => {
+  const center = (a + b) / 2
+  const half = (b - a) / 2
+  const middle = f(center)
+  let kronrod = KRONROD_WEIGHTS[7] * middle
+  let gauss = GAUSS_WEIGHTS[3] * middle
+  for (let k = 0; k < 7; k++) {
+    const offset = half * KRONROD_NODES[k]
+    const pair = f(center - offset) + f(center + offset)
+    kronrod += KRONROD_WEIGHTS[k] * pair
+    if (k % 2 === 1) gauss += GAUSS_WEIGHTS[(k - 1) / 2] * pair
+  }
+  return { a, b, value: kronrod * half, error: Math.abs((kronrod - gauss) * half) }
+}
+
+/**
+ * Integral of f from a to b by adaptive quadrature: the subinterval with the largest error is
+ * halved until the errors add up to the tolerance. Singularities at the ends are fine as long
+ * as the integral exists, since the rule never samples an end.
+ */
+export const integrate = (f: RealFunction, a: number, b: number): NumericResult => {
+  if (a > b) {
+    const reversed = integrate(f, b, a)
+    return { ...reversed, value: -reversed.value }
+  }
+  const { sample, count } = counted(f)
+  if (a === b) {
+    return { value: 0, error: 0, converged: true, evaluations: 0 }
+  }
+  const panels = [gaussKronrod(sample, a, b)]
+  for (;;) {
+    let value = 0
+    let error = 0
+    let worst = 0
+    panels.forEach((panel, k) => {
+      value += panel.value
+      error += panel.error
+      if (panel.error > panels[worst].error) worst = k
+    })
+    if (!Number.isFinite(value) || !Number.isFinite(error)) {
+      return { value: NaN, error: Infinity, converged: false, evaluations: count() }
+    }
+    const converged = withinTolerance(value, error, INTEGRAL_TOLERANCE)
+    const { a: left, b: right } = panels[worst]
+    const middle = left + (right - left) / 2
+    if (converged || panels.length >= MAX_SUBINTERVALS || middle <= left || middle >= right) {
+      return { value, error, converged, evaluations: count() }
+    }
+    panels.splice(worst, 1, gaussKronrod(sample, left, middle), gaussKronrod(sample, middle, right))
+  }
+}
+
+/**
+ * Ridders' form of Richardson extrapolation: the limit as h → 0 of estimate(h), sampled at
+ * steps shrinking from `step`, where the error of estimate(h) is a series in h^power
+ * @returns The best extrapolation and its error, estimated from its neighbours in the table
+ */
+const extrapolate = (
+  estimate: (h: number) => number,
+  step: number,
+  power: number
+): { value: number; error: number } => {
+  const ratio = STEP_RATIO ** power
+  let previous = [estimate(step)]
+  let value = NaN
+  let error = Infinity
+  let h = step
+  for (let i = 1; i < MAX_STEPS; i++) {
+    h /= STEP_RATIO
+    const row = [estimate(h)]
+    let factor = ratio
+    for (let j = 1; j <= i; j++) {
+      row[j] = (row[j - 1] * factor - previous[j - 1]) / (factor - 1)
+      factor *= ratio
+      const change = Math.max(Math.abs(row[j] - row[j - 1]), Math.abs(row[j] - previous[j - 1]))
+      if (change <= error) {
+        error = change
+        value = row[j]
+      }
+    }
+    // Higher orders only add rounding error from here on
+    if (Math.abs(row[i] - previous[i - 1]) >= SAFETY * error) break
+    previous = row
+  }
+  return { value, error }
+}
+
+/**
+ * Derivative of f at x0 from central differences extrapolated to a zero step. Central
+ * differences cannot see a corner (|x| at 0), so the slopes from either side must agree too.
+ */
+export const differentiate = (f: RealFunction, x0: number): NumericResult => {
+  const { sample, count } = counted(f)
+  const step = FIRST_STEP * Math.max(1, Math.abs(x0))
+  const central = extrapolate(h => (sample(x0 + h) - sample(x0 - h)) / (2 * h), step, 2)
+  const f0 = sample(x0)
+  const slope = (side: number) => extrapolate(h => (sample(x0 + h) - f0) / h, side * step, 1).value
+  const gap = Math.abs(slope(1) - slope(-1))
+  const smooth = gap <= CORNER_TOLERANCE * Math.max(1, Math.abs(central.value))
+  return {
+    value: central.value,
+    error: smooth ? central.error : Math.max(central.error, gap / 2),
+    converged: smooth && withinTolerance(central.value, central.error, EXTRAPOLATION_TOLERANCE),
+    evaluations: count(),
+  }
+}
+
+/**
+ * Limit of f at a, from above (side 1), below (side −1) or both sides (side 0), extrapolated
+ * from values ever closer to a without sampling a itself; both sides must agree
+ */
+export const limit = (f: RealFunction, a: number, side: number): NumericResult => {
+  if (side === 0) {
+    const above = limit(f, a, 1)
+    const below = limit(f, a, -1)
+    const value = (above.value + below.value) / 2
+    const gap = Math.abs(above.value - below.value)
+    const error = Math.max(above.error, below.error, gap / 2)
+    return {
+      value,
+      error,
+      converged:
+        above.converged && below.converged && withinTolerance(value, gap, EXTRAPOLATION_TOLERANCE),
+      evaluations: above.evaluations + below.evaluations,
+    }
+  }
+  const { sample, count } = counted(f)
+  const step = side * FIRST_STEP * Math.max(1, Math.abs(a))
+  const { value, error } = extrapolate(h => sample(a + h), step, 1)
+  return {
+    value,
+    error,
+    converged: withinTolerance(value, error, EXTRAPOLATION_TOLERANCE),
+    evaluations: count(),
+  }
+}
+
+/**
+ * Tolerance of a root near x
+ */
+const rootTolerance = (x: number): number => 2 * Number.EPSILON * Math.abs(x) + ROOT_TOLERANCE
+
+/**
+ * Brent's method on a bracket [a, b] where f changes sign: inverse quadratic interpolation and
+ * secant steps, falling back to bisection whenever they would not shrink the bracket fast enough
+ */
+const brentRoot = (
+  f: RealFunction,
+  start: number,
+  end: number,
+  fStart: number,
+  fEnd: number
+): { value: number; error: number; converged: boolean } => {
+  let [a, b, fa, fb] = [start, end, fStart, fEnd]
+  let [c, fc] = [b, fb]
+  let d = b - a
+  let e = d
+  for (let i = 0; i < MAX_ITERATIONS; i++) {
+    if (!Number.isFinite(fb)) break
+    if (Math.sign(fb) === Math.sign(fc)) {
+      ;[c, fc] = [a, fa]
+      d = b - a
+      e = d
+    }
+    if (Math.abs(fc) < Math.abs(fb)) {
+      ;[a, b, c] = [b, c, b]
+      ;[fa, fb, fc] = [fb, fc, fb]
+    }
+    const tolerance = rootTolerance(b) / 2
+    const half = (c - b) / 2
+    if (Math.abs(half) <= tolerance || fb === 0) {
+      return { value: b, error: fb === 0 ? 0 : Math.abs(half), converged: true }
+    }
+    if (Math.abs(e) >= tolerance && Math.abs(fa) > Math.abs(fb)) {
+      const s = fb / fa
+      let p: number
+      let q: number
+      if (a === c) {
+        p = 2 * half * s
+        q = 1 - s
+      } else {
+        const r = fb / fc
+        q = fa / fc
+        p = s * (2 * half * q * (q - r) - (b - a) * (r - 1))
+        q = (q - 1) * (r - 1) * (s - 1)
+      }
+      if (p > 0) q = -q
+      p = Math.abs(p)
+      if (2 * p < Math.min(3 * half * q - Math.abs(tolerance * q), Math.abs(e * q))) {
+        e = d
+        d = p / q
+      } else {
+        d = half
+        e = d
+      }
+    } else {
+      d = half
+      e = d
+    }
+    a = b
+    fa = fb
+    b += Math.abs(d) > tolerance ? d : Math.sign(half) * tolerance
+    fb = f(b)
+  }
+  return { value: b, error: Math.abs(c - b), converged: false }
+}
+
+/**
+ * Whether f changes sign (or vanishes) between a and b, so solve can bracket a root there
+ */
+export const bracketsRoot = (f: RealFunction, a: number, b: number): boolean => {
+  const product = f(a) * f(b)
+  return Number.isFinite(product) && product <= 0
+}
+
+/**
+ * Root of f between a and b, where f changes sign, by Brent's method
+ */
+export const solveBracketed = (f: RealFunction, a: number, b: number): NumericResult => {
+  const { sample, count } = counted(f)
+  const fa = sample(a)
+  const fb = sample(b)
+  const result =
+    fa === 0 ? { value: a, error: 0, converged: true } : brentRoot(sample, a, b, fa, fb)
+  return { ...result, evaluations: count() }
+}
+
+/**
+ * Root of f near a guess: secant steps from the guess until two points bracket a root, which
+ * Brent's method then closes in on. A root the function touches without changing sign (x²) is
+ * found by the secant steps alone. Steps that land where f is undefined are pulled back halfway.
+ */
+export const findRoot = (f: RealFunction, guess: number): NumericResult => {
+  const { sample, count } = counted(f)
+  let [x0, f0] = [guess, sample(guess)]
+  if (f0 === 0 || !Number.isFinite(f0)) {
+    return { value: f0 === 0 ? guess : NaN, error: 0, converged: f0 === 0, evaluations: count() }
+  }
+  let x1 = guess + 1e-3 * Math.max(1, Math.abs(guess))
+  let f1 = sample(x1)
+  for (let i = 0; i < MAX_ITERATIONS; i++) {
+    if (!Number.isFinite(f1)) {
+      x1 = (x0 + x1) / 2
+      f1 = sample(x1)
+      continue
+    }
+    if (f1 === 0) {
+      return { value: x1, error: 0, converged: true, evaluations: count() }
+    }
+    if (Math.sign(f0) !== Math.sign(f1)) {
+      return { ...brentRoot(sample, x0, x1, f0, f1), evaluations: count() }
+    }
+    const step = (f1 * (x1 - x0)) / (f1 - f0)
+    if (!Number.isFinite(step)) break
+    ;[x0, f0] = [x1, f1]
+    x1 -= step
+    f1 = sample(x1)
+    if (Math.abs(step) <= rootTolerance(x1) && Number.isFinite(f1)) {
+      return { value: x1, error: Math.abs(step), converged: true, evaluations: count() }
+    }
+  }
+  return { value: x1, error: Math.abs(x1 - x0), converged: false, evaluations: count() }
+}
+
+/**
+ * Where f is smallest on [a, b] by Brent's method: golden-section steps combined with the
+ * minimum of a parabola through the best three points. It finds a local minimum, the least one
+ * when f has a single minimum on the interval, to about the square root of the float precision.
+ */
+export const minimize = (f: RealFunction, start: number, end: number): NumericResult => {
+  const { sample, count } = counted(f)
+  let [a, b] = start < end ? [start, end] : [end, start]
+  let x = a + GOLDEN_SECTION * (b - a)
+  let [w, v] = [x, x]
+  let fx = sample(x)
+  let [fw, fv] = [fx, fx]
+  let d = 0
+  let e = 0
+  for (let i = 0; i < MAX_ITERATIONS; i++) {
+    const middle = (a + b) / 2
+    const tolerance = Math.sqrt(Number.EPSILON) * Math.abs(x) + ABSOLUTE_TOLERANCE
+    if (Math.abs(x - middle) <= 2 * tolerance - (b - a) / 2) {
+      return {
+        value: x,
+        error: Math.max(x - a, b - x),
+        converged: Number.isFinite(fx),
+        evaluations: count(),
+      }
+    }
+    let golden = true
+    if (Math.abs(e) > tolerance) {
+      const r = (x - w) * (fx - fv)
+      let q = (x - v) * (fx - fw)
+      let p = (x - v) * q - (x - w) * r
+      q = 2 * (q - r)
+      if (q > 0) p = -p
+      q = Math.abs(q)
+      const previous = e
+      e = d
+      if (Math.abs(p) < Math.abs(0.5 * q * previous) && p > q * (a - x) && p < q * (b - x)) {
+        d = p / q
+        // Keep the next sample away from the ends
+        if (x + d - a < 2 * tolerance || b - (x + d) < 2 * tolerance) {
+          d = x < middle ? tolerance : -tolerance
+        }
+        golden = false
+      }
+    }
+    if (golden) {
+      e = (x < middle ? b : a) - x
+      d = GOLDEN_SECTION * e
+    }
+    const u = x + (Math.abs(d) >= tolerance ? d : Math.sign(d) * tolerance)
+    const fu = sample(u)
+    if (fu <= fx) {
+      if (u < x) b = x
+      else a = x
+      ;[v, fv, w, fw, x, fx] = [w, fw, x, fx, u, fu]
+    } else {
+      if (u < x) a = u
+      else b = u
+      if (fu <= fw || w === x) {
+        ;[v, fv, w, fw] = [w, fw, u, fu]
+      } else if (fu <= fv || v === x || v === w) {
+        ;[v, fv] = [u, fu]
+      }
+    }
+  }
+  return { value: x, error: b - a, converged: false, evaluations: count() }
+}
+
+/**
+ * Where f is largest on [a, b]: the minimum of −f
+ */
+export const maximize = (f: RealFunction, a: number, b: number): NumericResult =>
+  minimize(x => -f(x), a, b)
+
+/**
+ * Error estimate of a calculus call as text, `integrate ± 3.7e-15`
+ */
+export const formatEstimate = ({ method, error }: NumericEstimate): string =>
+  `${method} ± ${Number(error.toPrecision(2))}`
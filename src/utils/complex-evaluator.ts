@@ -0,0 +1,368 @@
+/**
+ * Complex Expression Evaluator
+ * Evaluates the expression AST over the complex numbers. Real arguments inside a function's
+ * real domain use the floating-point implementation, so real results match float mode;
+ * outside it (sqrt(-1), ln(-1), asin(2)) the principal complex value is returned.
+ */
+
+import {
+  BinaryNode,
+  CallNode,
+  ComparisonNode,
+  EvaluationContext,
+  EvaluationErrorCode,
+  ExpressionNode,
+  SourceRange,
+} from '@/types/expression'
+import { CalculatorError } from '@/utils/calculator-errors'
+import { Complex } from '@/utils/complex'
+import {
+  builtinConstants,
+  builtinFunctions,
+  checkDomain,
+  checkResult,
+  comparisonHolds,
+  conversionUnavailable,
+  entryOf,
+  evaluateArguments,
+  evaluateSpecialCall,
+  factorialDomain,
+  lookupFunction,
+  matrixUnavailable,
+  NodeEvaluator,
+  resolvePhysicalConstant,
+  resolveVariable,
+  undefinedName,
+} from '@/utils/expression-evaluator'
+import { isGammaPole } from '@/utils/special-functions'
+
+/**
+ * Arguments for which a complex function has a value
+ */
+interface ComplexDomain {
+  test: (args: Complex[], context: EvaluationContext) => boolean
+  /** Human-readable description of the valid inputs */
+  description: string
+  code?: Extract<EvaluationErrorCode, 'domain' | 'division-by-zero'>
+}
+
+interface ComplexFunction {
+  evaluate: (args: Complex[], context: EvaluationContext) => Complex
+  domain?: ComplexDomain
+}
+
+const HUNDRED = new Complex(100)
+const LN10 = new Complex(Math.LN10)
+const LN2 = new Complex(Math.LN2)
+
+/**
+ * Convert an angle argument to radians according to the angle mode
+ */
+const toRadians = (z: Complex, context: EvaluationContext): Complex =>
+  context.angleMode === 'deg' ? z.scale(Math.PI / 180) : z
+
+/**
+ * Convert a radian result to the unit of the current angle mode
+ */
+const fromRadians = (z: Complex, context: EvaluationContext): Complex =>
+  context.angleMode === 'deg' ? z.scale(180 / Math.PI) : z
+
+/**
+ * e^(iθ) for an angle in the current unit; whole quarter turns in degrees are exact
+ */
+const unitPhasor = (theta: Complex, context: EvaluationContext): Complex => {
+  if (context.angleMode === 'deg' && theta.isReal() && theta.re % 90 === 0) {
+    const quarterTurns = (((theta.re / 90) % 4) + 4) % 4
+    return [Complex.ONE, Complex.I, new Complex(-1), new Complex(0, -1)][quarterTurns]
+  }
+  return Complex.I.multiply(toRadians(theta, context)).exp()
+}
+
+const unary = (
+  evaluate: (z: Complex, context: EvaluationContext) => Complex,
+  domain?: ComplexDomain
+): ComplexFunction => ({
+  evaluate: ([z], context) => evaluate(z, context),
+  domain,
+})
+
+const nonZero: ComplexDomain = {
+  test: ([z]) => !z.isZero(),
+  description: 'non-zero inputs',
+}
+
+/**
+ * Factorial is Γ(z + 1), which has poles at the negative integers
+ */
+const complexFactorialDomain: ComplexDomain = {
+  test: ([z]) => !(z.isReal() && z.re < 0 && Number.isInteger(z.re)),
+  description: 'inputs other than negative integers',
+}
+
+/**
+ * Γ has poles at zero and the negative integers
+ */
+const complexGammaDomain: ComplexDomain = {
+  test: ([z]) => !(z.isReal() && isGammaPole(z.re)),
+  description: 'inputs other than 0 and negative integers',
+}
+
+/**
+ * Reciprocal of a trigonometric function; its only poles are the real ones the floating-point
+ * domain already rejects
+ */
+const reciprocalTrigonometric = (
+  name: 'sec' | 'csc' | 'cot',
+  evaluate: (z: Complex) => Complex,
+  description: string
+): ComplexFunction =>
+  unary((z, ctx) => evaluate(toRadians(z, ctx)).reciprocal(), {
+    test: ([z], ctx) => !z.isReal() || (builtinFunctions[name].domain?.test([z.re], ctx) ?? true),
+    description,
+  })
+
+/**
+ * Complex implementations of the built-in functions; names and arity come from
+ * builtinFunctions. Functions missing here (floor, gcd, ...) only accept real arguments.
+ */
+export const complexFunctions: Record<string, ComplexFunction> = {
+  sin: unary((z, ctx) => toRadians(z, ctx).sin()),
+  cos: unary((z, ctx) => toRadians(z, ctx).cos()),
+  tan: unary((z, ctx) => toRadians(z, ctx).tan(), {
+    // The only poles are the real ones the floating-point domain already rejects
+    test: ([z], ctx) => !z.isReal() || (builtinFunctions.tan.domain?.test([z.re], ctx) ?? true),
+    description: 'angles that are not odd multiples of 90°',
+  }),
+  asin: unary((z, ctx) => fromRadians(z.asin(), ctx)),
+  acos: unary((z, ctx) => fromRadians(z.acos(), ctx)),
+  atan: unary((z, ctx) => fromRadians(z.atan(), ctx), {
+    test: ([z]) => !(z.re === 0 && Math.abs(z.im) === 1),
+    description: 'inputs other than ±i',
+  }),
+  sec: reciprocalTrigonometric('sec', z => z.cos(), 'angles that are not odd multiples of 90°'),
+  csc: reciprocalTrigonometric('csc', z => z.sin(), 'angles that are not multiples of 180°'),
+  cot: reciprocalTrigonometric('cot', z => z.tan(), 'angles that are not multiples of 180°'),
+  sinh: unary(z => z.sinh()),
+  cosh: unary(z => z.cosh()),
+  tanh: unary(z => z.tanh()),
+  asinh: unary(z => z.asinh()),
+  acosh: unary(z => z.acosh()),
+  atanh: unary(z => z.atanh(), {
+    test: ([z]) => !(z.im === 0 && Math.abs(z.re) === 1),
+    description: 'inputs other than ±1',
+  }),
+  log: unary(z => z.ln().divide(LN10), nonZero),
+  log10: unary(z => z.ln().divide(LN10), nonZero),
+  ln: unary(z => z.ln(), nonZero),
+  log2: unary(z => z.ln().divide(LN2), nonZero),
+  exp: unary(z => z.exp()),
+  sqrt: unary(z => z.sqrt()),
+  cbrt: unary(z => z.pow(new Complex(1 / 3))),
+  square: unary(z => z.multiply(z)),
+  cube: unary(z => z.multiply(z).multiply(z)),
+  reciprocal: unary(z => z.reciprocal(), { ...nonZero, code: 'division-by-zero' }),
+  abs: unary(z => new Complex(z.abs())),
+  factorial: unary(z => z.add(Complex.ONE).gamma(), complexFactorialDomain),
+  gamma: unary(z => z.gamma(), complexGammaDomain),
+  nroot: {
+    evaluate: ([z, n]) => z.pow(n.reciprocal()),
+    domain: { test: ([, n]) => !n.isZero(), description: 'a non-zero root index' },
+  },
+  re: unary(z => new Complex(z.re)),
+  im: unary(z => new Complex(z.im)),
+  conj: unary(z => z.conj()),
+  arg: unary((z, ctx) => fromRadians(new Complex(z.arg()), ctx)),
+  polar: {
+    evaluate: ([r, theta], ctx) => r.multiply(unitPhasor(theta, ctx)),
+  },
+  // Matrices need float arithmetic; a plain number is a 1×1 matrix
+  det: unary(z => z),
+  inv: unary(z => z.reciprocal(), { ...nonZero, code: 'division-by-zero' }),
+  transpose: unary(z => z),
+  eig: unary(z => z),
+  solve: {
+    evaluate: ([a, b]) => b.divide(a),
+    domain: { ...nonZero, code: 'division-by-zero' },
+  },
+  dot: { evaluate: ([a, b]) => a.multiply(b) },
+  norm: unary(z => new Complex(z.abs())),
+}
+
+/**
+ * Raise overflow/domain errors for non-finite results of finite inputs
+ */
+const checkComplexResult = (
+  value: Complex,
+  inputs: Complex[],
+  range: SourceRange,
+  operation: string
+): Complex => {
+  if (value.isFinite() || inputs.some(input => !input.isFinite())) {
+    return value
+  }
+  if (value.isNaN()) {
+    throw new CalculatorError('domain', `${operation} is undefined for this input`, range)
+  }
+  throw new CalculatorError('overflow', `${operation} is too large to represent`, range)
+}
+
+const applyComplexOperator = (node: BinaryNode, left: Complex, right: Complex): Complex => {
+  switch (node.operator) {
+    case '+':
+      return left.add(right)
+    case '-':
+      return left.subtract(right)
+    case '*':
+      return left.multiply(right)
+    case '/':
+      return left.divide(right)
+    case '^':
+      return left.pow(right)
+  }
+}
+
+const evaluateBinary = (node: BinaryNode, context: EvaluationContext): Complex => {
+  const left = evaluateComplexNode(node.left, context)
+  const right = evaluateComplexNode(node.right, context)
+  if (node.operator === '/' && right.isZero()) {
+    throw new CalculatorError('division-by-zero', 'Cannot divide by zero', node.right)
+  }
+  if (node.operator === '^' && left.isZero() && !right.isZero() && right.re <= 0) {
+    throw right.isReal()
+      ? new CalculatorError('division-by-zero', 'Zero cannot be raised to a negative power', node)
+      : new CalculatorError('domain', 'Zero needs an exponent with a positive real part', node)
+  }
+  return checkComplexResult(
+    applyComplexOperator(node, left, right),
+    [left, right],
+    node,
+    'The result'
+  )
+}
+
+const complexEvaluator: NodeEvaluator<Complex> = {
+  evaluate: (node, context) => evaluateComplexNode(node, context),
+  isTrue: value => !value.isZero(),
+  toText: value => value.toString(),
+}
+
+/**
+ * Equality holds for any values; ordering only for real ones
+ */
+const evaluateComparison = (node: ComparisonNode, context: EvaluationContext): Complex => {
+  const left = evaluateComplexNode(node.left, context)
+  const right = evaluateComplexNode(node.right, context)
+  let sign: number
+  if (left.isReal() && right.isReal()) {
+    sign = Math.sign(left.re - right.re)
+  } else if (node.operator === '==' || node.operator === '!=') {
+    sign = left.equals(right) ? 0 : 1
+  } else {
+    throw new CalculatorError('domain', 'Only real values can be ordered', node)
+  }
+  return comparisonHolds(node.operator, sign) ? Complex.ONE : Complex.ZERO
+}
+
+const evaluateCall = (node: CallNode, context: EvaluationContext): Complex => {
+  const special = evaluateSpecialCall(node, context, complexEvaluator)
+  if (special !== undefined) {
+    return special
+  }
+  const definition = lookupFunction(node)
+  const args = evaluateArguments(node, context, evaluateComplexNode)
+  const complexFunction = entryOf(complexFunctions, node.callee)
+
+  // Real arguments the real function accepts keep the floating-point result
+  if (args.every(arg => arg.isReal())) {
+    const numbers = args.map(arg => arg.re)
+    if (!complexFunction || !definition.domain || definition.domain.test(numbers, context)) {
+      checkDomain(node, definition, numbers, context)
+      return new Complex(
+        checkResult(definition.evaluate(numbers, context), numbers, node, node.callee)
+      )
+    }
+  }
+
+  if (!complexFunction) {
+    throw new CalculatorError('domain', `${node.callee} is only defined for real inputs`, node)
+  }
+  const { domain } = complexFunction
+  if (domain && !domain.test(args, context)) {
+    throw new CalculatorError(
+      domain.code ?? 'domain',
+      `${node.callee} is only defined for ${domain.description}`,
+      node.args.length === 1 ? node.args[0] : node
+    )
+  }
+  return checkComplexResult(complexFunction.evaluate(args, context), args, node, node.callee)
+}
+
+/**
+ * Evaluate an AST node over the complex numbers
+ * @param node - Node to evaluate
+ * @param context - Evaluation settings (angle mode)
+ * @returns Complex result; real results have a zero imaginary part
+ * @throws CalculatorError with the range of the offending node
+ */
+export const evaluateComplexNode = (node: ExpressionNode, context: EvaluationContext): Complex => {
+  switch (node.type) {
+    case 'number':
+      return new Complex(node.value)
+
+    case 'identifier': {
+      if (node.name === 'i') {
+        return Complex.I
+      }
+      const constant = entryOf(builtinConstants, node.name)
+      if (constant !== undefined) {
+        return new Complex(constant)
+      }
+      const value =
+        resolveVariable(node, context, evaluateComplexNode) ??
+        resolvePhysicalConstant(node, context, evaluateComplexNode)
+      if (value === undefined) {
+        throw undefinedName(node, context)
+      }
+      return value
+    }
+
+    case 'unary': {
+      const operand = evaluateComplexNode(node.operand, context)
+      return node.operator === '-' ? operand.negate() : operand
+    }
+
+    case 'binary':
+      return evaluateBinary(node, context)
+
+    case 'postfix': {
+      const operand = evaluateComplexNode(node.operand, context)
+      if (node.operator === '%') {
+        return operand.divide(HUNDRED)
+      }
+      if (operand.isReal() && factorialDomain.test([operand.re], context)) {
+        const value = builtinFunctions.factorial.evaluate([operand.re], context)
+        return new Complex(checkResult(value, [operand.re], node, 'Factorial'))
+      }
+      if (!complexFactorialDomain.test([operand], context)) {
+        throw new CalculatorError(
+          'domain',
+          `Factorial is only defined for ${complexFactorialDomain.description}`,
+          node.operand
+        )
+      }
+      return checkComplexResult(operand.add(Complex.ONE).gamma(), [operand], node, 'Factorial')
+    }
+
+    case 'comparison':
+      return evaluateComparison(node, context)
+
+    case 'conversion':
+      throw conversionUnavailable(node)
+
+    case 'matrix':
+      throw matrixUnavailable(node)
+
+    case 'call':
+      return evaluateCall(node, context)
+  }
+}
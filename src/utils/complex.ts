@@ -0,0 +1,356 @@
+/**
+ * Complex Numbers
+ * Immutable double-precision complex values with the principal branch of every
+ * multi-valued function (sqrt, ln, asin, ...)
+ */
+
+import { LANCZOS_COEFFICIENTS, LANCZOS_G } from '@/utils/special-functions'
+
+/**
+ * Parts smaller than this fraction of the modulus are rounding noise, so e^(iπ) shows as -1
+ */
+const SNAP_TOLERANCE = 1e-14
+
+/**
+ * Largest integer exponent computed by repeated multiplication, which keeps (1+i)^2 = 2i exact
+ */
+const MAX_EXACT_POWER = 64
+
+const parseReal = (text: string, source: string): number => {
+  if (!/^[+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?$/i.test(text) && !/^[+-]?Infinity$/.test(text)) {
+    throw new SyntaxError(`'${source}' is not a complex number`)
+  }
+  return Number(text)
+}
+
+export class Complex {
+  readonly re: number
+  readonly im: number
+
+  constructor(re: number, im = 0) {
+    // Negative zero would flip the sign of arg() for values on the negative real axis
+    this.re = re === 0 ? 0 : re
+    this.im = im === 0 ? 0 : im
+  }
+
+  static readonly ZERO = new Complex(0)
+  static readonly ONE = new Complex(1)
+  static readonly I = new Complex(0, 1)
+
+  /**
+   * Value with modulus `r` at angle `theta` (radians)
+   */
+  static fromPolar(r: number, theta: number): Complex {
+    return new Complex(r * Math.cos(theta), r * Math.sin(theta))
+  }
+
+  /**
+   * Parse rectangular text as printed by toString: `3`, `-2.5e-3`, `3+4i`, `1-i`, `-2i`
+   * @throws SyntaxError when the text is not a complex number
+   */
+  static parse(text: string): Complex {
+    const trimmed = text.replace(/\s+/g, '')
+    if (!trimmed.endsWith('i')) {
+      return new Complex(parseReal(trimmed, text))
+    }
+    const body = trimmed.slice(0, -1)
+
+    // The imaginary part starts at the last sign that is not an exponent sign
+    let split = 0
+    for (let k = body.length - 1; k > 0; k--) {
+      if ((body[k] === '+' || body[k] === '-') && !/e/i.test(body[k - 1])) {
+        split = k
+        break
+      }
+    }
+    const imaginary = body.slice(split)
+    const im =
+      imaginary === '' || imaginary === '+'
+        ? 1
+        : imaginary === '-'
+          ? -1
+          : parseReal(imaginary, text)
+    return new Complex(split > 0 ? parseReal(body.slice(0, split), text) : 0, im)
+  }
+
+  isReal(): boolean {
+    return this.im === 0
+  }
+
+  isZero(): boolean {
+    return this.re === 0 && this.im === 0
+  }
+
+  isFinite(): boolean {
+    return isFinite(this.re) && isFinite(this.im)
+  }
+
+  isNaN(): boolean {
+    return isNaN(this.re) || isNaN(this.im)
+  }
+
+  /**
+   * Modulus |z|
+   */
+  abs(): number {
+    return Math.hypot(this.re, this.im)
+  }
+
+  /**
+   * Argument in radians, in (−π, π]
+   */
+  arg(): number {
+    return Math.atan2(this.im, this.re)
+  }
+
+  conj(): Complex {
+    return new Complex(this.re, -this.im)
+  }
+
+  negate(): Complex {
+    return new Complex(-this.re, -this.im)
+  }
+
+  add(other: Complex): Complex {
+    return new Complex(this.re + other.re, this.im + other.im)
+  }
+
+  subtract(other: Complex): Complex {
+    return new Complex(this.re - other.re, this.im - other.im)
+  }
+
+  multiply(other: Complex): Complex {
+    if (this.isReal() && other.isReal()) {
+      return new Complex(this.re * other.re)
+    }
+    return new Complex(
+      this.re * other.re - this.im * other.im,
+      this.re * other.im + this.im * other.re
+    )
+  }
+
+  scale(factor: number): Complex {
+    return new Complex(this.re * factor, this.im * factor)
+  }
+
+  /**
+   * Quotient by Smith's algorithm, which avoids overflow in the intermediate products
+   */
+  divide(other: Complex): Complex {
+    if (other.isReal()) {
+      return new Complex(this.re / other.re, this.im / other.re)
+    }
+    if (Math.abs(other.re) >= Math.abs(other.im)) {
+      const ratio = other.im / other.re
+      const denominator = other.re + other.im * ratio
+      return new Complex(
+        (this.re + this.im * ratio) / denominator,
+        (this.im - this.re * ratio) / denominator
+      )
+    }
+    const ratio = other.re / other.im
+    const denominator = other.re * ratio + other.im
+    return new Complex(
+      (this.re * ratio + this.im) / denominator,
+      (this.im * ratio - this.re) / denominator
+    )
+  }
+
+  reciprocal(): Complex {
+    return Complex.ONE.divide(this)
+  }
+
+  exp(): Complex {
+    const magnitude = Math.exp(this.re)
+    return this.isReal()
+      ? new Complex(magnitude)
+      : new Complex(magnitude * Math.cos(this.im), magnitude * Math.sin(this.im))
+  }
+
+  /**
+   * Principal natural logarithm
+   */
+  ln(): Complex {
+    return new Complex(Math.log(this.abs()), this.arg())
+  }
+
+  /**
+   * Principal square root (non-negative real part)
+   */
+  sqrt(): Complex {
+    if (this.isZero()) {
+      return Complex.ZERO
+    }
+    const t = Math.sqrt((this.abs() + Math.abs(this.re)) / 2)
+    if (this.re >= 0) {
+      return new Complex(t, this.im / (2 * t))
+    }
+    return new Complex(Math.abs(this.im) / (2 * t), this.im < 0 ? -t : t)
+  }
+
+  /**
+   * Principal power z^w
+   */
+  pow(exponent: Complex): Complex {
+    if (this.isReal() && exponent.isReal() && (this.re >= 0 || Number.isInteger(exponent.re))) {
+      return new Complex(Math.pow(this.re, exponent.re))
+    }
+    if (exponent.isReal() && Number.isInteger(exponent.re)) {
+      const n = exponent.re
+      if (Math.abs(n) <= MAX_EXACT_POWER) {
+        // Square-and-multiply keeps Gaussian integers exact
+        let result = Complex.ONE
+        let base = new Complex(this.re, this.im)
+        for (let k = Math.abs(n); k > 0; k = Math.floor(k / 2)) {
+          if (k % 2 === 1) result = result.multiply(base)
+          base = base.multiply(base)
+        }
+        return n < 0 ? result.reciprocal() : result
+      }
+    }
+    if (this.isZero()) {
+      return Complex.ZERO
+    }
+    return exponent.multiply(this.ln()).exp()
+  }
+
+  sin(): Complex {
+    return new Complex(
+      Math.sin(this.re) * Math.cosh(this.im),
+      Math.cos(this.re) * Math.sinh(this.im)
+    )
+  }
+
+  cos(): Complex {
+    return new Complex(
+      Math.cos(this.re) * Math.cosh(this.im),
+      -Math.sin(this.re) * Math.sinh(this.im)
+    )
+  }
+
+  tan(): Complex {
+    return this.sin().divide(this.cos())
+  }
+
+  sinh(): Complex {
+    return new Complex(
+      Math.sinh(this.re) * Math.cos(this.im),
+      Math.cosh(this.re) * Math.sin(this.im)
+    )
+  }
+
+  cosh(): Complex {
+    return new Complex(
+      Math.cosh(this.re) * Math.cos(this.im),
+      Math.sinh(this.re) * Math.sin(this.im)
+    )
+  }
+
+  tanh(): Complex {
+    return this.sinh().divide(this.cosh())
+  }
+
+  /**
+   * asin z = −i ln(iz + √(1 − z²))
+   */
+  asin(): Complex {
+    const root = Complex.ONE.subtract(this.multiply(this)).sqrt()
+    const log = Complex.I.multiply(this).add(root).ln()
+    return new Complex(log.im, -log.re)
+  }
+
+  /**
+   * acos z = π/2 − asin z
+   */
+  acos(): Complex {
+    return new Complex(Math.PI / 2).subtract(this.asin())
+  }
+
+  /**
+   * atan z = (i/2)(ln(1 − iz) − ln(1 + iz))
+   */
+  atan(): Complex {
+    const iz = Complex.I.multiply(this)
+    const difference = Complex.ONE.subtract(iz).ln().subtract(Complex.ONE.add(iz).ln())
+    return new Complex(-difference.im / 2, difference.re / 2)
+  }
+
+  /**
+   * asinh z = ln(z + √(z² + 1))
+   */
+  asinh(): Complex {
+    return this.add(this.multiply(this).add(Complex.ONE).sqrt()).ln()
+  }
+
+  /**
+   * acosh z = ln(z + √(z + 1) √(z − 1)), which keeps the principal branch for Re z < 0
+   */
+  acosh(): Complex {
+    return this.add(this.add(Complex.ONE).sqrt().multiply(this.subtract(Complex.ONE).sqrt())).ln()
+  }
+
+  /**
+   * atanh z = (ln(1 + z) − ln(1 − z)) / 2
+   */
+  atanh(): Complex {
+    return Complex.ONE.add(this).ln().subtract(Complex.ONE.subtract(this).ln()).scale(0.5)
+  }
+
+  /**
+   * Gamma function by the Lanczos approximation, reflected for Re z < 1/2
+   */
+  gamma(): Complex {
+    if (this.re < 0.5) {
+      // Γ(z) Γ(1 − z) = π / sin(πz)
+      const sine = this.scale(Math.PI).sin()
+      return new Complex(Math.PI).divide(sine.multiply(Complex.ONE.subtract(this).gamma()))
+    }
+    const z = this.subtract(Complex.ONE)
+    let sum = new Complex(LANCZOS_COEFFICIENTS[0])
+    for (let k = 1; k < LANCZOS_COEFFICIENTS.length; k++) {
+      sum = sum.add(new Complex(LANCZOS_COEFFICIENTS[k]).divide(z.add(new Complex(k))))
+    }
+    const t = z.add(new Complex(LANCZOS_G + 0.5))
+    return new Complex(Math.sqrt(2 * Math.PI))
+      .multiply(t.pow(z.add(new Complex(0.5))))
+      .multiply(t.negate().exp())
+      .multiply(sum)
+  }
+
+  /**
+   * Copy with rounding noise removed: a part below SNAP_TOLERANCE of the modulus becomes 0
+   */
+  snap(): Complex {
+    const tolerance = this.abs() * SNAP_TOLERANCE
+    const re = Math.abs(this.re) < tolerance ? 0 : this.re
+    const im = Math.abs(this.im) < tolerance ? 0 : this.im
+    return re === this.re && im === this.im ? this : new Complex(re, im)
+  }
+
+  equals(other: Complex): boolean {
+    return this.re === other.re && this.im === other.im
+  }
+
+  /**
+   * Rectangular text that reads back as an expression: `3`, `3+4i`, `1-i`, `-2.5i`
+   */
+  toString(): string {
+    if (this.isReal()) {
+      return String(this.re)
+    }
+    const magnitude = Math.abs(this.im)
+    const imaginary = `${magnitude === 1 ? '' : String(magnitude)}i`
+    if (this.re === 0) {
+      return this.im < 0 ? `-${imaginary}` : imaginary
+    }
+    return `${this.re}${this.im < 0 ? '-' : '+'}${imaginary}`
+  }
+
+  /**
+   * Polar text `r∠θ` with the angle already converted to the caller's unit
+   * @param toAngle - Converts the argument from radians, e.g. to degrees
+   */
+  toPolarString(toAngle: (radians: number) => number = radians => radians): string {
+    return `${this.abs()}∠${toAngle(this.arg())}`
+  }
+}
@@ -0,0 +1,692 @@
+/**
+ * Decimal Expression Evaluator
+ * Evaluates the expression AST with arbitrary-precision decimals, rounding every
+ * intermediate result to the context's significant digits
+ */
+
+import { BinaryNode, CallNode, EvaluationContext, ExpressionNode } from '@/types/expression'
+import { Decimal } from '@/utils/decimal'
+import {
+  GUARD_DIGITS,
+  decimalAcos,
+  decimalAcosh,
+  decimalAsin,
+  decimalAsinh,
+  decimalAtan,
+  decimalAtanh,
+  decimalCos,
+  decimalCosh,
+  decimalE,
+  decimalExp,
+  decimalFactorial,
+  decimalIntegerRoot,
+  decimalLn,
+  decimalLog10,
+  decimalLog2,
+  decimalNthRoot,
+  decimalPi,
+  decimalPow,
+  decimalSin,
+  decimalSinh,
+  decimalSqrt,
+  decimalTan,
+  decimalTanh,
+  decimalToBigInt,
+  decimalToDegrees,
+  decimalToRadians,
+} from '@/utils/decimal-math'
+import { CalculatorError } from '@/utils/calculator-errors'
+import { distributionFunctionNames, distributions } from '@/utils/distributions'
+import {
+  bigCombinations,
+  bigPermutations,
+  chineseRemainder,
+  congruencesOf,
+  eulerPhi,
+  isPrime,
+  modInverse,
+  modPow,
+} from '@/utils/number-theory'
+import { Rational, bigGcd, bigLcm } from '@/utils/rational'
+import {
+  mean,
+  median,
+  mode,
+  quantile,
+  StatisticsArithmetic,
+  sum,
+  variance,
+} from '@/utils/statistics'
+import {
+  builtinFunctions,
+  checkBinaryOperands,
+  checkDomain,
+  comparisonHolds,
+  conversionUnavailable,
+  entryOf,
+  evaluateArguments,
+  evaluateSpecialCall,
+  factorialDomain,
+  lookupFunction,
+  matrixUnavailable,
+  NodeEvaluator,
+  resolvePhysicalConstant,
+  resolveVariable,
+  taxRateOf,
+  undefinedName,
+  withinRange,
+} from '@/utils/expression-evaluator'
+import { APPROXIMATE } from '@/utils/expression-parser'
+import { gamma } from '@/utils/special-functions'
+
+/**
+ * Significant digits used when a context asks for decimal mode without a usable precision
+ */
+export const DEFAULT_DECIMAL_PRECISION = 32
+
+type DecimalFunction = (args: Decimal[], digits: number, context: EvaluationContext) => Decimal
+
+const unary =
+  (
+    evaluate: (x: Decimal, digits: number, context: EvaluationContext) => Decimal
+  ): DecimalFunction =>
+  ([x], digits, context) =>
+    evaluate(x, digits, context)
+
+/**
+ * Non-negative remainder of x modulo an integer, computed exactly
+ */
+const modulo = (x: Decimal, modulus: bigint): Decimal => {
+  const exponent = Math.min(x.exponent, 0)
+  const scaledModulus = modulus * 10n ** BigInt(-exponent)
+  const remainder = (x.coefficient * 10n ** BigInt(x.exponent - exponent)) % scaledModulus
+  return new Decimal(remainder < 0n ? remainder + scaledModulus : remainder, exponent)
+}
+
+/**
+ * Trigonometric function honouring the angle mode; in degrees the angle is reduced
+ * exactly first so multiples of 90° give exact results
+ */
+const trigonometric = (
+  evaluate: (x: Decimal, digits: number) => Decimal,
+  quadrantValues: [number, number, number, number]
+): DecimalFunction =>
+  unary((x, digits, context) => {
+    if (context.angleMode !== 'deg') {
+      return evaluate(x, digits)
+    }
+    const reduced = modulo(x, 360n)
+    if (reduced.isInteger() && reduced.toBigInt() % 90n === 0n) {
+      return new Decimal(BigInt(quadrantValues[Number(reduced.toBigInt() / 90n)]))
+    }
+    return evaluate(decimalToRadians(reduced, digits + GUARD_DIGITS), digits)
+  })
+
+/**
+ * 1 / f(x) for the reciprocal trigonometric functions; the domain check keeps f(x) non-zero
+ */
+const reciprocalOf =
+  (evaluate: (x: Decimal, digits: number) => Decimal) =>
+  (x: Decimal, digits: number): Decimal =>
+    Decimal.ONE.divide(evaluate(x, digits + GUARD_DIGITS), digits)
+
+/**
+ * Significant digits a double-precision result is good for
+ */
+export const FLOAT_DIGITS = 15
+
+/**
+ * A double-precision result rounded to the digits it holds, reported as approximate
+ */
+const approximation = (
+  value: number,
+  name: string,
+  digits: number,
+  context: EvaluationContext
+): Decimal => {
+  context.approximations?.push(name)
+  return Decimal.fromNumber(value).round(Math.min(digits, FLOAT_DIGITS))
+}
+
+/**
+ * Exact factorial of an integer, and Γ(x + 1) in double precision of any other number
+ */
+const factorialOf = (x: Decimal, digits: number, context: EvaluationContext): Decimal =>
+  x.isInteger()
+    ? decimalFactorial(x, digits)
+    : approximation(gamma(x.toNumber() + 1), 'factorial', digits, context)
+
+/**
+ * Inverse trigonometric function returning the angle in the current angle mode
+ */
+const inverseTrigonometric = (evaluate: (x: Decimal, digits: number) => Decimal): DecimalFunction =>
+  unary((x, digits, context) =>
+    context.angleMode === 'deg'
+      ? decimalToDegrees(evaluate(x, digits + GUARD_DIGITS), digits)
+      : evaluate(x, digits)
+  )
+
+const extreme =
+  (direction: 1 | -1): DecimalFunction =>
+  (args, digits) =>
+    args.reduce((best, arg) => (arg.compare(best) === direction ? arg : best)).round(digits)
+
+/**
+ * Bitwise operation on the integers the domain check allows
+ */
+const bitwise =
+  (operate: (a: bigint, b: bigint) => bigint): DecimalFunction =>
+  ([a, b], digits) =>
+    new Decimal(operate(decimalToBigInt(a), decimalToBigInt(b))).round(digits)
+
+const HALF = new Decimal(5n, -1)
+
+const HUNDRED = new Decimal(100n)
+
+/**
+ * x × a / b, exact up to the one final division, so amounts keep every cent
+ */
+const scaled = (x: Decimal, a: Decimal, b: Decimal, digits: number): Decimal =>
+  x.multiply(a).divide(b, digits)
+
+/**
+ * Tax rate given as the second argument, or the configured one
+ */
+const decimalTaxRate = (args: Decimal[], context: EvaluationContext): Decimal =>
+  args.length > 1 ? args[1] : Decimal.fromNumber(taxRateOf([], context))
+
+/**
+ * Decimal operations for statistics: sums and products are exact and quotients keep guard
+ * digits, so only the final result is rounded
+ */
+const statisticsArithmetic = (digits: number): StatisticsArithmetic<Decimal> => ({
+  fromInteger: n => new Decimal(BigInt(n)),
+  add: (a, b) => a.add(b),
+  subtract: (a, b) => a.subtract(b),
+  multiply: (a, b) => a.multiply(b),
+  divide: (a, b) => a.divide(b, digits + GUARD_DIGITS),
+  compare: (a, b) => a.compare(b),
+})
+
+const statistic =
+  (
+    evaluate: (
+      arithmetic: StatisticsArithmetic<Decimal>,
+      values: Decimal[],
+      digits: number
+    ) => Decimal
+  ): DecimalFunction =>
+  (args, digits) =>
+    evaluate(statisticsArithmetic(digits), args, digits).round(digits)
+
+/**
+ * Quantile at the last argument divided by `scale`, of the values before it
+ */
+const decimalQuantile = (scale: bigint): DecimalFunction =>
+  statistic((arithmetic, args) =>
+    quantile(
+      arithmetic,
+      args.slice(0, -1),
+      arithmetic.divide(args[args.length - 1], new Decimal(scale))
+    )
+  )
+
+/**
+ * A built-in computed in double precision; the financial solvers search for roots and raise to
+ * fractional powers, and the special functions and probability distributions are approximations,
+ * so the result keeps only the digits a double holds and is reported as approximate
+ */
+const viaFloat =
+  (name: string): DecimalFunction =>
+  (args, digits, context) =>
+    approximation(
+      builtinFunctions[name].evaluate(
+        args.map(arg => arg.toNumber()),
+        context
+      ),
+      name,
+      digits,
+      context
+    )
+
+/**
+ * A random draw in double precision, which has no more exact value to approximate
+ */
+const drawnInFloat =
+  (name: string): DecimalFunction =>
+  (args, digits, context) =>
+    Decimal.fromNumber(
+      builtinFunctions[name].evaluate(
+        args.map(arg => arg.toNumber()),
+        context
+      )
+    ).round(digits)
+
+/**
+ * Net present value, discounting each cash flow exactly by the growth factor 1 + rate/100
+ */
+const decimalNpv: DecimalFunction = ([rate, ...cashFlows], digits) => {
+  const growth = Decimal.ONE.add(rate.multiply(new Decimal(1n, -2)))
+  let discount = Decimal.ONE
+  let total = Decimal.ZERO
+  for (const cashFlow of cashFlows) {
+    total = total.add(cashFlow.divide(discount, digits + GUARD_DIGITS))
+    discount = discount.multiply(growth)
+  }
+  return total.round(digits)
+}
+
+/**
+ * Decimal implementations of the built-in functions; names, arity and domains come from
+ * builtinFunctions
+ */
+export const decimalFunctions: Record<string, DecimalFunction> = {
+  // Tangent poles are rejected by the domain check, so those quadrant values are never used
+  sin: trigonometric(decimalSin, [0, 1, 0, -1]),
+  cos: trigonometric(decimalCos, [1, 0, -1, 0]),
+  tan: trigonometric(decimalTan, [0, 0, 0, 0]),
+  sec: trigonometric(reciprocalOf(decimalCos), [1, 0, -1, 0]),
+  csc: trigonometric(reciprocalOf(decimalSin), [0, 1, 0, -1]),
+  cot: trigonometric(reciprocalOf(decimalTan), [0, 0, 0, 0]),
+  asin: inverseTrigonometric(decimalAsin),
+  acos: inverseTrigonometric(decimalAcos),
+  atan: inverseTrigonometric(decimalAtan),
+  sinh: unary(decimalSinh),
+  cosh: unary(decimalCosh),
+  tanh: unary(decimalTanh),
+  asinh: unary(decimalAsinh),
+  acosh: unary(decimalAcosh),
+  atanh: unary(decimalAtanh),
+  log: unary(decimalLog10),
+  log10: unary(decimalLog10),
+  ln: unary(decimalLn),
+  log2: unary(decimalLog2),
+  exp: unary(decimalExp),
+  sqrt: unary(decimalSqrt),
+  cbrt: unary((x, digits) => decimalIntegerRoot(x, 3, digits)),
+  square: unary((x, digits) => x.multiply(x, digits)),
+  cube: unary((x, digits) => x.multiply(x).multiply(x, digits)),
+  reciprocal: unary((x, digits) => Decimal.ONE.divide(x, digits)),
+  abs: unary((x, digits) => x.abs().round(digits)),
+  floor: unary(x => x.floor()),
+  ceil: unary(x => x.ceil()),
+  // Halves round up, like Math.round
+  round: unary(x => x.add(HALF).floor()),
+  factorial: unary(factorialOf),
+  gamma: viaFloat('gamma'),
+  lngamma: viaFloat('lngamma'),
+  beta: viaFloat('beta'),
+  erf: viaFloat('erf'),
+  erfc: viaFloat('erfc'),
+  besselj: viaFloat('besselj'),
+  bessely: viaFloat('bessely'),
+  lambertw: viaFloat('lambertw'),
+  deg: unary(decimalToDegrees),
+  rad: unary(decimalToRadians),
+  nroot: ([x, n], digits) => decimalNthRoot(x, n, digits),
+  min: extreme(-1),
+  max: extreme(1),
+  re: unary((x, digits) => x.round(digits)),
+  im: unary(() => Decimal.ZERO),
+  conj: unary((x, digits) => x.round(digits)),
+  arg: unary((x, digits, context) =>
+    !x.isNegative()
+      ? Decimal.ZERO
+      : context.angleMode === 'deg'
+        ? new Decimal(180n)
+        : decimalPi(digits)
+  ),
+  // The domain check leaves only angles on the real axis
+  polar: ([r, theta], digits) =>
+    modulo(theta, 360n).equals(new Decimal(180n)) ? r.negate().round(digits) : r.round(digits),
+  gcd: (args, digits) =>
+    new Decimal(args.map(arg => decimalToBigInt(arg)).reduce(bigGcd)).round(digits),
+  lcm: (args, digits) =>
+    new Decimal(args.map(arg => decimalToBigInt(arg)).reduce(bigLcm)).round(digits),
+  ncr: ([n, r], digits) =>
+    new Decimal(bigCombinations(decimalToBigInt(n), decimalToBigInt(r))).round(digits),
+  npr: ([n, r], digits) =>
+    new Decimal(bigPermutations(decimalToBigInt(n), decimalToBigInt(r))).round(digits),
+  isprime: unary(n => (isPrime(decimalToBigInt(n)) ? Decimal.ONE : Decimal.ZERO)),
+  totient: unary((n, digits) => new Decimal(eulerPhi(decimalToBigInt(n))).round(digits)),
+  powmod: ([b, e, m], digits) =>
+    new Decimal(modPow(decimalToBigInt(b), decimalToBigInt(e), decimalToBigInt(m))).round(digits),
+  invmod: ([a, m], digits) =>
+    new Decimal(modInverse(decimalToBigInt(a), decimalToBigInt(m)) ?? 0n).round(digits),
+  crt: (args, digits) => {
+    const { residues, moduli } = congruencesOf(args.map(arg => decimalToBigInt(arg)))
+    return new Decimal(chineseRemainder(residues, moduli)?.residue ?? 0n).round(digits)
+  },
+  // Lists are rejected by the domain check outside float arithmetic
+  factor: () => Decimal.ZERO,
+  divisors: () => Decimal.ZERO,
+  egcd: () => Decimal.ZERO,
+  count: args => new Decimal(BigInt(args.length)),
+  sum: statistic(sum),
+  mean: statistic(mean),
+  median: statistic(median),
+  mode: statistic(mode),
+  variance: statistic((arithmetic, values) => variance(arithmetic, values, true)),
+  pvariance: statistic((arithmetic, values) => variance(arithmetic, values, false)),
+  stdev: statistic((arithmetic, values, digits) =>
+    decimalSqrt(variance(arithmetic, values, true), digits + GUARD_DIGITS)
+  ),
+  pstdev: statistic((arithmetic, values, digits) =>
+    decimalSqrt(variance(arithmetic, values, false), digits + GUARD_DIGITS)
+  ),
+  quartile: decimalQuantile(4n),
+  percentile: decimalQuantile(100n),
+  rand: drawnInFloat('rand'),
+  randint: drawnInFloat('randint'),
+  ...Object.fromEntries(
+    distributions.flatMap(distribution => {
+      const { sample, ...approximated } = distributionFunctionNames(distribution)
+      return [
+        ...Object.values(approximated).map(name => [name, viaFloat(name)]),
+        [sample, drawnInFloat(sample)],
+      ]
+    })
+  ),
+  // Matrices need float arithmetic, so these only ever see 1×1 values
+  det: unary((x, digits) => x.round(digits)),
+  inv: unary((x, digits) => Decimal.ONE.divide(x, digits)),
+  transpose: unary((x, digits) => x.round(digits)),
+  rank: unary(x => (x.isZero() ? Decimal.ZERO : Decimal.ONE)),
+  solve: ([a, b], digits) => b.divide(a, digits),
+  eig: unary((x, digits) => x.round(digits)),
+  dot: ([a, b], digits) => a.multiply(b, digits),
+  cross: () => Decimal.ZERO,
+  norm: unary((x, digits) => x.abs().round(digits)),
+  and: bitwise((a, b) => a & b),
+  or: bitwise((a, b) => a | b),
+  xor: bitwise((a, b) => a ^ b),
+  not: unary((x, digits) => new Decimal(~decimalToBigInt(x)).round(digits)),
+  lshift: ([x, n], digits) =>
+    x.multiply(decimalPow(new Decimal(2n), n, digits + GUARD_DIGITS), digits),
+  rshift: ([x, n], digits) => new Decimal(decimalToBigInt(x) >> decimalToBigInt(n)).round(digits),
+  // Rotation is rejected by the domain check outside programmer arithmetic
+  rol: () => Decimal.ZERO,
+  ror: () => Decimal.ZERO,
+  tvmn: viaFloat('tvmn'),
+  tvmiy: viaFloat('tvmiy'),
+  tvmpv: viaFloat('tvmpv'),
+  tvmpmt: viaFloat('tvmpmt'),
+  tvmfv: viaFloat('tvmfv'),
+  npv: decimalNpv,
+  irr: viaFloat('irr'),
+  pctchange: ([from, to], digits) => scaled(to.subtract(from), HUNDRED, from, digits),
+  sellmargin: ([cost, margin], digits) => scaled(cost, HUNDRED, HUNDRED.subtract(margin), digits),
+  costmargin: ([price, margin], digits) => scaled(price, HUNDRED.subtract(margin), HUNDRED, digits),
+  margin: ([cost, price], digits) => scaled(price.subtract(cost), HUNDRED, price, digits),
+  sellmarkup: ([cost, markup], digits) => scaled(cost, HUNDRED.add(markup), HUNDRED, digits),
+  costmarkup: ([price, markup], digits) => scaled(price, HUNDRED, HUNDRED.add(markup), digits),
+  markup: ([cost, price], digits) => scaled(price.subtract(cost), HUNDRED, cost.abs(), digits),
+  markuptomargin: unary((markup, digits) => scaled(markup, HUNDRED, HUNDRED.add(markup), digits)),
+  margintomarkup: unary((margin, digits) =>
+    scaled(margin, HUNDRED, HUNDRED.subtract(margin), digits)
+  ),
+  addtax: (args, digits, context) =>
+    scaled(args[0], HUNDRED.add(decimalTaxRate(args, context)), HUNDRED, digits),
+  removetax: (args, digits, context) =>
+    scaled(args[0], HUNDRED, HUNDRED.add(decimalTaxRate(args, context)), digits),
+  discount: ([price, ...discounts], digits) =>
+    scaled(
+      discounts.reduce((product, discount) => product.multiply(HUNDRED.subtract(discount)), price),
+      Decimal.ONE,
+      discounts.reduce(product => product.multiply(HUNDRED), Decimal.ONE),
+      digits
+    ),
+  tip: ([bill, tip], digits) => scaled(bill, HUNDRED.add(tip), HUNDRED, digits),
+  split: ([bill, people, tip = Decimal.ZERO], digits) =>
+    scaled(bill, HUNDRED.add(tip), HUNDRED.multiply(people), digits),
+}
+
+type DecimalDomainTest = (args: Decimal[], context: EvaluationContext) => boolean
+
+const MINUS_ONE = new Decimal(-1n)
+
+const MINUS_HUNDRED = new Decimal(-100n)
+
+const MAX_SAFE_INTEGER = new Decimal(BigInt(Number.MAX_SAFE_INTEGER))
+
+const isOddInteger = (x: Decimal): boolean => x.isInteger() && decimalToBigInt(x) % 2n !== 0n
+
+/**
+ * Whether an angle in degrees is a multiple of 180° plus an offset, exactly
+ */
+const onHalfTurn = (x: Decimal, offset: 0 | 90): boolean =>
+  modulo(x, 180n).equals(new Decimal(BigInt(offset)))
+
+const inUnitInterval: DecimalDomainTest = ([x]) =>
+  x.compare(MINUS_ONE) >= 0 && x.compare(Decimal.ONE) <= 0
+
+const isPositive: DecimalDomainTest = ([x]) => x.sign > 0
+
+const allIntegers = (args: Decimal[]): boolean => args.every(arg => arg.isInteger())
+
+const nonZero: DecimalDomainTest = ([x]) => !x.isZero()
+
+/**
+ * Exact versions of the domain tests of builtinFunctions, on the decimal arguments themselves;
+ * converted to doubles, ln(1e-500) would see 0 and asin(1.00000000000000000001) would see 1.
+ * Descriptions and error codes stay those of builtinFunctions.
+ */
+const decimalDomains: Record<string, DecimalDomainTest> = {
+  tan: ([x], context) => context.angleMode !== 'deg' || !onHalfTurn(x, 90),
+  sec: ([x], context) => context.angleMode !== 'deg' || !onHalfTurn(x, 90),
+  csc: ([x], context) => (context.angleMode === 'deg' ? !onHalfTurn(x, 0) : !x.isZero()),
+  cot: ([x], context) => (context.angleMode === 'deg' ? !onHalfTurn(x, 0) : !x.isZero()),
+  asin: inUnitInterval,
+  acos: inUnitInterval,
+  acosh: ([x]) => x.compare(Decimal.ONE) >= 0,
+  atanh: ([x]) => x.abs().compare(Decimal.ONE) < 0,
+  log: isPositive,
+  log10: isPositive,
+  ln: isPositive,
+  log2: isPositive,
+  sqrt: ([x]) => !x.isNegative(),
+  reciprocal: nonZero,
+  factorial: ([x]) => !(x.isNegative() && x.isInteger()),
+  nroot: ([x, n]) => !n.isZero() && (!x.isNegative() || isOddInteger(n)),
+  polar: ([, theta], context) =>
+    context.angleMode === 'deg' ? onHalfTurn(theta, 0) : theta.isZero(),
+  gcd: allIntegers,
+  lcm: allIntegers,
+  ncr: ([n, r]) => allIntegers([n, r]) && !r.isNegative() && r.compare(n) <= 0,
+  npr: ([n, r]) => allIntegers([n, r]) && !r.isNegative() && r.compare(n) <= 0,
+  isprime: allIntegers,
+  totient: ([n]) =>
+    n.isInteger() && n.compare(Decimal.ONE) >= 0 && n.compare(MAX_SAFE_INTEGER) <= 0,
+  powmod: ([b, e, m]) => allIntegers([b, e, m]) && !e.isNegative() && m.compare(Decimal.ONE) >= 0,
+  invmod: ([a, m]) =>
+    allIntegers([a, m]) &&
+    m.compare(Decimal.ONE) >= 0 &&
+    bigGcd(decimalToBigInt(a), decimalToBigInt(m)) === 1n,
+  crt: args => {
+    if (args.length % 2 !== 0 || !allIntegers(args)) {
+      return false
+    }
+    const { residues, moduli } = congruencesOf(args.map(arg => decimalToBigInt(arg)))
+    return moduli.every(m => m >= 1n) && chineseRemainder(residues, moduli) !== null
+  },
+  inv: nonZero,
+  solve: nonZero,
+  and: allIntegers,
+  or: allIntegers,
+  xor: allIntegers,
+  not: allIntegers,
+  lshift: ([x, n]) => allIntegers([x, n]) && !n.isNegative(),
+  rshift: ([x, n]) => allIntegers([x, n]) && !n.isNegative(),
+  sellmargin: ([, margin]) => margin.compare(HUNDRED) < 0,
+  margin: ([, price]) => !price.isZero(),
+  costmarkup: ([, markup]) => markup.compare(MINUS_HUNDRED) > 0,
+  markup: ([cost]) => !cost.isZero(),
+  markuptomargin: ([markup]) => markup.compare(MINUS_HUNDRED) > 0,
+  margintomarkup: ([margin]) => margin.compare(HUNDRED) < 0,
+  addtax: (args, context) => decimalTaxRate(args, context).compare(MINUS_HUNDRED) > 0,
+  removetax: (args, context) => decimalTaxRate(args, context).compare(MINUS_HUNDRED) > 0,
+  split: ([, people]) => people.sign > 0,
+}
+
+const decimalPhi = (digits: number): Decimal =>
+  Decimal.ONE.add(decimalSqrt(new Decimal(5n), digits + GUARD_DIGITS)).divide(
+    new Decimal(2n),
+    digits
+  )
+
+/**
+ * Built-in constants computed to the requested significant digits
+ */
+export const decimalConstants: Record<string, (digits: number) => Decimal> = {
+  pi: decimalPi,
+  π: decimalPi,
+  e: decimalE,
+  phi: decimalPhi,
+  φ: decimalPhi,
+}
+
+/**
+ * Significant digits requested by the context
+ */
+export const precisionOf = (context: EvaluationContext): number =>
+  context.precision !== undefined && context.precision >= 1
+    ? Math.floor(context.precision)
+    : DEFAULT_DECIMAL_PRECISION
+
+const evaluateBinary = (node: BinaryNode, context: EvaluationContext): Decimal => {
+  const left = evaluateDecimalNode(node.left, context)
+  const right = evaluateDecimalNode(node.right, context)
+  const factsOf = (value: Decimal) => ({
+    zero: value.isZero(),
+    negative: value.isNegative(),
+    integer: value.isInteger(),
+  })
+  checkBinaryOperands(node, factsOf(left), factsOf(right))
+
+  const digits = precisionOf(context)
+  return withinRange(
+    () => {
+      switch (node.operator) {
+        case '+':
+          return left.add(right, digits)
+        case '-':
+          return left.subtract(right, digits)
+        case '*':
+          return left.multiply(right, digits)
+        case '/':
+          return left.divide(right, digits)
+        case '^':
+          return decimalPow(left, right, digits)
+      }
+    },
+    node,
+    'The result'
+  )
+}
+
+const decimalEvaluator: NodeEvaluator<Decimal> = {
+  evaluate: (node, context) => evaluateDecimalNode(node, context),
+  isTrue: value => !value.isZero(),
+  toText: value => value.toString(),
+}
+
+const evaluateCall = (node: CallNode, context: EvaluationContext): Decimal => {
+  const special = evaluateSpecialCall(node, context, decimalEvaluator)
+  if (special !== undefined) {
+    return special
+  }
+  const definition = lookupFunction(node)
+  const args = evaluateArguments(node, context, evaluateDecimalNode)
+  const exact = decimalDomains[node.callee]
+  const domain = exact &&
+    definition.domain && { ...definition.domain, test: () => exact(args, context) }
+  // The exact domain tests of integer functions convert their arguments to BigInts
+  withinRange(
+    () =>
+      checkDomain(
+        node,
+        domain ? { ...definition, domain } : definition,
+        args.map(arg => arg.toNumber()),
+        context
+      ),
+    node,
+    node.callee
+  )
+  const evaluate = decimalFunctions[node.callee]
+  return withinRange(() => evaluate(args, precisionOf(context), context), node, node.callee)
+}
+
+/**
+ * Evaluate an AST node with arbitrary-precision decimals
+ * @param node - Node to evaluate
+ * @param context - Evaluation settings (angle mode, significant digits)
+ * @returns Decimal result rounded to the context precision
+ * @throws CalculatorError with the range of the offending node
+ */
+export const evaluateDecimalNode = (node: ExpressionNode, context: EvaluationContext): Decimal => {
+  switch (node.type) {
+    case 'number':
+      if (node.approximate) {
+        return approximation(node.value, APPROXIMATE, precisionOf(context), context)
+      }
+      return node.raw.includes('(')
+        ? Rational.parse(node.raw).toDecimal(precisionOf(context))
+        : Decimal.parse(node.raw)
+
+    case 'identifier': {
+      const constant = entryOf(decimalConstants, node.name)
+      if (constant !== undefined) {
+        return constant(precisionOf(context))
+      }
+      const value =
+        resolveVariable(node, context, evaluateDecimalNode) ??
+        resolvePhysicalConstant(node, context, evaluateDecimalNode)
+      if (value === undefined) {
+        throw undefinedName(node, context)
+      }
+      return value
+    }
+
+    case 'unary': {
+      const operand = evaluateDecimalNode(node.operand, context)
+      return node.operator === '-' ? operand.negate() : operand
+    }
+
+    case 'binary':
+      return evaluateBinary(node, context)
+
+    case 'postfix': {
+      const operand = evaluateDecimalNode(node.operand, context)
+      if (node.operator === '%') {
+        return operand.multiply(new Decimal(1n, -2))
+      }
+      if (operand.isNegative() && operand.isInteger()) {
+        throw new CalculatorError(
+          'domain',
+          `Factorial is only defined for ${factorialDomain.description}`,
+          node.operand
+        )
+      }
+      return withinRange(
+        () => factorialOf(operand, precisionOf(context), context),
+        node,
+        'Factorial'
+      )
+    }
+
+    case 'comparison': {
+      const left = evaluateDecimalNode(node.left, context)
+      const right = evaluateDecimalNode(node.right, context)
+      return new Decimal(comparisonHolds(node.operator, left.compare(right)) ? 1n : 0n)
+    }
+
+    case 'conversion':
+      throw conversionUnavailable(node)
+
+    case 'matrix':
+      throw matrixUnavailable(node)
+
+    case 'call':
+      return evaluateCall(node, context)
+  }
+}
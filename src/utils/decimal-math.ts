@@ -0,0 +1,499 @@
+/**
+ * Arbitrary-Precision Decimal Functions
+ * Roots, powers, logarithms and trigonometry on Decimal values, correct to a requested
+ * number of significant digits. Series are summed in BigInt fixed point with guard digits.
+ */
+
+import { Decimal, digitCount } from '@/utils/decimal'
+
+/**
+ * Extra digits carried through intermediate steps
+ */
+export const GUARD_DIGITS = 10
+
+/**
+ * Largest factorial argument computed exactly
+ */
+export const MAX_DECIMAL_FACTORIAL = 10000
+
+/**
+ * Most digits an integer argument may have when it is converted to a BigInt
+ */
+export const MAX_INTEGER_DIGITS = 1000
+
+/**
+ * Largest power of ten a result may reach before it counts as overflow
+ */
+const MAX_MAGNITUDE = 1e12
+
+const pow10 = (n: number): bigint => 10n ** BigInt(n)
+
+const overflow = (): never => {
+  throw new RangeError('Result exceeds the decimal range')
+}
+
+/**
+ * Scale a decimal to a fixed-point integer with `scale` fractional digits (truncating)
+ */
+const toFixed = (x: Decimal, scale: number): bigint => {
+  const shift = x.exponent + scale
+  return shift >= 0 ? x.coefficient * pow10(shift) : x.coefficient / pow10(-shift)
+}
+
+const fromFixed = (value: bigint, scale: number): Decimal => new Decimal(value, -scale)
+
+/**
+ * Integer square root (floor) by Newton's method
+ */
+const isqrt = (n: bigint): bigint => {
+  if (n < 2n) return n
+  let x = 1n << BigInt(Math.ceil(n.toString(2).length / 2))
+  for (;;) {
+    const y = (x + n / x) >> 1n
+    if (y >= x) return x
+    x = y
+  }
+}
+
+/**
+ * Integer k-th root (floor) of a non-negative integer by Newton's method
+ */
+export const integerRoot = (n: bigint, k: number): bigint => {
+  if (n < 2n) return n
+  const kb = BigInt(k)
+  let x = 1n << BigInt(Math.ceil(n.toString(2).length / k))
+  for (;;) {
+    const y = ((kb - 1n) * x + n / x ** (kb - 1n)) / kb
+    if (y >= x) return x
+    x = y
+  }
+}
+
+/**
+ * Σ 1 / ((2k + 1) · n^(2k + 1)) with alternating signs for atan, plain for atanh
+ */
+const inverseSeries = (n: bigint, scale: number, alternating: boolean): bigint => {
+  const one = pow10(scale)
+  const n2 = n * n
+  let term = one / n
+  let sum = 0n
+  for (let k = 0n; term !== 0n; k++) {
+    const part = term / (2n * k + 1n)
+    sum += alternating && k % 2n === 1n ? -part : part
+    term /= n2
+  }
+  return sum
+}
+
+const fixedCache = new Map<string, bigint>()
+
+/**
+ * Memoise a fixed-point constant per scale
+ */
+const cachedFixed = (name: string, scale: number, compute: () => bigint): bigint => {
+  const key = `${name}:${scale}`
+  let value = fixedCache.get(key)
+  if (value === undefined) {
+    value = compute()
+    fixedCache.set(key, value)
+  }
+  return value
+}
+
+// π = 16·atan(1/5) − 4·atan(1/239)  (Machin)
+const piFixed = (scale: number): bigint =>
+  cachedFixed('pi', scale, () => {
+    const s = scale + 5
+    const value = 16n * inverseSeries(5n, s, true) - 4n * inverseSeries(239n, s, true)
+    return value / pow10(5)
+  })
+
+// ln 2 = 2·atanh(1/3)
+const ln2Fixed = (scale: number): bigint =>
+  cachedFixed('ln2', scale, () => (2n * inverseSeries(3n, scale + 5, false)) / pow10(5))
+
+// ln 10 = 3·ln 2 + ln 1.25 = 3·ln 2 + 2·atanh(1/9)
+const ln10Fixed = (scale: number): bigint =>
+  cachedFixed(
+    'ln10',
+    scale,
+    () => (3n * ln2Fixed(scale + 5) + 2n * inverseSeries(9n, scale + 5, false)) / pow10(5)
+  )
+
+export const decimalPi = (digits: number): Decimal =>
+  fromFixed(piFixed(digits + GUARD_DIGITS), digits + GUARD_DIGITS).round(digits)
+
+export const decimalE = (digits: number): Decimal => decimalExp(Decimal.ONE, digits)
+
+/**
+ * Square root
+ * @throws RangeError for negative inputs
+ */
+export const decimalSqrt = (x: Decimal, digits: number): Decimal => {
+  if (x.isNegative()) throw new RangeError('Square root of a negative number')
+  if (x.isZero()) return x
+  // Scale so the radicand has an even exponent and enough digits for the root
+  let shift = Math.max(0, 2 * (digits + 2) - digitCount(x.coefficient))
+  if ((x.exponent - shift) % 2 !== 0) shift++
+  const radicand = x.coefficient * pow10(shift)
+  const root = isqrt(radicand)
+  const sticky = root * root === radicand ? 0n : 1n
+  return new Decimal(root * 10n + sticky, (x.exponent - shift) / 2 - 1).round(digits)
+}
+
+/**
+ * Real n-th root for a positive integer index; odd roots of negative numbers are negative
+ * @throws RangeError for even roots of negative numbers
+ */
+export const decimalIntegerRoot = (x: Decimal, n: number, digits: number): Decimal => {
+  if (x.isNegative()) {
+    if (n % 2 === 0) throw new RangeError('Even root of a negative number')
+    return decimalIntegerRoot(x.negate(), n, digits).negate()
+  }
+  if (x.isZero() || n === 1) return x.round(digits)
+  let shift = Math.max(0, n * (digits + 2) - digitCount(x.coefficient))
+  shift += (((x.exponent - shift) % n) + n) % n
+  const radicand = x.coefficient * pow10(shift)
+  const root = integerRoot(radicand, n)
+  const sticky = root ** BigInt(n) === radicand ? 0n : 1n
+  return new Decimal(root * 10n + sticky, (x.exponent - shift) / n - 1).round(digits)
+}
+
+/**
+ * Exponential e^x
+ * @throws RangeError when the result is too large
+ */
+export const decimalExp = (x: Decimal, digits: number): Decimal => {
+  if (x.isZero()) return Decimal.ONE
+  if (x.magnitude() > 11) {
+    if (x.isNegative()) return Decimal.ZERO
+    overflow()
+  }
+  const scale = digits + GUARD_DIGITS + Math.max(0, x.magnitude() + 1)
+  const one = pow10(scale)
+
+  // x = n·ln 10 + r with 0 ≤ r < ln 10, so e^x = 10^n · e^r
+  const ln10 = ln10Fixed(scale)
+  const fixed = toFixed(x, scale)
+  let n = fixed / ln10
+  if (fixed < 0n && n * ln10 !== fixed) n -= 1n
+  let r = fixed - n * ln10
+
+  // Halve r a few times so the series converges quickly, then square back up
+  const halvings = 8
+  r /= 1n << BigInt(halvings)
+  let sum = one
+  let term = one
+  for (let k = 1n; term !== 0n; k++) {
+    term = (term * r) / (one * k)
+    sum += term
+  }
+  for (let i = 0; i < halvings; i++) {
+    sum = (sum * sum) / one
+  }
+  return new Decimal(sum, Number(n) - scale).round(digits)
+}
+
+/**
+ * Natural logarithm
+ * @throws RangeError for non-positive inputs
+ */
+export const decimalLn = (x: Decimal, digits: number): Decimal => {
+  if (x.sign <= 0) throw new RangeError('Logarithm of a non-positive number')
+  if (x.equals(Decimal.ONE)) return Decimal.ZERO
+
+  // x = m · 10^k with 1 ≤ m < 10
+  const k = x.magnitude()
+  const scale = digits + GUARD_DIGITS + String(Math.abs(k)).length
+  const one = pow10(scale)
+  let m = toFixed(new Decimal(x.coefficient, x.exponent - k), scale)
+
+  // Bring m near 1 by halving: ln m = ln(m / 2^a) + a·ln 2
+  let halvings = 0n
+  while (m * 2n > 3n * one) {
+    m /= 2n
+    halvings++
+  }
+
+  // ln m = 2·atanh(z) with z = (m − 1) / (m + 1)
+  const z = ((m - one) * one) / (m + one)
+  const z2 = (z * z) / one
+  let term = z
+  let sum = 0n
+  for (let i = 1n; term !== 0n; i += 2n) {
+    sum += term / i
+    term = (term * z2) / one
+  }
+
+  const total = 2n * sum + halvings * ln2Fixed(scale) + BigInt(k) * ln10Fixed(scale)
+  return fromFixed(total, scale).round(digits)
+}
+
+export const decimalLog10 = (x: Decimal, digits: number): Decimal => {
+  // Exact for powers of ten
+  if (x.coefficient === 1n) return new Decimal(BigInt(x.exponent))
+  const scale = digits + GUARD_DIGITS
+  return decimalLn(x, scale).divide(fromFixed(ln10Fixed(scale), scale), digits)
+}
+
+export const decimalLog2 = (x: Decimal, digits: number): Decimal => {
+  const scale = digits + GUARD_DIGITS
+  return decimalLn(x, scale).divide(fromFixed(ln2Fixed(scale), scale), digits)
+}
+
+/**
+ * x^y; integer exponents use repeated squaring, others e^(y·ln x)
+ * @throws RangeError for 0 to a negative power, non-integer powers of negative numbers,
+ * or results that are too large
+ */
+export const decimalPow = (x: Decimal, y: Decimal, digits: number): Decimal => {
+  if (y.isZero()) return Decimal.ONE
+  if (x.isZero()) {
+    if (y.isNegative()) throw new RangeError('Zero to a negative power')
+    return Decimal.ZERO
+  }
+  if (y.isInteger() && y.magnitude() < 15) {
+    const n = y.abs().toBigInt()
+    if (Math.abs((x.magnitude() + 1) * Number(n)) > MAX_MAGNITUDE) overflow()
+    const working = digits + GUARD_DIGITS + String(n).length
+    let result = Decimal.ONE
+    let base = x
+    for (let e = n; e > 0n; e >>= 1n) {
+      if (e & 1n) result = result.multiply(base, working)
+      if (e > 1n) base = base.multiply(base, working)
+    }
+    return y.isNegative() ? Decimal.ONE.divide(result, digits) : result.round(digits)
+  }
+  if (x.isNegative()) throw new RangeError('Non-integer power of a negative number')
+  const working = digits + GUARD_DIGITS + Math.max(0, y.magnitude())
+  return decimalExp(decimalLn(x, working).multiply(y, working), digits)
+}
+
+/**
+ * n-th root for any non-zero index
+ */
+export const decimalNthRoot = (x: Decimal, n: Decimal, digits: number): Decimal => {
+  if (n.isInteger() && n.magnitude() < 6) {
+    const index = Number(n.toBigInt())
+    const root = decimalIntegerRoot(x, Math.abs(index), index < 0 ? digits + GUARD_DIGITS : digits)
+    return index < 0 ? Decimal.ONE.divide(root, digits) : root
+  }
+  return decimalPow(x, Decimal.ONE.divide(n, digits + GUARD_DIGITS), digits)
+}
+
+/**
+ * Reduce an angle in radians to the fixed-point range (−π, π]
+ */
+const reduceAngle = (x: Decimal, scale: number): bigint => {
+  const pi = piFixed(scale)
+  const twoPi = 2n * pi
+  let r = toFixed(x, scale) % twoPi
+  if (r > pi) r -= twoPi
+  if (r <= -pi) r += twoPi
+  return r
+}
+
+/**
+ * Taylor series of sin (start = r, first = 1) or cos (start = 1, first = 2) in fixed point
+ */
+const trigSeries = (r: bigint, scale: number, sine: boolean): bigint => {
+  const one = pow10(scale)
+  const r2 = (r * r) / one
+  let term = sine ? r : one
+  let sum = term
+  for (let k = sine ? 2n : 1n; term !== 0n; k += 2n) {
+    term = -(term * r2) / (one * k * (k + 1n))
+    sum += term
+  }
+  return sum
+}
+
+const trigScale = (x: Decimal, digits: number): number =>
+  digits + GUARD_DIGITS + Math.max(0, x.magnitude() + 1)
+
+export const decimalSin = (x: Decimal, digits: number): Decimal => {
+  const scale = trigScale(x, digits)
+  return fromFixed(trigSeries(reduceAngle(x, scale), scale, true), scale).round(digits)
+}
+
+export const decimalCos = (x: Decimal, digits: number): Decimal => {
+  const scale = trigScale(x, digits)
+  return fromFixed(trigSeries(reduceAngle(x, scale), scale, false), scale).round(digits)
+}
+
+/**
+ * Tangent
+ * @throws RangeError when the cosine is zero at the working precision
+ */
+export const decimalTan = (x: Decimal, digits: number): Decimal => {
+  const scale = trigScale(x, digits)
+  const r = reduceAngle(x, scale)
+  const cos = trigSeries(r, scale, false)
+  if (cos === 0n) throw new RangeError('Tangent is undefined at this angle')
+  return fromFixed(trigSeries(r, scale, true), scale).divide(fromFixed(cos, scale), digits)
+}
+
+/**
+ * Arctangent in fixed point for |x| ≤ 1
+ */
+const atanFixed = (x: bigint, scale: number): bigint => {
+  const one = pow10(scale)
+  // atan(x) = 2·atan(x / (1 + √(1 + x²))) until x is small
+  let reduced = x
+  let doublings = 0n
+  while (reduced * 10n > one || reduced * 10n < -one) {
+    reduced = (reduced * one) / (one + isqrt(one * one + reduced * reduced))
+    doublings++
+  }
+  const x2 = (reduced * reduced) / one
+  let term = reduced
+  let sum = 0n
+  for (let i = 1n; term !== 0n; i += 2n) {
+    sum += term / i
+    term = -(term * x2) / one
+  }
+  return sum << doublings
+}
+
+export const decimalAtan = (x: Decimal, digits: number): Decimal => {
+  if (x.isZero()) return x
+  const scale = digits + GUARD_DIGITS
+  if (x.abs().compare(Decimal.ONE) > 0) {
+    // atan(x) = ±π/2 − atan(1/x)
+    const inverse = toFixed(Decimal.ONE.divide(x, scale), scale)
+    const halfPi = piFixed(scale) / 2n
+    const value = (x.isNegative() ? -halfPi : halfPi) - atanFixed(inverse, scale)
+    return fromFixed(value, scale).round(digits)
+  }
+  return fromFixed(atanFixed(toFixed(x, scale), scale), scale).round(digits)
+}
+
+/**
+ * Arcsine
+ * @throws RangeError outside [−1, 1]
+ */
+export const decimalAsin = (x: Decimal, digits: number): Decimal => {
+  const comparison = x.abs().compare(Decimal.ONE)
+  if (comparison > 0) throw new RangeError('Arcsine is only defined on [-1, 1]')
+  const scale = digits + GUARD_DIGITS
+  if (comparison === 0) {
+    const halfPi = fromFixed(piFixed(scale) / 2n, scale).round(digits)
+    return x.isNegative() ? halfPi.negate() : halfPi
+  }
+  // asin(x) = atan(x / √(1 − x²))
+  const cosine = decimalSqrt(Decimal.ONE.subtract(x.multiply(x), scale), scale)
+  return decimalAtan(x.divide(cosine, scale), digits)
+}
+
+export const decimalAcos = (x: Decimal, digits: number): Decimal => {
+  const scale = digits + GUARD_DIGITS
+  const halfPi = fromFixed(piFixed(scale) / 2n, scale)
+  return halfPi.subtract(decimalAsin(x, scale), digits)
+}
+
+/**
+ * Hyperbolic functions from e^x; small inputs get extra digits to survive cancellation
+ */
+const hyperbolicParts = (x: Decimal, digits: number): [Decimal, Decimal, number] => {
+  const scale = digits + GUARD_DIGITS + Math.max(0, -x.magnitude())
+  const ex = decimalExp(x, scale)
+  return [ex, Decimal.ONE.divide(ex, scale), scale]
+}
+
+export const decimalSinh = (x: Decimal, digits: number): Decimal => {
+  if (x.isZero()) return x
+  const [ex, inverse, scale] = hyperbolicParts(x, digits)
+  return ex.subtract(inverse, scale).divide(new Decimal(2n), digits)
+}
+
+export const decimalCosh = (x: Decimal, digits: number): Decimal => {
+  const [ex, inverse, scale] = hyperbolicParts(x, digits)
+  return ex.add(inverse, scale).divide(new Decimal(2n), digits)
+}
+
+export const decimalTanh = (x: Decimal, digits: number): Decimal => {
+  if (x.isZero()) return x
+  // Beyond this tanh is ±1 at any supported precision
+  if (x.abs().compare(new Decimal(BigInt(digits * 2 + 10))) > 0) {
+    return x.isNegative() ? Decimal.ONE.negate() : Decimal.ONE
+  }
+  const [ex, inverse, scale] = hyperbolicParts(x, digits)
+  return ex.subtract(inverse, scale).divide(ex.add(inverse, scale), digits)
+}
+
+/**
+ * asinh x = ln(|x| + √(x² + 1)) with the sign of x, which avoids cancellation for x < 0
+ */
+export const decimalAsinh = (x: Decimal, digits: number): Decimal => {
+  if (x.isZero()) return x
+  const scale = digits + GUARD_DIGITS
+  const magnitude = x.abs()
+  const root = decimalSqrt(magnitude.multiply(magnitude).add(Decimal.ONE), scale)
+  const result = decimalLn(magnitude.add(root, scale), digits)
+  return x.isNegative() ? result.negate() : result
+}
+
+/**
+ * acosh x = ln(x + √(x² − 1))
+ * @throws RangeError for inputs below 1
+ */
+export const decimalAcosh = (x: Decimal, digits: number): Decimal => {
+  if (x.compare(Decimal.ONE) < 0) throw new RangeError('Inverse hyperbolic cosine below 1')
+  const scale = digits + GUARD_DIGITS
+  const root = decimalSqrt(x.multiply(x).subtract(Decimal.ONE), scale)
+  return decimalLn(x.add(root, scale), digits)
+}
+
+/**
+ * atanh x = ln((1 + x) / (1 − x)) / 2
+ * @throws RangeError outside (−1, 1)
+ */
+export const decimalAtanh = (x: Decimal, digits: number): Decimal => {
+  if (x.abs().compare(Decimal.ONE) >= 0) {
+    throw new RangeError('Inverse hyperbolic tangent outside (-1, 1)')
+  }
+  if (x.isZero()) return x
+  const scale = digits + GUARD_DIGITS
+  const ratio = Decimal.ONE.add(x).divide(Decimal.ONE.subtract(x), scale)
+  return decimalLn(ratio, scale).divide(new Decimal(2n), digits)
+}
+
+/**
+ * Exact factorial of a non-negative integer, rounded to the requested digits
+ * @throws RangeError above MAX_DECIMAL_FACTORIAL
+ */
+export const decimalFactorial = (n: Decimal, digits: number): Decimal => {
+  // Compared as a Decimal first: the BigInt of 1e100000000 alone would take too long to build
+  if (n.compare(new Decimal(BigInt(MAX_DECIMAL_FACTORIAL))) > 0) overflow()
+  const value = n.toBigInt()
+  let result = 1n
+  for (let i = 2n; i <= value; i++) {
+    result *= i
+  }
+  return new Decimal(result).round(digits)
+}
+
+/**
+ * BigInt value of an integer decimal, for the number-theory and bitwise functions
+ * @throws RangeError above MAX_INTEGER_DIGITS digits, before the BigInt is built
+ */
+export const decimalToBigInt = (n: Decimal): bigint => {
+  if (n.magnitude() >= MAX_INTEGER_DIGITS) overflow()
+  return n.toBigInt()
+}
+
+/**
+ * Degrees → radians
+ */
+export const decimalToRadians = (x: Decimal, digits: number): Decimal => {
+  const scale = digits + GUARD_DIGITS
+  return x.multiply(fromFixed(piFixed(scale), scale)).divide(new Decimal(180n), digits)
+}
+
+/**
+ * Radians → degrees
+ */
+export const decimalToDegrees = (x: Decimal, digits: number): Decimal => {
+  const scale = digits + GUARD_DIGITS
+  return x.multiply(new Decimal(180n)).divide(fromFixed(piFixed(scale), scale), digits)
+}
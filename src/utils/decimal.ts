@@ -0,0 +1,258 @@
+/**
+ * Arbitrary-Precision Decimal
+ * Immutable decimal numbers backed by BigInt: value = coefficient × 10^exponent
+ */
+
+const pow10 = (n: number): bigint => 10n ** BigInt(n)
+
+const abs = (n: bigint): bigint => (n < 0n ? -n : n)
+
+/**
+ * Number of decimal digits in an integer (0 has one digit)
+ */
+export const digitCount = (n: bigint): number => abs(n).toString().length
+
+export class Decimal {
+  readonly coefficient: bigint
+  readonly exponent: number
+
+  constructor(coefficient: bigint, exponent = 0) {
+    // Keep a canonical form without trailing zeros so equal values compare field by field
+    let c = coefficient
+    let e = exponent
+    if (c === 0n) {
+      e = 0
+    } else {
+      while (c % 10n === 0n) {
+        c /= 10n
+        e++
+      }
+    }
+    this.coefficient = c
+    this.exponent = e
+  }
+
+  static readonly ZERO = new Decimal(0n)
+  static readonly ONE = new Decimal(1n)
+
+  /**
+   * Parse decimal text such as `-12.5`, `.5` or `6.674e-11`
+   * @throws SyntaxError when the text is not a decimal number
+   */
+  static parse(text: string): Decimal {
+    const match = /^([+-]?)(\d*)(?:\.(\d*))?(?:e([+-]?\d+))?$/i.exec(text.trim())
+    if (!match || match[2] + (match[3] ?? '') === '') {
+      throw new SyntaxError(`'${text}' is not a decimal number`)
+    }
+    const [, sign, whole, fraction = '', exponent = '0'] = match
+    const coefficient = BigInt(whole + fraction || '0')
+    return new Decimal(
+      sign === '-' ? -coefficient : coefficient,
+      Number(exponent) - fraction.length
+    )
+  }
+
+  /**
+   * Convert a double using its shortest round-trip representation, so 0.1 becomes exactly 0.1
+   */
+  static fromNumber(value: number): Decimal {
+    if (!isFinite(value)) {
+      throw new RangeError(`${value} has no decimal representation`)
+    }
+    return Decimal.parse(String(value))
+  }
+
+  get sign(): -1 | 0 | 1 {
+    return this.coefficient === 0n ? 0 : this.coefficient < 0n ? -1 : 1
+  }
+
+  isZero(): boolean {
+    return this.coefficient === 0n
+  }
+
+  isNegative(): boolean {
+    return this.coefficient < 0n
+  }
+
+  isInteger(): boolean {
+    return this.exponent >= 0
+  }
+
+  /**
+   * Power of ten of the leading digit: 123 → 2, 0.05 → -2 (0 for zero)
+   */
+  magnitude(): number {
+    return this.isZero() ? 0 : digitCount(this.coefficient) - 1 + this.exponent
+  }
+
+  negate(): Decimal {
+    return new Decimal(-this.coefficient, this.exponent)
+  }
+
+  abs(): Decimal {
+    return this.isNegative() ? this.negate() : this
+  }
+
+  /**
+   * Round to a number of significant digits, halves away from zero
+   */
+  round(digits: number): Decimal {
+    const excess = digitCount(this.coefficient) - digits
+    if (excess <= 0) {
+      return this
+    }
+    return this.shiftRound(this.exponent + excess)
+  }
+
+  /**
+   * Round so the last kept digit has the given power of ten, halves away from zero
+   */
+  private shiftRound(exponent: number): Decimal {
+    if (exponent <= this.exponent) {
+      return this
+    }
+    const divisor = pow10(exponent - this.exponent)
+    const quotient = this.coefficient / divisor
+    const remainder = abs(this.coefficient % divisor)
+    const carry = remainder * 2n >= divisor ? BigInt(this.sign) : 0n
+    return new Decimal(quotient + carry, exponent)
+  }
+
+  /**
+   * Round to the nearest integer, halves away from zero
+   */
+  roundToInteger(): Decimal {
+    return this.shiftRound(0)
+  }
+
+  /**
+   * Integer part, rounding toward zero
+   */
+  truncate(): Decimal {
+    if (this.isInteger()) {
+      return this
+    }
+    return new Decimal(this.coefficient / pow10(-this.exponent))
+  }
+
+  floor(): Decimal {
+    const truncated = this.truncate()
+    return this.isNegative() && !truncated.equals(this)
+      ? truncated.subtract(Decimal.ONE)
+      : truncated
+  }
+
+  ceil(): Decimal {
+    const truncated = this.truncate()
+    return !this.isNegative() && !truncated.equals(this) ? truncated.add(Decimal.ONE) : truncated
+  }
+
+  /**
+   * Sum, exact unless significant digits are given
+   */
+  add(other: Decimal, digits?: number): Decimal {
+    if (other.isZero()) return digits === undefined ? this : this.round(digits)
+    if (this.isZero()) return digits === undefined ? other : other.round(digits)
+
+    // An operand far below the rounding position cannot change the rounded sum
+    if (digits !== undefined) {
+      const gap = this.magnitude() - other.magnitude()
+      if (gap > digits + 2 && digitCount(this.coefficient) <= digits) return this
+      if (-gap > digits + 2 && digitCount(other.coefficient) <= digits) return other
+    }
+
+    const exponent = Math.min(this.exponent, other.exponent)
+    const sum =
+      this.coefficient * pow10(this.exponent - exponent) +
+      other.coefficient * pow10(other.exponent - exponent)
+    const result = new Decimal(sum, exponent)
+    return digits === undefined ? result : result.round(digits)
+  }
+
+  subtract(other: Decimal, digits?: number): Decimal {
+    return this.add(other.negate(), digits)
+  }
+
+  /**
+   * Product, exact unless significant digits are given
+   */
+  multiply(other: Decimal, digits?: number): Decimal {
+    const result = new Decimal(this.coefficient * other.coefficient, this.exponent + other.exponent)
+    return digits === undefined ? result : result.round(digits)
+  }
+
+  /**
+   * Quotient correctly rounded to the given significant digits
+   * @throws RangeError when dividing by zero
+   */
+  divide(other: Decimal, digits: number): Decimal {
+    if (other.isZero()) {
+      throw new RangeError('Division by zero')
+    }
+    // Two spare digits plus a sticky digit make the final rounding exact
+    const shift = Math.max(
+      0,
+      digits + 2 + digitCount(other.coefficient) - digitCount(this.coefficient)
+    )
+    const numerator = this.coefficient * pow10(shift)
+    const quotient = numerator / other.coefficient
+    const sticky = numerator % other.coefficient === 0n ? 0n : BigInt(this.sign * other.sign)
+    return new Decimal(quotient * 10n + sticky, this.exponent - other.exponent - shift - 1).round(
+      digits
+    )
+  }
+
+  compare(other: Decimal): -1 | 0 | 1 {
+    if (this.sign !== other.sign) {
+      return this.sign < other.sign ? -1 : 1
+    }
+    if (this.isZero()) {
+      return 0
+    }
+    if (this.magnitude() !== other.magnitude()) {
+      return (this.magnitude() > other.magnitude() ? this.sign : -this.sign) as -1 | 1
+    }
+    return this.subtract(other).sign
+  }
+
+  equals(other: Decimal): boolean {
+    return this.coefficient === other.coefficient && this.exponent === other.exponent
+  }
+
+  /**
+   * Integer value, truncated toward zero
+   */
+  toBigInt(): bigint {
+    const truncated = this.truncate()
+    return truncated.coefficient * pow10(truncated.exponent)
+  }
+
+  /**
+   * Nearest double (may overflow to ±Infinity or underflow to 0)
+   */
+  toNumber(): number {
+    return Number(this.toString())
+  }
+
+  /**
+   * Plain notation for moderate magnitudes, otherwise scientific notation like `String(number)`
+   */
+  toString(): string {
+    const digits = abs(this.coefficient).toString()
+    const sign = this.isNegative() ? '-' : ''
+    const magnitude = this.magnitude()
+
+    if (magnitude < -6 || magnitude >= 21) {
+      const mantissa = digits.length > 1 ? `${digits[0]}.${digits.slice(1)}` : digits
+      return `${sign}${mantissa}e${magnitude < 0 ? '-' : '+'}${Math.abs(magnitude)}`
+    }
+    if (this.exponent >= 0) {
+      return sign + digits + '0'.repeat(this.exponent)
+    }
+    const point = digits.length + this.exponent
+    if (point > 0) {
+      return `${sign}${digits.slice(0, point)}.${digits.slice(point)}`
+    }
+    return `${sign}0.${'0'.repeat(-point)}${digits}`
+  }
+}
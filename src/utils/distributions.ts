@@ -0,0 +1,345 @@
+/**
+ * Probability Distributions
+ * The normal, Student t, chi-square, F, uniform and exponential distributions and the
+ * binomial, Poisson and geometric ones, each with its density (or probability mass),
+ * cumulative distribution function, inverse and sampling by inversion. Every distribution gives
+ * four expression functions named after it: normpdf, normcdf, norminv and normrand.
+ */
+
+import { RandomSource } from '@/types/expression'
+import { openUniform } from '@/utils/random'
+import {
+  erfc,
+  gamma,
+  lnGamma,
+  MAX_FLOAT_FACTORIAL,
+  regularizedBeta,
+  regularizedGammaP,
+  regularizedGammaQ,
+} from '@/utils/special-functions'
+
+export interface DistributionParameter {
+  name: string
+  /** Value when the argument is left off; parameters without one are required */
+  defaultValue?: number
+}
+
+export interface Distribution {
+  /** Prefix of the expression functions */
+  name: string
+  label: string
+  /** Takes whole-number values, with a probability mass function instead of a density */
+  discrete: boolean
+  /** Parameters after the value, in argument order */
+  parameters: DistributionParameter[]
+  /** Whether finite parameters are valid */
+  valid: (params: number[]) => boolean
+  /** Description of the valid parameters, e.g. "a standard deviation σ > 0" */
+  description: string
+  /** Smallest and largest values the distribution takes */
+  support: (params: number[]) => [number, number]
+  density: (x: number, params: number[]) => number
+  cdf: (x: number, params: number[]) => number
+  /** Closed form of the inverse; the others are found by searching the cdf */
+  inverse?: (p: number, params: number[]) => number
+}
+
+/**
+ * Relative error allowed in a discrete cdf when finding its inverse, so a cdf that rounds just
+ * below p does not move the result to the next value
+ */
+const DISCRETE_TOLERANCE = 1e-12
+
+/**
+ * Bisection steps of the continuous inverse; enough to narrow any bracket of doubles to
+ * neighbouring values
+ */
+const MAX_BISECTIONS = 2200
+
+const LN_SQRT_2PI = 0.5 * Math.log(2 * Math.PI)
+
+/**
+ * x ln y, taking 0 ln 0 as 0
+ */
+const xLogY = (x: number, y: number): number => (x === 0 ? 0 : x * Math.log(y))
+
+const lnBeta = (a: number, b: number): number => lnGamma(a) + lnGamma(b) - lnGamma(a + b)
+
+const isWhole = (x: number): boolean => Number.isInteger(x)
+
+/**
+ * Density at 0 of a distribution on [0, ∞) that behaves like x^(shape − 1) there
+ * @param atOne - Density at 0 when the shape is exactly 1
+ */
+const densityAtZero = (shape: number, atOne: number): number =>
+  shape < 1 ? Infinity : shape === 1 ? atOne : 0
+
+export const distributions: Distribution[] = [
+  {
+    name: 'norm',
+    label: 'Normal',
+    discrete: false,
+    parameters: [
+      { name: 'μ', defaultValue: 0 },
+      { name: 'σ', defaultValue: 1 },
+    ],
+    valid: ([, sigma]) => sigma > 0,
+    description: 'a standard deviation σ > 0',
+    support: () => [-Infinity, Infinity],
+    density: (x, [mu, sigma]) => {
+      const z = (x - mu) / sigma
+      return Math.exp(-0.5 * z * z - LN_SQRT_2PI) / sigma
+    },
+    cdf: (x, [mu, sigma]) => 0.5 * erfc((mu - x) / (sigma * Math.SQRT2)),
+  },
+  {
+    name: 't',
+    label: 'Student t',
+    discrete: false,
+    parameters: [{ name: 'ν' }],
+    valid: ([nu]) => nu > 0,
+    description: 'degrees of freedom ν > 0',
+    support: () => [-Infinity, Infinity],
+    density: (x, [nu]) =>
+      Math.exp(
+        lnGamma((nu + 1) / 2) -
+          lnGamma(nu / 2) -
+          0.5 * Math.log(nu * Math.PI) -
+          ((nu + 1) / 2) * Math.log1p((x * x) / nu)
+      ),
+    cdf: (x, [nu]) => {
+      // Each tail is half the incomplete beta function at ν / (ν + x²); near the centre the
+      // complementary function at x² / (ν + x²) keeps the digits the tail would cancel
+      if (x * x < nu) {
+        const half = 0.5 * regularizedBeta((x * x) / (nu + x * x), 0.5, nu / 2)
+        return x < 0 ? 0.5 - half : 0.5 + half
+      }
+      const tail = 0.5 * regularizedBeta(nu / (nu + x * x), nu / 2, 0.5)
+      return x > 0 ? 1 - tail : tail
+    },
+  },
+  {
+    name: 'chi2',
+    label: 'Chi-square',
+    discrete: false,
+    parameters: [{ name: 'k' }],
+    valid: ([k]) => k > 0,
+    description: 'degrees of freedom k > 0',
+    support: () => [0, Infinity],
+    density: (x, [k]) => {
+      if (x < 0) return 0
+      if (x === 0) return densityAtZero(k / 2, 0.5)
+      return Math.exp((k / 2 - 1) * Math.log(x) - x / 2 - (k / 2) * Math.LN2 - lnGamma(k / 2))
+    },
+    cdf: (x, [k]) => (x <= 0 ? 0 : regularizedGammaP(k / 2, x / 2)),
+  },
+  {
+    name: 'f',
+    label: 'F',
+    discrete: false,
+    parameters: [{ name: 'd₁' }, { name: 'd₂' }],
+    valid: ([d1, d2]) => d1 > 0 && d2 > 0,
+    description: 'degrees of freedom d₁ > 0 and d₂ > 0',
+    support: () => [0, Infinity],
+    density: (x, [d1, d2]) => {
+      if (x < 0) return 0
+      if (x === 0) return densityAtZero(d1 / 2, 1)
+      return Math.exp(
+        (d1 / 2) * Math.log(d1 / d2) +
+          (d1 / 2 - 1) * Math.log(x) -
+          ((d1 + d2) / 2) * Math.log1p((d1 * x) / d2) -
+          lnBeta(d1 / 2, d2 / 2)
+      )
+    },
+    cdf: (x, [d1, d2]) => (x <= 0 ? 0 : regularizedBeta((d1 * x) / (d1 * x + d2), d1 / 2, d2 / 2)),
+  },
+  {
+    name: 'binom',
+    label: 'Binomial',
+    discrete: true,
+    parameters: [{ name: 'n' }, { name: 'p' }],
+    valid: ([n, p]) => isWhole(n) && n >= 0 && p >= 0 && p <= 1,
+    description: 'a whole number of trials n ≥ 0 and a probability 0 ≤ p ≤ 1',
+    support: ([n]) => [0, n],
+    density: (k, [n, p]) => {
+      if (!isWhole(k) || k < 0 || k > n) return 0
+      // Factorials are exact up to 170!, beyond which the coefficient goes through logarithms
+      if (n <= MAX_FLOAT_FACTORIAL) {
+        const coefficient = gamma(n + 1) / (gamma(k + 1) * gamma(n - k + 1))
+        return coefficient * Math.pow(p, k) * Math.pow(1 - p, n - k)
+      }
+      return Math.exp(
+        lnGamma(n + 1) - lnGamma(k + 1) - lnGamma(n - k + 1) + xLogY(k, p) + xLogY(n - k, 1 - p)
+      )
+    },
+    cdf: (x, [n, p]) => {
+      const k = Math.floor(x)
+      if (k < 0) return 0
+      if (k >= n) return 1
+      return regularizedBeta(1 - p, n - k, k + 1)
+    },
+  },
+  {
+    name: 'poisson',
+    label: 'Poisson',
+    discrete: true,
+    parameters: [{ name: 'λ' }],
+    valid: ([lambda]) => lambda > 0,
+    description: 'a mean λ > 0',
+    support: () => [0, Infinity],
+    density: (k, [lambda]) => {
+      if (!isWhole(k) || k < 0) return 0
+      return Math.exp(k * Math.log(lambda) - lambda - lnGamma(k + 1))
+    },
+    cdf: (x, [lambda]) => (x < 0 ? 0 : regularizedGammaQ(Math.floor(x) + 1, lambda)),
+  },
+  {
+    name: 'geom',
+    label: 'Geometric',
+    discrete: true,
+    parameters: [{ name: 'p' }],
+    valid: ([p]) => p > 0 && p <= 1,
+    description: 'a probability of success 0 < p ≤ 1',
+    // The number of trials up to and including the first success
+    support: () => [1, Infinity],
+    density: (k, [p]) => (!isWhole(k) || k < 1 ? 0 : p * Math.pow(1 - p, k - 1)),
+    cdf: (x, [p]) => (x < 1 ? 0 : -Math.expm1(Math.floor(x) * Math.log1p(-p))),
+  },
+  {
+    name: 'unif',
+    label: 'Uniform',
+    discrete: false,
+    parameters: [
+      { name: 'a', defaultValue: 0 },
+      { name: 'b', defaultValue: 1 },
+    ],
+    valid: ([a, b]) => a < b,
+    description: 'bounds a < b',
+    support: ([a, b]) => [a, b],
+    density: (x, [a, b]) => (x >= a && x <= b ? 1 / (b - a) : 0),
+    cdf: (x, [a, b]) => Math.min(1, Math.max(0, (x - a) / (b - a))),
+    inverse: (p, [a, b]) => a + p * (b - a),
+  },
+  {
+    name: 'exp',
+    label: 'Exponential',
+    discrete: false,
+    parameters: [{ name: 'λ', defaultValue: 1 }],
+    valid: ([lambda]) => lambda > 0,
+    description: 'a rate λ > 0',
+    support: () => [0, Infinity],
+    density: (x, [lambda]) => (x < 0 ? 0 : lambda * Math.exp(-lambda * x)),
+    cdf: (x, [lambda]) => (x <= 0 ? 0 : -Math.expm1(-lambda * x)),
+    inverse: (p, [lambda]) => -Math.log1p(-p) / lambda,
+  },
+]
+
+export const distributionsByName: Record<string, Distribution> = Object.fromEntries(
+  distributions.map(entry => [entry.name, entry])
+)
+
+/**
+ * Names of a distribution's expression functions; discrete ones have a pmf instead of a pdf
+ */
+export const distributionFunctionNames = (
+  distribution: Distribution
+): { density: string; cdf: string; inverse: string; sample: string } => ({
+  density: `${distribution.name}${distribution.discrete ? 'pmf' : 'pdf'}`,
+  cdf: `${distribution.name}cdf`,
+  inverse: `${distribution.name}inv`,
+  sample: `${distribution.name}rand`,
+})
+
+/**
+ * Number of required parameters, which come before the ones with defaults
+ */
+export const requiredParameterCount = (distribution: Distribution): number =>
+  distribution.parameters.filter(parameter => parameter.defaultValue === undefined).length
+
+/**
+ * Parameters given as arguments followed by the defaults of those left off
+ */
+export const parametersOf = (distribution: Distribution, args: number[]): number[] =>
+  distribution.parameters.map((parameter, k) =>
+    k < args.length ? args[k] : (parameter.defaultValue ?? NaN)
+  )
+
+/**
+ * Whether parameters, with the defaults filled in, are finite and valid
+ */
+export const validParameters = (distribution: Distribution, params: number[]): boolean =>
+  params.every(Number.isFinite) && distribution.valid(params)
+
+/**
+ * Smallest x of a continuous distribution with cdf(x) ≥ p: an infinite side of the support is
+ * bracketed by doubling, then the bracket is bisected down to neighbouring doubles or until
+ * a midpoint hits p exactly
+ */
+const searchContinuous = (distribution: Distribution, p: number, params: number[]): number => {
+  const cdf = (x: number) => distribution.cdf(x, params)
+  let [a, b] = distribution.support(params)
+  if (a === -Infinity) {
+    a = Math.min(-1, b)
+    while (cdf(a) >= p && Number.isFinite(a)) a *= 2
+  }
+  if (b === Infinity) {
+    b = Math.max(1, a)
+    while (cdf(b) < p && Number.isFinite(b)) b *= 2
+  }
+  for (let i = 0; i < MAX_BISECTIONS; i++) {
+    const middle = a + (b - a) / 2
+    if (middle <= a || middle >= b) break
+    const value = cdf(middle)
+    if (value === p) return middle
+    if (value < p) {
+      a = middle
+    } else {
+      b = middle
+    }
+  }
+  return b
+}
+
+/**
+ * Smallest whole k of a discrete distribution with cdf(k) ≥ p: the step from the lower end of
+ * the support doubles until it passes p, then the last step is bisected
+ */
+const searchDiscrete = (distribution: Distribution, p: number, params: number[]): number => {
+  const [lower, upper] = distribution.support(params)
+  const reaches = (k: number) => distribution.cdf(k, params) >= p * (1 - DISCRETE_TOLERANCE)
+  let below = lower - 1
+  let k = lower
+  while (k < upper && !reaches(k)) {
+    below = k
+    k = Math.min(upper, lower + 2 * (k - lower) + 1)
+  }
+  while (k - below > 1) {
+    const middle = Math.floor((below + k) / 2)
+    if (reaches(middle)) {
+      k = middle
+    } else {
+      below = middle
+    }
+  }
+  return k
+}
+
+/**
+ * Inverse cumulative distribution function (quantile) at a probability 0 < p < 1: the smallest
+ * value whose cdf reaches p
+ */
+export const inverseCdf = (distribution: Distribution, p: number, params: number[]): number => {
+  if (distribution.inverse) return distribution.inverse(p, params)
+  return distribution.discrete
+    ? searchDiscrete(distribution, p, params)
+    : searchContinuous(distribution, p, params)
+}
+
+/**
+ * A draw from the distribution, by inverting its cdf at a uniform number
+ */
+export const sampleDistribution = (
+  distribution: Distribution,
+  params: number[],
+  random: RandomSource
+): number => inverseCdf(distribution, openUniform(random), params)
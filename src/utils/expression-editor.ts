@@ -113,6 +113,25 @@ export const insertParentheses = (
   }
 }
 
+/**
+ * Insert text such as a matrix literal at the cursor, placing the cursor after it
+ * @param expression - Current expression
+ * @param text - Text to insert
+ * @param cursorPos - Current cursor position
+ * @returns Modified expression and new cursor position
+ */
+export const insertText = (
+  expression: string,
+  text: string,
+  cursorPos: number
+): { expression: string; cursorPos: number } => {
+  const before = expression.slice(0, cursorPos)
+  return {
+    expression: before + text + expression.slice(cursorPos),
+    cursorPos: before.length + text.length,
+  }
+}
+
 /**
  * Get the expression up to cursor position
  * @param expression - Full expression
@@ -278,11 +297,66 @@ export const getWordAtCursor = (expression: string, cursorPos: number): string =
   return expression.slice(start, end)
 }
 
+/**
+ * Start of the name being typed before the cursor, or -1 when the cursor is not after a name
+ */
+const nameStartBefore = (expression: string, cursorPos: number): number => {
+  let start = cursorPos
+  while (start > 0 && /[A-Za-z0-9_\u0370-\u03FF]/.test(expression[start - 1])) {
+    start--
+  }
+  // Digits before the cursor are a number, not the start of a name
+  return start < cursorPos && /[A-Za-z_\u0370-\u03FF]/.test(expression[start]) ? start : -1
+}
+
+/**
+ * Names that complete the name typed before the cursor, shortest first
+ * @param names - Candidate names (functions, constants, variables)
+ * @param limit - Maximum number of suggestions
+ * @returns Matching names other than the one already typed in full
+ */
+export const getCompletions = (
+  expression: string,
+  cursorPos: number,
+  names: string[],
+  limit: number = 8
+): string[] => {
+  const start = nameStartBefore(expression, cursorPos)
+  if (start < 0) return []
+  const prefix = expression.slice(start, cursorPos)
+  return [...new Set(names)]
+    .filter(name => name.startsWith(prefix) && name !== prefix)
+    .sort((a, b) => a.length - b.length || a.localeCompare(b))
+    .slice(0, limit)
+}
+
+/**
+ * Replace the name typed before the cursor with a completion
+ * @param asCall - Add `(` after function names and place the cursor inside
+ * @returns Modified expression and new cursor position
+ */
+export const applyCompletion = (
+  expression: string,
+  cursorPos: number,
+  name: string,
+  asCall: boolean = false
+): { expression: string; cursorPos: number } => {
+  const start = nameStartBefore(expression, cursorPos)
+  const before = expression.slice(0, start < 0 ? cursorPos : start)
+  const after = expression.slice(cursorPos)
+  const inserted = asCall && !after.startsWith('(') ? `${name}(` : name
+  return {
+    expression: before + inserted + after,
+    cursorPos: before.length + inserted.length,
+  }
+}
+
 export default {
   validateExpression,
   insertOperator,
   insertFunction,
   insertParentheses,
+  insertText,
   getExpressionBefore,
   getExpressionAfter,
   formatExpression,
@@ -293,4 +367,6 @@ export default {
   isOperator,
   isNumeric,
   getWordAtCursor,
+  getCompletions,
+  applyCompletion,
 }
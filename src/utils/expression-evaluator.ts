@@ -0,0 +1,1656 @@
+/**
+ * Expression Evaluator
+ * Walks the expression AST and computes its value without dynamic code execution
+ */
+
+import {
+  BinaryNode,
+  BinaryOperator,
+  CalculusDefinition,
+  CallNode,
+  ComparisonOperator,
+  EvaluationContext,
+  EvaluationErrorCode,
+  ExpressionNode,
+  FunctionDefinition,
+  FunctionDomain,
+  IdentifierNode,
+  NumericEstimate,
+  NumericResult,
+  RealFunction,
+  SourceRange,
+} from '@/types/expression'
+import { APPROACH, APPROXIMATE, parseExpression } from '@/utils/expression-parser'
+import { CalculatorError, EvaluationResult, isCalculatorError } from '@/utils/calculator-errors'
+import {
+  addTax,
+  addTip,
+  applyDiscounts,
+  combination,
+  costForMargin,
+  costForMarkup,
+  degreesToRadians,
+  factorial,
+  gcd,
+  lcm,
+  marginPercent,
+  marginToMarkup,
+  markupPercent,
+  markupToMargin,
+  permutation,
+  radiansToDegrees,
+  removeTax,
+  sellingPriceForMargin,
+  sellingPriceForMarkup,
+  splitBill,
+} from '@/utils/calculator-math'
+import {
+  bracketsRoot,
+  differentiate,
+  findRoot,
+  integrate,
+  limit,
+  maximize,
+  minimize,
+  solveBracketed,
+} from '@/utils/calculus'
+import { evaluateComplexNode } from '@/utils/complex-evaluator'
+import { evaluateDecimalNode, FLOAT_DIGITS } from '@/utils/decimal-evaluator'
+import {
+  Distribution,
+  distributionFunctionNames,
+  distributions,
+  inverseCdf,
+  parametersOf,
+  requiredParameterCount,
+  sampleDistribution,
+  validParameters,
+} from '@/utils/distributions'
+import {
+  internalRateOfReturn,
+  netPresentValue,
+  percentChange,
+  solveTvm,
+  TvmResult,
+  TvmValues,
+  TvmVariable,
+  tvmVariables,
+} from '@/utils/finance'
+import { Matrix } from '@/utils/matrix'
+import {
+  chineseRemainder,
+  congruencesOf,
+  eulerPhi,
+  isPrime,
+  modInverse,
+  modPow,
+} from '@/utils/number-theory'
+import { evaluateProgrammerNode } from '@/utils/programmer-evaluator'
+import { evaluateQuantityNode } from '@/utils/quantity-evaluator'
+import { constantExpression, physicalConstantsByName } from '@/utils/physical-constants'
+import { randomInteger, unseededRandom } from '@/utils/random'
+import { evaluateRationalNode } from '@/utils/rational-evaluator'
+import {
+  besselJ,
+  besselY,
+  beta,
+  erf,
+  erfc,
+  gamma,
+  isGammaPole,
+  lambertW,
+  lnGamma,
+} from '@/utils/special-functions'
+import { floatArithmetic, mean, median, mode, quantile, sum, variance } from '@/utils/statistics'
+import { isUnitName } from '@/utils/units'
+
+export const defaultEvaluationContext: EvaluationContext = {
+  angleMode: 'rad',
+}
+
+/**
+ * Convert an angle argument to radians according to the angle mode
+ */
+export const toRadians = (value: number, context: EvaluationContext): number =>
+  context.angleMode === 'deg' ? degreesToRadians(value) : value
+
+/**
+ * Convert a radian result to the unit of the current angle mode
+ */
+export const fromRadians = (value: number, context: EvaluationContext): number =>
+  context.angleMode === 'deg' ? radiansToDegrees(value) : value
+
+const unary = (
+  evaluate: (x: number, context: EvaluationContext) => number,
+  description?: string,
+  domain?: FunctionDomain
+): FunctionDefinition => ({
+  minArgs: 1,
+  maxArgs: 1,
+  description,
+  domain,
+  evaluate: ([x], context) => evaluate(x, context),
+})
+
+const unitInterval: FunctionDomain = {
+  test: ([x]) => x >= -1 && x <= 1,
+  description: 'inputs between -1 and 1',
+}
+
+const positive: FunctionDomain = {
+  test: ([x]) => x > 0,
+  description: 'positive inputs',
+}
+
+const nonNegative: FunctionDomain = {
+  test: ([x]) => x >= 0,
+  description: 'inputs ≥ 0',
+}
+
+/**
+ * Domain of the factorial operator and function, x! = Γ(x + 1)
+ */
+export const factorialDomain: FunctionDomain = {
+  test: ([x]) => !(x < 0 && Number.isInteger(x)),
+  description: 'inputs other than negative integers',
+}
+
+const gammaDomain: FunctionDomain = {
+  test: args => args.every(arg => !isGammaPole(arg)),
+  description: 'inputs other than 0 and negative integers',
+}
+
+/**
+ * Poles of sec, csc and cot: odd multiples of 90° for sec, multiples of 180° for the others
+ */
+const reciprocalTrigonometricDomain = (poleOffset: 0 | 90): FunctionDomain => ({
+  test: ([x], ctx) =>
+    ctx.angleMode === 'deg' ? Math.abs(x % 180) !== poleOffset : poleOffset !== 0 || x !== 0,
+  description:
+    poleOffset === 0
+      ? 'angles that are not multiples of 180°'
+      : 'angles that are not odd multiples of 90°',
+})
+
+const integerOrder: FunctionDomain = {
+  test: ([n]) => Number.isInteger(n),
+  description: 'integer orders',
+}
+
+export const integerArguments: FunctionDomain = {
+  test: args => args.every(arg => Number.isInteger(arg)),
+  description: 'integers',
+}
+
+/**
+ * Whole numbers small enough to factor exactly from a double
+ */
+export const factorableDomain: FunctionDomain = {
+  test: ([n]) => Number.isInteger(n) && n >= 1 && n <= Number.MAX_SAFE_INTEGER,
+  description: 'whole numbers from 1 to 2^53 − 1',
+}
+
+/**
+ * r items chosen from n, for nCr and nPr
+ */
+const selectionDomain: FunctionDomain = {
+  test: ([n, r]) => Number.isInteger(n) && Number.isInteger(r) && r >= 0 && r <= n,
+  description: 'whole numbers with 0 ≤ r ≤ n',
+}
+
+const congruenceDomain: FunctionDomain = {
+  test: args => {
+    if (args.length % 2 !== 0 || !args.every(arg => Number.isInteger(arg))) {
+      return false
+    }
+    const { residues, moduli } = congruencesOf(args.map(BigInt))
+    return moduli.every(m => m >= 1n) && chineseRemainder(residues, moduli) !== null
+  },
+  description: 'pairs of an integer residue and a modulus ≥ 1 whose congruences agree',
+}
+
+/**
+ * Function whose result is a list of numbers, which only floating-point arithmetic holds, as
+ * a row vector; the matrix evaluator computes it
+ */
+const listFunction = (args: number, description: string): FunctionDefinition => ({
+  minArgs: args,
+  maxArgs: args,
+  description,
+  domain: {
+    test: () => false,
+    description: 'floating-point arithmetic, where the result is a vector',
+  },
+  evaluate: () => NaN,
+})
+
+/**
+ * Bitwise operation on integers as BigInt, whose negative values act as two's complement of
+ * unlimited width (and(-1, 6) = 6); programmer arithmetic gives them a fixed word size
+ */
+const bitwise = (
+  operate: (a: bigint, b: bigint) => bigint,
+  description: string
+): FunctionDefinition => ({
+  minArgs: 2,
+  maxArgs: 2,
+  description,
+  domain: integerArguments,
+  evaluate: ([a, b]) => Number(operate(BigInt(a), BigInt(b))),
+})
+
+const shiftDomain: FunctionDomain = {
+  test: ([x, n]) => Number.isInteger(x) && Number.isInteger(n) && n >= 0,
+  description: 'integers shifted by a whole number of bits',
+}
+
+/**
+ * Rotation needs the width of a word, which only programmer arithmetic has
+ */
+const rotation = (description: string): FunctionDefinition => ({
+  minArgs: 2,
+  maxArgs: 2,
+  description,
+  domain: {
+    test: (_, context) => context.word !== undefined,
+    description: 'a fixed word size, in programmer arithmetic',
+  },
+  evaluate: () => NaN,
+})
+
+/**
+ * Statistic of any number of values; data lists in the arguments expand into their values
+ */
+const statistic = (
+  evaluate: (values: number[]) => number,
+  description: string,
+  domain?: FunctionDomain
+): FunctionDefinition => ({
+  minArgs: 1,
+  maxArgs: Infinity,
+  description,
+  domain,
+  evaluate: values => evaluate(values),
+})
+
+const spreadDomain: FunctionDomain = {
+  test: values => values.length >= 2,
+  description: 'two or more values',
+}
+
+/**
+ * Statistic of the values before the last argument, which selects the position (quartile k)
+ * @param scale - Largest position, which selects the maximum
+ */
+const position = (description: string, scale: number, integer: boolean): FunctionDefinition => ({
+  minArgs: 2,
+  maxArgs: Infinity,
+  description,
+  domain: {
+    test: args => {
+      const k = args[args.length - 1]
+      return k >= 0 && k <= scale && (!integer || Number.isInteger(k))
+    },
+    description: `a ${integer ? 'whole-number ' : ''}last argument from 0 to ${scale}`,
+  },
+  evaluate: args => quantile(floatArithmetic, args.slice(0, -1), args[args.length - 1] / scale),
+})
+
+/**
+ * Solve for one time-value-of-money variable from call arguments: the other four in the order
+ * N, I/Y, PV, PMT, FV, then optionally payments per year, compoundings per year (P/Y by
+ * default) and 1 for payments at the beginning of periods
+ */
+const solveTvmArguments = (unknown: TvmVariable, args: number[]): TvmResult => {
+  const [perYear = 1, compoundings = perYear, begin = 0] = args.slice(4)
+  if (begin !== 0 && begin !== 1) {
+    return { ok: false, message: 'The timing is 0 (end) or 1 (begin)' }
+  }
+  const known = tvmVariables.filter(({ variable }) => variable !== unknown)
+  const values = Object.fromEntries(known.map(({ variable }, k) => [variable, args[k]]))
+  return solveTvm(unknown, { ...values, [unknown]: NaN } as TvmValues, {
+    paymentsPerYear: perYear,
+    compoundingsPerYear: compoundings,
+    timing: begin ? 'begin' : 'end',
+  })
+}
+
+const tvm = (unknown: TvmVariable, description: string): FunctionDefinition => ({
+  minArgs: 4,
+  maxArgs: 7,
+  description,
+  domain: {
+    test: args => solveTvmArguments(unknown, args).ok,
+    description:
+      'cash flows that balance, with positive payments and compoundings per year and a timing of 0 (end) or 1 (begin)',
+  },
+  evaluate: args => {
+    const result = solveTvmArguments(unknown, args)
+    return result.ok ? result.value : NaN
+  },
+})
+
+/**
+ * Two-argument business function; percentages are in percent (20 for 20%)
+ */
+const business = (
+  evaluate: (a: number, b: number) => number,
+  description: string,
+  domain?: FunctionDomain
+): FunctionDefinition => ({
+  minArgs: 2,
+  maxArgs: 2,
+  description,
+  domain,
+  evaluate: ([a, b]) => evaluate(a, b),
+})
+
+/**
+ * Tax rate given as the second argument, or the configured one
+ */
+export const taxRateOf = (args: number[], context: EvaluationContext): number =>
+  args.length > 1 ? args[1] : (context.taxRate ?? 0)
+
+const taxDomain: FunctionDomain = {
+  test: (args, context) => taxRateOf(args, context) > -100,
+  description: 'tax rates above -100%',
+}
+
+/**
+ * Polar values that stay on the real axis (r∠0, r∠180°); other angles need complex arithmetic
+ */
+const realPolarAngle: FunctionDomain = {
+  test: ([, theta], context) => (context.angleMode === 'deg' ? theta % 180 === 0 : theta === 0),
+  description: 'angles of 0 or 180° outside of complex arithmetic',
+}
+
+/**
+ * Density (or probability mass), cdf, inverse and sampler of a distribution as expression
+ * functions; parameters with defaults may be left off, so normcdf(1.96) is the standard normal
+ */
+const distributionFunctions = (distribution: Distribution): Record<string, FunctionDefinition> => {
+  const { label, description } = distribution
+  const names = distributionFunctionNames(distribution)
+  const required = requiredParameterCount(distribution)
+  const parameterDomain: FunctionDomain = {
+    test: ([, ...args]) => validParameters(distribution, parametersOf(distribution, args)),
+    description,
+  }
+  const atValue = (
+    evaluate: (x: number, params: number[]) => number,
+    functionDescription: string,
+    domain: FunctionDomain = parameterDomain
+  ): FunctionDefinition => ({
+    minArgs: required + 1,
+    maxArgs: distribution.parameters.length + 1,
+    description: functionDescription,
+    domain,
+    evaluate: ([x, ...args]) => evaluate(x, parametersOf(distribution, args)),
+  })
+  return {
+    [names.density]: atValue(
+      distribution.density,
+      `${label} ${distribution.discrete ? 'probability mass' : 'probability density'}`
+    ),
+    [names.cdf]: atValue(distribution.cdf, `${label} cumulative probability`),
+    [names.inverse]: atValue(
+      (p, params) => inverseCdf(distribution, p, params),
+      `Inverse of the ${label} cumulative distribution`,
+      {
+        test: (args, context) => args[0] > 0 && args[0] < 1 && parameterDomain.test(args, context),
+        description: `probabilities 0 < p < 1 with ${description}`,
+      }
+    ),
+    [names.sample]: {
+      minArgs: required,
+      maxArgs: distribution.parameters.length,
+      description: `Random draw from the ${label} distribution`,
+      domain: {
+        test: args => validParameters(distribution, parametersOf(distribution, args)),
+        description,
+      },
+      evaluate: (args, context) =>
+        sampleDistribution(
+          distribution,
+          parametersOf(distribution, args),
+          context.random ?? unseededRandom
+        ),
+    },
+  }
+}
+
+/**
+ * Built-in functions, keyed by the name used in expressions
+ */
+export const builtinFunctions: Record<string, FunctionDefinition> = {
+  sin: unary((x, ctx) => Math.sin(toRadians(x, ctx)), 'Sine'),
+  cos: unary((x, ctx) => Math.cos(toRadians(x, ctx)), 'Cosine'),
+  tan: unary((x, ctx) => Math.tan(toRadians(x, ctx)), 'Tangent', {
+    // Only odd multiples of 90° can be hit exactly; radian inputs never land on a pole
+    test: ([x], ctx) => ctx.angleMode !== 'deg' || Math.abs(x % 180) !== 90,
+    description: 'angles that are not odd multiples of 90°',
+  }),
+  asin: unary((x, ctx) => fromRadians(Math.asin(x), ctx), 'Inverse sine', unitInterval),
+  acos: unary((x, ctx) => fromRadians(Math.acos(x), ctx), 'Inverse cosine', unitInterval),
+  atan: unary((x, ctx) => fromRadians(Math.atan(x), ctx), 'Inverse tangent'),
+  sec: unary(
+    (x, ctx) => 1 / Math.cos(toRadians(x, ctx)),
+    'Secant',
+    reciprocalTrigonometricDomain(90)
+  ),
+  csc: unary(
+    (x, ctx) => 1 / Math.sin(toRadians(x, ctx)),
+    'Cosecant',
+    reciprocalTrigonometricDomain(0)
+  ),
+  cot: unary(
+    (x, ctx) => 1 / Math.tan(toRadians(x, ctx)),
+    'Cotangent',
+    reciprocalTrigonometricDomain(0)
+  ),
+  sinh: unary(Math.sinh, 'Hyperbolic sine'),
+  cosh: unary(Math.cosh, 'Hyperbolic cosine'),
+  tanh: unary(Math.tanh, 'Hyperbolic tangent'),
+  asinh: unary(Math.asinh, 'Inverse hyperbolic sine'),
+  acosh: unary(Math.acosh, 'Inverse hyperbolic cosine', {
+    test: ([x]) => x >= 1,
+    description: 'inputs ≥ 1',
+  }),
+  atanh: unary(Math.atanh, 'Inverse hyperbolic tangent', {
+    test: ([x]) => Math.abs(x) < 1,
+    description: 'inputs between -1 and 1, exclusive',
+  }),
+  log: unary(Math.log10, 'Base-10 logarithm', positive),
+  log10: unary(Math.log10, 'Base-10 logarithm', positive),
+  ln: unary(Math.log, 'Natural logarithm', positive),
+  log2: unary(Math.log2, 'Base-2 logarithm', positive),
+  exp: unary(Math.exp, 'Exponential (e^x)'),
+  sqrt: unary(Math.sqrt, 'Square root', nonNegative),
+  cbrt: unary(Math.cbrt, 'Cube root'),
+  square: unary(x => x * x, 'Square'),
+  cube: unary(x => x * x * x, 'Cube'),
+  reciprocal: unary(x => 1 / x, 'Reciprocal', {
+    test: ([x]) => x !== 0,
+    description: 'non-zero inputs',
+    code: 'division-by-zero',
+  }),
+  abs: unary(Math.abs, 'Absolute value'),
+  floor: unary(Math.floor, 'Round down'),
+  ceil: unary(Math.ceil, 'Round up'),
+  round: unary(Math.round, 'Round to nearest integer'),
+  factorial: unary(x => factorial(x), 'Factorial, Γ(x + 1) for non-integers', factorialDomain),
+  gamma: unary(x => gamma(x), 'Gamma function', gammaDomain),
+  lngamma: unary(x => lnGamma(x), 'Natural logarithm of the absolute gamma function', gammaDomain),
+  beta: {
+    minArgs: 2,
+    maxArgs: 2,
+    description: 'Beta function Γ(a)Γ(b)/Γ(a + b)',
+    domain: gammaDomain,
+    evaluate: ([a, b]) => beta(a, b),
+  },
+  erf: unary(x => erf(x), 'Error function'),
+  erfc: unary(x => erfc(x), 'Complementary error function'),
+  besselj: {
+    minArgs: 2,
+    maxArgs: 2,
+    description: 'Bessel function of the first kind Jn(x)',
+    domain: integerOrder,
+    evaluate: ([n, x]) => besselJ(n, x),
+  },
+  bessely: {
+    minArgs: 2,
+    maxArgs: 2,
+    description: 'Bessel function of the second kind Yn(x)',
+    domain: {
+      test: ([n, x], ctx) => integerOrder.test([n], ctx) && x > 0,
+      description: 'integer orders and x > 0',
+    },
+    evaluate: ([n, x]) => besselY(n, x),
+  },
+  lambertw: {
+    minArgs: 1,
+    maxArgs: 2,
+    description: 'Lambert W, the w with w·e^w = x; branch 0 (default) or -1',
+    domain: {
+      test: ([x, branch = 0]) =>
+        (branch === 0 || branch === -1) && x >= -1 / Math.E && (branch === 0 || x < 0),
+      description: 'x ≥ -1/e on branch 0 and -1/e ≤ x < 0 on branch -1',
+    },
+    evaluate: ([x, branch = 0]) => lambertW(x, branch as 0 | -1),
+  },
+  deg: unary(x => radiansToDegrees(x), 'Radians to degrees'),
+  rad: unary(x => degreesToRadians(x), 'Degrees to radians'),
+  nroot: {
+    minArgs: 2,
+    maxArgs: 2,
+    description: 'Nth root',
+    domain: {
+      test: ([x, n]) => n !== 0 && (x >= 0 || Math.abs(n % 2) === 1),
+      description: 'a non-zero root index, odd when the radicand is negative',
+    },
+    evaluate: ([x, n]) => (x < 0 ? -Math.pow(-x, 1 / n) : Math.pow(x, 1 / n)),
+  },
+  min: {
+    minArgs: 1,
+    maxArgs: Infinity,
+    description: 'Smallest argument',
+    evaluate: args => Math.min(...args),
+  },
+  max: {
+    minArgs: 1,
+    maxArgs: Infinity,
+    description: 'Largest argument',
+    evaluate: args => Math.max(...args),
+  },
+  re: unary(x => x, 'Real part'),
+  im: unary(() => 0, 'Imaginary part'),
+  conj: unary(x => x, 'Complex conjugate'),
+  arg: unary((x, ctx) => (x < 0 ? fromRadians(Math.PI, ctx) : 0), 'Argument (phase angle)'),
+  polar: {
+    minArgs: 2,
+    maxArgs: 2,
+    description: 'Value from modulus and angle (r∠θ)',
+    domain: realPolarAngle,
+    evaluate: ([r, theta], ctx) =>
+      ctx.angleMode === 'deg' && Math.abs(theta % 360) === 180 ? -r : r,
+  },
+  gcd: {
+    minArgs: 2,
+    maxArgs: Infinity,
+    description: 'Greatest common divisor',
+    domain: integerArguments,
+    evaluate: args => args.reduce((a, b) => gcd(a, b)),
+  },
+  lcm: {
+    minArgs: 2,
+    maxArgs: Infinity,
+    description: 'Least common multiple',
+    domain: integerArguments,
+    evaluate: args => args.reduce((a, b) => lcm(a, b)),
+  },
+
+  // Combinatorics and number theory, computed exactly over BigInt
+  ncr: {
+    minArgs: 2,
+    maxArgs: 2,
+    description: 'Combinations: ways to choose r of n items, C(n, r)',
+    domain: selectionDomain,
+    evaluate: ([n, r]) => combination(n, r),
+  },
+  npr: {
+    minArgs: 2,
+    maxArgs: 2,
+    description: 'Permutations: ordered ways to choose r of n items, P(n, r)',
+    domain: selectionDomain,
+    evaluate: ([n, r]) => permutation(n, r),
+  },
+  isprime: unary(
+    n => (isPrime(BigInt(n)) ? 1 : 0),
+    'Primality: 1 if n is prime, else 0',
+    integerArguments
+  ),
+  totient: unary(
+    n => Number(eulerPhi(BigInt(n))),
+    "Euler's totient φ(n): how many of 1 to n are coprime to n",
+    factorableDomain
+  ),
+  powmod: {
+    minArgs: 3,
+    maxArgs: 3,
+    description: 'Modular power b^e mod m',
+    domain: {
+      test: ([b, e, m]) => [b, e, m].every(arg => Number.isInteger(arg)) && e >= 0 && m >= 1,
+      description: 'integers with e ≥ 0 and m ≥ 1',
+    },
+    evaluate: ([b, e, m]) => Number(modPow(BigInt(b), BigInt(e), BigInt(m))),
+  },
+  invmod: {
+    minArgs: 2,
+    maxArgs: 2,
+    description: 'Modular inverse: the x with a x ≡ 1 (mod m)',
+    domain: {
+      test: ([a, m]) => Number.isInteger(a) && Number.isInteger(m) && m >= 1 && gcd(a, m) === 1,
+      description: 'an integer a coprime to the modulus m ≥ 1',
+    },
+    evaluate: ([a, m]) => Number(modInverse(BigInt(a), BigInt(m)) ?? 0n),
+  },
+  crt: {
+    minArgs: 2,
+    maxArgs: Infinity,
+    description:
+      'Chinese remainder theorem: least x ≥ 0 with x ≡ r1 (mod m1), x ≡ r2 (mod m2), ...',
+    domain: congruenceDomain,
+    evaluate: args => {
+      const { residues, moduli } = congruencesOf(args.map(BigInt))
+      return Number(chineseRemainder(residues, moduli)?.residue ?? 0n)
+    },
+  },
+  factor: listFunction(1, 'Prime factors of n, repeated by multiplicity'),
+  divisors: listFunction(1, 'Positive divisors of n'),
+  egcd: listFunction(2, 'Extended gcd: [g, x, y] with a x + b y = g = gcd(a, b)'),
+
+  // Bitwise; programmer arithmetic wraps the results to its word size
+  and: bitwise((a, b) => a & b, 'Bitwise AND'),
+  or: bitwise((a, b) => a | b, 'Bitwise OR'),
+  xor: bitwise((a, b) => a ^ b, 'Bitwise exclusive OR'),
+  not: unary(x => -x - 1, 'Bitwise NOT', integerArguments),
+  lshift: {
+    minArgs: 2,
+    maxArgs: 2,
+    description: 'Shift left by n bits',
+    domain: shiftDomain,
+    evaluate: ([x, n]) => x * 2 ** n,
+  },
+  rshift: {
+    minArgs: 2,
+    maxArgs: 2,
+    description: 'Shift right by n bits, keeping the sign',
+    domain: shiftDomain,
+    evaluate: ([x, n]) => Math.floor(x / 2 ** n),
+  },
+  rol: rotation('Rotate left by n bits'),
+  ror: rotation('Rotate right by n bits'),
+
+  // Statistics; data lists (mean(L1)) and, in float arithmetic, matrices expand into values
+  count: statistic(values => values.length, 'Number of values'),
+  sum: statistic(values => sum(floatArithmetic, values), 'Sum of the values'),
+  mean: statistic(values => mean(floatArithmetic, values), 'Arithmetic mean'),
+  median: statistic(values => median(floatArithmetic, values), 'Median'),
+  mode: statistic(values => mode(floatArithmetic, values), 'Most frequent value'),
+  variance: statistic(
+    values => variance(floatArithmetic, values, true),
+    'Sample variance',
+    spreadDomain
+  ),
+  pvariance: statistic(values => variance(floatArithmetic, values, false), 'Population variance'),
+  stdev: statistic(
+    values => Math.sqrt(variance(floatArithmetic, values, true)),
+    'Sample standard deviation',
+    spreadDomain
+  ),
+  pstdev: statistic(
+    values => Math.sqrt(variance(floatArithmetic, values, false)),
+    'Population standard deviation'
+  ),
+  quartile: position('Quartile k (0 to 4) of the values before k', 4, true),
+  percentile: position('Percentile p (0 to 100) of the values before p', 100, false),
+
+  // Probability; rand, randint and the samplers draw from the context's generator
+  rand: {
+    minArgs: 0,
+    maxArgs: 0,
+    description: 'Random number from 0 up to 1',
+    evaluate: (_, context) => (context.random ?? unseededRandom).next(),
+  },
+  randint: {
+    minArgs: 2,
+    maxArgs: 2,
+    description: 'Random whole number from a to b',
+    domain: {
+      test: ([a, b]) => Number.isSafeInteger(a) && Number.isSafeInteger(b) && a <= b,
+      description: 'whole numbers a ≤ b',
+    },
+    evaluate: ([a, b], context) => randomInteger(context.random ?? unseededRandom, a, b),
+  },
+  ...Object.fromEntries(
+    distributions.flatMap(distribution => Object.entries(distributionFunctions(distribution)))
+  ),
+
+  // Linear algebra; the matrix evaluator applies these to matrices, and a plain number
+  // acts as a 1×1 matrix
+  det: unary(x => x, 'Determinant'),
+  inv: unary(x => 1 / x, 'Matrix inverse', {
+    test: ([x]) => x !== 0,
+    description: 'non-singular matrices',
+    code: 'division-by-zero',
+  }),
+  transpose: unary(x => x, 'Transpose'),
+  rank: unary(x => (x === 0 ? 0 : 1), 'Rank'),
+  solve: {
+    minArgs: 2,
+    maxArgs: 2,
+    description: 'Solution x of A x = b',
+    domain: {
+      test: ([a]) => a !== 0,
+      description: 'non-singular matrices',
+      code: 'division-by-zero',
+    },
+    evaluate: ([a, b]) => b / a,
+  },
+  eig: unary(x => x, 'Eigenvalues'),
+  dot: {
+    minArgs: 2,
+    maxArgs: 2,
+    description: 'Dot product',
+    evaluate: ([a, b]) => a * b,
+  },
+  cross: {
+    minArgs: 2,
+    maxArgs: 2,
+    description: 'Cross product',
+    domain: { test: () => false, description: 'vectors of length 3' },
+    evaluate: () => NaN,
+  },
+  norm: unary(Math.abs, 'Length of a vector'),
+
+  // Finance; rates are in percent, and data lists of cash flows expand (npv(10, L1))
+  tvmn: tvm('n', 'Number of periods from I/Y, PV, PMT and FV'),
+  tvmiy: tvm('iy', 'Nominal annual rate from N, PV, PMT and FV'),
+  tvmpv: tvm('pv', 'Present value from N, I/Y, PMT and FV'),
+  tvmpmt: tvm('pmt', 'Payment from N, I/Y, PV and FV'),
+  tvmfv: tvm('fv', 'Future value from N, I/Y, PV and PMT'),
+  npv: {
+    minArgs: 2,
+    maxArgs: Infinity,
+    description: 'Net present value at a rate per period of cash flows CF0, CF1, ...',
+    domain: { test: ([rate]) => rate > -100, description: 'rates above -100%' },
+    evaluate: ([rate, ...cashFlows]) => netPresentValue(rate, cashFlows),
+  },
+  irr: {
+    minArgs: 1,
+    maxArgs: Infinity,
+    description: 'Internal rate of return per period of cash flows CF0, CF1, ...',
+    domain: {
+      test: cashFlows => !isNaN(internalRateOfReturn(cashFlows)),
+      description: 'cash flows of both signs that some rate balances',
+    },
+    evaluate: cashFlows => internalRateOfReturn(cashFlows),
+  },
+  pctchange: {
+    minArgs: 2,
+    maxArgs: 2,
+    description: 'Percentage change from the first value to the second',
+    domain: {
+      test: ([from]) => from !== 0,
+      description: 'a non-zero starting value',
+      code: 'division-by-zero',
+    },
+    evaluate: ([from, to]) => percentChange(from, to),
+  },
+
+  // Business math; the tax functions use the configured tax rate unless given one
+  sellmargin: business(
+    (cost, margin) => sellingPriceForMargin(cost, margin),
+    'Selling price from cost and margin',
+    {
+      test: ([, margin]) => margin < 100,
+      description: 'margins below 100%',
+    }
+  ),
+  costmargin: business(
+    (price, margin) => costForMargin(price, margin),
+    'Cost from selling price and margin'
+  ),
+  margin: business(
+    (cost, price) => marginPercent(cost, price),
+    'Margin of cost and selling price',
+    {
+      test: ([, price]) => price !== 0,
+      description: 'a non-zero selling price',
+      code: 'division-by-zero',
+    }
+  ),
+  sellmarkup: business(
+    (cost, markup) => sellingPriceForMarkup(cost, markup),
+    'Selling price from cost and markup'
+  ),
+  costmarkup: business(
+    (price, markup) => costForMarkup(price, markup),
+    'Cost from selling price and markup',
+    {
+      test: ([, markup]) => markup > -100,
+      description: 'markups above -100%',
+    }
+  ),
+  markup: business(
+    (cost, price) => markupPercent(cost, price),
+    'Markup of cost and selling price',
+    {
+      test: ([cost]) => cost !== 0,
+      description: 'a non-zero cost',
+      code: 'division-by-zero',
+    }
+  ),
+  markuptomargin: unary(markup => markupToMargin(markup), 'Margin from markup', {
+    test: ([markup]) => markup > -100,
+    description: 'markups above -100%',
+  }),
+  margintomarkup: unary(margin => marginToMarkup(margin), 'Markup from margin', {
+    test: ([margin]) => margin < 100,
+    description: 'margins below 100%',
+  }),
+  addtax: {
+    minArgs: 1,
+    maxArgs: 2,
+    description: 'Amount plus tax at the configured or given rate',
+    domain: taxDomain,
+    evaluate: (args, context) => addTax(args[0], taxRateOf(args, context)),
+  },
+  removetax: {
+    minArgs: 1,
+    maxArgs: 2,
+    description: 'Amount without the tax it includes at the configured or given rate',
+    domain: taxDomain,
+    evaluate: (args, context) => removeTax(args[0], taxRateOf(args, context)),
+  },
+  discount: {
+    minArgs: 2,
+    maxArgs: Infinity,
+    description: 'Price after discounts in percent, applied one after another',
+    evaluate: ([price, ...discounts]) => applyDiscounts(price, discounts),
+  },
+  tip: business((bill, tip) => addTip(bill, tip), 'Bill plus a tip in percent'),
+  split: {
+    minArgs: 2,
+    maxArgs: 3,
+    description: "Each person's share of a bill, with an optional tip in percent",
+    domain: {
+      test: ([, people]) => people > 0,
+      description: 'a positive number of people',
+    },
+    evaluate: ([bill, people, tip]) => splitBill(bill, people, tip),
+  },
+}
+
+/**
+ * Built-in constants, keyed by the name used in expressions
+ */
+export const builtinConstants: Record<string, number> = {
+  pi: Math.PI,
+  π: Math.PI,
+  e: Math.E,
+  phi: (1 + Math.sqrt(5)) / 2,
+  φ: (1 + Math.sqrt(5)) / 2,
+}
+
+/**
+ * Numeric calculus functions, keyed by the name used in expressions; the function they work on
+ * comes first, before the arguments counted here (see evaluateCalculusCall)
+ */
+export const calculusFunctions: Record<string, CalculusDefinition> = {
+  integrate: {
+    minArgs: 2,
+    maxArgs: 2,
+    description: 'Integral of f from a to b by adaptive Gauss–Kronrod quadrature',
+    evaluate: (f, [a, b]) => integrate(f, a, b),
+  },
+  deriv: {
+    minArgs: 1,
+    maxArgs: 1,
+    description: 'Derivative of f at x0',
+    evaluate: (f, [x0]) => differentiate(f, x0),
+  },
+  limit: {
+    minArgs: 1,
+    maxArgs: 2,
+    description: 'Limit of f at a; from above when side is 1 and from below when it is −1',
+    domain: {
+      test: ([, side]) => side === undefined || side === 1 || side === 0 || side === -1,
+      description: 'side 1 (from above), −1 (from below) or 0 (both)',
+    },
+    evaluate: (f, [a, side]) => limit(f, a, side ?? 0),
+  },
+  root: {
+    minArgs: 1,
+    maxArgs: 1,
+    description: 'Root of f near a guess',
+    evaluate: (f, [guess]) => findRoot(f, guess),
+  },
+  solve: {
+    minArgs: 2,
+    maxArgs: 2,
+    description: 'Root of f between a and b; solve(A, b) solves A x = b',
+    domain: {
+      test: ([a, b], f) => bracketsRoot(f, a, b),
+      description: 'a and b where f changes sign',
+    },
+    evaluate: (f, [a, b]) => solveBracketed(f, a, b),
+  },
+  fmin: {
+    minArgs: 2,
+    maxArgs: 2,
+    description: 'Where f is smallest between a and b',
+    evaluate: (f, [a, b]) => minimize(f, a, b),
+  },
+  fmax: {
+    minArgs: 2,
+    maxArgs: 2,
+    description: 'Where f is largest between a and b',
+    evaluate: (f, [a, b]) => maximize(f, a, b),
+  },
+}
+
+/**
+ * Variable of an expression given to a calculus function, unless limit(f, t→a) names another
+ */
+export const CALCULUS_VARIABLE = 'x'
+
+/**
+ * Whether a call is to a calculus function; a builtin of the same name keeps the calls that fit
+ * its own arity, so solve(A, b) still solves A x = b
+ */
+export const isCalculusCall = (node: CallNode): boolean =>
+  hasEntry(calculusFunctions, node.callee) &&
+  !(
+    hasEntry(builtinFunctions, node.callee) &&
+    node.args.length <= builtinFunctions[node.callee].maxArgs
+  )
+
+/**
+ * Name of the conditional `if(condition, then, else)`, which evaluates only the branch it takes
+ */
+export const CONDITIONAL = 'if'
+
+/**
+ * Names offered as completions while an expression is typed: every built-in, calculus and
+ * user function, and the built-in and physical constants with the variables in scope
+ */
+export const completionNames = (
+  context?: Pick<EvaluationContext, 'functions' | 'variables'>
+): { functions: string[]; values: string[] } => ({
+  functions: [
+    ...Object.keys(builtinFunctions),
+    ...Object.keys(calculusFunctions).filter(name => !hasEntry(builtinFunctions, name)),
+    CONDITIONAL,
+    ...Object.keys(context?.functions ?? {}),
+  ],
+  values: [
+    ...Object.keys(builtinConstants),
+    ...Object.keys(physicalConstantsByName),
+    ...Object.keys(context?.variables ?? {}),
+  ],
+})
+
+/**
+ * Deepest nesting of user function calls before evaluation gives up
+ */
+export const MAX_CALL_DEPTH = 200
+
+/**
+ * Own-property lookup, so names such as `toString` are never mistaken for entries
+ */
+export const hasEntry = (table: object, name: string): boolean =>
+  Object.prototype.hasOwnProperty.call(table, name)
+
+/**
+ * Own entry of a table by name; undefined for inherited names such as `constructor`
+ */
+export const entryOf = <T>(table: Record<string, T>, name: string): T | undefined =>
+  hasEntry(table, name) ? table[name] : undefined
+
+/**
+ * Whether a comparison holds, given the sign of left − right
+ */
+export const comparisonHolds = (operator: ComparisonOperator, sign: number): boolean => {
+  switch (operator) {
+    case '<':
+      return sign < 0
+    case '<=':
+      return sign <= 0
+    case '>':
+      return sign > 0
+    case '>=':
+      return sign >= 0
+    case '==':
+      return sign === 0
+    case '!=':
+      return sign !== 0
+  }
+}
+
+/**
+ * How one arithmetic evaluates nodes, for the evaluation steps every arithmetic shares
+ */
+export interface NodeEvaluator<T> {
+  evaluate: (node: ExpressionNode, context: EvaluationContext) => T
+  /** Whether a condition value counts as true (any non-zero value) */
+  isTrue: (value: T) => boolean
+  /** Number text that reads back as the same value */
+  toText: (value: T) => string
+}
+
+const wrongArgumentCount = (callee: string, expected: string, range: SourceRange) =>
+  new CalculatorError(
+    'syntax',
+    `'${callee}' expects ${expected} argument${expected === '1' ? '' : 's'}`,
+    range
+  )
+
+/**
+ * Errors that leave a function undefined at a sample point (NaN) rather than end a calculus
+ * call, so the method can steer away from there
+ */
+const undefinedSampleErrors: ReadonlySet<EvaluationErrorCode> = new Set([
+  'domain',
+  'division-by-zero',
+  'overflow',
+])
+
+/**
+ * The function a calculus call samples, in floating point: a call of the named user or
+ * built-in function, or the expression with `variable` bound to the sample point
+ */
+const realFunctionOf = (
+  target: ExpressionNode,
+  variable: string,
+  context: EvaluationContext
+): RealFunction => {
+  const named =
+    target.type === 'identifier' &&
+    (hasEntry(context.functions ?? {}, target.name) || hasEntry(builtinFunctions, target.name))
+  const body: ExpressionNode = named
+    ? {
+        type: 'call',
+        callee: target.name,
+        args: [{ type: 'identifier', name: variable, start: target.start, end: target.end }],
+        start: target.start,
+        end: target.end,
+      }
+    : target
+  const variables = { ...context.variables }
+  const scope = { ...context, variables }
+  return x => {
+    variables[variable] = String(x)
+    try {
+      return evaluateNode(body, scope)
+    } catch (error) {
+      if (isCalculatorError(error) && undefinedSampleErrors.has(error.code)) {
+        return NaN
+      }
+      throw error
+    }
+  }
+}
+
+/**
+ * Approximate number node of an estimate, negated through a unary minus as literals are never
+ * negative
+ */
+const literalOf = (value: number, range: SourceRange): ExpressionNode => {
+  const literal: ExpressionNode = {
+    type: 'number',
+    value: Math.abs(value),
+    raw: String(Math.abs(value)),
+    approximate: true,
+    start: range.start,
+    end: range.end,
+  }
+  return value < 0
+    ? { type: 'unary', operator: '-', operand: literal, start: range.start, end: range.end }
+    : literal
+}
+
+const notConverged = (callee: string, { value, error }: NumericResult): string =>
+  Number.isFinite(value) && Number.isFinite(error)
+    ? `${callee} did not converge; the best estimate is ` +
+      `${Number(value.toPrecision(10))} ± ${Number(error.toPrecision(2))}`
+    : `${callee} did not converge, as f is undefined or infinite where it was sampled`
+
+/**
+ * Evaluate a numeric calculus call such as integrate(x^2, 0, 1)
+ * The function comes first: the name of a one-argument user or built-in function
+ * (integrate(f, 0, 1), deriv(sin, 0)) or an expression in x that sees the caller's variables;
+ * limit(f, t→a) names another variable. The method samples it in floating point whatever the
+ * arithmetic, and its outcome is reported to `context.estimates`.
+ * @throws CalculatorError for a wrong argument count, arguments outside the domain, or a result
+ *   that misses its tolerance (`convergence`, with the best estimate in the message)
+ */
+const evaluateCalculusCall = <T>(
+  node: CallNode,
+  context: EvaluationContext,
+  evaluator: NodeEvaluator<T>
+): T => {
+  const definition = calculusFunctions[node.callee]
+  const [target, ...rest] = node.args
+  if (!target || rest.length < definition.minArgs || rest.length > definition.maxArgs) {
+    const expected =
+      definition.minArgs === definition.maxArgs
+        ? `${definition.minArgs + 1}`
+        : `${definition.minArgs + 1} or ${definition.maxArgs + 1}`
+    throw wrongArgumentCount(node.callee, expected, node)
+  }
+
+  let variable = CALCULUS_VARIABLE
+  let points = rest
+  const [point] = rest
+  if (node.callee === 'limit' && point.type === 'call' && point.callee === APPROACH) {
+    variable = (point.args[0] as IdentifierNode).name
+    points = [point.args[1], ...rest.slice(1)]
+  }
+  const floatContext: EvaluationContext = {
+    ...context,
+    precision: undefined,
+    fractions: undefined,
+    complex: undefined,
+    word: undefined,
+  }
+  const args = points.map(arg => evaluateNode(arg, floatContext))
+  // Calls nested in the function would report once per sample
+  const f = realFunctionOf(target, variable, { ...floatContext, estimates: undefined })
+  const { domain } = definition
+  if (domain && !domain.test(args, f)) {
+    throw new CalculatorError(
+      'domain',
+      `${node.callee} is only defined for ${domain.description}`,
+      node
+    )
+  }
+
+  const result = definition.evaluate(f, args)
+  if (!result.converged) {
+    throw new CalculatorError('convergence', notConverged(node.callee, result), node)
+  }
+  context.estimates?.push({ method: node.callee, ...result })
+  return evaluator.evaluate(literalOf(result.value, node), context)
+}
+
+/**
+ * Evaluate the calls that are not plain built-ins: the conditional, numeric calculus and user
+ * functions
+ * Arguments of a user function are bound as variables for its body, which sees the caller's
+ * variables too.
+ * @returns undefined for any other call
+ * @throws CalculatorError for a wrong argument count, runaway recursion or a failing body; the
+ *   range is the outermost call and the message names the function that failed
+ */
+export const evaluateSpecialCall = <T>(
+  node: CallNode,
+  context: EvaluationContext,
+  evaluator: NodeEvaluator<T>
+): T | undefined => {
+  if (node.callee === APPROACH) {
+    throw new CalculatorError('syntax', '→ only names the point of a limit: limit(f, x→0)', node)
+  }
+  if (isCalculusCall(node)) {
+    return evaluateCalculusCall(node, context, evaluator)
+  }
+  if (node.callee === CONDITIONAL) {
+    if (node.args.length !== 3) {
+      throw wrongArgumentCount(node.callee, '3', node)
+    }
+    const [condition, then, otherwise] = node.args
+    const holds = evaluator.isTrue(evaluator.evaluate(condition, context))
+    return evaluator.evaluate(holds ? then : otherwise, context)
+  }
+
+  const functions = context.functions ?? {}
+  if (!hasEntry(functions, node.callee)) {
+    return undefined
+  }
+  const definition = functions[node.callee]
+  if (node.args.length !== definition.params.length) {
+    throw wrongArgumentCount(node.callee, String(definition.params.length), node)
+  }
+  const callDepth = (context.callDepth ?? 0) + 1
+  if (callDepth > MAX_CALL_DEPTH) {
+    throw new CalculatorError('overflow', `${node.callee} calls itself too deeply`, node)
+  }
+
+  const variables = { ...context.variables }
+  definition.params.forEach((param, k) => {
+    variables[param] = evaluator.toText(evaluator.evaluate(node.args[k], context))
+  })
+  try {
+    return evaluator.evaluate(parseExpression(definition.body), {
+      ...context,
+      variables,
+      callDepth,
+    })
+  } catch (error) {
+    if (!isCalculatorError(error)) {
+      throw error
+    }
+    // Errors from a nested call already carry the body they came from
+    const message = error.source === undefined ? `${node.callee}: ${error.message}` : error.message
+    throw new CalculatorError(error.code, message, node, definition.body)
+  }
+}
+
+/**
+ * Read a variable from the context in the caller's arithmetic
+ * @param evaluate - The caller's node evaluator, applied to the stored result text
+ * @returns undefined when the context has no variable of that name
+ * @throws CalculatorError at the identifier when the stored value is invalid in this mode,
+ *   e.g. a complex value outside complex mode
+ */
+export const resolveVariable = <T>(
+  node: IdentifierNode,
+  context: EvaluationContext,
+  evaluate: (node: ExpressionNode, context: EvaluationContext) => T
+): T | undefined => {
+  const text = context.variables && entryOf(context.variables, node.name)
+  if (text === undefined) {
+    return undefined
+  }
+  try {
+    // Stored values are plain numbers, so they never refer to other variables
+    return evaluate(parseExpression(text), { ...context, variables: undefined })
+  } catch (error) {
+    if (isCalculatorError(error)) {
+      throw new CalculatorError(error.code, `${node.name} = ${text}: ${error.message}`, node)
+    }
+    throw error
+  }
+}
+
+/**
+ * Read a physical constant by its name (c, G, NA, mu0) in the caller's arithmetic, from its
+ * CODATA digits and, in unit-aware arithmetic, its units. Built-in constants and variables come
+ * first, so `c = 3` hides the speed of light, and units after: hbar is ħ, not a hectobar. No
+ * constant is named like a unit symbol itself, so h stays the hour and the Planck constant is
+ * planck.
+ * @param withUnit - Whether the caller understands units
+ * @returns undefined when no constant has that name
+ */
+export const resolvePhysicalConstant = <T>(
+  node: IdentifierNode,
+  context: EvaluationContext,
+  evaluate: (node: ExpressionNode, context: EvaluationContext) => T,
+  withUnit = false
+): T | undefined => {
+  const entry = entryOf(physicalConstantsByName, node.name)
+  return (
+    entry &&
+    evaluate(parseExpression(constantExpression(entry, withUnit)), {
+      ...context,
+      variables: undefined,
+      lists: undefined,
+    })
+  )
+}
+
+/**
+ * Read a data list from the context in the caller's arithmetic; a variable of the same name
+ * hides the list
+ * @returns undefined when the node does not name a list
+ * @throws CalculatorError at the name when a stored value is invalid in this mode
+ */
+export const resolveList = <T>(
+  node: ExpressionNode,
+  context: EvaluationContext,
+  evaluate: (node: ExpressionNode, context: EvaluationContext) => T
+): T[] | undefined => {
+  if (
+    node.type !== 'identifier' ||
+    !context.lists ||
+    !hasEntry(context.lists, node.name) ||
+    (context.variables && hasEntry(context.variables, node.name))
+  ) {
+    return undefined
+  }
+  return context.lists[node.name].map(text => {
+    try {
+      return evaluate(parseExpression(text), { ...context, variables: undefined, lists: undefined })
+    } catch (error) {
+      if (isCalculatorError(error)) {
+        throw new CalculatorError(error.code, `${node.name}: ${text}: ${error.message}`, node)
+      }
+      throw error
+    }
+  })
+}
+
+/**
+ * Evaluate the arguments of a call; in built-ins that take any number of values, a data list
+ * argument stands for its values (mean(L1, 5) is the mean of L1's values and 5)
+ */
+export const evaluateArguments = <T>(
+  node: CallNode,
+  context: EvaluationContext,
+  evaluate: (node: ExpressionNode, context: EvaluationContext) => T
+): T[] => {
+  const expands =
+    hasEntry(builtinFunctions, node.callee) && builtinFunctions[node.callee].maxArgs === Infinity
+  return node.args.flatMap(
+    arg => (expands && resolveList(arg, context, evaluate)) || [evaluate(arg, context)]
+  )
+}
+
+/**
+ * Error for a name nothing defines; unit names get their own message, since only the unit-aware
+ * float evaluation of tryEvaluateExpression understands them, and so do data lists, which
+ * only float arithmetic reads on their own
+ */
+export const undefinedName = (
+  node: IdentifierNode,
+  context?: EvaluationContext
+): CalculatorError => {
+  if (context?.lists && hasEntry(context.lists, node.name)) {
+    return new CalculatorError(
+      'domain',
+      `'${node.name}' is a list; use it in a function such as mean(${node.name})`,
+      node
+    )
+  }
+  return isUnitName(node.name)
+    ? new CalculatorError('units', `'${node.name}' is a unit, which needs float arithmetic`, node)
+    : new CalculatorError('unknown-identifier', `'${node.name}' is not defined`, node)
+}
+
+/**
+ * Error for a unit conversion outside the unit-aware float evaluation
+ */
+export const conversionUnavailable = (range: SourceRange): CalculatorError =>
+  new CalculatorError('units', 'Unit conversion needs float arithmetic', range)
+
+/**
+ * Error for a matrix outside floating-point arithmetic
+ */
+export const matrixUnavailable = (range: SourceRange): CalculatorError =>
+  new CalculatorError('domain', 'Matrices need float arithmetic', range)
+
+/**
+ * Apply an arithmetic operator to two operands
+ */
+export const applyBinaryOperator = (
+  operator: BinaryOperator,
+  left: number,
+  right: number
+): number => {
+  switch (operator) {
+    case '+':
+      return left + right
+    case '-':
+      return left - right
+    case '*':
+      return left * right
+    case '/':
+      return left / right
+    case '^':
+      return Math.pow(left, right)
+  }
+}
+
+/**
+ * Raise overflow/domain errors for non-finite results of finite inputs
+ */
+export const checkResult = (
+  value: number,
+  inputs: number[],
+  range: SourceRange,
+  operation: string
+): number => {
+  if (isFinite(value) || inputs.some(input => !isFinite(input))) {
+    return value
+  }
+  if (isNaN(value)) {
+    throw new CalculatorError('domain', `${operation} is undefined for this input`, range)
+  }
+  throw new CalculatorError('overflow', `${operation} is too large to represent`, range)
+}
+
+/**
+ * Run an exact computation, reporting its RangeError (a result too large to hold) as overflow
+ */
+export const withinRange = <T>(compute: () => T, range: SourceRange, operation: string): T => {
+  try {
+    return compute()
+  } catch (error) {
+    if (error instanceof RangeError) {
+      throw new CalculatorError('overflow', `${operation} is too large to represent`, range)
+    }
+    throw error
+  }
+}
+
+/**
+ * Properties of a binary operand that decide whether an operation is defined
+ */
+export interface OperandFacts {
+  zero: boolean
+  negative: boolean
+  integer: boolean
+}
+
+const factsOf = (value: number): OperandFacts => ({
+  zero: value === 0,
+  negative: value < 0,
+  integer: Number.isInteger(value),
+})
+
+/**
+ * Reject operand combinations that have no value (x/0, 0^-n, (-x)^0.5)
+ * @throws CalculatorError with the range of the offending operand
+ */
+export const checkBinaryOperands = (
+  node: BinaryNode,
+  left: OperandFacts,
+  right: OperandFacts
+): void => {
+  if (node.operator === '/' && right.zero) {
+    throw new CalculatorError('division-by-zero', 'Cannot divide by zero', node.right)
+  }
+  if (node.operator === '^' && left.zero && right.negative) {
+    throw new CalculatorError('division-by-zero', 'Zero cannot be raised to a negative power', node)
+  }
+  if (node.operator === '^' && left.negative && !right.integer) {
+    throw new CalculatorError('domain', 'A negative base needs an integer exponent', node.right)
+  }
+}
+
+const evaluateBinary = (node: BinaryNode, context: EvaluationContext): number => {
+  const left = evaluateNode(node.left, context)
+  const right = evaluateNode(node.right, context)
+  checkBinaryOperands(node, factsOf(left), factsOf(right))
+
+  const result = applyBinaryOperator(node.operator, left, right)
+  return checkResult(result, [left, right], node, 'The result')
+}
+
+/**
+ * Find a built-in function and check the number of arguments in the call
+ * @throws CalculatorError for unknown names or a wrong argument count
+ */
+export const lookupFunction = (node: CallNode): FunctionDefinition => {
+  const definition = entryOf(builtinFunctions, node.callee)
+  const calleeRange = { start: node.start, end: node.start + node.callee.length }
+  if (!definition) {
+    throw new CalculatorError(
+      'unknown-identifier',
+      `'${node.callee}' is not a function`,
+      calleeRange
+    )
+  }
+  if (node.args.length < definition.minArgs || node.args.length > definition.maxArgs) {
+    const expected =
+      definition.minArgs === definition.maxArgs
+        ? `${definition.minArgs}`
+        : `${definition.minArgs} or more`
+    throw wrongArgumentCount(node.callee, expected, node)
+  }
+  return definition
+}
+
+/**
+ * Check evaluated arguments against the function's domain
+ * @throws CalculatorError when the arguments are outside the domain
+ */
+export const checkDomain = (
+  node: CallNode,
+  definition: FunctionDefinition,
+  args: number[],
+  context: EvaluationContext
+): void => {
+  // lookupFunction counted the arguments as written; empty data lists can leave fewer values
+  if (args.length < definition.minArgs) {
+    throw new CalculatorError(
+      'domain',
+      `${node.callee} needs at least ${definition.minArgs} ${definition.minArgs === 1 ? 'value' : 'values'}, not ${args.length}`,
+      node
+    )
+  }
+  const { domain } = definition
+  if (domain && !domain.test(args, context)) {
+    // Underline the argument itself for single-argument functions
+    const range = node.args.length === 1 ? node.args[0] : node
+    throw new CalculatorError(
+      domain.code ?? 'domain',
+      `${node.callee} is only defined for ${domain.description}`,
+      range
+    )
+  }
+}
+
+const floatEvaluator: NodeEvaluator<number> = {
+  evaluate: (node, context) => evaluateNode(node, context),
+  isTrue: value => value !== 0,
+  toText: String,
+}
+
+const evaluateCall = (node: CallNode, context: EvaluationContext): number => {
+  const special = evaluateSpecialCall(node, context, floatEvaluator)
+  if (special !== undefined) {
+    return special
+  }
+  const definition = lookupFunction(node)
+  const args = evaluateArguments(node, context, evaluateNode)
+  checkDomain(node, definition, args, context)
+  return checkResult(definition.evaluate(args, context), args, node, node.callee)
+}
+
+/**
+ * Evaluate an AST node
+ * @param node - Node to evaluate
+ * @param context - Evaluation settings (angle mode)
+ * @returns Numeric result
+ * @throws CalculatorError with the range of the offending node
+ */
+export const evaluateNode = (
+  node: ExpressionNode,
+  context: EvaluationContext = defaultEvaluationContext
+): number => {
+  switch (node.type) {
+    case 'number':
+      return node.value
+
+    case 'identifier': {
+      const value =
+        entryOf(builtinConstants, node.name) ??
+        resolveVariable(node, context, evaluateNode) ??
+        resolvePhysicalConstant(node, context, evaluateNode)
+      if (value === undefined) {
+        throw undefinedName(node, context)
+      }
+      return value
+    }
+
+    case 'unary': {
+      const operand = evaluateNode(node.operand, context)
+      return node.operator === '-' ? -operand : operand
+    }
+
+    case 'binary':
+      return evaluateBinary(node, context)
+
+    case 'postfix': {
+      const operand = evaluateNode(node.operand, context)
+      if (node.operator === '%') {
+        return operand / 100
+      }
+      if (!factorialDomain.test([operand], context)) {
+        throw new CalculatorError(
+          'domain',
+          `Factorial is only defined for ${factorialDomain.description}`,
+          node.operand
+        )
+      }
+      return checkResult(factorial(operand), [operand], node, 'Factorial')
+    }
+
+    case 'comparison': {
+      const left = evaluateNode(node.left, context)
+      const right = evaluateNode(node.right, context)
+      return comparisonHolds(node.operator, Math.sign(left - right)) ? 1 : 0
+    }
+
+    case 'conversion':
+      throw conversionUnavailable(node)
+
+    case 'matrix':
+      throw matrixUnavailable(node)
+
+    case 'call':
+      return evaluateCall(node, context)
+  }
+}
+
+/**
+ * Parse and evaluate an expression string in floating point
+ * @param source - Expression text
+ * @param context - Evaluation settings (angle mode)
+ * @returns Numeric result
+ * @throws CalculatorError describing the first problem found
+ */
+export const evaluateExpression = (
+  source: string,
+  context: EvaluationContext = defaultEvaluationContext
+): number => {
+  return evaluateNode(parseExpression(source), context)
+}
+
+/**
+ * Parse and evaluate an expression string without throwing
+ * @param source - Expression text
+ * @param context - Evaluation settings (angle mode, decimal precision, exact fractions, complex,
+ *   programmer word size)
+ * @returns The value and its text, or a CalculatorError bound to the source text; the value of
+ *   a complex result with an imaginary part is NaN. Floating-point evaluation understands
+ *   units and matrices: the value of `72 km/h` is 72 and its text `72 km/h`, while a matrix
+ *   has the value NaN and text such as `[1, 2; 3, 4]`. With exact fractions a result that lost
+ *   its exactness (√2) has its text marked approximate: `≈1.4142135623730951`; so does a decimal
+ *   result that needed double precision, kept to the digits a double holds: gamma(0.5) gives
+ *   `≈1.77245385090552`.
+ */
+export const tryEvaluateExpression = (
+  source: string,
+  context: EvaluationContext = defaultEvaluationContext
+): EvaluationResult => {
+  const estimates: NumericEstimate[] = []
+  const result = evaluateSource(source, { ...context, estimates })
+  return result.ok && estimates.length > 0 ? { ...result, estimates } : result
+}
+
+/**
+ * tryEvaluateExpression without collecting the estimates of calculus calls
+ */
+const evaluateSource = (source: string, context: EvaluationContext): EvaluationResult => {
+  try {
+    const node = parseExpression(source)
+    if (context.word) {
+      const result = evaluateProgrammerNode(node, context)
+      return { ok: true, value: Number(result), text: result.toString(), source }
+    }
+    if (context.complex) {
+      const result = evaluateComplexNode(node, context).snap()
+      return { ok: true, value: result.isReal() ? result.re : NaN, text: result.toString(), source }
+    }
+    if (context.fractions) {
+      const result = evaluateRationalNode(node, context)
+      return typeof result === 'number'
+        ? { ok: true, value: result, text: `${APPROXIMATE}${result}`, source }
+        : { ok: true, value: result.toNumber(), text: result.toString(), source }
+    }
+    if (context.precision !== undefined) {
+      const approximations: string[] = []
+      const decimal = evaluateDecimalNode(node, { ...context, approximations })
+      if (approximations.length === 0) {
+        return { ok: true, value: decimal.toNumber(), text: decimal.toString(), source }
+      }
+      // Digits beyond those of the double-precision parts would only look exact
+      const rounded = decimal.round(Math.min(context.precision, FLOAT_DIGITS))
+      return { ok: true, value: rounded.toNumber(), text: `${APPROXIMATE}${rounded}`, source }
+    }
+    const value = evaluateQuantityNode(node, context)
+    return {
+      ok: true,
+      value: value instanceof Matrix ? NaN : value.value,
+      text: value.toString(),
+      source,
+    }
+  } catch (error) {
+    if (isCalculatorError(error)) {
+      return { ok: false, error: error.withSource(source), source }
+    }
+    throw error
+  }
+}
@@ -0,0 +1,415 @@
+/**
+ * Expression Parser
+ * Recursive-descent parser producing a typed AST from calculator expressions
+ *
+ * Grammar (lowest to highest precedence):
+ *   expression := comparison ('to' term)?       unit conversion: 72 km/h to m/s
+ *   comparison := additive (('<' | '<=' | '>' | '>=' | '==' | '!=') additive)?
+ *   additive   := term (('+' | '-') term)*
+ *   term       := quantity (('*' | '/')? quantity)*  juxtaposition multiplies: 2x, 3(4), (a)(b)
+ *   quantity   := polar unit*                   after a number only: 10 m / 2 s = 5 m/s
+ *   unit       := polar                         a unit name, not a call: s, m^2
+ *   polar      := unary ('∠' unary)?            r∠θ, read as polar(r, θ)
+ *   unary      := ('-' | '+') unary | power
+ *   power      := postfix ('^' unary)?          right-associative
+ *   postfix    := primary ('!' | '%')*
+ *   primary    := number | imaginary | identifier | call | matrix | '(' expression ')'
+ *               | '√' postfix | '≈' '-'? number   an inexact result carried over: ≈1.414
+ *   imaginary  := number 'i'                    no space, read as number * i
+ *   call       := identifier '(' (argument (',' argument)*)? ')'
+ *   argument   := (identifier '→')? expression  limit(f, x→0) or x->0, x→0 read as →(x, 0)
+ *   matrix     := '[' row (';' row)* ']'       [1, 2; 3, 4]
+ *   row        := expression (',' expression)*
+ */
+
+import {
+  BinaryOperator,
+  ComparisonOperator,
+  ExpressionNode,
+  PostfixOperator,
+  Token,
+  UnaryOperator,
+} from '@/types/expression'
+import { tokenize } from '@/utils/expression-tokenizer'
+import { CalculatorError } from '@/utils/calculator-errors'
+import { Rational } from '@/utils/rational'
+import { isUnitName } from '@/utils/units'
+
+/**
+ * Keyword that converts a value to other units; it never starts an implied multiplication
+ */
+export const CONVERSION_KEYWORD = 'to'
+
+/**
+ * Callee of `x→a`, the point a limit approaches together with the variable that approaches it
+ */
+export const APPROACH = '→'
+
+/**
+ * Mark of an inexact result in result text (≈1.4142135623730951); exact fraction arithmetic
+ * keeps a value written with it as a float
+ */
+export const APPROXIMATE = '≈'
+
+/**
+ * Build a syntax error for a token the grammar did not expect
+ */
+const unexpectedToken = (token: Token): CalculatorError => {
+  if (token.type === 'eof') {
+    // Point at the last character so the underline stays visible
+    const start = Math.max(0, token.start - 1)
+    return new CalculatorError('syntax', 'Expression ends unexpectedly', {
+      start,
+      end: token.end,
+    })
+  }
+  return new CalculatorError('syntax', `Unexpected '${token.text}'`, token)
+}
+
+/**
+ * Double value of a repeating decimal such as 0.(3), which parseFloat does not understand
+ */
+const repeatingValue = (token: Token, raw: string): number => {
+  try {
+    return Rational.parse(raw).toNumber()
+  } catch (error) {
+    if (error instanceof RangeError) {
+      throw new CalculatorError('overflow', 'The number is too large to represent', token)
+    }
+    throw error
+  }
+}
+
+/**
+ * Parse an expression string into an AST
+ * @param source - Expression text
+ * @returns Root node of the expression tree
+ */
+export const parseExpression = (source: string): ExpressionNode => {
+  const tokens = tokenize(source)
+  let position = 0
+
+  const peek = (): Token => tokens[position]
+
+  const advance = (): Token => tokens[position++]
+
+  const isOperator = (token: Token, ...operators: string[]): boolean =>
+    token.type === 'operator' && operators.includes(token.text)
+
+  const expectClosingParen = (open: Token): Token => {
+    const token = peek()
+    if (token.type !== 'rightParen') {
+      throw token.type === 'eof'
+        ? new CalculatorError('syntax', "Missing ')' for this '('", open)
+        : unexpectedToken(token)
+    }
+    return advance()
+  }
+
+  const expectClosingBracket = (open: Token): Token => {
+    const token = peek()
+    if (token.type !== 'rightBracket') {
+      throw token.type === 'eof'
+        ? new CalculatorError('syntax', "Missing ']' for this '['", open)
+        : unexpectedToken(token)
+    }
+    return advance()
+  }
+
+  const parseConversion = (): ExpressionNode => {
+    const value = parseComparison()
+    const token = peek()
+    if (token.type !== 'identifier' || token.text !== CONVERSION_KEYWORD) {
+      return value
+    }
+    advance()
+    const unit = parseTerm()
+    return { type: 'conversion', value, unit, start: value.start, end: unit.end }
+  }
+
+  const parseComparison = (): ExpressionNode => {
+    const left = parseAdditive()
+    if (!isOperator(peek(), '<', '<=', '>', '>=', '==', '!=')) {
+      return left
+    }
+    const operator = advance().text as ComparisonOperator
+    const right = parseAdditive()
+    return { type: 'comparison', operator, left, right, start: left.start, end: right.end }
+  }
+
+  const parseAdditive = (): ExpressionNode => {
+    let left = parseTerm()
+    while (isOperator(peek(), '+', '-')) {
+      const operator = advance().text as BinaryOperator
+      const right = parseTerm()
+      left = { type: 'binary', operator, left, right, start: left.start, end: right.end }
+    }
+    return left
+  }
+
+  const parseTerm = (): ExpressionNode => {
+    let left = parseQuantity()
+    for (;;) {
+      const token = peek()
+      // A name, '(', '[' or '√' right after an operand is an implied multiplication; two
+      // numbers in a row stay a syntax error
+      const implied =
+        (token.type === 'identifier' && token.text !== CONVERSION_KEYWORD) ||
+        token.type === 'leftParen' ||
+        token.type === 'leftBracket' ||
+        isOperator(token, '√')
+      if (!implied && !isOperator(token, '*', '/')) {
+        return left
+      }
+      const operator = implied ? '*' : (advance().text as BinaryOperator)
+      const right = parseQuantity()
+      left = { type: 'binary', operator, left, right, start: left.start, end: right.end }
+    }
+  }
+
+  /**
+   * A number and the units that follow it bind tighter than '*' and '/', so 10 m / 2 s
+   * divides by 2 s; a unit name followed by '(' is a call, as in min(1, 2)
+   */
+  const parseQuantity = (): ExpressionNode => {
+    let quantity = parsePolar()
+    const number =
+      quantity.type === 'number' ||
+      (quantity.type === 'unary' && quantity.operand.type === 'number')
+    if (!number) {
+      return quantity
+    }
+    for (;;) {
+      const token = peek()
+      const unit =
+        token.type === 'identifier' &&
+        isUnitName(token.text) &&
+        tokens[position + 1].type !== 'leftParen'
+      if (!unit) {
+        return quantity
+      }
+      const right = parsePolar()
+      quantity = {
+        type: 'binary',
+        operator: '*',
+        left: quantity,
+        right,
+        start: quantity.start,
+        end: right.end,
+      }
+    }
+  }
+
+  const parsePolar = (): ExpressionNode => {
+    const modulus = parseUnary()
+    if (!isOperator(peek(), '∠')) {
+      return modulus
+    }
+    advance()
+    const angle = parseUnary()
+    return {
+      type: 'call',
+      callee: 'polar',
+      args: [modulus, angle],
+      start: modulus.start,
+      end: angle.end,
+    }
+  }
+
+  const parseUnary = (): ExpressionNode => {
+    const token = peek()
+    if (isOperator(token, '-', '+')) {
+      advance()
+      const operand = parseUnary()
+      return {
+        type: 'unary',
+        operator: token.text as UnaryOperator,
+        operand,
+        start: token.start,
+        end: operand.end,
+      }
+    }
+    return parsePower()
+  }
+
+  const parsePower = (): ExpressionNode => {
+    const base = parsePostfix()
+    if (isOperator(peek(), '^')) {
+      advance()
+      // Exponent may carry its own sign (2^-3) and chains to the right (2^3^2 = 2^9)
+      const exponent = parseUnary()
+      return {
+        type: 'binary',
+        operator: '^',
+        left: base,
+        right: exponent,
+        start: base.start,
+        end: exponent.end,
+      }
+    }
+    return base
+  }
+
+  const parsePostfix = (): ExpressionNode => {
+    let operand = parsePrimary()
+    while (isOperator(peek(), '!', '%')) {
+      const token = advance()
+      operand = {
+        type: 'postfix',
+        operator: token.text as PostfixOperator,
+        operand,
+        start: operand.start,
+        end: token.end,
+      }
+    }
+    return operand
+  }
+
+  const parseArgument = (): ExpressionNode => {
+    const token = peek()
+    if (token.type !== 'identifier' || !isOperator(tokens[position + 1], APPROACH)) {
+      return parseConversion()
+    }
+    advance()
+    advance()
+    const variable: ExpressionNode = {
+      type: 'identifier',
+      name: token.text,
+      start: token.start,
+      end: token.end,
+    }
+    const point = parseConversion()
+    return {
+      type: 'call',
+      callee: APPROACH,
+      args: [variable, point],
+      start: token.start,
+      end: point.end,
+    }
+  }
+
+  const parseArguments = (): ExpressionNode[] => {
+    const args: ExpressionNode[] = []
+    if (peek().type === 'rightParen') return args
+
+    args.push(parseArgument())
+    while (peek().type === 'comma') {
+      advance()
+      args.push(parseArgument())
+    }
+    return args
+  }
+
+  const parseMatrix = (open: Token): ExpressionNode => {
+    const rows: ExpressionNode[][] = []
+    for (;;) {
+      const row = [parseConversion()]
+      while (peek().type === 'comma') {
+        advance()
+        row.push(parseConversion())
+      }
+      rows.push(row)
+      if (peek().type !== 'semicolon') break
+      advance()
+    }
+    const close = expectClosingBracket(open)
+    return { type: 'matrix', rows, start: open.start, end: close.end }
+  }
+
+  const parsePrimary = (): ExpressionNode => {
+    const token = peek()
+
+    if (token.type === 'number') {
+      advance()
+      // Based literals (0xFF) are kept as decimal digits so every arithmetic reads them
+      const raw = /^0[a-z]/i.test(token.text) ? BigInt(token.text).toString() : token.text
+      const number: ExpressionNode = {
+        type: 'number',
+        value: raw.includes('(') ? repeatingValue(token, raw) : parseFloat(raw),
+        raw,
+        start: token.start,
+        end: token.end,
+      }
+      // An imaginary literal such as 4i is the number times the constant i
+      const suffix = peek()
+      if (suffix.type === 'identifier' && suffix.text === 'i' && suffix.start === token.end) {
+        advance()
+        const unit: ExpressionNode = {
+          type: 'identifier',
+          name: 'i',
+          start: suffix.start,
+          end: suffix.end,
+        }
+        return {
+          type: 'binary',
+          operator: '*',
+          left: number,
+          right: unit,
+          start: token.start,
+          end: suffix.end,
+        }
+      }
+      return number
+    }
+
+    if (token.type === 'identifier') {
+      advance()
+      if (peek().type === 'leftParen') {
+        const open = advance()
+        const args = parseArguments()
+        const close = expectClosingParen(open)
+        return { type: 'call', callee: token.text, args, start: token.start, end: close.end }
+      }
+      return { type: 'identifier', name: token.text, start: token.start, end: token.end }
+    }
+
+    if (token.type === 'leftParen') {
+      advance()
+      const inner = parseConversion()
+      const close = expectClosingParen(token)
+      // Widen the range so the node covers its parentheses
+      return { ...inner, start: token.start, end: close.end }
+    }
+
+    if (token.type === 'leftBracket') {
+      advance()
+      return parseMatrix(token)
+    }
+
+    if (isOperator(token, APPROXIMATE)) {
+      advance()
+      const sign = isOperator(peek(), '-') ? advance() : null
+      const literal = peek()
+      if (literal.type !== 'number' || /^0[xob]/i.test(literal.text)) {
+        throw unexpectedToken(literal)
+      }
+      advance()
+      const number: ExpressionNode = {
+        type: 'number',
+        value: parseFloat(literal.text),
+        raw: literal.text,
+        approximate: true,
+        start: token.start,
+        end: literal.end,
+      }
+      return sign
+        ? { type: 'unary', operator: '-', operand: number, start: token.start, end: literal.end }
+        : number
+    }
+
+    if (isOperator(token, '√')) {
+      advance()
+      const operand = parsePostfix()
+      return { type: 'call', callee: 'sqrt', args: [operand], start: token.start, end: operand.end }
+    }
+
+    throw unexpectedToken(token)
+  }
+
+  const root = parseConversion()
+  const trailing = peek()
+  if (trailing.type !== 'eof') {
+    throw unexpectedToken(trailing)
+  }
+  return root
+}
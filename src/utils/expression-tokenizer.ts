@@ -0,0 +1,180 @@
+/**
+ * Expression Tokenizer
+ * Splits an expression string into typed tokens with source positions
+ */
+
+import { Token } from '@/types/expression'
+import { CalculatorError } from '@/utils/calculator-errors'
+
+/**
+ * Typographic symbols accepted as aliases for ASCII operators
+ */
+const operatorAliases: Record<string, string> = {
+  '×': '*',
+  '·': '*',
+  '÷': '/',
+  '−': '-',
+}
+
+const operatorChars = new Set(['+', '-', '*', '/', '^', '!', '%', '√', '∠', '→', '≈', '<', '>'])
+
+/**
+ * Two-character comparison operators, and the symbols accepted for them
+ */
+const comparisonOperators = new Set(['<=', '>=', '==', '!='])
+const comparisonAliases: Record<string, string> = { '≤': '<=', '≥': '>=', '≠': '!=' }
+
+const isDigit = (char: string): boolean => char >= '0' && char <= '9'
+
+/**
+ * Letters, digits, underscore and Greek; the micro sign µ is allowed for units such as µs
+ */
+const isIdentifierStart = (char: string): boolean => /[A-Za-z_\u00B5\u0370-\u03FF]/.test(char)
+
+const isIdentifierPart = (char: string): boolean => /[A-Za-z0-9_\u00B5\u0370-\u03FF]/.test(char)
+
+const BASED_LITERAL = /^0(x[\da-f]+|o[0-7]+|b[01]+)/i
+
+/**
+ * Read a numeric literal starting at `start`
+ * Accepts integers, decimals (`.5`, `2.`), repeating decimals (`0.1(6)`) and scientific
+ * notation (`1.5e-3`)
+ */
+const readNumber = (source: string, start: number): number => {
+  let i = start
+  while (i < source.length && isDigit(source[i])) i++
+  if (source[i] === '.') {
+    i++
+    while (i < source.length && isDigit(source[i])) i++
+
+    // A parenthesised digit block right after the fraction digits repeats forever
+    const repeating = /^\(\d+\)/.exec(source.slice(i))
+    if (repeating) i += repeating[0].length
+  }
+
+  // Only treat `e` as an exponent marker when digits follow, so `2e` stays `2 * e`
+  if (source[i] === 'e' || source[i] === 'E') {
+    let j = i + 1
+    if (source[j] === '+' || source[j] === '-') j++
+    if (isDigit(source[j] ?? '')) {
+      while (j < source.length && isDigit(source[j])) j++
+      i = j
+    }
+  }
+
+  return i
+}
+
+/**
+ * Convert an expression into a list of tokens terminated by an `eof` token
+ * @param source - Expression text
+ * @returns Array of tokens
+ */
+export const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = []
+  let i = 0
+
+  while (i < source.length) {
+    const char = source[i]
+
+    if (/\s/.test(char)) {
+      i++
+      continue
+    }
+
+    // Hexadecimal, octal and binary literals: 0xFF, 0o17, 0b1010
+    const based = char === '0' ? BASED_LITERAL.exec(source.slice(i)) : null
+    if (based) {
+      const end = i + based[0].length
+      tokens.push({ type: 'number', text: based[0], start: i, end })
+      i = end
+      continue
+    }
+
+    if (isDigit(char) || (char === '.' && isDigit(source[i + 1] ?? ''))) {
+      const end = readNumber(source, i)
+      tokens.push({ type: 'number', text: source.slice(i, end), start: i, end })
+      i = end
+      continue
+    }
+
+    if (isIdentifierStart(char)) {
+      let end = i + 1
+      while (end < source.length && isIdentifierPart(source[end])) end++
+      tokens.push({ type: 'identifier', text: source.slice(i, end), start: i, end })
+      i = end
+      continue
+    }
+
+    if (char === '*' && source[i + 1] === '*') {
+      tokens.push({ type: 'operator', text: '^', start: i, end: i + 2 })
+      i += 2
+      continue
+    }
+
+    const pair = source.slice(i, i + 2)
+    if (pair === '->') {
+      tokens.push({ type: 'operator', text: '→', start: i, end: i + 2 })
+      i += 2
+      continue
+    }
+    if (comparisonOperators.has(pair)) {
+      tokens.push({ type: 'operator', text: pair, start: i, end: i + 2 })
+      i += 2
+      continue
+    }
+    if (char in comparisonAliases) {
+      tokens.push({ type: 'operator', text: comparisonAliases[char], start: i, end: i + 1 })
+      i++
+      continue
+    }
+
+    const operator = operatorAliases[char] ?? char
+    if (operatorChars.has(operator)) {
+      tokens.push({ type: 'operator', text: operator, start: i, end: i + 1 })
+      i++
+      continue
+    }
+
+    if (char === '(' || char === ')') {
+      tokens.push({
+        type: char === '(' ? 'leftParen' : 'rightParen',
+        text: char,
+        start: i,
+        end: i + 1,
+      })
+      i++
+      continue
+    }
+
+    if (char === '[' || char === ']') {
+      tokens.push({
+        type: char === '[' ? 'leftBracket' : 'rightBracket',
+        text: char,
+        start: i,
+        end: i + 1,
+      })
+      i++
+      continue
+    }
+
+    if (char === ',' || char === ';') {
+      tokens.push({
+        type: char === ',' ? 'comma' : 'semicolon',
+        text: char,
+        start: i,
+        end: i + 1,
+      })
+      i++
+      continue
+    }
+
+    throw new CalculatorError('syntax', `Unexpected character '${char}'`, {
+      start: i,
+      end: i + 1,
+    })
+  }
+
+  tokens.push({ type: 'eof', text: '', start: source.length, end: source.length })
+  return tokens
+}
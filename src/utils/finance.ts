@@ -0,0 +1,361 @@
+/**
+ * Finance
+ * Time value of money with the cash-flow sign convention of financial calculators: money
+ * received is positive and money paid out negative, so a loan has a positive PV and negative
+ * payments. The N, I/Y, PV, PMT and FV variables balance when
+ *
+ *   PV (1 + i)^N + PMT (1 + i b) ((1 + i)^N − 1) / i + FV = 0
+ *
+ * for the periodic rate i (from the nominal annual rate I/Y and the payment and compounding
+ * frequencies) and b = 1 for payments at the beginning of periods. Also amortization
+ * schedules with CSV and JSON export, net present value, internal rate of return and
+ * percentage change.
+ */
+
+export type TvmVariable = 'n' | 'iy' | 'pv' | 'pmt' | 'fv'
+
+export type PaymentTiming = 'end' | 'begin'
+
+export interface TvmSettings {
+  /** Payments per year (P/Y) */
+  paymentsPerYear: number
+  /** Compounding periods per year (C/Y) */
+  compoundingsPerYear: number
+  timing: PaymentTiming
+}
+
+export type TvmValues = Record<TvmVariable, number>
+
+export type TvmResult = { ok: true; value: number } | { ok: false; message: string }
+
+/**
+ * The variables in register order, with their keypad labels
+ */
+export const tvmVariables: { variable: TvmVariable; label: string; description: string }[] = [
+  { variable: 'n', label: 'N', description: 'Number of payment periods' },
+  { variable: 'iy', label: 'I/Y', description: 'Nominal annual interest rate, percent' },
+  { variable: 'pv', label: 'PV', description: 'Present value' },
+  { variable: 'pmt', label: 'PMT', description: 'Payment per period' },
+  { variable: 'fv', label: 'FV', description: 'Future value' },
+]
+
+export const DEFAULT_TVM_SETTINGS: TvmSettings = {
+  paymentsPerYear: 1,
+  compoundingsPerYear: 1,
+  timing: 'end',
+}
+
+/**
+ * Interest rate per payment period from the nominal annual rate in percent
+ */
+export const periodicRate = (iy: number, settings: TvmSettings): number => {
+  const { paymentsPerYear: p, compoundingsPerYear: c } = settings
+  return Math.expm1((c / p) * Math.log1p(iy / 100 / c))
+}
+
+/**
+ * Nominal annual rate in percent from the interest rate per payment period
+ */
+export const nominalRate = (i: number, settings: TvmSettings): number => {
+  const { paymentsPerYear: p, compoundingsPerYear: c } = settings
+  return 100 * c * Math.expm1((p / c) * Math.log1p(i))
+}
+
+/**
+ * (1 + i)^n and the annuity factor ((1 + i)^n − 1) / i, which is n at i = 0
+ */
+const growth = (i: number, n: number): { factor: number; annuity: number } => {
+  const factor = Math.exp(n * Math.log1p(i))
+  return { factor, annuity: i === 0 ? n : Math.expm1(n * Math.log1p(i)) / i }
+}
+
+/**
+ * Rates searched for a sign change, nearest zero first; (-1, ∞) holds every periodic rate
+ */
+const RATE_GRID = [
+  0, 1e-4, -1e-4, 1e-3, -1e-3, 0.01, -0.01, 0.05, -0.05, 0.1, -0.1, 0.2, -0.2, 0.5, -0.5, 1, -0.9,
+  2, -0.99, 5, -0.999, 10, -0.9999, 100, -0.999999, 1e4,
+]
+
+const BISECTION_STEPS = 200
+
+/**
+ * Rate at which `f` is zero, found between the grid rates nearest zero where it changes sign
+ * and narrowed by bisection to the precision of a double
+ * @returns NaN when no sign change is found
+ */
+const findRate = (f: (rate: number) => number): number => {
+  const ordered = [...RATE_GRID].sort((a, b) => a - b)
+  const brackets = ordered
+    .slice(1)
+    .map((high, k) => [ordered[k], high])
+    .sort((a, b) => Math.min(...a.map(Math.abs)) - Math.min(...b.map(Math.abs)))
+
+  for (const [start, end] of brackets) {
+    let [low, high] = [start, end]
+    let fLow = f(low)
+    const fHigh = f(high)
+    if (fLow === 0) return low
+    if (fHigh === 0) return high
+    if (Math.sign(fLow) === Math.sign(fHigh) || !isFinite(fLow) || !isFinite(fHigh)) continue
+
+    for (let step = 0; step < BISECTION_STEPS; step++) {
+      const middle = (low + high) / 2
+      if (middle === low || middle === high) break
+      const fMiddle = f(middle)
+      if (fMiddle === 0) return middle
+      if (Math.sign(fMiddle) === Math.sign(fLow)) {
+        low = middle
+        fLow = fMiddle
+      } else {
+        high = middle
+      }
+    }
+    return Math.abs(f(low)) <= Math.abs(f(high)) ? low : high
+  }
+  return NaN
+}
+
+/**
+ * Solve the time-value-of-money equation for one variable from the other four
+ * @param values - The known variables; the value given for the unknown is ignored
+ * @returns The value, or a message saying why the others cannot be balanced
+ */
+export const solveTvm = (
+  unknown: TvmVariable,
+  values: TvmValues,
+  settings: TvmSettings = DEFAULT_TVM_SETTINGS
+): TvmResult => {
+  const fail = (message: string): TvmResult => ({ ok: false, message })
+  const { paymentsPerYear, compoundingsPerYear } = settings
+  if (!(paymentsPerYear > 0 && compoundingsPerYear > 0)) {
+    return fail('Payments and compoundings per year need to be positive')
+  }
+  const known = tvmVariables.filter(({ variable }) => variable !== unknown)
+  if (known.some(({ variable }) => !isFinite(values[variable]))) {
+    return fail('N, I/Y, PV, PMT and FV need to be finite numbers')
+  }
+  if (unknown !== 'iy' && values.iy / 100 / compoundingsPerYear <= -1) {
+    return fail('I/Y is below −100% per compounding period')
+  }
+
+  const { n, pv, pmt, fv } = values
+  const begin = settings.timing === 'begin' ? 1 : 0
+  const result = (value: number): TvmResult =>
+    isFinite(value) ? { ok: true, value } : fail('The result is too large to represent')
+
+  if (unknown === 'iy') {
+    const balance = (i: number) => {
+      const { factor, annuity } = growth(i, n)
+      return pv * factor + pmt * (1 + i * begin) * annuity + fv
+    }
+    const i = findRate(balance)
+    if (isNaN(i)) {
+      return fail('No interest rate balances these cash flows; they need both signs')
+    }
+    return result(nominalRate(i, settings))
+  }
+
+  const i = periodicRate(values.iy, settings)
+  const timing = 1 + i * begin
+  const { factor, annuity } = growth(i, n)
+  switch (unknown) {
+    case 'pv':
+      return result(-(fv + pmt * timing * annuity) / factor)
+    case 'fv':
+      return result(-(pv * factor + pmt * timing * annuity))
+    case 'pmt':
+      if (annuity === 0) {
+        return fail('Payments need a non-zero number of periods')
+      }
+      return result(-(pv * factor + fv) / (timing * annuity))
+    case 'n': {
+      if (i === 0) {
+        return pmt === 0
+          ? fail('Without interest, N needs a non-zero payment')
+          : result(-(pv + fv) / pmt)
+      }
+      // PV (1 + i)^N (PMT b' + PV i) = PMT b' − FV i, with b' = 1 + i b
+      const ratio = (pmt * timing - fv * i) / (pmt * timing + pv * i)
+      if (!(ratio > 0)) {
+        return fail('No number of periods balances these cash flows')
+      }
+      return result(Math.log(ratio) / Math.log1p(i))
+    }
+  }
+}
+
+/**
+ * Net present value at `rate` percent per period of cash flows CF0, CF1, ..., the first at
+ * time zero
+ */
+export const netPresentValue = (rate: number, cashFlows: number[]): number =>
+  cashFlows.reduce((total, cashFlow, k) => total + cashFlow * Math.pow(1 + rate / 100, -k), 0)
+
+/**
+ * Internal rate of return in percent per period: the rate at which the net present value of
+ * the cash flows is zero
+ * @returns NaN when no rate does, e.g. when every cash flow has the same sign
+ */
+export const internalRateOfReturn = (cashFlows: number[]): number => {
+  const rate = findRate(r => netPresentValue(100 * r, cashFlows))
+  return 100 * rate
+}
+
+/**
+ * Percentage change from `from` to `to`: 50 → 75 is 50%
+ */
+export const percentChange = (from: number, to: number): number => ((to - from) / from) * 100
+
+/**
+ * One period of an amortization schedule, in the sign convention of the registers: with a
+ * positive PV, payments, interest and principal are negative and the balance stays positive
+ */
+export interface AmortizationRow {
+  period: number
+  /** Scheduled payment plus the extra payment */
+  payment: number
+  extra: number
+  interest: number
+  principal: number
+  /** Balance after the period */
+  balance: number
+}
+
+export interface AmortizationSchedule {
+  rows: AmortizationRow[]
+  totals: { payment: number; extra: number; interest: number; principal: number }
+}
+
+export type AmortizationResult =
+  | { ok: true; schedule: AmortizationSchedule }
+  | { ok: false; message: string }
+
+/**
+ * Longest schedule generated: a century of monthly payments
+ */
+export const MAX_AMORTIZATION_PERIODS = 1200
+
+/**
+ * Columns of the schedule in table and export order
+ */
+export const amortizationColumns: { key: keyof AmortizationRow; label: string }[] = [
+  { key: 'period', label: 'Period' },
+  { key: 'payment', label: 'Payment' },
+  { key: 'extra', label: 'Extra' },
+  { key: 'interest', label: 'Interest' },
+  { key: 'principal', label: 'Principal' },
+  { key: 'balance', label: 'Balance' },
+]
+
+/**
+ * Split each payment of a loan (or investment) into interest and principal, period by period
+ * over N periods rounded up. An extra payment, with the sign of PMT, goes to principal every
+ * period; once the balance is paid off the last payment is reduced to what is owed and the
+ * schedule ends early.
+ * @param values - The TVM registers; FV is not used, so a balloon remains as the last balance
+ * @param extra - Extra payment per period
+ */
+export const amortizationSchedule = (
+  values: TvmValues,
+  settings: TvmSettings = DEFAULT_TVM_SETTINGS,
+  extra: number = 0
+): AmortizationResult => {
+  const fail = (message: string): AmortizationResult => ({ ok: false, message })
+  const { n, iy, pv, pmt } = values
+  if (![n, iy, pv, pmt, extra].every(isFinite)) {
+    return fail('N, I/Y, PV, PMT and the extra payment need to be finite numbers')
+  }
+  const periods = Math.ceil(n - 1e-9)
+  if (!(periods >= 1 && periods <= MAX_AMORTIZATION_PERIODS)) {
+    return fail(`A schedule has 1 to ${MAX_AMORTIZATION_PERIODS} periods`)
+  }
+  if (!(settings.paymentsPerYear > 0 && settings.compoundingsPerYear > 0)) {
+    return fail('Payments and compoundings per year need to be positive')
+  }
+
+  const i = periodicRate(iy, settings)
+  const begin = settings.timing === 'begin' ? 1 : 0
+  const rows: AmortizationRow[] = []
+  let balance = pv
+  for (let period = 1; period <= periods; period++) {
+    let payment = pmt + extra
+    // Interest accrues on the balance left after a payment at the beginning of the period
+    const accrued = (paid: number) => -(balance + paid * begin) * i
+    // A payment that would overshoot (change the sign of the balance) settles it instead
+    const overshoot = balance * (balance + payment - accrued(payment)) < 0
+    if (overshoot) {
+      payment = (-balance * (1 + i)) / (1 + i * begin)
+    }
+    const interest = accrued(payment)
+    const principal = payment - interest
+    const next = balance + principal
+    balance = overshoot || Math.abs(next) < 1e-9 * Math.abs(pv) ? 0 : next
+    const scheduled = Math.abs(payment) < Math.abs(pmt) ? payment : pmt
+    rows.push({ period, payment, extra: payment - scheduled, interest, principal, balance })
+    if (balance === 0) break
+  }
+
+  const total = (key: 'payment' | 'extra' | 'interest' | 'principal') =>
+    rows.reduce((sum, row) => sum + row[key], 0)
+  return {
+    ok: true,
+    schedule: {
+      rows,
+      totals: {
+        payment: total('payment'),
+        extra: total('extra'),
+        interest: total('interest'),
+        principal: total('principal'),
+      },
+    },
+  }
+}
+
+/**
+ * Amount with a fixed number of decimals, without a negative zero (-0.00)
+ */
+export const formatAmount = (value: number, decimals: number = 2): string => {
+  const text = value.toFixed(decimals)
+  return /^-0\.?0*$/.test(text) ? text.slice(1) : text
+}
+
+/**
+ * The schedule as CSV with a heading row and a closing row of totals, amounts rounded to
+ * `decimals` places, ready to paste into a spreadsheet
+ */
+export const amortizationCsv = (schedule: AmortizationSchedule, decimals: number = 2): string => {
+  const { totals } = schedule
+  const lines = [
+    amortizationColumns.map(column => column.label),
+    ...schedule.rows.map(row =>
+      amortizationColumns.map(({ key }) =>
+        key === 'period' ? String(row.period) : formatAmount(row[key], decimals)
+      )
+    ),
+    [
+      'Total',
+      ...[totals.payment, totals.extra, totals.interest, totals.principal].map(total =>
+        formatAmount(total, decimals)
+      ),
+      '',
+    ],
+  ]
+  return lines.map(cells => cells.join(',')).join('\n') + '\n'
+}
+
+/**
+ * The schedule as JSON, `{ rows, totals }`, amounts rounded to `decimals` places
+ */
+export const amortizationJson = (schedule: AmortizationSchedule, decimals: number = 2): string => {
+  const round = (value: number) => Number(formatAmount(value, decimals))
+  const rounded = <T extends object>(record: T): T =>
+    Object.fromEntries(
+      Object.entries(record).map(([key, value]) => [key, key === 'period' ? value : round(value)])
+    ) as T
+  return JSON.stringify(
+    { rows: schedule.rows.map(rounded), totals: rounded(schedule.totals) },
+    null,
+    2
+  )
+}
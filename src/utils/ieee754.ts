@@ -0,0 +1,131 @@
+/**
+ * IEEE-754 Floating Point
+ * Bit-level view of binary32 (float32) and binary64 (float64) values: the sign, biased
+ * exponent and mantissa fields, the hex encoding, the class of the value and the spacing of
+ * representable values (ULP) at it
+ */
+
+export type FloatFormat = 'float32' | 'float64'
+
+export interface FloatLayout {
+  bits: 32 | 64
+  exponentBits: number
+  mantissaBits: number
+  /** Stored exponent of 1.0 */
+  bias: number
+}
+
+export const floatLayouts: Record<FloatFormat, FloatLayout> = {
+  float32: { bits: 32, exponentBits: 8, mantissaBits: 23, bias: 127 },
+  float64: { bits: 64, exponentBits: 11, mantissaBits: 52, bias: 1023 },
+}
+
+export type FloatClass = 'zero' | 'subnormal' | 'normal' | 'infinite' | 'nan'
+
+export interface FloatInspection {
+  format: FloatFormat
+  /** The encoding as an unsigned integer */
+  bits: bigint
+  /** The value encoded; float32 values are exact in a number */
+  value: number
+  /** All digits of the encoding: 0x3F800000 */
+  hex: string
+  sign: 0 | 1
+  /** Stored (biased) exponent field */
+  exponent: number
+  /** Stored fraction field, without the implicit leading 1 of normal values */
+  mantissa: bigint
+  kind: FloatClass
+  /** e in ±1.m × 2^e, or in ±0.m × 2^e for zero and subnormals; null for infinities and NaN */
+  power: number | null
+  /** Distance to the next representable value of greater magnitude; NaN for infinities and NaN */
+  ulp: number
+}
+
+/**
+ * Encoding of a number, rounded to the nearest float32 for float32
+ */
+export const encodeFloat = (value: number, format: FloatFormat): bigint => {
+  const view = new DataView(new ArrayBuffer(8))
+  if (format === 'float32') {
+    view.setFloat32(0, value)
+    return BigInt(view.getUint32(0))
+  }
+  view.setFloat64(0, value)
+  return view.getBigUint64(0)
+}
+
+/**
+ * Value of an encoding; bits beyond the format's width are ignored
+ */
+export const decodeFloat = (bits: bigint, format: FloatFormat): number => {
+  const view = new DataView(new ArrayBuffer(8))
+  if (format === 'float32') {
+    view.setUint32(0, Number(BigInt.asUintN(32, bits)))
+    return view.getFloat32(0)
+  }
+  view.setBigUint64(0, BigInt.asUintN(64, bits))
+  return view.getFloat64(0)
+}
+
+/**
+ * Field a bit of the encoding belongs to, 0 being the least significant mantissa bit
+ */
+export const bitField = (bit: number, format: FloatFormat): 'sign' | 'exponent' | 'mantissa' => {
+  const layout = floatLayouts[format]
+  return bit === layout.bits - 1 ? 'sign' : bit >= layout.mantissaBits ? 'exponent' : 'mantissa'
+}
+
+/**
+ * Take an encoding apart
+ */
+export const inspectFloat = (bits: bigint, format: FloatFormat): FloatInspection => {
+  const layout = floatLayouts[format]
+  const encoding = BigInt.asUintN(layout.bits, bits)
+  const mantissa = encoding & ((1n << BigInt(layout.mantissaBits)) - 1n)
+  const exponent = Number(
+    (encoding >> BigInt(layout.mantissaBits)) & ((1n << BigInt(layout.exponentBits)) - 1n)
+  )
+  const special = exponent === 2 ** layout.exponentBits - 1
+  const kind: FloatClass = special
+    ? mantissa === 0n
+      ? 'infinite'
+      : 'nan'
+    : exponent === 0
+      ? mantissa === 0n
+        ? 'zero'
+        : 'subnormal'
+      : 'normal'
+  // Subnormals share the smallest normal exponent, with a leading 0 instead of 1
+  const power = special ? null : Math.max(exponent, 1) - layout.bias
+
+  return {
+    format,
+    bits: encoding,
+    value: decodeFloat(encoding, format),
+    hex:
+      '0x' +
+      encoding
+        .toString(16)
+        .toUpperCase()
+        .padStart(layout.bits / 4, '0'),
+    sign: encoding >> BigInt(layout.bits - 1) ? 1 : 0,
+    exponent,
+    mantissa,
+    kind,
+    power,
+    ulp: power === null ? NaN : 2 ** (power - layout.mantissaBits),
+  }
+}
+
+/**
+ * The next representable value of greater magnitude: the value plus one ULP, or ±Infinity
+ * after the largest finite value
+ */
+export const nextFloat = (bits: bigint, format: FloatFormat): number => {
+  const inspection = inspectFloat(bits, format)
+  if (inspection.power === null) {
+    return inspection.value
+  }
+  return decodeFloat(inspection.bits + 1n, format)
+}
@@ -4,6 +4,8 @@
  */
 
 import { KeyboardLayout, ButtonGroup, CalculatorButton, ButtonType } from '@/types/calculator'
+import { UserFunction } from '@/types/expression'
+import { PhysicalConstant } from '@/utils/physical-constants'
 
 /**
  * Create a custom keyboard layout
@@ -50,6 +52,33 @@ export const createButton = (
   }
 }
 
+/**
+ * Create a button for a user-defined function; one-argument functions act like function keys
+ * and two-argument ones like operators (`2 f 3` → `f(2, 3)`)
+ */
+export const createFunctionButton = (
+  definition: UserFunction,
+  options?: { label?: string; shortcut?: string; color?: CalculatorButton['color'] }
+): CalculatorButton =>
+  createButton(options?.label ?? definition.name, definition.name, 'function', {
+    shortcut: options?.shortcut,
+    description: `${definition.name}(${definition.params.join(', ')}) = ${definition.body}`,
+    color: options?.color,
+  })
+
+/**
+ * Create a key for a physical constant, labelled with its symbol and pressed by its name
+ */
+export const createConstantButton = (
+  constant: PhysicalConstant,
+  options?: { label?: string; shortcut?: string; color?: CalculatorButton['color'] }
+): CalculatorButton =>
+  createButton(options?.label ?? constant.symbol, constant.name, 'constant', {
+    shortcut: options?.shortcut,
+    description: `${constant.description} (${constant.value}${constant.unit ? ` ${constant.unit}` : ''})`,
+    color: options?.color,
+  })
+
 /**
  * Merge multiple layouts into one
  */
@@ -67,6 +96,23 @@ export const mergeLayouts = (layouts: KeyboardLayout[]): KeyboardLayout => {
   }
 }
 
+/**
+ * Layout with keys swapped in while a shift such as HYP is active: each button whose value
+ * `shifted` has an entry for takes that entry's label, value and description
+ */
+export const shiftLayout = (
+  layout: KeyboardLayout,
+  shifted: Record<string, Pick<CalculatorButton, 'label' | 'value' | 'description'>>
+): KeyboardLayout => ({
+  ...layout,
+  groups: layout.groups.map(group => ({
+    ...group,
+    buttons: group.buttons.map(button =>
+      button.value in shifted ? { ...button, ...shifted[button.value] } : button
+    ),
+  })),
+})
+
 /**
  * Filter buttons by type
  */
@@ -141,19 +187,23 @@ export const createMinimalLayout = (): KeyboardLayout => {
  * Create a programmer-focused layout
  */
 export const createProgrammerLayout = (): KeyboardLayout => {
+  const digit = (label: string): CalculatorButton => ({ label, value: label, type: 'number' })
   return {
     name: 'Programmer',
-    description: 'Layout for programming with bitwise operations',
+    description:
+      'Integers of 8 to 64 bits in hex, decimal, octal or binary with bitwise operations',
     groups: [
       {
         name: 'Bitwise Operations',
         buttons: [
-          { label: 'AND', value: 'and', type: 'function', description: 'Bitwise AND' },
-          { label: 'OR', value: 'or', type: 'function', description: 'Bitwise OR' },
-          { label: 'XOR', value: 'xor', type: 'function', description: 'Bitwise XOR' },
+          { label: 'AND', value: 'and', type: 'operator', description: 'Bitwise AND' },
+          { label: 'OR', value: 'or', type: 'operator', description: 'Bitwise OR' },
+          { label: 'XOR', value: 'xor', type: 'operator', description: 'Bitwise XOR' },
           { label: 'NOT', value: 'not', type: 'function', description: 'Bitwise NOT' },
-          { label: '<<', value: 'lshift', type: 'function', description: 'Left shift' },
-          { label: '>>', value: 'rshift', type: 'function', description: 'Right shift' },
+          { label: '<<', value: 'lshift', type: 'operator', description: 'Left shift' },
+          { label: '>>', value: 'rshift', type: 'operator', description: 'Right shift' },
+          { label: 'ROL', value: 'rol', type: 'operator', description: 'Rotate left' },
+          { label: 'ROR', value: 'ror', type: 'operator', description: 'Rotate right' },
         ],
       },
       {
@@ -165,6 +215,31 @@ export const createProgrammerLayout = (): KeyboardLayout => {
           { label: 'BIN', value: 'bin', type: 'function', description: 'Binary' },
         ],
       },
+      {
+        name: 'Hex Digits',
+        buttons: ['A', 'B', 'C', 'D', 'E', 'F'].map(digit),
+      },
+      {
+        name: 'Numbers',
+        buttons: [
+          ...['7', '8', '9', '4', '5', '6', '1', '2', '3', '0'].map(digit),
+          { label: '±', value: 'toggle', type: 'utility' },
+        ],
+      },
+      {
+        name: 'Operations',
+        buttons: [
+          { label: '+', value: '+', type: 'operator' },
+          { label: '−', value: '-', type: 'operator' },
+          { label: '×', value: '*', type: 'operator' },
+          { label: '÷', value: '/', type: 'operator', description: 'Division toward zero' },
+          { label: '(', value: '(', type: 'operator' },
+          { label: ')', value: ')', type: 'operator' },
+          { label: '=', value: '=', type: 'utility', color: 'primary' },
+          { label: '←', value: 'backspace', type: 'utility' },
+          { label: 'C', value: 'clear', type: 'utility', color: 'danger' },
+        ],
+      },
     ],
   }
 }
@@ -173,19 +248,364 @@ export const createProgrammerLayout = (): KeyboardLayout => {
  * Create a finance/business calculator layout
  */
 export const createFinanceLayout = (): KeyboardLayout => {
+  const digit = (label: string): CalculatorButton => ({ label, value: label, type: 'number' })
   return {
     name: 'Finance',
-    description: 'Layout for financial calculations',
+    description: 'Time value of money, cash flows and percentage change',
     groups: [
       {
-        name: 'Financial Functions',
+        name: 'Time Value of Money',
         buttons: [
-          { label: '%', value: '%', type: 'function', description: 'Percentage' },
-          { label: 'Δ%', value: 'pct-change', type: 'function', description: 'Percentage change' },
+          { label: 'N', value: 'n', type: 'function', description: 'Number of periods' },
+          { label: 'I/Y', value: 'iy', type: 'function', description: 'Annual interest rate' },
           { label: 'PV', value: 'pv', type: 'function', description: 'Present value' },
-          { label: 'FV', value: 'fv', type: 'function', description: 'Future value' },
           { label: 'PMT', value: 'pmt', type: 'function', description: 'Payment' },
-          { label: 'NPV', value: 'npv', type: 'function', description: 'Net present value' },
+          { label: 'FV', value: 'fv', type: 'function', description: 'Future value' },
+          {
+            label: 'CPT',
+            value: 'cpt',
+            type: 'utility',
+            description: 'Compute the next register pressed from the others',
+            color: 'accent',
+          },
+          {
+            label: 'BGN',
+            value: 'bgn',
+            type: 'utility',
+            description: 'Toggle payments at the beginning or end of periods',
+          },
+          {
+            label: 'CLR TVM',
+            value: 'clr-tvm',
+            type: 'utility',
+            description: 'Clear the TVM registers',
+            color: 'danger',
+          },
+        ],
+      },
+      {
+        name: 'Cash Flows',
+        buttons: [
+          {
+            label: 'CF+',
+            value: 'list-add',
+            type: 'utility',
+            description: 'Add the entry to the cash flows L1',
+            color: 'accent',
+          },
+          {
+            label: 'CLCF',
+            value: 'list-clear',
+            type: 'utility',
+            description: 'Clear the cash flows L1',
+            color: 'danger',
+          },
+          { label: 'CF', value: 'L1', type: 'constant', description: 'Recall the cash flows L1' },
+          {
+            label: 'NPV',
+            value: 'npv',
+            type: 'operator',
+            description: 'Net present value at a rate per period: 10 NPV CF',
+          },
+          {
+            label: 'IRR',
+            value: 'irr',
+            type: 'function',
+            description: 'Internal rate of return of the cash flows',
+          },
+        ],
+      },
+      {
+        name: 'Financial Functions',
+        buttons: [
+          { label: '%', value: '%', type: 'function', description: 'Percentage' },
+          {
+            label: 'Δ%',
+            value: 'pctchange',
+            type: 'operator',
+            description: 'Percentage change: 50 Δ% 75',
+          },
+        ],
+      },
+      {
+        name: 'Numbers',
+        buttons: [
+          ...['7', '8', '9', '4', '5', '6', '1', '2', '3', '0', '.'].map(digit),
+          { label: '±', value: 'toggle', type: 'utility' },
+        ],
+      },
+      {
+        name: 'Operations',
+        buttons: [
+          { label: '+', value: '+', type: 'operator' },
+          { label: '−', value: '-', type: 'operator' },
+          { label: '×', value: '*', type: 'operator' },
+          { label: '÷', value: '/', type: 'operator' },
+          { label: '(', value: '(', type: 'operator' },
+          { label: ')', value: ')', type: 'operator' },
+          { label: '=', value: '=', type: 'utility', color: 'primary' },
+          { label: '←', value: 'backspace', type: 'utility' },
+          { label: 'C', value: 'clear', type: 'utility', color: 'danger' },
+        ],
+      },
+    ],
+  }
+}
+
+/**
+ * Create a business math layout: margins, markups, tax, discounts and bill splitting
+ */
+export const createBusinessLayout = (): KeyboardLayout => {
+  const digit = (label: string): CalculatorButton => ({ label, value: label, type: 'number' })
+  return {
+    name: 'Business',
+    description: 'Margins and markups, tax at a configurable rate, discounts and bill splitting',
+    groups: [
+      {
+        name: 'Margin & Markup',
+        buttons: [
+          {
+            label: 'SELL',
+            value: 'sellmargin',
+            type: 'operator',
+            description: 'Selling price from cost and margin: 80 SELL 20',
+          },
+          {
+            label: 'COST',
+            value: 'costmargin',
+            type: 'operator',
+            description: 'Cost from selling price and margin: 100 COST 20',
+          },
+          {
+            label: 'MAR',
+            value: 'margin',
+            type: 'operator',
+            description: 'Margin of cost and selling price: 80 MAR 100',
+          },
+          {
+            label: 'SELL+MU',
+            value: 'sellmarkup',
+            type: 'operator',
+            description: 'Selling price from cost and markup: 80 SELL+MU 25',
+          },
+          {
+            label: 'COST−MU',
+            value: 'costmarkup',
+            type: 'operator',
+            description: 'Cost from selling price and markup: 100 COST−MU 25',
+          },
+          {
+            label: 'MU',
+            value: 'markup',
+            type: 'operator',
+            description: 'Markup of cost and selling price: 80 MU 100',
+          },
+          {
+            label: 'MU→MAR',
+            value: 'markuptomargin',
+            type: 'function',
+            description: 'Margin from markup',
+          },
+          {
+            label: 'MAR→MU',
+            value: 'margintomarkup',
+            type: 'function',
+            description: 'Markup from margin',
+          },
+        ],
+      },
+      {
+        name: 'Tax & Discount',
+        buttons: [
+          {
+            label: 'RATE',
+            value: 'tax-rate',
+            type: 'utility',
+            description: 'Store the entry as the tax rate in percent',
+            color: 'accent',
+          },
+          { label: '+TAX', value: 'addtax', type: 'function', description: 'Add tax at the rate' },
+          {
+            label: '−TAX',
+            value: 'removetax',
+            type: 'function',
+            description: 'Remove the tax included at the rate',
+          },
+          {
+            label: 'DISC',
+            value: 'discount',
+            type: 'operator',
+            description: 'Price after a discount in percent: 100 DISC 10',
+          },
+          {
+            label: 'TIP',
+            value: 'tip',
+            type: 'operator',
+            description: 'Bill plus a tip in percent: 120 TIP 15',
+          },
+          {
+            label: 'SPLIT',
+            value: 'split',
+            type: 'operator',
+            description: 'Share of a bill per person: 138 SPLIT 4',
+          },
+          { label: '%', value: '%', type: 'function', description: 'Percentage' },
+          {
+            label: 'Δ%',
+            value: 'pctchange',
+            type: 'operator',
+            description: 'Percentage change: 50 Δ% 75',
+          },
+        ],
+      },
+      {
+        name: 'Numbers',
+        buttons: [
+          ...['7', '8', '9', '4', '5', '6', '1', '2', '3', '0', '.'].map(digit),
+          { label: '±', value: 'toggle', type: 'utility' },
+        ],
+      },
+      {
+        name: 'Operations',
+        buttons: [
+          { label: '+', value: '+', type: 'operator' },
+          { label: '−', value: '-', type: 'operator' },
+          { label: '×', value: '*', type: 'operator' },
+          { label: '÷', value: '/', type: 'operator' },
+          { label: '(', value: '(', type: 'operator' },
+          { label: ')', value: ')', type: 'operator' },
+          { label: '=', value: '=', type: 'utility', color: 'primary' },
+          { label: '←', value: 'backspace', type: 'utility' },
+          { label: 'C', value: 'clear', type: 'utility', color: 'danger' },
+        ],
+      },
+    ],
+  }
+}
+
+/**
+ * Create a probability layout: the standard normal, the other distributions as operators
+ * taking their parameters after the value, and seeded random numbers
+ */
+export const createProbabilityLayout = (): KeyboardLayout => {
+  const digit = (label: string): CalculatorButton => ({ label, value: label, type: 'number' })
+  // Keys of one distribution, described by an example: the value, the key and the parameters
+  const distributionKeys = (
+    symbol: string,
+    name: string,
+    value: string,
+    parameters: string,
+    discrete = false
+  ): CalculatorButton[] => {
+    const key = (label: string, suffix: string, description: string, x = value) => ({
+      label,
+      value: `${name}${suffix}`,
+      type: 'operator' as const,
+      description: `${description}: ${x} ${label} ${parameters}`,
+    })
+    return [
+      discrete
+        ? key(`${symbol} PMF`, 'pmf', 'Probability mass')
+        : key(`${symbol} PDF`, 'pdf', 'Density'),
+      key(`${symbol} CDF`, 'cdf', 'Cumulative probability'),
+      key(`${symbol}⁻¹`, 'inv', 'Value at a cumulative probability', '0.95'),
+    ]
+  }
+  return {
+    name: 'Probability',
+    description: 'Distribution functions and their inverses, and reproducible random numbers',
+    groups: [
+      {
+        name: 'Normal & Random',
+        buttons: [
+          {
+            label: 'φ',
+            value: 'normpdf',
+            type: 'function',
+            description: 'Standard normal density',
+          },
+          {
+            label: 'Φ',
+            value: 'normcdf',
+            type: 'function',
+            description: 'Standard normal cumulative probability',
+          },
+          {
+            label: 'Φ⁻¹',
+            value: 'norminv',
+            type: 'function',
+            description: 'Standard normal value at a cumulative probability',
+          },
+          {
+            label: 'Z~',
+            value: 'normrand',
+            type: 'constant',
+            description: 'Random draw from the standard normal',
+          },
+          {
+            label: 'RAND',
+            value: 'rand',
+            type: 'constant',
+            description: 'Random number from 0 up to 1',
+          },
+          {
+            label: 'RINT',
+            value: 'randint',
+            type: 'operator',
+            description: 'Random whole number from a to b: 1 RINT 6',
+          },
+          {
+            label: 'SEED',
+            value: 'random-seed',
+            type: 'utility',
+            description: 'Seed the random numbers with the entry, so they repeat',
+            color: 'accent',
+          },
+          {
+            label: ',',
+            value: ',',
+            type: 'operator',
+            description: 'Next parameter: 3 B CDF 10 , 0.5',
+          },
+        ],
+      },
+      {
+        name: 'Continuous',
+        buttons: [
+          ...distributionKeys('t', 't', '2.1', '10'),
+          ...distributionKeys('χ²', 'chi2', '3.8', '1'),
+          ...distributionKeys('F', 'f', '2.5', '3 , 20'),
+          ...distributionKeys('U', 'unif', '0.3', '0 , 2'),
+          ...distributionKeys('Exp', 'exp', '2', '0.5'),
+        ],
+      },
+      {
+        name: 'Discrete',
+        buttons: [
+          ...distributionKeys('B', 'binom', '3', '10 , 0.5', true),
+          ...distributionKeys('Poi', 'poisson', '2', '4', true),
+          ...distributionKeys('Geo', 'geom', '3', '0.2', true),
+        ],
+      },
+      {
+        name: 'Numbers',
+        buttons: [
+          ...['7', '8', '9', '4', '5', '6', '1', '2', '3', '0', '.'].map(digit),
+          { label: '±', value: 'toggle', type: 'utility' },
+        ],
+      },
+      {
+        name: 'Operations',
+        buttons: [
+          { label: '+', value: '+', type: 'operator' },
+          { label: '−', value: '-', type: 'operator' },
+          { label: '×', value: '*', type: 'operator' },
+          { label: '÷', value: '/', type: 'operator' },
+          { label: '(', value: '(', type: 'operator' },
+          { label: ')', value: ')', type: 'operator' },
+          { label: '=', value: '=', type: 'utility', color: 'primary' },
+          { label: '←', value: 'backspace', type: 'utility' },
+          { label: 'C', value: 'clear', type: 'utility', color: 'danger' },
         ],
       },
     ],
@@ -200,6 +620,8 @@ export const getAllPresetLayouts = (): Record<string, () => KeyboardLayout> => {
     minimal: createMinimalLayout,
     programmer: createProgrammerLayout,
     finance: createFinanceLayout,
+    business: createBusinessLayout,
+    probability: createProbabilityLayout,
   }
 }
 
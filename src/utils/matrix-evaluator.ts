@@ -0,0 +1,327 @@
+/**
+ * Matrix Evaluation Steps
+ * Matrix literals, operators and functions for the floating-point evaluation: the quantity
+ * evaluator hands any step with a matrix operand to these functions, and any call of a
+ * function whose result is a list
+ */
+
+import {
+  BinaryNode,
+  CallNode,
+  EvaluationContext,
+  ExpressionNode,
+  FunctionDomain,
+  MatrixNode,
+  SourceRange,
+} from '@/types/expression'
+import { CalculatorError } from '@/utils/calculator-errors'
+import {
+  builtinFunctions,
+  checkDomain,
+  checkResult,
+  factorableDomain,
+  hasEntry,
+  integerArguments,
+} from '@/utils/expression-evaluator'
+import { Matrix } from '@/utils/matrix'
+import { divisors, extendedGcd, primeFactors } from '@/utils/number-theory'
+import type { FloatValue } from '@/utils/quantity-evaluator'
+import { formatUnits, Quantity } from '@/utils/units'
+
+/**
+ * Size of a value for messages: `a 2×3 matrix`, or `a number`
+ */
+const describe = (value: FloatValue): string =>
+  value instanceof Matrix ? `a ${value.rows}×${value.cols} matrix` : 'a number'
+
+const sizeError = (message: string, range: SourceRange) =>
+  new CalculatorError('domain', message, range)
+
+/**
+ * A number without units as a value of a matrix step
+ * @throws CalculatorError for a matrix, which the operation does not accept
+ */
+export const expectScalar = (
+  value: FloatValue,
+  range: SourceRange,
+  operation: string
+): Quantity => {
+  if (value instanceof Matrix) {
+    throw new CalculatorError('domain', `${operation} needs a number, not a matrix`, range)
+  }
+  return value
+}
+
+/**
+ * A value as a matrix, a plain number being 1×1
+ * @throws CalculatorError for a number with units
+ */
+const asMatrix = (value: FloatValue, range: SourceRange): Matrix => {
+  if (value instanceof Matrix) {
+    return value
+  }
+  if (value.hasUnits()) {
+    throw new CalculatorError(
+      'units',
+      `Matrices hold numbers without units, not ${formatUnits(value.terms)}`,
+      range
+    )
+  }
+  return new Matrix([[value.value]])
+}
+
+/**
+ * Reject matrices with entries too large to represent
+ */
+const checkEntries = (matrix: Matrix, range: SourceRange, operation: string): Matrix =>
+  matrix.map(value => checkResult(value, [], range, operation))
+
+const rangeOf = (nodes: ExpressionNode[]): SourceRange => ({
+  start: nodes[0].start,
+  end: nodes[nodes.length - 1].end,
+})
+
+/**
+ * Matrix of a literal from its evaluated entries; matrix entries are joined side by side
+ * within a row and the rows are stacked
+ */
+export const buildMatrix = (node: MatrixNode, entries: FloatValue[][]): Matrix => {
+  const rows = entries.map((row, i) => {
+    const blocks = row.map((entry, j) => asMatrix(entry, node.rows[i][j]))
+    const height = blocks[0].rows
+    const mismatch = blocks.findIndex(block => block.rows !== height)
+    if (mismatch !== -1) {
+      throw sizeError('Matrices side by side need the same number of rows', node.rows[i][mismatch])
+    }
+    return Array.from({ length: height }, (_, r) => blocks.flatMap(block => block.toArray()[r]))
+  })
+  const width = rows[0][0].length
+  const mismatch = rows.findIndex(row => row[0].length !== width)
+  if (mismatch !== -1) {
+    throw sizeError(
+      'Every row of a matrix needs the same number of entries',
+      rangeOf(node.rows[mismatch])
+    )
+  }
+  return new Matrix(rows.flat())
+}
+
+/**
+ * Apply an arithmetic operator where at least one operand is a matrix
+ * Numbers scale matrices; sums need equal sizes and products matching inner sizes. Powers
+ * take square matrices to integer exponents, negative ones through the inverse.
+ * @throws CalculatorError for mismatched sizes, division by a matrix or a singular inverse
+ */
+export const applyMatrixOperator = (
+  node: BinaryNode,
+  left: FloatValue,
+  right: FloatValue
+): Matrix => {
+  const a = asMatrix(left, node.left)
+  const b = asMatrix(right, node.right)
+
+  switch (node.operator) {
+    case '+':
+    case '-':
+      if (!(left instanceof Matrix && right instanceof Matrix && a.sameSize(b))) {
+        const verb = node.operator === '+' ? 'add' : 'subtract'
+        throw sizeError(`Cannot ${verb} ${describe(left)} and ${describe(right)}`, node)
+      }
+      return checkEntries(node.operator === '+' ? a.add(b) : a.subtract(b), node, 'The result')
+
+    case '*':
+      if (!(left instanceof Matrix)) return checkEntries(b.scale(a.get(0, 0)), node, 'The result')
+      if (!(right instanceof Matrix)) return checkEntries(a.scale(b.get(0, 0)), node, 'The result')
+      if (a.cols !== b.rows) {
+        throw sizeError(`Cannot multiply ${describe(left)} by ${describe(right)}`, node)
+      }
+      return checkEntries(a.multiply(b), node, 'The result')
+
+    case '/':
+      if (right instanceof Matrix) {
+        throw sizeError('Cannot divide by a matrix; multiply by its inverse, inv', node.right)
+      }
+      if (b.get(0, 0) === 0) {
+        throw new CalculatorError('division-by-zero', 'Cannot divide by zero', node.right)
+      }
+      return checkEntries(a.scale(1 / b.get(0, 0)), node, 'The result')
+
+    case '^': {
+      const exponent = expectScalar(right, node.right, 'An exponent').value
+      if (!a.isSquare()) {
+        throw sizeError(`Cannot raise ${describe(left)} to a power`, node.left)
+      }
+      if (!Number.isInteger(exponent)) {
+        throw sizeError('A matrix power needs an integer exponent', node.right)
+      }
+      const power = a.power(exponent)
+      if (!power) {
+        throw new CalculatorError('domain', 'The matrix is singular, so it has no inverse', node)
+      }
+      return checkEntries(power, node, 'The result')
+    }
+  }
+}
+
+/**
+ * Matrix argument `index` of a call, which must be square
+ */
+const squareArgument = (node: CallNode, args: FloatValue[], index = 0): Matrix => {
+  const matrix = asMatrix(args[index], node.args[index])
+  if (!matrix.isSquare()) {
+    throw sizeError(
+      `${node.callee} needs a square matrix, not ${describe(matrix)}`,
+      node.args[index]
+    )
+  }
+  return matrix
+}
+
+const vectorArguments = (node: CallNode, args: FloatValue[], length?: number): Matrix[] => {
+  const [u, v] = args.map((arg, k) => asMatrix(arg, node.args[k]))
+  const fits = (vector: Matrix) =>
+    vector.isVector() && (length === undefined || vector.vectorEntries().length === length)
+  if (!fits(u) || !fits(v) || u.vectorEntries().length !== v.vectorEntries().length) {
+    throw sizeError(
+      `${node.callee} needs two vectors of ${length === undefined ? 'the same length' : `length ${length}`}`,
+      node
+    )
+  }
+  return [u, v]
+}
+
+/**
+ * Apply a built-in function where at least one argument is a matrix; the arity has already
+ * been checked against builtinFunctions. Functions of any number of values (mean, max, ...)
+ * take the entries of every matrix as values, so data lists work as columns.
+ * @throws CalculatorError for sizes the function does not accept, singular matrices,
+ *   complex eigenvalues, and functions that only take numbers
+ */
+export const applyMatrixFunction = (
+  node: CallNode,
+  args: FloatValue[],
+  context: EvaluationContext
+): FloatValue => {
+  switch (node.callee) {
+    case 'det':
+      return new Quantity(checkResult(squareArgument(node, args).determinant(), [], node, 'det'))
+
+    case 'inv': {
+      const inverse = squareArgument(node, args).inverse()
+      if (!inverse) {
+        throw new CalculatorError('domain', 'The matrix is singular, so it has no inverse', node)
+      }
+      return checkEntries(inverse, node, 'inv')
+    }
+
+    case 'transpose':
+      return asMatrix(args[0], node.args[0]).transpose()
+
+    case 'rank':
+      return new Quantity(asMatrix(args[0], node.args[0]).rank())
+
+    case 'solve': {
+      const a = squareArgument(node, args)
+      const b = asMatrix(args[1], node.args[1])
+      if (b.rows !== a.rows) {
+        throw sizeError(
+          `solve needs a right-hand side with ${a.rows} rows, not ${describe(b)}`,
+          node.args[1]
+        )
+      }
+      const solution = a.solve(b)
+      if (!solution) {
+        throw new CalculatorError(
+          'domain',
+          'The matrix is singular, so the system has no unique solution',
+          node
+        )
+      }
+      return checkEntries(solution, node, 'solve')
+    }
+
+    case 'eig': {
+      const eigenvalues = squareArgument(node, args).eigenvalues()
+      if (!eigenvalues) {
+        throw new CalculatorError(
+          'domain',
+          'eig only finds real eigenvalues, and this matrix has complex ones',
+          node
+        )
+      }
+      return Matrix.column(eigenvalues)
+    }
+
+    case 'dot': {
+      const [u, v] = vectorArguments(node, args)
+      return new Quantity(checkResult(u.dot(v), [], node, 'dot'))
+    }
+
+    case 'cross': {
+      const [u, v] = vectorArguments(node, args, 3)
+      return checkEntries(u.cross(v), node, 'cross')
+    }
+
+    case 'norm':
+      return new Quantity(checkResult(asMatrix(args[0], node.args[0]).norm(), [], node, 'norm'))
+
+    default: {
+      const definition = builtinFunctions[node.callee]
+      if (definition.maxArgs === Infinity) {
+        const values = args.flatMap((arg, k) => asMatrix(arg, node.args[k]).toArray().flat())
+        checkDomain(node, definition, values, context)
+        return new Quantity(
+          checkResult(definition.evaluate(values, context), values, node, node.callee)
+        )
+      }
+      const index = args.findIndex(arg => arg instanceof Matrix)
+      throw new CalculatorError(
+        'domain',
+        `${node.callee} needs numbers, not a matrix`,
+        node.args[index]
+      )
+    }
+  }
+}
+
+/**
+ * Built-in functions whose result is a list of integers, computed exactly from integer
+ * arguments; their entries in builtinFunctions reject every other arithmetic
+ */
+const listFunctions: Record<
+  string,
+  { domain: FunctionDomain; evaluate: (args: bigint[]) => bigint[] }
+> = {
+  factor: {
+    domain: {
+      test: ([n], context) => n >= 2 && factorableDomain.test([n], context),
+      description: 'whole numbers from 2 to 2^53 − 1',
+    },
+    evaluate: ([n]) => primeFactors(n),
+  },
+  divisors: { domain: factorableDomain, evaluate: ([n]) => divisors(n) },
+  egcd: {
+    domain: integerArguments,
+    evaluate: ([a, b]) => {
+      const { gcd, x, y } = extendedGcd(a, b)
+      return [gcd, x, y]
+    },
+  },
+}
+
+export const isListFunction = (name: string): boolean => hasEntry(listFunctions, name)
+
+/**
+ * Apply a function of numbers whose result is a list, as a row vector: factor(360) is
+ * [2, 2, 2, 3, 3, 5]
+ * @throws CalculatorError for arguments outside the function's domain
+ */
+export const applyListFunction = (
+  node: CallNode,
+  args: number[],
+  context: EvaluationContext
+): Matrix => {
+  const { domain, evaluate } = listFunctions[node.callee]
+  checkDomain(node, { ...builtinFunctions[node.callee], domain }, args, context)
+  return new Matrix([evaluate(args.map(BigInt)).map(Number)])
+}
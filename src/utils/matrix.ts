@@ -0,0 +1,444 @@
+/**
+ * Matrices
+ * Immutable double-precision matrices and vectors with the linear algebra of a scientific
+ * calculator: products, determinants, inverses, rank, linear systems and eigenvalues
+ */
+
+/**
+ * Significant digits kept by results of elimination, so det([1, 2; 3, 4]) shows as -2 rather
+ * than -2.0000000000000004
+ */
+const RESULT_DIGITS = 15
+
+/**
+ * Eigenvalues come from an iteration that leaves more rounding noise, so they keep fewer digits
+ */
+const EIGENVALUE_DIGITS = 12
+
+/**
+ * Values smaller than this fraction of the largest entry are rounding noise and count as zero
+ */
+const ZERO_TOLERANCE = 1e-12
+
+/**
+ * QR iterations allowed per eigenvalue before the iteration gives up
+ */
+const MAX_QR_ITERATIONS = 100
+
+/**
+ * Round away noise: values negligible next to `scale` become 0 and the rest keep `digits`
+ * significant digits
+ */
+const clean = (value: number, scale: number, digits = RESULT_DIGITS): number => {
+  if (Math.abs(value) <= scale * ZERO_TOLERANCE) {
+    return 0
+  }
+  return Number(value.toPrecision(digits))
+}
+
+const copyOf = (entries: readonly (readonly number[])[]): number[][] => entries.map(row => [...row])
+
+/**
+ * Index of the row at or below `column` with the largest entry in that column (partial
+ * pivoting), starting the search at row `from`
+ */
+const pivotRow = (rows: number[][], column: number, from: number): number => {
+  let best = from
+  for (let i = from + 1; i < rows.length; i++) {
+    if (Math.abs(rows[i][column]) > Math.abs(rows[best][column])) best = i
+  }
+  return best
+}
+
+/**
+ * Eigenvalues of the 2×2 block [a, b; c, d]; null when they are complex
+ */
+const blockEigenvalues = (a: number, b: number, c: number, d: number): number[] | null => {
+  const mean = (a + d) / 2
+  const discriminant = ((a - d) / 2) ** 2 + b * c
+  const spread = Math.sqrt(Math.abs(discriminant))
+  // A slightly negative discriminant from rounding is a repeated real eigenvalue
+  if (discriminant < 0 && spread > 1e-7 * Math.max(1, Math.abs(mean))) {
+    return null
+  }
+  return discriminant < 0 ? [mean, mean] : [mean + spread, mean - spread]
+}
+
+export class Matrix {
+  readonly rows: number
+  readonly cols: number
+  private readonly entries: readonly (readonly number[])[]
+
+  /**
+   * @param entries - Rows of equal, non-zero length
+   * @throws RangeError when the rows are empty or of different lengths
+   */
+  constructor(entries: readonly (readonly number[])[]) {
+    if (entries.length === 0 || entries[0].length === 0) {
+      throw new RangeError('A matrix needs at least one entry')
+    }
+    if (entries.some(row => row.length !== entries[0].length)) {
+      throw new RangeError('Every row of a matrix needs the same number of entries')
+    }
+    this.entries = copyOf(entries)
+    this.rows = entries.length
+    this.cols = entries[0].length
+  }
+
+  /**
+   * The n×n identity matrix
+   */
+  static identity(n: number): Matrix {
+    return new Matrix(
+      Array.from({ length: n }, (_, i) => Array.from({ length: n }, (_, j) => (i === j ? 1 : 0)))
+    )
+  }
+
+  /**
+   * Column vector of the values
+   */
+  static column(values: readonly number[]): Matrix {
+    return new Matrix(values.map(value => [value]))
+  }
+
+  get(row: number, col: number): number {
+    return this.entries[row][col]
+  }
+
+  toArray(): number[][] {
+    return copyOf(this.entries)
+  }
+
+  isSquare(): boolean {
+    return this.rows === this.cols
+  }
+
+  /**
+   * Whether this is a row or column vector
+   */
+  isVector(): boolean {
+    return this.rows === 1 || this.cols === 1
+  }
+
+  /**
+   * Entries of a row or column vector in order
+   */
+  vectorEntries(): number[] {
+    return this.entries.flat()
+  }
+
+  sameSize(other: Matrix): boolean {
+    return this.rows === other.rows && this.cols === other.cols
+  }
+
+  /**
+   * Largest absolute entry, the scale rounding noise is measured against
+   */
+  maxAbs(): number {
+    return Math.max(...this.entries.flat().map(Math.abs))
+  }
+
+  map(transform: (value: number, row: number, col: number) => number): Matrix {
+    return new Matrix(this.entries.map((row, i) => row.map((value, j) => transform(value, i, j))))
+  }
+
+  /**
+   * Sum with a matrix of the same size
+   */
+  add(other: Matrix): Matrix {
+    return this.map((value, i, j) => value + other.get(i, j))
+  }
+
+  /**
+   * Difference with a matrix of the same size
+   */
+  subtract(other: Matrix): Matrix {
+    return this.map((value, i, j) => value - other.get(i, j))
+  }
+
+  scale(factor: number): Matrix {
+    return this.map(value => value * factor)
+  }
+
+  /**
+   * Product with a matrix that has as many rows as this one has columns
+   */
+  multiply(other: Matrix): Matrix {
+    return new Matrix(
+      this.entries.map(row =>
+        Array.from({ length: other.cols }, (_, j) =>
+          row.reduce((sum, value, k) => sum + value * other.get(k, j), 0)
+        )
+      )
+    )
+  }
+
+  transpose(): Matrix {
+    return new Matrix(Array.from({ length: this.cols }, (_, j) => this.entries.map(row => row[j])))
+  }
+
+  /**
+   * Determinant of a square matrix, by LU decomposition with partial pivoting
+   */
+  determinant(): number {
+    const rows = copyOf(this.entries)
+    const n = this.rows
+    let det = 1
+    for (let k = 0; k < n; k++) {
+      const pivot = pivotRow(rows, k, k)
+      if (rows[pivot][k] === 0) {
+        return 0
+      }
+      if (pivot !== k) {
+        ;[rows[k], rows[pivot]] = [rows[pivot], rows[k]]
+        det = -det
+      }
+      det *= rows[k][k]
+      for (let i = k + 1; i < n; i++) {
+        const factor = rows[i][k] / rows[k][k]
+        for (let j = k; j < n; j++) rows[i][j] -= factor * rows[k][j]
+      }
+    }
+    return clean(det, this.maxAbs() ** n)
+  }
+
+  /**
+   * Reduce `[this | right]` to `[I | this⁻¹ right]` by Gauss-Jordan elimination
+   * @returns null when this square matrix is singular
+   */
+  private eliminate(right: Matrix): Matrix | null {
+    const n = this.rows
+    const tolerance = this.maxAbs() * n * ZERO_TOLERANCE
+    const rows = this.entries.map((row, i) => [...row, ...right.entries[i]])
+    for (let k = 0; k < n; k++) {
+      const pivot = pivotRow(rows, k, k)
+      if (Math.abs(rows[pivot][k]) <= tolerance) {
+        return null
+      }
+      ;[rows[k], rows[pivot]] = [rows[pivot], rows[k]]
+      const lead = rows[k][k]
+      rows[k] = rows[k].map(value => value / lead)
+      rows.forEach((row, i) => {
+        if (i === k || row[k] === 0) return
+        const factor = row[k]
+        rows[i] = row.map((value, j) => value - factor * rows[k][j])
+      })
+    }
+    const result = new Matrix(rows.map(row => row.slice(n)))
+    const scale = result.maxAbs()
+    return result.map(value => clean(value, scale))
+  }
+
+  /**
+   * Inverse of a square matrix
+   * @returns null when the matrix is singular
+   */
+  inverse(): Matrix | null {
+    return this.eliminate(Matrix.identity(this.rows))
+  }
+
+  /**
+   * Solution x of `this x = b` for a square matrix and a right-hand side with as many rows
+   * @returns null when the matrix is singular, so there is no unique solution
+   */
+  solve(b: Matrix): Matrix | null {
+    return this.eliminate(b)
+  }
+
+  /**
+   * Number of linearly independent rows, counting rows below the rounding tolerance as zero
+   */
+  rank(): number {
+    const rows = copyOf(this.entries)
+    const tolerance = this.maxAbs() * Math.max(this.rows, this.cols) * ZERO_TOLERANCE
+    let rank = 0
+    for (let col = 0; col < this.cols && rank < this.rows; col++) {
+      const pivot = pivotRow(rows, col, rank)
+      if (Math.abs(rows[pivot][col]) <= tolerance) {
+        continue
+      }
+      ;[rows[rank], rows[pivot]] = [rows[pivot], rows[rank]]
+      for (let i = rank + 1; i < this.rows; i++) {
+        const factor = rows[i][col] / rows[rank][col]
+        for (let j = col; j < this.cols; j++) rows[i][j] -= factor * rows[rank][j]
+      }
+      rank++
+    }
+    return rank
+  }
+
+  /**
+   * Integer power of a square matrix; negative powers use the inverse
+   * @returns null for a negative power of a singular matrix
+   */
+  power(exponent: number): Matrix | null {
+    let base: Matrix | null = exponent < 0 ? this.inverse() : this
+    if (!base) {
+      return null
+    }
+    let result = Matrix.identity(this.rows)
+    for (let n = Math.abs(exponent); n > 0; n = Math.floor(n / 2)) {
+      if (n % 2 === 1) result = result.multiply(base)
+      base = base.multiply(base)
+    }
+    return result
+  }
+
+  /**
+   * Real eigenvalues of a square matrix, largest first
+   * The matrix is reduced to Hessenberg form and iterated with shifted QR steps, splitting
+   * off an eigenvalue (or a 2×2 block) whenever a subdiagonal entry vanishes.
+   * @returns null when some eigenvalues are complex or the iteration does not converge
+   */
+  eigenvalues(): number[] | null {
+    const h = this.hessenberg()
+    const scale = this.maxAbs()
+    const eigenvalues: number[] = []
+    let hi = this.rows - 1
+    let iterations = 0
+
+    while (hi >= 0) {
+      let lo = hi
+      while (
+        lo > 0 &&
+        Math.abs(h[lo][lo - 1]) >
+          Number.EPSILON * (Math.abs(h[lo][lo]) + Math.abs(h[lo - 1][lo - 1]) || scale)
+      ) {
+        lo--
+      }
+
+      if (lo === hi) {
+        eigenvalues.push(h[hi][hi])
+        hi--
+        iterations = 0
+        continue
+      }
+      if (lo === hi - 1) {
+        const pair = blockEigenvalues(h[lo][lo], h[lo][hi], h[hi][lo], h[hi][hi])
+        if (!pair) {
+          return null
+        }
+        eigenvalues.push(...pair)
+        hi -= 2
+        iterations = 0
+        continue
+      }
+
+      if (++iterations > MAX_QR_ITERATIONS) {
+        return null
+      }
+      // Wilkinson shift, nudged now and then so cycles between shifts are broken
+      const shift =
+        this.wilkinsonShift(h, hi) + (iterations % 10 === 0 ? Math.abs(h[hi][hi - 1]) : 0)
+      this.qrStep(h, lo, hi, shift)
+    }
+
+    return eigenvalues.map(value => clean(value, scale, EIGENVALUE_DIGITS)).sort((a, b) => b - a)
+  }
+
+  /**
+   * Copy reduced to upper Hessenberg form (zero below the first subdiagonal) by Householder
+   * reflections, which keep the eigenvalues
+   */
+  private hessenberg(): number[][] {
+    const h = copyOf(this.entries)
+    const n = this.rows
+    for (let k = 0; k < n - 2; k++) {
+      const x = h.slice(k + 1).map(row => row[k])
+      const norm = Math.hypot(...x)
+      if (norm === 0) continue
+      const v = [...x]
+      v[0] += x[0] < 0 ? -norm : norm
+      const vNorm = Math.hypot(...v)
+      const u = v.map(value => value / vNorm)
+
+      // H = (I - 2uuᵀ) H (I - 2uuᵀ), applied to the rows and columns below and right of k
+      for (let j = 0; j < n; j++) {
+        const dot = u.reduce((sum, value, i) => sum + value * h[k + 1 + i][j], 0)
+        u.forEach((value, i) => (h[k + 1 + i][j] -= 2 * value * dot))
+      }
+      for (let i = 0; i < n; i++) {
+        const dot = u.reduce((sum, value, j) => sum + value * h[i][k + 1 + j], 0)
+        u.forEach((value, j) => (h[i][k + 1 + j] -= 2 * value * dot))
+      }
+    }
+    return h
+  }
+
+  /**
+   * Eigenvalue of the trailing 2×2 block closest to its last diagonal entry, or the real part
+   * of its complex pair
+   */
+  private wilkinsonShift(h: number[][], hi: number): number {
+    const [a, b, c, d] = [h[hi - 1][hi - 1], h[hi - 1][hi], h[hi][hi - 1], h[hi][hi]]
+    const mean = (a + d) / 2
+    const discriminant = ((a - d) / 2) ** 2 + b * c
+    if (discriminant < 0) {
+      return mean
+    }
+    const spread = Math.sqrt(discriminant)
+    return Math.abs(mean + spread - d) < Math.abs(mean - spread - d) ? mean + spread : mean - spread
+  }
+
+  /**
+   * One shifted QR step H - μI = QR, H ← RQ + μI on the Hessenberg block lo..hi, with the
+   * factorisation done by Givens rotations
+   */
+  private qrStep(h: number[][], lo: number, hi: number, shift: number): void {
+    for (let i = lo; i <= hi; i++) h[i][i] -= shift
+
+    const rotations: [number, number][] = []
+    for (let k = lo; k < hi; k++) {
+      const r = Math.hypot(h[k][k], h[k + 1][k])
+      const [c, s] = r === 0 ? [1, 0] : [h[k][k] / r, h[k + 1][k] / r]
+      rotations.push([c, s])
+      for (let j = k; j <= hi; j++) {
+        const [top, bottom] = [h[k][j], h[k + 1][j]]
+        h[k][j] = c * top + s * bottom
+        h[k + 1][j] = -s * top + c * bottom
+      }
+    }
+    rotations.forEach(([c, s], index) => {
+      const k = lo + index
+      for (let i = lo; i <= Math.min(k + 2, hi); i++) {
+        const [left, right] = [h[i][k], h[i][k + 1]]
+        h[i][k] = c * left + s * right
+        h[i][k + 1] = -s * left + c * right
+      }
+    })
+
+    for (let i = lo; i <= hi; i++) h[i][i] += shift
+  }
+
+  /**
+   * Dot product of two vectors with the same number of entries
+   */
+  dot(other: Matrix): number {
+    const right = other.vectorEntries()
+    return this.vectorEntries().reduce((sum, value, k) => sum + value * right[k], 0)
+  }
+
+  /**
+   * Cross product of two vectors of length 3, shaped like this one
+   */
+  cross(other: Matrix): Matrix {
+    const [a1, a2, a3] = this.vectorEntries()
+    const [b1, b2, b3] = other.vectorEntries()
+    const product = [a2 * b3 - a3 * b2, a3 * b1 - a1 * b3, a1 * b2 - a2 * b1]
+    return this.rows === 1 ? new Matrix([product]) : Matrix.column(product)
+  }
+
+  /**
+   * Euclidean length of a vector; the Frobenius norm of other matrices
+   */
+  norm(): number {
+    return Math.hypot(...this.entries.flat())
+  }
+
+  /**
+   * Text that reads back as an expression: rows separated by `;`, as in `[1, 2; 3, 4]`
+   */
+  toString(): string {
+    return `[${this.entries.map(row => row.map(String).join(', ')).join('; ')}]`
+  }
+}
@@ -0,0 +1,265 @@
+/**
+ * Number Theory
+ * Exact combinatorics and integer functions over BigInt: factorials, permutations and
+ * combinations, primality, factorization, divisors, Euler's totient and modular arithmetic
+ * built on bigGcd and bigLcm
+ */
+
+import { MAX_DECIMAL_FACTORIAL } from '@/utils/decimal-math'
+import { bigGcd, bigLcm } from '@/utils/rational'
+import { lnGamma } from '@/utils/special-functions'
+
+/**
+ * Most decimal digits an exact combinatorial result may have: those of MAX_DECIMAL_FACTORIAL!
+ */
+const MAX_EXACT_DIGITS = 35660
+
+/**
+ * Primes tried by trial division before Pollard's rho, and the Miller–Rabin bases, which
+ * decide primality for every n below 3.3 × 10²⁴
+ */
+const SMALL_PRIMES = [2n, 3n, 5n, 7n, 11n, 13n, 17n, 19n, 23n, 29n, 31n, 37n, 41n]
+
+/**
+ * Trial division covers factors below this bound
+ */
+const TRIAL_DIVISION_LIMIT = 1000n
+
+/**
+ * @throws RangeError when a result of e^lnValue has more than MAX_EXACT_DIGITS digits
+ */
+const checkExactSize = (lnValue: number): void => {
+  if (lnValue / Math.LN10 > MAX_EXACT_DIGITS) {
+    throw new RangeError('The result is too large to compute exactly')
+  }
+}
+
+/**
+ * Least non-negative residue of a modulo m
+ */
+const mod = (a: bigint, m: bigint): bigint => ((a % m) + m) % m
+
+/**
+ * Exact n! of a non-negative integer
+ * @throws RangeError above MAX_DECIMAL_FACTORIAL
+ */
+export const bigFactorial = (n: bigint): bigint => {
+  if (n > BigInt(MAX_DECIMAL_FACTORIAL)) {
+    throw new RangeError('Factorial is too large')
+  }
+  let result = 1n
+  for (let i = 2n; i <= n; i++) {
+    result *= i
+  }
+  return result
+}
+
+/**
+ * Exact P(n, r) = n! / (n − r)!, the ordered selections of r of n items, for 0 ≤ r ≤ n
+ * @throws RangeError when the result has more than MAX_EXACT_DIGITS digits
+ */
+export const bigPermutations = (n: bigint, r: bigint): bigint => {
+  checkExactSize(lnGamma(Number(n) + 1) - lnGamma(Number(n - r) + 1))
+  let result = 1n
+  for (let i = n - r + 1n; i <= n; i++) {
+    result *= i
+  }
+  return result
+}
+
+/**
+ * Exact C(n, r) = n! / (r! (n − r)!), the unordered selections of r of n items, for
+ * 0 ≤ r ≤ n; every partial product is itself a binomial coefficient, so each division is exact
+ * @throws RangeError when the result has more than MAX_EXACT_DIGITS digits
+ */
+export const bigCombinations = (n: bigint, r: bigint): bigint => {
+  checkExactSize(lnGamma(Number(n) + 1) - lnGamma(Number(r) + 1) - lnGamma(Number(n - r) + 1))
+  const k = r < n - r ? r : n - r
+  let result = 1n
+  for (let i = 1n; i <= k; i++) {
+    result = (result * (n - k + i)) / i
+  }
+  return result
+}
+
+/**
+ * base^exponent mod modulus by repeated squaring, for exponent ≥ 0 and modulus ≥ 1; the
+ * result lies in [0, modulus)
+ */
+export const modPow = (base: bigint, exponent: bigint, modulus: bigint): bigint => {
+  let result = 1n % modulus
+  let square = mod(base, modulus)
+  for (let e = exponent; e > 0n; e >>= 1n) {
+    if (e & 1n) result = (result * square) % modulus
+    square = (square * square) % modulus
+  }
+  return result
+}
+
+/**
+ * Extended Euclidean algorithm: the gcd of a and b with Bézout coefficients x and y such that
+ * a x + b y = gcd
+ */
+export const extendedGcd = (a: bigint, b: bigint): { gcd: bigint; x: bigint; y: bigint } => {
+  let [oldR, r] = [a, b]
+  let [oldX, x] = [1n, 0n]
+  let [oldY, y] = [0n, 1n]
+  while (r !== 0n) {
+    const q = oldR / r
+    ;[oldR, r] = [r, oldR - q * r]
+    ;[oldX, x] = [x, oldX - q * x]
+    ;[oldY, y] = [y, oldY - q * y]
+  }
+  return oldR < 0n ? { gcd: -oldR, x: -oldX, y: -oldY } : { gcd: oldR, x: oldX, y: oldY }
+}
+
+/**
+ * Inverse of a modulo m ≥ 1, in [0, m); null when a and m share a factor
+ */
+export const modInverse = (a: bigint, m: bigint): bigint | null => {
+  const { gcd, x } = extendedGcd(mod(a, m), m)
+  return gcd === 1n ? mod(x, m) : null
+}
+
+/**
+ * Chinese remainder theorem: the x ≡ residues[k] (mod moduli[k]) for every k, as the least
+ * non-negative residue modulo the lcm of the moduli (each ≥ 1). The moduli need not be coprime;
+ * null when the congruences contradict each other.
+ */
+export const chineseRemainder = (
+  residues: bigint[],
+  moduli: bigint[]
+): { residue: bigint; modulus: bigint } | null => {
+  let residue = 0n
+  let modulus = 1n
+  for (let k = 0; k < residues.length; k++) {
+    const { gcd, x } = extendedGcd(modulus, moduli[k])
+    const difference = residues[k] - residue
+    if (difference % gcd !== 0n) {
+      return null
+    }
+    // modulus · x ≡ gcd (mod moduli[k]), so this step moves residue onto the new congruence
+    const step = mod((difference / gcd) * x, moduli[k] / gcd)
+    const combined = bigLcm(modulus, moduli[k])
+    residue = mod(residue + modulus * step, combined)
+    modulus = combined
+  }
+  return { residue, modulus }
+}
+
+/**
+ * Residues and moduli of congruences given in turn, as in crt(r1, m1, r2, m2, ...)
+ */
+export const congruencesOf = (args: bigint[]): { residues: bigint[]; moduli: bigint[] } => ({
+  residues: args.filter((_, k) => k % 2 === 0),
+  moduli: args.filter((_, k) => k % 2 === 1),
+})
+
+/**
+ * Miller–Rabin test with the SMALL_PRIMES as bases: exact below 3.3 × 10²⁴, and above it a
+ * strong probable-prime test no composite is known to pass
+ */
+export const isPrime = (n: bigint): boolean => {
+  if (n < 2n) return false
+  for (const p of SMALL_PRIMES) {
+    if (n % p === 0n) return n === p
+  }
+  let d = n - 1n
+  let s = 0
+  while ((d & 1n) === 0n) {
+    d >>= 1n
+    s++
+  }
+  return SMALL_PRIMES.every(a => {
+    let x = modPow(a, d, n)
+    if (x === 1n || x === n - 1n) return true
+    for (let i = 1; i < s; i++) {
+      x = (x * x) % n
+      if (x === n - 1n) return true
+    }
+    return false
+  })
+}
+
+/**
+ * A proper factor of a composite n by Pollard's rho, trying successive polynomials x² + c
+ * until one splits n
+ */
+const pollardRho = (n: bigint): bigint => {
+  for (let c = 1n; ; c++) {
+    const next = (x: bigint) => (x * x + c) % n
+    let x = 2n
+    let y = 2n
+    let d = 1n
+    while (d === 1n) {
+      x = next(x)
+      y = next(next(y))
+      d = bigGcd(x - y, n)
+    }
+    if (d !== n) return d
+  }
+}
+
+/**
+ * Prime factors of n ≥ 1 in ascending order, repeated by multiplicity (360 → 2, 2, 2, 3, 3,
+ * 5); fast while the second largest prime factor is below about 10¹⁰
+ */
+export const primeFactors = (n: bigint): bigint[] => {
+  const factors: bigint[] = []
+  let rest = n
+  for (let p = 2n; p < TRIAL_DIVISION_LIMIT && p * p <= rest; p += p === 2n ? 1n : 2n) {
+    while (rest % p === 0n) {
+      factors.push(p)
+      rest /= p
+    }
+  }
+  const split = (m: bigint) => {
+    if (m === 1n) return
+    if (isPrime(m)) {
+      factors.push(m)
+      return
+    }
+    const factor = pollardRho(m)
+    split(factor)
+    split(m / factor)
+  }
+  split(rest)
+  return factors.sort((a, b) => (a < b ? -1 : a > b ? 1 : 0))
+}
+
+/**
+ * Factorization of n ≥ 1 as distinct primes with their exponents (360 = 2³ · 3² · 5)
+ */
+export const primePowers = (n: bigint): { prime: bigint; exponent: number }[] => {
+  const powers: { prime: bigint; exponent: number }[] = []
+  for (const p of primeFactors(n)) {
+    const last = powers[powers.length - 1]
+    if (last?.prime === p) {
+      last.exponent++
+    } else {
+      powers.push({ prime: p, exponent: 1 })
+    }
+  }
+  return powers
+}
+
+/**
+ * Positive divisors of n ≥ 1 in ascending order
+ */
+export const divisors = (n: bigint): bigint[] =>
+  primePowers(n)
+    .reduce(
+      (found, { prime, exponent }) =>
+        found.flatMap(d => Array.from({ length: exponent + 1 }, (_, k) => d * prime ** BigInt(k))),
+      [1n]
+    )
+    .sort((a, b) => (a < b ? -1 : a > b ? 1 : 0))
+
+/**
+ * Euler's totient φ(n): how many of 1 … n are coprime to n ≥ 1
+ */
+export const eulerPhi = (n: bigint): bigint =>
+  primePowers(n).reduce(
+    (product, { prime, exponent }) => product * prime ** BigInt(exponent - 1) * (prime - 1n),
+    1n
+  )
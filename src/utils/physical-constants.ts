@@ -0,0 +1,186 @@
+/**
+ * Physical Constants
+ * CODATA 2018 recommended values of the fundamental physical constants with their units and
+ * standard uncertainties, grouped by domain and found by name, symbol or description
+ */
+
+export type ConstantDomain =
+  | 'universal'
+  | 'electromagnetic'
+  | 'atomic'
+  | 'physico-chemical'
+  | 'adopted'
+
+export interface PhysicalConstant {
+  /** Key value and name in expressions: `c`, `mu0`, `NA`; never a unit symbol itself */
+  name: string
+  /** Conventional symbol: c, μ₀, N_A */
+  symbol: string
+  description: string
+  /** Value as written by CODATA, so decimal arithmetic keeps every digit */
+  value: string
+  /** Units in expression syntax, empty for dimensionless constants */
+  unit: string
+  /** Standard uncertainty in the same units; 0 for exact constants */
+  uncertainty: number
+  domain: ConstantDomain
+}
+
+/**
+ * Domains in the order CODATA lists them, with their headings
+ */
+export const constantDomains: { domain: ConstantDomain; label: string }[] = [
+  { domain: 'universal', label: 'Universal' },
+  { domain: 'electromagnetic', label: 'Electromagnetic' },
+  { domain: 'atomic', label: 'Atomic and nuclear' },
+  { domain: 'physico-chemical', label: 'Physico-chemical' },
+  { domain: 'adopted', label: 'Adopted values' },
+]
+
+const constant = (
+  domain: ConstantDomain,
+  name: string,
+  symbol: string,
+  description: string,
+  value: string,
+  unit: string,
+  uncertainty = 0
+): PhysicalConstant => ({ name, symbol, description, value, unit, uncertainty, domain })
+
+export const physicalConstants: PhysicalConstant[] = [
+  constant('universal', 'c', 'c', 'Speed of light in vacuum', '299792458', 'm/s'),
+  constant(
+    'universal',
+    'G',
+    'G',
+    'Newtonian constant of gravitation',
+    '6.67430e-11',
+    'm^3/(kg s^2)',
+    1.5e-15
+  ),
+  // h is the hour
+  constant('universal', 'planck', 'h', 'Planck constant', '6.62607015e-34', 'J s'),
+  constant('universal', 'hbar', 'ħ', 'Reduced Planck constant', '1.054571817e-34', 'J s'),
+  constant('universal', 'lP', 'l_P', 'Planck length', '1.616255e-35', 'm', 1.8e-40),
+  constant('universal', 'mP', 'm_P', 'Planck mass', '2.176434e-8', 'kg', 2.4e-13),
+  constant('universal', 'tP', 't_P', 'Planck time', '5.391247e-44', 's', 6.0e-49),
+
+  constant('electromagnetic', 'qe', 'e', 'Elementary charge', '1.602176634e-19', 'C'),
+  constant(
+    'electromagnetic',
+    'mu0',
+    'μ₀',
+    'Vacuum magnetic permeability',
+    '1.25663706212e-6',
+    'N/A^2',
+    1.9e-16
+  ),
+  constant(
+    'electromagnetic',
+    'eps0',
+    'ε₀',
+    'Vacuum electric permittivity',
+    '8.8541878128e-12',
+    'F/m',
+    1.3e-21
+  ),
+  constant(
+    'electromagnetic',
+    'Z0',
+    'Z₀',
+    'Characteristic impedance of vacuum',
+    '376.730313668',
+    'ohm',
+    5.7e-8
+  ),
+  constant('electromagnetic', 'Phi0', 'Φ₀', 'Magnetic flux quantum', '2.067833848e-15', 'Wb'),
+  constant('electromagnetic', 'G0', 'G₀', 'Conductance quantum', '7.748091729e-5', 'S'),
+  constant('electromagnetic', 'KJ', 'K_J', 'Josephson constant', '483597.8484e9', 'Hz/V'),
+  constant('electromagnetic', 'RK', 'R_K', 'von Klitzing constant', '25812.80745', 'ohm'),
+  constant('electromagnetic', 'muB', 'μ_B', 'Bohr magneton', '9.2740100783e-24', 'J/T', 2.8e-33),
+  constant('electromagnetic', 'muN', 'μ_N', 'Nuclear magneton', '5.0507837461e-27', 'J/T', 1.5e-36),
+
+  constant('atomic', 'alpha', 'α', 'Fine-structure constant', '7.2973525693e-3', '', 1.1e-12),
+  constant('atomic', 'Rinf', 'R_∞', 'Rydberg constant', '10973731.568160', 'm^-1', 2.1e-5),
+  constant('atomic', 'a0', 'a₀', 'Bohr radius', '5.29177210903e-11', 'm', 8.0e-21),
+  constant('atomic', 'Eh', 'E_h', 'Hartree energy', '4.3597447222071e-18', 'J', 8.5e-30),
+  constant('atomic', 'me', 'm_e', 'Electron mass', '9.1093837015e-31', 'kg', 2.8e-40),
+  constant('atomic', 'mp', 'm_p', 'Proton mass', '1.67262192369e-27', 'kg', 5.1e-37),
+  constant('atomic', 'mn', 'm_n', 'Neutron mass', '1.67492749804e-27', 'kg', 9.5e-37),
+  constant(
+    'atomic',
+    'lambdaC',
+    'λ_C',
+    'Compton wavelength of the electron',
+    '2.42631023867e-12',
+    'm',
+    7.3e-22
+  ),
+
+  constant('physico-chemical', 'NA', 'N_A', 'Avogadro constant', '6.02214076e23', 'mol^-1'),
+  constant('physico-chemical', 'k', 'k', 'Boltzmann constant', '1.380649e-23', 'J/K'),
+  constant('physico-chemical', 'R', 'R', 'Molar gas constant', '8.314462618', 'J/(mol K)'),
+  constant('physico-chemical', 'faraday', 'F', 'Faraday constant', '96485.33212', 'C/mol'),
+  constant(
+    'physico-chemical',
+    'amu',
+    'u',
+    'Atomic mass constant',
+    '1.66053906660e-27',
+    'kg',
+    5.0e-37
+  ),
+  constant(
+    'physico-chemical',
+    'sigma',
+    'σ',
+    'Stefan–Boltzmann constant',
+    '5.670374419e-8',
+    'W/(m^2 K^4)'
+  ),
+  constant(
+    'physico-chemical',
+    'b',
+    'b',
+    'Wien wavelength displacement constant',
+    '2.897771955e-3',
+    'm K'
+  ),
+  constant(
+    'physico-chemical',
+    'Vm',
+    'V_m',
+    'Molar volume of an ideal gas at 273.15 K and 101.325 kPa',
+    '22.41396954e-3',
+    'm^3/mol'
+  ),
+
+  constant('adopted', 'gn', 'g_n', 'Standard acceleration of gravity', '9.80665', 'm/s^2'),
+]
+
+export const physicalConstantsByName: Record<string, PhysicalConstant> = Object.fromEntries(
+  physicalConstants.map(entry => [entry.name, entry])
+)
+
+/**
+ * Expression text of a constant; units only work in float arithmetic, so they can be left off
+ */
+export const constantExpression = (entry: PhysicalConstant, withUnit = true): string =>
+  withUnit && entry.unit ? `${entry.value} ${entry.unit}` : entry.value
+
+/**
+ * Standard uncertainty relative to the value; 0 for exact constants
+ */
+export const relativeUncertainty = (entry: PhysicalConstant): number =>
+  entry.uncertainty / Math.abs(Number(entry.value))
+
+/**
+ * Constants whose name, symbol or description contains every word of the query, ignoring case
+ */
+export const searchPhysicalConstants = (query: string): PhysicalConstant[] => {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean)
+  return physicalConstants.filter(entry => {
+    const text = `${entry.name} ${entry.symbol} ${entry.description}`.toLowerCase()
+    return words.every(word => text.includes(word))
+  })
+}
@@ -0,0 +1,261 @@
+/**
+ * Programmer Expression Evaluator
+ * Evaluates the expression AST over the integers of the context's word size (8 to 64 bits,
+ * signed or unsigned): every result wraps around like a machine register, division truncates
+ * toward zero and the bitwise functions act on the bits of the word.
+ */
+
+import {
+  BinaryNode,
+  CallNode,
+  EvaluationContext,
+  ExpressionNode,
+  SourceRange,
+  WordSize,
+} from '@/types/expression'
+import { CalculatorError } from '@/utils/calculator-errors'
+import {
+  builtinConstants,
+  checkBinaryOperands,
+  checkDomain,
+  comparisonHolds,
+  conversionUnavailable,
+  entryOf,
+  evaluateArguments,
+  evaluateSpecialCall,
+  factorialDomain,
+  hasEntry,
+  lookupFunction,
+  matrixUnavailable,
+  NodeEvaluator,
+  resolvePhysicalConstant,
+  resolveVariable,
+  undefinedName,
+  withinRange,
+} from '@/utils/expression-evaluator'
+import { DEFAULT_WORD_SIZE, rotate, shiftLeft, shiftRight, wrap } from '@/utils/programmer'
+import {
+  bigCombinations,
+  bigPermutations,
+  chineseRemainder,
+  congruencesOf,
+  eulerPhi,
+  isPrime,
+  modInverse,
+  modPow,
+} from '@/utils/number-theory'
+import { bigGcd, bigLcm } from '@/utils/rational'
+
+/**
+ * Integer implementation of a built-in function; the caller wraps the result to the word
+ */
+type ProgrammerFunction = (args: bigint[], word: WordSize) => bigint
+
+const wordOf = (context: EvaluationContext): WordSize => context.word ?? DEFAULT_WORD_SIZE
+
+const wholeNumbersOnly = (range: SourceRange): CalculatorError =>
+  new CalculatorError('domain', 'Programmer arithmetic only holds whole numbers', range)
+
+/**
+ * x^n by repeated squaring, wrapping every product so huge exponents stay cheap
+ */
+const wordPower = (base: bigint, exponent: bigint, word: WordSize): bigint => {
+  let result = 1n
+  let square = base
+  for (let n = exponent; n > 0n; n >>= 1n) {
+    if (n & 1n) result = wrap(result * square, word)
+    square = wrap(square * square, word)
+  }
+  return result
+}
+
+/**
+ * n! modulo the word; the product gains a factor of two at every even step, so it reaches
+ * zero within twice the word size
+ */
+const wordFactorial = (n: bigint, word: WordSize): bigint => {
+  let result = 1n
+  for (let i = 2n; i <= n && result !== 0n; i++) {
+    result = wrap(result * i, word)
+  }
+  return result
+}
+
+const smallest = (args: bigint[]): bigint => args.reduce((best, arg) => (arg < best ? arg : best))
+
+const largest = (args: bigint[]): bigint => args.reduce((best, arg) => (arg > best ? arg : best))
+
+/**
+ * Built-in functions defined on integers; names, arity and domains come from builtinFunctions
+ */
+export const programmerFunctions: Record<string, ProgrammerFunction> = {
+  and: ([a, b]) => a & b,
+  or: ([a, b]) => a | b,
+  xor: ([a, b]) => a ^ b,
+  not: ([x]) => ~x,
+  lshift: ([x, n], word) => shiftLeft(x, n, word),
+  rshift: ([x, n], word) => shiftRight(x, n, word),
+  rol: ([x, n], word) => rotate(x, n, word),
+  ror: ([x, n], word) => rotate(x, -n, word),
+  abs: ([x]) => (x < 0n ? -x : x),
+  square: ([x]) => x * x,
+  cube: ([x]) => x * x * x,
+  floor: ([x]) => x,
+  ceil: ([x]) => x,
+  round: ([x]) => x,
+  factorial: ([x], word) => wordFactorial(x, word),
+  min: smallest,
+  max: largest,
+  gcd: args => args.reduce(bigGcd),
+  lcm: args => args.reduce(bigLcm),
+  ncr: ([n, r]) => bigCombinations(n, r),
+  npr: ([n, r]) => bigPermutations(n, r),
+  isprime: ([n]) => (isPrime(n) ? 1n : 0n),
+  totient: ([n]) => eulerPhi(n),
+  powmod: ([b, e, m]) => modPow(b, e, m),
+  invmod: ([a, m]) => modInverse(a, m) ?? 0n,
+  crt: args => {
+    const { residues, moduli } = congruencesOf(args)
+    return chineseRemainder(residues, moduli)?.residue ?? 0n
+  },
+  count: args => BigInt(args.length),
+  sum: args => args.reduce((total, arg) => total + arg, 0n),
+  re: ([x]) => x,
+  im: () => 0n,
+  conj: ([x]) => x,
+}
+
+const evaluateBinary = (node: BinaryNode, context: EvaluationContext): bigint => {
+  const left = evaluateProgrammerNode(node.left, context)
+  const right = evaluateProgrammerNode(node.right, context)
+  const factsOf = (value: bigint) => ({ zero: value === 0n, negative: value < 0n, integer: true })
+  checkBinaryOperands(node, factsOf(left), factsOf(right))
+
+  const word = wordOf(context)
+  switch (node.operator) {
+    case '+':
+      return wrap(left + right, word)
+    case '-':
+      return wrap(left - right, word)
+    case '*':
+      return wrap(left * right, word)
+    case '/':
+      return wrap(left / right, word)
+    case '^':
+      if (right < 0n) {
+        throw new CalculatorError(
+          'domain',
+          'Programmer arithmetic needs a non-negative exponent',
+          node.right
+        )
+      }
+      return wordPower(left, right, word)
+  }
+}
+
+const programmerEvaluator: NodeEvaluator<bigint> = {
+  evaluate: (node, context) => evaluateProgrammerNode(node, context),
+  isTrue: value => value !== 0n,
+  toText: String,
+}
+
+const evaluateCall = (node: CallNode, context: EvaluationContext): bigint => {
+  const special = evaluateSpecialCall(node, context, programmerEvaluator)
+  if (special !== undefined) {
+    return special
+  }
+  const definition = lookupFunction(node)
+  const evaluate = entryOf(programmerFunctions, node.callee)
+  if (!evaluate) {
+    throw new CalculatorError(
+      'domain',
+      `${node.callee} is not available in programmer arithmetic`,
+      node
+    )
+  }
+  const args = evaluateArguments(node, context, evaluateProgrammerNode)
+  checkDomain(node, definition, args.map(Number), context)
+  // Exact combinatorics can still be too large to compute before wrapping
+  return withinRange(
+    () => wrap(evaluate(args, wordOf(context)), wordOf(context)),
+    node,
+    node.callee
+  )
+}
+
+/**
+ * Evaluate an AST node over the integers of the context's word size
+ * @param node - Node to evaluate
+ * @param context - Evaluation settings (word size)
+ * @returns The result, wrapped to the word
+ * @throws CalculatorError with the range of the offending node
+ */
+export const evaluateProgrammerNode = (
+  node: ExpressionNode,
+  context: EvaluationContext
+): bigint => {
+  const word = wordOf(context)
+  switch (node.type) {
+    case 'number':
+      if (!/^\d+$/.test(node.raw)) {
+        throw wholeNumbersOnly(node)
+      }
+      return wrap(BigInt(node.raw), word)
+
+    case 'identifier': {
+      if (hasEntry(builtinConstants, node.name)) {
+        throw wholeNumbersOnly(node)
+      }
+      const value =
+        resolveVariable(node, context, evaluateProgrammerNode) ??
+        resolvePhysicalConstant(node, context, evaluateProgrammerNode)
+      if (value === undefined) {
+        throw undefinedName(node, context)
+      }
+      return value
+    }
+
+    case 'unary': {
+      const operand = evaluateProgrammerNode(node.operand, context)
+      return node.operator === '-' ? wrap(-operand, word) : operand
+    }
+
+    case 'binary':
+      return evaluateBinary(node, context)
+
+    case 'postfix': {
+      const operand = evaluateProgrammerNode(node.operand, context)
+      if (node.operator === '%') {
+        throw new CalculatorError(
+          'domain',
+          'Percentages are not available in programmer arithmetic',
+          node
+        )
+      }
+      if (operand < 0n) {
+        throw new CalculatorError(
+          'domain',
+          `Factorial is only defined for ${factorialDomain.description}`,
+          node.operand
+        )
+      }
+      return wordFactorial(operand, word)
+    }
+
+    case 'comparison': {
+      const left = evaluateProgrammerNode(node.left, context)
+      const right = evaluateProgrammerNode(node.right, context)
+      const sign = left < right ? -1 : left > right ? 1 : 0
+      return comparisonHolds(node.operator, sign) ? 1n : 0n
+    }
+
+    case 'conversion':
+      throw conversionUnavailable(node)
+
+    case 'matrix':
+      throw matrixUnavailable(node)
+
+    case 'call':
+      return evaluateCall(node, context)
+  }
+}
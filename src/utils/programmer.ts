@@ -0,0 +1,103 @@
+/**
+ * Programmer Arithmetic
+ * Integers of a fixed word size: wraparound to 8, 16, 32 or 64 bits in two's complement or
+ * unsigned form, shifts and rotation within the word, and integer text in hexadecimal, decimal,
+ * octal and binary
+ */
+
+import { NumberBase } from '@/types/calculator'
+import { WordSize } from '@/types/expression'
+
+/**
+ * Word sizes offered, smallest first
+ */
+export const WORD_BITS: WordSize['bits'][] = [8, 16, 32, 64]
+
+export const DEFAULT_WORD_SIZE: WordSize = { bits: 64, signed: true }
+
+/**
+ * Bases in the order they are offered
+ */
+export const numberBases: NumberBase[] = ['hex', 'dec', 'oct', 'bin']
+
+export const baseRadix: Record<NumberBase, number> = { hex: 16, dec: 10, oct: 8, bin: 2 }
+
+/**
+ * Literal prefix of each base; decimal numbers have none
+ */
+export const basePrefix: Record<NumberBase, string> = { hex: '0x', dec: '', oct: '0o', bin: '0b' }
+
+/**
+ * The low bits of an integer read as a value of the word, so 255 is -1 in a signed byte
+ */
+export const wrap = (value: bigint, word: WordSize): bigint =>
+  word.signed ? BigInt.asIntN(word.bits, value) : BigInt.asUintN(word.bits, value)
+
+/**
+ * Bit pattern of a value of the word, as an unsigned integer (-1 is 0xFF in a byte)
+ */
+export const bitPattern = (value: bigint, word: WordSize): bigint =>
+  BigInt.asUintN(word.bits, value)
+
+/**
+ * Shift left by `places` bits; bits shifted out of the word are lost
+ */
+export const shiftLeft = (value: bigint, places: bigint, word: WordSize): bigint =>
+  places >= BigInt(word.bits) ? 0n : wrap(value << places, word)
+
+/**
+ * Shift right by `places` bits: arithmetic (copying the sign bit) in signed words, logical in
+ * unsigned ones
+ */
+export const shiftRight = (value: bigint, places: bigint, word: WordSize): bigint => {
+  const bits = BigInt(word.bits)
+  return wrap(value >> (places < bits ? places : bits), word)
+}
+
+/**
+ * Rotate the bits of the word left by `places`, or right for a negative count; bits shifted
+ * out of one end come back in at the other
+ */
+export const rotate = (value: bigint, places: bigint, word: WordSize): bigint => {
+  const bits = BigInt(word.bits)
+  const shift = ((places % bits) + bits) % bits
+  const pattern = bitPattern(value, word)
+  return wrap((pattern << shift) | (pattern >> (bits - shift)), word)
+}
+
+/**
+ * Flip bit `bit` (0 is the least significant) of a value of the word
+ */
+export const flipBit = (value: bigint, bit: number, word: WordSize): bigint =>
+  wrap(value ^ (1n << BigInt(bit)), word)
+
+/**
+ * Read integer text: decimal, or a hexadecimal, octal or binary literal such as `0xFF`, with
+ * an optional minus sign
+ * @returns null when the text is not an integer
+ */
+export const parseInteger = (text: string): bigint | null => {
+  const match = /^(-?)(\d+|0x[\da-f]+|0o[0-7]+|0b[01]+)$/i.exec(text.trim())
+  if (!match) {
+    return null
+  }
+  const value = BigInt(match[2])
+  return match[1] ? -value : value
+}
+
+/**
+ * Text of a value of the word in a base: decimal shows the value (-1), the other bases show
+ * its bit pattern with the literal prefix (0xFF)
+ */
+export const formatInteger = (value: bigint, base: NumberBase, word: WordSize): string =>
+  base === 'dec'
+    ? value.toString()
+    : basePrefix[base] + bitPattern(value, word).toString(baseRadix[base]).toUpperCase()
+
+/**
+ * Value of a digit key (0–9, A–F) in a base, or null when the base has no such digit
+ */
+export const digitValue = (digit: string, base: NumberBase): number | null => {
+  const value = /^[\dA-F]$/.test(digit) ? parseInt(digit, 16) : NaN
+  return value < baseRadix[base] ? value : null
+}
@@ -0,0 +1,450 @@
+/**
+ * Quantity Expression Evaluator
+ * Evaluates the expression AST in floating point with units of measurement: `3 m/s * 2 min`
+ * is 360 m and `72 km/h to m/s` is 20 m/s. Values without units take the same steps as
+ * evaluateNode, so plain arithmetic gives identical results. Values may also be matrices,
+ * whose steps are in the matrix evaluator.
+ */
+
+import {
+  BinaryNode,
+  CallNode,
+  ComparisonNode,
+  ConversionNode,
+  EvaluationContext,
+  ExpressionNode,
+  MatrixNode,
+} from '@/types/expression'
+import { CalculatorError } from '@/utils/calculator-errors'
+import { factorial } from '@/utils/calculator-math'
+import {
+  applyBinaryOperator,
+  builtinConstants,
+  checkBinaryOperands,
+  checkDomain,
+  checkResult,
+  comparisonHolds,
+  entryOf,
+  evaluateSpecialCall,
+  factorialDomain,
+  lookupFunction,
+  NodeEvaluator,
+  resolveList,
+  resolvePhysicalConstant,
+  resolveVariable,
+  undefinedName,
+} from '@/utils/expression-evaluator'
+import { Matrix } from '@/utils/matrix'
+import {
+  applyListFunction,
+  applyMatrixFunction,
+  applyMatrixOperator,
+  buildMatrix,
+  expectScalar,
+  isListFunction,
+} from '@/utils/matrix-evaluator'
+import {
+  formatUnits,
+  isUnitName,
+  Quantity,
+  roundConverted,
+  sameDimension,
+  UnitTerm,
+} from '@/utils/units'
+
+/**
+ * Value of a floating-point expression: a number with or without units, or a matrix
+ */
+export type FloatValue = Quantity | Matrix
+
+/**
+ * Functions that take a value with units and return it raised to a power (sqrt(9 m^2) = 3 m);
+ * every other function needs plain numbers
+ */
+const powerFunctions: Record<string, (args: Quantity[]) => number> = {
+  sqrt: () => 1 / 2,
+  cbrt: () => 1 / 3,
+  square: () => 2,
+  cube: () => 3,
+  reciprocal: () => -1,
+  nroot: ([, n]) => 1 / n.value,
+}
+
+/**
+ * Functions that keep the units of their arguments (abs(-3 m) = 3 m)
+ */
+const unitPreservingFunctions = new Set([
+  'abs',
+  'min',
+  'max',
+  'sum',
+  'mean',
+  'median',
+  'mode',
+  'stdev',
+  'pstdev',
+  're',
+  'conj',
+  'floor',
+  'ceil',
+  'round',
+])
+
+/**
+ * Unit text of a quantity for messages: `m/s`, or "a number" without units
+ */
+const describeUnits = (quantity: Quantity): string =>
+  quantity.hasUnits() ? formatUnits(quantity.terms) : 'a number'
+
+const needsNumber = (operation: string, node: ExpressionNode, value: Quantity) =>
+  new CalculatorError(
+    'units',
+    `${operation} needs a number without units, not ${describeUnits(value)}`,
+    node
+  )
+
+/**
+ * Check that two values can be added or compared, and express the right one in the units of
+ * the left; a plain zero takes the other side's units. Temperatures are compared as points on
+ * their scales (0 degC > 0 degF) but added as differences (20 degC + 9 degF is 25 degC)
+ */
+const alignOperands = (
+  node: BinaryNode | ComparisonNode,
+  left: Quantity,
+  right: Quantity,
+  verb: string
+): [Quantity, Quantity] => {
+  if (!left.isCompatible(right)) {
+    throw new CalculatorError(
+      'units',
+      `Cannot ${verb} ${describeUnits(left)} and ${describeUnits(right)}`,
+      node
+    )
+  }
+  if (!left.hasUnits()) {
+    return [right.withValue(left.value), right]
+  }
+  return [
+    left,
+    right.hasUnits()
+      ? right.convertTo(left.terms, verb === 'compare')
+      : left.withValue(right.value),
+  ]
+}
+
+/**
+ * Raise a value with units to a power; the units must stay whole powers of SI base units
+ * @param compute - Numeric result for the value in the units it is raised in
+ */
+const raise = (
+  node: ExpressionNode,
+  base: Quantity,
+  exponent: number,
+  compute: (value: number) => number,
+  operation: string
+): Quantity => {
+  const terms = base.raisedTerms(exponent)
+  if (terms) {
+    return new Quantity(compute(base.value), terms)
+  }
+  // sqrt(1 N/(kg m)) has whole base units (1/s) but not whole newtons
+  const inBase = base.toBaseUnits()
+  const baseTerms = inBase.raisedTerms(exponent)
+  if (!baseTerms) {
+    throw new CalculatorError(
+      'units',
+      `${operation} of ${describeUnits(base)} is not a whole power of a unit`,
+      node
+    )
+  }
+  return new Quantity(compute(inBase.value), baseTerms)
+}
+
+const evaluateBinary = (node: BinaryNode, context: EvaluationContext): FloatValue => {
+  const leftValue = evaluateQuantityNode(node.left, context)
+  const rightValue = evaluateQuantityNode(node.right, context)
+  if (leftValue instanceof Matrix || rightValue instanceof Matrix) {
+    return applyMatrixOperator(node, leftValue, rightValue)
+  }
+  let [left, right] = [leftValue, rightValue]
+  const numeric = (a: number, b: number) =>
+    checkResult(applyBinaryOperator(node.operator, a, b), [a, b], node, 'The result')
+  checkBinaryOperands(
+    node,
+    { zero: left.value === 0, negative: left.value < 0, integer: Number.isInteger(left.value) },
+    { zero: right.value === 0, negative: right.value < 0, integer: Number.isInteger(right.value) }
+  )
+
+  switch (node.operator) {
+    case '+':
+    case '-':
+      ;[left, right] = alignOperands(node, left, right, node.operator === '+' ? 'add' : 'subtract')
+      return left.withValue(numeric(left.value, right.value))
+    case '*':
+    case '/': {
+      const { terms, scale } = left.combine(right, node.operator === '*' ? 1 : -1)
+      const value = numeric(left.value, right.value * scale)
+      // A rounded scale such as 1/3600 for s → h leaves noise past the conversion precision
+      return new Quantity(scale === 1 ? value : roundConverted(value), terms)
+    }
+    case '^':
+      if (right.hasUnits()) {
+        throw needsNumber('An exponent', node.right, right)
+      }
+      if (!left.hasUnits()) {
+        return new Quantity(numeric(left.value, right.value))
+      }
+      return raise(node, left, right.value, value => numeric(value, right.value), 'A power')
+  }
+}
+
+const evaluateComparison = (node: ComparisonNode, context: EvaluationContext): Quantity => {
+  const [left, right] = alignOperands(
+    node,
+    expectScalar(evaluateQuantityNode(node.left, context), node.left, 'A comparison'),
+    expectScalar(evaluateQuantityNode(node.right, context), node.right, 'A comparison'),
+    'compare'
+  )
+  return new Quantity(comparisonHolds(node.operator, Math.sign(left.value - right.value)) ? 1 : 0)
+}
+
+/**
+ * Units named by the target of a conversion: unit names, products, quotients and whole
+ * powers, as in `m/s` or `kg m^2/s^2`
+ * @throws CalculatorError at anything else, such as a number or a variable
+ */
+const targetTerms = (node: ExpressionNode, sign = 1): UnitTerm[] => {
+  if (node.type === 'identifier' && isUnitName(node.name)) {
+    return [{ unit: node.name, power: sign }]
+  }
+  if (node.type === 'binary' && (node.operator === '*' || node.operator === '/')) {
+    return [
+      ...targetTerms(node.left, sign),
+      ...targetTerms(node.right, node.operator === '/' ? -sign : sign),
+    ]
+  }
+  if (node.type === 'binary' && node.operator === '^') {
+    const exponent = node.right
+    const power =
+      exponent.type === 'number'
+        ? exponent.value
+        : exponent.type === 'unary' && exponent.operand.type === 'number'
+          ? exponent.operator === '-'
+            ? -exponent.operand.value
+            : exponent.operand.value
+          : NaN
+    if (Number.isInteger(power)) {
+      return targetTerms(node.left, sign * power)
+    }
+  }
+  throw new CalculatorError('units', 'Convert to units, such as m/s or ft', node)
+}
+
+const evaluateConversion = (node: ConversionNode, context: EvaluationContext): Quantity => {
+  const value = expectScalar(evaluateQuantityNode(node.value, context), node.value, 'Conversion')
+  // Powers of one unit add up, so `to m m` is the same as `to m^2`
+  const terms: UnitTerm[] = []
+  targetTerms(node.unit).forEach(({ unit, power }) => {
+    const term = terms.find(existing => existing.unit === unit)
+    if (term) term.power += power
+    else terms.push({ unit, power })
+  })
+  const target = new Quantity(1, terms)
+  if (!target.hasUnits()) {
+    throw new CalculatorError(
+      'units',
+      'The units cancel out; convert to units, such as m/s',
+      node.unit
+    )
+  }
+  if (!value.hasUnits() && value.value === 0) {
+    return target.withValue(0)
+  }
+  if (!sameDimension(value.dimension, target.dimension)) {
+    throw new CalculatorError(
+      'units',
+      `Cannot convert ${describeUnits(value)} to ${formatUnits(target.terms)}`,
+      node
+    )
+  }
+  return value.convertTo(target.terms, true)
+}
+
+const quantityEvaluator: NodeEvaluator<FloatValue> = {
+  evaluate: (node, context) => evaluateQuantityNode(node, context),
+  // A matrix holds when any entry is non-zero
+  isTrue: value => (value instanceof Matrix ? value.maxAbs() !== 0 : value.value !== 0),
+  toText: value => value.toString(),
+}
+
+const evaluateMatrix = (node: MatrixNode, context: EvaluationContext): Matrix =>
+  buildMatrix(
+    node,
+    node.rows.map(row => row.map(entry => evaluateQuantityNode(entry, context)))
+  )
+
+/**
+ * Whether a node names a data list without values, which no matrix column can hold
+ */
+const isEmptyList = (node: ExpressionNode, context: EvaluationContext): boolean =>
+  resolveList(node, context, () => null)?.length === 0
+
+const evaluateCall = (node: CallNode, context: EvaluationContext): FloatValue => {
+  const special = evaluateSpecialCall(node, context, quantityEvaluator)
+  if (special !== undefined) {
+    return special
+  }
+  const definition = lookupFunction(node)
+  // An empty list adds no values, so mean(E) fails the domain check for having none
+  const argNodes =
+    definition.maxArgs === Infinity
+      ? node.args.filter(arg => !isEmptyList(arg, context))
+      : node.args
+  const values = argNodes.map(arg => evaluateQuantityNode(arg, context))
+  const args = values.filter((value): value is Quantity => value instanceof Quantity)
+  if (args.length < values.length) {
+    return applyMatrixFunction(node, values, context)
+  }
+  const numeric = (numbers: number[]) => {
+    checkDomain(node, definition, numbers, context)
+    return checkResult(definition.evaluate(numbers, context), numbers, node, node.callee)
+  }
+
+  const withUnits = args.findIndex(arg => arg.hasUnits())
+  if (withUnits === -1 && isListFunction(node.callee)) {
+    return applyListFunction(
+      node,
+      args.map(arg => arg.value),
+      context
+    )
+  }
+  if (withUnits === -1) {
+    return new Quantity(numeric(args.map(arg => arg.value)))
+  }
+
+  const power = entryOf(powerFunctions, node.callee)
+  if (power && withUnits === 0 && !args.slice(1).some(arg => arg.hasUnits())) {
+    const [base, ...rest] = args
+    return raise(
+      node,
+      base,
+      power(args),
+      value => numeric([value, ...rest.map(arg => arg.value)]),
+      node.callee
+    )
+  }
+  if (unitPreservingFunctions.has(node.callee)) {
+    // min(1 ft, 30 cm) compares in the units of the first argument
+    const [first] = args
+    const aligned = args.map((arg, k) => {
+      if (!first.isCompatible(arg)) {
+        throw new CalculatorError(
+          'units',
+          `${node.callee} needs arguments in the same kind of unit`,
+          argNodes[k]
+        )
+      }
+      return arg.hasUnits() ? arg.convertTo(first.terms) : arg
+    })
+    return new Quantity(
+      numeric(aligned.map(arg => arg.value)),
+      first.hasUnits() ? first.terms : args[withUnits].terms
+    )
+  }
+  throw needsNumber(node.callee, argNodes[withUnits], args[withUnits])
+}
+
+/**
+ * Evaluate an AST node in floating point with units and matrices
+ * Names resolve to constants, then variables, then data lists (a column), then units, so a
+ * variable `m` hides the metre.
+ * @param node - Node to evaluate
+ * @param context - Evaluation settings (angle mode, variables, functions)
+ * @returns The value and its units, where plain numbers have no units, or a matrix
+ * @throws CalculatorError with the range of the offending node, with code `units` for
+ *   mismatched units
+ */
+export const evaluateQuantityNode = (
+  node: ExpressionNode,
+  context: EvaluationContext
+): FloatValue => {
+  switch (node.type) {
+    case 'number':
+      return new Quantity(node.value)
+
+    case 'identifier': {
+      const constant = entryOf(builtinConstants, node.name)
+      if (constant !== undefined) {
+        return new Quantity(constant)
+      }
+      const value = resolveVariable(node, context, evaluateQuantityNode)
+      if (value !== undefined) {
+        return value
+      }
+      // A data list is a column, which statistics functions read as its values
+      const list = resolveList(node, context, evaluateQuantityNode)
+      if (list?.length === 0) {
+        throw new CalculatorError('domain', `'${node.name}' is an empty list`, node)
+      }
+      if (list) {
+        return buildMatrix(
+          { type: 'matrix', rows: list.map(() => [node]), start: node.start, end: node.end },
+          list.map(entry => [entry])
+        )
+      }
+      const physical = resolvePhysicalConstant(node, context, evaluateQuantityNode, true)
+      if (physical !== undefined) {
+        return physical
+      }
+      if (isUnitName(node.name)) {
+        return Quantity.unit(node.name)
+      }
+      throw undefinedName(node)
+    }
+
+    case 'unary': {
+      const operand = evaluateQuantityNode(node.operand, context)
+      if (node.operator === '+') {
+        return operand
+      }
+      return operand instanceof Matrix ? operand.scale(-1) : operand.withValue(-operand.value)
+    }
+
+    case 'binary':
+      return evaluateBinary(node, context)
+
+    case 'postfix': {
+      const operand = expectScalar(
+        evaluateQuantityNode(node.operand, context),
+        node.operand,
+        node.operator === '%' ? 'A percentage' : 'Factorial'
+      )
+      if (node.operator === '%') {
+        return operand.withValue(operand.value / 100)
+      }
+      if (operand.hasUnits()) {
+        throw needsNumber('Factorial', node.operand, operand)
+      }
+      if (!factorialDomain.test([operand.value], context)) {
+        throw new CalculatorError(
+          'domain',
+          `Factorial is only defined for ${factorialDomain.description}`,
+          node.operand
+        )
+      }
+      return new Quantity(checkResult(factorial(operand.value), [operand.value], node, 'Factorial'))
+    }
+
+    case 'comparison':
+      return evaluateComparison(node, context)
+
+    case 'conversion':
+      return evaluateConversion(node, context)
+
+    case 'matrix':
+      return evaluateMatrix(node, context)
+
+    case 'call':
+      return evaluateCall(node, context)
+  }
+}
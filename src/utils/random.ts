@@ -0,0 +1,60 @@
+/**
+ * Random Numbers
+ * Seeded pseudo-random generator (Mulberry32), so the same seed repeats the same draws, and
+ * the uniform draws built on it
+ */
+
+import { RandomSource } from '@/types/expression'
+
+/**
+ * Numbers a 32-bit state can take; seeds are reduced modulo it
+ */
+const STATE_SIZE = 2 ** 32
+
+/**
+ * Generator state of a whole-number seed; seeds that differ by a multiple of 2^32 coincide
+ */
+export const seedState = (seed: number): number => Number(BigInt.asUintN(32, BigInt(seed)))
+
+export class RandomGenerator implements RandomSource {
+  /** 32-bit state, advanced by every draw; a generator made from it repeats the later draws */
+  state: number
+
+  constructor(state: number) {
+    this.state = state >>> 0
+  }
+
+  /**
+   * Next number in [0, 1), a multiple of 2^−32
+   */
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0
+    let z = this.state
+    z = Math.imul(z ^ (z >>> 15), z | 1)
+    z ^= z + Math.imul(z ^ (z >>> 7), z | 61)
+    return ((z ^ (z >>> 14)) >>> 0) / STATE_SIZE
+  }
+}
+
+/**
+ * Source used when no seeded generator is given
+ */
+export const unseededRandom: RandomSource = { next: () => Math.random() }
+
+/**
+ * Number in the open interval (0, 1), for inverting a distribution function whose inverse is
+ * infinite at 0
+ */
+export const openUniform = (random: RandomSource): number => {
+  let u = random.next()
+  while (u === 0) {
+    u = random.next()
+  }
+  return u
+}
+
+/**
+ * Whole number from a to b inclusive, for integers a ≤ b
+ */
+export const randomInteger = (random: RandomSource, a: number, b: number): number =>
+  a + Math.floor(random.next() * (b - a + 1))
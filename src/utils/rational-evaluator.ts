@@ -0,0 +1,312 @@
+/**
+ * Rational Expression Evaluator
+ * Evaluates the expression AST keeping exact fractions (1/3 + 1/6 = 1/2). Operations with
+ * no exact rational result, such as sin or √2, fall back to floating point from there on;
+ * their result text is marked approximate (≈1.4142135623730951) so it is read back as a float.
+ */
+
+import { BinaryNode, CallNode, EvaluationContext, ExpressionNode } from '@/types/expression'
+import { CalculatorError } from '@/utils/calculator-errors'
+import {
+  applyBinaryOperator,
+  builtinConstants,
+  builtinFunctions,
+  checkBinaryOperands,
+  checkDomain,
+  checkResult,
+  comparisonHolds,
+  conversionUnavailable,
+  entryOf,
+  evaluateArguments,
+  evaluateSpecialCall,
+  factorialDomain,
+  lookupFunction,
+  matrixUnavailable,
+  NodeEvaluator,
+  resolvePhysicalConstant,
+  resolveVariable,
+  undefinedName,
+  withinRange,
+} from '@/utils/expression-evaluator'
+import { APPROXIMATE } from '@/utils/expression-parser'
+import {
+  bigCombinations,
+  bigFactorial,
+  bigPermutations,
+  chineseRemainder,
+  congruencesOf,
+  eulerPhi,
+  isPrime,
+  modInverse,
+  modPow,
+} from '@/utils/number-theory'
+import { Rational, bigGcd, bigLcm } from '@/utils/rational'
+import {
+  mean,
+  median,
+  mode,
+  quantile,
+  StatisticsArithmetic,
+  sum,
+  variance,
+} from '@/utils/statistics'
+
+/**
+ * An exact fraction, or a floating-point approximation once exactness is lost
+ */
+export type RationalValue = Rational | number
+
+/**
+ * Exact implementation of a built-in function; null when the result is irrational
+ */
+type RationalFunction = (args: Rational[]) => Rational | null
+
+/**
+ * Largest root index tried exactly; higher indices go straight to floating point
+ */
+const MAX_EXACT_ROOT = 64
+
+const toNumber = (value: RationalValue): number =>
+  typeof value === 'number' ? value : value.toNumber()
+
+/**
+ * Exact n-th root for an integer index, negative indices giving the reciprocal
+ */
+const exactRoot = (x: Rational, index: Rational): Rational | null => {
+  if (
+    !index.isInteger() ||
+    index.isZero() ||
+    index.abs().compare(new Rational(BigInt(MAX_EXACT_ROOT))) > 0
+  ) {
+    return null
+  }
+  const root = x.root(Math.abs(Number(index.numerator)))
+  return root && index.isNegative() ? root.reciprocal() : root
+}
+
+const exactFactorial = (n: Rational): Rational => new Rational(bigFactorial(n.numerator))
+
+const HALF = new Rational(1n, 2n)
+
+const exactArithmetic: StatisticsArithmetic<Rational> = {
+  fromInteger: n => new Rational(BigInt(n)),
+  add: (a, b) => a.add(b),
+  subtract: (a, b) => a.subtract(b),
+  multiply: (a, b) => a.multiply(b),
+  divide: (a, b) => a.divide(b),
+  compare: (a, b) => a.compare(b),
+}
+
+/**
+ * Quantile at the last argument divided by `scale`, of the values before it
+ */
+const exactQuantile =
+  (scale: bigint): RationalFunction =>
+  args =>
+    quantile(exactArithmetic, args.slice(0, -1), args[args.length - 1].divide(new Rational(scale)))
+
+/**
+ * Built-in functions that can keep their result exact; names, arity and domains come from
+ * builtinFunctions
+ */
+export const rationalFunctions: Record<string, RationalFunction> = {
+  sqrt: ([x]) => x.root(2),
+  cbrt: ([x]) => x.root(3),
+  nroot: ([x, n]) => exactRoot(x, n),
+  square: ([x]) => x.multiply(x),
+  cube: ([x]) => x.multiply(x).multiply(x),
+  reciprocal: ([x]) => x.reciprocal(),
+  abs: ([x]) => x.abs(),
+  floor: ([x]) => x.floor(),
+  ceil: ([x]) => x.ceil(),
+  // Halves round up, like Math.round
+  round: ([x]) => x.add(HALF).floor(),
+  factorial: ([x]) => (x.isInteger() ? exactFactorial(x) : null),
+  min: args => args.reduce((best, arg) => (arg.compare(best) < 0 ? arg : best)),
+  max: args => args.reduce((best, arg) => (arg.compare(best) > 0 ? arg : best)),
+  gcd: args => new Rational(args.map(arg => arg.numerator).reduce(bigGcd)),
+  lcm: args => new Rational(args.map(arg => arg.numerator).reduce(bigLcm)),
+  ncr: ([n, r]) => new Rational(bigCombinations(n.numerator, r.numerator)),
+  npr: ([n, r]) => new Rational(bigPermutations(n.numerator, r.numerator)),
+  isprime: ([n]) => (isPrime(n.numerator) ? Rational.ONE : Rational.ZERO),
+  totient: ([n]) => new Rational(eulerPhi(n.numerator)),
+  powmod: ([b, e, m]) => new Rational(modPow(b.numerator, e.numerator, m.numerator)),
+  invmod: ([a, m]) => new Rational(modInverse(a.numerator, m.numerator) ?? 0n),
+  crt: args => {
+    const { residues, moduli } = congruencesOf(args.map(arg => arg.numerator))
+    return new Rational(chineseRemainder(residues, moduli)?.residue ?? 0n)
+  },
+  count: args => new Rational(BigInt(args.length)),
+  sum: args => sum(exactArithmetic, args),
+  mean: args => mean(exactArithmetic, args),
+  median: args => median(exactArithmetic, args),
+  mode: args => mode(exactArithmetic, args),
+  variance: args => variance(exactArithmetic, args, true),
+  pvariance: args => variance(exactArithmetic, args, false),
+  // Exact while the variance is a perfect square
+  stdev: args => variance(exactArithmetic, args, true).root(2),
+  pstdev: args => variance(exactArithmetic, args, false).root(2),
+  quartile: exactQuantile(4n),
+  percentile: exactQuantile(100n),
+  // Matrices need float arithmetic; a plain number is a 1×1 matrix
+  det: ([x]) => x,
+  inv: ([x]) => x.reciprocal(),
+  transpose: ([x]) => x,
+  eig: ([x]) => x,
+  solve: ([a, b]) => b.divide(a),
+  dot: ([a, b]) => a.multiply(b),
+  norm: ([x]) => x.abs(),
+}
+
+const factsOf = (value: RationalValue) =>
+  typeof value === 'number'
+    ? { zero: value === 0, negative: value < 0, integer: Number.isInteger(value) }
+    : { zero: value.isZero(), negative: value.isNegative(), integer: value.isInteger() }
+
+/**
+ * Exact binary operation, or null when the result is irrational (2 ^ 0.5)
+ */
+const exactBinary = (node: BinaryNode, left: Rational, right: Rational): Rational | null => {
+  switch (node.operator) {
+    case '+':
+      return left.add(right)
+    case '-':
+      return left.subtract(right)
+    case '*':
+      return left.multiply(right)
+    case '/':
+      return left.divide(right)
+    case '^':
+      if (right.isInteger()) {
+        return left.pow(right.numerator)
+      }
+      // x^(p/q) is exact when x has an exact q-th root
+      return exactRoot(left, new Rational(right.denominator))?.pow(right.numerator) ?? null
+  }
+}
+
+const evaluateBinary = (node: BinaryNode, context: EvaluationContext): RationalValue => {
+  const left = evaluateRationalNode(node.left, context)
+  const right = evaluateRationalNode(node.right, context)
+  checkBinaryOperands(node, factsOf(left), factsOf(right))
+
+  if (left instanceof Rational && right instanceof Rational) {
+    const exact = withinRange(() => exactBinary(node, left, right), node, 'The result')
+    if (exact) return exact
+  }
+  const inputs = [toNumber(left), toNumber(right)]
+  return checkResult(
+    applyBinaryOperator(node.operator, inputs[0], inputs[1]),
+    inputs,
+    node,
+    'The result'
+  )
+}
+
+const rationalEvaluator: NodeEvaluator<RationalValue> = {
+  evaluate: (node, context) => evaluateRationalNode(node, context),
+  isTrue: value => (typeof value === 'number' ? value !== 0 : !value.isZero()),
+  toText: value => (typeof value === 'number' ? `${APPROXIMATE}${value}` : value.toString()),
+}
+
+/**
+ * Sign of left − right, exact while both values are
+ */
+const compareValues = (left: RationalValue, right: RationalValue): number =>
+  left instanceof Rational && right instanceof Rational
+    ? left.compare(right)
+    : Math.sign(toNumber(left) - toNumber(right))
+
+const evaluateCall = (node: CallNode, context: EvaluationContext): RationalValue => {
+  const special = evaluateSpecialCall(node, context, rationalEvaluator)
+  if (special !== undefined) {
+    return special
+  }
+  const definition = lookupFunction(node)
+  const args = evaluateArguments(node, context, evaluateRationalNode)
+  const numbers = args.map(toNumber)
+  checkDomain(node, definition, numbers, context)
+
+  const exactFunction = entryOf(rationalFunctions, node.callee)
+  if (exactFunction && args.every(arg => arg instanceof Rational)) {
+    const exact = withinRange(() => exactFunction(args as Rational[]), node, node.callee)
+    if (exact) return exact
+  }
+  return checkResult(definition.evaluate(numbers, context), numbers, node, node.callee)
+}
+
+/**
+ * Evaluate an AST node keeping exact fractions where possible
+ * @param node - Node to evaluate
+ * @param context - Evaluation settings (angle mode)
+ * @returns A Rational while the result is exact, otherwise a number
+ * @throws CalculatorError with the range of the offending node
+ */
+export const evaluateRationalNode = (
+  node: ExpressionNode,
+  context: EvaluationContext
+): RationalValue => {
+  switch (node.type) {
+    case 'number':
+      return node.approximate
+        ? node.value
+        : withinRange(() => Rational.parse(node.raw), node, 'The number')
+
+    case 'identifier': {
+      const value =
+        entryOf(builtinConstants, node.name) ??
+        resolveVariable(node, context, evaluateRationalNode) ??
+        resolvePhysicalConstant(node, context, evaluateRationalNode)
+      if (value === undefined) {
+        throw undefinedName(node, context)
+      }
+      return value
+    }
+
+    case 'unary': {
+      const operand = evaluateRationalNode(node.operand, context)
+      if (node.operator === '+') return operand
+      return typeof operand === 'number' ? -operand : operand.negate()
+    }
+
+    case 'binary':
+      return evaluateBinary(node, context)
+
+    case 'postfix': {
+      const operand = evaluateRationalNode(node.operand, context)
+      if (node.operator === '%') {
+        return typeof operand === 'number' ? operand / 100 : operand.divide(new Rational(100n))
+      }
+      if (!factorialDomain.test([toNumber(operand)], context)) {
+        throw new CalculatorError(
+          'domain',
+          `Factorial is only defined for ${factorialDomain.description}`,
+          node.operand
+        )
+      }
+      // Γ(x + 1) of a non-integer is irrational
+      if (typeof operand === 'number' || !operand.isInteger()) {
+        const value = builtinFunctions.factorial.evaluate([toNumber(operand)], context)
+        return checkResult(value, [toNumber(operand)], node, 'Factorial')
+      }
+      return withinRange(() => exactFactorial(operand), node, 'Factorial')
+    }
+
+    case 'comparison': {
+      const sign = compareValues(
+        evaluateRationalNode(node.left, context),
+        evaluateRationalNode(node.right, context)
+      )
+      return comparisonHolds(node.operator, sign) ? Rational.ONE : Rational.ZERO
+    }
+
+    case 'conversion':
+      throw conversionUnavailable(node)
+
+    case 'matrix':
+      throw matrixUnavailable(node)
+
+    case 'call':
+      return evaluateCall(node, context)
+  }
+}
@@ -0,0 +1,296 @@
+/**
+ * Exact Rational Numbers
+ * Immutable fractions backed by BigInt, always stored in lowest terms with a positive denominator
+ */
+
+import { FractionForm } from '@/types/calculator'
+import { Decimal } from '@/utils/decimal'
+import { integerRoot } from '@/utils/decimal-math'
+
+/**
+ * Largest bit length a power may produce before it counts as overflow
+ */
+const MAX_POWER_BITS = 100000
+
+/**
+ * Longest fixed + repeating digit run shown in the decimal form
+ */
+export const MAX_REPEATING_DIGITS = 60
+
+const abs = (n: bigint): bigint => (n < 0n ? -n : n)
+
+/**
+ * Greatest common divisor of two integers (always non-negative)
+ */
+export const bigGcd = (a: bigint, b: bigint): bigint => {
+  let x = abs(a)
+  let y = abs(b)
+  while (y !== 0n) {
+    const temp = y
+    y = x % y
+    x = temp
+  }
+  return x
+}
+
+/**
+ * Least common multiple of two integers (always non-negative)
+ */
+export const bigLcm = (a: bigint, b: bigint): bigint =>
+  a === 0n || b === 0n ? 0n : abs(a * b) / bigGcd(a, b)
+
+export class Rational {
+  readonly numerator: bigint
+  readonly denominator: bigint
+
+  /**
+   * @throws RangeError when the denominator is zero
+   */
+  constructor(numerator: bigint, denominator = 1n) {
+    if (denominator === 0n) {
+      throw new RangeError('Division by zero')
+    }
+    const divisor = bigGcd(numerator, denominator) * (denominator < 0n ? -1n : 1n)
+    this.numerator = numerator / divisor
+    this.denominator = denominator / divisor
+  }
+
+  static readonly ZERO = new Rational(0n)
+  static readonly ONE = new Rational(1n)
+
+  /**
+   * Parse `3`, `-1.25`, `2.5e-3`, `7/2` or a repeating decimal such as `0.(3)` or `1.2(34)`
+   * @throws SyntaxError when the text is not a rational number
+   * @throws RangeError when the power of ten of the exponent would be too large
+   */
+  static parse(text: string): Rational {
+    const trimmed = text.trim()
+    const fraction = /^([+-]?\d+)\/(\d+)$/.exec(trimmed)
+    if (fraction) {
+      return new Rational(BigInt(fraction[1]), BigInt(fraction[2]))
+    }
+
+    const match = /^([+-]?)(\d*)(?:\.(\d*)(?:\((\d+)\))?)?(?:e([+-]?\d+))?$/i.exec(trimmed)
+    if (!match || match[2] + (match[3] ?? '') + (match[4] ?? '') === '') {
+      throw new SyntaxError(`'${text}' is not a rational number`)
+    }
+    const [, sign, whole, fixed = '', repeating = '', exponent = '0'] = match
+
+    // 1.2(34): (12 34 − 12) / (10 · 99)
+    const prefix = BigInt(whole + fixed || '0')
+    let value = repeating
+      ? new Rational(
+          BigInt(whole + fixed + repeating) - prefix,
+          10n ** BigInt(fixed.length) * (10n ** BigInt(repeating.length) - 1n)
+        )
+      : new Rational(prefix, 10n ** BigInt(fixed.length))
+
+    const power = Number(exponent)
+    if (power !== 0) {
+      // Checked before building 10^power: 1e100000000 alone would take too long to compute
+      if (Math.abs(power) * Math.log2(10) > MAX_POWER_BITS) {
+        throw new RangeError('Result is too large')
+      }
+      const scale = 10n ** BigInt(Math.abs(power))
+      value = power > 0 ? value.multiply(new Rational(scale)) : value.divide(new Rational(scale))
+    }
+    return sign === '-' ? value.negate() : value
+  }
+
+  static fromDecimal(value: Decimal): Rational {
+    return value.exponent >= 0
+      ? new Rational(value.coefficient * 10n ** BigInt(value.exponent))
+      : new Rational(value.coefficient, 10n ** BigInt(-value.exponent))
+  }
+
+  get sign(): -1 | 0 | 1 {
+    return this.numerator === 0n ? 0 : this.numerator < 0n ? -1 : 1
+  }
+
+  isZero(): boolean {
+    return this.numerator === 0n
+  }
+
+  isNegative(): boolean {
+    return this.numerator < 0n
+  }
+
+  isInteger(): boolean {
+    return this.denominator === 1n
+  }
+
+  negate(): Rational {
+    return new Rational(-this.numerator, this.denominator)
+  }
+
+  abs(): Rational {
+    return this.isNegative() ? this.negate() : this
+  }
+
+  /**
+   * @throws RangeError for zero
+   */
+  reciprocal(): Rational {
+    return new Rational(this.denominator, this.numerator)
+  }
+
+  add(other: Rational): Rational {
+    // Scale both fractions to the least common denominator
+    const denominator = bigLcm(this.denominator, other.denominator)
+    return new Rational(
+      this.numerator * (denominator / this.denominator) +
+        other.numerator * (denominator / other.denominator),
+      denominator
+    )
+  }
+
+  subtract(other: Rational): Rational {
+    return this.add(other.negate())
+  }
+
+  multiply(other: Rational): Rational {
+    return new Rational(this.numerator * other.numerator, this.denominator * other.denominator)
+  }
+
+  /**
+   * @throws RangeError when dividing by zero
+   */
+  divide(other: Rational): Rational {
+    return new Rational(this.numerator * other.denominator, this.denominator * other.numerator)
+  }
+
+  /**
+   * Integer power
+   * @throws RangeError for 0 to a negative power or results that are too large
+   */
+  pow(exponent: bigint): Rational {
+    // 0, 1 and −1 stay small under any power
+    if (abs(this.numerator) <= 1n && this.denominator === 1n) {
+      if (exponent === 0n) return Rational.ONE
+      if (this.isZero() && exponent < 0n) throw new RangeError('Division by zero')
+      return this.isNegative() && exponent % 2n === 0n ? Rational.ONE : this
+    }
+    const bits = Math.max(this.numerator.toString(2).length, this.denominator.toString(2).length)
+    if (bits * Math.abs(Number(exponent)) > MAX_POWER_BITS) {
+      throw new RangeError('Result is too large')
+    }
+    const magnitude = abs(exponent)
+    const result = new Rational(this.numerator ** magnitude, this.denominator ** magnitude)
+    return exponent < 0n ? result.reciprocal() : result
+  }
+
+  /**
+   * Exact real k-th root, or null when the root is irrational
+   */
+  root(k: number): Rational | null {
+    if (this.isNegative()) {
+      if (k % 2 === 0) return null
+      return this.negate().root(k)?.negate() ?? null
+    }
+    const numerator = integerRoot(this.numerator, k)
+    const denominator = integerRoot(this.denominator, k)
+    const exact =
+      numerator ** BigInt(k) === this.numerator && denominator ** BigInt(k) === this.denominator
+    return exact ? new Rational(numerator, denominator) : null
+  }
+
+  /**
+   * Integer part, rounding toward zero
+   */
+  truncate(): Rational {
+    return new Rational(this.numerator / this.denominator)
+  }
+
+  floor(): Rational {
+    const truncated = this.truncate()
+    return this.isNegative() && !this.isInteger() ? truncated.subtract(Rational.ONE) : truncated
+  }
+
+  ceil(): Rational {
+    const truncated = this.truncate()
+    return !this.isNegative() && !this.isInteger() ? truncated.add(Rational.ONE) : truncated
+  }
+
+  compare(other: Rational): -1 | 0 | 1 {
+    return this.subtract(other).sign
+  }
+
+  equals(other: Rational): boolean {
+    return this.numerator === other.numerator && this.denominator === other.denominator
+  }
+
+  toNumber(): number {
+    return this.toDecimal(17).toNumber()
+  }
+
+  /**
+   * Decimal value rounded to the given significant digits
+   */
+  toDecimal(digits: number): Decimal {
+    return new Decimal(this.numerator).divide(new Decimal(this.denominator), digits)
+  }
+
+  /**
+   * Improper fraction text: `7/2`, `-1/3`, `4`
+   */
+  toString(): string {
+    return this.isInteger() ? String(this.numerator) : `${this.numerator}/${this.denominator}`
+  }
+
+  /**
+   * Mixed number text: `3 1/2`, `-3 1/2`; proper fractions and integers as in toString
+   */
+  toMixedString(): string {
+    const whole = this.numerator / this.denominator
+    if (whole === 0n || this.isInteger()) {
+      return this.toString()
+    }
+    return `${whole} ${abs(this.numerator % this.denominator)}/${this.denominator}`
+  }
+
+  /**
+   * Exact decimal text with the repeating block in parentheses: `0.25`, `0.1(6)`, `-0.(142857)`
+   * @returns null when the digits before the block repeats would exceed `maxDigits`
+   */
+  toRepeatingString(maxDigits = MAX_REPEATING_DIGITS): string | null {
+    const sign = this.isNegative() ? '-' : ''
+    const numerator = abs(this.numerator)
+    const whole = numerator / this.denominator
+    let remainder = numerator % this.denominator
+    if (remainder === 0n) {
+      return `${sign}${whole}`
+    }
+
+    // Long division until a remainder repeats (or the division ends)
+    const seen = new Map<bigint, number>()
+    let digits = ''
+    while (remainder !== 0n && !seen.has(remainder)) {
+      if (digits.length >= maxDigits) {
+        return null
+      }
+      seen.set(remainder, digits.length)
+      remainder *= 10n
+      digits += String(remainder / this.denominator)
+      remainder %= this.denominator
+    }
+    if (remainder === 0n) {
+      return `${sign}${whole}.${digits}`
+    }
+    const start = seen.get(remainder) as number
+    return `${sign}${whole}.${digits.slice(0, start)}(${digits.slice(start)})`
+  }
+
+  /**
+   * Text in the requested form; long repeating decimals fall back to rounded digits
+   */
+  format(form: FractionForm): string {
+    switch (form) {
+      case 'fraction':
+        return this.toString()
+      case 'mixed':
+        return this.toMixedString()
+      case 'decimal':
+        return this.toRepeatingString() ?? this.toDecimal(MAX_REPEATING_DIGITS).toString()
+    }
+  }
+}
@@ -0,0 +1,229 @@
+/**
+ * Regression
+ * Least-squares fits of y on x: linear, polynomial, exponential, logarithmic and power models.
+ * The curved models are fitted as straight lines through transformed data (ln y against x for
+ * the exponential), which is also how spreadsheet trendlines and graphing calculators fit them.
+ */
+
+export type RegressionModel = 'linear' | 'polynomial' | 'exponential' | 'logarithmic' | 'power'
+
+/**
+ * Models in the order a fit is offered, with the equation each one fits
+ */
+export const regressionModels: {
+  model: RegressionModel
+  label: string
+  form: string
+}[] = [
+  { model: 'linear', label: 'Linear', form: 'y = a + b x' },
+  { model: 'polynomial', label: 'Polynomial', form: 'y = c0 + c1 x + … + cn x^n' },
+  { model: 'exponential', label: 'Exponential', form: 'y = a e^(b x)' },
+  { model: 'logarithmic', label: 'Logarithmic', form: 'y = a + b ln(x)' },
+  { model: 'power', label: 'Power', form: 'y = a x^b' },
+]
+
+/**
+ * Highest polynomial degree offered; higher degrees are numerically unreliable
+ */
+export const MAX_POLYNOMIAL_DEGREE = 6
+
+/**
+ * Significant digits kept by coefficients, which drops the rounding noise of the elimination
+ */
+const COEFFICIENT_DIGITS = 15
+
+export interface Regression {
+  model: RegressionModel
+  /** a and b of the model's equation, or c0 to cn for a polynomial */
+  coefficients: number[]
+  /** Coefficient of determination of the fitted line, for curved models in transformed data */
+  r2: number
+  /** Observed minus predicted y for each point, in the order of the data */
+  residuals: number[]
+  /** Right-hand side of the fitted equation as an expression in x, e.g. `1.5 + 2 * x` */
+  equation: string
+}
+
+export type RegressionResult = { ok: true; regression: Regression } | { ok: false; message: string }
+
+/**
+ * Names of the coefficients of a fit, in the order of Regression.coefficients
+ */
+export const coefficientNames = (regression: Regression): string[] =>
+  regression.model === 'polynomial' ? regression.coefficients.map((_, k) => `c${k}`) : ['a', 'b']
+
+/**
+ * `A linear fit`, `An exponential fit`
+ */
+const fitName = (model: RegressionModel): string =>
+  `${/^[aeiou]/.test(model) ? 'An' : 'A'} ${model} fit`
+
+const round = (value: number): number => Number(value.toPrecision(COEFFICIENT_DIGITS))
+
+/**
+ * Relative size below which a column of the design matrix counts as dependent on the others
+ */
+const RANK_TOLERANCE = 1e-12
+
+/**
+ * Least-squares polynomial coefficients c0 to c(degree), by Householder QR of the design matrix
+ * rather than the normal equations, which square its condition number and lose digits
+ * @returns null when the x values cannot determine them (too few distinct values)
+ */
+const polynomialCoefficients = (xs: number[], ys: number[], degree: number): number[] | null => {
+  const n = degree + 1
+  // The design matrix with y as an extra column, reduced in place to R and Qᵀy
+  const rows = xs.map((x, i) => [...Array.from({ length: n }, (_, k) => x ** k), ys[i]])
+  for (let k = 0; k < n; k++) {
+    const column = rows.slice(k).map(row => row[k])
+    const norm = Math.hypot(...column)
+    const alpha = column[0] > 0 ? -norm : norm
+    const v = column.map((value, i) => (i === 0 ? value - alpha : value))
+    const vv = v.reduce((total, value) => total + value * value, 0)
+    if (vv === 0) continue
+    for (let j = k; j <= n; j++) {
+      const factor = (2 * v.reduce((total, value, i) => total + value * rows[k + i][j], 0)) / vv
+      v.forEach((value, i) => (rows[k + i][j] -= factor * value))
+    }
+  }
+
+  const scale = Math.max(...rows.slice(0, n).map((row, k) => Math.abs(row[k])))
+  const coefficients = new Array<number>(n)
+  for (let k = n - 1; k >= 0; k--) {
+    if (Math.abs(rows[k][k]) <= scale * RANK_TOLERANCE) {
+      return null
+    }
+    let total = rows[k][n]
+    for (let j = k + 1; j < n; j++) total -= rows[k][j] * coefficients[j]
+    coefficients[k] = total / rows[k][k]
+  }
+  return coefficients.map(round)
+}
+
+const evaluatePolynomial = (coefficients: number[], x: number): number =>
+  coefficients.reduceRight((total, coefficient) => total * x + coefficient, 0)
+
+/**
+ * 1 − SSres/SStot of predictions against observations; 1 when every observation is the same
+ */
+const determination = (observed: number[], predicted: number[]): number => {
+  const center = observed.reduce((total, value) => total + value, 0) / observed.length
+  const total = observed.reduce((sum, value) => sum + (value - center) ** 2, 0)
+  const residual = observed.reduce((sum, value, k) => sum + (value - predicted[k]) ** 2, 0)
+  return total === 0 ? 1 : 1 - residual / total
+}
+
+/**
+ * Expression text of a sum of terms, writing `- 2 * x` rather than `+ -2 * x`
+ */
+const joinTerms = (terms: { coefficient: number; factor: string }[]): string =>
+  terms
+    .map(({ coefficient, factor }, k) => {
+      const magnitude = k === 0 ? String(coefficient) : String(Math.abs(coefficient))
+      const term = factor ? `${magnitude} * ${factor}` : magnitude
+      if (k === 0) return term
+      return `${coefficient < 0 ? '-' : '+'} ${term}`
+    })
+    .join(' ')
+
+const powerOf = (exponent: number): string => (exponent < 0 ? `(${exponent})` : String(exponent))
+
+const equationOf = (model: RegressionModel, coefficients: number[]): string => {
+  const [a, b] = coefficients
+  switch (model) {
+    case 'linear':
+    case 'polynomial':
+      return joinTerms(
+        coefficients.map((coefficient, k) => ({
+          coefficient,
+          factor: k === 0 ? '' : k === 1 ? 'x' : `x^${k}`,
+        }))
+      )
+    case 'exponential':
+      return `${a} * exp(${b} * x)`
+    case 'logarithmic':
+      return joinTerms([
+        { coefficient: a, factor: '' },
+        { coefficient: b, factor: 'ln(x)' },
+      ])
+    case 'power':
+      return `${a} * x^${powerOf(b)}`
+  }
+}
+
+/**
+ * Fit a model to paired data
+ * @param degree - Degree of a polynomial fit, 1 to MAX_POLYNOMIAL_DEGREE
+ * @returns The fit, or a message saying why the data cannot be fitted: too few points, x or y
+ *   values outside the model's domain (ln needs positive values) or x values that are all the
+ *   same
+ */
+export const fitRegression = (
+  model: RegressionModel,
+  xs: number[],
+  ys: number[],
+  degree = 2
+): RegressionResult => {
+  const fail = (message: string): RegressionResult => ({ ok: false, message })
+  if (xs.length !== ys.length) {
+    return fail('x and y need the same number of values')
+  }
+  if (model === 'polynomial' && !(Number.isInteger(degree) && degree >= 1)) {
+    return fail('The degree of a polynomial fit is a whole number from 1')
+  }
+  if (model === 'polynomial' && degree > MAX_POLYNOMIAL_DEGREE) {
+    return fail(`The degree of a polynomial fit is at most ${MAX_POLYNOMIAL_DEGREE}`)
+  }
+  const parameters = model === 'polynomial' ? degree + 1 : 2
+  if (xs.length < parameters) {
+    return fail(`${fitName(model)} needs at least ${parameters} points`)
+  }
+  if ([...xs, ...ys].some(value => !isFinite(value))) {
+    return fail('Every value needs to be a finite number')
+  }
+  if ((model === 'logarithmic' || model === 'power') && xs.some(x => x <= 0)) {
+    return fail(`${fitName(model)} needs positive x values`)
+  }
+  if ((model === 'exponential' || model === 'power') && ys.some(y => y <= 0)) {
+    return fail(`${fitName(model)} needs positive y values`)
+  }
+
+  // Every model is a polynomial in transformed data
+  const u = model === 'logarithmic' || model === 'power' ? xs.map(Math.log) : xs
+  const v = model === 'exponential' || model === 'power' ? ys.map(Math.log) : ys
+  const line = polynomialCoefficients(u, v, model === 'polynomial' ? degree : 1)
+  if (!line) {
+    return fail('The x values need to differ to fit a curve through them')
+  }
+  const coefficients =
+    model === 'exponential' || model === 'power' ? [round(Math.exp(line[0])), line[1]] : line
+  const r2 = determination(
+    v,
+    u.map(value => evaluatePolynomial(line, value))
+  )
+
+  const predict = (x: number): number => {
+    const [a, b] = coefficients
+    switch (model) {
+      case 'exponential':
+        return a * Math.exp(b * x)
+      case 'logarithmic':
+        return a + b * Math.log(x)
+      case 'power':
+        return a * x ** b
+      default:
+        return evaluatePolynomial(coefficients, x)
+    }
+  }
+
+  return {
+    ok: true,
+    regression: {
+      model,
+      coefficients,
+      r2: round(r2),
+      residuals: ys.map((y, k) => round(y - predict(xs[k]))),
+      equation: equationOf(model, coefficients),
+    },
+  }
+}
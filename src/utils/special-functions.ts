@@ -0,0 +1,379 @@
+/**
+ * Special Functions
+ * Real-valued gamma, log-gamma and beta with their regularized incomplete forms, the error
+ * functions, Bessel functions of integer order and the Lambert W function, accurate to a few
+ * units in the last place of a double away from zeros and poles
+ */
+
+/**
+ * Lanczos approximation coefficients (g = 7, n = 9)
+ */
+export const LANCZOS_G = 7
+export const LANCZOS_COEFFICIENTS = [
+  0.99999999999980993, 676.5203681218851, -1259.1392167224028, 771.32342877765313,
+  -176.61502916214059, 12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6,
+  1.5056327351493116e-7,
+]
+
+/**
+ * Largest n with a finite n!; Γ(x) overflows a double above 171.62
+ */
+export const MAX_FLOAT_FACTORIAL = 170
+
+/**
+ * Euler–Mascheroni constant γ
+ */
+const EULER_GAMMA = 0.5772156649015329
+
+const lanczosSum = (z: number): number => {
+  let sum = LANCZOS_COEFFICIENTS[0]
+  for (let k = 1; k < LANCZOS_COEFFICIENTS.length; k++) {
+    sum += LANCZOS_COEFFICIENTS[k] / (z + k)
+  }
+  return sum
+}
+
+/**
+ * Whether x is a pole of the gamma function: 0, -1, -2, ...
+ */
+export const isGammaPole = (x: number): boolean => x <= 0 && Number.isInteger(x)
+
+/**
+ * Gamma function, exact at the positive integers (Γ(n) = (n − 1)!) and NaN at its poles
+ */
+export const gamma = (x: number): number => {
+  if (isGammaPole(x)) return NaN
+  if (Number.isInteger(x) && x <= MAX_FLOAT_FACTORIAL + 1) {
+    let result = 1
+    for (let i = 2; i < x; i++) {
+      result *= i
+    }
+    return result
+  }
+  if (x < 0.5) {
+    // Γ(x) Γ(1 − x) = π / sin(πx)
+    return Math.PI / (Math.sin(Math.PI * x) * gamma(1 - x))
+  }
+  const z = x - 1
+  const t = z + LANCZOS_G + 0.5
+  // t^(z + 1/2) is split in two so it does not overflow before e^−t brings it back
+  const power = Math.pow(t, (z + 0.5) / 2)
+  return Math.sqrt(2 * Math.PI) * lanczosSum(z) * (power * (Math.exp(-t) * power))
+}
+
+/**
+ * Natural logarithm of |Γ(x)|, finite far beyond where Γ overflows; Infinity at the poles
+ */
+export const lnGamma = (x: number): number => {
+  if (isGammaPole(x)) return Infinity
+  if (x === 1 || x === 2) return 0
+  if (x < 0.5) {
+    return Math.log(Math.PI / Math.abs(Math.sin(Math.PI * x))) - lnGamma(1 - x)
+  }
+  const z = x - 1
+  const t = z + LANCZOS_G + 0.5
+  return 0.5 * Math.log(2 * Math.PI) + (z + 0.5) * Math.log(t) - t + Math.log(lanczosSum(z))
+}
+
+/**
+ * Sign of Γ(x): positive for x > 0, alternating between the negative poles
+ */
+const gammaSign = (x: number): number => (x > 0 || Math.ceil(-x) % 2 === 0 ? 1 : -1)
+
+/**
+ * Beta function B(a, b) = Γ(a) Γ(b) / Γ(a + b); NaN when a or b is a pole of gamma
+ */
+export const beta = (a: number, b: number): number => {
+  if (isGammaPole(a) || isGammaPole(b)) return NaN
+  if (isGammaPole(a + b)) return 0
+  if (Math.max(a, b, a + b) <= MAX_FLOAT_FACTORIAL) {
+    return (gamma(a) * gamma(b)) / gamma(a + b)
+  }
+  const sign = gammaSign(a) * gammaSign(b) * gammaSign(a + b)
+  return sign * Math.exp(lnGamma(a) + lnGamma(b) - lnGamma(a + b))
+}
+
+/**
+ * Smallest magnitude Lentz's method lets a denominator take
+ */
+const TINY = 1e-300
+
+/**
+ * Iteration limit of the incomplete gamma and beta series and continued fractions
+ */
+const MAX_ITERATIONS = 10000
+
+/**
+ * P(a, x) by its series e^(−x) x^a / Γ(a) Σ xⁿ / (a (a + 1) … (a + n)), for x < a + 1
+ */
+const gammaSeries = (a: number, x: number): number => {
+  let term = 1 / a
+  let sum = term
+  for (let n = 1; n < MAX_ITERATIONS && Math.abs(term) > 1e-17 * Math.abs(sum); n++) {
+    term *= x / (a + n)
+    sum += term
+  }
+  return sum * Math.exp(a * Math.log(x) - x - lnGamma(a))
+}
+
+/**
+ * Q(a, x) by its continued fraction, evaluated by Lentz's method, for x ≥ a + 1
+ */
+const gammaFraction = (a: number, x: number): number => {
+  let b = x + 1 - a
+  let c = 1 / TINY
+  let d = 1 / b
+  let f = d
+  for (let n = 1; n < MAX_ITERATIONS; n++) {
+    const an = -n * (n - a)
+    b += 2
+    d = an * d + b
+    d = 1 / (Math.abs(d) < TINY ? TINY : d)
+    c = b + an / c
+    if (Math.abs(c) < TINY) c = TINY
+    const delta = c * d
+    f *= delta
+    if (Math.abs(delta - 1) < 1e-16) break
+  }
+  return f * Math.exp(a * Math.log(x) - x - lnGamma(a))
+}
+
+/**
+ * Regularized lower incomplete gamma P(a, x) = γ(a, x) / Γ(a) for a > 0 and x ≥ 0, behind the
+ * chi-square and Poisson distribution functions; NaN outside them
+ */
+export const regularizedGammaP = (a: number, x: number): number => {
+  if (!(a > 0 && x >= 0)) return NaN
+  if (x === 0) return 0
+  if (x < a + 1) return gammaSeries(a, x)
+  return 1 - gammaFraction(a, x)
+}
+
+/**
+ * Regularized upper incomplete gamma Q(a, x) = 1 − P(a, x), without losing the small values of
+ * large x
+ */
+export const regularizedGammaQ = (a: number, x: number): number => {
+  if (!(a > 0 && x >= 0)) return NaN
+  if (x === 0) return 1
+  if (x < a + 1) return 1 - gammaSeries(a, x)
+  return gammaFraction(a, x)
+}
+
+/**
+ * Continued fraction of the incomplete beta function, evaluated by Lentz's method; converges
+ * quickly for x < (a + 1) / (a + b + 2)
+ */
+const betaFraction = (a: number, b: number, x: number): number => {
+  let c = 1
+  let d = 1 - ((a + b) * x) / (a + 1)
+  d = 1 / (Math.abs(d) < TINY ? TINY : d)
+  let f = d
+  for (let m = 1; m < MAX_ITERATIONS; m++) {
+    // Even and odd steps of the fraction have different numerators
+    const even = (m * (b - m) * x) / ((a + 2 * m - 1) * (a + 2 * m))
+    d = 1 + even * d
+    d = 1 / (Math.abs(d) < TINY ? TINY : d)
+    c = 1 + even / c
+    if (Math.abs(c) < TINY) c = TINY
+    f *= d * c
+    const odd = (-(a + m) * (a + b + m) * x) / ((a + 2 * m) * (a + 2 * m + 1))
+    d = 1 + odd * d
+    d = 1 / (Math.abs(d) < TINY ? TINY : d)
+    c = 1 + odd / c
+    if (Math.abs(c) < TINY) c = TINY
+    const delta = d * c
+    f *= delta
+    if (Math.abs(delta - 1) < 1e-16) break
+  }
+  return f
+}
+
+/**
+ * Regularized incomplete beta Iₓ(a, b) = B(x; a, b) / B(a, b) for a, b > 0 and 0 ≤ x ≤ 1, the
+ * distribution function behind Student's t, F and the binomial; NaN outside them
+ */
+export const regularizedBeta = (x: number, a: number, b: number): number => {
+  if (!(a > 0 && b > 0 && x >= 0 && x <= 1)) return NaN
+  if (x === 0 || x === 1) return x
+  const front = Math.exp(
+    lnGamma(a + b) - lnGamma(a) - lnGamma(b) + a * Math.log(x) + b * Math.log1p(-x)
+  )
+  // Iₓ(a, b) = 1 − I₁₋ₓ(b, a) moves x to where the fraction converges
+  if (x < (a + 1) / (a + b + 2)) return (front * betaFraction(a, b, x)) / a
+  return 1 - (front * betaFraction(b, a, 1 - x)) / b
+}
+
+/**
+ * erf by its series with positive terms, 2/√π e^(−x²) Σ 2ⁿ x^(2n+1) / (2n + 1)!!, which
+ * does not cancel
+ */
+const erfSeries = (x: number): number => {
+  const x2 = x * x
+  let term = x
+  let sum = x
+  for (let n = 1; Math.abs(term) > 1e-17 * Math.abs(sum); n++) {
+    term *= (2 * x2) / (2 * n + 1)
+    sum += term
+  }
+  return (2 / Math.sqrt(Math.PI)) * Math.exp(-x2) * sum
+}
+
+/**
+ * erfc of x ≥ 1/2 by its continued fraction
+ * e^(−x²)/√π · 1/(x + (1/2)/(x + 1/(x + (3/2)/(x + ...)))), evaluated by Lentz's method
+ */
+const erfcFraction = (x: number): number => {
+  const tiny = 1e-300
+  let f = x
+  let c = x
+  let d = 0
+  for (let n = 1; n < 10000; n++) {
+    const a = n / 2
+    d = x + a * d
+    d = 1 / (d === 0 ? tiny : d)
+    c = x + a / c
+    if (c === 0) c = tiny
+    const delta = c * d
+    f *= delta
+    if (Math.abs(delta - 1) < 1e-16) break
+  }
+  return Math.exp(-x * x) / (Math.sqrt(Math.PI) * f)
+}
+
+/**
+ * Error function
+ */
+export const erf = (x: number): number => {
+  if (Number.isNaN(x)) return NaN
+  if (Math.abs(x) < 3) return erfSeries(x)
+  return Math.sign(x) * (1 - erfcFraction(Math.abs(x)))
+}
+
+/**
+ * Complementary error function 1 − erf(x), without losing the small values of large x
+ */
+export const erfc = (x: number): number => {
+  if (Number.isNaN(x)) return NaN
+  if (x < 0) return 2 - erfc(-x)
+  if (x < 0.5) return 1 - erfSeries(x)
+  return erfcFraction(x)
+}
+
+/**
+ * J₀(x) … J_order(x) for x > 0 by Miller's backward recurrence, normalized with
+ * J₀ + 2 Σ J₂ₖ = 1
+ */
+const besselJSequence = (x: number, order: number): number[] => {
+  const size = Math.max(x, order)
+  // Start far enough above both x and the order that the starting error has died out
+  const start = 2 * Math.ceil((size + 20 + Math.sqrt(40 * size)) / 2)
+  const values = new Array<number>(start + 1).fill(0)
+  let next = 0
+  let current = 1e-300
+  let norm = 0
+  for (let k = start; k >= 0; k--) {
+    values[k] = current
+    if (k % 2 === 0) norm += k === 0 ? current : 2 * current
+    const previous = ((2 * k) / x) * current - next
+    next = current
+    current = previous
+    if (Math.abs(current) > 1e250) {
+      for (let j = k; j <= start; j++) values[j] *= 1e-250
+      norm *= 1e-250
+      next *= 1e-250
+      current *= 1e-250
+    }
+  }
+  return values.slice(0, order + 1).map(value => value / norm)
+}
+
+/**
+ * Bessel function of the first kind Jₙ(x) of integer order
+ */
+export const besselJ = (n: number, x: number): number => {
+  // J₋ₙ = (−1)ⁿ Jₙ and Jₙ(−x) = (−1)ⁿ Jₙ(x)
+  const sign = (n < 0 ? (-1) ** n : 1) * (x < 0 ? (-1) ** n : 1)
+  const order = Math.abs(n)
+  if (x === 0) return order === 0 ? 1 : 0
+  return sign * besselJSequence(Math.abs(x), order)[order]
+}
+
+/**
+ * Bessel function of the second kind Yₙ(x) of integer order, for x > 0; Y₀ and Y₁ come from
+ * their Neumann series in the Jₖ and the rest from the forward recurrence, which is stable
+ */
+export const besselY = (n: number, x: number): number => {
+  if (!(x > 0)) return NaN
+  const order = Math.abs(n)
+  const size = Math.max(x, order)
+  const j = besselJSequence(x, 2 * Math.ceil((size + 20 + Math.sqrt(40 * size)) / 2) - 1)
+  const logTerm = Math.log(x / 2) + EULER_GAMMA
+
+  let series0 = 0
+  let series1 = 0
+  for (let k = 1; 2 * k + 1 < j.length; k++) {
+    const sign = k % 2 === 0 ? 1 : -1
+    series0 += (sign * j[2 * k]) / k
+    series1 += (sign * (2 * k + 1) * j[2 * k + 1]) / (k * (k + 1))
+  }
+  let previous = (2 / Math.PI) * logTerm * j[0] - (4 / Math.PI) * series0
+  if (order === 0) return previous
+  let current =
+    (-2 / (Math.PI * x)) * j[0] + (2 / Math.PI) * (logTerm - 1) * j[1] - (2 / Math.PI) * series1
+  for (let k = 1; k < order; k++) {
+    const next = ((2 * k) / x) * current - previous
+    previous = current
+    current = next
+  }
+  // Y₋ₙ = (−1)ⁿ Yₙ
+  return n < 0 && order % 2 === 1 ? -current : current
+}
+
+/**
+ * Lambert W: the w with w·eʷ = x, on the principal branch (w ≥ −1, x ≥ −1/e) or the lower
+ * branch −1 (w ≤ −1, −1/e ≤ x < 0); NaN outside them
+ */
+export const lambertW = (x: number, branch: 0 | -1 = 0): number => {
+  const branchPoint = -1 / Math.E
+  if (Number.isNaN(x) || x < branchPoint - 1e-16 || (branch === -1 && x >= 0)) return NaN
+  if (x <= branchPoint) return -1
+  if (x === 0) return 0
+  if (x === Infinity) return Infinity
+
+  if (branch === 0 && x > Math.E) {
+    // Newton's method on w + ln w = ln x, which never forms eʷ
+    const lnX = Math.log(x)
+    let w = lnX - Math.log(lnX)
+    for (let i = 0; i < 50; i++) {
+      const step = (w + Math.log(w) - lnX) / (1 + 1 / w)
+      w -= step
+      if (Math.abs(step) <= 1e-16 * Math.abs(w)) break
+    }
+    return w
+  }
+
+  let w: number
+  if (x < -0.25) {
+    // Series about the branch point in p = √(2(ex + 1))
+    const p = Math.sqrt(2 * (Math.E * x + 1)) * (branch === 0 ? 1 : -1)
+    w = -1 + p - (p * p) / 3 + (11 / 72) * p * p * p
+  } else if (branch === 0) {
+    w = Math.log1p(x)
+  } else {
+    const l1 = Math.log(-x)
+    const l2 = Math.log(-l1)
+    w = l1 - l2 + l2 / l1
+  }
+
+  // Halley's method on w·eʷ − x
+  for (let i = 0; i < 50; i++) {
+    const ew = Math.exp(w)
+    const f = w * ew - x
+    const step = f / (ew * (w + 1) - ((w + 2) * f) / (2 * w + 2))
+    if (!Number.isFinite(step)) break
+    w -= step
+    if (Math.abs(step) <= 1e-16 * Math.abs(w)) break
+  }
+  return w
+}
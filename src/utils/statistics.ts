@@ -0,0 +1,153 @@
+/**
+ * Statistics
+ * Summary statistics of data lists, written once over the operations of an arithmetic so
+ * float, decimal and exact fraction evaluation share the same definitions, and reading of
+ * pasted CSV/TSV tables into lists
+ */
+
+/**
+ * The operations a statistic needs from an arithmetic
+ */
+export interface StatisticsArithmetic<T> {
+  fromInteger: (n: number) => T
+  add: (a: T, b: T) => T
+  subtract: (a: T, b: T) => T
+  multiply: (a: T, b: T) => T
+  divide: (a: T, b: T) => T
+  /** Sign of a − b */
+  compare: (a: T, b: T) => number
+}
+
+export const floatArithmetic: StatisticsArithmetic<number> = {
+  fromInteger: n => n,
+  add: (a, b) => a + b,
+  subtract: (a, b) => a - b,
+  multiply: (a, b) => a * b,
+  divide: (a, b) => a / b,
+  compare: (a, b) => Math.sign(a - b),
+}
+
+const sorted = <T>(arithmetic: StatisticsArithmetic<T>, values: T[]): T[] =>
+  [...values].sort(arithmetic.compare)
+
+export const sum = <T>(arithmetic: StatisticsArithmetic<T>, values: T[]): T =>
+  values.reduce((total, value) => arithmetic.add(total, value), arithmetic.fromInteger(0))
+
+export const mean = <T>(arithmetic: StatisticsArithmetic<T>, values: T[]): T =>
+  arithmetic.divide(sum(arithmetic, values), arithmetic.fromInteger(values.length))
+
+export const median = <T>(arithmetic: StatisticsArithmetic<T>, values: T[]): T =>
+  quantile(
+    arithmetic,
+    values,
+    arithmetic.divide(arithmetic.fromInteger(1), arithmetic.fromInteger(2))
+  )
+
+/**
+ * Most frequent value; of several equally frequent values, the smallest
+ * @param values - At least one value; checkDomain rejects calls left without any
+ */
+export const mode = <T>(arithmetic: StatisticsArithmetic<T>, values: T[]): T => {
+  const ordered = sorted(arithmetic, values)
+  let best = ordered[0]
+  let bestCount = 0
+  let run = 0
+  ordered.forEach((value, k) => {
+    run = k > 0 && arithmetic.compare(value, ordered[k - 1]) === 0 ? run + 1 : 1
+    if (run > bestCount) {
+      best = value
+      bestCount = run
+    }
+  })
+  return best
+}
+
+/**
+ * Variance about the mean, dividing by n − 1 for a sample and by n for a whole population
+ */
+export const variance = <T>(
+  arithmetic: StatisticsArithmetic<T>,
+  values: T[],
+  sample: boolean
+): T => {
+  const center = mean(arithmetic, values)
+  const squares = values.map(value => {
+    const deviation = arithmetic.subtract(value, center)
+    return arithmetic.multiply(deviation, deviation)
+  })
+  return arithmetic.divide(
+    sum(arithmetic, squares),
+    arithmetic.fromInteger(sample ? values.length - 1 : values.length)
+  )
+}
+
+/**
+ * Value below which a fraction `p` (0 to 1) of the data lies, interpolating linearly between
+ * the sorted values as spreadsheets' PERCENTILE.INC and QUARTILE.INC do
+ * @param values - At least one value; checkDomain rejects calls left without any
+ */
+export const quantile = <T>(arithmetic: StatisticsArithmetic<T>, values: T[], p: T): T => {
+  const ordered = sorted(arithmetic, values)
+  const position = arithmetic.multiply(arithmetic.fromInteger(ordered.length - 1), p)
+  let lower = 0
+  while (
+    lower < ordered.length - 1 &&
+    arithmetic.compare(arithmetic.fromInteger(lower + 1), position) <= 0
+  ) {
+    lower++
+  }
+  if (lower === ordered.length - 1) {
+    return ordered[lower]
+  }
+  const fraction = arithmetic.subtract(position, arithmetic.fromInteger(lower))
+  const step = arithmetic.subtract(ordered[lower + 1], ordered[lower])
+  return arithmetic.add(ordered[lower], arithmetic.multiply(fraction, step))
+}
+
+/**
+ * Columns of a pasted table
+ */
+export interface DataTable {
+  /** Column headings, when the first row is not numbers */
+  headings: string[] | null
+  /** Cell text of each column from top to bottom; blank cells are left out */
+  columns: string[][]
+}
+
+const NUMBER_CELL = /^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i
+
+/**
+ * Read CSV or TSV text into columns: cells are split on tabs when there are any, otherwise on
+ * commas, semicolons or whitespace. A single row is read as one column, so `1, 2, 3` is one
+ * list of three values.
+ */
+export const parseDataTable = (text: string): DataTable => {
+  const delimiter = text.includes('\t')
+    ? '\t'
+    : text.includes(',')
+      ? ','
+      : text.includes(';')
+        ? ';'
+        : /\s+/
+  const rows = text
+    .split(/\r?\n/)
+    .filter(line => line.trim() !== '')
+    .map(line =>
+      (delimiter instanceof RegExp ? line.trim() : line)
+        .split(delimiter)
+        .map(cell => cell.trim().replace(/^"(.*)"$/, '$1'))
+    )
+
+  if (rows.length === 1) {
+    return { headings: null, columns: [rows[0].filter(cell => cell !== '')] }
+  }
+  const hasHeadings = rows[0].some(cell => cell !== '' && !NUMBER_CELL.test(cell))
+  const headings = hasHeadings ? rows[0] : null
+  const body = hasHeadings ? rows.slice(1) : rows
+
+  const width = Math.max(0, ...body.map(row => row.length))
+  const columns = Array.from({ length: width }, (_, j) =>
+    body.map(row => row[j] ?? '').filter(cell => cell !== '')
+  )
+  return { headings, columns }
+}
@@ -0,0 +1,397 @@
+/**
+ * Units of Measurement
+ * SI, metric and imperial units with SI prefixes, and quantities that keep the units they
+ * were entered in: `72 km/h` stays in km/h until it is converted with `to`
+ */
+
+/**
+ * SI base units, in the order of the exponents of a Dimension
+ */
+export const BASE_UNITS = ['m', 'kg', 's', 'A', 'K', 'mol', 'cd'] as const
+
+type BaseUnit = (typeof BASE_UNITS)[number]
+
+/**
+ * Exponent of each SI base unit: m/s² is [1, 0, -2, 0, 0, 0, 0]
+ */
+export type Dimension = readonly number[]
+
+export interface UnitDefinition {
+  /** Size in SI base units */
+  factor: number
+  dimension: Dimension
+  description: string
+  /** Whether SI prefixes apply (km, ms, kWh) */
+  prefixable?: boolean
+  /** Zero of a temperature scale in kelvin: 0 degC is 273.15 K */
+  offset?: number
+}
+
+/**
+ * Unit raised to a whole power, one factor of a quantity's units
+ */
+export interface UnitTerm {
+  unit: string
+  power: number
+}
+
+const dimensionOf = (exponents: Partial<Record<BaseUnit, number>>): Dimension =>
+  BASE_UNITS.map(base => exponents[base] ?? 0)
+
+const unit = (
+  factor: number,
+  exponents: Partial<Record<BaseUnit, number>>,
+  description: string,
+  prefixable = false
+): UnitDefinition => ({ factor, dimension: dimensionOf(exponents), description, prefixable })
+
+/**
+ * Temperature scale with degrees of `factor` kelvin, whose zero is at `offset` kelvin
+ */
+const temperatureScale = (factor: number, offset: number, description: string): UnitDefinition => ({
+  ...unit(factor, { K: 1 }, description),
+  offset,
+})
+
+const LENGTH = { m: 1 }
+const MASS = { kg: 1 }
+const TIME = { s: 1 }
+const AREA = { m: 2 }
+const VOLUME = { m: 3 }
+const SPEED = { m: 1, s: -1 }
+const FORCE = { kg: 1, m: 1, s: -2 }
+const PRESSURE = { kg: 1, m: -1, s: -2 }
+const ENERGY = { kg: 1, m: 2, s: -2 }
+const POWER = { kg: 1, m: 2, s: -3 }
+
+/**
+ * Units by the name used in expressions; lengths in metres, masses in kilograms and so on
+ */
+export const units: Record<string, UnitDefinition> = {
+  // SI base units (the kilogram is the gram with a prefix)
+  m: unit(1, LENGTH, 'metre', true),
+  g: unit(1e-3, MASS, 'gram', true),
+  s: unit(1, TIME, 'second', true),
+  A: unit(1, { A: 1 }, 'ampere', true),
+  K: unit(1, { K: 1 }, 'kelvin', true),
+  mol: unit(1, { mol: 1 }, 'mole', true),
+  cd: unit(1, { cd: 1 }, 'candela', true),
+
+  // Derived SI units
+  Hz: unit(1, { s: -1 }, 'hertz', true),
+  N: unit(1, FORCE, 'newton', true),
+  Pa: unit(1, PRESSURE, 'pascal', true),
+  J: unit(1, ENERGY, 'joule', true),
+  W: unit(1, POWER, 'watt', true),
+  C: unit(1, { s: 1, A: 1 }, 'coulomb', true),
+  V: unit(1, { kg: 1, m: 2, s: -3, A: -1 }, 'volt', true),
+  F: unit(1, { kg: -1, m: -2, s: 4, A: 2 }, 'farad', true),
+  Ω: unit(1, { kg: 1, m: 2, s: -3, A: -2 }, 'ohm', true),
+  ohm: unit(1, { kg: 1, m: 2, s: -3, A: -2 }, 'ohm', true),
+  S: unit(1, { kg: -1, m: -2, s: 3, A: 2 }, 'siemens', true),
+  Wb: unit(1, { kg: 1, m: 2, s: -2, A: -1 }, 'weber', true),
+  T: unit(1, { kg: 1, s: -2, A: -1 }, 'tesla', true),
+  H: unit(1, { kg: 1, m: 2, s: -2, A: -2 }, 'henry', true),
+
+  // Other metric units
+  L: unit(1e-3, VOLUME, 'litre', true),
+  eV: unit(1.602176634e-19, ENERGY, 'electronvolt', true),
+  Wh: unit(3600, ENERGY, 'watt-hour', true),
+  cal: unit(4.184, ENERGY, 'calorie', true),
+  bar: unit(1e5, PRESSURE, 'bar', true),
+  tonne: unit(1000, MASS, 'tonne'),
+  ha: unit(1e4, AREA, 'hectare'),
+  atm: unit(101325, PRESSURE, 'standard atmosphere'),
+  mmHg: unit(133.322387415, PRESSURE, 'millimetre of mercury'),
+  min: unit(60, TIME, 'minute'),
+  h: unit(3600, TIME, 'hour'),
+  day: unit(86400, TIME, 'day'),
+  week: unit(604800, TIME, 'week'),
+  yr: unit(31557600, TIME, 'Julian year'),
+  degC: temperatureScale(1, 273.15, 'degree Celsius'),
+
+  // Imperial and US customary units
+  in: unit(0.0254, LENGTH, 'inch'),
+  ft: unit(0.3048, LENGTH, 'foot'),
+  yd: unit(0.9144, LENGTH, 'yard'),
+  mi: unit(1609.344, LENGTH, 'mile'),
+  nmi: unit(1852, LENGTH, 'nautical mile'),
+  acre: unit(4046.8564224, AREA, 'acre'),
+  mph: unit(0.44704, SPEED, 'mile per hour'),
+  kn: unit(1852 / 3600, SPEED, 'knot'),
+  oz: unit(0.028349523125, MASS, 'ounce'),
+  lb: unit(0.45359237, MASS, 'pound'),
+  st: unit(6.35029318, MASS, 'stone'),
+  ton: unit(907.18474, MASS, 'short ton'),
+  lbf: unit(4.4482216152605, FORCE, 'pound-force'),
+  psi: unit(6894.757293168361, PRESSURE, 'pound per square inch'),
+  floz: unit(2.95735295625e-5, VOLUME, 'US fluid ounce'),
+  pt: unit(4.73176473e-4, VOLUME, 'US pint'),
+  qt: unit(9.46352946e-4, VOLUME, 'US quart'),
+  gal: unit(3.785411784e-3, VOLUME, 'US gallon'),
+  hp: unit(745.6998715822702, POWER, 'mechanical horsepower'),
+  BTU: unit(1055.05585262, ENERGY, 'British thermal unit'),
+  degF: temperatureScale(5 / 9, 459.67 * (5 / 9), 'degree Fahrenheit'),
+}
+
+/**
+ * SI prefixes as powers of ten; μ (or µ, u) stands for micro
+ */
+const prefixes: Record<string, { exponent: number; name: string }> = {
+  Y: { exponent: 24, name: 'yotta' },
+  Z: { exponent: 21, name: 'zetta' },
+  E: { exponent: 18, name: 'exa' },
+  P: { exponent: 15, name: 'peta' },
+  T: { exponent: 12, name: 'tera' },
+  G: { exponent: 9, name: 'giga' },
+  M: { exponent: 6, name: 'mega' },
+  k: { exponent: 3, name: 'kilo' },
+  h: { exponent: 2, name: 'hecto' },
+  da: { exponent: 1, name: 'deca' },
+  d: { exponent: -1, name: 'deci' },
+  c: { exponent: -2, name: 'centi' },
+  m: { exponent: -3, name: 'milli' },
+  μ: { exponent: -6, name: 'micro' },
+  µ: { exponent: -6, name: 'micro' },
+  u: { exponent: -6, name: 'micro' },
+  n: { exponent: -9, name: 'nano' },
+  p: { exponent: -12, name: 'pico' },
+  f: { exponent: -15, name: 'femto' },
+  a: { exponent: -18, name: 'atto' },
+  z: { exponent: -21, name: 'zepto' },
+  y: { exponent: -24, name: 'yocto' },
+}
+
+const hasOwn = (table: object, name: string): boolean =>
+  Object.prototype.hasOwnProperty.call(table, name)
+
+/**
+ * Find a unit by name; a name that is not a unit itself may be a prefixed one (km, μs, kWh)
+ * @returns undefined when the name is not a unit
+ */
+export const lookupUnit = (name: string): UnitDefinition | undefined => {
+  if (hasOwn(units, name)) {
+    return units[name]
+  }
+  for (const prefix of Object.keys(prefixes)) {
+    const base = name.slice(prefix.length)
+    if (name.startsWith(prefix) && hasOwn(units, base) && units[base].prefixable) {
+      const { factor, dimension, description } = units[base]
+      const { exponent, name: prefixName } = prefixes[prefix]
+      // Dividing by a power of ten keeps small factors such as 1e-9 exact
+      const scaled = exponent > 0 ? factor * 10 ** exponent : factor / 10 ** -exponent
+      return { factor: scaled, dimension, description: prefixName + description }
+    }
+  }
+  return undefined
+}
+
+export const isUnitName = (name: string): boolean => lookupUnit(name) !== undefined
+
+const unitOf = (name: string): UnitDefinition => {
+  const definition = lookupUnit(name)
+  if (!definition) {
+    throw new RangeError(`'${name}' is not a unit`)
+  }
+  return definition
+}
+
+const NO_DIMENSION: Dimension = BASE_UNITS.map(() => 0)
+
+/**
+ * Combined dimension of unit terms
+ */
+export const dimensionOfTerms = (terms: readonly UnitTerm[]): Dimension =>
+  terms.reduce(
+    (dimension, term) =>
+      dimension.map((exponent, k) => exponent + unitOf(term.unit).dimension[k] * term.power),
+    NO_DIMENSION
+  )
+
+export const sameDimension = (a: Dimension, b: Dimension): boolean =>
+  a.every((exponent, k) => exponent === b[k])
+
+/**
+ * Significant digits a converted value is rounded to, which removes the noise of inexact
+ * factor ratios such as 0.3048 / 0.0254 for feet to inches
+ */
+const CONVERSION_DIGITS = 15
+
+/**
+ * A converted value rounded to CONVERSION_DIGITS significant digits
+ */
+export const roundConverted = (value: number): number =>
+  isFinite(value) ? Number(value.toPrecision(CONVERSION_DIGITS)) : value
+
+/**
+ * Zero point of a lone temperature unit (degC, degF, K); undefined for any other units
+ */
+const temperatureOffset = (terms: readonly UnitTerm[]): number | undefined => {
+  if (terms.length !== 1 || terms[0].power !== 1) {
+    return undefined
+  }
+  const definition = unitOf(terms[0].unit)
+  return sameDimension(definition.dimension, dimensionOf({ K: 1 }))
+    ? (definition.offset ?? 0)
+    : undefined
+}
+
+/**
+ * Express a value in `from` units in `to` units of the same dimension
+ * Factors above and below the fraction bar are applied separately so exact conversions such
+ * as 72 km/h → 20 m/s stay exact.
+ * @param absolute - Read a lone temperature unit as a point on its scale (1 K is -272.15 degC)
+ *   rather than as a size of degree (a difference of 1 K is one of 1 degC)
+ */
+const convertValue = (
+  value: number,
+  from: readonly UnitTerm[],
+  to: readonly UnitTerm[],
+  absolute = false
+) => {
+  const fromOffset = temperatureOffset(from)
+  const toOffset = temperatureOffset(to)
+  if (absolute && fromOffset !== undefined && toOffset !== undefined) {
+    // Rounded before the zero of the target scale is taken off, so 32 degF is exactly 0 degC
+    const kelvin = roundConverted(value * unitOf(from[0].unit).factor + fromOffset)
+    return roundConverted((kelvin - toOffset) / unitOf(to[0].unit).factor)
+  }
+  let numerator = 1
+  let denominator = 1
+  const scale = (terms: readonly UnitTerm[], sign: number) =>
+    terms.forEach(({ unit: name, power }) => {
+      const size = Math.pow(unitOf(name).factor, Math.abs(power))
+      if (power * sign > 0) numerator *= size
+      else denominator *= size
+    })
+  scale(from, 1)
+  scale(to, -1)
+  if (numerator === denominator) {
+    return value
+  }
+  return roundConverted((value * numerator) / denominator)
+}
+
+/**
+ * Unit text that reads back as an expression: `m`, `km/h`, `kg m^2/s^2`, `m^3/(kg s^2)`
+ */
+export const formatUnits = (terms: readonly UnitTerm[]): string => {
+  const factor = ({ unit: name, power }: UnitTerm, sign: number) =>
+    power * sign === 1 ? name : `${name}^${power * sign}`
+  const above = terms.filter(term => term.power > 0).map(term => factor(term, 1))
+  const below = terms.filter(term => term.power < 0).map(term => factor(term, -1))
+  if (above.length === 0) {
+    return terms.map(term => factor(term, 1)).join(' ')
+  }
+  if (below.length === 0) {
+    return above.join(' ')
+  }
+  return `${above.join(' ')}/${below.length === 1 ? below[0] : `(${below.join(' ')})`}`
+}
+
+/**
+ * Immutable floating-point value with units
+ * The value is in the units of `terms`. Units of the same kind are not mixed within one
+ * quantity: multiplying by one converts it to the unit already present (3 m/s × 2 min = 360 m),
+ * and a quantity whose units cancel becomes a plain number.
+ */
+export class Quantity {
+  readonly value: number
+  readonly terms: readonly UnitTerm[]
+
+  constructor(value: number, terms: readonly UnitTerm[] = []) {
+    const kept = terms.filter(term => term.power !== 0)
+    if (kept.length > 0 && sameDimension(dimensionOfTerms(kept), NO_DIMENSION)) {
+      this.value = convertValue(value, kept, [])
+      this.terms = []
+    } else {
+      this.value = value
+      this.terms = kept
+    }
+  }
+
+  /**
+   * One of the named unit, such as the `km` in `72 km/h`
+   */
+  static unit(name: string): Quantity {
+    return new Quantity(1, [{ unit: name, power: 1 }])
+  }
+
+  get dimension(): Dimension {
+    return dimensionOfTerms(this.terms)
+  }
+
+  hasUnits(): boolean {
+    return this.terms.length > 0
+  }
+
+  /**
+   * Whether values can be added or compared: the same dimension, or a plain zero, which
+   * fits any unit
+   */
+  isCompatible(other: Quantity): boolean {
+    return (
+      sameDimension(this.dimension, other.dimension) ||
+      (!this.hasUnits() && this.value === 0) ||
+      (!other.hasUnits() && other.value === 0)
+    )
+  }
+
+  withValue(value: number): Quantity {
+    return new Quantity(value, this.terms)
+  }
+
+  /**
+   * The same quantity in other units of the same dimension
+   * @param absolute - Read a lone temperature unit as a temperature, not a difference: 0 degC
+   *   is 32 degF, while 20 degC + 1 degF adds a difference of 5/9 degC
+   */
+  convertTo(terms: readonly UnitTerm[], absolute = false): Quantity {
+    return new Quantity(convertValue(this.value, this.terms, terms, absolute), terms)
+  }
+
+  /**
+   * The same quantity in SI base units (kg m^2/s^2 for joules)
+   */
+  toBaseUnits(): Quantity {
+    const terms = BASE_UNITS.map((base, k) => ({ unit: base, power: this.dimension[k] }))
+    return this.convertTo(terms.filter(term => term.power !== 0))
+  }
+
+  /**
+   * Units of a product (sign 1) or quotient (sign −1) with `other`, and the factor the
+   * other value needs to be expressed in them
+   */
+  combine(other: Quantity, sign: number): { terms: UnitTerm[]; scale: number } {
+    const terms = this.terms.map(term => ({ ...term }))
+    let scale = 1
+    other.terms.forEach(({ unit: name, power }) => {
+      const dimension = unitOf(name).dimension
+      const match =
+        terms.find(term => term.unit === name) ??
+        terms.find(term => sameDimension(unitOf(term.unit).dimension, dimension))
+      if (!match) {
+        terms.push({ unit: name, power: power * sign })
+        return
+      }
+      scale = convertValue(scale, [{ unit: name, power }], [{ unit: match.unit, power }])
+      match.power += power * sign
+    })
+    return { terms, scale }
+  }
+
+  /**
+   * Units of this quantity raised to a power; null when a power would not be whole
+   */
+  raisedTerms(exponent: number): UnitTerm[] | null {
+    const terms = this.terms.map(term => ({ unit: term.unit, power: term.power * exponent }))
+    return terms.every(term => Number.isInteger(term.power)) ? terms : null
+  }
+
+  /**
+   * Text that reads back as an expression: `360 m`, `20 m/s`, or the number alone
+   */
+  toString(): string {
+    return this.hasUnits() ? `${this.value} ${formatUnits(this.terms)}` : String(this.value)
+  }
+}
@@ -0,0 +1,136 @@
+/**
+ * Workspace Persistence
+ * Saves the user's variables, functions and data lists as JSON and restores them, validating every entry
+ * again so a hand-edited or outdated save cannot put invalid definitions into the calculator
+ */
+
+import { Workspace } from '@/types/calculator'
+import { UserFunction } from '@/types/expression'
+import { checkVariableName, defineFunction } from '@/utils/calculator-math'
+import { isCalculatorError } from '@/utils/calculator-errors'
+import { parseExpression } from '@/utils/expression-parser'
+
+/**
+ * localStorage key the calculator page saves its workspace under
+ */
+export const WORKSPACE_STORAGE_KEY = 'keystone-calc:workspace'
+
+const WORKSPACE_VERSION = 1
+
+export const emptyWorkspace = (): Workspace => ({ variables: {}, functions: {}, lists: {} })
+
+/**
+ * Workspace as JSON text
+ */
+export const serializeWorkspace = (workspace: Workspace): string =>
+  JSON.stringify({
+    version: WORKSPACE_VERSION,
+    variables: workspace.variables,
+    functions: Object.values(workspace.functions),
+    lists: workspace.lists,
+  })
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const isUserFunction = (value: unknown): value is UserFunction =>
+  isRecord(value) &&
+  typeof value.name === 'string' &&
+  typeof value.body === 'string' &&
+  Array.isArray(value.params) &&
+  value.params.every(param => typeof param === 'string')
+
+/**
+ * Whether stored variable text is a number the evaluators can read back
+ */
+const isNumberText = (text: string): boolean => {
+  try {
+    parseExpression(text)
+    return true
+  } catch (error) {
+    if (isCalculatorError(error)) return false
+    throw error
+  }
+}
+
+/**
+ * Read workspace JSON; variables, functions and lists that no longer validate are dropped, and
+ * saves from before lists existed have none
+ * @returns null when the text is not a saved workspace
+ */
+export const parseWorkspace = (json: string): Workspace | null => {
+  let data: unknown
+  try {
+    data = JSON.parse(json)
+  } catch {
+    return null
+  }
+  if (!isRecord(data) || data.version !== WORKSPACE_VERSION) {
+    return null
+  }
+
+  const variables: Record<string, string> = {}
+  if (isRecord(data.variables)) {
+    Object.entries(data.variables).forEach(([name, value]) => {
+      if (typeof value === 'string' && !checkVariableName(name) && isNumberText(value)) {
+        variables[name] = value
+      }
+    })
+  }
+
+  // Every saved function is in scope while each one is checked, so calls between them resolve
+  const saved = Array.isArray(data.functions) ? data.functions.filter(isUserFunction) : []
+  const candidates = Object.fromEntries(saved.map(definition => [definition.name, definition]))
+  const functions: Record<string, UserFunction> = {}
+  saved.forEach(({ name, params, body }) => {
+    const result = defineFunction(`${name}(${params.join(', ')}) = ${body}`, {
+      angleMode: 'rad',
+      complex: true,
+      variables,
+      functions: candidates,
+    })
+    if (result?.ok && result.definition.name === name) {
+      functions[name] = result.definition
+    }
+  })
+
+  const lists: Record<string, string[]> = {}
+  if (isRecord(data.lists)) {
+    Object.entries(data.lists).forEach(([name, values]) => {
+      if (
+        !checkVariableName(name) &&
+        Array.isArray(values) &&
+        values.length > 0 &&
+        values.every(value => typeof value === 'string' && isNumberText(value))
+      ) {
+        lists[name] = values
+      }
+    })
+  }
+
+  return { variables, functions, lists }
+}
+
+/**
+ * Load the workspace saved under a localStorage key
+ * @returns An empty workspace when nothing usable is stored or storage is unavailable
+ */
+export const loadWorkspace = (key: string): Workspace => {
+  try {
+    const json = localStorage.getItem(key)
+    return (json && parseWorkspace(json)) || emptyWorkspace()
+  } catch {
+    return emptyWorkspace()
+  }
+}
+
+/**
+ * Save the workspace under a localStorage key; storage errors (quota, private mode) are ignored
+ */
+export const saveWorkspace = (key: string, workspace: Workspace): void => {
+  try {
+    localStorage.setItem(key, serializeWorkspace(workspace))
+  } catch {
+    // The workspace still works for this session
+  }
+}